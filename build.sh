@@ -18,18 +18,23 @@ cat dist/bootstrap.js \
     dist/util/Rand.js \
     dist/util/DebugLogger.js \
     dist/util/Logging.js \
+    dist/util/Screen.js \
     dist/util/Config.js \
     dist/timing/Clock.js \
     dist/timing/FixedTimestep.js \
     dist/input/InputMap.js \
+    dist/input/KeyBindingStore.js \
     dist/input/Controls.js \
+    dist/input/ScriptedInput.js \
     dist/entities/Entity.js \
     dist/entities/Driver.js \
     dist/entities/HumanDriver.js \
     dist/entities/CpuDriver.js \
     dist/entities/CommuterDriver.js \
     dist/entities/RacerDriver.js \
+    dist/entities/RemoteDriver.js \
     dist/entities/CarCatalog.js \
+    dist/entities/RivalRoster.js \
     dist/entities/Vehicle.js \
     dist/world/Road.js \
     dist/world/TrackCatalog.js \
@@ -52,6 +57,10 @@ cat dist/bootstrap.js \
     dist/hud/PositionIndicator.js \
     dist/highscores/HighScoreManager.js \
     dist/highscores/HighScoreDisplay.js \
+    dist/highscores/GhostStore.js \
+    dist/highscores/ReplayStore.js \
+    dist/multiplayer/RaceChannel.js \
+    dist/multiplayer/Lobby.js \
     dist/render/cp437/Palette.js \
     dist/render/cp437/GlyphAtlas.js \
     dist/render/cp437/SceneComposer.js \
@@ -98,18 +107,43 @@ cat dist/bootstrap.js \
     dist/render/themes/UnderwaterTheme.js \
     dist/render/themes/ANSITunnelSprites.js \
     dist/render/themes/ANSITunnelTheme.js \
+    dist/render/themes/ThemeLoader.js \
     dist/render/frames/Scene3d.js \
     dist/render/frames/FrameManager.js \
     dist/render/frames/Sprite.js \
     dist/render/frames/FrameRenderer.js \
     dist/render/Renderer.js \
+    dist/render/NullRenderer.js \
     dist/game/GameState.js \
     dist/game/Systems.js \
+    dist/game/RaceClass.js \
     dist/game/Cup.js \
+    dist/game/CupLoader.js \
+    dist/game/CupRegistry.js \
+    dist/game/DailyChallenge.js \
+    dist/game/Ghost.js \
+    dist/game/Replay.js \
+    dist/profile/PlayerProfile.js \
+    dist/profile/CarUnlocks.js \
+    dist/profile/PlayerSettings.js \
+    dist/multiplayer/MultiplayerSession.js \
+    dist/multiplayer/RaceBroadcast.js \
+    dist/game/RenderInterpolator.js \
     dist/game/Game.js \
+    dist/game/Spectator.js \
+    dist/game/ReplayViewer.js \
+    dist/game/Headless.js \
     dist/ui/TrackSelector.js \
+    dist/ui/CustomCupBuilder.js \
     dist/ui/CarSelector.js \
     dist/ui/CupStandings.js \
+    dist/ui/MultiplayerLobby.js \
+    dist/ui/WatchRaces.js \
+    dist/ui/ReplayMenu.js \
+    dist/ui/ControlsMenu.js \
+    dist/ui/PauseMenu.js \
+    dist/ui/CareerScreen.js \
+    dist/ui/UnlockToast.js \
     dist/main.js \
     > dist/synthkart.js
 
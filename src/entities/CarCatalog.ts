@@ -3,7 +3,7 @@
  * 
  * Each car has:
  * - Visual style (different body shapes)
- * - Performance stats (top speed, acceleration, handling)
+ * - Performance stats (top speed, acceleration, handling, weight, off-road grip)
  * - Available color options
  * - Brake light positions for visual feedback
  */
@@ -18,6 +18,21 @@ interface CarStats {
   acceleration: number;
   /** Handling/steering multiplier (1.0 = 2.0 steer rate) */
   handling: number;
+  /** Weight multiplier (1.0 = average) - heavier cars shove lighter ones in collisions */
+  weight: number;
+  /** Off-road grip multiplier (1.0 = 200 off-road decel) - higher loses less speed off-road */
+  offroadGrip: number;
+}
+
+/**
+ * Car stats resolved to physics values for one vehicle (see resolveCarStats).
+ */
+interface ResolvedCarStats {
+  maxSpeed: number;
+  accel: number;
+  steerRate: number;
+  weight: number;
+  offroadDecel: number;
 }
 
 /**
@@ -75,6 +90,8 @@ interface CarDefinition {
   unlocked: boolean;
   /** Unlock requirement description (if locked) */
   unlockHint?: string;
+  /** Colors that must be unlocked before use (see UNLOCK_RULES) */
+  lockedColors?: string[];
 }
 
 /**
@@ -153,12 +170,15 @@ var CAR_CATALOG: CarDefinition[] = [
     stats: {
       topSpeed: 1.0,
       acceleration: 1.0,
-      handling: 1.0
+      handling: 1.0,
+      weight: 1.0,
+      offroadGrip: 1.0
     },
-    availableColors: ['yellow', 'red', 'blue', 'green', 'cyan', 'magenta', 'white'],
+    availableColors: ['yellow', 'red', 'blue', 'green', 'cyan', 'magenta', 'white', 'orange'],
     defaultColor: 'yellow',
     brakeLights: [{ x: 0, y: 1 }, { x: 4, y: 1 }],  // Sides of body row
-    unlocked: true
+    unlocked: true,
+    lockedColors: ['orange']
   },
   {
     id: 'muscle',
@@ -168,7 +188,9 @@ var CAR_CATALOG: CarDefinition[] = [
     stats: {
       topSpeed: 1.15,      // Faster top speed
       acceleration: 1.1,   // Good acceleration
-      handling: 0.85       // Slower steering
+      handling: 0.85,      // Slower steering
+      weight: 1.3,         // Heaviest - wins shoving matches
+      offroadGrip: 0.85    // Bogs down in the dirt
     },
     availableColors: ['red', 'yellow', 'blue', 'white', 'orange'],
     defaultColor: 'red',
@@ -183,12 +205,15 @@ var CAR_CATALOG: CarDefinition[] = [
     stats: {
       topSpeed: 0.9,       // Lower top speed
       acceleration: 1.2,   // Quick acceleration
-      handling: 1.25       // Excellent handling
+      handling: 1.25,      // Excellent handling
+      weight: 0.8,         // Light - gets pushed around
+      offroadGrip: 1.2     // Skips over rough ground
     },
-    availableColors: ['cyan', 'green', 'magenta', 'yellow', 'white'],
+    availableColors: ['cyan', 'green', 'magenta', 'yellow', 'white', 'red'],
     defaultColor: 'cyan',
     brakeLights: [{ x: 0, y: 1 }, { x: 4, y: 1 }],
-    unlocked: true
+    unlocked: true,
+    lockedColors: ['red']
   },
   {
     id: 'super',
@@ -198,13 +223,16 @@ var CAR_CATALOG: CarDefinition[] = [
     stats: {
       topSpeed: 1.2,       // Highest top speed
       acceleration: 1.15,  // Great acceleration
-      handling: 1.1        // Good handling
+      handling: 1.1,       // Good handling
+      weight: 1.0,
+      offroadGrip: 0.9     // Low-slung, hates the rough
     },
-    availableColors: ['white', 'red', 'blue', 'magenta'],
+    availableColors: ['white', 'red', 'blue', 'magenta', 'yellow'],
     defaultColor: 'white',
     brakeLights: [{ x: 0, y: 1 }, { x: 4, y: 1 }],
     unlocked: false,
-    unlockHint: 'Win a Grand Prix to unlock'
+    unlockHint: 'Win gold in any cup to unlock',
+    lockedColors: ['yellow']
   },
   {
     id: 'classic',
@@ -214,15 +242,24 @@ var CAR_CATALOG: CarDefinition[] = [
     stats: {
       topSpeed: 0.95,
       acceleration: 1.0,
-      handling: 1.05
+      handling: 1.05,
+      weight: 1.15,
+      offroadGrip: 1.1
     },
-    availableColors: ['yellow', 'red', 'white', 'green', 'blue'],
+    availableColors: ['yellow', 'red', 'white', 'green', 'blue', 'magenta'],
     defaultColor: 'yellow',
     brakeLights: [{ x: 0, y: 1 }, { x: 4, y: 1 }],
-    unlocked: true
+    unlocked: true,
+    lockedColors: ['magenta']
   }
 ];
 
+/**
+ * Cars and colors the current user has earned, keyed by car id or
+ * "carId:colorId" (filled in by CarUnlocks at startup and after races).
+ */
+var CAR_UNLOCKS: { [key: string]: boolean } = {};
+
 /**
  * Get a car definition by ID.
  */
@@ -248,7 +285,7 @@ function getCarColor(colorId: string): CarColor | null {
 function getUnlockedCars(): CarDefinition[] {
   var unlocked: CarDefinition[] = [];
   for (var i = 0; i < CAR_CATALOG.length; i++) {
-    if (CAR_CATALOG[i].unlocked) {
+    if (isCarUnlocked(CAR_CATALOG[i].id)) {
       unlocked.push(CAR_CATALOG[i]);
     }
   }
@@ -263,24 +300,51 @@ function getAllCars(): CarDefinition[] {
 }
 
 /**
- * Unlock a car by ID (e.g., after winning Grand Prix).
+ * Get the cars every player starts with (ignores anything earned).
  */
-function unlockCar(carId: string): boolean {
+function getStarterCars(): CarDefinition[] {
+  var starters: CarDefinition[] = [];
   for (var i = 0; i < CAR_CATALOG.length; i++) {
-    if (CAR_CATALOG[i].id === carId) {
-      CAR_CATALOG[i].unlocked = true;
-      return true;
+    if (CAR_CATALOG[i].unlocked) {
+      starters.push(CAR_CATALOG[i]);
     }
   }
-  return false;
+  return starters;
 }
 
 /**
- * Check if a car is unlocked.
+ * Unlock a car by ID (e.g., after winning Grand Prix).
+ */
+function unlockCar(carId: string): boolean {
+  if (!getCarDefinition(carId)) return false;
+  CAR_UNLOCKS[carId] = true;
+  return true;
+}
+
+/**
+ * Unlock one of a car's locked colors.
+ */
+function unlockCarColor(carId: string, colorId: string): boolean {
+  if (!getCarDefinition(carId) || !getCarColor(colorId)) return false;
+  CAR_UNLOCKS[carId + ':' + colorId] = true;
+  return true;
+}
+
+/**
+ * Check if a car is unlocked (by default or earned).
  */
 function isCarUnlocked(carId: string): boolean {
   var car = getCarDefinition(carId);
-  return car !== null && car.unlocked;
+  return car !== null && (car.unlocked || CAR_UNLOCKS[carId] === true);
+}
+
+/**
+ * Check if a color can be used on a car.
+ */
+function isCarColorUnlocked(carId: string, colorId: string): boolean {
+  var car = getCarDefinition(carId);
+  if (!car || !car.lockedColors || car.lockedColors.indexOf(colorId) === -1) return true;
+  return CAR_UNLOCKS[carId + ':' + colorId] === true;
 }
 
 /**
@@ -293,38 +357,16 @@ function getEffectFlashColor(colorId: string): number {
 }
 
 /**
- * Apply car stats to vehicle physics.
- * Call this when selecting a car to modify VEHICLE_PHYSICS constants.
+ * Resolve a car's stat multipliers against the base VEHICLE_PHYSICS values.
+ * Unknown car IDs get the baseline car.
  */
-function applyCarStats(carId: string): void {
-  var car = getCarDefinition(carId);
-  if (!car) return;
-  
-  // Store base values (should be set once at init)
-  if (typeof (VEHICLE_PHYSICS as any)._baseMaxSpeed === 'undefined') {
-    (VEHICLE_PHYSICS as any)._baseMaxSpeed = VEHICLE_PHYSICS.MAX_SPEED;
-    (VEHICLE_PHYSICS as any)._baseAccel = VEHICLE_PHYSICS.ACCEL;
-    (VEHICLE_PHYSICS as any)._baseSteer = VEHICLE_PHYSICS.STEER_RATE;
-  }
-  
-  // Apply multipliers
-  VEHICLE_PHYSICS.MAX_SPEED = (VEHICLE_PHYSICS as any)._baseMaxSpeed * car.stats.topSpeed;
-  VEHICLE_PHYSICS.ACCEL = (VEHICLE_PHYSICS as any)._baseAccel * car.stats.acceleration;
-  VEHICLE_PHYSICS.STEER_RATE = (VEHICLE_PHYSICS as any)._baseSteer * car.stats.handling;
-  
-  logInfo('Applied car stats for ' + car.name + 
-          ': speed=' + VEHICLE_PHYSICS.MAX_SPEED.toFixed(0) +
-          ', accel=' + VEHICLE_PHYSICS.ACCEL.toFixed(0) +
-          ', steer=' + VEHICLE_PHYSICS.STEER_RATE.toFixed(2));
-}
-
-/**
- * Reset vehicle physics to base values.
- */
-function resetCarStats(): void {
-  if (typeof (VEHICLE_PHYSICS as any)._baseMaxSpeed !== 'undefined') {
-    VEHICLE_PHYSICS.MAX_SPEED = (VEHICLE_PHYSICS as any)._baseMaxSpeed;
-    VEHICLE_PHYSICS.ACCEL = (VEHICLE_PHYSICS as any)._baseAccel;
-    VEHICLE_PHYSICS.STEER_RATE = (VEHICLE_PHYSICS as any)._baseSteer;
-  }
+function resolveCarStats(carId: string): ResolvedCarStats {
+  var car = getCarDefinition(carId) || CAR_CATALOG[0];
+  return {
+    maxSpeed: VEHICLE_PHYSICS.MAX_SPEED * car.stats.topSpeed,
+    accel: VEHICLE_PHYSICS.ACCEL * car.stats.acceleration,
+    steerRate: VEHICLE_PHYSICS.STEER_RATE * car.stats.handling,
+    weight: car.stats.weight,
+    offroadDecel: VEHICLE_PHYSICS.OFFROAD_DECEL / car.stats.offroadGrip
+  };
 }
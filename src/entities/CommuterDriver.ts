@@ -29,14 +29,18 @@ class CommuterDriver implements IDriver {
   
   /** Distance at which commuter wakes up when player approaches */
   private activationRange: number;
+
+  /** Random source (the race's seeded Rand for reproducible races) */
+  private rand: Rand;
   
-  constructor(speedFactor?: number) {
+  constructor(speedFactor?: number, rand?: Rand) {
+    this.rand = rand || globalRand;
     // Commuters drive at 30-50% of max speed
-    this.speedFactor = speedFactor !== undefined ? speedFactor : 0.3 + Math.random() * 0.2;
-    this.driftAmount = 0.1 + Math.random() * 0.1;  // Slight lateral movement
+    this.speedFactor = speedFactor !== undefined ? speedFactor : 0.3 + this.rand.next() * 0.2;
+    this.driftAmount = 0.1 + this.rand.next() * 0.1;  // Slight lateral movement
     this.driftDirection = 0;
     this.driftTimer = 0;
-    this.driftInterval = 2 + Math.random() * 3;  // Change direction every 2-5 seconds
+    this.driftInterval = 2 + this.rand.next() * 3;  // Change direction every 2-5 seconds
     this.active = false;  // Start dormant, activate when player approaches
     this.activationRange = 400;  // Wake up when player is within 400 units
   }
@@ -60,7 +64,7 @@ class CommuterDriver implements IDriver {
     if (this.driftTimer >= this.driftInterval) {
       this.driftTimer = 0;
       // Randomly pick new drift direction, biased toward center
-      var rand = Math.random();
+      var rand = this.rand.next();
       if (rand < 0.3) {
         this.driftDirection = -1;  // Drift left
       } else if (rand < 0.6) {
@@ -5,6 +5,30 @@
  * RacerDriver actively competes in the race with realistic racing behavior.
  */
 
+/** Seconds over which a rival settles onto the player's pace */
+var RIVAL_PACE_SMOOTHING = 3;
+
+/** Seconds of road ahead scanned for curves (less the reaction delay) */
+var RACER_CURVE_LOOKAHEAD = 2.5;
+/** How far inside a curve the apex line runs (playerX) */
+var RACER_APEX_OFFSET = 0.45;
+/** Top-speed fraction shed per unit of curve, scaled up for low skill */
+var RACER_CORNER_BRAKE = 0.25;
+/** Lateral gap (playerX) below which two cars share a lane */
+var RACER_LANE_WIDTH = 0.4;
+/** Line offset taken to pass a car */
+var RACER_PASS_OFFSET = 0.55;
+/** Widest line an AI racer will take */
+var RACER_MAX_LINE = 0.8;
+/** Always react to a car this close ahead (world units) */
+var RACER_MIN_TRAFFIC_GAP = 25;
+/** Seconds of closing speed at which a car ahead counts as traffic */
+var RACER_TRAFFIC_TIME = 1.5;
+/** Defend against racers this close behind (world units) */
+var RACER_DEFEND_GAP = 40;
+/** Share of the way onto an attacker's line a fully aggressive racer moves */
+var RACER_DEFEND_STRENGTH = 0.7;
+
 class RacerDriver implements IDriver {
   /** Skill level (0-1), affects speed, reactions, and mistakes */
   private skill: number;
@@ -21,11 +45,33 @@ class RacerDriver implements IDriver {
   /** Racer's preferred racing line offset (-1 to 1) */
   private preferredLine: number;
   
-  /** How aggressively this racer defends position (reserved for future) */
-  private _aggression: number;
+  /** How hard this racer fights for position - defending and items (0-1) */
+  private aggression: number;
+
+  /** How this racer uses items (see RivalItemHabit) */
+  private itemHabit: RivalItemHabit;
+
+  /** Multiplier on item use (see RaceClass.itemRate) */
+  private itemRate: number;
+
+  /** Roster persona this racer plays, or null for a generated racer */
+  personaId: string | null;
+
+  /** Vehicle this racer shadows as the cup rival (see setRival) */
+  private rivalTarget: IVehicle | null;
+
+  /** Rival's smoothed estimate of the player's pace (fraction of max speed) */
+  private rivalPace: number;
   
-  /** Reaction time delay (lower skill = slower reactions, reserved for future) */
-  private _reactionDelay: number;
+  /** Reaction time delay (lower skill = slower reactions, shortens look-ahead) */
+  private reactionDelay: number;
+
+  /** Road raced on and every car on it (see setRaceContext) */
+  private road: Road | null;
+  private field: IVehicle[];
+
+  /** Side of the car ahead being passed: -1 left, 1 right, 0 not passing */
+  private passSide: number;
   
   /** Random variation timer for natural-feeling driving */
   private variationTimer: number;
@@ -39,7 +85,11 @@ class RacerDriver implements IDriver {
   /** Timer for item usage cooldown - prevents spamming */
   private itemUseCooldown: number;
 
-  constructor(skill: number, name?: string) {
+  /** Random source (the race's seeded Rand for reproducible races) */
+  private rand: Rand;
+
+  constructor(skill: number, name?: string, rand?: Rand) {
+    this.rand = rand || globalRand;
     this.skill = clamp(skill, 0.3, 1.0);
     this.name = name || this.generateName();
     
@@ -47,11 +97,19 @@ class RacerDriver implements IDriver {
     // Higher skill = faster, more consistent, quicker reactions
     // CPU racers now match player speed (100%) - tuning baseline
     this.targetSpeed = 0.90 + (this.skill * 0.10);  // 0.90 to 1.00 of max speed (270-300)
-    this._aggression = 0.3 + (this.skill * 0.5);   // How much they fight for position
-    this._reactionDelay = 0.3 - (this.skill * 0.25); // 0.05 to 0.30 seconds
+    this.aggression = 0.3 + (this.skill * 0.5);    // How much they fight for position
+    this.itemHabit = 'tactical';
+    this.itemRate = 1;
+    this.personaId = null;
+    this.rivalTarget = null;
+    this.rivalPace = this.targetSpeed;
+    this.reactionDelay = 0.3 - (this.skill * 0.25); // 0.05 to 0.30 seconds
+    this.road = null;
+    this.field = [];
+    this.passSide = 0;
     
     // Preferred racing line varies by racer
-    this.preferredLine = (Math.random() - 0.5) * 0.6;  // -0.3 to 0.3
+    this.preferredLine = (this.rand.next() - 0.5) * 0.6;  // -0.3 to 0.3
     
     this.steerAmount = 0;
     this.variationTimer = 0;
@@ -60,6 +118,52 @@ class RacerDriver implements IDriver {
     this.itemUseCooldown = 0;
   }
   
+  /**
+   * Create the driver for a roster persona, with the persona's fixed
+   * line, aggression and item habit. The race class scales its skill,
+   * pace and item use (default: as tuned, 150cc).
+   */
+  static fromPersona(persona: RivalPersona, rand: Rand, raceClass?: RaceClass): RacerDriver {
+    var driver = new RacerDriver(persona.skill, persona.name, rand);
+    driver.personaId = persona.id;
+    driver.preferredLine = persona.preferredLine;
+    driver.aggression = persona.aggression;
+    driver.itemHabit = persona.itemHabit;
+    if (raceClass) {
+      driver.skill = clamp(persona.skill * raceClass.aiSkill, 0.3, 1.0);
+      driver.targetSpeed = raceClass.aiPace + driver.skill * raceClass.aiPaceRange;
+      driver.rivalPace = driver.targetSpeed;
+      driver.reactionDelay = 0.3 - driver.skill * 0.25;
+      driver.itemRate = raceClass.itemRate;
+    }
+    return driver;
+  }
+
+  /**
+   * Give the driver the road (for curves ahead) and the cars it races
+   * (for overtaking and defending). Without it the driver just holds
+   * its preferred line.
+   */
+  setRaceContext(road: Road, field: IVehicle[]): void {
+    this.road = road;
+    this.field = field;
+  }
+
+  /**
+   * Make this racer the player's rival: it pushes harder while behind
+   * them and eases back to their pace while ahead.
+   */
+  setRival(player: IVehicle): void {
+    this.rivalTarget = player;
+  }
+
+  /**
+   * Whether this racer is the player's rival.
+   */
+  isRival(): boolean {
+    return this.rivalTarget !== null;
+  }
+
   /**
    * Set whether the driver can move (used for countdown blocking).
    */
@@ -79,8 +183,8 @@ class RacerDriver implements IDriver {
       'Speed', 'Racer', 'Driver', 'Storm', 'Thunder', 'Blitz', 'Volt', 'Dash',
       'Rocket', 'Jet', 'Zoom', 'Rush', 'Gear', 'Torque', 'Drift', 'Burn'
     ];
-    var firstName = firstNames[Math.floor(Math.random() * firstNames.length)];
-    var lastName = lastNames[Math.floor(Math.random() * lastNames.length)];
+    var firstName = firstNames[Math.floor(this.rand.next() * firstNames.length)];
+    var lastName = lastNames[Math.floor(this.rand.next() * lastNames.length)];
     return firstName + ' ' + lastName;
   }
 
@@ -104,21 +208,64 @@ class RacerDriver implements IDriver {
     
     // Update variation timer for natural-feeling speed changes
     this.variationTimer += dt;
-    if (this.variationTimer > 2 + Math.random() * 2) {
+    if (this.variationTimer > 2 + this.rand.next() * 2) {
       this.variationTimer = 0;
       // Slight random speed variations (more for lower skill)
-      this.speedVariation = (Math.random() - 0.5) * 0.1 * (1 - this.skill);
+      this.speedVariation = (this.rand.next() - 0.5) * 0.1 * (1 - this.skill);
+    }
+    
+    var currentX = vehicle.playerX || 0;
+    var speedRatio = vehicle.speed / vehicle.stats.maxSpeed;
+    var targetX = this.preferredLine;
+    var pace = this.getPaceTarget(vehicle, dt);
+
+    if (this.road) {
+      // Racing line: cut to the inside of the coming curve (the curve
+      // pushes cars outward, so inside is against its sign)
+      var curve = this.scanCurve(vehicle);
+      var commit = Math.min(1, Math.abs(curve) / 0.5) * (0.5 + this.skill * 0.5);
+      targetX = this.preferredLine * (1 - commit) - sign(curve) * RACER_APEX_OFFSET * commit;
+
+      // Brake for sharp curves - the less skilled lose more speed
+      pace -= RACER_CORNER_BRAKE * Math.abs(curve) * (1.2 - this.skill);
+
+      var traffic = this.findTraffic(vehicle);
+      if (traffic.ahead) {
+        // Overtake: go around the car ahead, on the side with more room
+        var other = traffic.ahead;
+        if (this.passSide === 0) {
+          this.passSide = other.playerX > 0 ? -1 : 1;
+        }
+        var passX = other.playerX + this.passSide * RACER_PASS_OFFSET;
+        if (Math.abs(passX) > RACER_MAX_LINE) {
+          this.passSide = -this.passSide;
+          passX = other.playerX + this.passSide * RACER_PASS_OFFSET;
+        }
+        targetX = clamp(passX, -RACER_MAX_LINE, RACER_MAX_LINE);
+
+        // Until alongside, follow rather than drive into them
+        if (Math.abs(currentX - other.playerX) < RACER_LANE_WIDTH) {
+          pace = Math.min(pace, other.speed / vehicle.stats.maxSpeed);
+        }
+      } else {
+        this.passSide = 0;
+        if (traffic.behind) {
+          // Defend: move across onto the attacker's line
+          var cover = this.aggression * RACER_DEFEND_STRENGTH;
+          targetX = clamp(targetX + (traffic.behind.playerX - targetX) * cover, -RACER_MAX_LINE, RACER_MAX_LINE);
+        }
+      }
     }
     
     // Calculate target max speed for this AI
-    var maxSpeedForAI = (this.targetSpeed + this.speedVariation) * VEHICLE_PHYSICS.MAX_SPEED;
+    var maxSpeedForAI = (pace + this.speedVariation) * vehicle.stats.maxSpeed;
     
-    // Accelerate if below target, coast/brake if above
+    // Accelerate if below target, coast a little above it, brake well above it
     var accelerate: number;
-    if (vehicle.speed < maxSpeedForAI * 0.95) {
+    if (vehicle.speed < maxSpeedForAI * 0.97) {
       accelerate = 1;  // Full gas
-    } else if (vehicle.speed > maxSpeedForAI * 1.05) {
-      accelerate = -0.3;  // Light braking
+    } else if (vehicle.speed > maxSpeedForAI * 1.08) {
+      accelerate = -1;  // Brake
     } else {
       accelerate = 0;  // Coast to maintain speed
     }
@@ -128,54 +275,139 @@ class RacerDriver implements IDriver {
       accelerate = 0.3;
     }
     
-    // Calculate steering - try to stay on preferred racing line
-    var currentX = vehicle.playerX || 0;
-    var targetX = this.preferredLine;
-    
-    // Steer toward target line
+    // Steer toward the target line
     var lineDiff = targetX - currentX;
-    this.steerAmount = lineDiff * (0.5 + this.skill * 0.5);
+    this.steerAmount = lineDiff * (1 + this.skill);
+
+    // Counter the curve's push (skilled drivers anticipate all of it)
+    if (this.road && vehicle.speed >= 5) {
+      var steerMult = 1 - speedRatio * VEHICLE_PHYSICS.STEER_SPEED_FACTOR;
+      var push = this.road.getCurvature(vehicle.trackZ) * speedRatio * VEHICLE_PHYSICS.CENTRIFUGAL;
+      this.steerAmount -= push / (vehicle.stats.steerRate * steerMult) * (0.5 + this.skill * 0.5);
+    }
     
     // Clamp steering
-    this.steerAmount = clamp(this.steerAmount, -0.8, 0.8);
+    this.steerAmount = clamp(this.steerAmount, -1, 1);
     
     // Add small random wobble (less for higher skill)
-    var wobble = (Math.random() - 0.5) * 0.1 * (1 - this.skill);
+    var wobble = (this.rand.next() - 0.5) * 0.1 * (1 - this.skill);
     this.steerAmount += wobble;
     
     // Keep on road - steer away from edges
-    if (currentX < -0.8) {
+    if (currentX < -0.9) {
       this.steerAmount = 0.5;
-    } else if (currentX > 0.8) {
+    } else if (currentX > 0.9) {
       this.steerAmount = -0.5;
     }
     
     // AI Item Usage:
     // TODO: Improve item usage logic when tuning game (consider position, item type, etc.)
-    // For now, use simple RNG: ~5% chance per second to use held item
+    // For now, use simple RNG: ~5% chance per second to use held item,
+    // scaled by aggression, item habit and race class
     var shouldUseItem = false;
     if (vehicle.heldItem !== null && this.itemUseCooldown <= 0) {
-      // Higher skill = slightly more strategic (uses items more often when behind)
-      var useChance = 0.05 * dt;  // ~5% per second base chance
+      var useChance = 0.05 * dt * (0.5 + this.aggression) * this.itemRate;
       
-      // Boost chance based on position (trailing racers use items more)
-      if (vehicle.racePosition > 2) {
+      if (this.itemHabit === 'eager') {
+        useChance *= 2;
+      } else if (this.itemHabit === 'hoarder') {
+        // Saves items to defend the lead
+        useChance *= vehicle.racePosition === 1 ? 1.5 : 0.4;
+      } else if (vehicle.racePosition > 2) {
+        // Tactical: trailing racers use items more
         useChance *= 1.5;
       }
       
-      if (Math.random() < useChance) {
+      if (this.rand.next() < useChance) {
         shouldUseItem = true;
-        this.itemUseCooldown = 2 + Math.random() * 3;  // 2-5 second cooldown
+        this.itemUseCooldown = 2 + this.rand.next() * 3;  // 2-5 second cooldown
       }
     }
     
     return {
-      accelerate: clamp(accelerate, 0, 1),
+      accelerate: accelerate,
       steer: this.steerAmount,
       useItem: shouldUseItem
     };
   }
-  
+
+  /**
+   * Sharpest curve on the road ahead (signed), as far as this driver
+   * looks - slower reactions see less of it.
+   */
+  private scanCurve(vehicle: IVehicle): number {
+    var road = this.road!;
+    var distance = Math.max(vehicle.speed, 100) * (RACER_CURVE_LOOKAHEAD - this.reactionDelay);
+    var steps = Math.max(1, Math.ceil(distance / road.segmentLength));
+    var sharpest = road.getCurvature(vehicle.trackZ);
+    for (var i = 1; i <= steps; i++) {
+      var curve = road.getCurvature(vehicle.trackZ + i * road.segmentLength);
+      if (Math.abs(curve) > Math.abs(sharpest)) {
+        sharpest = curve;
+      }
+    }
+    return sharpest;
+  }
+
+  /**
+   * Nearest car this driver is catching in its lane, and nearest racer
+   * close enough behind to be worth defending against.
+   */
+  private findTraffic(vehicle: IVehicle): { ahead: IVehicle | null; behind: IVehicle | null } {
+    var road = this.road!;
+    var length = road.totalLength;
+    var ahead: IVehicle | null = null;
+    var behind: IVehicle | null = null;
+    var aheadGap = Infinity;
+    var behindGap = Infinity;
+    // Faster drivers see a car coming sooner; the aggressive ones commit earlier
+    var catchRange = RACER_MIN_TRAFFIC_GAP * (1 + this.aggression);
+
+    for (var i = 0; i < this.field.length; i++) {
+      var other = this.field[i];
+      if (other === vehicle || !other.active || other.isGhost) continue;
+
+      var gap = other.trackZ - vehicle.trackZ;
+      if (gap > length / 2) gap -= length;
+      else if (gap < -length / 2) gap += length;
+      var lateral = Math.abs(other.playerX - vehicle.playerX);
+
+      if (gap > 0) {
+        var closing = vehicle.speed - other.speed;
+        var range = Math.max(catchRange, closing * RACER_TRAFFIC_TIME);
+        if (gap < range && gap < aheadGap && lateral < RACER_LANE_WIDTH * 1.5 &&
+            (closing > 0 || gap < RACER_MIN_TRAFFIC_GAP)) {
+          ahead = other;
+          aheadGap = gap;
+        }
+      } else if (-gap < RACER_DEFEND_GAP && -gap < behindGap && (other.isRacer || !other.isNPC) &&
+                 other.speed > vehicle.speed * 0.95) {
+        behind = other;
+        behindGap = -gap;
+      }
+    }
+    return { ahead: ahead, behind: behind };
+  }
+
+  /**
+   * Target speed as a fraction of max speed. A rival follows the
+   * player's pace instead of its own.
+   */
+  private getPaceTarget(vehicle: IVehicle, dt: number): number {
+    var player = this.rivalTarget;
+    if (!player) return this.targetSpeed;
+
+    var playerPace = player.speed / player.stats.maxSpeed;
+    this.rivalPace += (playerPace - this.rivalPace) * Math.min(1, dt / RIVAL_PACE_SMOOTHING);
+
+    if (vehicle.racePosition > player.racePosition) {
+      // Behind the player: push past them
+      return clamp(Math.max(this.rivalPace, this.targetSpeed) + 0.05, 0.9, 1.05);
+    }
+    // Ahead: match the player, never dropping far below its own pace
+    return clamp(this.rivalPace + 0.02, this.targetSpeed - 0.05, 1.05);
+  }
+
   /**
    * Get skill level.
    */
@@ -184,16 +416,16 @@ class RacerDriver implements IDriver {
   }
   
   /**
-   * Get aggression level (for future overtaking AI).
+   * Get aggression level.
    */
   getAggression(): number {
-    return this._aggression;
+    return this.aggression;
   }
   
   /**
-   * Get reaction delay (for future dynamic response AI).
+   * Get reaction delay.
    */
   getReactionDelay(): number {
-    return this._reactionDelay;
+    return this.reactionDelay;
   }
 }
@@ -0,0 +1,106 @@
+/**
+ * RemoteDriver - Drives a racer whose player is on another BBS node.
+ *
+ * The other node publishes its player's state a few times a second.
+ * Between updates the car keeps driving on local physics toward the
+ * last reported line and speed; place() then pulls it onto the position
+ * extrapolated from the latest report, snapping if it's far off.
+ */
+
+/**
+ * Published state of a racer (see MultiplayerSession).
+ */
+interface RemoteVehicleState {
+  /** Race clock (seconds) when this state was published */
+  time: number;
+  trackZ: number;
+  playerX: number;
+  speed: number;
+  lap: number;
+  /** True while the car is flashing from a hit or crash */
+  flash: boolean;
+}
+
+/** Extrapolate at most this far (seconds) past the last report */
+var REMOTE_MAX_EXTRAPOLATION = 1.0;
+
+/** Errors larger than this (world units) snap instead of blending */
+var REMOTE_SNAP_DISTANCE = 150;
+
+/** Fraction of the position error corrected per second */
+var REMOTE_CORRECTION_RATE = 6;
+
+class RemoteDriver implements IDriver {
+  /** BBS node number of the player driving this car */
+  node: number;
+
+  /** Player's alias */
+  name: string;
+
+  private latest: RemoteVehicleState | null;
+
+  constructor(node: number, name: string) {
+    this.node = node;
+    this.name = name;
+    this.latest = null;
+  }
+
+  /**
+   * Take a newly published state. Older or repeated reports are ignored.
+   */
+  receive(state: RemoteVehicleState): void {
+    if (this.latest && state.time <= this.latest.time) return;
+    this.latest = state;
+  }
+
+  /**
+   * Hold the reported speed and steer toward the reported line.
+   */
+  update(vehicle: IVehicle, _track: ITrack, _dt: number): DriverIntent {
+    if (!this.latest) return neutralIntent();
+    return {
+      accelerate: vehicle.speed < this.latest.speed ? 1 : 0,
+      steer: clamp((this.latest.playerX - vehicle.playerX) * 4, -1, 1),
+      useItem: false  // Item uses arrive as events from the owning node
+    };
+  }
+
+  /**
+   * Correct the car toward where the owning node says it is now.
+   * @param raceTime - Local race clock (seconds)
+   */
+  place(vehicle: IVehicle, road: Road, raceTime: number, dt: number): void {
+    var s = this.latest;
+    if (!s) return;
+
+    var length = road.totalLength;
+    var age = clamp(raceTime - s.time, 0, REMOTE_MAX_EXTRAPOLATION);
+    var targetZ = s.trackZ + s.speed * age;
+    var targetLap = s.lap;
+    if (targetZ >= length) {
+      targetZ -= length;
+      targetLap++;
+    }
+
+    // Shortest signed distance around the loop
+    var error = targetZ - vehicle.trackZ;
+    if (error > length / 2) error -= length;
+    else if (error < -length / 2) error += length;
+
+    if (Math.abs(error) > REMOTE_SNAP_DISTANCE) {
+      vehicle.trackZ = targetZ;
+      vehicle.playerX = s.playerX;
+    } else {
+      var blend = Math.min(1, REMOTE_CORRECTION_RATE * dt);
+      vehicle.trackZ = (vehicle.trackZ + error * blend + length) % length;
+      vehicle.playerX += (s.playerX - vehicle.playerX) * blend;
+    }
+    vehicle.z = vehicle.trackZ;
+    vehicle.x = vehicle.playerX * ROAD_TRACK_X_SCALE;
+    vehicle.speed = s.speed;
+    vehicle.lap = targetLap;
+    if (s.flash && vehicle.flashTimer <= 0) {
+      vehicle.flashTimer = 0.2;
+    }
+  }
+}
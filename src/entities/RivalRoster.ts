@@ -0,0 +1,78 @@
+/**
+ * RivalRoster - The named AI racers.
+ *
+ * Every Grand Prix puts the roster on the grid in order, so racer N in
+ * a race is always the same persona and a name in the cup standings is
+ * the driver on track. A persona's driving, car and item use never
+ * change between races.
+ */
+
+/**
+ * How a persona uses items:
+ * 'eager'    - fires as soon as it can
+ * 'tactical' - saves items until it falls back in the pack
+ * 'hoarder'  - sits on items, using them mostly to defend the lead
+ */
+type RivalItemHabit = 'eager' | 'tactical' | 'hoarder';
+
+interface RivalPersona {
+  /** Stable id (saved with cups) */
+  id: string;
+  /** Shown in standings and results */
+  name: string;
+  /** 0.3-1: speed, consistency and line-holding */
+  skill: number;
+  /** 0-1: how hard the persona fights for position (defending, items) */
+  aggression: number;
+  /** Racing line offset, -0.3 (left) to 0.3 (right) */
+  preferredLine: number;
+  carId: string;
+  /** CAR_COLORS id, also the NPC_VEHICLE_COLORS palette of its sprite */
+  colorId: string;
+  itemHabit: RivalItemHabit;
+}
+
+/**
+ * Grid order: two front-runners, two mid-pack, three back-markers.
+ */
+var RIVAL_ROSTER: RivalPersona[] = [
+  { id: 'max', name: 'MAX', skill: 0.82, aggression: 0.7, preferredLine: -0.1, carId: 'super', colorId: 'red', itemHabit: 'tactical' },
+  { id: 'luna', name: 'LUNA', skill: 0.75, aggression: 0.4, preferredLine: 0.2, carId: 'sports', colorId: 'blue', itemHabit: 'hoarder' },
+  { id: 'blaze', name: 'BLAZE', skill: 0.58, aggression: 0.9, preferredLine: 0, carId: 'muscle', colorId: 'orange', itemHabit: 'eager' },
+  { id: 'nova', name: 'NOVA', skill: 0.52, aggression: 0.3, preferredLine: -0.25, carId: 'compact', colorId: 'cyan', itemHabit: 'tactical' },
+  { id: 'turbo', name: 'TURBO', skill: 0.42, aggression: 0.6, preferredLine: 0.15, carId: 'muscle', colorId: 'green', itemHabit: 'eager' },
+  { id: 'dash', name: 'DASH', skill: 0.38, aggression: 0.5, preferredLine: -0.15, carId: 'classic', colorId: 'magenta', itemHabit: 'hoarder' },
+  { id: 'flash', name: 'FLASH', skill: 0.35, aggression: 0.8, preferredLine: 0.25, carId: 'compact', colorId: 'white', itemHabit: 'eager' }
+];
+
+/**
+ * Get a persona by id.
+ */
+function getRivalPersona(id: string): RivalPersona | null {
+  for (var i = 0; i < RIVAL_ROSTER.length; i++) {
+    if (RIVAL_ROSTER[i].id === id) {
+      return RIVAL_ROSTER[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * NPC sprite drawn for a persona's car.
+ */
+function getRivalSpriteType(persona: RivalPersona): string {
+  var car = getCarDefinition(persona.carId);
+  return car && (car.bodyStyle === 'sports' || car.bodyStyle === 'super') ? 'sportscar' : 'sedan';
+}
+
+/**
+ * NPC_VEHICLE_COLORS index for a persona's color.
+ */
+function getRivalSpriteColorIndex(persona: RivalPersona): number {
+  for (var i = 0; i < NPC_VEHICLE_COLORS.length; i++) {
+    if (NPC_VEHICLE_COLORS[i].name === persona.colorId) {
+      return i;
+    }
+  }
+  return 0;
+}
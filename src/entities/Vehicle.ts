@@ -51,6 +51,9 @@ interface IVehicle extends IEntity {
   /** Is the vehicle off the road? */
   isOffRoad: boolean;
 
+  /** Is the vehicle travelling backwards along the track? */
+  isWrongWay: boolean;
+
   /** Is the vehicle crashed (recovering)? */
   isCrashed: boolean;
 
@@ -75,6 +78,12 @@ interface IVehicle extends IEntity {
   /** Is this a competitive racer (vs commuter traffic)? */
   isRacer: boolean;
   
+  /** Is this a Time Trial ghost replay (render only, never collides)? */
+  isGhost: boolean;
+
+  /** Is this another BBS node's player (hits are decided on that node)? */
+  isRemote: boolean;
+  
   /** NPC vehicle type for sprite selection */
   npcType: string;
   
@@ -87,6 +96,9 @@ interface IVehicle extends IEntity {
   /** Player car color ID (from CarCatalog) */
   carColorId: string;
 
+  /** Physics values for this vehicle's car (see setCar) */
+  stats: ResolvedCarStats;
+
   /** Update vehicle with road data */
   updatePhysics(road: Road, intent: DriverIntent, dt: number): void;
 }
@@ -110,6 +122,10 @@ var VEHICLE_PHYSICS = {
   // Centrifugal force - how much curves push you outward  
   CENTRIFUGAL: 0.6,       // Multiplied by speed ratio and curve
   
+  // Hills - slope is elevation change per segment (see Road.getSlope)
+  HILL_GRAVITY: 150,      // Speed lost per second per unit of uphill slope
+  HILL_DESCENT_BONUS: 0.5,// Extra top speed per unit of downhill slope
+  
   // Road boundaries
   ROAD_HALF_WIDTH: 1.0,   // playerX = +/- 1.0 is road edge
   OFFROAD_LIMIT: 1.8,     // Crash if |playerX| exceeds this
@@ -133,6 +149,7 @@ class Vehicle extends Entity implements IVehicle {
   activeEffects: ActiveEffect[];
   color: number;
   isOffRoad: boolean;
+  isWrongWay: boolean;
   isCrashed: boolean;
   crashTimer: number;
   flashTimer: number;
@@ -141,10 +158,13 @@ class Vehicle extends Entity implements IVehicle {
   boostMinSpeed: number;
   isNPC: boolean;
   isRacer: boolean;
+  isGhost: boolean;
+  isRemote: boolean;
   npcType: string;
   npcColorIndex: number;
   carId: string;
   carColorId: string;
+  stats: ResolvedCarStats;
 
   constructor() {
     super();
@@ -161,6 +181,7 @@ class Vehicle extends Entity implements IVehicle {
     this.activeEffects = [];
     this.color = YELLOW;
     this.isOffRoad = false;
+    this.isWrongWay = false;
     this.isCrashed = false;
     this.crashTimer = 0;
     this.flashTimer = 0;
@@ -169,10 +190,21 @@ class Vehicle extends Entity implements IVehicle {
     this.boostMinSpeed = 0;
     this.isNPC = false;
     this.isRacer = false;
+    this.isGhost = false;
+    this.isRemote = false;
     this.npcType = 'sedan';
     this.npcColorIndex = 0;
     this.carId = 'sports';           // Default car
     this.carColorId = 'yellow';      // Default color
+    this.stats = resolveCarStats(this.carId);
+  }
+
+  /**
+   * Put this vehicle in a car from the CarCatalog (its stats follow).
+   */
+  setCar(carId: string): void {
+    this.carId = carId;
+    this.stats = resolveCarStats(carId);
   }
   
   /**
@@ -315,7 +347,7 @@ class Vehicle extends Entity implements IVehicle {
 
     // --- ACCELERATION / BRAKING ---
     if (intent.accelerate > 0) {
-      this.speed += VEHICLE_PHYSICS.ACCEL * dt;
+      this.speed += this.stats.accel * dt;
     } else if (intent.accelerate < 0) {
       this.speed -= VEHICLE_PHYSICS.BRAKE * dt;
     } else {
@@ -323,10 +355,17 @@ class Vehicle extends Entity implements IVehicle {
       this.speed -= VEHICLE_PHYSICS.DECEL * dt;
     }
 
+    // --- HILLS ---
+    // Gravity along the slope: climbs bleed speed, descents add it
+    var slope = road.getSlope(this.trackZ);
+    if (this.speed > 0) {
+      this.speed -= slope * VEHICLE_PHYSICS.HILL_GRAVITY * dt;
+    }
+
     // --- OFF-ROAD DETECTION & SLOWDOWN ---
     this.isOffRoad = Math.abs(this.playerX) > VEHICLE_PHYSICS.ROAD_HALF_WIDTH;
     if (this.isOffRoad) {
-      this.speed -= VEHICLE_PHYSICS.OFFROAD_DECEL * dt;
+      this.speed -= this.stats.offroadDecel * dt;
       
       // Flash while off-road to indicate collision with terrain
       if (this.flashTimer <= 0) {
@@ -345,14 +384,18 @@ class Vehicle extends Entity implements IVehicle {
     // Clamp speed (can't go negative or over max)
     // Apply boost multiplier to max speed when boosting
     // Apply lightning slowdown if affected
-    var effectiveMaxSpeed = VEHICLE_PHYSICS.MAX_SPEED * this.boostMultiplier * lightningSlowdown;
+    var effectiveMaxSpeed = this.stats.maxSpeed * this.boostMultiplier * lightningSlowdown;
+    if (slope < 0) {
+      // Downhill lets you run past normal top speed
+      effectiveMaxSpeed *= 1 + (-slope * VEHICLE_PHYSICS.HILL_DESCENT_BONUS);
+    }
     
     // Enforce minimum speed during boost (prevents deceleration from key handling issues)
     var minSpeed = this.boostMinSpeed > 0 ? this.boostMinSpeed : 0;
     this.speed = clamp(this.speed, minSpeed, effectiveMaxSpeed);
 
     // Speed ratio is used for steering and centrifugal force
-    var speedRatio = this.speed / VEHICLE_PHYSICS.MAX_SPEED;
+    var speedRatio = this.speed / this.stats.maxSpeed;
 
     // --- BULLET AUTOPILOT ---
     // When Bullet is active, auto-steer toward center of road and ignore player input
@@ -375,7 +418,7 @@ class Vehicle extends Entity implements IVehicle {
       if (this.speed >= 5) {
         // Steering effectiveness decreases at high speed
         var steerMult = 1.0 - (speedRatio * VEHICLE_PHYSICS.STEER_SPEED_FACTOR);
-        var steerDelta = intent.steer * VEHICLE_PHYSICS.STEER_RATE * steerMult * dt;
+        var steerDelta = intent.steer * this.stats.steerRate * steerMult * dt;
         this.playerX += steerDelta;
       }
 
@@ -409,7 +452,7 @@ class Vehicle extends Entity implements IVehicle {
 
     // Sync Entity position for rendering
     this.z = this.trackZ;
-    this.x = this.playerX * 20;  // Scale playerX to screen coordinates
+    this.x = this.playerX * ROAD_TRACK_X_SCALE;  // Scale playerX to screen coordinates
   }
 
   /**
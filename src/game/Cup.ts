@@ -3,6 +3,10 @@
  * 
  * A Cup is a series of races where points are awarded based on finishing position.
  * Total points determine the cup winner.
+ *
+ * A cup in progress is saved per user (u<N>.cup.json in the configured
+ * players directory) when it starts and after every race, so it can be
+ * continued from the title screen after a dropped call or time limit.
  */
 
 /** Points awarded for each finishing position (1st through 10th) */
@@ -19,6 +23,8 @@ interface CupRacerStanding {
   id: number;
   name: string;
   isPlayer: boolean;
+  /** Roster persona (see RivalRoster) for AI racers */
+  personaId?: string;
   points: number;
   /** Position in each race (1-indexed, 0 = DNF) */
   raceResults: number[];
@@ -36,17 +42,37 @@ interface CupRaceResult {
   playerBestLap: number;
 }
 
-/** Cup definition - which tracks are in the cup */
+/** Cup definition - which tracks are in the cup (see CupRegistry) */
 interface CupDefinition {
   id: string;
   name: string;
   trackIds: string[];
   description?: string;
+  /** Laps for every race (omitted = each track's own lap count) */
+  laps?: number;
+  /** 5-line icon for the track selector, 8 columns wide */
+  icon?: string[];
+  /** Primary color in the track selector */
+  color?: number;
+  /** Built in the Custom Cup builder rather than offered in the registry */
+  custom?: boolean;
+}
+
+/** Car the player chose for the whole cup */
+interface CupCar {
+  carId: string;
+  colorId: string;
 }
 
 /** Current state of a cup in progress */
 interface CupState {
   definition: CupDefinition;
+  /** Player's car (omitted = the default car) */
+  car?: CupCar;
+  /** Roster persona racing as the player's rival (omitted = no rival) */
+  rivalId?: string;
+  /** RaceClass id every race is run in (omitted = the default class) */
+  raceClassId?: string;
   currentRaceIndex: number;
   standings: CupRacerStanding[];
   raceResults: CupRaceResult[];
@@ -62,46 +88,19 @@ interface CupState {
  */
 class CupManager {
   private state: CupState | null = null;
-  
-  /** Predefined cups */
-  static readonly CUPS: CupDefinition[] = [
-    {
-      id: 'neon_cup',
-      name: 'Neon Cup',
-      trackIds: ['neon_coast', 'twilight_forest', 'sunset_beach'],
-      description: 'A tour through the neon-lit night'
-    },
-    {
-      id: 'nature_cup',
-      name: 'Nature Cup',
-      trackIds: ['twilight_forest', 'sunset_beach', 'cactus_canyon', 'tropical_jungle'],
-      description: 'Race through nature\'s finest'
-    },
-    {
-      id: 'spooky_cup',
-      name: 'Spooky Cup',
-      trackIds: ['haunted_hollow', 'dark_castle', 'ancient_ruins'],
-      description: 'Face your fears on the track'
-    },
-    {
-      id: 'fantasy_cup',
-      name: 'Fantasy Cup',
-      trackIds: ['candy_land', 'rainbow_road', 'dark_castle', 'kaiju_rampage'],
-      description: 'A journey through imagination'
-    },
-    {
-      id: 'grand_prix',
-      name: 'Grand Prix',
-      trackIds: ['neon_coast', 'sunset_beach', 'twilight_forest', 'haunted_hollow', 
-                 'cactus_canyon', 'tropical_jungle', 'rainbow_road', 'thunder_stadium'],
-      description: 'The ultimate challenge - 8 tracks!'
-    }
-  ];
+  private userNumber: number;
+  private directory: string;
+
+  constructor(userNumber: number) {
+    this.userNumber = userNumber;
+    this.directory = OUTRUN_CONFIG.players.directory;
+  }
   
   /**
-   * Start a new cup.
+   * Start a new cup against the given personas (in grid order, so
+   * racer IDs match Game.getFinalRaceResults).
    */
-  startCup(cupDef: CupDefinition, racerNames: string[]): void {
+  startCup(cupDef: CupDefinition, racers: RivalPersona[], car?: CupCar, rivalId?: string, raceClassId?: string): void {
     // Initialize standings for all racers
     var standings: CupRacerStanding[] = [];
     
@@ -115,11 +114,12 @@ class CupManager {
     });
     
     // AI racers (IDs 2-8 typically)
-    for (var i = 0; i < racerNames.length; i++) {
+    for (var i = 0; i < racers.length; i++) {
       standings.push({
         id: i + 2,
-        name: racerNames[i],
+        name: racers[i].name,
         isPlayer: false,
+        personaId: racers[i].id,
         points: 0,
         raceResults: []
       });
@@ -127,6 +127,9 @@ class CupManager {
     
     this.state = {
       definition: cupDef,
+      car: car,
+      rivalId: rivalId,
+      raceClassId: raceClassId,
       currentRaceIndex: 0,
       standings: standings,
       raceResults: [],
@@ -134,6 +137,42 @@ class CupManager {
       totalBestLaps: 0,
       isComplete: false
     };
+    this.save();
+  }
+
+  /**
+   * Pick up a cup read by loadSavedCup().
+   */
+  resumeCup(state: CupState): void {
+    this.state = state;
+  }
+
+  /**
+   * The user's saved cup, or null if there is none (or it is unreadable).
+   */
+  loadSavedCup(): CupState | null {
+    if (this.userNumber <= 0) return null;
+    var path = this.path();
+    if (!file_exists(path)) return null;
+
+    try {
+      var f = new File(path);
+      if (!f.open('r')) {
+        logWarning('CupManager: unable to open ' + path);
+        return null;
+      }
+      var content = f.read();
+      f.close();
+
+      var state = normalizeCupState(JSON.parse(content));
+      if (!state) {
+        logWarning('CupManager: ignoring invalid saved cup ' + path);
+      }
+      return state;
+    } catch (e) {
+      logError('CupManager: failed to read ' + path + ': ' + e);
+      return null;
+    }
   }
   
   /**
@@ -221,6 +260,10 @@ class CupManager {
     if (this.state.currentRaceIndex >= this.state.definition.trackIds.length) {
       this.state.isComplete = true;
     }
+
+    // Kept until clear(), so a finished cup is still awarded if the
+    // caller drops before the winner's circle
+    this.save();
   }
   
   /**
@@ -273,9 +316,92 @@ class CupManager {
   }
   
   /**
-   * Clear cup state (return to menu).
+   * Clear cup state (return to menu) and delete the saved cup.
    */
   clear(): void {
     this.state = null;
+    if (this.userNumber <= 0) return;
+    var path = this.path();
+    if (file_exists(path) && !file_remove(path)) {
+      logWarning('CupManager: unable to remove ' + path);
+    }
+  }
+
+  private path(): string {
+    return this.directory + '/u' + this.userNumber + '.cup.json';
+  }
+
+  private save(): boolean {
+    if (this.userNumber <= 0 || !this.state) return false;
+    var path = this.path();
+
+    try {
+      if (!file_exists(this.directory)) {
+        mkdir(this.directory);
+      }
+      var f = new File(path);
+      if (!f.open('w')) {
+        logError('CupManager: unable to write ' + path);
+        return false;
+      }
+      f.write(JSON.stringify(this.state));
+      f.close();
+      return true;
+    } catch (e) {
+      logError('CupManager: failed to write ' + path + ': ' + e);
+      return false;
+    }
+  }
+}
+
+/**
+ * Cup state from saved data, or null if it is not a usable cup.
+ */
+function normalizeCupState(data: any): CupState | null {
+  if (!data || typeof data !== 'object') return null;
+  var def = data.definition;
+  if (!def || typeof def.id !== 'string' || typeof def.name !== 'string' ||
+      !(def.trackIds instanceof Array) || def.trackIds.length === 0) {
+    return null;
+  }
+  for (var t = 0; t < def.trackIds.length; t++) {
+    if (typeof def.trackIds[t] !== 'string') return null;
+  }
+  if (typeof data.currentRaceIndex !== 'number' || data.currentRaceIndex < 0 ||
+      data.currentRaceIndex > def.trackIds.length) {
+    return null;
   }
+  if (!(data.standings instanceof Array) || data.standings.length === 0 ||
+      !(data.raceResults instanceof Array)) {
+    return null;
+  }
+  for (var i = 0; i < data.standings.length; i++) {
+    var s = data.standings[i];
+    if (!s || typeof s.id !== 'number' || typeof s.name !== 'string' ||
+        typeof s.points !== 'number' || !(s.raceResults instanceof Array)) {
+      return null;
+    }
+  }
+
+  var car = data.car;
+  return {
+    definition: {
+      id: def.id,
+      name: def.name,
+      trackIds: def.trackIds,
+      description: def.description,
+      laps: typeof def.laps === 'number' && def.laps >= 1 ? Math.floor(def.laps) : undefined,
+      custom: def.custom === true ? true : undefined
+    },
+    car: car && typeof car.carId === 'string' && typeof car.colorId === 'string' ?
+      { carId: car.carId, colorId: car.colorId } : undefined,
+    rivalId: typeof data.rivalId === 'string' ? data.rivalId : undefined,
+    raceClassId: typeof data.raceClassId === 'string' ? data.raceClassId : undefined,
+    currentRaceIndex: data.currentRaceIndex,
+    standings: data.standings,
+    raceResults: data.raceResults,
+    totalTime: typeof data.totalTime === 'number' ? data.totalTime : 0,
+    totalBestLaps: typeof data.totalBestLaps === 'number' ? data.totalBestLaps : 0,
+    isComplete: data.currentRaceIndex >= def.trackIds.length
+  };
 }
@@ -0,0 +1,126 @@
+/**
+ * CupLoader - Loads cup definitions from a JSON file.
+ *
+ * The file (see [cup] file in synthkart.ini) holds a list of cups that
+ * CupRegistry offers after the built-in ones. Track ids are checked
+ * against the track catalog by the registry, not here.
+ */
+
+/** Track count allowed in any cup (file or custom) */
+var CUP_MIN_TRACKS = 2;
+var CUP_MAX_TRACKS = 8;
+
+class CupLoader {
+  /**
+   * Load every valid cup in a file. A missing file is not an error;
+   * invalid cups are logged and skipped.
+   */
+  loadDefinitions(path: string): CupDefinition[] {
+    var defs: CupDefinition[] = [];
+    if (!file_exists(path)) return defs;
+
+    var content: string;
+    try {
+      var f = new File(path);
+      if (!f.open('r')) {
+        logError("CupLoader: " + path + ": unable to open file");
+        return defs;
+      }
+      content = f.read();
+      f.close();
+    } catch (e) {
+      logError("CupLoader: " + path + ": read failed - " + e);
+      return defs;
+    }
+
+    var data: any;
+    try {
+      data = JSON.parse(content);
+    } catch (e) {
+      logError("CupLoader: " + path + ": invalid JSON - " + e);
+      return defs;
+    }
+
+    if (!(data instanceof Array)) {
+      logError("CupLoader: " + path + ": top level must be an array of cups");
+      return defs;
+    }
+
+    for (var i = 0; i < data.length; i++) {
+      var def = this.parseCupDefinition(data[i], path + ' [' + i + ']');
+      if (def) defs.push(def);
+    }
+
+    logInfo("CupLoader: Loaded " + defs.length + " of " + data.length + " cups from " + path);
+    return defs;
+  }
+
+  /**
+   * Validate parsed JSON against the CupDefinition schema.
+   * Logs every problem found (prefixed with source) and returns null
+   * if any were found.
+   */
+  parseCupDefinition(data: any, source: string): CupDefinition | null {
+    var errors: string[] = [];
+
+    if (!data || typeof data !== 'object' || data instanceof Array) {
+      logError("CupLoader: " + source + ": cup must be an object");
+      return null;
+    }
+
+    if (typeof data.id !== 'string' || !/^[a-z0-9_]+$/.test(data.id)) {
+      errors.push("'id' must be a lowercase string of letters, digits and underscores");
+    } else if (data.id.indexOf(CUSTOM_CUP_ID_PREFIX) === 0) {
+      errors.push("'id' must not start with '" + CUSTOM_CUP_ID_PREFIX + "' (kept for custom cups)");
+    }
+    if (typeof data.name !== 'string' || data.name === '') {
+      errors.push("'name' must be a non-empty string");
+    }
+    if (data.description !== undefined && typeof data.description !== 'string') {
+      errors.push("'description' must be a string");
+    }
+    if (!(data.trackIds instanceof Array) || data.trackIds.length < CUP_MIN_TRACKS ||
+        data.trackIds.length > CUP_MAX_TRACKS) {
+      errors.push("'trackIds' must be a list of " + CUP_MIN_TRACKS + " to " + CUP_MAX_TRACKS + " track ids");
+    } else {
+      for (var i = 0; i < data.trackIds.length; i++) {
+        if (typeof data.trackIds[i] !== 'string') {
+          errors.push("'trackIds[" + i + "]' must be a string");
+        }
+      }
+    }
+    if (data.laps !== undefined && !isIntegerInRange(data.laps, 1, 99)) {
+      errors.push("'laps' must be an integer from 1 to 99");
+    }
+    var color = typeof data.color === 'string' ? FG_COLOR_NAMES[data.color.toUpperCase()] : undefined;
+    if (data.color !== undefined && color === undefined) {
+      errors.push("'color' must be a color name such as LIGHTCYAN");
+    }
+    if (data.icon !== undefined) {
+      var iconValid = data.icon instanceof Array && data.icon.length === 5;
+      for (var row = 0; iconValid && row < data.icon.length; row++) {
+        iconValid = typeof data.icon[row] === 'string' && data.icon[row].length <= 8;
+      }
+      if (!iconValid) {
+        errors.push("'icon' must be 5 strings of up to 8 characters");
+      }
+    }
+
+    if (errors.length > 0) {
+      for (var e = 0; e < errors.length; e++) {
+        logError("CupLoader: " + source + ": " + errors[e]);
+      }
+      return null;
+    }
+
+    return {
+      id: data.id,
+      name: data.name,
+      trackIds: data.trackIds.slice(),
+      description: data.description || '',
+      laps: data.laps,
+      icon: data.icon ? data.icon.slice() : undefined,
+      color: color
+    };
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * CupRegistry - Every cup the track selector offers.
+ *
+ * The built-in cups come first, followed by any loaded from the cups
+ * file (see CupLoader). Custom cups are built by the player for one
+ * session and are never registered; their id is derived from their
+ * tracks and laps, so the same custom cup always shares one leaderboard.
+ */
+
+/** Ids of custom cups start with this (file cups may not use it) */
+var CUSTOM_CUP_ID_PREFIX = 'custom_';
+
+/** Career trophies for every custom cup are kept under this id */
+var CUSTOM_CUP_CAREER_ID = 'custom_cup';
+
+/** Lap count range for custom cups */
+var CUSTOM_CUP_MIN_LAPS = 1;
+var CUSTOM_CUP_MAX_LAPS = 9;
+
+var CUSTOM_CUP_ICON = [
+  '  _  _  ',
+  ' | || | ',
+  '  \\  /  ',
+  '   ||   ',
+  '  DIY   '
+];
+
+/**
+ * The built-in cups, four tracks each.
+ */
+var CUP_CATALOG: CupDefinition[] = [
+  {
+    id: 'retro_cup',
+    name: 'RETRO CUP',
+    icon: [
+      '  ____  ',
+      ' /    \\ ',
+      '|  RC  |',
+      ' \\____/ ',
+      '   ||   '
+    ],
+    color: LIGHTCYAN,
+    trackIds: ['neon_coast', 'downtown_dash', 'sunset_beach', 'twilight_grove'],
+    description: 'Classic retro vibes'
+  },
+  {
+    id: 'nature_cup',
+    name: 'NATURE CUP',
+    icon: [
+      '   /\\   ',
+      '  /  \\  ',
+      ' /    \\ ',
+      '/______\\',
+      '   NC   '
+    ],
+    color: LIGHTGREEN,
+    trackIds: ['winter_wonderland', 'cactus_canyon', 'jungle_run', 'sugar_rush'],
+    description: 'Wild natural courses'
+  },
+  {
+    id: 'dark_cup',
+    name: 'DARK CUP',
+    icon: [
+      ' _\\||/_ ',
+      '  \\||/  ',
+      '  /||\\ ',
+      ' /_||\\_',
+      '   DC   '
+    ],
+    color: LIGHTMAGENTA,
+    trackIds: ['haunted_hollow', 'fortress_rally', 'inferno_speedway', 'mermaid_lagoon'],
+    description: 'Dangerous & mysterious'
+  },
+  {
+    id: 'special_cup',
+    name: 'SPECIAL CUP',
+    icon: [
+      '   **   ',
+      '  *  *  ',
+      ' * SC * ',
+      '  *  *  ',
+      '   **   '
+    ],
+    color: YELLOW,
+    trackIds: ['celestial_circuit', 'data_highway', 'glitch_circuit', 'kaiju_rampage'],
+    description: 'Ultimate challenge'
+  }
+];
+
+/**
+ * Built-in plus file cups (lazy, built once).
+ */
+var _allCups: CupDefinition[] | null = null;
+
+/**
+ * Get all cups: the built-in catalog followed by cups from the cups file.
+ * File cups that reuse an id or name a missing track are rejected.
+ */
+function getAllCups(): CupDefinition[] {
+  if (_allCups === null) {
+    _allCups = CUP_CATALOG.slice();
+    var loaded = new CupLoader().loadDefinitions(OUTRUN_CONFIG.cup.file);
+    for (var i = 0; i < loaded.length; i++) {
+      var cup = loaded[i];
+      if (getCupDefinition(cup.id)) {
+        logError("CupRegistry: cup '" + cup.id + "' is already defined, skipped");
+        continue;
+      }
+      var missing = cup.trackIds.filter(function(id) { return !getTrackDefinition(id); });
+      if (missing.length > 0) {
+        logError("CupRegistry: cup '" + cup.id + "' has unknown tracks " + missing.join(', ') + ", skipped");
+        continue;
+      }
+      _allCups.push(cup);
+    }
+  }
+  return _allCups;
+}
+
+/**
+ * Get a registered cup by id.
+ */
+function getCupDefinition(id: string): CupDefinition | null {
+  var cups = getAllCups();
+  for (var i = 0; i < cups.length; i++) {
+    if (cups[i].id === id) {
+      return cups[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * The tracks of a cup, in order and with the cup's lap count applied.
+ * Tracks that no longer exist are left out.
+ */
+function getCupTracks(cup: CupDefinition): TrackDefinition[] {
+  var tracks: TrackDefinition[] = [];
+  for (var i = 0; i < cup.trackIds.length; i++) {
+    var track = getTrackDefinition(cup.trackIds[i]);
+    if (track) tracks.push(cup.laps ? getTrackWithLaps(track, cup.laps) : track);
+  }
+  return tracks;
+}
+
+/**
+ * A player-built cup. The id is a hash of the tracks and laps.
+ */
+function createCustomCup(trackIds: string[], laps: number): CupDefinition {
+  var key = trackIds.join(',') + '/' + laps;
+  var hash = 0;
+  for (var i = 0; i < key.length; i++) {
+    hash = ((hash * 31) + key.charCodeAt(i)) & 0x7fffffff;
+  }
+
+  return {
+    id: CUSTOM_CUP_ID_PREFIX + hash.toString(36),
+    name: 'CUSTOM CUP',
+    trackIds: trackIds.slice(),
+    description: trackIds.length + ' races, ' + laps + (laps === 1 ? ' lap' : ' laps') + ' each',
+    laps: laps,
+    icon: CUSTOM_CUP_ICON,
+    color: LIGHTRED,
+    custom: true
+  };
+}
+
+/**
+ * Name of a cup on its leaderboard. Custom cups list their tracks, since
+ * they all share one name.
+ */
+function getCupScoreName(cup: CupDefinition): string {
+  if (!cup.custom) return cup.name;
+  var names: string[] = [];
+  for (var i = 0; i < cup.trackIds.length; i++) {
+    var track = getTrackDefinition(cup.trackIds[i]);
+    names.push(track ? track.name : cup.trackIds[i]);
+  }
+  return 'Custom: ' + names.join(', ') + ' x' + cup.laps;
+}
+
+/**
+ * Id a finished cup's trophy is recorded under in the player's career.
+ */
+function getCareerCupId(cup: CupDefinition): string {
+  return cup.custom ? CUSTOM_CUP_CAREER_ID : cup.id;
+}
@@ -0,0 +1,106 @@
+/**
+ * DailyChallenge.ts - One shared race per day.
+ *
+ * The track, car, lap count, item set and race seed all derive from the
+ * UTC date, so every caller - on this BBS or any BBS sharing a
+ * json-service - races the exact same Grand Prix. Only built-in tracks
+ * are eligible, since custom tracks differ between boards.
+ */
+
+/** A restricted item pool for the day (empty = normal distribution) */
+interface DailyItemSet {
+  id: string;
+  name: string;
+  items: ItemType[];
+}
+
+var DAILY_ITEM_SETS: DailyItemSet[] = [
+  { id: 'standard', name: 'Full Arsenal', items: [] },
+  { id: 'shells', name: 'Shell Shock', items: [ItemType.GREEN_SHELL, ItemType.RED_SHELL, ItemType.GREEN_SHELL_TRIPLE, ItemType.RED_SHELL_TRIPLE] },
+  { id: 'speed', name: 'Speed Freaks', items: [ItemType.MUSHROOM, ItemType.MUSHROOM_TRIPLE, ItemType.MUSHROOM_GOLDEN, ItemType.STAR] },
+  { id: 'bananas', name: 'Banana Split', items: [ItemType.BANANA, ItemType.BANANA_TRIPLE, ItemType.GREEN_SHELL] },
+  { id: 'chaos', name: 'Total Chaos', items: [ItemType.BLUE_SHELL, ItemType.LIGHTNING, ItemType.BULLET, ItemType.STAR, ItemType.RED_SHELL_TRIPLE] }
+];
+
+/** Built-in tracks that are never the daily track */
+var DAILY_EXCLUDED_TRACKS = ['test_oval', 'quick_test'];
+
+/** Lap count range for the daily race */
+var DAILY_MIN_LAPS = 2;
+var DAILY_MAX_LAPS = 4;
+
+interface DailyChallenge {
+  /** UTC date, YYYY-MM-DD - also the leaderboard identifier */
+  dateKey: string;
+  seed: number;
+  trackId: string;
+  carId: string;
+  colorId: string;
+  laps: number;
+  itemSet: DailyItemSet;
+}
+
+/**
+ * UTC date key (YYYY-MM-DD) for a date.
+ */
+function getDailyDateKey(date: Date): string {
+  var month = date.getUTCMonth() + 1;
+  var day = date.getUTCDate();
+  return date.getUTCFullYear() + '-' + (month < 10 ? '0' : '') + month + '-' + (day < 10 ? '0' : '') + day;
+}
+
+/**
+ * Date key for the day before another date key.
+ */
+function getPreviousDailyDateKey(dateKey: string): string {
+  var parts = dateKey.split('-');
+  return getDailyDateKey(new Date(Date.UTC(parseInt(parts[0], 10), parseInt(parts[1], 10) - 1, parseInt(parts[2], 10) - 1)));
+}
+
+/**
+ * Work out the challenge for a date (defaults to today).
+ */
+function getDailyChallenge(date?: Date): DailyChallenge {
+  var dateKey = getDailyDateKey(date || new Date());
+
+  // String hash of the date key -> seed
+  var seed = 0;
+  for (var i = 0; i < dateKey.length; i++) {
+    seed = ((seed * 31) + dateKey.charCodeAt(i)) & 0x7fffffff;
+  }
+  var rand = new Rand(seed);
+
+  var tracks: TrackDefinition[] = [];
+  for (var t = 0; t < TRACK_CATALOG.length; t++) {
+    var def = TRACK_CATALOG[t];
+    if (def.hidden || DAILY_EXCLUDED_TRACKS.indexOf(def.id) !== -1) continue;
+    tracks.push(def);
+  }
+  var track = tracks[rand.nextInt(0, tracks.length - 1)];
+
+  // Starter cars and colors only, so the day's car is the same for everyone
+  var cars = getStarterCars();
+  var car = cars[rand.nextInt(0, cars.length - 1)];
+  var colors = car.availableColors.filter(function(id) {
+    return !car.lockedColors || car.lockedColors.indexOf(id) === -1;
+  });
+  var colorId = colors[rand.nextInt(0, colors.length - 1)];
+
+  return {
+    dateKey: dateKey,
+    seed: seed,
+    trackId: track.id,
+    carId: car.id,
+    colorId: colorId,
+    laps: rand.nextInt(DAILY_MIN_LAPS, DAILY_MAX_LAPS),
+    itemSet: DAILY_ITEM_SETS[rand.nextInt(0, DAILY_ITEM_SETS.length - 1)]
+  };
+}
+
+/**
+ * The challenge's track with the day's lap count.
+ */
+function getDailyTrackDefinition(challenge: DailyChallenge): TrackDefinition | null {
+  var base = getBuiltInTrackDefinition(challenge.trackId);
+  return base ? getTrackWithLaps(base, challenge.laps) : null;
+}
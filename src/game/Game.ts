@@ -11,13 +11,60 @@ interface GameConfig {
   maxTicksPerFrame: number;
 }
 
+/** Minimum 80x24 screen; races on a BBS use createGameConfig() */
 var DEFAULT_CONFIG: GameConfig = {
-  screenWidth: 80,
-  screenHeight: 24,
+  screenWidth: MIN_SCREEN_WIDTH,
+  screenHeight: MIN_SCREEN_HEIGHT,
   tickRate: 60,
   maxTicksPerFrame: 5
 };
 
+/**
+ * DEFAULT_CONFIG sized to the caller's terminal, at the sysop's tick rate
+ * unless a rate is given (races every BBS must run identically, and
+ * replays, which play back at the rate they were recorded).
+ */
+function createGameConfig(tickRate?: number): GameConfig {
+  var screen = getScreenSize();
+  tickRate = tickRate || OUTRUN_CONFIG.general.tickRate;
+  return {
+    screenWidth: screen.width,
+    screenHeight: screen.height,
+    tickRate: tickRate,
+    // A slow frame catches up the same stretch of race at any tick rate
+    maxTicksPerFrame: Math.max(1, Math.round(DEFAULT_CONFIG.maxTicksPerFrame * tickRate / DEFAULT_CONFIG.tickRate))
+  };
+}
+
+/**
+ * Renderer theme for a track's themeId. Themes loaded from files use
+ * their own name as the themeId.
+ */
+var TRACK_THEME_NAMES: { [themeId: string]: string } = {
+  'synthwave': 'synthwave',
+  'midnight_city': 'city_night',
+  'beach_paradise': 'sunset_beach',
+  'forest_night': 'twilight_forest',
+  'haunted_hollow': 'haunted_hollow',
+  'winter_wonderland': 'winter_wonderland',
+  'cactus_canyon': 'cactus_canyon',
+  'tropical_jungle': 'tropical_jungle',
+  'candy_land': 'candy_land',
+  'rainbow_road': 'rainbow_road',
+  'dark_castle': 'dark_castle',
+  'villains_lair': 'villains_lair',
+  'ancient_ruins': 'ancient_ruins',
+  'thunder_stadium': 'thunder_stadium',
+  'glitch_circuit': 'glitch_circuit',
+  'kaiju_rampage': 'kaiju_rampage',
+  'underwater_grotto': 'underwater_grotto',
+  'ansi_tunnel': 'ansi_tunnel'
+};
+
+function getTrackThemeName(trackDef: TrackDefinition): string {
+  return TRACK_THEME_NAMES[trackDef.themeId] || (getTheme(trackDef.themeId) ? trackDef.themeId : 'synthwave');
+}
+
 class Game {
   private config: GameConfig;
   private running: boolean;
@@ -29,18 +76,65 @@ class Game {
   private inputMap: InputMap;
   private controls: Controls;
   private renderer: IRenderer;
-  private trackLoader: TrackLoader;
   private hud: Hud;
   private physicsSystem: PhysicsSystem;
   private raceSystem: RaceSystem;
   private itemSystem: ItemSystem;
   private highScoreManager: HighScoreManager | null;
 
+  // Time Trial ghost: record this run, replay the best one
+  private ghostStore: GhostStore | null;
+  private ghostRecorder: GhostRecorder | null;
+  private ghostPlayer: GhostPlayer | null;
+
+  // Positions before the latest tick, for drawing frames in between (see render)
+  private interpolator: RenderInterpolator;
+
+  // Replays: record the player's input every tick, or feed a saved replay back in (see initReplay)
+  private replayStore: ReplayStore | null;
+  private replayRecorder: ReplayRecorder | null;
+  private replayInput: ReplayInput | null;
+
+  // Replay viewing: car the camera follows (null = the player) and text drawn over the HUD
+  private cameraVehicle: IVehicle | null;
+  private hudOverlay: ((frame: Frame) => void) | null;
+
+  // Optional listener for item pickups/uses/hits (headless summaries)
+  private itemEventListener: ((event: ItemEvent) => void) | null;
+
+  // Multiplayer: keeps this race in step with the other nodes
+  private session: MultiplayerSession | null;
+
+  // Live broadcast of this race for spectators on other nodes (see setBroadcaster)
+  private broadcaster: RaceBroadcaster | null;
+
+  // Daily Challenge being raced (scores go to its own leaderboard)
+  private dailyChallenge: DailyChallenge | null;
+
+  // Cup: roster persona who races as the player's rival (see setRival)
+  private rivalId: string | null;
+
+  // Difficulty class: speed, CPU skill, items, mirroring and score keys (see setRaceClass)
+  private raceClass: RaceClass;
+
+  // Career: the player's item uses, final position and whether they set the track record
+  private playerItemUses: { [item: string]: number };
+  private finalPosition: number;
+  private trackRecord: boolean;
+
+  // Pause menu, and what the last initWithTrack raced (for Restart Race)
+  private pauseMenu: PauseMenu;
+  private raceSetup: { trackDef: TrackDefinition; raceMode?: RaceMode; carSelection?: { carId: string; colorId: string }; seed?: number } | null;
+
   // State
   private state: GameState | null;
 
-  constructor(config?: GameConfig, highScoreManager?: HighScoreManager) {
-    this.config = config || DEFAULT_CONFIG;
+  /**
+   * @param config - Optional config; defaults to createGameConfig() (the terminal's size)
+   * @param renderer - Optional renderer; defaults to FrameRenderer (NullRenderer for headless runs)
+   */
+  constructor(config?: GameConfig, highScoreManager?: HighScoreManager, renderer?: IRenderer) {
+    this.config = config || createGameConfig();
     this.running = false;
     this.paused = false;
 
@@ -50,16 +144,35 @@ class Game {
       tickRate: this.config.tickRate,
       maxTicksPerFrame: this.config.maxTicksPerFrame
     });
-    this.inputMap = new InputMap();
+    this.inputMap = getPlayerInputMap();
     this.controls = new Controls(this.inputMap);
     // Use FrameRenderer for layered Frame.js rendering
-    this.renderer = new FrameRenderer(this.config.screenWidth, this.config.screenHeight);
-    this.trackLoader = new TrackLoader();
-    this.hud = new Hud();
+    this.renderer = renderer || new FrameRenderer(this.config.screenWidth, this.config.screenHeight);
+    this.hud = new Hud(this.config.screenWidth);
     this.physicsSystem = new PhysicsSystem();
     this.raceSystem = new RaceSystem();
     this.itemSystem = new ItemSystem();
     this.highScoreManager = highScoreManager || null;
+    this.ghostStore = OUTRUN_CONFIG.ghosts.enabled ? new GhostStore(this.config.tickRate) : null;
+    this.ghostRecorder = null;
+    this.ghostPlayer = null;
+    this.interpolator = new RenderInterpolator();
+    this.replayStore = OUTRUN_CONFIG.replays.enabled ? new ReplayStore() : null;
+    this.replayRecorder = null;
+    this.replayInput = null;
+    this.cameraVehicle = null;
+    this.hudOverlay = null;
+    this.itemEventListener = null;
+    this.session = null;
+    this.broadcaster = null;
+    this.dailyChallenge = null;
+    this.rivalId = null;
+    this.raceClass = getRaceClass(DEFAULT_RACE_CLASS_ID);
+    this.playerItemUses = {};
+    this.finalPosition = 0;
+    this.trackRecord = false;
+    this.pauseMenu = new PauseMenu();
+    this.raceSetup = null;
 
     this.state = null;
   }
@@ -69,9 +182,11 @@ class Game {
    * @param trackDef - Track definition
    * @param raceMode - Race mode (defaults to GRAND_PRIX)
    * @param carSelection - Optional car selection (carId and colorId)
+   * @param seed - Optional race seed; the same seed and inputs replay the same race
    */
-  initWithTrack(trackDef: TrackDefinition, raceMode?: RaceMode, carSelection?: { carId: string; colorId: string }): void {
+  initWithTrack(trackDef: TrackDefinition, raceMode?: RaceMode, carSelection?: { carId: string; colorId: string }, seed?: number): void {
     logInfo("Game.initWithTrack(): " + trackDef.name + " mode: " + (raceMode || RaceMode.GRAND_PRIX));
+    this.raceSetup = { trackDef: trackDef, raceMode: raceMode, carSelection: carSelection, seed: seed };
 
     // Default to Grand Prix mode (racing against opponents)
     var mode = raceMode || RaceMode.GRAND_PRIX;
@@ -80,49 +195,24 @@ class Game {
     this.renderer.init();
     
     // Set theme based on track's themeId
-    var themeMapping: { [key: string]: string } = {
-      'synthwave': 'synthwave',
-      'midnight_city': 'city_night',
-      'beach_paradise': 'sunset_beach',
-      'forest_night': 'twilight_forest',
-      'haunted_hollow': 'haunted_hollow',
-      'winter_wonderland': 'winter_wonderland',
-      'cactus_canyon': 'cactus_canyon',
-      'tropical_jungle': 'tropical_jungle',
-      'candy_land': 'candy_land',
-      'rainbow_road': 'rainbow_road',
-      'dark_castle': 'dark_castle',
-      'villains_lair': 'villains_lair',
-      'ancient_ruins': 'ancient_ruins',
-      'thunder_stadium': 'thunder_stadium',
-      'glitch_circuit': 'glitch_circuit',
-      'kaiju_rampage': 'kaiju_rampage',
-      'underwater_grotto': 'underwater_grotto',
-      'ansi_tunnel': 'ansi_tunnel'
-    };
-    var themeName = themeMapping[trackDef.themeId] || 'synthwave';
+    var themeName = getTrackThemeName(trackDef);
     if (this.renderer.setTheme) {
       this.renderer.setTheme(themeName);
     }
 
     // Build the road from the track definition
-    var road = buildRoadFromDefinition(trackDef);
+    var road = buildRoadFromDefinition(trackDef, this.raceClass.mirror);
 
-    // Load legacy track structure (for checkpoints/items - will be removed later)
-    var track = this.trackLoader.load("neon_coast_01");
-    track.laps = trackDef.laps;  // Override with definition's lap count
-    track.name = trackDef.name;
+    // The raced track (layout, checkpoints, starting grid) comes from the road
+    var track = new RoadTrack(road);
 
-    // Apply car stats if a car was selected
+    // Create player vehicle with selected car (its stats come with it)
     var selectedCarId = carSelection ? carSelection.carId : 'sports';
     var selectedColorId = carSelection ? carSelection.colorId : 'yellow';
-    applyCarStats(selectedCarId);
-
-    // Create player vehicle with selected car
     var playerVehicle = new Vehicle();
     playerVehicle.driver = new HumanDriver(this.controls);
     playerVehicle.isNPC = false;  // Ensure player is not marked as NPC
-    playerVehicle.carId = selectedCarId;
+    playerVehicle.setCar(selectedCarId);
     playerVehicle.carColorId = selectedColorId;
     
     // Get the car color for display
@@ -130,23 +220,21 @@ class Game {
     playerVehicle.color = carColor ? carColor.body : YELLOW;
 
     // Create game state with road and race mode
-    this.state = createInitialState(track, trackDef, road, playerVehicle, mode);
+    this.state = createInitialState(track, trackDef, road, playerVehicle, mode, seed);
 
     // Spawn vehicles based on race mode
-    if (mode === RaceMode.GRAND_PRIX) {
+    if (mode === RaceMode.MULTIPLAYER && this.session) {
+      // Multiplayer: the other nodes' players, in lobby grid order
+      this.state.vehicles = this.session.buildGrid(playerVehicle);
+      this.positionMultiplayerGrid();
+      this.state.countdown = this.session.getCountdown();
+      this.blockDrivers();
+    } else if (mode === RaceMode.GRAND_PRIX) {
       // Grand Prix: spawn 7 CPU racers on starting grid, no commuters
       this.spawnRacers(7, road);
       // Position all vehicles on starting grid
-      this.positionOnStartingGrid(road);
-      
-      // Block ALL drivers from moving during countdown
-      for (var i = 0; i < this.state.vehicles.length; i++) {
-        var v = this.state.vehicles[i];
-        var drv = v.driver as any;
-        if (drv && drv.setCanMove) {
-          drv.setCanMove(false);
-        }
-      }
+      this.positionOnStartingGrid();
+      this.blockDrivers();
     } else {
       // Time Trial: spawn some commuter traffic for obstacles
       var npcCount = trackDef.npcCount !== undefined ? trackDef.npcCount : 5;
@@ -156,23 +244,74 @@ class Game {
       playerVehicle.playerX = 0;
     }
 
+    // The class sets the pace for everyone on the road
+    if (this.raceClass.speed !== 1) {
+      for (var v = 0; v < this.state.vehicles.length; v++) {
+        this.state.vehicles[v].stats.maxSpeed *= this.raceClass.speed;
+        this.state.vehicles[v].stats.accel *= this.raceClass.speed;
+      }
+    }
+
     // Initialize systems
     this.physicsSystem.init(this.state);
     this.raceSystem.init(this.state);
-    this.itemSystem.initFromTrack(track, road);
+    this.itemSystem.initFromTrack(track, road, this.state.rand);
     
     // Register item system callbacks for visual effects
     var renderer = this.renderer;
+    var self = this;
     this.itemSystem.setCallbacks({
       onLightningStrike: function(hitCount: number) {
         if (renderer.triggerLightningStrike) {
           renderer.triggerLightningStrike(hitCount);
         }
+      },
+      onItemEvent: function(event: ItemEvent) {
+        if (event.type === 'use' && self.state && event.vehicleId === self.state.playerVehicle.id) {
+          var item = ItemType[getBaseItemType(event.itemType)];
+          self.playerItemUses[item] = (self.playerItemUses[item] || 0) + 1;
+        }
+        if (self.session) {
+          self.session.recordItemEvent(event);
+        }
+        if (self.itemEventListener) {
+          self.itemEventListener(event);
+        }
       }
     });
 
+    this.playerItemUses = {};
+    this.finalPosition = 0;
+    this.trackRecord = false;
+    this.interpolator.reset();
+
+    // Time Trial: record this run and race against the best ghost
+    this.ghostRecorder = null;
+    this.ghostPlayer = null;
+    if (mode === RaceMode.TIME_TRIAL && this.ghostStore && !this.replayInput) {
+      this.ghostRecorder = new GhostRecorder(this.config.tickRate);
+      var ghost = this.ghostStore.loadBest(getRaceClassScoreId(trackDef.id, this.raceClass), this.getUserNumber());
+      if (ghost) {
+        this.ghostPlayer = new GhostPlayer(ghost);
+        logInfo("Racing ghost of " + ghost.playerName + " (" + ghost.time.toFixed(2) + "s)");
+      }
+    }
+
+    // Record the race for the Replays menu (multiplayer depends on other nodes, so it isn't)
+    this.replayRecorder = null;
+    this.cameraVehicle = null;
+    if (this.replayStore && !this.replayInput && mode !== RaceMode.MULTIPLAYER) {
+      this.replayRecorder = new ReplayRecorder(this.config.tickRate);
+    }
+
+    if (this.broadcaster) {
+      this.broadcaster.start(trackDef, this.raceClass);
+    }
+
     // Initialize HUD with race start time (will be reset to 0 when countdown finishes)
     this.hud.init(this.state.time);
+    this.hud.initMinimap(trackDef, this.raceClass.mirror);
+    this.hud.setMinimapVisible(getPlayerSettings().hudLayout === 'full');
 
     this.running = true;
     // Don't set racing=true yet - wait for countdown to finish
@@ -180,12 +319,54 @@ class Game {
 
     debugLog.info("Game initialized with track: " + trackDef.name);
     debugLog.info("  Race mode: " + mode);
+    debugLog.info("  Race class: " + this.raceClass.name);
+    debugLog.info("  Race seed: " + this.state.seed);
     debugLog.info("  Road segments: " + road.segments.length);
     debugLog.info("  Road length: " + road.totalLength);
     debugLog.info("  Laps: " + road.laps);
     debugLog.info("  Total racers: " + this.state.vehicles.length);
   }
 
+  /**
+   * Initialize a multiplayer race from a started lobby. Every node uses
+   * the lobby's seed and grid so the races line up.
+   */
+  initMultiplayer(trackDef: TrackDefinition, carSelection: { carId: string; colorId: string }, session: MultiplayerSession): void {
+    this.session = session;
+    this.initWithTrack(trackDef, RaceMode.MULTIPLAYER, carSelection, session.getRace().seed);
+  }
+
+  /**
+   * Initialize a Daily Challenge race: a Grand Prix with the day's car,
+   * item set and seed.
+   * @param trackDef - The challenge track with the day's laps (see getDailyTrackDefinition)
+   */
+  initDailyChallenge(trackDef: TrackDefinition, challenge: DailyChallenge): void {
+    this.dailyChallenge = challenge;
+    this.initWithTrack(trackDef, RaceMode.GRAND_PRIX, { carId: challenge.carId, colorId: challenge.colorId }, challenge.seed);
+    this.itemSystem.setItemPool(challenge.itemSet.items);
+  }
+
+  /**
+   * Initialize a race to play back a saved replay. The recorded input
+   * drives the player's car; call step() to advance it.
+   * @param trackDef - The replay's track with its laps (see getReplayTrackDefinition)
+   */
+  initReplay(replay: ReplayData, trackDef: TrackDefinition): void {
+    // Called again to rewind: start the race over on a fresh screen
+    if (this.state) {
+      this.renderer.shutdown();
+      this.controls.clearAll();
+    }
+    this.replayInput = new ReplayInput(replay.inputs);
+    this.setRival(replay.rivalId);
+    this.setRaceClass(getRaceClass(replay.raceClassId));
+    this.initWithTrack(trackDef, replay.raceMode, { carId: replay.carId, colorId: replay.colorId }, replay.seed);
+    if (replay.itemPool) {
+      this.itemSystem.setItemPool(replay.itemPool);
+    }
+  }
+
   /**
    * Initialize the game (legacy - uses default track).
    */
@@ -252,29 +433,109 @@ class Game {
         // Check for race finish - show game over screen
         if (this.state.finished && this.state.racing === false) {
           debugLog.info("Race complete! Final time: " + this.state.time.toFixed(2));
+          // Spectators see the finish before the results screen blocks the loop
+          if (this.broadcaster) {
+            this.broadcaster.publish(this.state, this.itemSystem, false);
+          }
           this.showGameOverScreen();
           this.running = false;
         }
       }
 
-      // 4. Render
-      this.render();
+      // Let spectators see the race, paused or not
+      if (this.broadcaster && this.state && this.running) {
+        this.broadcaster.update(this.state, this.itemSystem, this.paused);
+      }
+
+      // 4. Render, smoothed between the last two ticks
+      this.render(this.timestep.getAlpha());
 
       // 5. Yield to Synchronet
       mswait(1);
     }
   }
 
+  /**
+   * Advance one fixed logic tick without reading the console or rendering.
+   * Used by the headless harness, which feeds Controls itself.
+   */
+  step(): void {
+    if (!this.state) return;
+    this.tick(this.timestep.getDt());
+    this.controls.endFrame();
+  }
+
+  /**
+   * Get the current race state (null before initWithTrack).
+   */
+  getState(): GameState | null {
+    return this.state;
+  }
+
+  /**
+   * Get the player's controls, for feeding scripted input.
+   */
+  getControls(): Controls {
+    return this.controls;
+  }
+
+  /**
+   * Listen for item pickups, uses and hits.
+   */
+  setItemEventListener(listener: ((event: ItemEvent) => void) | null): void {
+    this.itemEventListener = listener;
+  }
+
+  /**
+   * Race a roster persona as the player's rival. Call before initWithTrack.
+   */
+  setRival(personaId: string | null): void {
+    this.rivalId = personaId;
+  }
+
+  /**
+   * Publish this race for spectators. Call before initWithTrack.
+   */
+  setBroadcaster(broadcaster: RaceBroadcaster | null): void {
+    this.broadcaster = broadcaster;
+  }
+
+  /**
+   * Follow another car with the camera and HUD (null = the player's).
+   */
+  setCamera(vehicle: IVehicle | null): void {
+    this.cameraVehicle = vehicle;
+  }
+
+  /**
+   * Draw extra text over the HUD each frame (null to stop).
+   */
+  setHudOverlay(overlay: ((frame: Frame) => void) | null): void {
+    this.hudOverlay = overlay;
+  }
+
+  /**
+   * Race in a difficulty class (default 150cc). Call before initWithTrack.
+   */
+  setRaceClass(raceClass: RaceClass): void {
+    this.raceClass = raceClass;
+  }
+
   /**
    * Process input (called every frame).
    */
   private processInput(): void {
     var now = this.clock.now();
 
-    // Read all available keys
+    // Read all available keys (the pause menu takes them while it is open)
     var key: string;
     while ((key = console.inkey(K_NONE, 0)) !== '') {
-      this.controls.handleKey(key, now);
+      if (this.pauseMenu.isOpen()) {
+        this.handlePauseMenuKey(key);
+        if (!this.running) return;
+      } else {
+        this.controls.handleKey(key, now);
+      }
     }
 
     // Update held state (decays old inputs)
@@ -282,13 +543,14 @@ class Game {
 
     // Handle immediate actions AFTER processing all keys
     if (this.controls.wasJustPressed(GameAction.QUIT)) {
-      debugLog.info("QUIT action triggered - exiting game loop");
-      this.running = false;
+      // Confirm first: a stray key shouldn't throw the race away
+      debugLog.info("QUIT action triggered - confirming");
+      this.openPauseMenu(true);
       this.controls.endFrame();  // Clear just-pressed flags
       return;
     }
-    if (this.controls.wasJustPressed(GameAction.PAUSE)) {
-      this.togglePause();
+    if (this.controls.wasJustPressed(GameAction.PAUSE) && !this.session) {
+      this.openPauseMenu(false);
       this.controls.endFrame();  // Clear just-pressed flags
       return;
     }
@@ -302,9 +564,20 @@ class Game {
   private tick(dt: number): void {
     if (!this.state) return;
 
+    // Where everything was, for drawing frames between this tick and the next
+    this.interpolator.capture(this.state, this.getInterpolatedEntities());
+
+    // Replays: this tick's input comes from the recording, or is added to it
+    if (this.replayInput) {
+      this.replayInput.apply(this.controls);
+    } else if (this.replayRecorder) {
+      this.replayRecorder.record(this.controls);
+    }
+
     // Handle countdown before race starts
-    if (!this.state.raceStarted && this.state.raceMode === RaceMode.GRAND_PRIX) {
-      this.state.countdown -= dt;
+    if (!this.state.raceStarted && this.state.raceMode !== RaceMode.TIME_TRIAL) {
+      // Multiplayer counts down to the lobby's start time so all nodes go together
+      this.state.countdown = this.session ? this.session.getCountdown() : this.state.countdown - dt;
       
       if (this.state.countdown <= 0) {
         this.state.raceStarted = true;
@@ -325,6 +598,7 @@ class Game {
           }
         }
         debugLog.info("Race started! GO!");
+        this.ringBell();
       }
       // During countdown, don't update physics - just render
       return;
@@ -336,11 +610,24 @@ class Game {
     // Update physics
     this.physicsSystem.update(this.state, dt);
 
-    // Update race progress
+    // Update race progress (the bell marks each lap and the finish)
+    var lapBefore = this.state.playerVehicle.lap;
+    var finishedBefore = this.state.finished;
     this.raceSystem.update(this.state, dt);
+    if (this.state.playerVehicle.lap > lapBefore || (this.state.finished && !finishedBefore)) {
+      this.ringBell();
+    }
+
+    // Ghost: record the player's tick and advance the replay
+    if (this.ghostRecorder && !this.state.finished) {
+      this.ghostRecorder.record(this.state.playerVehicle, this.state.road.totalLength);
+    }
+    if (this.ghostPlayer) {
+      this.ghostPlayer.step(this.state.road.totalLength);
+    }
 
     // Activate dormant NPCs when player approaches (not for racers)
-    if (this.state.raceMode !== RaceMode.GRAND_PRIX) {
+    if (this.state.raceMode === RaceMode.TIME_TRIAL) {
       this.activateDormantNPCs();
       // Apply NPC pacing - commuters drive faster when far, slower when close
       this.applyNPCPacing();
@@ -385,13 +672,21 @@ class Game {
     }
 
     // Process vehicle-to-vehicle collisions
-    Collision.processVehicleCollisions(this.state.vehicles);
+    Collision.processVehicleCollisions(this.state.vehicles, this.state.rand);
 
     // Respawn NPCs that have fallen behind the player (not in race mode)
-    if (this.state.raceMode !== RaceMode.GRAND_PRIX) {
+    if (this.state.raceMode === RaceMode.TIME_TRIAL) {
       this.checkNPCRespawn();
     }
 
+    // Multiplayer: place the other nodes' cars, exchange state and items
+    if (this.session) {
+      this.session.update(this.state, this.itemSystem, dt);
+      if (this.state.finished) {
+        this.session.markFinished(this.state);
+      }
+    }
+
     // Update camera to follow player
     this.state.cameraX = this.state.playerVehicle.x;
 
@@ -413,19 +708,30 @@ class Game {
     var finalTime = this.state.time;
     var bestLap = this.state.bestLapTime > 0 ? this.state.bestLapTime : 0;
     
+    // Multiplayer: finishing order comes from every node's finish time
+    if (this.session) {
+      finalPosition = this.waitForMultiplayerFinish();
+    }
+    this.finalPosition = finalPosition;
+    
     // Check if player qualified for high scores
     var trackTimePosition = 0;
     var lapTimePosition = 0;
+    var dailyPosition = 0;
     
     if (this.highScoreManager && this.state.trackDefinition) {
-      var trackId = this.state.trackDefinition.id;
+      // Each class keeps its own boards
+      var trackId = getRaceClassScoreId(this.state.trackDefinition.id, this.raceClass);
+      var trackName = getRaceClassScoreName(this.state.track.name, this.raceClass);
       
-      // Check track time qualification
-      trackTimePosition = this.highScoreManager.checkQualification(
-        HighScoreType.TRACK_TIME,
-        trackId,
-        finalTime
-      );
+      // Check track time qualification (the daily lap count isn't the track's usual one)
+      if (!this.dailyChallenge) {
+        trackTimePosition = this.highScoreManager.checkQualification(
+          HighScoreType.TRACK_TIME,
+          trackId,
+          finalTime
+        );
+      }
       
       // Check best lap time qualification
       if (bestLap > 0) {
@@ -437,24 +743,20 @@ class Game {
       }
       
       // Submit scores if qualified
-      var playerName = "Player";
-      try {
-        if (typeof user !== 'undefined' && user && user.alias) {
-          playerName = user.alias;
-        }
-      } catch (e) {
-        // user not available, keep default
-      }
+      var playerName = this.getPlayerName();
       
       if (trackTimePosition > 0) {
+        // Topping an empty board isn't beating a record
+        var hadTrackRecord = this.highScoreManager.getScores(HighScoreType.TRACK_TIME, trackId).length > 0;
         this.highScoreManager.submitScore(
           HighScoreType.TRACK_TIME,
           trackId,
           playerName,
           finalTime,
-          this.state.track.name
+          trackName
         );
         logInfo("NEW HIGH SCORE! Track time #" + trackTimePosition + ": " + finalTime.toFixed(2));
+        this.trackRecord = trackTimePosition === 1 && hadTrackRecord;
       }
       
       if (lapTimePosition > 0) {
@@ -463,10 +765,51 @@ class Game {
           trackId,
           playerName,
           bestLap,
-          this.state.track.name
+          trackName
         );
         logInfo("NEW HIGH SCORE! Lap time #" + lapTimePosition + ": " + bestLap.toFixed(2));
       }
+
+      if (this.dailyChallenge) {
+        dailyPosition = this.highScoreManager.submitScore(
+          HighScoreType.DAILY_TIME,
+          this.dailyChallenge.dateKey,
+          playerName,
+          finalTime,
+          this.state.track.name
+        );
+        if (dailyPosition > 0) {
+          logInfo("Daily Challenge " + this.dailyChallenge.dateKey + " #" + dailyPosition + ": " + finalTime.toFixed(2));
+        }
+      }
+    }
+    
+    // Keep the ghost if this run beat the personal best or track record
+    if (this.ghostRecorder && this.ghostStore && this.state.trackDefinition) {
+      var ghostData = this.ghostRecorder.finish(
+        getRaceClassScoreId(this.state.trackDefinition.id, this.raceClass),
+        this.getPlayerName(),
+        player.carId,
+        finalTime
+      );
+      this.ghostStore.saveIfBetter(ghostData, this.getUserNumber());
+      this.ghostRecorder = null;
+    }
+
+    // Keep a replay of every finished race
+    if (this.replayRecorder && this.replayStore && this.raceSetup) {
+      var replayData = this.replayRecorder.finish({
+        trackDef: this.raceSetup.trackDef,
+        raceMode: this.state.raceMode,
+        raceClassId: this.raceClass.id,
+        seed: this.state.seed,
+        carId: player.carId,
+        colorId: player.carColorId,
+        rivalId: this.rivalId,
+        itemPool: this.dailyChallenge ? this.dailyChallenge.itemSet.items : null
+      }, this.getUserNumber(), this.getPlayerName(), finalTime, finalPosition);
+      this.replayStore.save(replayData);
+      this.replayRecorder = null;
     }
     
     // Render results screen once (simple stats only)
@@ -481,12 +824,15 @@ class Game {
       }
     }
     
+    // Daily Challenge: always show today's board
+    if (this.highScoreManager && this.dailyChallenge) {
+      showDailyChallengeScores(this.dailyChallenge, this.highScoreManager, dailyPosition);
+    }
     // Show two-column high scores if player made any list
-    if (this.highScoreManager && this.state.trackDefinition && (trackTimePosition > 0 || lapTimePosition > 0)) {
-      var trackId = this.state.trackDefinition.id;
+    else if (this.highScoreManager && this.state.trackDefinition && (trackTimePosition > 0 || lapTimePosition > 0)) {
       showTwoColumnHighScores(
-        trackId,
-        this.state.track.name,
+        getRaceClassScoreId(this.state.trackDefinition.id, this.raceClass),
+        getRaceClassScoreName(this.state.track.name, this.raceClass),
         this.highScoreManager,
         trackTimePosition,
         lapTimePosition
@@ -494,6 +840,66 @@ class Game {
     }
   }
   
+  /**
+   * Show live standings until every racer has finished or dropped out (or
+   * the player skips ahead). Returns the player's finishing position.
+   */
+  private waitForMultiplayerFinish(): number {
+    var session = this.session as MultiplayerSession;
+    var state = this.state as GameState;
+    var lastPublish = 0;
+    var standings: MultiplayerStanding[];
+    var done: boolean;
+
+    while (true) {
+      // Keep our finished state fresh so nodes that started late still see it
+      if (Date.now() - lastPublish >= 1000) {
+        session.publish(state);
+        lastPublish = Date.now();
+      }
+      session.poll(state, null);
+      standings = session.getStandings(state);
+      done = session.isEveryoneDone(state);
+      renderMultiplayerStandings(standings, done);
+
+      var key = console.inkey(K_NONE, 500);
+      if (key === '\r' || key === '\n') break;
+    }
+
+    for (var i = 0; i < standings.length; i++) {
+      if (standings[i].isLocal) return i + 1;
+    }
+    return standings.length;
+  }
+
+  /**
+   * Current user's alias, or "Player" outside a BBS session.
+   */
+  private getPlayerName(): string {
+    try {
+      if (typeof user !== 'undefined' && user && user.alias) {
+        return user.alias;
+      }
+    } catch (e) {
+      // user not available, keep default
+    }
+    return "Player";
+  }
+  
+  /**
+   * Current user's number, or 0 outside a BBS session.
+   */
+  private getUserNumber(): number {
+    try {
+      if (typeof user !== 'undefined' && user && user.number) {
+        return user.number;
+      }
+    } catch (e) {
+      // user not available
+    }
+    return 0;
+  }
+  
   /**
    * Render a dedicated results screen (no game view, just results).
    * Uses fixed 80x24 viewport for consistent layout.
@@ -581,6 +987,17 @@ class Game {
     console.gotoxy(boxX + 23, topY + 7);
     console.attributes = valueAttr;
     console.print(bestLap > 0 ? LapTimer.format(bestLap) : "--:--.--");
+
+    // Race winner (the roster name that also appears in cup standings)
+    var winner = this.getRaceWinnerName();
+    if (winner) {
+      console.gotoxy(boxX + 5, topY + 8);
+      console.attributes = labelAttr;
+      console.print("WINNER:");
+      console.gotoxy(boxX + 23, topY + 8);
+      console.attributes = valueAttr;
+      console.print(winner);
+    }
     
     // Track name
     console.gotoxy(boxX + 5, topY + 9);
@@ -599,6 +1016,21 @@ class Game {
     scene3d.selectRawDepth('glass');
   }
 
+  /**
+   * Name of the Grand Prix winner ("YOU" for the player), or null when
+   * the race has no CPU field (Time Trial, multiplayer).
+   */
+  private getRaceWinnerName(): string | null {
+    if (!this.state || this.session || this.state.raceMode !== RaceMode.GRAND_PRIX) return null;
+    for (var i = 0; i < this.state.vehicles.length; i++) {
+      var v = this.state.vehicles[i];
+      if (v.racePosition !== 1) continue;
+      if (v === this.state.playerVehicle) return "YOU";
+      if (v.isRacer && v.driver instanceof RacerDriver) return v.driver.name;
+    }
+    return null;
+  }
+
   /**
    * Activate dormant NPCs when the player approaches them.
    * NPCs start stationary and "wake up" when player is within range.
@@ -634,6 +1066,7 @@ class Game {
    */
   private checkNPCRespawn(): void {
     if (!this.state) return;
+    var rand = this.state.rand;
     
     var playerZ = this.state.playerVehicle.trackZ;
     var roadLength = this.state.road.totalLength;
@@ -672,13 +1105,13 @@ class Game {
         npc.speed = 0;
         
         // Randomize lane
-        var laneChoice = Math.random();
+        var laneChoice = rand.next();
         if (laneChoice < 0.4) {
-          npc.playerX = -0.35 + (Math.random() - 0.5) * 0.2;
+          npc.playerX = -0.35 + (rand.next() - 0.5) * 0.2;
         } else if (laneChoice < 0.8) {
-          npc.playerX = 0.35 + (Math.random() - 0.5) * 0.2;
+          npc.playerX = 0.35 + (rand.next() - 0.5) * 0.2;
         } else {
-          npc.playerX = (Math.random() - 0.5) * 0.3;
+          npc.playerX = (rand.next() - 0.5) * 0.3;
         }
         
         npc.isCrashed = false;
@@ -714,7 +1147,7 @@ class Game {
       
       // Commuters always drive slower than max so player can catch them
       // Base speed is 30-50% of max (from CommuterDriver.speedFactor)
-      var commuterBaseSpeed = VEHICLE_PHYSICS.MAX_SPEED * driver.getSpeedFactor();
+      var commuterBaseSpeed = npc.stats.maxSpeed * driver.getSpeedFactor();
       
       // When player is close (within 100 units), slow down slightly
       // This ensures the player can always catch up
@@ -729,13 +1162,41 @@ class Game {
   }
 
   /**
-   * Render current state.
+   * Render current state, alpha (0-1) of the way from the previous tick
+   * to the latest one (default: the latest tick as is).
+   */
+  render(alpha?: number): void {
+    if (!this.state) return;
+
+    var entities = this.getInterpolatedEntities();
+    this.interpolator.apply(this.state, entities, alpha === undefined ? 1 : alpha);
+    this.drawFrame();
+    this.interpolator.restore(this.state);
+  }
+
+  /**
+   * Everything drawn on the road that moves between ticks: the cars,
+   * the ghost and projectiles.
+   */
+  private getInterpolatedEntities(): InterpolatedEntity[] {
+    var state = this.state as GameState;
+    var entities: InterpolatedEntity[] = (state.vehicles as InterpolatedEntity[]).concat(this.itemSystem.getProjectiles());
+    if (this.ghostPlayer) {
+      entities.push(this.ghostPlayer.getVehicle());
+    }
+    return entities;
+  }
+
+  /**
+   * Draw one frame of the current state.
    */
-  private render(): void {
+  private drawFrame(): void {
     if (!this.state) return;
 
-    var trackZ = this.state.playerVehicle.z;
-    var vehicle = this.state.playerVehicle;
+    // Replays can follow any car; the player's is the default
+    var vehicle = this.cameraVehicle || this.state.playerVehicle;
+    var player = this.state.playerVehicle;
+    var trackZ = vehicle.z;
     var road = this.state.road;
     
     // Get curvature at player position for parallax
@@ -747,7 +1208,7 @@ class Game {
 
     // Set brake light state based on acceleration input
     // Brake lights on when: actively braking, stopped, or coasting (not accelerating)
-    var accel = this.controls.getAcceleration();
+    var accel = vehicle === player ? this.controls.getAcceleration() : 1;
     var brakeLightsOn = accel <= 0;  // On when braking (accel < 0) or not accelerating (accel === 0)
     if (this.renderer.setBrakeLightState) {
       this.renderer.setBrakeLightState(brakeLightsOn);
@@ -755,17 +1216,31 @@ class Game {
 
     this.renderer.beginFrame();
     this.renderer.renderSky(trackZ, curvature, playerSteer, speed, dt);
-    this.renderer.renderRoad(trackZ, this.state.cameraX, this.state.track, this.state.road);
+    this.renderer.renderRoad(trackZ, vehicle === player ? this.state.cameraX : vehicle.x, this.state.track, this.state.road);
+    // The ghost is render-only; it never joins state.vehicles
+    var renderVehicles: IVehicle[] = this.state.vehicles;
+    if (this.ghostPlayer) {
+      renderVehicles = renderVehicles.concat([this.ghostPlayer.getVehicle()]);
+    }
+    // The followed car is drawn as the player's, and the player's by the NPC pass
+    if (vehicle !== player) {
+      vehicle.isNPC = false;
+      player.isNPC = true;
+    }
     this.renderer.renderEntities(
-      this.state.playerVehicle,
-      this.state.vehicles,
+      vehicle,
+      renderVehicles,
       this.itemSystem.getItemBoxes(),
       this.itemSystem.getProjectiles()
     );
+    if (vehicle !== player) {
+      vehicle.isNPC = true;
+      player.isNPC = false;
+    }
 
     // Compute and render HUD
     var hudData = this.hud.compute(
-      this.state.playerVehicle,
+      vehicle,
       this.state.track,
       this.state.road,
       this.state.vehicles,
@@ -775,134 +1250,156 @@ class Game {
     );
     this.renderer.renderHud(hudData);
 
-    // Render pause overlay if paused
-    if (this.paused) {
-      this.renderPauseOverlay();
+    var hudFrame = this.renderer.getHudFrame ? this.renderer.getHudFrame() : null;
+    if (hudFrame && this.hudOverlay) {
+      this.hudOverlay(hudFrame);
+    }
+
+    // Pause menu (or the quit confirmation) over everything
+    if (hudFrame && this.pauseMenu.isOpen()) {
+      this.pauseMenu.draw(hudFrame, this.inputMap);
     }
 
     this.renderer.endFrame();
   }
 
   /**
-   * Render pause overlay with flashing rainbow "PAUSED" text.
+   * Open the pause menu. The race pauses, except in multiplayer where the
+   * other nodes keep racing and only the quit confirmation is offered.
    */
-  private renderPauseOverlay(): void {
-    // Large ASCII art "PAUSED" text (5 rows tall)
-    var pausedArt = [
-      ' ####   ###  #   # ### #### ####  ',
-      ' #   # #   # #   # #   #    #   # ',
-      ' ####  ##### #   # ### #### #   # ',
-      ' #     #   # #   #   # #    #   # ',
-      ' #     #   #  ###  ### #### ####  '
-    ];
-    
-    // Rainbow color sequence
-    var rainbowColors = [LIGHTRED, YELLOW, LIGHTGREEN, LIGHTCYAN, LIGHTBLUE, LIGHTMAGENTA];
-    
-    // Cycle color based on time (using system.timer)
-    var colorIndex = Math.floor((system.timer * 8)) % rainbowColors.length;
-    var textColor = rainbowColors[colorIndex];
-    var attr = makeAttr(textColor, BG_BLACK);
-    
-    // Calculate center position
-    var textWidth = pausedArt[0].length;
-    var textHeight = pausedArt.length;
-    var startX = Math.floor((80 - textWidth) / 2);
-    var startY = Math.floor((24 - textHeight) / 2);
-    
-    // Get the HUD frame from renderer to draw overlay (top layer)
-    var hudFrame = this.renderer.getHudFrame ? this.renderer.getHudFrame() : null;
-    if (!hudFrame) return;
-    
-    // Draw semi-transparent background box (Frame uses 1-based coords)
-    var boxPadding = 2;
-    var boxAttr = makeAttr(DARKGRAY, BG_BLACK);
-    for (var by = startY - boxPadding; by < startY + textHeight + boxPadding; by++) {
-      for (var bx = startX - boxPadding; bx < startX + textWidth + boxPadding; bx++) {
-        if (bx >= 0 && bx < 80 && by >= 0 && by < 24) {
-          hudFrame.setData(bx + 1, by + 1, GLYPH.MEDIUM_SHADE, boxAttr);
-        }
+  private openPauseMenu(confirmQuit: boolean): void {
+    if (confirmQuit || this.session) {
+      this.pauseMenu.showQuitConfirm();
+    } else {
+      this.pauseMenu.show();
+    }
+    this.controls.clearAll();
+    if (!this.session) {
+      this.paused = true;
+    }
+    logInfo("Game paused");
+  }
+
+  /**
+   * Close the pause menu and carry on racing.
+   */
+  private resumeFromPause(): void {
+    this.pauseMenu.hide();
+    if (this.paused) {
+      this.paused = false;
+      this.clock.reset();
+      this.timestep.reset();
+    }
+    logInfo("Game resumed");
+  }
+
+  /**
+   * Feed a key to the open pause menu and carry out what it picks.
+   */
+  private handlePauseMenuKey(key: string): void {
+    var action = this.pauseMenu.handleKey(key);
+    if (action === null) {
+      // The pause key resumes from anywhere in the menu
+      if (!this.session && this.inputMap.getAction(key) === GameAction.PAUSE) {
+        this.resumeFromPause();
       }
+      return;
     }
-    
-    // Draw the PAUSED text
-    for (var row = 0; row < textHeight; row++) {
-      var line = pausedArt[row];
-      for (var col = 0; col < line.length; col++) {
-        var ch = line.charAt(col);
-        var x = startX + col;
-        var y = startY + row;
-        if (x >= 0 && x < 80 && y >= 0 && y < 24) {
-          if (ch !== ' ') {
-            hudFrame.setData(x + 1, y + 1, GLYPH.FULL_BLOCK, attr);
-          }
+
+    switch (action) {
+      case 'resume':
+        this.resumeFromPause();
+        break;
+      case 'restart':
+        this.restartRace();
+        break;
+      case 'quit':
+        debugLog.info("Quit confirmed - exiting game loop");
+        this.pauseMenu.hide();
+        this.running = false;
+        break;
+      case 'settings':
+        this.applyPlayerSettings();
+        break;
+      case 'controls':
+        showControlsMenu(this.getUserNumber());
+        // The menu drew straight to the console; repaint the race
+        var rootFrame = this.renderer.getRootFrame ? this.renderer.getRootFrame() : null;
+        if (rootFrame) {
+          rootFrame.invalidate();
         }
-      }
+        break;
     }
-    
-    // Draw "Press P to resume" below
-    var resumeText = 'Press P to resume';
-    var resumeX = Math.floor((80 - resumeText.length) / 2);
-    var resumeY = startY + textHeight + 2;
-    var resumeAttr = makeAttr(WHITE, BG_BLACK);
-    for (var i = 0; i < resumeText.length; i++) {
-      if (resumeX + i >= 0 && resumeX + i < 80 && resumeY >= 0 && resumeY < 24) {
-        hudFrame.setData(resumeX + i + 1, resumeY + 1, resumeText.charAt(i), resumeAttr);
-      }
+  }
+
+  /**
+   * Save the settings changed in the pause menu and apply them now.
+   */
+  private applyPlayerSettings(): void {
+    var settings = getPlayerSettings();
+    new PlayerSettingsStore().save(settings, this.getUserNumber());
+    this.hud.setMinimapVisible(settings.hudLayout === 'full');
+  }
+
+  /**
+   * Start the race again from the grid with the same track, car and mode.
+   */
+  private restartRace(): void {
+    if (!this.raceSetup) return;
+    var setup = this.raceSetup;
+    logInfo("Game: restarting race");
+
+    this.pauseMenu.hide();
+    this.controls.clearAll();
+    this.renderer.shutdown();
+    if (this.dailyChallenge) {
+      this.initDailyChallenge(setup.trackDef, this.dailyChallenge);
+    } else {
+      this.initWithTrack(setup.trackDef, setup.raceMode, setup.carSelection, setup.seed);
     }
+    this.paused = false;
+    this.clock.reset();
+    this.timestep.reset();
   }
 
   /**
-   * Toggle pause state.
+   * Ring the terminal bell if the player has it turned on.
    */
-  private togglePause(): void {
-    this.paused = !this.paused;
-    if (!this.paused) {
-      this.clock.reset();
-      this.timestep.reset();
+  private ringBell(): void {
+    if (getPlayerSettings().bell && typeof console !== 'undefined') {
+      console.beep();
     }
-    logInfo("Game " + (this.paused ? "paused" : "resumed"));
   }
 
   /**
    * Spawn CPU racer vehicles for Grand Prix mode.
    * Creates skilled AI opponents that actually race.
    */
-  private spawnRacers(count: number, _road: Road): void {
+  private spawnRacers(count: number, road: Road): void {
     if (!this.state) return;
+    var rand = this.state.rand;
     
-    // Racer colors - distinct from player's yellow
-    var racerColors = [
-      { body: LIGHTRED, highlight: WHITE },
-      { body: LIGHTBLUE, highlight: LIGHTCYAN },
-      { body: LIGHTGREEN, highlight: WHITE },
-      { body: LIGHTMAGENTA, highlight: WHITE },
-      { body: LIGHTCYAN, highlight: WHITE },
-      { body: WHITE, highlight: LIGHTGRAY },
-      { body: BROWN, highlight: YELLOW }
-    ];
-    
-    // Skill levels for 7 opponents - Road Rash style mix
-    // 2 front-runners, 2 mid-pack, 3 back-markers for testability
-    var skillLevels = [0.82, 0.75, 0.58, 0.52, 0.42, 0.38, 0.35];
-    
-    for (var i = 0; i < count && i < racerColors.length; i++) {
+    // The roster in grid order, so racer IDs match the cup standings
+    for (var i = 0; i < count && i < RIVAL_ROSTER.length; i++) {
+      var persona = RIVAL_ROSTER[i];
       var racer = new Vehicle();
       
       // Use RacerDriver for competitive AI
-      var skill = skillLevels[i] || 0.6;
-      racer.driver = new RacerDriver(skill);
+      var driver = RacerDriver.fromPersona(persona, rand, this.raceClass);
+      driver.setRaceContext(road, this.state.vehicles);
+      if (persona.id === this.rivalId) {
+        driver.setRival(this.state.playerVehicle);
+      }
+      racer.driver = driver;
       racer.isNPC = true;   // AI-controlled vehicle
       racer.isRacer = true; // Mark as racer for position calculation
       
-      // Randomize vehicle type
-      var typeIndex = Math.floor(Math.random() * NPC_VEHICLE_TYPES.length);
-      racer.npcType = NPC_VEHICLE_TYPES[typeIndex];
-      
-      // Assign distinct color
-      var colorPalette = racerColors[i];
-      racer.color = colorPalette.body;
-      racer.npcColorIndex = i;
+      // The persona's own car (and its stats), drawn in its color
+      racer.setCar(persona.carId);
+      racer.npcType = getRivalSpriteType(persona);
+      racer.npcColorIndex = getRivalSpriteColorIndex(persona);
+      var carColor = getCarColor(persona.colorId);
+      racer.color = carColor ? carColor.body : LIGHTGRAY;
       
       // Position will be set by positionOnStartingGrid()
       racer.trackZ = 0;
@@ -916,15 +1413,14 @@ class Game {
   }
 
   /**
-   * Position all vehicles on a starting grid.
-   * Player starts at front, AI racers in 2-wide rows behind.
+   * Position all vehicles on the track's starting grid.
+   * Player starts on pole, AI racers in 2-wide rows behind.
    */
-  private positionOnStartingGrid(_road: Road): void {
+  private positionOnStartingGrid(): void {
     if (!this.state) return;
     
     var vehicles = this.state.vehicles;
-    var gridRowSpacing = 20;    // Z spacing between rows
-    var gridColSpacing = 0.5;   // X spacing for 2-wide formation
+    var grid = new SpawnPointManager(this.state.track);
     
     // Find player vehicle
     var playerIdx = -1;
@@ -935,36 +1431,13 @@ class Game {
       }
     }
     
-    // Calculate total grid length (7 AI cars = 4 rows: 1 solo + 3 pairs = 4 rows)
-    // Player goes at the front, ahead of all AI cars
-    var numAICars = vehicles.length - 1;
-    var totalGridLength = Math.ceil(numAICars / 2) * gridRowSpacing;
-    
-    // Position vehicles from back to front
-    // Player gets highest trackZ (furthest ahead)
-    var aiSlot = 0;
+    // Player takes pole, AI cars fill the slots behind in order
+    var aiSlot = 1;
     for (var v = 0; v < vehicles.length; v++) {
       var vehicle = vehicles[v];
-      
-      if (v === playerIdx) {
-        // Player at very front (highest Z)
-        vehicle.trackZ = totalGridLength + gridRowSpacing;
-        vehicle.z = vehicle.trackZ;
-        vehicle.playerX = 0;  // Center
-      } else {
-        // AI cars in 2-wide rows behind player
-        var row = Math.floor(aiSlot / 2);
-        var col = aiSlot % 2;
-        
-        vehicle.trackZ = totalGridLength - (row * gridRowSpacing);
-        vehicle.z = vehicle.trackZ;
-        vehicle.playerX = (col === 0) ? -gridColSpacing : gridColSpacing;
-        
-        aiSlot++;
-      }
+      grid.placeVehicle(vehicle, v === playerIdx ? 0 : aiSlot++);
       
       // Reset vehicle state
-      vehicle.speed = 0;
       vehicle.lap = 1;
       vehicle.checkpoint = 0;
       vehicle.racePosition = 1;  // Will be calculated properly first frame
@@ -975,12 +1448,47 @@ class Game {
     debugLog.info("Positioned " + vehicles.length + " vehicles on starting grid (player at front)");
   }
 
+  /**
+   * Position multiplayer racers on the track's starting grid in lobby
+   * order, the first player on pole.
+   */
+  private positionMultiplayerGrid(): void {
+    if (!this.state) return;
+
+    var vehicles = this.state.vehicles;
+    var grid = new SpawnPointManager(this.state.track);
+
+    for (var i = 0; i < vehicles.length; i++) {
+      var vehicle = vehicles[i];
+      grid.placeVehicle(vehicle, i);
+      vehicle.lap = 1;
+      vehicle.checkpoint = 0;
+      vehicle.racePosition = i + 1;
+    }
+
+    debugLog.info("Positioned " + vehicles.length + " multiplayer racers on starting grid");
+  }
+
+  /**
+   * Hold every driver on the grid until the countdown ends.
+   */
+  private blockDrivers(): void {
+    if (!this.state) return;
+    for (var i = 0; i < this.state.vehicles.length; i++) {
+      var drv = this.state.vehicles[i].driver as any;
+      if (drv && drv.setCanMove) {
+        drv.setCanMove(false);
+      }
+    }
+  }
+
   /**
    * Spawn NPC commuter vehicles.
    * Distributes them evenly around the entire track.
    */
   private spawnNPCs(count: number, road: Road): void {
     if (!this.state) return;
+    var rand = this.state.rand;
     
     var roadLength = road.totalLength;
     
@@ -992,13 +1500,13 @@ class Game {
       var npc = new Vehicle();
       
       // Use CommuterDriver for traffic
-      npc.driver = new CommuterDriver();
+      npc.driver = new CommuterDriver(undefined, rand);
       npc.isNPC = true;
       
       // Randomize vehicle type and color
-      var typeIndex = Math.floor(Math.random() * NPC_VEHICLE_TYPES.length);
+      var typeIndex = rand.nextInt(0, NPC_VEHICLE_TYPES.length - 1);
       npc.npcType = NPC_VEHICLE_TYPES[typeIndex];
-      npc.npcColorIndex = Math.floor(Math.random() * NPC_VEHICLE_COLORS.length);
+      npc.npcColorIndex = rand.nextInt(0, NPC_VEHICLE_COLORS.length - 1);
       
       // Set color from palette for minimap display
       var colorPalette = NPC_VEHICLE_COLORS[npc.npcColorIndex];
@@ -1007,13 +1515,13 @@ class Game {
       // Distribute NPCs evenly around the track with some randomness
       // Base position is evenly spaced around the whole track
       var baseZ = spacing * i;
-      var jitter = spacing * 0.2 * (Math.random() - 0.5);  // +/- 10% of spacing
+      var jitter = spacing * 0.2 * (rand.next() - 0.5);  // +/- 10% of spacing
       npc.trackZ = (baseZ + jitter + roadLength) % roadLength;  // Wrap around
       npc.z = npc.trackZ;
       
       // Random lateral position (stay on road, alternate left/right bias)
       var laneOffset = (i % 2 === 0) ? -0.3 : 0.3;  // Alternate lanes
-      npc.playerX = laneOffset + (Math.random() - 0.5) * 0.4;  // Stay in lane with some variance
+      npc.playerX = laneOffset + (rand.next() - 0.5) * 0.4;  // Stay in lane with some variance
       
       this.state.vehicles.push(npc);
     }
@@ -1063,11 +1571,41 @@ class Game {
     };
   }
 
+  /**
+   * What this race adds to the player's career, or null if it never
+   * started. Call after run() returns.
+   */
+  getCareerResult(): RaceCareerResult | null {
+    if (!this.state || !this.state.trackDefinition) return null;
+
+    var player = this.state.playerVehicle;
+    var raceLength = this.state.road.totalLength * this.state.track.laps;
+    var distance = Math.max(0, player.lap - 1) * this.state.road.totalLength + player.trackZ;
+
+    return {
+      trackId: this.state.trackDefinition.id,
+      carId: player.carId,
+      finished: this.state.finished,
+      position: this.state.raceMode === RaceMode.TIME_TRIAL ? 0 : this.finalPosition,
+      distance: Math.min(distance, raceLength),
+      itemUses: this.playerItemUses,
+      trackRecord: this.trackRecord
+    };
+  }
+
   /**
    * Shutdown the game.
    */
   shutdown(): void {
     logInfo("Game.shutdown()");
+    if (this.session) {
+      this.session.leave(this.state);
+      this.session = null;
+    }
+    if (this.broadcaster) {
+      this.broadcaster.stop();
+      this.broadcaster = null;
+    }
     this.renderer.shutdown();
     this.controls.clearAll();
   }
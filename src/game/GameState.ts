@@ -7,7 +7,8 @@
  */
 enum RaceMode {
   TIME_TRIAL = 'time_trial',   // Solo, just beat your own times
-  GRAND_PRIX = 'grand_prix'    // Race against 7 CPU opponents
+  GRAND_PRIX = 'grand_prix',   // Race against 7 CPU opponents
+  MULTIPLAYER = 'multiplayer'  // Race players on other BBS nodes
 }
 
 /**
@@ -83,12 +84,27 @@ interface GameState {
   
   /** Whether the race has officially started (after countdown) */
   raceStarted: boolean;
+
+  /** Race seed - same seed and inputs always produce the same race */
+  seed: number;
+
+  /** Gameplay randomness for this race, seeded from `seed` */
+  rand: Rand;
+}
+
+/**
+ * Pick a fresh race seed from the clock.
+ */
+function generateRaceSeed(): number {
+  return (Date.now() >>> 0) & 0x7fffffff;
 }
 
 /**
  * Create initial game state.
+ * A seed is generated if none is given.
  */
-function createInitialState(track: ITrack, trackDef: TrackDefinition, road: Road, playerVehicle: IVehicle, raceMode?: RaceMode): GameState {
+function createInitialState(track: ITrack, trackDef: TrackDefinition, road: Road, playerVehicle: IVehicle, raceMode?: RaceMode, seed?: number): GameState {
+  var raceSeed = seed !== undefined ? seed : generateRaceSeed();
   return {
     track: track,
     trackDefinition: trackDef,
@@ -106,7 +122,9 @@ function createInitialState(track: ITrack, trackDef: TrackDefinition, road: Road
     lapTimes: [],
     raceResults: [],
     countdown: 3,  // 3 second countdown
-    raceStarted: false
+    raceStarted: false,
+    seed: raceSeed,
+    rand: new Rand(raceSeed)
   };
 }
 
@@ -0,0 +1,155 @@
+/**
+ * Ghost - Time Trial ghost car recording and playback.
+ *
+ * A ghost is the player's position on every fixed-timestep tick of a
+ * finished run. Samples are packed into one flat integer array:
+ *   [distance delta, playerX, speed, distance delta, playerX, speed, ...]
+ * where distance is total race distance (laps included) in tenths of a
+ * world unit, delta-encoded against the previous tick; playerX is in
+ * hundredths and speed is whole units. A 90 second run at 60 ticks/s
+ * is ~16k small integers.
+ *
+ * Playback drives a Vehicle that is only handed to the renderer - it is
+ * never added to GameState.vehicles, so it can't collide, pick up items
+ * or take a race position.
+ */
+
+/** Bump when the sample encoding changes; older files are ignored */
+var GHOST_FORMAT_VERSION = 1;
+
+/**
+ * Serialized ghost run.
+ */
+interface GhostData {
+  version: number;
+  trackId: string;
+  playerName: string;
+  carId: string;
+  time: number;          // Finish time in seconds
+  tickRate: number;      // Ticks per second the samples were recorded at
+  samples: number[];     // Packed per-tick samples (see file header)
+}
+
+/**
+ * Records the player's position each tick.
+ */
+class GhostRecorder {
+  private samples: number[];
+  private lastDistance: number;
+  private tickRate: number;
+
+  constructor(tickRate: number) {
+    this.samples = [];
+    this.lastDistance = 0;
+    this.tickRate = tickRate;
+  }
+
+  /**
+   * Record one tick for a vehicle.
+   */
+  record(vehicle: IVehicle, roadLength: number): void {
+    var distance = Math.round(((vehicle.lap - 1) * roadLength + vehicle.trackZ) * 10);
+    this.samples.push(
+      distance - this.lastDistance,
+      Math.round(vehicle.playerX * 100),
+      Math.round(vehicle.speed)
+    );
+    this.lastDistance = distance;
+  }
+
+  /**
+   * Number of ticks recorded so far.
+   */
+  getTickCount(): number {
+    return this.samples.length / 3;
+  }
+
+  /**
+   * Package the recording once the run is over.
+   */
+  finish(trackId: string, playerName: string, carId: string, time: number): GhostData {
+    return {
+      version: GHOST_FORMAT_VERSION,
+      trackId: trackId,
+      playerName: playerName,
+      carId: carId,
+      time: time,
+      tickRate: this.tickRate,
+      samples: this.samples
+    };
+  }
+}
+
+/**
+ * Plays a recorded ghost back onto a non-colliding vehicle.
+ */
+class GhostPlayer {
+  private data: GhostData;
+  private vehicle: Vehicle;
+  private tick: number;
+  private distance: number;
+
+  constructor(data: GhostData) {
+    this.data = data;
+    this.tick = 0;
+    this.distance = 0;
+
+    var ghost = new Vehicle();
+    ghost.isNPC = true;      // Drawn by the NPC vehicle pass
+    ghost.isGhost = true;
+    ghost.npcType = 'sportscar';
+    ghost.npcColorIndex = 0;
+    ghost.driver = null;
+    this.vehicle = ghost;
+  }
+
+  /**
+   * Ghost vehicle for rendering.
+   */
+  getVehicle(): Vehicle {
+    return this.vehicle;
+  }
+
+  /**
+   * Who recorded this ghost and their time.
+   */
+  getData(): GhostData {
+    return this.data;
+  }
+
+  /**
+   * Advance one tick and place the ghost vehicle.
+   * The ghost disappears once its run is over.
+   */
+  step(roadLength: number): void {
+    var samples = this.data.samples;
+    var i = this.tick * 3;
+    if (i + 2 >= samples.length) {
+      this.vehicle.active = false;
+      return;
+    }
+
+    this.distance += samples[i];
+    var z = this.distance / 10;
+    var v = this.vehicle;
+    v.lap = Math.floor(z / roadLength) + 1;
+    v.trackZ = z - (v.lap - 1) * roadLength;
+    v.z = v.trackZ;
+    v.playerX = samples[i + 1] / 100;
+    v.x = v.playerX * ROAD_TRACK_X_SCALE;
+    v.speed = samples[i + 2];
+    v.active = true;
+    this.tick++;
+  }
+}
+
+/**
+ * Validate ghost JSON loaded from disk.
+ */
+function isValidGhostData(data: any, tickRate: number): boolean {
+  return !!data &&
+    data.version === GHOST_FORMAT_VERSION &&
+    data.tickRate === tickRate &&
+    typeof data.time === 'number' && data.time > 0 &&
+    data.samples instanceof Array && data.samples.length % 3 === 0;
+}
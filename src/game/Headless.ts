@@ -0,0 +1,242 @@
+/**
+ * Headless - Run races without a terminal.
+ *
+ * Steps Game's fixed-timestep logic with a NullRenderer and scripted
+ * input, then summarizes the result as JSON: finishing order, lap times
+ * and every item pickup/use/hit. Combined with a race seed the same run
+ * is reproduced exactly, which makes it usable for AI tuning and for
+ * regression checks on RaceSystem and ItemSystem.
+ *
+ * Under jsexec:
+ *   jsexec synthkart.js --headless track=neon_coast mode=gp seed=42 ticks=6000
+ *                       [car=sports] [class=150cc] [script=input.json] [out=summary.json]
+ */
+
+/** Default tick budget: ten minutes of race time at 60 ticks/s */
+var HEADLESS_DEFAULT_TICKS = 60 * 60 * 10;
+
+interface HeadlessRaceOptions {
+  trackId: string;
+  raceMode?: RaceMode;
+  seed?: number;
+  carId?: string;
+  /** RaceClass id (default 150cc) */
+  raceClassId?: string;
+  /** Stop after this many ticks even if the race hasn't finished */
+  maxTicks?: number;
+  /** Player input; defaults to holding the throttle for the whole run */
+  input?: ScriptedInput;
+}
+
+interface HeadlessVehicleSummary {
+  id: number;
+  name: string;
+  isPlayer: boolean;
+  carId: string;
+  position: number;
+  lap: number;
+  trackZ: number;
+  speed: number;
+}
+
+interface HeadlessItemEvent {
+  tick: number;
+  type: string;
+  vehicleId: number;
+  item: string;
+  sourceId?: number;
+}
+
+interface HeadlessRaceSummary {
+  trackId: string;
+  raceMode: string;
+  seed: number;
+  ticks: number;
+  time: number;
+  finished: boolean;
+  lapTimes: number[];
+  bestLap: number;
+  /** Player and CPU racers, in race order */
+  vehicles: HeadlessVehicleSummary[];
+  itemEvents: HeadlessItemEvent[];
+}
+
+/**
+ * Run one race to completion (or maxTicks) and summarize it.
+ * Returns null if the track doesn't exist.
+ */
+function runHeadlessRace(options: HeadlessRaceOptions): HeadlessRaceSummary | null {
+  var trackDef = getTrackDefinition(options.trackId);
+  if (!trackDef) {
+    logError("Headless: unknown track '" + options.trackId + "'");
+    return null;
+  }
+
+  var maxTicks = options.maxTicks !== undefined ? options.maxTicks : HEADLESS_DEFAULT_TICKS;
+  var input = options.input || new ScriptedInput([
+    { tick: 0, action: GameAction.ACCELERATE, hold: maxTicks }
+  ]);
+
+  // Simulations never read or write ghost or replay files
+  OUTRUN_CONFIG.ghosts.enabled = false;
+  OUTRUN_CONFIG.replays.enabled = false;
+
+  var game = new Game(DEFAULT_CONFIG, undefined, new NullRenderer());
+  var tick = 0;
+  var itemEvents: HeadlessItemEvent[] = [];
+  game.setItemEventListener(function(event: ItemEvent) {
+    var entry: HeadlessItemEvent = {
+      tick: tick,
+      type: event.type,
+      vehicleId: event.vehicleId,
+      item: ItemType[event.itemType]
+    };
+    if (event.sourceId !== undefined) entry.sourceId = event.sourceId;
+    itemEvents.push(entry);
+  });
+
+  game.setRaceClass(getRaceClass(options.raceClassId));
+  game.initWithTrack(
+    trackDef,
+    options.raceMode || RaceMode.GRAND_PRIX,
+    { carId: options.carId || 'sports', colorId: 'yellow' },
+    options.seed
+  );
+
+  var state = game.getState()!;
+  var controls = game.getControls();
+  var tickMs = 1000 / DEFAULT_CONFIG.tickRate;
+
+  while (tick < maxTicks && !state.finished) {
+    input.apply(controls, tick, tick * tickMs);
+    game.step();
+    tick++;
+  }
+
+  return summarizeHeadlessRace(state, tick, itemEvents);
+}
+
+/**
+ * Build the JSON summary for a race state.
+ */
+function summarizeHeadlessRace(state: GameState, ticks: number, itemEvents: HeadlessItemEvent[]): HeadlessRaceSummary {
+  var vehicles: HeadlessVehicleSummary[] = [];
+  for (var i = 0; i < state.vehicles.length; i++) {
+    var v = state.vehicles[i];
+    var isPlayer = v === state.playerVehicle;
+    if (!isPlayer && !v.isRacer) continue;  // Commuter traffic isn't racing
+
+    vehicles.push({
+      id: v.id,
+      name: isPlayer ? 'Player' : (v.driver instanceof RacerDriver ? v.driver.name : 'CPU ' + v.id),
+      isPlayer: isPlayer,
+      carId: v.carId,
+      position: v.racePosition,
+      lap: v.lap,
+      trackZ: roundTo(v.trackZ, 1),
+      speed: roundTo(v.speed, 1)
+    });
+  }
+  vehicles.sort(function(a, b) { return a.position - b.position; });
+
+  var lapTimes: number[] = [];
+  for (var j = 0; j < state.lapTimes.length; j++) {
+    lapTimes.push(roundTo(state.lapTimes[j], 3));
+  }
+
+  return {
+    trackId: state.trackDefinition.id,
+    raceMode: state.raceMode,
+    seed: state.seed,
+    ticks: ticks,
+    time: roundTo(state.time, 3),
+    finished: state.finished,
+    lapTimes: lapTimes,
+    bestLap: roundTo(state.bestLapTime, 3),
+    vehicles: vehicles,
+    itemEvents: itemEvents
+  };
+}
+
+/**
+ * Entry point for `--headless` runs. Parses key=value arguments, runs
+ * the race and prints (or writes) the summary. Returns an exit code.
+ */
+function runHeadlessFromArgv(args: string[]): number {
+  var opts: { [key: string]: string } = {};
+  for (var i = 0; i < args.length; i++) {
+    var eq = args[i].indexOf('=');
+    if (eq > 0) {
+      opts[args[i].substring(0, eq).toLowerCase()] = args[i].substring(eq + 1);
+    }
+  }
+
+  if (!opts['track']) {
+    print("usage: --headless track=<id> [mode=gp|tt] [seed=N] [ticks=N] [car=<id>] [class=<id>] [script=<file>] [out=<file>]");
+    return 1;
+  }
+
+  var options: HeadlessRaceOptions = {
+    trackId: opts['track'],
+    raceMode: opts['mode'] === 'tt' ? RaceMode.TIME_TRIAL : RaceMode.GRAND_PRIX,
+    carId: opts['car'],
+    raceClassId: opts['class']
+  };
+  if (opts['seed'] !== undefined) options.seed = parseInt(opts['seed'], 10);
+  if (opts['ticks'] !== undefined) options.maxTicks = parseInt(opts['ticks'], 10);
+
+  if (opts['script']) {
+    var script = readHeadlessFile(opts['script']);
+    var input = script !== null ? ScriptedInput.parse(parseHeadlessJson(script, opts['script']), opts['script']) : null;
+    if (!input) {
+      print("headless: invalid input script " + opts['script']);
+      return 1;
+    }
+    options.input = input;
+  }
+
+  var summary = runHeadlessRace(options);
+  if (!summary) {
+    print("headless: unknown track " + opts['track']);
+    return 1;
+  }
+
+  var json = JSON.stringify(summary, null, 2);
+  if (opts['out']) {
+    var f = new File(opts['out']);
+    if (!f.open('w')) {
+      print("headless: unable to write " + opts['out']);
+      return 1;
+    }
+    f.write(json);
+    f.close();
+  } else {
+    print(json);
+  }
+  return 0;
+}
+
+function readHeadlessFile(path: string): string | null {
+  var f = new File(path);
+  if (!f.open('r')) {
+    logError("Headless: unable to open " + path);
+    return null;
+  }
+  var content = f.read();
+  f.close();
+  return content;
+}
+
+function parseHeadlessJson(content: string, source: string): any {
+  try {
+    return JSON.parse(content);
+  } catch (e) {
+    logError("Headless: " + source + ": " + e);
+    return null;
+  }
+}
+
+function roundTo(value: number, places: number): number {
+  var scale = Math.pow(10, places);
+  return Math.round(value * scale) / scale;
+}
@@ -0,0 +1,67 @@
+/**
+ * RaceClass - Difficulty classes picked in the track selector.
+ *
+ * A class scales every car's speed, the CPU racers' skill and pace, and
+ * how readily they use items. 150cc is the game as tuned; Mirror races
+ * 150cc with every curve flipped. Each class keeps its own high scores
+ * (see getRaceClassScoreId).
+ */
+
+interface RaceClass {
+  /** Stable id (saved with cups and part of high score keys) */
+  id: string;
+  name: string;
+  /** Multiplier on every car's top speed and acceleration */
+  speed: number;
+  /** Multiplier on CPU racer skill */
+  aiSkill: number;
+  /** CPU target pace (fraction of top speed) at the lowest skill... */
+  aiPace: number;
+  /** ...plus this much at full skill */
+  aiPaceRange: number;
+  /** Multiplier on how often CPU racers use their items */
+  itemRate: number;
+  /** Flip every curve left for right */
+  mirror: boolean;
+}
+
+var RACE_CLASSES: RaceClass[] = [
+  { id: '50cc', name: '50cc', speed: 0.7, aiSkill: 0.6, aiPace: 0.82, aiPaceRange: 0.10, itemRate: 0.5, mirror: false },
+  { id: '100cc', name: '100cc', speed: 0.85, aiSkill: 0.8, aiPace: 0.86, aiPaceRange: 0.10, itemRate: 0.75, mirror: false },
+  { id: '150cc', name: '150cc', speed: 1, aiSkill: 1, aiPace: 0.90, aiPaceRange: 0.10, itemRate: 1, mirror: false },
+  { id: 'mirror', name: 'MIRROR', speed: 1, aiSkill: 1, aiPace: 0.90, aiPaceRange: 0.10, itemRate: 1, mirror: true }
+];
+
+/** Class used when none is picked (Daily Challenge, multiplayer, old saved cups) */
+var DEFAULT_RACE_CLASS_ID = '150cc';
+
+/**
+ * Get a class by id; unknown or omitted ids get the default class.
+ */
+function getRaceClass(id?: string): RaceClass {
+  var fallback = RACE_CLASSES[0];
+  for (var i = 0; i < RACE_CLASSES.length; i++) {
+    if (RACE_CLASSES[i].id === id) {
+      return RACE_CLASSES[i];
+    }
+    if (RACE_CLASSES[i].id === DEFAULT_RACE_CLASS_ID) {
+      fallback = RACE_CLASSES[i];
+    }
+  }
+  return fallback;
+}
+
+/**
+ * High score identifier for a track or circuit raced in a class.
+ * 150cc keeps the plain id, so boards from before classes stay 150cc.
+ */
+function getRaceClassScoreId(identifier: string, raceClass: RaceClass): string {
+  return raceClass.id === DEFAULT_RACE_CLASS_ID ? identifier : identifier + '_' + raceClass.id;
+}
+
+/**
+ * Track or circuit name labelled with its class, e.g. "Neon Coast (50cc)".
+ */
+function getRaceClassScoreName(name: string, raceClass: RaceClass): string {
+  return name + ' (' + raceClass.name + ')';
+}
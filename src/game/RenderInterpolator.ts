@@ -0,0 +1,127 @@
+/**
+ * RenderInterpolator - Smooth motion between logic ticks.
+ *
+ * Logic runs at a fixed tick rate, but frames are drawn whenever the BBS
+ * gets round to it, so drawing only the latest tick makes the road and
+ * cars move in uneven jumps. Before each tick the interpolator notes
+ * where every car and shell is; when a frame is drawn it moves them
+ * part of the way from there toward where they are now (the fraction is
+ * FixedTimestep.getAlpha()), then puts them back once the frame is done.
+ * The simulation never sees the in-between positions.
+ */
+
+/** A tick move longer than this (respawn, crash reset) is drawn as a jump */
+var INTERPOLATION_SNAP_Z = 100;
+var INTERPOLATION_SNAP_X = 0.5;
+
+/**
+ * Anything drawn on the road: vehicles and projectiles.
+ */
+interface InterpolatedEntity extends IEntity {
+  trackZ: number;
+  playerX: number;
+}
+
+interface InterpolationSample {
+  entity: InterpolatedEntity;
+  trackZ: number;
+  playerX: number;
+  z: number;
+  x: number;
+}
+
+class RenderInterpolator {
+  private previous: InterpolationSample[];
+  private previousCameraX: number;
+  private saved: InterpolationSample[];
+  private savedCameraX: number;
+  private applied: boolean;
+
+  constructor() {
+    this.previous = [];
+    this.previousCameraX = 0;
+    this.saved = [];
+    this.savedCameraX = 0;
+    this.applied = false;
+  }
+
+  /**
+   * Forget the last tick (new race or restart); until the next tick,
+   * frames show the current state as it is.
+   */
+  reset(): void {
+    this.previous = [];
+  }
+
+  /**
+   * Note where everything is before a tick moves it.
+   */
+  capture(state: GameState, entities: InterpolatedEntity[]): void {
+    this.previous = entities.map(sampleEntity);
+    this.previousCameraX = state.cameraX;
+  }
+
+  /**
+   * Move everything alpha (0-1) of the way from the last capture to
+   * where it is now. Call restore() once the frame is drawn.
+   */
+  apply(state: GameState, entities: InterpolatedEntity[], alpha: number): void {
+    if (alpha >= 1 || this.previous.length === 0) return;
+    this.applied = true;
+    this.saved = [];
+
+    var length = state.road.totalLength;
+    for (var i = 0; i < entities.length; i++) {
+      var entity = entities[i];
+      var prev = this.findPrevious(entity);
+      if (!prev) continue;  // Spawned this tick
+
+      var dz = entity.trackZ - prev.trackZ;
+      if (dz > length / 2) dz -= length;
+      else if (dz < -length / 2) dz += length;
+      var dx = entity.playerX - prev.playerX;
+      if (Math.abs(dz) > INTERPOLATION_SNAP_Z || Math.abs(dx) > INTERPOLATION_SNAP_X) continue;
+
+      this.saved.push(sampleEntity(entity));
+      var back = 1 - alpha;
+      entity.trackZ = (entity.trackZ - dz * back + length) % length;
+      entity.playerX -= dx * back;
+      entity.z = (entity.z - dz * back + length) % length;
+      entity.x -= (entity.x - prev.x) * back;
+    }
+
+    this.savedCameraX = state.cameraX;
+    var cameraDx = state.cameraX - this.previousCameraX;
+    if (Math.abs(cameraDx) <= INTERPOLATION_SNAP_X * ROAD_TRACK_X_SCALE) {
+      state.cameraX -= cameraDx * (1 - alpha);
+    }
+  }
+
+  /**
+   * Put everything back where the last tick left it.
+   */
+  restore(state: GameState): void {
+    if (!this.applied) return;
+    this.applied = false;
+    for (var i = 0; i < this.saved.length; i++) {
+      var s = this.saved[i];
+      s.entity.trackZ = s.trackZ;
+      s.entity.playerX = s.playerX;
+      s.entity.z = s.z;
+      s.entity.x = s.x;
+    }
+    this.saved = [];
+    state.cameraX = this.savedCameraX;
+  }
+
+  private findPrevious(entity: InterpolatedEntity): InterpolationSample | null {
+    for (var i = 0; i < this.previous.length; i++) {
+      if (this.previous[i].entity === entity) return this.previous[i];
+    }
+    return null;
+  }
+}
+
+function sampleEntity(entity: InterpolatedEntity): InterpolationSample {
+  return { entity: entity, trackZ: entity.trackZ, playerX: entity.playerX, z: entity.z, x: entity.x };
+}
@@ -0,0 +1,190 @@
+/**
+ * Replay - Whole-race recording and playback.
+ *
+ * Races are deterministic: the same seed, setup and player input give
+ * the same race. So a replay is the race setup plus the player's input
+ * on every fixed-timestep tick (see Controls.getTickIntent), and playing
+ * it back re-runs the race with that input fed in. Input is run-length
+ * packed into one flat integer array:
+ *   [intent, ticks, intent, ticks, ...]
+ * Held keys change rarely, so a three minute race is a few hundred
+ * numbers.
+ *
+ * Multiplayer races depend on other nodes and aren't recorded.
+ */
+
+/** Bump when the input encoding changes; older files are ignored */
+var REPLAY_FORMAT_VERSION = 1;
+
+/** Input past the end of a recording: coasting straight (see Controls.getTickIntent) */
+var REPLAY_COAST_INTENT = 13;
+
+/**
+ * Serialized replay.
+ */
+interface ReplayData {
+  version: number;
+  /** Unique per BBS: user number and the finish time in ms */
+  id: string;
+  userNumber: number;
+  playerName: string;
+  /** Wall-clock ms the race finished */
+  date: number;
+
+  // Race setup
+  trackId: string;
+  laps: number;
+  raceMode: RaceMode;
+  raceClassId: string;
+  seed: number;
+  carId: string;
+  colorId: string;
+  rivalId: string | null;
+  /** Daily Challenge item set (null = normal odds) */
+  itemPool: ItemType[] | null;
+
+  // Result
+  time: number;
+  position: number;
+
+  tickRate: number;
+  /** Total ticks recorded (countdown included) */
+  ticks: number;
+  /** Packed per-tick input (see file header) */
+  inputs: number[];
+}
+
+/**
+ * Everything about a race a replay needs besides the input.
+ */
+interface ReplaySetup {
+  trackDef: TrackDefinition;
+  raceMode: RaceMode;
+  raceClassId: string;
+  seed: number;
+  carId: string;
+  colorId: string;
+  rivalId: string | null;
+  itemPool: ItemType[] | null;
+}
+
+/**
+ * Records the player's input each tick.
+ */
+class ReplayRecorder {
+  private inputs: number[];
+  private ticks: number;
+  private tickRate: number;
+
+  constructor(tickRate: number) {
+    this.inputs = [];
+    this.ticks = 0;
+    this.tickRate = tickRate;
+  }
+
+  /**
+   * Record the input the coming tick will read.
+   */
+  record(controls: Controls): void {
+    var intent = controls.getTickIntent();
+    var last = this.inputs.length - 2;
+    if (last >= 0 && this.inputs[last] === intent) {
+      this.inputs[last + 1]++;
+    } else {
+      this.inputs.push(intent, 1);
+    }
+    this.ticks++;
+  }
+
+  /**
+   * Number of ticks recorded so far.
+   */
+  getTickCount(): number {
+    return this.ticks;
+  }
+
+  /**
+   * Package the recording once the race is over.
+   */
+  finish(setup: ReplaySetup, userNumber: number, playerName: string, time: number, position: number): ReplayData {
+    var date = Date.now();
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      id: 'u' + userNumber + '.' + date,
+      userNumber: userNumber,
+      playerName: playerName,
+      date: date,
+      trackId: setup.trackDef.id,
+      laps: setup.trackDef.laps,
+      raceMode: setup.raceMode,
+      raceClassId: setup.raceClassId,
+      seed: setup.seed,
+      carId: setup.carId,
+      colorId: setup.colorId,
+      rivalId: setup.rivalId,
+      itemPool: setup.itemPool,
+      time: time,
+      position: position,
+      tickRate: this.tickRate,
+      ticks: this.ticks,
+      inputs: this.inputs
+    };
+  }
+}
+
+/**
+ * Feeds a replay's recorded input back into Controls, one tick at a time.
+ */
+class ReplayInput {
+  private inputs: number[];
+  private index: number;
+  private left: number;
+
+  constructor(inputs: number[]) {
+    this.inputs = inputs;
+    this.index = 0;
+    this.left = inputs.length >= 2 ? inputs[1] : 0;
+  }
+
+  /**
+   * Set the controls to the next tick's input. Past the end of the
+   * recording the controls are left coasting.
+   */
+  apply(controls: Controls): void {
+    while (this.left <= 0 && this.index + 2 < this.inputs.length) {
+      this.index += 2;
+      this.left = this.inputs[this.index + 1];
+    }
+    if (this.left <= 0) {
+      controls.setTickIntent(REPLAY_COAST_INTENT);
+      return;
+    }
+    controls.setTickIntent(this.inputs[this.index]);
+    this.left--;
+  }
+}
+
+/**
+ * The track a replay was raced on, with its lap count. Null if the
+ * track is no longer installed.
+ */
+function getReplayTrackDefinition(replay: ReplayData): TrackDefinition | null {
+  var track = getTrackDefinition(replay.trackId) || getBuiltInTrackDefinition(replay.trackId);
+  if (!track) return null;
+  return track.laps !== replay.laps ? getTrackWithLaps(track, replay.laps) : track;
+}
+
+/**
+ * Validate replay JSON loaded from disk.
+ */
+function isValidReplayData(data: any): boolean {
+  if (!data || data.version !== REPLAY_FORMAT_VERSION || !isIntegerInRange(data.tickRate, MIN_TICK_RATE, MAX_TICK_RATE)) return false;
+  if (typeof data.id !== 'string' || typeof data.trackId !== 'string' || typeof data.playerName !== 'string') return false;
+  if (!isIntegerInRange(data.laps, 1, 99) || !isIntegerInRange(data.ticks, 1, Number.MAX_VALUE)) return false;
+  if (typeof data.seed !== 'number' || typeof data.time !== 'number' || typeof data.date !== 'number') return false;
+  if (!(data.inputs instanceof Array) || data.inputs.length % 2 !== 0) return false;
+  for (var i = 0; i < data.inputs.length; i += 2) {
+    if (!isIntegerInRange(data.inputs[i], 0, 35) || !isIntegerInRange(data.inputs[i + 1], 1, Number.MAX_VALUE)) return false;
+  }
+  return true;
+}
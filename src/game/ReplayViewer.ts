@@ -0,0 +1,239 @@
+/**
+ * ReplayViewer - Watch a saved race replay.
+ *
+ * The race is re-run from its seed with the recorded input (see Replay),
+ * so every car, item and collision plays out as it did. Seeking forward
+ * runs ticks without drawing; seeking back starts the race over and
+ * runs up to the target.
+ *
+ * Keys:
+ * - SPACE / P               = pause / resume
+ * - F                       = fast-forward (1x, 2x, 4x)
+ * - Left/Right (4/6)        = seek back / ahead 10 seconds
+ * - [ / ]                   = watch the racer ahead / behind
+ * - L                       = follow the leader
+ * - Y                       = back to the recorded player's car
+ * - Q / ESC                 = stop watching
+ */
+
+/** Fast-forward speeds F cycles through */
+var REPLAY_SPEEDS = [1, 2, 4];
+
+/** Seconds Left/Right seek by */
+var REPLAY_SEEK_SECONDS = 10;
+
+class ReplayViewer {
+  private replay: ReplayData;
+  private trackDef: TrackDefinition | null;
+  private config: GameConfig;
+  private game: Game;
+  private clock: Clock;
+  private timestep: FixedTimestep;
+
+  /** Ticks run since the start of the recording */
+  private tickCount: number;
+  private paused: boolean;
+  private speedIndex: number;
+  /**
+   * Car being watched, by its place in state.vehicles (ids change when
+   * a seek starts the race over; the order doesn't). -1 follows the leader.
+   */
+  private cameraIndex: number;
+
+  /**
+   * @param config - Optional config; defaults to createGameConfig() at the replay's tick rate
+   * @param renderer - Optional renderer; defaults to FrameRenderer
+   */
+  constructor(replay: ReplayData, config?: GameConfig, renderer?: IRenderer) {
+    this.replay = replay;
+    this.trackDef = getReplayTrackDefinition(replay);
+    this.config = config || createGameConfig(replay.tickRate);
+    this.game = new Game(this.config, undefined, renderer);
+    this.clock = new Clock();
+    this.timestep = new FixedTimestep({
+      tickRate: this.config.tickRate,
+      maxTicksPerFrame: this.config.maxTicksPerFrame * REPLAY_SPEEDS[REPLAY_SPEEDS.length - 1]
+    });
+    this.tickCount = 0;
+    this.paused = false;
+    this.speedIndex = 0;
+    this.cameraIndex = 0;
+  }
+
+  /**
+   * Play the replay until the user stops watching. Returns false if its
+   * track isn't installed on this BBS.
+   */
+  play(): boolean {
+    if (!this.trackDef) {
+      logError("ReplayViewer: unknown track " + this.replay.trackId);
+      return false;
+    }
+    logInfo("ReplayViewer: playing " + this.replay.id);
+
+    var self = this;
+    this.restart();
+    this.watchPlayer();
+    this.game.setHudOverlay(function(frame: Frame) { self.drawOverlay(frame); });
+    this.clock.reset();
+
+    try {
+      while (true) {
+        var deltaMs = this.clock.getDelta();
+        if (this.processInput()) break;
+
+        if (!this.paused && !this.isOver()) {
+          var ticks = this.timestep.update(deltaMs * REPLAY_SPEEDS[this.speedIndex]);
+          for (var i = 0; i < ticks && !this.isOver(); i++) {
+            this.stepTick();
+          }
+        }
+
+        this.updateCamera();
+        this.game.render(this.paused || this.isOver() ? 1 : this.timestep.getAlpha());
+        mswait(1);
+      }
+    } finally {
+      this.game.shutdown();
+    }
+    logInfo("ReplayViewer: stopped at tick " + this.tickCount + "/" + this.replay.ticks);
+    return true;
+  }
+
+  /**
+   * Start the race over from the grid.
+   */
+  private restart(): void {
+    this.game.initReplay(this.replay, this.trackDef as TrackDefinition);
+    this.tickCount = 0;
+    this.timestep.reset();
+  }
+
+  private stepTick(): void {
+    this.game.step();
+    this.tickCount++;
+  }
+
+  /**
+   * The recording has ended: the player crossed the line (or quit).
+   */
+  private isOver(): boolean {
+    var state = this.game.getState();
+    return !state || this.tickCount >= this.replay.ticks || (state.finished && !state.racing);
+  }
+
+  /**
+   * Jump by a number of seconds (negative = back).
+   */
+  private seek(seconds: number): void {
+    var target = this.tickCount + Math.round(seconds * this.config.tickRate);
+    target = Math.max(0, Math.min(this.replay.ticks, target));
+    if (target < this.tickCount) {
+      this.restart();
+    }
+    while (this.tickCount < target && !this.isOver()) {
+      this.stepTick();
+    }
+    this.timestep.reset();
+    this.clock.reset();
+  }
+
+  /**
+   * Read keys. Returns true if the user stopped watching.
+   */
+  private processInput(): boolean {
+    var key: string;
+    while ((key = console.inkey(K_NONE, 0)) !== '') {
+      var upper = key.toUpperCase();
+      if (upper === 'Q' || key === KEY_ESC) return true;
+      if (key === ' ' || upper === 'P') {
+        this.paused = !this.paused;
+        this.timestep.reset();
+      } else if (upper === 'F') {
+        this.speedIndex = (this.speedIndex + 1) % REPLAY_SPEEDS.length;
+      } else if (key === KEY_LEFT || key === '4') {
+        this.seek(-REPLAY_SEEK_SECONDS);
+      } else if (key === KEY_RIGHT || key === '6') {
+        this.seek(REPLAY_SEEK_SECONDS);
+      } else if (key === '[') {
+        this.switchCamera(-1);
+      } else if (key === ']') {
+        this.switchCamera(1);
+      } else if (upper === 'L') {
+        this.cameraIndex = -1;
+      } else if (upper === 'Y') {
+        this.watchPlayer();
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Watch the racer one place ahead (-1) or behind (+1).
+   */
+  private switchCamera(step: number): void {
+    var racers = this.getRacersByPosition();
+    if (racers.length === 0) return;
+    var index = racers.indexOf(this.getCameraVehicle());
+    index = (index + step + racers.length) % racers.length;
+    this.cameraIndex = (this.game.getState() as GameState).vehicles.indexOf(racers[index]);
+  }
+
+  private watchPlayer(): void {
+    var state = this.game.getState() as GameState;
+    this.cameraIndex = state.vehicles.indexOf(state.playerVehicle);
+  }
+
+  private getRacersByPosition(): IVehicle[] {
+    var state = this.game.getState();
+    if (!state) return [];
+    var player = state.playerVehicle;
+    var racers = state.vehicles.filter(function(v) { return v === player || v.isRacer; });
+    racers.sort(function(a, b) { return a.racePosition - b.racePosition; });
+    return racers;
+  }
+
+  /**
+   * The car being watched: the chosen one, else the leader.
+   */
+  private getCameraVehicle(): IVehicle {
+    var state = this.game.getState() as GameState;
+    if (this.cameraIndex >= 0 && this.cameraIndex < state.vehicles.length) {
+      return state.vehicles[this.cameraIndex];
+    }
+    var racers = this.getRacersByPosition();
+    return racers.length > 0 ? racers[0] : state.playerVehicle;
+  }
+
+  private updateCamera(): void {
+    var state = this.game.getState();
+    if (!state) return;
+    var vehicle = this.getCameraVehicle();
+    this.game.setCamera(vehicle === state.playerVehicle ? null : vehicle);
+  }
+
+  /**
+   * Whose car and the replay clock top left, the keys below; the replay
+   * state in the middle when it isn't simply playing.
+   */
+  private drawOverlay(frame: Frame): void {
+    var vehicle = this.getCameraVehicle();
+    var state = this.game.getState() as GameState;
+    var name = vehicle === state.playerVehicle ? this.replay.playerName : getBroadcastDriverName(vehicle);
+    var clock = formatTime(this.tickCount / this.config.tickRate) + " / " +
+      formatTime(this.replay.ticks / this.config.tickRate);
+
+    drawSpectatorText(frame, 0, 0, "REPLAY: " + name.substring(0, 20) + (this.cameraIndex === -1 ? " (leader)" : "") + "  " + clock,
+      makeAttr(LIGHTCYAN, BG_BLACK));
+    drawSpectatorText(frame, 0, 1, "SPACE Pause  F Speed  <- -> Seek  [ ] Car  L Leader  Y You  Q Exit",
+      makeAttr(DARKGRAY, BG_BLACK));
+
+    var status = this.isOver() ? "END OF REPLAY" : (this.paused ? "PAUSED" : "");
+    var speed = REPLAY_SPEEDS[this.speedIndex];
+    if (!status && speed > 1) status = speed + "x";
+    if (status) {
+      drawSpectatorText(frame, Math.floor((frame.width - status.length) / 2), Math.floor(frame.height / 2),
+        status, makeAttr(YELLOW, BG_BLACK));
+    }
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * Spectator - Watch another node's race live.
+ *
+ * Polls the node's broadcast (see RaceBroadcast) and replays it through
+ * the race renderer and HUD. Every car is driven by a RemoteDriver, so
+ * between broadcasts the cars carry on along the road and are pulled
+ * back onto each new snapshot. Nothing is simulated here: no physics,
+ * no items, no collisions.
+ *
+ * Keys:
+ * - [ / ] (Left/Right, 4/6) = watch the racer ahead / behind
+ * - L                       = follow the leader
+ * - P                       = watch the broadcasting player
+ * - Q / ESC                 = stop watching
+ */
+
+interface SpectatorCar {
+  vehicle: Vehicle;
+  driver: RemoteDriver;
+  isPlayer: boolean;
+}
+
+class Spectator {
+  private channel: IRaceChannel;
+  private config: GameConfig;
+  private clock: Clock;
+  private renderer: IRenderer;
+  private hud: Hud;
+
+  private record: RaceBroadcastRecord | null;
+  private road: Road | null;
+  private track: ITrack | null;
+  private cars: SpectatorCar[];
+  private itemBoxes: Item[];
+  private projectiles: IProjectile[];
+
+  /** Vehicle id of the car being watched; -1 follows the leader */
+  private cameraId: number;
+  private lastPoll: number;
+
+  /**
+   * @param channel - Channel the races are broadcast on
+   * @param config - Optional config; defaults to createGameConfig() (the terminal's size)
+   * @param renderer - Optional renderer; defaults to FrameRenderer
+   */
+  constructor(channel: IRaceChannel, config?: GameConfig, renderer?: IRenderer) {
+    this.channel = channel;
+    this.config = config || createGameConfig();
+    this.clock = new Clock();
+    this.renderer = renderer || new FrameRenderer(this.config.screenWidth, this.config.screenHeight);
+    this.hud = new Hud(this.config.screenWidth);
+    this.record = null;
+    this.road = null;
+    this.track = null;
+    this.cars = [];
+    this.itemBoxes = [];
+    this.projectiles = [];
+    this.cameraId = -1;
+    this.lastPoll = 0;
+  }
+
+  /**
+   * Watch a node's race until it ends (returns false) or the user stops
+   * watching (returns true).
+   */
+  watch(node: number): boolean {
+    var record = readRaceBroadcast(this.channel, node);
+    if (!record || !this.setup(record)) return false;
+    logInfo("Spectator: watching node " + node + " on " + record.trackId);
+
+    this.cameraId = -1;
+    this.lastPoll = Date.now();
+    this.clock.reset();
+
+    var quit = false;
+    try {
+      while (true) {
+        var dt = this.clock.getDelta() / 1000;
+        if (this.processInput()) {
+          quit = true;
+          break;
+        }
+
+        var now = Date.now();
+        if (now - this.lastPoll >= RACE_BROADCAST_INTERVAL_MS) {
+          this.lastPoll = now;
+          record = readRaceBroadcast(this.channel, node);
+          if (!record) break;
+          this.receive(record);
+        }
+
+        this.advance(dt);
+        this.render();
+        mswait(1);
+      }
+    } finally {
+      this.renderer.shutdown();
+    }
+    logInfo("Spectator: stopped watching node " + node + (quit ? "" : " (race over)"));
+    return quit;
+  }
+
+  /**
+   * Build the road, cars and HUD for a broadcast. False if the track
+   * isn't installed on this node.
+   */
+  private setup(record: RaceBroadcastRecord): boolean {
+    var baseDef = getTrackDefinition(record.trackId);
+    if (!baseDef) {
+      logError("Spectator: unknown track " + record.trackId);
+      return false;
+    }
+    var trackDef = record.laps !== baseDef.laps ? getTrackWithLaps(baseDef, record.laps) : baseDef;
+    var mirror = getRaceClass(record.raceClassId).mirror;
+
+    this.renderer.init();
+    if (this.renderer.setTheme) {
+      this.renderer.setTheme(getTrackThemeName(trackDef));
+    }
+    if (this.renderer.setBrakeLightState) {
+      this.renderer.setBrakeLightState(false);
+    }
+    this.road = buildRoadFromDefinition(trackDef, mirror);
+    this.track = new RoadTrack(this.road);
+
+    this.hud.init(0);
+    this.hud.initMinimap(trackDef, mirror);
+    this.hud.setMinimapVisible(getPlayerSettings().hudLayout === 'full');
+
+    this.cars = [];
+    this.receive(record);
+    return true;
+  }
+
+  /**
+   * Take in a new snapshot: cars (rebuilt if the grid changed, e.g. after
+   * a restart), item boxes and projectiles.
+   */
+  private receive(record: RaceBroadcastRecord): void {
+    this.record = record;
+
+    var sameGrid = this.cars.length === record.vehicles.length;
+    for (var i = 0; sameGrid && i < record.vehicles.length; i++) {
+      sameGrid = this.cars[i].vehicle.id === record.vehicles[i].id;
+    }
+    if (!sameGrid) {
+      this.cars = [];
+      for (var c = 0; c < record.vehicles.length; c++) {
+        this.cars.push(createSpectatorCar(record.node, record.vehicles[c]));
+      }
+    }
+
+    for (var v = 0; v < record.vehicles.length; v++) {
+      var data = record.vehicles[v];
+      var car = this.cars[v];
+      car.driver.receive({
+        time: record.time,
+        trackZ: data.trackZ,
+        playerX: data.playerX,
+        speed: data.speed,
+        lap: data.lap,
+        flash: data.flash
+      });
+      car.vehicle.racePosition = data.position;
+      car.vehicle.heldItem = data.item !== ItemType.NONE ? { type: data.item, uses: 1, activated: false } : null;
+    }
+
+    this.itemBoxes = [];
+    for (var b = 0; b < record.itemBoxes.length; b++) {
+      var box = new Item(ItemType.NONE);
+      box.x = record.itemBoxes[b].x;
+      box.z = record.itemBoxes[b].z;
+      if (!record.itemBoxes[b].available) box.respawnCountdown = 1;
+      this.itemBoxes.push(box);
+    }
+
+    this.projectiles = [];
+    for (var p = 0; p < record.projectiles.length; p++) {
+      var shot = record.projectiles[p];
+      var projectile: IProjectile = shot.speed === 0 ? new Banana() : new Shell(shot.shellType);
+      projectile.trackZ = shot.trackZ;
+      projectile.playerX = shot.playerX;
+      projectile.speed = shot.speed;
+      this.projectiles.push(projectile);
+    }
+  }
+
+  /**
+   * Move everything on by dt: cars toward the broadcast race clock,
+   * projectiles along the road.
+   */
+  private advance(dt: number): void {
+    if (!this.record || !this.road) return;
+    var raceTime = this.getRaceTime();
+    var length = this.road.totalLength;
+
+    for (var i = 0; i < this.cars.length; i++) {
+      var vehicle = this.cars[i].vehicle;
+      this.cars[i].driver.place(vehicle, this.road, raceTime, dt);
+      if (vehicle.flashTimer > 0) vehicle.flashTimer -= dt;
+    }
+
+    if (!this.record.paused) {
+      for (var p = 0; p < this.projectiles.length; p++) {
+        var projectile = this.projectiles[p];
+        projectile.trackZ = (projectile.trackZ + projectile.speed * dt + length) % length;
+      }
+    }
+  }
+
+  /**
+   * The broadcasting node's race clock now (held while paused or
+   * counting down).
+   */
+  private getRaceTime(): number {
+    var record = this.record as RaceBroadcastRecord;
+    if (record.paused || record.finished || record.countdown > 0) return record.time;
+    return record.time + Math.max(0, Date.now() - record.updated) / 1000;
+  }
+
+  /**
+   * Seconds left on the countdown now.
+   */
+  private getCountdown(): number {
+    var record = this.record as RaceBroadcastRecord;
+    if (record.countdown <= 0 || record.paused) return record.countdown;
+    return Math.max(0.01, record.countdown - Math.max(0, Date.now() - record.updated) / 1000);
+  }
+
+  /**
+   * Read keys. Returns true if the user stopped watching.
+   */
+  private processInput(): boolean {
+    var key: string;
+    while ((key = console.inkey(K_NONE, 0)) !== '') {
+      var upper = key.toUpperCase();
+      if (upper === 'Q' || key === KEY_ESC) return true;
+      if (key === '[' || key === KEY_LEFT || key === '4') {
+        this.switchCamera(-1);
+      } else if (key === ']' || key === KEY_RIGHT || key === '6') {
+        this.switchCamera(1);
+      } else if (upper === 'L') {
+        this.cameraId = -1;
+      } else if (upper === 'P') {
+        for (var i = 0; i < this.cars.length; i++) {
+          if (this.cars[i].isPlayer) this.cameraId = this.cars[i].vehicle.id;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Watch the racer one place ahead (-1) or behind (+1).
+   */
+  private switchCamera(step: number): void {
+    var racers = this.getRacersByPosition();
+    if (racers.length === 0) return;
+    var index = racers.indexOf(this.getCameraCar());
+    index = (index + step + racers.length) % racers.length;
+    this.cameraId = racers[index].vehicle.id;
+  }
+
+  private getRacersByPosition(): SpectatorCar[] {
+    var racers = this.cars.filter(function(car) { return car.vehicle.isRacer; });
+    racers.sort(function(a, b) { return a.vehicle.racePosition - b.vehicle.racePosition; });
+    return racers;
+  }
+
+  /**
+   * The car being watched: the chosen one, else the leader.
+   */
+  private getCameraCar(): SpectatorCar {
+    for (var i = 0; i < this.cars.length; i++) {
+      if (this.cars[i].vehicle.id === this.cameraId) return this.cars[i];
+    }
+    var racers = this.getRacersByPosition();
+    return racers.length > 0 ? racers[0] : this.cars[0];
+  }
+
+  private render(): void {
+    if (!this.record || !this.road || !this.track || this.cars.length === 0) return;
+
+    // The watched car is drawn as the player's; everyone else by the NPC pass
+    var camera = this.getCameraCar();
+    var vehicles: IVehicle[] = [];
+    for (var i = 0; i < this.cars.length; i++) {
+      this.cars[i].vehicle.isNPC = this.cars[i] !== camera;
+      vehicles.push(this.cars[i].vehicle);
+    }
+    var vehicle = camera.vehicle;
+    var speed = this.record.paused ? 0 : vehicle.speed;
+
+    this.renderer.beginFrame();
+    this.renderer.renderSky(vehicle.z, this.road.getCurvature(vehicle.z), vehicle.playerX, speed, 1.0 / this.config.tickRate);
+    this.renderer.renderRoad(vehicle.z, vehicle.x, this.track, this.road);
+    this.renderer.renderEntities(vehicle, vehicles, this.itemBoxes, this.projectiles);
+
+    var countdown = this.getCountdown();
+    var hudData = this.hud.compute(
+      vehicle,
+      this.track,
+      this.road,
+      vehicles,
+      countdown > 0 ? 0 : this.getRaceTime(),
+      countdown,
+      this.record.raceMode
+    );
+    this.renderer.renderHud(hudData);
+
+    var hudFrame = this.renderer.getHudFrame ? this.renderer.getHudFrame() : null;
+    if (hudFrame) {
+      this.drawOverlay(hudFrame, camera);
+    }
+
+    this.renderer.endFrame();
+  }
+
+  /**
+   * Who is being watched and the spectator keys, top left; the race
+   * state in the middle when it isn't simply racing.
+   */
+  private drawOverlay(frame: Frame, camera: SpectatorCar): void {
+    var record = this.record as RaceBroadcastRecord;
+    var name = camera.driver.name || record.name;
+    drawSpectatorText(frame, 0, 0, "LIVE: " + name.substring(0, 24) + (this.cameraId === -1 ? " (leader)" : ""),
+      makeAttr(LIGHTRED, BG_BLACK));
+    drawSpectatorText(frame, 0, 1, "[ ] Car  L Leader  P Node " + record.node + "  Q Exit", makeAttr(DARKGRAY, BG_BLACK));
+
+    var status = record.finished ? "FINISHED" : (record.paused ? "PAUSED" : "");
+    if (status) {
+      drawSpectatorText(frame, Math.floor((frame.width - status.length) / 2), Math.floor(frame.height / 2),
+        status, makeAttr(YELLOW, BG_BLACK));
+    }
+  }
+}
+
+/**
+ * A car for one broadcast vehicle, driven from the snapshots.
+ */
+function createSpectatorCar(node: number, data: BroadcastVehicle): SpectatorCar {
+  var vehicle = new Vehicle();
+  var driver = new RemoteDriver(node, data.name);
+  vehicle.id = data.id;
+  vehicle.driver = driver;
+  vehicle.isNPC = true;
+  vehicle.isRacer = data.racer;
+  vehicle.isRemote = true;
+  vehicle.npcType = data.npcType;
+  vehicle.npcColorIndex = data.npcColorIndex;
+  vehicle.setCar(data.carId);
+  vehicle.carColorId = data.colorId;
+  vehicle.color = data.color;
+  vehicle.trackZ = data.trackZ;
+  vehicle.playerX = data.playerX;
+  vehicle.lap = data.lap;
+  vehicle.racePosition = data.position;
+  return { vehicle: vehicle, driver: driver, isPlayer: data.player };
+}
+
+function drawSpectatorText(frame: Frame, x: number, y: number, text: string, attr: number): void {
+  for (var i = 0; i < text.length; i++) {
+    if (x + i >= 0 && x + i < frame.width && y >= 0 && y < frame.height) {
+      frame.setData(x + i + 1, y + 1, text.charAt(i), attr);
+    }
+  }
+}
@@ -36,26 +36,26 @@ class PhysicsSystem implements ISystem {
  * Race system - tracks lap progress and positions using trackZ.
  */
 class RaceSystem implements ISystem {
-  // Track previous Z position to detect lap boundary crossing
-  private lastTrackZ: { [vehicleId: number]: number };
+  // Ordered checkpoints for the current road; laps only count when
+  // every checkpoint has been passed in order
+  private checkpoints: CheckpointTracker | null;
 
   constructor() {
-    this.lastTrackZ = {};
+    this.checkpoints = null;
   }
 
   init(state: GameState): void {
-    // Initialize Z tracking for each vehicle
+    this.checkpoints = new CheckpointTracker(state.road, state.track.checkpoints);
     for (var i = 0; i < state.vehicles.length; i++) {
-      var vehicle = state.vehicles[i];
-      this.lastTrackZ[vehicle.id] = vehicle.trackZ || 0;
+      this.checkpoints.initVehicle(state.vehicles[i]);
     }
   }
 
   update(state: GameState, _dt: number): void {
     // Don't process if race is already finished
     if (state.finished) return;
-
-    var roadLength = state.road.totalLength;
+    if (!this.checkpoints) this.init(state);
+    var checkpoints = this.checkpoints as CheckpointTracker;
 
     for (var i = 0; i < state.vehicles.length; i++) {
       var vehicle = state.vehicles[i];
@@ -63,18 +63,11 @@ class RaceSystem implements ISystem {
       // Skip crashed or inactive vehicles
       if (vehicle.isCrashed || !vehicle.active) continue;
 
-      var lastZ = this.lastTrackZ[vehicle.id] || 0;
-      var currentZ = vehicle.trackZ || 0;
-
-      // Detect lap completion: when trackZ wraps from near end back to near start
-      // This happens when currentZ < lastZ by a large margin (more than half the track)
-      // This means we crossed the start/finish line going forward
-      var crossedFinishLine = (lastZ > roadLength * 0.75 && currentZ < roadLength * 0.25);
-      
-      if (crossedFinishLine) {
+      // Lap completes on crossing the finish line after all checkpoints in order
+      if (checkpoints.checkProgress(vehicle)) {
         vehicle.lap++;
         debugLog.info("LAP COMPLETE! Vehicle " + vehicle.id + " now on lap " + vehicle.lap + "/" + state.track.laps);
-        debugLog.info("  lastZ=" + lastZ.toFixed(1) + " currentZ=" + currentZ.toFixed(1) + " roadLength=" + roadLength);
+        debugLog.info("  trackZ=" + vehicle.trackZ.toFixed(1) + " roadLength=" + state.road.totalLength);
 
         // Track lap time for player
         if (!vehicle.isNPC) {
@@ -99,9 +92,6 @@ class RaceSystem implements ISystem {
           debugLog.info("RACE FINISHED! Final time: " + state.time.toFixed(2));
         }
       }
-
-      // Update last position
-      this.lastTrackZ[vehicle.id] = currentZ;
     }
 
     // Update race positions
@@ -0,0 +1,109 @@
+/**
+ * GhostStore - Per-track ghost replay files.
+ *
+ * Each track keeps up to two ghosts in the configured ghosts directory:
+ * - <trackId>.record.json   fastest run on this BBS (track record holder)
+ * - <trackId>.u<N>.json     personal best for user number N
+ *
+ * Ghosts are always local files; networked high scores don't carry them.
+ */
+
+class GhostStore {
+  private directory: string;
+  private tickRate: number;
+
+  constructor(tickRate: number) {
+    this.directory = OUTRUN_CONFIG.ghosts.directory;
+    this.tickRate = tickRate;
+  }
+
+  /**
+   * Load the ghost to race against: the user's personal best if they
+   * have one, otherwise the track record.
+   */
+  loadBest(trackId: string, userNumber: number): GhostData | null {
+    var personal = userNumber > 0 ? this.read(this.personalPath(trackId, userNumber)) : null;
+    if (personal) return personal;
+    return this.read(this.recordPath(trackId));
+  }
+
+  /**
+   * Save a finished run if it beats the user's personal best and/or the
+   * track record. Returns true if anything was written.
+   */
+  saveIfBetter(ghost: GhostData, userNumber: number): boolean {
+    var saved = false;
+
+    if (userNumber > 0) {
+      var personalPath = this.personalPath(ghost.trackId, userNumber);
+      var personal = this.read(personalPath);
+      if (!personal || ghost.time < personal.time) {
+        saved = this.write(personalPath, ghost) || saved;
+      }
+    }
+
+    var recordPath = this.recordPath(ghost.trackId);
+    var record = this.read(recordPath);
+    if (!record || ghost.time < record.time) {
+      saved = this.write(recordPath, ghost) || saved;
+      logInfo('GhostStore: new track record ghost for ' + ghost.trackId + ': ' + ghost.time.toFixed(2));
+    }
+
+    return saved;
+  }
+
+  private personalPath(trackId: string, userNumber: number): string {
+    return this.directory + '/' + this.sanitize(trackId) + '.u' + userNumber + '.json';
+  }
+
+  private recordPath(trackId: string): string {
+    return this.directory + '/' + this.sanitize(trackId) + '.record.json';
+  }
+
+  private sanitize(id: string): string {
+    return id.replace(/[^a-zA-Z0-9_-]/g, '_');
+  }
+
+  private read(path: string): GhostData | null {
+    if (!file_exists(path)) return null;
+
+    try {
+      var f = new File(path);
+      if (!f.open('r')) {
+        logWarning('GhostStore: unable to open ' + path);
+        return null;
+      }
+      var content = f.read();
+      f.close();
+
+      var data = JSON.parse(content);
+      if (!isValidGhostData(data, this.tickRate)) {
+        logWarning('GhostStore: ignoring incompatible ghost ' + path);
+        return null;
+      }
+      return data;
+    } catch (e) {
+      logError('GhostStore: failed to read ' + path + ': ' + e);
+      return null;
+    }
+  }
+
+  private write(path: string, ghost: GhostData): boolean {
+    try {
+      if (!file_exists(this.directory)) {
+        mkdir(this.directory);
+      }
+      var f = new File(path);
+      if (!f.open('w')) {
+        logError('GhostStore: unable to write ' + path);
+        return false;
+      }
+      f.write(JSON.stringify(ghost));
+      f.close();
+      return true;
+    } catch (e) {
+      logError('GhostStore: failed to write ' + path + ': ' + e);
+      return false;
+    }
+  }
+}
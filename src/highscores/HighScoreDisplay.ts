@@ -4,7 +4,7 @@
 
 /**
  * Display high scores in a formatted box.
- * Uses fixed 80x24 viewport for consistent layout.
+ * Uses a fixed 80x24 viewport, centered on larger terminals.
  * @param scores - Array of high score entries
  * @param title - Title of the display
  * @param trackOrCircuitName - Track or circuit name
@@ -19,7 +19,7 @@ function displayHighScores(
   scene3d.selectRawDepth('glass');
   console.clear(LIGHTGRAY, false);
   
-  // Fixed 80x24 viewport
+  // Fixed 80x24 viewport (centered by viewportGotoxy)
   var screenWidth = 80;
   var screenHeight = 24;
   
@@ -43,7 +43,7 @@ function displayHighScores(
   
   // Draw box border
   scene3d.selectRawDepth('chrome');
-  console.gotoxy(boxX, topY);
+  viewportGotoxy(boxX, topY);
   console.attributes = boxAttr;
   console.print(GLYPH.DBOX_TL);
   for (var i = 1; i < boxWidth - 1; i++) {
@@ -52,13 +52,13 @@ function displayHighScores(
   console.print(GLYPH.DBOX_TR + "\r\n");
   
   for (var j = 1; j < boxHeight - 1; j++) {
-    console.gotoxy(boxX, topY + j);
+    viewportGotoxy(boxX, topY + j);
     console.print(GLYPH.DBOX_V);
-    console.gotoxy(boxX + boxWidth - 1, topY + j);
+    viewportGotoxy(boxX + boxWidth - 1, topY + j);
     console.print(GLYPH.DBOX_V + "\r\n");
   }
   
-  console.gotoxy(boxX, topY + boxHeight - 1);
+  viewportGotoxy(boxX, topY + boxHeight - 1);
   console.print(GLYPH.DBOX_BL);
   for (var i = 1; i < boxWidth - 1; i++) {
     console.print(GLYPH.DBOX_H);
@@ -67,18 +67,18 @@ function displayHighScores(
   
   // Title
   scene3d.selectRawDepth('title');
-  console.gotoxy(boxX + Math.floor((boxWidth - title.length) / 2), topY + 2);
+  viewportGotoxy(boxX + Math.floor((boxWidth - title.length) / 2), topY + 2);
   console.attributes = titleAttr;
   console.print(title);
   
   // Track/Circuit name
   scene3d.selectRawDepth('content');
-  console.gotoxy(boxX + Math.floor((boxWidth - trackOrCircuitName.length) / 2), topY + 3);
+  viewportGotoxy(boxX + Math.floor((boxWidth - trackOrCircuitName.length) / 2), topY + 3);
   console.attributes = headerAttr;
   console.print(trackOrCircuitName);
   
   // Header
-  console.gotoxy(boxX + 3, topY + 5);
+  viewportGotoxy(boxX + 3, topY + 5);
   console.attributes = headerAttr;
   console.print("RANK  PLAYER NAME           TIME        DATE");
   
@@ -87,7 +87,7 @@ function displayHighScores(
   for (var i = 0; i < 10; i++) {
     var isHighlighted = (playerPosition !== undefined && playerPosition === i + 1);
     scene3d.selectRawDepth(isHighlighted ? 'vehicleNear' : 'content');
-    console.gotoxy(boxX + 3, startY + i);
+    viewportGotoxy(boxX + 3, startY + i);
     
     // Check if this is the player's highlighted position
     
@@ -142,7 +142,7 @@ function displayHighScores(
   
   // Footer
   scene3d.selectRawDepth('prompt');
-  console.gotoxy(boxX + Math.floor((boxWidth - 24) / 2), topY + boxHeight - 2);
+  viewportGotoxy(boxX + Math.floor((boxWidth - 24) / 2), topY + boxHeight - 2);
   console.attributes = headerAttr;
   console.print("Press any key to continue");
 }
@@ -183,7 +183,7 @@ function displayTopScoreLine(
   labelAttr: number,
   valueAttr: number
 ): void {
-  console.gotoxy(x, y);
+  viewportGotoxy(x, y);
   console.attributes = labelAttr;
   console.print(label + ": ");
   
@@ -197,7 +197,7 @@ function displayTopScoreLine(
 
 /**
  * Display track high scores in a two-column layout (Track Time | Lap Time).
- * Uses fixed 80x24 viewport for consistent layout.
+ * Uses a fixed 80x24 viewport, centered on larger terminals.
  * @param trackId - Track identifier
  * @param trackName - Track display name
  * @param highScoreManager - HighScoreManager instance
@@ -214,7 +214,7 @@ function showTwoColumnHighScores(
   scene3d.selectRawDepth('glass');
   console.clear(LIGHTGRAY, false);
   
-  // Fixed 80x24 viewport
+  // Fixed 80x24 viewport (centered by viewportGotoxy)
   var viewWidth = 80;
   var viewHeight = 24;
   
@@ -243,7 +243,7 @@ function showTwoColumnHighScores(
   
   // Draw box border
   scene3d.selectRawDepth('chrome');
-  console.gotoxy(boxX, topY);
+  viewportGotoxy(boxX, topY);
   console.attributes = boxAttr;
   console.print(GLYPH.DBOX_TL);
   for (var i = 1; i < boxWidth - 1; i++) {
@@ -252,13 +252,13 @@ function showTwoColumnHighScores(
   console.print(GLYPH.DBOX_TR);
   
   for (var j = 1; j < boxHeight - 1; j++) {
-    console.gotoxy(boxX, topY + j);
+    viewportGotoxy(boxX, topY + j);
     console.print(GLYPH.DBOX_V);
-    console.gotoxy(boxX + boxWidth - 1, topY + j);
+    viewportGotoxy(boxX + boxWidth - 1, topY + j);
     console.print(GLYPH.DBOX_V);
   }
   
-  console.gotoxy(boxX, topY + boxHeight - 1);
+  viewportGotoxy(boxX, topY + boxHeight - 1);
   console.print(GLYPH.DBOX_BL);
   for (var i = 1; i < boxWidth - 1; i++) {
     console.print(GLYPH.DBOX_H);
@@ -268,13 +268,13 @@ function showTwoColumnHighScores(
   // Title
   scene3d.selectRawDepth('title');
   var title = "=== HIGH SCORES ===";
-  console.gotoxy(boxX + Math.floor((boxWidth - title.length) / 2), topY + 1);
+  viewportGotoxy(boxX + Math.floor((boxWidth - title.length) / 2), topY + 1);
   console.attributes = titleAttr;
   console.print(title);
   
   // Track name
   scene3d.selectRawDepth('content');
-  console.gotoxy(boxX + Math.floor((boxWidth - trackName.length) / 2), topY + 2);
+  viewportGotoxy(boxX + Math.floor((boxWidth - trackName.length) / 2), topY + 2);
   console.attributes = headerAttr;
   console.print(trackName);
   
@@ -282,19 +282,19 @@ function showTwoColumnHighScores(
   var leftColX = boxX + 3;
   var rightColX = boxX + 40;
   
-  console.gotoxy(leftColX, topY + 4);
+  viewportGotoxy(leftColX, topY + 4);
   console.attributes = colHeaderAttr;
   console.print("TRACK TIME");
   
-  console.gotoxy(rightColX, topY + 4);
+  viewportGotoxy(rightColX, topY + 4);
   console.print("BEST LAP");
   
   // Divider line
-  console.gotoxy(boxX + 37, topY + 4);
+  viewportGotoxy(boxX + 37, topY + 4);
   console.attributes = boxAttr;
   console.print(GLYPH.BOX_V);
   for (var j = 5; j < boxHeight - 3; j++) {
-    console.gotoxy(boxX + 37, topY + j);
+    viewportGotoxy(boxX + 37, topY + j);
     console.print(GLYPH.BOX_V);
   }
   
@@ -304,7 +304,7 @@ function showTwoColumnHighScores(
     // Left column - Track Time
     var trackHighlighted = (trackTimePosition > 0 && trackTimePosition === i + 1);
     scene3d.selectRawDepth(trackHighlighted ? 'vehicleNear' : 'content');
-    console.gotoxy(leftColX, startY + i);
+    viewportGotoxy(leftColX, startY + i);
     
     if (i < trackScores.length) {
       var score = trackScores[i];
@@ -345,7 +345,7 @@ function showTwoColumnHighScores(
     // Right column - Lap Time
     var lapHighlighted = (lapTimePosition > 0 && lapTimePosition === i + 1);
     scene3d.selectRawDepth(lapHighlighted ? 'vehicleNear' : 'content');
-    console.gotoxy(rightColX, startY + i);
+    viewportGotoxy(rightColX, startY + i);
     
     if (i < lapScores.length) {
       var score = lapScores[i];
@@ -387,7 +387,7 @@ function showTwoColumnHighScores(
   // Legend for new scores
   scene3d.selectRawDepth('content');
   if (trackTimePosition > 0 || lapTimePosition > 0) {
-    console.gotoxy(boxX + 3, topY + boxHeight - 3);
+    viewportGotoxy(boxX + 3, topY + boxHeight - 3);
     console.attributes = newScoreAttr;
     console.print("* = Your new high score!");
   }
@@ -395,7 +395,7 @@ function showTwoColumnHighScores(
   // Footer prompt
   scene3d.selectRawDepth('prompt');
   var prompt = "Press any key to continue";
-  console.gotoxy(boxX + Math.floor((boxWidth - prompt.length) / 2), topY + boxHeight - 2);
+  viewportGotoxy(boxX + Math.floor((boxWidth - prompt.length) / 2), topY + boxHeight - 2);
   console.attributes = promptAttr;
   console.print(prompt);
   
@@ -404,3 +404,40 @@ function showTwoColumnHighScores(
   console.line_counter = 0;
   console.inkey(K_NONE, 300000);  // Wait up to 5 minutes
 }
+
+/**
+ * Display today's Daily Challenge board with yesterday's winner below it,
+ * and wait for key press.
+ * @param challenge - The day's challenge
+ * @param highScoreManager - HighScoreManager instance
+ * @param playerPosition - Optional: 1-based position of player's newly set score to highlight
+ */
+function showDailyChallengeScores(
+  challenge: DailyChallenge,
+  highScoreManager: HighScoreManager,
+  playerPosition?: number
+): void {
+  var scores = highScoreManager.getScores(HighScoreType.DAILY_TIME, challenge.dateKey);
+  var track = getBuiltInTrackDefinition(challenge.trackId);
+  var subtitle = challenge.dateKey + " - " + (track ? track.name : challenge.trackId) + ", " + challenge.laps + " laps";
+  displayHighScores(scores, "=== DAILY CHALLENGE ===", subtitle, playerPosition);
+
+  // Yesterday's winner, under the box
+  var yesterday = highScoreManager.getTopScore(
+    HighScoreType.DAILY_TIME,
+    getPreviousDailyDateKey(challenge.dateKey)
+  );
+  scene3d.selectRawDepth('content');
+  displayTopScoreLine(
+    "Yesterday's winner",
+    yesterday,
+    8,
+    22,
+    colorToAttr({ fg: LIGHTCYAN, bg: BG_BLACK }),
+    colorToAttr({ fg: YELLOW, bg: BG_BLACK })
+  );
+
+  scene3d.selectRawDepth('glass');
+  console.line_counter = 0;
+  console.inkey(K_NONE, 300000);  // Wait up to 5 minutes
+}
@@ -5,6 +5,7 @@
  * - Track Time: Fastest completion time for a specific track
  * - Lap Time: Fastest single lap time for a specific track  
  * - Circuit Time: Fastest completion time for an entire circuit/cup
+ * - Daily Time: Fastest Daily Challenge race, keyed by date (YYYY-MM-DD)
  * 
  * Each record type stores top 10 scores.
  */
@@ -40,7 +41,8 @@ interface IHighScoreEntry {
 enum HighScoreType {
   TRACK_TIME = 'track_time',
   LAP_TIME = 'lap_time',
-  CIRCUIT_TIME = 'circuit_time'
+  CIRCUIT_TIME = 'circuit_time',
+  DAILY_TIME = 'daily_time'
 }
 
 class HighScoreManager {
@@ -0,0 +1,115 @@
+/**
+ * ReplayStore - Saved race replays, shared by every user on the BBS.
+ *
+ * Each finished race is written to the configured replays directory as
+ * u<N>.<date>.json (N = user number). Only the newest few per user are
+ * kept. Any user can list and watch everyone's replays.
+ *
+ * Replays are always local files; networked high scores don't carry them.
+ */
+
+class ReplayStore {
+  private directory: string;
+  private keep: number;
+
+  constructor() {
+    this.directory = OUTRUN_CONFIG.replays.directory;
+    this.keep = OUTRUN_CONFIG.replays.keep;
+  }
+
+  /**
+   * Save a replay, then delete the user's oldest beyond the keep limit.
+   * Returns true if it was written.
+   */
+  save(replay: ReplayData): boolean {
+    if (!this.write(this.pathFor(replay.id), replay)) return false;
+    this.prune(replay.userNumber);
+    return true;
+  }
+
+  /**
+   * Every readable replay, newest first.
+   */
+  list(): ReplayData[] {
+    var replays: ReplayData[] = [];
+    var files = file_exists(this.directory) ? directory(this.directory + '/u*.json') || [] : [];
+    for (var i = 0; i < files.length; i++) {
+      var replay = this.read(files[i]);
+      if (replay) replays.push(replay);
+    }
+    replays.sort(function(a, b) { return b.date - a.date; });
+    return replays;
+  }
+
+  /**
+   * Delete a replay. Returns true if it was removed.
+   */
+  remove(replay: ReplayData): boolean {
+    var path = this.pathFor(replay.id);
+    return file_exists(path) && file_remove(path);
+  }
+
+  private prune(userNumber: number): void {
+    var files = directory(this.directory + '/u' + userNumber + '.*.json') || [];
+    if (files.length <= this.keep) return;
+
+    // Names end in the finish time, so the oldest sort first
+    var self = this;
+    files.sort(function(a, b) { return self.getFileDate(a) - self.getFileDate(b); });
+    for (var i = 0; i < files.length - this.keep; i++) {
+      if (!file_remove(files[i])) {
+        logWarning('ReplayStore: unable to remove ' + files[i]);
+      }
+    }
+  }
+
+  private getFileDate(path: string): number {
+    var match = /\.(\d+)\.json$/.exec(path);
+    return match ? parseInt(match[1], 10) : 0;
+  }
+
+  private pathFor(id: string): string {
+    return this.directory + '/' + id.replace(/[^a-zA-Z0-9_.-]/g, '_') + '.json';
+  }
+
+  private read(path: string): ReplayData | null {
+    try {
+      var f = new File(path);
+      if (!f.open('r')) {
+        logWarning('ReplayStore: unable to open ' + path);
+        return null;
+      }
+      var content = f.read();
+      f.close();
+
+      var data = JSON.parse(content);
+      if (!isValidReplayData(data)) {
+        logWarning('ReplayStore: ignoring incompatible replay ' + path);
+        return null;
+      }
+      return data;
+    } catch (e) {
+      logError('ReplayStore: failed to read ' + path + ': ' + e);
+      return null;
+    }
+  }
+
+  private write(path: string, replay: ReplayData): boolean {
+    try {
+      if (!file_exists(this.directory)) {
+        mkdir(this.directory);
+      }
+      var f = new File(path);
+      if (!f.open('w')) {
+        logError('ReplayStore: unable to write ' + path);
+        return false;
+      }
+      f.write(JSON.stringify(replay));
+      f.close();
+      return true;
+    } catch (e) {
+      logError('ReplayStore: failed to write ' + path + ': ' + e);
+      return false;
+    }
+  }
+}
@@ -18,17 +18,36 @@ interface HudData {
   raceFinished: boolean;
   countdown: number;       // Seconds until race starts (0 = started)
   raceMode: RaceMode;      // Current race mode
+  wrongWay: boolean;       // Player is driving backwards along the track
+  minimapOutline: { x: number; y: number }[];  // Track outline cells (empty = no map)
+  minimapVehicles: MinimapVehicle[];           // Player and racer markers
 }
 
+/** Minimap box, in the top-right corner of the HUD */
+var HUD_MINIMAP_WIDTH = 18;
+var HUD_MINIMAP_HEIGHT = 8;
+
 class Hud {
   private startTime: number;
   private lapStartTime: number;
   private bestLapTime: number;
+  private minimap: Minimap;
+  private minimapVisible: boolean;
 
-  constructor() {
+  /**
+   * @param screenWidth - HUD width in columns (default 80); the minimap sits at its right edge
+   */
+  constructor(screenWidth?: number) {
     this.startTime = 0;
     this.lapStartTime = 0;
     this.bestLapTime = Infinity;
+    this.minimap = new Minimap({
+      x: (screenWidth || MIN_SCREEN_WIDTH) - HUD_MINIMAP_WIDTH,
+      y: 0,
+      width: HUD_MINIMAP_WIDTH,
+      height: HUD_MINIMAP_HEIGHT
+    });
+    this.minimapVisible = true;
   }
 
   /**
@@ -40,6 +59,20 @@ class Hud {
     this.bestLapTime = Infinity;
   }
 
+  /**
+   * Build the minimap for the track about to be raced.
+   */
+  initMinimap(trackDef: TrackDefinition, mirror?: boolean): void {
+    this.minimap.initForTrack(trackDef, mirror);
+  }
+
+  /**
+   * Show or hide the minimap (the player's HUD layout).
+   */
+  setMinimapVisible(visible: boolean): void {
+    this.minimapVisible = visible;
+  }
+
   /**
    * Called when a new lap starts.
    */
@@ -77,7 +110,7 @@ class Hud {
     
     return {
       speed: Math.round(vehicle.speed),
-      speedMax: VEHICLE_PHYSICS.MAX_SPEED,
+      speedMax: vehicle.stats.maxSpeed,
       lap: vehicle.lap,
       totalLaps: track.laps,
       lapProgress: lapProgress,
@@ -89,7 +122,10 @@ class Hud {
       heldItem: vehicle.heldItem,
       raceFinished: vehicle.lap > track.laps,
       countdown: countdown || 0,
-      raceMode: raceMode !== undefined ? raceMode : RaceMode.TIME_TRIAL
+      raceMode: raceMode !== undefined ? raceMode : RaceMode.TIME_TRIAL,
+      wrongWay: vehicle.isWrongWay,
+      minimapOutline: this.minimapVisible ? this.minimap.getOutline() : [],
+      minimapVehicles: this.minimapVisible ? this.minimap.getVehiclePositions(vehicles, road.totalLength, vehicle.id) : []
     };
   }
 
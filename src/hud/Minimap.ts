@@ -1,5 +1,9 @@
 /**
  * Minimap - Calculates minimap positions.
+ *
+ * The outline is walked from the selected track's sections (see
+ * generatePathFromSections) and racers are placed along it by how far
+ * through the lap they are.
  */
 
 interface MinimapConfig {
@@ -13,34 +17,45 @@ interface MinimapVehicle {
   x: number;
   y: number;
   isPlayer: boolean;
+  isLeader: boolean;
   color: number;
 }
 
 class Minimap {
   private config: MinimapConfig;
-  private scaleX: number;
-  private scaleY: number;
-  private offsetX: number;
-  private offsetY: number;
+  /** Track loop in screen cells, one entry per path point */
+  private path: { x: number; y: number }[];
+  /** Distinct cells of the loop, for drawing the outline */
+  private outline: { x: number; y: number }[];
 
   constructor(config: MinimapConfig) {
     this.config = config;
-    this.scaleX = 1;
-    this.scaleY = 1;
-    this.offsetX = 0;
-    this.offsetY = 0;
+    this.path = [];
+    this.outline = [];
   }
 
   /**
-   * Calculate scale factors for track.
+   * Scale a track's section path into the minimap box.
+   * @param mirror - Draw the track flipped, as raced in the Mirror class
    */
-  initForTrack(track: ITrack): void {
+  initForTrack(trackDef: TrackDefinition, mirror?: boolean): void {
+    this.path = [];
+    this.outline = [];
+    if (!trackDef.sections || trackDef.sections.length === 0) return;
+
+    var points = generatePathFromSections(trackDef.sections);
+    if (mirror) {
+      for (var m = 0; m < points.length; m++) {
+        points[m].y = -points[m].y;
+      }
+    }
+
     // Find track bounds
     var minX = Infinity, maxX = -Infinity;
     var minY = Infinity, maxY = -Infinity;
 
-    for (var i = 0; i < track.centerline.length; i++) {
-      var p = track.centerline[i];
+    for (var i = 0; i < points.length; i++) {
+      var p = points[i];
       if (p.x < minX) minX = p.x;
       if (p.x > maxX) maxX = p.x;
       if (p.y < minY) minY = p.y;
@@ -50,52 +65,72 @@ class Minimap {
     var trackWidth = maxX - minX;
     var trackHeight = maxY - minY;
 
-    // Calculate scale to fit in minimap
+    // Calculate scale to fit in minimap (inside a 1-cell margin). Each
+    // axis is stretched to fill the box - at this size a long, thin loop
+    // kept to true proportions would collapse into a single row.
     var mapInnerW = this.config.width - 2;
     var mapInnerH = this.config.height - 2;
+    var scaleX = (mapInnerW - 1) / (trackWidth || 1);
+    var scaleY = (mapInnerH - 1) / (trackHeight || 1);
+    var left = this.config.x + 1;
+    var top = this.config.y + 1;
 
-    this.scaleX = mapInnerW / (trackWidth || 1);
-    this.scaleY = mapInnerH / (trackHeight || 1);
-
-    // Use smaller scale to maintain aspect ratio
-    var scale = Math.min(this.scaleX, this.scaleY);
-    this.scaleX = scale;
-    this.scaleY = scale;
+    for (var j = 0; j < points.length; j++) {
+      this.path.push({
+        x: Math.round(left + (points[j].x - minX) * scaleX),
+        y: Math.round(top + (points[j].y - minY) * scaleY)
+      });
+    }
 
-    // Center offset
-    this.offsetX = -minX;
-    this.offsetY = -minY;
+    // Outline: every cell the loop passes through, filling gaps where the
+    // stretch spreads neighbouring points more than a cell apart
+    var seen: { [cell: string]: boolean } = {};
+    for (var k = 0; k < this.path.length; k++) {
+      var from = this.path[k];
+      var to = this.path[(k + 1) % this.path.length];
+      var steps = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y), 1);
+      for (var s = 0; s < steps; s++) {
+        var cellX = Math.round(from.x + (to.x - from.x) * s / steps);
+        var cellY = Math.round(from.y + (to.y - from.y) * s / steps);
+        var key = cellX + ',' + cellY;
+        if (!seen[key]) {
+          seen[key] = true;
+          this.outline.push({ x: cellX, y: cellY });
+        }
+      }
+    }
   }
 
   /**
-   * Convert world position to minimap position.
+   * Screen cells of the track outline (empty if the track has no sections).
    */
-  worldToMinimap(worldX: number, worldY: number): { x: number; y: number } {
-    return {
-      x: Math.round((worldX + this.offsetX) * this.scaleX) + this.config.x + 1,
-      y: Math.round((worldY + this.offsetY) * this.scaleY) + this.config.y + 1
-    };
+  getOutline(): { x: number; y: number }[] {
+    return this.outline;
   }
 
   /**
-   * Get vehicle positions for minimap.
+   * Get minimap positions for the player and every racer (commuter
+   * traffic is left off).
    */
-  getVehiclePositions(vehicles: IVehicle[], track: ITrack, playerId: number): MinimapVehicle[] {
+  getVehiclePositions(vehicles: IVehicle[], roadLength: number, playerId: number): MinimapVehicle[] {
     var result: MinimapVehicle[] = [];
+    if (this.path.length === 0 || roadLength <= 0) return result;
 
     for (var i = 0; i < vehicles.length; i++) {
       var v = vehicles[i];
-      // Convert track Z to centerline position
-      var progress = (v.z % track.length) / track.length;
-      var centerlineIdx = Math.floor(progress * track.centerline.length);
-      var centerPoint = track.centerline[centerlineIdx] || { x: 0, y: 0 };
+      if (v.isNPC && !v.isRacer) continue;
 
-      var pos = this.worldToMinimap(centerPoint.x + v.x * 0.1, centerPoint.y);
+      // Convert track Z to a point along the loop
+      var progress = (v.trackZ % roadLength) / roadLength;
+      if (progress < 0) progress += 1;
+      var pathIdx = Math.min(this.path.length - 1, Math.floor(progress * this.path.length));
+      var pos = this.path[pathIdx];
 
       result.push({
         x: pos.x,
         y: pos.y,
         isPlayer: v.id === playerId,
+        isLeader: v.racePosition === 1,
         color: v.color
       });
     }
@@ -110,3 +145,149 @@ class Minimap {
     return this.config;
   }
 }
+
+/**
+ * Generate a path by simulating driving through track sections.
+ * The curvature is scaled so the track naturally completes one full loop.
+ */
+function generatePathFromSections(sections: TrackSection[]): { x: number; y: number }[] {
+  // First pass: calculate total "intended" curvature from sections
+  var totalIntendedCurve = 0;
+  for (var i = 0; i < sections.length; i++) {
+    var section = sections[i];
+    var segmentCount = section.length || 10;
+    
+    switch (section.type) {
+      case 'curve':
+        totalIntendedCurve += (section.curve || 0) * segmentCount;
+        break;
+      case 'ease_in':
+        // Average curve over the section
+        totalIntendedCurve += (section.targetCurve || 0.5) * segmentCount * 0.5;
+        break;
+      case 'ease_out':
+        totalIntendedCurve += (section.targetCurve || 0.5) * segmentCount * 0.5;
+        break;
+      case 's_curve':
+        // S-curves cancel out
+        break;
+    }
+  }
+  
+  // Scale factor to make total curvature = 2*PI (one full loop)
+  // If no curve data, default to making a loop
+  var curveScale = 0.1;
+  if (Math.abs(totalIntendedCurve) > 0.1) {
+    curveScale = (Math.PI * 2) / Math.abs(totalIntendedCurve);
+  }
+  
+  // Determine direction (clockwise or counterclockwise)
+  var direction = totalIntendedCurve >= 0 ? 1 : -1;
+  curveScale = Math.abs(curveScale) * direction;
+  
+  // Second pass: generate path with scaled curvature
+  var points: { x: number; y: number }[] = [];
+  var x = 0;
+  var y = 0;
+  var heading = 0; // Angle in radians, 0 = going right/east
+  var currentCurve = 0;
+  var stepSize = 1.0;
+  
+  points.push({ x: x, y: y });
+  
+  for (var i = 0; i < sections.length; i++) {
+    var section = sections[i];
+    var segmentCount = section.length || 10;
+    
+    switch (section.type) {
+      case 'straight':
+        // Move forward without turning
+        for (var s = 0; s < segmentCount; s++) {
+          x += Math.cos(heading) * stepSize;
+          y += Math.sin(heading) * stepSize;
+          points.push({ x: x, y: y });
+        }
+        currentCurve = 0;
+        break;
+        
+      case 'curve':
+        // Constant curve - turn while moving
+        var curvature = (section.curve || 0) * curveScale;
+        for (var s = 0; s < segmentCount; s++) {
+          heading += curvature;
+          x += Math.cos(heading) * stepSize;
+          y += Math.sin(heading) * stepSize;
+          points.push({ x: x, y: y });
+        }
+        currentCurve = section.curve || 0;
+        break;
+        
+      case 'ease_in':
+        // Gradually increase curvature
+        var targetCurve = (section.targetCurve || 0.5) * curveScale;
+        for (var s = 0; s < segmentCount; s++) {
+          var t = s / segmentCount;
+          var easedCurve = currentCurve * curveScale + (targetCurve - currentCurve * curveScale) * t;
+          heading += easedCurve;
+          x += Math.cos(heading) * stepSize;
+          y += Math.sin(heading) * stepSize;
+          points.push({ x: x, y: y });
+        }
+        currentCurve = section.targetCurve || 0.5;
+        break;
+        
+      case 'ease_out':
+        // Gradually decrease curvature to zero
+        var startCurve = currentCurve * curveScale;
+        for (var s = 0; s < segmentCount; s++) {
+          var t = s / segmentCount;
+          var easedCurve = startCurve * (1 - t);
+          heading += easedCurve;
+          x += Math.cos(heading) * stepSize;
+          y += Math.sin(heading) * stepSize;
+          points.push({ x: x, y: y });
+        }
+        currentCurve = 0;
+        break;
+        
+      case 's_curve':
+        // S-curve: turn one way then the other (mostly cancels out)
+        var halfLen = Math.floor(segmentCount / 2);
+        var sCurve = 0.06 * curveScale;
+        // First half - turn one way
+        for (var s = 0; s < halfLen; s++) {
+          heading += sCurve;
+          x += Math.cos(heading) * stepSize;
+          y += Math.sin(heading) * stepSize;
+          points.push({ x: x, y: y });
+        }
+        // Second half - turn back
+        for (var s = 0; s < halfLen; s++) {
+          heading -= sCurve;
+          x += Math.cos(heading) * stepSize;
+          y += Math.sin(heading) * stepSize;
+          points.push({ x: x, y: y });
+        }
+        break;
+    }
+  }
+  
+  // Close the loop smoothly back to start
+  var startX = points[0].x;
+  var startY = points[0].y;
+  var endX = points[points.length - 1].x;
+  var endY = points[points.length - 1].y;
+  
+  var closeSteps = 15;
+  for (var s = 1; s <= closeSteps; s++) {
+    var t = s / closeSteps;
+    // Smooth interpolation using ease function
+    var smoothT = t * t * (3 - 2 * t);
+    points.push({
+      x: endX + (startX - endX) * smoothT,
+      y: endY + (startY - endY) * smoothT
+    });
+  }
+  
+  return points;
+}
@@ -41,7 +41,13 @@ class Controls {
    * Process a raw key press.
    */
   handleKey(key: string, now: number): void {
-    var action = this.inputMap.getAction(key);
+    this.handleAction(this.inputMap.getAction(key), now);
+  }
+
+  /**
+   * Process an already-mapped action (scripted input, or a key after mapping).
+   */
+  handleAction(action: GameAction, now: number): void {
     if (action !== GameAction.NONE) {
       // Track if this is a new press
       if (!this.activeActions[action]) {
@@ -196,4 +202,27 @@ class Controls {
   getLastAccelAction(): number {
     return this.lastAccelAction;
   }
+
+  /**
+   * Everything a logic tick reads from the controls, packed into one
+   * small number (0-35) for replays: acceleration, steering, the last
+   * accel/brake direction and whether USE_ITEM was just pressed.
+   */
+  getTickIntent(): number {
+    return (this.currentAccel + 1) +
+      (this.currentSteer + 1) * 3 +
+      (this.lastAccelAction > 0 ? 9 : 0) +
+      (this.justPressedActions[GameAction.USE_ITEM] === true ? 18 : 0);
+  }
+
+  /**
+   * Restore what getTickIntent() packed, so the next tick sees exactly
+   * the input it saw when recorded.
+   */
+  setTickIntent(intent: number): void {
+    this.currentAccel = intent % 3 - 1;
+    this.currentSteer = Math.floor(intent / 3) % 3 - 1;
+    this.lastAccelAction = Math.floor(intent / 9) % 2 === 1 ? 1 : -1;
+    this.justPressedActions[GameAction.USE_ITEM] = intent >= 18;
+  }
 }
@@ -31,7 +31,7 @@ enum GameAction {
  * 
  * CONTROL SCHEME:
  * 
- * ARROW KEYS:
+ * ARROW KEYS (or WASD):
  *   Up    = Accelerate straight
  *   Down  = Brake
  *   Left  = Turn left (cruise)
@@ -46,6 +46,9 @@ enum GameAction {
  *   Space = Use Item
  *   P / Enter = Pause
  *   Q / X / Escape = Quit
+ *
+ * Every binding can be changed (see ControlsMenu); a user's bindings are
+ * saved by KeyBindingStore and loaded at startup.
  */
 class InputMap {
   private bindings: { [key: string]: GameAction };
@@ -55,6 +58,14 @@ class InputMap {
     this.setupDefaultBindings();
   }
 
+  /**
+   * Throw away all bindings and restore the default scheme.
+   */
+  resetToDefaults(): void {
+    this.bindings = {};
+    this.setupDefaultBindings();
+  }
+
   private setupDefaultBindings(): void {
     // === ARROW KEYS ===
     this.bind(KEY_UP, GameAction.ACCELERATE);    // Gas straight
@@ -62,6 +73,16 @@ class InputMap {
     this.bind(KEY_LEFT, GameAction.STEER_LEFT);  // Turn left (cruise)
     this.bind(KEY_RIGHT, GameAction.STEER_RIGHT);// Turn right (cruise)
 
+    // === WASD ===
+    this.bind('w', GameAction.ACCELERATE);
+    this.bind('W', GameAction.ACCELERATE);
+    this.bind('s', GameAction.BRAKE);
+    this.bind('S', GameAction.BRAKE);
+    this.bind('a', GameAction.STEER_LEFT);
+    this.bind('A', GameAction.STEER_LEFT);
+    this.bind('d', GameAction.STEER_RIGHT);
+    this.bind('D', GameAction.STEER_RIGHT);
+
     // === NUMPAD ===
     // Top row: accelerate + direction
     this.bind('7', GameAction.ACCEL_LEFT);   // Gas + left
@@ -95,6 +116,103 @@ class InputMap {
     this.bindings[key] = action;
   }
 
+  /**
+   * Bind a key to an action, taking it away from whatever it did before.
+   * Letters are bound in both cases so Caps Lock doesn't matter.
+   */
+  addKey(action: GameAction, key: string): void {
+    var keys = bindingVariants(key);
+    for (var i = 0; i < keys.length; i++) {
+      this.bindings[keys[i]] = action;
+    }
+  }
+
+  /**
+   * Replace every key for an action with a single key.
+   */
+  setKey(action: GameAction, key: string): void {
+    this.clearAction(action);
+    this.addKey(action, key);
+  }
+
+  /**
+   * Unbind every key for an action.
+   */
+  clearAction(action: GameAction): void {
+    for (var key in this.bindings) {
+      if (this.bindings.hasOwnProperty(key) && this.bindings[key] === action) {
+        delete this.bindings[key];
+      }
+    }
+  }
+
+  /**
+   * Keys bound to an action, one per physical key (the lowercase half of
+   * a letter pair is left out), in a stable display order.
+   */
+  getKeysFor(action: GameAction): string[] {
+    var keys: string[] = [];
+    for (var key in this.bindings) {
+      if (!this.bindings.hasOwnProperty(key) || this.bindings[key] !== action) continue;
+      if (key !== key.toUpperCase() && this.bindings[key.toUpperCase()] === action) continue;
+      keys.push(key);
+    }
+    keys.sort(function(a, b) {
+      // Named keys (arrows, Space...) first, then printable keys
+      var aNamed = a.length > 1 || a <= ' ';
+      var bNamed = b.length > 1 || b <= ' ';
+      if (aNamed !== bNamed) return aNamed ? -1 : 1;
+      return a < b ? -1 : (a > b ? 1 : 0);
+    });
+    return keys;
+  }
+
+  /**
+   * Bindings as { action name: [keys] }, for saving.
+   */
+  exportBindings(): { [action: string]: string[] } {
+    var data: { [action: string]: string[] } = {};
+    for (var i = 0; i < REMAPPABLE_ACTIONS.length; i++) {
+      var action = REMAPPABLE_ACTIONS[i];
+      var keys: string[] = [];
+      for (var key in this.bindings) {
+        if (this.bindings.hasOwnProperty(key) && this.bindings[key] === action) {
+          keys.push(key);
+        }
+      }
+      data[GameAction[action]] = keys;
+    }
+    return data;
+  }
+
+  /**
+   * Replace the bindings with saved ones. Unknown actions and malformed
+   * keys are skipped; returns false (leaving the bindings unchanged) if
+   * nothing usable was found.
+   */
+  importBindings(data: any): boolean {
+    if (!data || typeof data !== 'object') return false;
+
+    var bindings: { [key: string]: GameAction } = {};
+    var found = false;
+    for (var name in data) {
+      if (!data.hasOwnProperty(name)) continue;
+      var action = (GameAction as any)[name];
+      if (typeof action !== 'number' || REMAPPABLE_ACTIONS.indexOf(action) === -1) continue;
+      var keys = data[name];
+      if (!(keys instanceof Array)) continue;
+      for (var i = 0; i < keys.length; i++) {
+        if (typeof keys[i] !== 'string' || keys[i].length === 0) continue;
+        bindings[keys[i]] = action;
+        found = true;
+      }
+    }
+    if (!found) return false;
+
+    this.bindings = bindings;
+    return true;
+  }
+
   /**
    * Get action for a key.
    */
@@ -103,3 +221,97 @@ class InputMap {
     return action !== undefined ? action : GameAction.NONE;
   }
 }
+
+/**
+ * Actions shown in the controls menu, in display order.
+ */
+var REMAPPABLE_ACTIONS: GameAction[] = [
+  GameAction.ACCELERATE,
+  GameAction.BRAKE,
+  GameAction.STEER_LEFT,
+  GameAction.STEER_RIGHT,
+  GameAction.ACCEL_LEFT,
+  GameAction.ACCEL_RIGHT,
+  GameAction.BRAKE_LEFT,
+  GameAction.BRAKE_RIGHT,
+  GameAction.USE_ITEM,
+  GameAction.PAUSE,
+  GameAction.QUIT
+];
+
+/**
+ * Display name for an action.
+ */
+function getActionLabel(action: GameAction): string {
+  switch (action) {
+    case GameAction.ACCELERATE: return 'Accelerate';
+    case GameAction.BRAKE: return 'Brake';
+    case GameAction.STEER_LEFT: return 'Steer Left';
+    case GameAction.STEER_RIGHT: return 'Steer Right';
+    case GameAction.ACCEL_LEFT: return 'Accelerate + Left';
+    case GameAction.ACCEL_RIGHT: return 'Accelerate + Right';
+    case GameAction.BRAKE_LEFT: return 'Brake + Left';
+    case GameAction.BRAKE_RIGHT: return 'Brake + Right';
+    case GameAction.USE_ITEM: return 'Use Item';
+    case GameAction.PAUSE: return 'Pause';
+    case GameAction.QUIT: return 'Quit';
+    default: return 'None';
+  }
+}
+
+/**
+ * Display name for a key ("Up", "Space", "^C", "W").
+ */
+function getKeyLabel(key: string): string {
+  switch (key) {
+    case KEY_UP: return 'Up';
+    case KEY_DOWN: return 'Down';
+    case KEY_LEFT: return 'Left';
+    case KEY_RIGHT: return 'Right';
+    case ' ': return 'Space';
+    case '\r': return 'Enter';
+    case '\x1b': return 'Esc';
+  }
+  var code = key.charCodeAt(0);
+  if (key.length === 1 && code < 32) {
+    return '^' + String.fromCharCode(code + 64);
+  }
+  return key.toUpperCase();
+}
+
+/**
+ * Keys for an action joined for display, e.g. "Up/W/8".
+ */
+function describeActionKeys(inputMap: InputMap, action: GameAction, maxKeys?: number): string {
+  var keys = inputMap.getKeysFor(action);
+  if (keys.length === 0) return '(none)';
+  if (maxKeys !== undefined && keys.length > maxKeys) keys = keys.slice(0, maxKeys);
+  var labels: string[] = [];
+  for (var i = 0; i < keys.length; i++) {
+    labels.push(getKeyLabel(keys[i]));
+  }
+  return labels.join('/');
+}
+
+/**
+ * A key plus its other-case twin for letters.
+ */
+function bindingVariants(key: string): string[] {
+  var upper = key.toUpperCase();
+  var lower = key.toLowerCase();
+  if (key.length === 1 && upper !== lower) return [upper, lower];
+  return [key];
+}
+
+/** Bindings used by every race in this session */
+var playerInputMap: InputMap | null = null;
+
+/**
+ * The active player's input map (defaults until loadPlayerKeyBindings).
+ */
+function getPlayerInputMap(): InputMap {
+  if (!playerInputMap) {
+    playerInputMap = new InputMap();
+  }
+  return playerInputMap;
+}
@@ -0,0 +1,82 @@
+/**
+ * KeyBindingStore - Per-user key binding files.
+ *
+ * Each user's bindings live in the configured players directory as
+ * u<N>.keys.json ({ action name: [keys] }, see InputMap.exportBindings).
+ * Users without a number (outside a BBS session) keep the defaults.
+ */
+
+class KeyBindingStore {
+  private directory: string;
+
+  constructor() {
+    this.directory = OUTRUN_CONFIG.players.directory;
+  }
+
+  /**
+   * Load a user's bindings into an input map. Returns false (map left
+   * as it was) if the user has none saved or the file is unusable.
+   */
+  load(inputMap: InputMap, userNumber: number): boolean {
+    if (userNumber <= 0) return false;
+    var path = this.path(userNumber);
+    if (!file_exists(path)) return false;
+
+    try {
+      var f = new File(path);
+      if (!f.open('r')) {
+        logWarning('KeyBindingStore: unable to open ' + path);
+        return false;
+      }
+      var content = f.read();
+      f.close();
+
+      if (!inputMap.importBindings(JSON.parse(content))) {
+        logWarning('KeyBindingStore: ignoring invalid bindings ' + path);
+        return false;
+      }
+      return true;
+    } catch (e) {
+      logError('KeyBindingStore: failed to read ' + path + ': ' + e);
+      return false;
+    }
+  }
+
+  /**
+   * Save a user's bindings. Returns true if written.
+   */
+  save(inputMap: InputMap, userNumber: number): boolean {
+    if (userNumber <= 0) return false;
+    var path = this.path(userNumber);
+
+    try {
+      if (!file_exists(this.directory)) {
+        mkdir(this.directory);
+      }
+      var f = new File(path);
+      if (!f.open('w')) {
+        logError('KeyBindingStore: unable to write ' + path);
+        return false;
+      }
+      f.write(JSON.stringify(inputMap.exportBindings()));
+      f.close();
+      return true;
+    } catch (e) {
+      logError('KeyBindingStore: failed to write ' + path + ': ' + e);
+      return false;
+    }
+  }
+
+  private path(userNumber: number): string {
+    return this.directory + '/u' + userNumber + '.keys.json';
+  }
+}
+
+/**
+ * Load the current user's saved bindings into the active input map.
+ */
+function loadPlayerKeyBindings(userNumber: number): void {
+  if (new KeyBindingStore().load(getPlayerInputMap(), userNumber)) {
+    logInfo('Loaded key bindings for user ' + userNumber);
+  }
+}
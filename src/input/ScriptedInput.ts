@@ -0,0 +1,76 @@
+/**
+ * ScriptedInput - Feeds a fixed list of actions into Controls by tick.
+ *
+ * Stands in for console.inkey() when there is no terminal (headless
+ * simulation). An event presses its action on `tick` and re-sends it
+ * every tick for `hold` ticks, the same way terminal key repeat keeps a
+ * held key alive, so Controls sees exactly what it would from a player.
+ *
+ * Script JSON is an array of events with action names from GameAction:
+ *   [{ "tick": 0, "action": "ACCELERATE", "hold": 600 },
+ *    { "tick": 240, "action": "USE_ITEM" }]
+ */
+
+interface ScriptedInputEvent {
+  /** Tick the action is first pressed on */
+  tick: number;
+
+  /** Action to press */
+  action: GameAction;
+
+  /** Ticks to keep the action held (default 1) */
+  hold?: number;
+}
+
+class ScriptedInput {
+  private events: ScriptedInputEvent[];
+
+  constructor(events: ScriptedInputEvent[]) {
+    this.events = events.slice(0);
+    this.events.sort(function(a, b) { return a.tick - b.tick; });
+  }
+
+  /**
+   * Press every action that is held on this tick, then let Controls
+   * release anything that has gone stale.
+   * @param now - Simulated time in milliseconds
+   */
+  apply(controls: Controls, tick: number, now: number): void {
+    for (var i = 0; i < this.events.length; i++) {
+      var e = this.events[i];
+      if (e.tick > tick) break;
+      var hold = e.hold !== undefined ? e.hold : 1;
+      if (tick < e.tick + hold) {
+        controls.handleAction(e.action, now);
+      }
+    }
+    controls.update(now);
+  }
+
+  /**
+   * Build from script JSON. Returns null (and logs why) if invalid.
+   */
+  static parse(data: any, source: string): ScriptedInput | null {
+    if (!(data instanceof Array)) {
+      logError("ScriptedInput: " + source + ": expected an array of events");
+      return null;
+    }
+
+    var events: ScriptedInputEvent[] = [];
+    for (var i = 0; i < data.length; i++) {
+      var raw = data[i];
+      var action = raw ? (GameAction as any)[raw.action] : undefined;
+      if (typeof action !== 'number' || action === GameAction.NONE) {
+        logError("ScriptedInput: " + source + ": event " + i + " has unknown action '" + (raw ? raw.action : raw) + "'");
+        return null;
+      }
+      if (!isIntegerInRange(raw.tick, 0, Number.MAX_VALUE) ||
+          (raw.hold !== undefined && !isIntegerInRange(raw.hold, 1, Number.MAX_VALUE))) {
+        logError("ScriptedInput: " + source + ": event " + i + " needs a whole tick >= 0 and hold >= 1");
+        return null;
+      }
+      events.push({ tick: raw.tick, action: action, hold: raw.hold });
+    }
+    return new ScriptedInput(events);
+  }
+}
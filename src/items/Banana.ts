@@ -16,6 +16,7 @@ class Banana extends Item implements IProjectile {
   targetId: number;
   ttl: number;
   isDestroyed: boolean;
+  hitVehicleId: number;
 
   constructor() {
     super(ItemType.BANANA);
@@ -27,6 +28,7 @@ class Banana extends Item implements IProjectile {
     this.targetId = -1;
     this.ttl = 60;  // Stay on track for 60 seconds
     this.isDestroyed = false;
+    this.hitVehicleId = -1;
   }
 
   /**
@@ -44,7 +46,7 @@ class Banana extends Item implements IProjectile {
   /**
    * Update banana (mostly just TTL countdown).
    */
-  update(dt: number, vehicles: IVehicle[], roadLength: number): boolean {
+  update(dt: number, vehicles: IVehicle[], roadLength: number, rand: Rand): boolean {
     if (this.isDestroyed) return true;
     
     // Decrease TTL
@@ -66,6 +68,7 @@ class Banana extends Item implements IProjectile {
       var v = vehicles[i];
       if (v.id === this.ownerId) continue;  // Can't hit own banana immediately
       if (v.isCrashed) continue;  // Already crashed
+      if (v.isRemote) continue;  // Hits on other nodes' racers are decided there
       
       // Check for invincibility (Star or Bullet)
       var isInvincible = false;
@@ -84,8 +87,9 @@ class Banana extends Item implements IProjectile {
       
       if (latDist < 0.5 && longDist < 15) {
         // HIT!
-        this.applyHitToVehicle(v);
+        this.applyHitToVehicle(v, rand);
         this.isDestroyed = true;
+        this.hitVehicleId = v.id;
         return true;
       }
     }
@@ -97,14 +101,14 @@ class Banana extends Item implements IProjectile {
    * Apply banana hit effect to a vehicle.
    * Knocks vehicle to edge of road at 0 mph - must accelerate and steer back.
    */
-  private applyHitToVehicle(vehicle: IVehicle): void {
+  private applyHitToVehicle(vehicle: IVehicle, rand: Rand): void {
     // Full stop - spinout effect
     vehicle.speed = 0;
     
     // Knock to side of road (but stay ON the road, not off it)
     // playerX range: -1.0 to +1.0 is on-road, so knock to ±0.7 to ±0.9
     var knockDirection = vehicle.playerX >= 0 ? 1 : -1;  // Knock in direction already moving
-    vehicle.playerX = knockDirection * (0.7 + Math.random() * 0.2);  // 0.7 to 0.9
+    vehicle.playerX = knockDirection * (0.7 + rand.next() * 0.2);  // 0.7 to 0.9
     
     // Longer flash for dramatic spinout visual
     vehicle.flashTimer = 2.0;
@@ -25,11 +25,26 @@ interface ItemBoxData {
  */
 var DEBUG_FORCE_ITEM: ItemType | null = null;  // <-- CHANGE THIS TO TEST
 
+/**
+ * Item activity, reported for race summaries and logs.
+ * - pickup: vehicleId collected a box and now holds itemType
+ * - use:    vehicleId used its held itemType (fired backward if backward)
+ * - hit:    vehicleId was hit by itemType, fired or dropped by sourceId
+ */
+interface ItemEvent {
+  type: 'pickup' | 'use' | 'hit';
+  vehicleId: number;
+  itemType: ItemType;
+  sourceId?: number;
+  backward?: boolean;
+}
+
 /**
  * Callback type for item system events.
  */
 interface ItemSystemCallbacks {
   onLightningStrike?: (hitCount: number) => void;
+  onItemEvent?: (event: ItemEvent) => void;
 }
 
 class ItemSystem {
@@ -39,10 +54,18 @@ class ItemSystem {
   // Event callbacks for visual/audio effects
   private callbacks: ItemSystemCallbacks;
 
+  // Random source for box placement, item rolls and hit knockback
+  private rand: Rand;
+
+  // Restricts item rolls to these types (Daily Challenge); null = normal odds
+  private itemPool: ItemType[] | null;
+
   constructor() {
     this.items = [];
     this.projectiles = [];
     this.callbacks = {};
+    this.rand = globalRand;
+    this.itemPool = null;
   }
   
   /**
@@ -57,9 +80,13 @@ class ItemSystem {
   /**
    * Initialize item boxes from track data.
    * Places ROWS of boxes side-by-side (like Mario Kart) to encourage steering.
+   * Pass the race's seeded Rand so item rolls are reproducible.
    */
-  initFromTrack(_track: ITrack, road: Road): void {
+  initFromTrack(_track: ITrack, road: Road, rand?: Rand): void {
     this.items = [];  // Clear existing items
+    this.projectiles = [];
+    this.rand = rand || globalRand;
+    this.itemPool = null;
     
     // Get track length and distribute item box ROWS evenly
     var trackLength = road.totalLength;
@@ -100,7 +127,7 @@ class ItemSystem {
         var x = pattern[j];
         
         // Add tiny randomness to x position (+/- 1 unit) - keeps them aligned
-        x += (globalRand.next() - 0.5) * 2;
+        x += (this.rand.next() - 0.5) * 2;
         
         var item = new Item(ItemType.NONE);
         item.x = x;
@@ -113,6 +140,14 @@ class ItemSystem {
     logInfo("ItemSystem: Placed " + this.items.length + " item boxes in " + numRows + " rows across track length " + trackLength);
   }
 
+  /**
+   * Only hand out these item types, with equal odds. Pass null or an
+   * empty list for the normal position-weighted distribution.
+   */
+  setItemPool(items: ItemType[] | null): void {
+    this.itemPool = items && items.length > 0 ? items : null;
+  }
+
   /**
    * Update all items (respawn timers, projectiles).
    */
@@ -126,8 +161,16 @@ class ItemSystem {
     if (vehicles && roadLength) {
       for (var j = this.projectiles.length - 1; j >= 0; j--) {
         var shell = this.projectiles[j] as Shell;
-        if (shell.update(dt, vehicles, roadLength)) {
+        if (shell.update(dt, vehicles, roadLength, this.rand)) {
           // Shell should be removed
+          if (shell.hitVehicleId >= 0) {
+            this.emit({
+              type: 'hit',
+              vehicleId: shell.hitVehicleId,
+              itemType: this.projectileItemType(shell),
+              sourceId: shell.ownerId
+            });
+          }
           this.projectiles.splice(j, 1);
         }
       }
@@ -149,6 +192,7 @@ class ItemSystem {
     for (var i = 0; i < vehicles.length; i++) {
       var vehicle = vehicles[i];
       if (vehicle.heldItem !== null) continue;  // Already holding an item
+      if (vehicle.isRemote) continue;  // Other nodes' racers pick up on their own node
 
       for (var j = 0; j < this.items.length; j++) {
         var item = this.items[j];
@@ -175,7 +219,7 @@ class ItemSystem {
         
         // Calculate lateral distance
         // Account for road curve at item position for more accurate collision
-        var vehicleX = vehicle.x;  // Already scaled (playerX * 20)
+        var vehicleX = vehicle.x;  // Already scaled (playerX * ROAD_TRACK_X_SCALE)
         var itemX = item.x;
         
         // Adjust for road curvature if available
@@ -205,6 +249,7 @@ class ItemSystem {
             activated: false
           };
           logInfo("Vehicle picked up " + ItemType[itemType] + " (x" + vehicle.heldItem.uses + ")");
+          this.emit({ type: 'pickup', vehicleId: vehicle.id, itemType: itemType });
         }
       }
     }
@@ -221,6 +266,7 @@ class ItemSystem {
     
     var itemType = vehicle.heldItem.type;
     var consumed = false;
+    this.emit({ type: 'use', vehicleId: vehicle.id, itemType: itemType, backward: fireBackward === true });
 
     switch (itemType) {
       // Single-use boost items
@@ -320,6 +366,42 @@ class ItemSystem {
     }
   }
   
+  /**
+   * Replay an item use reported by another node (see MultiplayerSession).
+   * The remote racer doesn't hold items locally, so it is handed the item
+   * for just this use.
+   */
+  replayItemUse(vehicle: IVehicle, itemType: ItemType, allVehicles: IVehicle[], fireBackward: boolean): void {
+    vehicle.heldItem = {
+      type: itemType,
+      uses: 1,
+      activated: vehicle.hasEffect(itemType)
+    };
+    this.useItem(vehicle, allVehicles, fireBackward);
+    vehicle.heldItem = null;
+  }
+
+  /**
+   * Remove the projectile from ownerId closest to trackZ - the one another
+   * node reported hitting its racer there.
+   */
+  removeProjectileNear(ownerId: number, trackZ: number): void {
+    var best = -1;
+    var bestDist = Infinity;
+    for (var i = 0; i < this.projectiles.length; i++) {
+      var p = this.projectiles[i];
+      if (p.ownerId !== ownerId) continue;
+      var dist = Math.abs(p.trackZ - trackZ);
+      if (dist < bestDist) {
+        best = i;
+        bestDist = dist;
+      }
+    }
+    if (best >= 0) {
+      this.projectiles.splice(best, 1);
+    }
+  }
+
   /**
    * Apply a duration-based effect to a vehicle.
    */
@@ -328,24 +410,24 @@ class ItemSystem {
     (vehicle as Vehicle).addEffect(type, duration, vehicle.id);
     
     // Lock in minimum speed to prevent deceleration from key handling issues
-    vehicle.boostMinSpeed = Math.max(vehicle.speed, VEHICLE_PHYSICS.MAX_SPEED * 0.5);
+    vehicle.boostMinSpeed = Math.max(vehicle.speed, vehicle.stats.maxSpeed * 0.5);
     
     // Apply immediate effects
     switch (type) {
       case ItemType.MUSHROOM_GOLDEN:
         vehicle.boostMultiplier = 1.4;
         // Immediate speed bump
-        vehicle.speed = Math.min(vehicle.speed * 1.2, VEHICLE_PHYSICS.MAX_SPEED * 1.4);
+        vehicle.speed = Math.min(vehicle.speed * 1.2, vehicle.stats.maxSpeed * 1.4);
         break;
       case ItemType.STAR:
         vehicle.boostMultiplier = 1.35;
-        vehicle.speed = Math.min(vehicle.speed * 1.25, VEHICLE_PHYSICS.MAX_SPEED * 1.35);
+        vehicle.speed = Math.min(vehicle.speed * 1.25, vehicle.stats.maxSpeed * 1.35);
         break;
       case ItemType.BULLET:
         // Bullet is the fastest item - 1.6x max speed, locks to max immediately
         vehicle.boostMultiplier = 1.6;
-        vehicle.speed = VEHICLE_PHYSICS.MAX_SPEED * 1.6;  // Instant max speed
-        vehicle.boostMinSpeed = VEHICLE_PHYSICS.MAX_SPEED * 1.5;  // High minimum
+        vehicle.speed = vehicle.stats.maxSpeed * 1.6;  // Instant max speed
+        vehicle.boostMinSpeed = vehicle.stats.maxSpeed * 1.5;  // High minimum
         break;
     }
     
@@ -363,6 +445,7 @@ class ItemSystem {
     for (var i = 0; i < allVehicles.length; i++) {
       var v = allVehicles[i] as Vehicle;
       if (v.id === user.id) continue;  // Don't affect self
+      if (v.isRemote) continue;  // Struck on its own node when the use is replayed there
       
       // Only affect racers AHEAD of the user in RACE POSITION (lower position number = ahead)
       // e.g., if user is in 5th place, hit positions 1-4
@@ -377,6 +460,7 @@ class ItemSystem {
       
       v.addEffect(ItemType.LIGHTNING, duration, user.id);
       hitCount++;
+      this.emit({ type: 'hit', vehicleId: v.id, itemType: ItemType.LIGHTNING, sourceId: user.id });
     }
     
     // Trigger visual effect callback
@@ -387,19 +471,42 @@ class ItemSystem {
     logInfo("Lightning struck " + hitCount + " opponents ahead (positions 1-" + (user.racePosition - 1) + ")!");
   }
 
+  /**
+   * Report item activity to the registered listener.
+   */
+  private emit(event: ItemEvent): void {
+    if (this.callbacks.onItemEvent) {
+      this.callbacks.onItemEvent(event);
+    }
+  }
+
+  /**
+   * Item type a projectile was fired from (shells share ItemType.SHELL).
+   */
+  private projectileItemType(projectile: IProjectile): ItemType {
+    if (projectile instanceof Banana) return ItemType.BANANA;
+    if (projectile.shellType === ShellType.BLUE) return ItemType.BLUE_SHELL;
+    if (projectile.shellType === ShellType.RED) return ItemType.RED_SHELL;
+    return ItemType.GREEN_SHELL;
+  }
+
   /**
    * Get random item type (weighted by race position).
    * Implements rubber-banding: leaders get weak items, trailing players get powerful items.
    * Based on Mario Kart item distribution system.
-   * Can be overridden by DEBUG_FORCE_ITEM constant for testing.
+   * Can be overridden by DEBUG_FORCE_ITEM constant for testing, or by the item pool.
    */
   private randomItemType(position: number, totalRacers: number): ItemType {
     // Debug override - force specific item for testing
     if (DEBUG_FORCE_ITEM !== null) {
       return DEBUG_FORCE_ITEM;
     }
+
+    if (this.itemPool) {
+      return this.itemPool[this.rand.nextInt(0, this.itemPool.length - 1)];
+    }
     
-    var roll = globalRand.next();
+    var roll = this.rand.next();
     
     // Position factor: 0 = first place, 1 = last place
     var positionFactor = totalRacers > 1 ? (position - 1) / (totalRacers - 1) : 0;
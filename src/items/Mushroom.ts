@@ -23,12 +23,12 @@ class Mushroom extends Item {
     vehicle.boostMultiplier = Mushroom.BOOST_MULTIPLIER;
     
     // Lock in current speed as minimum - prevents deceleration from key issues
-    vehicle.boostMinSpeed = Math.max(vehicle.speed, VEHICLE_PHYSICS.MAX_SPEED * 0.5);
+    vehicle.boostMinSpeed = Math.max(vehicle.speed, vehicle.stats.maxSpeed * 0.5);
     
     // Immediate speed bump to get into the boost zone
     vehicle.speed = Math.min(
       vehicle.speed * 1.3,
-      VEHICLE_PHYSICS.MAX_SPEED * Mushroom.BOOST_MULTIPLIER
+      vehicle.stats.maxSpeed * Mushroom.BOOST_MULTIPLIER
     );
     
     logInfo("Mushroom boost activated! Duration: " + Mushroom.BOOST_DURATION + "s, minSpeed: " + vehicle.boostMinSpeed);
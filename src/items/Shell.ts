@@ -6,7 +6,8 @@
  * - GREEN SHELL: Travels straight, can fire forward or backward
  * - BLUE SHELL: Homes toward 1st place vehicle, accelerates gradually
  * 
- * All shells start at minimum speed (300 = car max speed) and accelerate.
+ * All shells start at the firing car's top speed (at least 300) and accelerate;
+ * homing shells always aim to outrun their target's top speed.
  * This reuses our pseudo-3D track system instead of true projectile physics.
  */
 
@@ -19,12 +20,13 @@ enum ShellType {
 
 /** Shell speed constants */
 var SHELL_PHYSICS = {
-  MIN_SPEED: 300,           // Minimum shell speed (same as car max)
+  MIN_SPEED: 300,           // Minimum shell speed (baseline car max)
   GREEN_TARGET_SPEED: 400,  // Green shell target speed
   RED_TARGET_SPEED: 550,    // Red shell target speed (needs to catch up)
   BLUE_TARGET_SPEED: 700,   // Blue shell target speed (must reach 1st place)
   ACCELERATION: 200,        // How fast shells accelerate (units/sec^2)
-  BACKWARD_SPEED: -250      // Backward shell speed (negative = behind vehicle)
+  BACKWARD_SPEED: -250,     // Backward shell speed (negative = behind vehicle)
+  HOMING_MARGIN: 1.2        // Homing shells reach at least this x the target's top speed
 };
 
 interface IProjectile extends IEntity {
@@ -54,6 +56,9 @@ interface IProjectile extends IEntity {
 
   /** Has this shell hit something? */
   isDestroyed: boolean;
+
+  /** ID of the vehicle this projectile hit (-1 = none) */
+  hitVehicleId: number;
   
   /** Is this shell traveling backward? (optional, for shells) */
   isBackward?: boolean;
@@ -69,6 +74,7 @@ class Shell extends Item implements IProjectile {
   targetId: number;
   ttl: number;
   isDestroyed: boolean;
+  hitVehicleId: number;
   isBackward: boolean;
 
   constructor(shellType: ShellType) {
@@ -82,6 +88,7 @@ class Shell extends Item implements IProjectile {
     this.targetId = -1;
     this.ttl = 10;  // 10 seconds max lifetime
     this.isDestroyed = false;
+    this.hitVehicleId = -1;
     this.isBackward = false;
   }
 
@@ -107,7 +114,7 @@ class Shell extends Item implements IProjectile {
       // Fire forward: start ahead, accelerate forward
       shell.trackZ = vehicle.trackZ + 15;
       shell.playerX = vehicle.playerX;
-      shell.speed = SHELL_PHYSICS.MIN_SPEED;
+      shell.speed = Shell.launchSpeed(vehicle);
       shell.targetSpeed = SHELL_PHYSICS.GREEN_TARGET_SPEED;
       logInfo("GREEN SHELL fired FORWARD, starting at speed=" + shell.speed.toFixed(0) + ", target=" + shell.targetSpeed);
     }
@@ -123,7 +130,7 @@ class Shell extends Item implements IProjectile {
     shell.trackZ = vehicle.trackZ + 15;
     shell.playerX = vehicle.playerX;
     shell.ownerId = vehicle.id;
-    shell.speed = SHELL_PHYSICS.MIN_SPEED;  // Start at minimum
+    shell.speed = Shell.launchSpeed(vehicle);  // Start at the firer's top speed
     shell.targetSpeed = SHELL_PHYSICS.RED_TARGET_SPEED;  // Accelerate to this
     
     // Find next vehicle ahead
@@ -142,7 +149,7 @@ class Shell extends Item implements IProjectile {
     shell.trackZ = vehicle.trackZ + 15;
     shell.playerX = vehicle.playerX;
     shell.ownerId = vehicle.id;
-    shell.speed = SHELL_PHYSICS.MIN_SPEED;  // Start at minimum, accelerate gradually
+    shell.speed = Shell.launchSpeed(vehicle);  // Start at the firer's top speed, accelerate gradually
     shell.targetSpeed = SHELL_PHYSICS.BLUE_TARGET_SPEED;
     
     // Find 1st place vehicle
@@ -151,6 +158,13 @@ class Shell extends Item implements IProjectile {
     return shell;
   }
 
+  /**
+   * Starting speed for a forward shell: never slower than the car firing it.
+   */
+  static launchSpeed(vehicle: IVehicle): number {
+    return Math.max(SHELL_PHYSICS.MIN_SPEED, vehicle.stats.maxSpeed);
+  }
+
   /**
    * Find the next vehicle ahead of the shooter.
    */
@@ -188,7 +202,7 @@ class Shell extends Item implements IProjectile {
    * Update shell position and check for hits.
    * Returns true if shell should be removed.
    */
-  update(dt: number, vehicles: IVehicle[], roadLength: number): boolean {
+  update(dt: number, vehicles: IVehicle[], roadLength: number, rand: Rand): boolean {
     if (this.isDestroyed) return true;
     
     // Decrease TTL (but blue shells never despawn on timeout)
@@ -221,6 +235,12 @@ class Shell extends Item implements IProjectile {
     if (!this.isBackward && (this.shellType === ShellType.RED || this.shellType === ShellType.BLUE)) {
       var target = this.findVehicleById(vehicles, this.targetId);
       if (target) {
+        // Keep enough pace to catch the target's car, boosts included
+        var chaseSpeed = target.stats.maxSpeed * target.boostMultiplier * SHELL_PHYSICS.HOMING_MARGIN;
+        if (chaseSpeed > this.targetSpeed) {
+          this.targetSpeed = chaseSpeed;
+        }
+
         // Steer toward target's lateral position
         var homingRate = 2.0;  // How fast we home in
         if (this.playerX < target.playerX - 0.05) {
@@ -238,6 +258,7 @@ class Shell extends Item implements IProjectile {
       var v = vehicles[i];
       if (v.id === this.ownerId) continue;  // Can't hit self
       if (v.isCrashed) continue;  // Already crashed
+      if (v.isRemote) continue;  // Hits on other nodes' racers are decided there
       
       // Check for invincibility (Star or Bullet)
       var isInvincible = false;
@@ -256,8 +277,9 @@ class Shell extends Item implements IProjectile {
       
       if (latDist < 0.5 && longDist < 15) {
         // HIT!
-        this.applyHitToVehicle(v);
+        this.applyHitToVehicle(v, rand);
         this.isDestroyed = true;
+        this.hitVehicleId = v.id;
         return true;
       }
     }
@@ -279,14 +301,14 @@ class Shell extends Item implements IProjectile {
    * Apply shell hit effect to a vehicle.
    * Knocks vehicle to edge of road at 0 mph - must accelerate and steer back.
    */
-  private applyHitToVehicle(vehicle: IVehicle): void {
+  private applyHitToVehicle(vehicle: IVehicle, rand: Rand): void {
     // Full stop - dramatic impact
     vehicle.speed = 0;
     
     // Knock to side of road (but stay ON the road, not off it)
     // playerX range: -1.0 to +1.0 is on-road, so knock to ±0.7 to ±0.9
     var knockDirection = vehicle.playerX >= 0 ? 1 : -1;  // Knock in direction already moving
-    vehicle.playerX = knockDirection * (0.7 + Math.random() * 0.2);  // 0.7 to 0.9
+    vehicle.playerX = knockDirection * (0.7 + rand.next() * 0.2);  // 0.7 to 0.9
     
     // Longer flash for more dramatic visual feedback
     vehicle.flashTimer = 1.5;
@@ -3,9 +3,11 @@
 /// <reference path="util/Rand.ts" />
 /// <reference path="util/DebugLogger.ts" />
 /// <reference path="util/Logging.ts" />
+/// <reference path="util/Screen.ts" />
 /// <reference path="timing/Clock.ts" />
 /// <reference path="timing/FixedTimestep.ts" />
 /// <reference path="input/InputMap.ts" />
+/// <reference path="input/KeyBindingStore.ts" />
 /// <reference path="input/Controls.ts" />
 /// <reference path="entities/Entity.ts" />
 /// <reference path="entities/Driver.ts" />
@@ -43,10 +45,23 @@
 /// <reference path="render/Renderer.ts" />
 /// <reference path="game/GameState.ts" />
 /// <reference path="game/Systems.ts" />
+/// <reference path="game/RaceClass.ts" />
 /// <reference path="game/Cup.ts" />
+/// <reference path="game/CupLoader.ts" />
+/// <reference path="game/CupRegistry.ts" />
 /// <reference path="game/Game.ts" />
+/// <reference path="game/Spectator.ts" />
+/// <reference path="game/ReplayViewer.ts" />
+/// <reference path="profile/PlayerProfile.ts" />
+/// <reference path="profile/CarUnlocks.ts" />
+/// <reference path="profile/PlayerSettings.ts" />
 /// <reference path="ui/TrackSelector.ts" />
+/// <reference path="ui/CustomCupBuilder.ts" />
 /// <reference path="ui/CupStandings.ts" />
+/// <reference path="ui/CareerScreen.ts" />
+/// <reference path="ui/UnlockToast.ts" />
+/// <reference path="ui/WatchRaces.ts" />
+/// <reference path="ui/ReplayMenu.ts" />
 
 /**
  * OutRun ANSI - Main Entry Point
@@ -76,6 +91,11 @@
 
 // Check if we're running in a proper BBS terminal session
 if (typeof console === 'undefined' || console === null) {
+  // Headless simulation under jsexec: see game/Headless.ts
+  if (typeof argv !== 'undefined' && argv.length > 0 && argv[0] === '--headless') {
+    exit(runHeadlessFromArgv(argv.slice(1)));
+  }
+
   // debugLog.error("No console object - not running in BBS session");
   // debugLog.close();
   print("ERROR: OutRun ANSI must be run from a Synchronet BBS terminal session.");
@@ -107,8 +127,9 @@ scene3d.initialize();
 /**
  * Display the title screen.
  * Tries to load custom ANSI art from title.ans, falls back to built-in ASCII art.
+ * savedCup, if any, is offered as Continue Cup.
  */
-function showTitleScreen(): void {
+function showTitleScreen(savedCup: CupState | null): void {
   scene3d.selectRawDepth('glass');
   console.clear(BG_BLACK, false);
   
@@ -183,21 +204,40 @@ function showTitleScreen(): void {
     console.print("      /        |        \\   /        |        \\\r\n");
     console.print("\r\n");
 
-    // Instructions
+    // Instructions (from the player's active bindings)
+    var inputMap = getPlayerInputMap();
     scene3d.selectRawDepth('content');
     console.attributes = WHITE;
     console.print("                    Controls:\r\n");
     console.attributes = LIGHTGRAY;
-    console.print("        W/Up = Accelerate   A/Left = Steer Left\r\n");
-    console.print("        S/Dn = Brake        D/Right = Steer Right\r\n");
-    console.print("        SPACE = Use Item    P = Pause\r\n");
+    console.print("        " + padRight(describeActionKeys(inputMap, GameAction.ACCELERATE, 2) + " = Accelerate", 28) +
+      describeActionKeys(inputMap, GameAction.STEER_LEFT, 2) + " = Steer Left\r\n");
+    console.print("        " + padRight(describeActionKeys(inputMap, GameAction.BRAKE, 2) + " = Brake", 28) +
+      describeActionKeys(inputMap, GameAction.STEER_RIGHT, 2) + " = Steer Right\r\n");
+    console.print("        " + padRight(describeActionKeys(inputMap, GameAction.USE_ITEM, 2) + " = Use Item", 28) +
+      describeActionKeys(inputMap, GameAction.PAUSE, 1) + " = Pause\r\n");
     console.print("\r\n");
 
     scene3d.selectRawDepth('prompt');
     console.attributes = YELLOW;
     console.print("              Press any key to start racing...\r\n");
-    console.print("                     Q to quit\r\n");
-    console.print("\r\n");
+    var options: string[] = [];
+    if (OUTRUN_CONFIG.multiplayer.enabled) {
+      options.push("M = Multiplayer", "W = Watch");
+    }
+    if (OUTRUN_CONFIG.replays.enabled) {
+      options.push("P = Replays");
+    }
+    options.push("C = Career", "K = Controls", "Q to quit");
+    var optionLine = options.join("  ");
+    console.print(padRight("", Math.floor((80 - optionLine.length) / 2)) + optionLine + "\r\n");
+    if (savedCup) {
+      console.attributes = LIGHTCYAN;
+      console.print("    R = Continue Cup: " + savedCup.definition.name + " " + getRaceClass(savedCup.raceClassId).name +
+        " (race " + (savedCup.currentRaceIndex + 1) + " of " + savedCup.definition.trackIds.length + ")\r\n");
+    } else {
+      console.print("\r\n");
+    }
 
     console.attributes = DARKGRAY;
     console.print("     Version 0.1.0 (Iteration 0) - Bootstrap Build\r\n");
@@ -263,21 +303,64 @@ function showExitScreen(): void {
 
 /**
  * Wait for user input on title screen.
- * Returns true to start game, false to quit.
+ * Returns 'race' to start game, 'continue' to continue the saved cup,
+ * 'multiplayer' for the lobby, 'watch' to watch a live race, 'replays' for
+ * saved replays, 'career' for the career screen, 'controls' for the
+ * controls menu, 'quit' to quit.
  */
-function waitForTitleInput(): boolean {
+function waitForTitleInput(canContinueCup: boolean): 'race' | 'continue' | 'multiplayer' | 'watch' | 'replays' | 'career' | 'controls' | 'quit' {
   while (true) {
     var key = console.inkey(K_UPPER, 1000);
 
     if (key !== '') {
       if (key === 'Q') {
-        return false;
+        return 'quit';
+      }
+      if (key === 'M' && OUTRUN_CONFIG.multiplayer.enabled) {
+        return 'multiplayer';
       }
-      return true;
+      if (key === 'W' && OUTRUN_CONFIG.multiplayer.enabled) {
+        return 'watch';
+      }
+      if (key === 'P' && OUTRUN_CONFIG.replays.enabled) {
+        return 'replays';
+      }
+      if (key === 'C') {
+        return 'career';
+      }
+      if (key === 'K') {
+        return 'controls';
+      }
+      if (key === 'R' && canContinueCup) {
+        return 'continue';
+      }
+      return 'race';
     }
   }
 }
 
+/**
+ * Current user's number, or 0 outside a BBS session.
+ */
+function getCurrentUserNumber(): number {
+  try {
+    if (typeof user !== 'undefined' && user && user.number) {
+      return user.number;
+    }
+  } catch (e) {
+    // user not available
+  }
+  return 0;
+}
+
+/**
+ * Publish the game's race for spectators on other nodes, if enabled.
+ */
+function startRaceBroadcast(game: Game): void {
+  var node = typeof bbs !== 'undefined' && bbs ? bbs.node_num : 0;
+  game.setBroadcaster(createRaceBroadcaster(node, getMultiplayerName()));
+}
+
 /**
  * Show race end screen with results.
  * Waits for user to press a key before returning.
@@ -330,8 +413,20 @@ function main(): void {
   // Initialize high score manager
   var highScoreManager = new HighScoreManager();
   
-  // Initialize cup manager for cup races
-  var cupManager = new CupManager();
+  // Apply the player's saved key bindings
+  var userNumber = getCurrentUserNumber();
+  loadPlayerKeyBindings(userNumber);
+  loadPlayerSettings(userNumber);
+
+  // Initialize cup manager for cup races (saves the cup in progress)
+  var cupManager = new CupManager(userNumber);
+
+  // Career stats, updated after every race and cup
+  var profile = new PlayerProfile(userNumber);
+
+  // Earned cars and colors (careers from before unlocks existed catch up here)
+  var unlocks = new CarUnlocks(userNumber);
+  showUnlockToasts(unlocks.check(profile.getStats(), null));
 
   try {
     // Main application loop - keeps running until user quits from splash
@@ -340,15 +435,56 @@ function main(): void {
     while (keepPlaying) {
       // Show title screen
       debugLog.info("Showing title screen");
-      showTitleScreen();
+      var savedCup = cupManager.loadSavedCup();
+      showTitleScreen(savedCup);
 
       // Wait for user input on title
-      if (!waitForTitleInput()) {
+      var titleChoice = waitForTitleInput(savedCup !== null);
+      if (titleChoice === 'quit') {
         debugLog.info("User quit from title screen");
         keepPlaying = false;
         break;
       }
 
+      if (titleChoice === 'continue' && savedCup) {
+        debugLog.info("Continuing saved cup: " + savedCup.definition.id);
+        continueSavedCup(savedCup, cupManager, highScoreManager, profile, unlocks);
+        continue;  // Back to splash screen
+      }
+
+      if (titleChoice === 'career') {
+        debugLog.info("Showing career screen");
+        showCareerScreen(profile);
+        continue;  // Back to splash screen
+      }
+
+      if (titleChoice === 'controls') {
+        debugLog.info("Showing controls menu");
+        showControlsMenu(userNumber);
+        continue;  // Back to splash screen
+      }
+
+      if (titleChoice === 'multiplayer') {
+        debugLog.info("Showing multiplayer lobby");
+        var setup = showMultiplayerLobby(highScoreManager);
+        if (setup) {
+          runMultiplayerRace(setup, highScoreManager, profile, unlocks);
+        }
+        continue;  // Back to splash screen
+      }
+
+      if (titleChoice === 'watch') {
+        debugLog.info("Showing live races");
+        showWatchRaces();
+        continue;  // Back to splash screen
+      }
+
+      if (titleChoice === 'replays') {
+        debugLog.info("Showing replays");
+        showReplayMenu(userNumber);
+        continue;  // Back to splash screen
+      }
+
       // Show track selector
       debugLog.info("Showing track selector");
       var trackSelection = showTrackSelector(highScoreManager);
@@ -361,6 +497,12 @@ function main(): void {
 
       debugLog.info("Selected track: " + trackSelection.track.name);
 
+      // Daily Challenge fixes the car, so skip the car selector
+      if (trackSelection.dailyChallenge) {
+        runDailyChallenge(trackSelection.track, trackSelection.dailyChallenge, highScoreManager, profile, unlocks);
+        continue;
+      }
+
       // Show car selector - create a SceneComposer for the UI
       debugLog.info("Showing car selector");
       var carComposer = new SceneComposer(80, 24);
@@ -375,19 +517,20 @@ function main(): void {
       debugLog.info("Selected car: " + carSelection.carId + " color: " + carSelection.colorId);
 
       // Check if this is a cup (circuit) race
-      if (trackSelection.isCircuitMode && trackSelection.circuitTracks) {
+      if (trackSelection.isCircuitMode && trackSelection.cup) {
         // Cup mode - run multiple races
         runCupMode(
-          trackSelection.circuitTracks,
+          trackSelection.cup,
           cupManager,
           highScoreManager,
-          trackSelection.circuitId || 'custom_cup',
-          trackSelection.circuitName || 'Circuit Cup',
-          carSelection
+          profile,
+          unlocks,
+          carSelection,
+          trackSelection.raceClass
         );
       } else {
         // Single race mode
-        runSingleRace(trackSelection.track, highScoreManager, carSelection);
+        runSingleRace(trackSelection.track, highScoreManager, profile, unlocks, carSelection, trackSelection.raceClass);
       }
       
       // Loop continues - back to splash screen
@@ -415,6 +558,7 @@ function main(): void {
     console.inkey(K_NONE);
   } finally {
     // Always restore terminal state and close log
+    closeBroadcastChannel();
     console.attributes = LIGHTGRAY;
     scene3d.dispose();
     // debugLog.separator("LOG END");
@@ -425,10 +569,12 @@ function main(): void {
 /**
  * Run a single race (non-cup mode).
  */
-function runSingleRace(track: TrackDefinition, highScoreManager: HighScoreManager, carSelection?: CarSelection): void {
+function runSingleRace(track: TrackDefinition, highScoreManager: HighScoreManager, profile: PlayerProfile, unlocks: CarUnlocks, carSelection?: CarSelection, raceClass?: RaceClass): void {
   // Create and initialize game with selected track
   debugLog.separator("GAME INIT");
   var game = new Game(undefined, highScoreManager);
+  startRaceBroadcast(game);
+  game.setRaceClass(raceClass || getRaceClass(DEFAULT_RACE_CLASS_ID));
   game.initWithTrack(track, undefined, carSelection ? { carId: carSelection.carId, colorId: carSelection.colorId } : undefined);
 
   // Run game loop
@@ -439,45 +585,126 @@ function runSingleRace(track: TrackDefinition, highScoreManager: HighScoreManage
   // Shutdown game instance
   debugLog.separator("GAME END");
   debugLog.info("Game loop ended");
+  var newUnlocks = recordCareerRace(game, profile, unlocks);
   game.shutdown();
+  showUnlockToasts(newUnlocks);
 
   // Show race results briefly
   showRaceEndScreen();
 }
 
+/**
+ * Run today's Daily Challenge.
+ */
+function runDailyChallenge(track: TrackDefinition, challenge: DailyChallenge, highScoreManager: HighScoreManager, profile: PlayerProfile, unlocks: CarUnlocks): void {
+  debugLog.separator("DAILY CHALLENGE " + challenge.dateKey);
+  // Always the default tick rate: every BBS on a shared board must run the same race
+  var game = new Game(createGameConfig(DEFAULT_CONFIG.tickRate), highScoreManager);
+  startRaceBroadcast(game);
+  game.initDailyChallenge(track, challenge);
+
+  debugLog.separator("GAME LOOP");
+  game.run();
+
+  debugLog.separator("GAME END");
+  var newUnlocks = recordCareerRace(game, profile, unlocks);
+  game.shutdown();
+  showUnlockToasts(newUnlocks);
+
+  showRaceEndScreen();
+}
+
+/**
+ * Run a multiplayer race started from the lobby.
+ */
+function runMultiplayerRace(setup: MultiplayerRaceSetup, highScoreManager: HighScoreManager, profile: PlayerProfile, unlocks: CarUnlocks): void {
+  debugLog.separator("MULTIPLAYER INIT");
+  var game = new Game(undefined, highScoreManager);
+  startRaceBroadcast(game);
+  game.initMultiplayer(setup.track, { carId: setup.carSelection.carId, colorId: setup.carSelection.colorId }, setup.session);
+
+  debugLog.separator("GAME LOOP");
+  game.run();
+
+  debugLog.separator("GAME END");
+  var newUnlocks = recordCareerRace(game, profile, unlocks);
+  game.shutdown();
+  showUnlockToasts(newUnlocks);
+
+  showRaceEndScreen();
+}
+
 /**
  * Run a cup (circuit) with multiple races.
  */
 function runCupMode(
-  tracks: TrackDefinition[],
+  cupDef: CupDefinition,
   cupManager: CupManager,
   highScoreManager: HighScoreManager,
-  circuitId: string,
-  circuitName: string,
-  carSelection?: CarSelection
+  profile: PlayerProfile,
+  unlocks: CarUnlocks,
+  carSelection?: CarSelection,
+  raceClass?: RaceClass
 ): void {
+  var tracks = getCupTracks(cupDef);
   debugLog.separator("CUP MODE START");
-  debugLog.info("Starting cup with " + tracks.length + " tracks: " + circuitId);
+  debugLog.info("Starting cup with " + tracks.length + " tracks: " + cupDef.id);
   
-  // Generate AI racer names
-  var aiNames = ['MAX', 'LUNA', 'BLAZE', 'NOVA', 'TURBO', 'DASH', 'FLASH'];
-  
-  // Create cup definition using the actual circuit ID and name
-  var cupDef: CupDefinition = {
-    id: circuitId,
-    name: circuitName,
-    trackIds: [],
-    description: circuitName + ' circuit'
-  };
-  for (var t = 0; t < tracks.length; t++) {
-    cupDef.trackIds.push(tracks[t].id);
-  }
+  // The roster races every cup; one of them may be the player's rival
+  var rivalId = OUTRUN_CONFIG.cup.rival ?
+    RIVAL_ROSTER[globalRand.nextInt(0, RIVAL_ROSTER.length - 1)].id : undefined;
   
   // Start the cup
-  cupManager.startCup(cupDef, aiNames);
-  
-  // Show pre-race standings (Race 1 intro)
-  showCupStandings(cupManager, true);
+  cupManager.startCup(cupDef, RIVAL_ROSTER, carSelection ? { carId: carSelection.carId, colorId: carSelection.colorId } : undefined, rivalId,
+    raceClass ? raceClass.id : undefined);
+  runCupRaces(tracks, cupManager, highScoreManager, profile, unlocks);
+}
+
+/**
+ * Continue a cup saved by an earlier session.
+ */
+function continueSavedCup(
+  savedCup: CupState,
+  cupManager: CupManager,
+  highScoreManager: HighScoreManager,
+  profile: PlayerProfile,
+  unlocks: CarUnlocks
+): void {
+  debugLog.separator("CUP MODE RESUME");
+
+  var tracks = getCupTracks(savedCup.definition);
+  if (tracks.length < savedCup.definition.trackIds.length) {
+    // A custom track was removed since the cup was saved
+    logWarning("Saved cup " + savedCup.definition.id + " has unknown tracks, discarding it");
+    cupManager.clear();
+    return;
+  }
+
+  cupManager.resumeCup(savedCup);
+  runCupRaces(tracks, cupManager, highScoreManager, profile, unlocks);
+}
+
+/**
+ * Race the rest of the current cup, then award it. Quitting a race leaves
+ * the cup saved for Continue Cup.
+ */
+function runCupRaces(
+  tracks: TrackDefinition[],
+  cupManager: CupManager,
+  highScoreManager: HighScoreManager,
+  profile: PlayerProfile,
+  unlocks: CarUnlocks
+): void {
+  var state = cupManager.getState();
+  if (!state) return;
+  var cupDef = state.definition;
+  var car = state.car;
+  var raceClass = getRaceClass(state.raceClassId);
+
+  // Show pre-race standings (next race intro)
+  if (!cupManager.isCupComplete()) {
+    showCupStandings(cupManager, true);
+  }
   
   // Race each track in sequence
   while (!cupManager.isCupComplete()) {
@@ -495,23 +722,33 @@ function runCupMode(
     
     // Create and run game for this race
     var game = new Game(undefined, highScoreManager);
-    game.initWithTrack(track, undefined, carSelection ? { carId: carSelection.carId, colorId: carSelection.colorId } : undefined);
+    startRaceBroadcast(game);
+    game.setRival(state.rivalId || null);
+    game.setRaceClass(raceClass);
+    game.initWithTrack(track, undefined, car ? { carId: car.carId, colorId: car.colorId } : undefined);
     game.run();
     
     // Get race results before shutdown
     var raceResults = game.getFinalRaceResults();
+    var newUnlocks = recordCareerRace(game, profile, unlocks);
     game.shutdown();
+    showUnlockToasts(newUnlocks);
     
-    // Record results in cup manager
-    if (raceResults) {
-      cupManager.recordRaceResult(
-        track.id,
-        track.name,
-        raceResults.positions,
-        raceResults.playerTime,
-        raceResults.playerBestLap
-      );
+    if (!raceResults) {
+      // Player quit the race - the cup stays saved for Continue Cup
+      debugLog.info("Cup race abandoned, cup saved at race " + cupManager.getCurrentRaceNumber());
+      debugLog.separator("CUP MODE END");
+      return;
     }
+
+    // Record results in cup manager
+    cupManager.recordRaceResult(
+      track.id,
+      track.name,
+      raceResults.positions,
+      raceResults.playerTime,
+      raceResults.playerBestLap
+    );
     
     // Show standings after each race
     if (!cupManager.isCupComplete()) {
@@ -522,13 +759,19 @@ function runCupMode(
   // Cup complete - show final standings then winner's circle
   showCupStandings(cupManager, false);  // Final standings
   showWinnersCircle(cupManager);
+  if (cupManager.isCupComplete()) {
+    profile.recordCup(getCareerCupId(cupDef), cupManager.getPlayerCupPosition());
+    showUnlockToasts(unlocks.check(profile.getStats(), null));
+  }
   
-  // Handle cup high score (circuit time)
+  // Handle cup high score (circuit time, kept per class)
   var cupState = cupManager.getState();
+  var cupScoreId = getRaceClassScoreId(cupDef.id, raceClass);
+  var cupScoreName = getRaceClassScoreName(getCupScoreName(cupDef), raceClass);
   if (cupState && highScoreManager) {
     var position = highScoreManager.checkQualification(
       HighScoreType.CIRCUIT_TIME,
-      cupDef.id,
+      cupScoreId,
       cupState.totalTime
     );
     
@@ -544,19 +787,19 @@ function runCupMode(
       
       highScoreManager.submitScore(
         HighScoreType.CIRCUIT_TIME,
-        cupDef.id,
+        cupScoreId,
         playerName,
         cupState.totalTime,
         undefined,
-        cupDef.name
+        cupScoreName
       );
       
       // Show circuit high scores with player highlighted
       showHighScoreList(
         HighScoreType.CIRCUIT_TIME,
-        cupDef.id,
+        cupScoreId,
         "=== CIRCUIT HIGH SCORES ===",
-        cupDef.name,
+        cupScoreName,
         highScoreManager,
         position
       );
@@ -569,6 +812,17 @@ function runCupMode(
   debugLog.separator("CUP MODE END");
 }
 
+/**
+ * Add a finished (or abandoned) race to the player's career, returning
+ * anything it unlocked.
+ */
+function recordCareerRace(game: Game, profile: PlayerProfile, unlocks: CarUnlocks): UnlockRule[] {
+  var result = game.getCareerResult();
+  if (!result) return [];
+  profile.recordRace(result);
+  return unlocks.check(profile.getStats(), result);
+}
+
 /**
  * Find a track definition from a list by ID.
  */
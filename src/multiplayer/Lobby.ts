@@ -0,0 +1,204 @@
+/**
+ * Lobby - Host, find and join multiplayer races.
+ *
+ * One race is open at a time. The host owns the `lobby` record; each
+ * joining node writes its own `join.<raceId>.<node>` record and the host
+ * copies fresh joins into the lobby's player list. Starting the race
+ * stamps a wall-clock start time that every node counts down to, so all
+ * nodes must share a clock (nodes of one BBS always do).
+ *
+ * Records aren't locked, so two nodes can open a race at nearly the
+ * same moment. The host re-reads the lobby before writing it; when two
+ * open races collide, the one opened first keeps the lobby and the
+ * other host stands down.
+ */
+
+/** Records not refreshed for this long (ms) belong to a node that left */
+var LOBBY_STALE_MS = 15000;
+
+/** Delay between the host starting the race and the green light (ms) */
+var LOBBY_START_DELAY_MS = 5000;
+
+/** Grid size for multiplayer races */
+var LOBBY_MAX_PLAYERS = 8;
+
+interface LobbyPlayer {
+  node: number;
+  name: string;
+  carId: string;
+  colorId: string;
+}
+
+interface LobbyRace {
+  raceId: string;
+  hostNode: number;
+  trackId: string;
+  seed: number;
+  state: 'open' | 'started' | 'closed';
+  /** Wall-clock ms the race goes green (0 until started) */
+  startAt: number;
+  /** Grid order, host first */
+  players: LobbyPlayer[];
+  /** Wall-clock ms of the host's last refresh */
+  updated: number;
+}
+
+interface LobbyJoinRecord extends LobbyPlayer {
+  updated: number;
+}
+
+class Lobby {
+  private channel: IRaceChannel;
+  private node: number;
+  private name: string;
+
+  constructor(channel: IRaceChannel, node: number, name: string) {
+    this.channel = channel;
+    this.node = node;
+    this.name = name;
+  }
+
+  /**
+   * The race currently taking players, if its host is still around.
+   */
+  getOpenRace(): LobbyRace | null {
+    var race = this.channel.read('lobby') as LobbyRace | null;
+    if (!race || race.state !== 'open') return null;
+    if (Date.now() - race.updated > LOBBY_STALE_MS) return null;
+    if (!getTrackDefinition(race.trackId)) return null;
+    return race;
+  }
+
+  /**
+   * Open a new race with this node as host. Returns null if another node
+   * opened one first (e.g. while this host was picking a track).
+   */
+  host(trackId: string, carId: string, colorId: string): LobbyRace | null {
+    if (this.getOpenRace()) {
+      logInfo('Lobby: another race is already open, not hosting');
+      return null;
+    }
+    var now = Date.now();
+    var race: LobbyRace = {
+      raceId: this.node + '-' + now,
+      hostNode: this.node,
+      trackId: trackId,
+      seed: generateRaceSeed(),
+      state: 'open',
+      startAt: 0,
+      players: [{ node: this.node, name: this.name, carId: carId, colorId: colorId }],
+      updated: now
+    };
+    this.channel.write('lobby', race);
+    logInfo('Lobby: hosting race ' + race.raceId + ' on ' + trackId);
+    return race;
+  }
+
+  /**
+   * Host side: take in fresh joins, drop players who left, and keep the
+   * lobby record alive. Call about once a second while waiting. Returns
+   * null if another node's race, opened earlier, holds the lobby.
+   */
+  refreshHost(race: LobbyRace): LobbyRace | null {
+    var now = Date.now();
+    var current = this.channel.read('lobby') as LobbyRace | null;
+    if (current && current.raceId !== race.raceId && current.state === 'open' &&
+        now - current.updated <= LOBBY_STALE_MS && isEarlierLobbyRace(current, race)) {
+      logInfo('Lobby: race ' + current.raceId + ' was opened first, closing ' + race.raceId);
+      return null;
+    }
+
+    var joins = this.channel.readAll('join.' + race.raceId);
+
+    var players: LobbyPlayer[] = [race.players[0]];
+    // Keep existing grid order for players still present
+    for (var i = 1; i < race.players.length; i++) {
+      var existing = joins[race.players[i].node] as LobbyJoinRecord | undefined;
+      if (existing && now - existing.updated <= LOBBY_STALE_MS) {
+        players.push(race.players[i]);
+      }
+    }
+    // Then newcomers, in node order so every host sorts them the same
+    var nodes = Object.keys(joins).sort(function(a, b) { return parseInt(a, 10) - parseInt(b, 10); });
+    for (var j = 0; j < nodes.length && players.length < LOBBY_MAX_PLAYERS; j++) {
+      var join = joins[nodes[j]] as LobbyJoinRecord;
+      if (now - join.updated > LOBBY_STALE_MS) continue;
+      if (findLobbyPlayer(players, join.node)) continue;
+      players.push({ node: join.node, name: join.name, carId: join.carId, colorId: join.colorId });
+    }
+
+    race.players = players;
+    race.updated = now;
+    this.channel.write('lobby', race);
+    return race;
+  }
+
+  /**
+   * Host side: lock the grid and start the countdown.
+   */
+  start(race: LobbyRace): LobbyRace {
+    race.state = 'started';
+    race.startAt = Date.now() + LOBBY_START_DELAY_MS;
+    race.updated = Date.now();
+    this.channel.write('lobby', race);
+    logInfo('Lobby: race ' + race.raceId + ' starting with ' + race.players.length + ' players');
+    return race;
+  }
+
+  /**
+   * Host side: cancel the race.
+   */
+  close(race: LobbyRace): void {
+    race.state = 'closed';
+    race.updated = Date.now();
+    this.channel.write('lobby', race);
+  }
+
+  /**
+   * Joiner side: ask to join (or stay joined to) a race, and return the
+   * host's current lobby record for it. Null means the race is gone.
+   */
+  refreshJoin(raceId: string, carId: string, colorId: string): LobbyRace | null {
+    var record: LobbyJoinRecord = {
+      node: this.node,
+      name: this.name,
+      carId: carId,
+      colorId: colorId,
+      updated: Date.now()
+    };
+    this.channel.write('join.' + raceId + '.' + this.node, record);
+
+    var race = this.channel.read('lobby') as LobbyRace | null;
+    if (!race || race.raceId !== raceId || race.state === 'closed') return null;
+    if (race.state === 'open' && Date.now() - race.updated > LOBBY_STALE_MS) return null;
+    return race;
+  }
+
+  /**
+   * Joiner side: withdraw from a race.
+   */
+  leave(raceId: string): void {
+    this.channel.remove('join.' + raceId + '.' + this.node);
+  }
+}
+
+/**
+ * Whether race a was opened before race b. Race ids are <node>-<ms
+ * opened>; the lower node wins a tie, so every node agrees.
+ */
+function isEarlierLobbyRace(a: LobbyRace, b: LobbyRace): boolean {
+  var openedA = parseInt(a.raceId.substring(a.raceId.indexOf('-') + 1), 10);
+  var openedB = parseInt(b.raceId.substring(b.raceId.indexOf('-') + 1), 10);
+  if (openedA !== openedB) return openedA < openedB;
+  return a.hostNode < b.hostNode;
+}
+
+/**
+ * Find a player by node in a lobby player list.
+ */
+function findLobbyPlayer(players: LobbyPlayer[], node: number): LobbyPlayer | null {
+  for (var i = 0; i < players.length; i++) {
+    if (players[i].node === node) return players[i];
+  }
+  return null;
+}
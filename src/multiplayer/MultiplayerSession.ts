@@ -0,0 +1,328 @@
+/**
+ * MultiplayerSession - Keeps one node's race in step with the others.
+ *
+ * Each node is authoritative for its own racer only:
+ * - Position: the node publishes its player's state several times a
+ *   second; every other node drives that car with a RemoteDriver.
+ * - Items: uses are published as events and replayed on every node, so
+ *   shells and bananas exist everywhere. Whether something hits a racer
+ *   is decided only on that racer's node (remote cars are never hit
+ *   locally), and the hit is published so other nodes drop the shell.
+ * - Finish order: each node publishes its finish time on the shared race
+ *   clock (every node goes green at the lobby's startAt), and standings
+ *   sort those times the same way everywhere.
+ */
+
+/** Wall-clock ms between state publishes (whatever the tick rate) */
+var MP_PUBLISH_INTERVAL_MS = 100;
+
+/** A racer whose state hasn't changed for this long (ms) has disconnected */
+var MP_STALE_MS = 10000;
+
+/** Recent events kept in each published state */
+var MP_MAX_EVENTS = 20;
+
+/**
+ * Item activity published by the node it happened on.
+ * - use: the node's player used `item` (fired backward if `backward`)
+ * - hit: the node's player was hit by `item` from node `source`
+ */
+interface RaceEventRecord {
+  seq: number;
+  type: 'use' | 'hit';
+  item: ItemType;
+  backward?: boolean;
+  source?: number;
+}
+
+/**
+ * State record each node publishes as state.<raceId>.<node>.
+ */
+interface RaceStateRecord extends RemoteVehicleState {
+  node: number;
+  /** Wall-clock ms of this publish */
+  updated: number;
+  /** Race clock at the finish line, -1 while racing */
+  finishTime: number;
+  events: RaceEventRecord[];
+}
+
+interface MultiplayerStanding {
+  node: number;
+  name: string;
+  isLocal: boolean;
+  finishTime: number;
+  lap: number;
+  connected: boolean;
+}
+
+interface RemoteRacer {
+  player: LobbyPlayer;
+  vehicle: Vehicle;
+  driver: RemoteDriver;
+  record: RaceStateRecord | null;
+  lastEventSeq: number;
+}
+
+class MultiplayerSession {
+  private channel: IRaceChannel;
+  private race: LobbyRace;
+  private localNode: number;
+  private localVehicle: IVehicle | null;
+  private remotes: RemoteRacer[];
+  private events: RaceEventRecord[];
+  private eventSeq: number;
+  private lastPublish: number;
+  private finishTime: number;
+
+  constructor(channel: IRaceChannel, race: LobbyRace, localNode: number) {
+    this.channel = channel;
+    this.race = race;
+    this.localNode = localNode;
+    this.localVehicle = null;
+    this.remotes = [];
+    this.events = [];
+    this.eventSeq = 0;
+    this.lastPublish = 0;
+    this.finishTime = -1;
+  }
+
+  getRace(): LobbyRace {
+    return this.race;
+  }
+
+  /**
+   * Create cars for the other players, and return every car (local one
+   * included) in lobby grid order so all nodes line up identically.
+   */
+  buildGrid(localVehicle: IVehicle): IVehicle[] {
+    this.localVehicle = localVehicle;
+    this.remotes = [];
+
+    var grid: IVehicle[] = [];
+    for (var i = 0; i < this.race.players.length; i++) {
+      var player = this.race.players[i];
+      if (player.node === this.localNode) {
+        grid.push(localVehicle);
+        continue;
+      }
+
+      var vehicle = new Vehicle();
+      var driver = new RemoteDriver(player.node, player.name);
+      vehicle.driver = driver;
+      vehicle.isNPC = true;       // Drawn by the NPC pass; never finishes the local race
+      vehicle.isRacer = true;
+      vehicle.isRemote = true;
+      vehicle.npcType = 'sportscar';
+      vehicle.npcColorIndex = i % NPC_VEHICLE_COLORS.length;
+      vehicle.setCar(player.carId);
+      vehicle.carColorId = player.colorId;
+      var color = getCarColor(player.colorId);
+      vehicle.color = color ? color.body : WHITE;
+
+      this.remotes.push({ player: player, vehicle: vehicle, driver: driver, record: null, lastEventSeq: 0 });
+      grid.push(vehicle);
+    }
+    return grid;
+  }
+
+  /**
+   * Seconds until the race goes green (0 once started).
+   */
+  getCountdown(): number {
+    return Math.max(0, (this.race.startAt - Date.now()) / 1000);
+  }
+
+  /**
+   * Per-tick sync: place remote cars, and several times a second publish
+   * our state and take in everyone else's.
+   */
+  update(state: GameState, itemSystem: ItemSystem, dt: number): void {
+    for (var i = 0; i < this.remotes.length; i++) {
+      this.remotes[i].driver.place(this.remotes[i].vehicle, state.road, state.time, dt);
+    }
+
+    var now = Date.now();
+    if (now - this.lastPublish < MP_PUBLISH_INTERVAL_MS) return;
+    this.lastPublish = now;
+
+    this.publish(state);
+    this.poll(state, itemSystem);
+  }
+
+  /**
+   * Publish the local player's state and recent events.
+   */
+  publish(state: GameState): void {
+    var v = state.playerVehicle;
+    var record: RaceStateRecord = {
+      node: this.localNode,
+      updated: Date.now(),
+      time: state.time,
+      trackZ: v.trackZ,
+      playerX: v.playerX,
+      speed: v.speed,
+      lap: v.lap,
+      flash: v.flashTimer > 0,
+      finishTime: this.finishTime,
+      events: this.events
+    };
+    this.channel.write('state.' + this.race.raceId + '.' + this.localNode, record);
+  }
+
+  /**
+   * Read every other racer's state and replay their new events.
+   */
+  poll(state: GameState, itemSystem: ItemSystem | null): void {
+    var records = this.channel.readAll('state.' + this.race.raceId);
+    for (var i = 0; i < this.remotes.length; i++) {
+      var remote = this.remotes[i];
+      var record = records[remote.player.node] as RaceStateRecord | undefined;
+      if (!record) continue;
+
+      remote.record = record;
+      remote.driver.receive(record);
+
+      var events = record.events || [];
+      for (var e = 0; e < events.length; e++) {
+        var event = events[e];
+        if (event.seq <= remote.lastEventSeq) continue;
+        remote.lastEventSeq = event.seq;
+        if (itemSystem) this.applyRemoteEvent(remote, event, state, itemSystem);
+      }
+    }
+  }
+
+  /**
+   * Note an item event from the local game (see ItemSystem callbacks).
+   * Only the local player's uses and the hits it takes are published.
+   */
+  recordItemEvent(event: ItemEvent): void {
+    if (!this.localVehicle || event.vehicleId !== this.localVehicle.id) return;
+
+    if (event.type === 'use') {
+      this.pushEvent({ seq: 0, type: 'use', item: event.itemType, backward: event.backward === true });
+    } else if (event.type === 'hit') {
+      var source = this.nodeForVehicle(event.sourceId);
+      if (source >= 0) {
+        this.pushEvent({ seq: 0, type: 'hit', item: event.itemType, source: source });
+      }
+    }
+  }
+
+  /**
+   * Record the local player's finish on the race clock and tell everyone.
+   */
+  markFinished(state: GameState): void {
+    if (this.finishTime >= 0) return;
+    this.finishTime = state.time;
+    this.publish(state);
+  }
+
+  /**
+   * Standings as every node sees them: finishers by time, then racers
+   * still on track by progress, then disconnected racers.
+   */
+  getStandings(state: GameState): MultiplayerStanding[] {
+    var now = Date.now();
+    var standings: MultiplayerStanding[] = [];
+    var progress: { [node: number]: number } = {};
+
+    for (var i = 0; i < this.race.players.length; i++) {
+      var player = this.race.players[i];
+      var isLocal = player.node === this.localNode;
+      var remote = isLocal ? null : this.findRemote(player.node);
+      var record = remote ? remote.record : null;
+
+      var finishTime = isLocal ? this.finishTime : (record ? record.finishTime : -1);
+      var lap = isLocal ? state.playerVehicle.lap : (record ? record.lap : 1);
+      var trackZ = isLocal ? state.playerVehicle.trackZ : (record ? record.trackZ : 0);
+      var connected = isLocal || (record !== null && (finishTime >= 0 || now - record.updated <= MP_STALE_MS));
+
+      progress[player.node] = lap * state.road.totalLength + trackZ;
+      standings.push({
+        node: player.node,
+        name: player.name,
+        isLocal: isLocal,
+        finishTime: finishTime,
+        lap: lap,
+        connected: connected
+      });
+    }
+
+    standings.sort(function(a, b) {
+      if (a.connected !== b.connected) return a.connected ? -1 : 1;
+      var aDone = a.finishTime >= 0;
+      var bDone = b.finishTime >= 0;
+      if (aDone !== bDone) return aDone ? -1 : 1;
+      if (aDone && a.finishTime !== b.finishTime) return a.finishTime - b.finishTime;
+      if (!aDone && progress[a.node] !== progress[b.node]) return progress[b.node] - progress[a.node];
+      return a.node - b.node;
+    });
+    return standings;
+  }
+
+  /**
+   * True once every racer has finished or dropped out.
+   */
+  isEveryoneDone(state: GameState): boolean {
+    var standings = this.getStandings(state);
+    for (var i = 0; i < standings.length; i++) {
+      if (standings[i].connected && standings[i].finishTime < 0) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Remove this node's records once it is done with the race. Its state
+   * stays while others are still racing so they can see its finish time.
+   */
+  leave(state: GameState | null): void {
+    if (!state || this.isEveryoneDone(state)) {
+      this.channel.remove('state.' + this.race.raceId + '.' + this.localNode);
+    }
+    if (this.race.hostNode !== this.localNode) {
+      this.channel.remove('join.' + this.race.raceId + '.' + this.localNode);
+    }
+  }
+
+  private applyRemoteEvent(remote: RemoteRacer, event: RaceEventRecord, state: GameState, itemSystem: ItemSystem): void {
+    if (event.type === 'use') {
+      itemSystem.replayItemUse(remote.vehicle, event.item, state.vehicles, event.backward === true);
+    } else if (event.type === 'hit' && event.source !== undefined) {
+      var shooter = event.source === this.localNode ? this.localVehicle : this.vehicleForNode(event.source);
+      if (shooter) {
+        itemSystem.removeProjectileNear(shooter.id, remote.vehicle.trackZ);
+      }
+    }
+  }
+
+  private pushEvent(event: RaceEventRecord): void {
+    event.seq = ++this.eventSeq;
+    this.events.push(event);
+    if (this.events.length > MP_MAX_EVENTS) {
+      this.events.shift();
+    }
+  }
+
+  private findRemote(node: number): RemoteRacer | null {
+    for (var i = 0; i < this.remotes.length; i++) {
+      if (this.remotes[i].player.node === node) return this.remotes[i];
+    }
+    return null;
+  }
+
+  private vehicleForNode(node: number): IVehicle | null {
+    var remote = this.findRemote(node);
+    return remote ? remote.vehicle : null;
+  }
+
+  private nodeForVehicle(vehicleId: number | undefined): number {
+    if (vehicleId === undefined) return -1;
+    if (this.localVehicle && vehicleId === this.localVehicle.id) return this.localNode;
+    for (var i = 0; i < this.remotes.length; i++) {
+      if (this.remotes[i].vehicle.id === vehicleId) return this.remotes[i].player.node;
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * RaceBroadcast - Live snapshots of a node's race for spectators.
+ *
+ * A racing node publishes broadcast.<node> a few times a second: the
+ * cars, item boxes and projectiles, and the countdown. Spectators list
+ * the fresh records and replay one through the race renderer (see
+ * Spectator). Records go through the same IRaceChannel as multiplayer,
+ * so any channel (json-service, shared files, or a local stub) works.
+ * One channel is opened per session for every race and the race list
+ * (see getBroadcastChannel) and closed when the player leaves.
+ */
+
+/** Wall-clock ms between broadcasts */
+var RACE_BROADCAST_INTERVAL_MS = 250;
+
+/** A broadcast not refreshed for this long (ms) belongs to a race that ended */
+var RACE_BROADCAST_STALE_MS = 10000;
+
+/**
+ * A publish slower than this (ms) means the service is struggling: the
+ * interval doubles, up to the maximum, until publishes are quick again.
+ * Keeps a slow json-service from stalling the race loop.
+ */
+var RACE_BROADCAST_SLOW_MS = 50;
+var RACE_BROADCAST_MAX_INTERVAL_MS = 4000;
+
+/** Channel shared by this session's broadcasts and race list (see getBroadcastChannel) */
+var _broadcastChannel: IRaceChannel | null = null;
+
+/**
+ * One car in a broadcast.
+ */
+interface BroadcastVehicle {
+  id: number;
+  /** Driver's name ('' for commuter traffic) */
+  name: string;
+  trackZ: number;
+  playerX: number;
+  speed: number;
+  lap: number;
+  position: number;
+  carId: string;
+  colorId: string;
+  color: number;
+  npcType: string;
+  npcColorIndex: number;
+  /** Counts in the standings (the player and CPU or remote racers) */
+  racer: boolean;
+  /** The broadcasting node's own player */
+  player: boolean;
+  /** True while the car is flashing from a hit or crash */
+  flash: boolean;
+  /** Held item (ItemType.NONE if empty) */
+  item: ItemType;
+}
+
+/**
+ * A shell or banana on the track (speed 0 = banana).
+ */
+interface BroadcastProjectile {
+  shellType: ShellType;
+  trackZ: number;
+  playerX: number;
+  speed: number;
+}
+
+/**
+ * Record a racing node publishes as broadcast.<node>.
+ */
+interface RaceBroadcastRecord {
+  node: number;
+  /** Alias of the player racing */
+  name: string;
+  trackId: string;
+  /** Laps raced (cups may change the track's own count) */
+  laps: number;
+  raceClassId: string;
+  raceMode: RaceMode;
+  /** Wall-clock ms of this publish */
+  updated: number;
+  /** Race clock (seconds) */
+  time: number;
+  /** Seconds until the green light (0 once started) */
+  countdown: number;
+  paused: boolean;
+  finished: boolean;
+  vehicles: BroadcastVehicle[];
+  itemBoxes: { x: number; z: number; available: boolean }[];
+  projectiles: BroadcastProjectile[];
+}
+
+class RaceBroadcaster {
+  private channel: IRaceChannel;
+  private node: number;
+  private name: string;
+  private trackDef: TrackDefinition | null;
+  private raceClass: RaceClass | null;
+  private lastPublish: number;
+  /** Current ms between publishes (grows while the service is slow) */
+  private interval: number;
+
+  constructor(channel: IRaceChannel, node: number, name: string) {
+    this.channel = channel;
+    this.node = node;
+    this.name = name;
+    this.trackDef = null;
+    this.raceClass = null;
+    this.lastPublish = 0;
+    this.interval = RACE_BROADCAST_INTERVAL_MS;
+  }
+
+  /**
+   * Note the race being run (called again on a restart).
+   */
+  start(trackDef: TrackDefinition, raceClass: RaceClass): void {
+    this.trackDef = trackDef;
+    this.raceClass = raceClass;
+    this.lastPublish = 0;
+    this.interval = RACE_BROADCAST_INTERVAL_MS;
+  }
+
+  /**
+   * Per-frame: publish a snapshot if one is due.
+   */
+  update(state: GameState, itemSystem: ItemSystem, paused: boolean): void {
+    var now = Date.now();
+    if (now - this.lastPublish < this.interval) return;
+    var ok = this.publish(state, itemSystem, paused);
+    this.lastPublish = Date.now();
+
+    if (!ok || this.lastPublish - now > RACE_BROADCAST_SLOW_MS) {
+      this.interval = Math.min(this.interval * 2, RACE_BROADCAST_MAX_INTERVAL_MS);
+    } else {
+      this.interval = RACE_BROADCAST_INTERVAL_MS;
+    }
+  }
+
+  /**
+   * Publish a snapshot of the race now. Returns false if the write failed.
+   */
+  publish(state: GameState, itemSystem: ItemSystem, paused: boolean): boolean {
+    if (!this.trackDef || !this.raceClass) return true;
+
+    var vehicles: BroadcastVehicle[] = [];
+    for (var i = 0; i < state.vehicles.length; i++) {
+      var v = state.vehicles[i];
+      var isPlayer = v === state.playerVehicle;
+      vehicles.push({
+        id: v.id,
+        name: isPlayer ? this.name : getBroadcastDriverName(v),
+        trackZ: v.trackZ,
+        playerX: v.playerX,
+        speed: v.speed,
+        lap: v.lap,
+        position: v.racePosition,
+        carId: v.carId,
+        colorId: v.carColorId,
+        color: v.color,
+        npcType: v.npcType,
+        npcColorIndex: v.npcColorIndex,
+        racer: isPlayer || v.isRacer,
+        player: isPlayer,
+        flash: v.flashTimer > 0,
+        item: v.heldItem ? v.heldItem.type : ItemType.NONE
+      });
+    }
+
+    var itemBoxes: { x: number; z: number; available: boolean }[] = [];
+    var boxes = itemSystem.getItemBoxes();
+    for (var b = 0; b < boxes.length; b++) {
+      itemBoxes.push({ x: boxes[b].x, z: boxes[b].z, available: boxes[b].isAvailable() });
+    }
+
+    var projectiles: BroadcastProjectile[] = [];
+    var active = itemSystem.getProjectiles();
+    for (var p = 0; p < active.length; p++) {
+      if (active[p].isDestroyed) continue;
+      projectiles.push({
+        shellType: active[p].shellType,
+        trackZ: active[p].trackZ,
+        playerX: active[p].playerX,
+        speed: active[p].speed
+      });
+    }
+
+    var record: RaceBroadcastRecord = {
+      node: this.node,
+      name: this.name,
+      trackId: this.trackDef.id,
+      laps: this.trackDef.laps,
+      raceClassId: this.raceClass.id,
+      raceMode: state.raceMode,
+      updated: Date.now(),
+      time: state.time,
+      countdown: state.raceStarted ? 0 : Math.max(0, state.countdown),
+      paused: paused,
+      finished: state.finished,
+      vehicles: vehicles,
+      itemBoxes: itemBoxes,
+      projectiles: projectiles
+    };
+    return this.channel.write('broadcast.' + this.node, record);
+  }
+
+  /**
+   * Take the broadcast down once the race is over.
+   */
+  stop(): void {
+    this.channel.remove('broadcast.' + this.node);
+    this.trackDef = null;
+  }
+}
+
+/**
+ * Name shown for a car: its CPU racer's or remote player's name.
+ */
+function getBroadcastDriverName(vehicle: IVehicle): string {
+  if (vehicle.driver instanceof RacerDriver || vehicle.driver instanceof RemoteDriver) {
+    return vehicle.driver.name;
+  }
+  return '';
+}
+
+/**
+ * The session's broadcast channel, opened on first use. Null if no
+ * channel is available.
+ */
+function getBroadcastChannel(node: number): IRaceChannel | null {
+  if (!_broadcastChannel) {
+    _broadcastChannel = createRaceChannel(node);
+  }
+  return _broadcastChannel;
+}
+
+/**
+ * Close the session's broadcast channel (when the player leaves the game).
+ */
+function closeBroadcastChannel(): void {
+  if (_broadcastChannel) {
+    _broadcastChannel.close();
+    _broadcastChannel = null;
+  }
+}
+
+/**
+ * Open a broadcaster for this node's races, or null if broadcasting is
+ * turned off or no channel is available.
+ */
+function createRaceBroadcaster(node: number, name: string): RaceBroadcaster | null {
+  if (!OUTRUN_CONFIG.multiplayer.enabled || !OUTRUN_CONFIG.multiplayer.broadcast) return null;
+  var channel = getBroadcastChannel(node);
+  return channel ? new RaceBroadcaster(channel, node, name) : null;
+}
+
+/**
+ * Races broadcasting right now, by node number. Stale records (a node
+ * that dropped without cleaning up) are left out.
+ */
+function readLiveBroadcasts(channel: IRaceChannel): RaceBroadcastRecord[] {
+  var now = Date.now();
+  var records = channel.readAll('broadcast');
+  var live: RaceBroadcastRecord[] = [];
+  for (var name in records) {
+    var record = records[name] as RaceBroadcastRecord;
+    if (record && record.vehicles && now - record.updated <= RACE_BROADCAST_STALE_MS) {
+      live.push(record);
+    }
+  }
+  live.sort(function(a, b) { return a.node - b.node; });
+  return live;
+}
+
+/**
+ * One node's broadcast, or null if it has ended or gone stale.
+ */
+function readRaceBroadcast(channel: IRaceChannel, node: number): RaceBroadcastRecord | null {
+  var record = channel.read('broadcast.' + node) as RaceBroadcastRecord | null;
+  if (!record || !record.vehicles || Date.now() - record.updated > RACE_BROADCAST_STALE_MS) return null;
+  return record;
+}
@@ -0,0 +1,183 @@
+/**
+ * RaceChannel - Shared JSON records between BBS nodes.
+ *
+ * Multiplayer state is a set of small records, each written by exactly
+ * one node (the lobby by its host, a racer's state by that racer's node),
+ * so nothing needs locking. Keys are dotted paths, e.g.
+ *   lobby
+ *   join.<raceId>.<node>
+ *   state.<raceId>.<node>
+ *
+ * Records live in the json-service configured for high scores, or in
+ * files under the multiplayer directory when high scores are file-based.
+ */
+
+interface IRaceChannel {
+  /** Read one record, or null if missing */
+  read(key: string): any;
+
+  /** Read every record directly under prefix, keyed by the last path part */
+  readAll(prefix: string): { [name: string]: any };
+
+  write(key: string, value: any): boolean;
+  remove(key: string): void;
+
+  /** Let go of the connection (the channel can't be used afterwards) */
+  close(): void;
+}
+
+/** json-service lock modes (json-client.js) */
+var RACE_CHANNEL_LOCK_READ = 1;
+var RACE_CHANNEL_LOCK_WRITE = 2;
+
+/**
+ * Records stored in the json-service under <service>.multiplayer.
+ */
+class JsonServiceChannel implements IRaceChannel {
+  private client: any;
+  private serviceName: string;
+
+  constructor(server: string, port: number, serviceName: string) {
+    this.client = new JSONClient(server, port);
+    this.serviceName = serviceName;
+  }
+
+  read(key: string): any {
+    try {
+      var value = this.client.read(this.serviceName, 'multiplayer.' + key, RACE_CHANNEL_LOCK_READ);
+      return value === undefined ? null : value;
+    } catch (e) {
+      logError('RaceChannel: read ' + key + ' failed: ' + e);
+      return null;
+    }
+  }
+
+  readAll(prefix: string): { [name: string]: any } {
+    var value = this.read(prefix);
+    return value && typeof value === 'object' ? value : {};
+  }
+
+  write(key: string, value: any): boolean {
+    try {
+      this.client.write(this.serviceName, 'multiplayer.' + key, value, RACE_CHANNEL_LOCK_WRITE);
+      return true;
+    } catch (e) {
+      logError('RaceChannel: write ' + key + ' failed: ' + e);
+      return false;
+    }
+  }
+
+  remove(key: string): void {
+    try {
+      this.client.remove(this.serviceName, 'multiplayer.' + key, RACE_CHANNEL_LOCK_WRITE);
+    } catch (e) {
+      logError('RaceChannel: remove ' + key + ' failed: ' + e);
+    }
+  }
+
+  close(): void {
+    try {
+      this.client.disconnect();
+    } catch (e) {
+      logError('RaceChannel: disconnect failed: ' + e);
+    }
+  }
+}
+
+/**
+ * Records stored as <directory>/<key>.json. Writes go through a temp
+ * file and a rename so readers never see a half-written record.
+ */
+class SharedFileChannel implements IRaceChannel {
+  private directory: string;
+  private node: number;
+
+  constructor(directory: string, node: number) {
+    this.directory = directory;
+    this.node = node;
+  }
+
+  read(key: string): any {
+    var path = this.pathFor(key);
+    if (!file_exists(path)) return null;
+    try {
+      var f = new File(path);
+      if (!f.open('r')) return null;
+      var content = f.read();
+      f.close();
+      return JSON.parse(content);
+    } catch (e) {
+      // Renamed or removed underneath us - treat as missing this time
+      return null;
+    }
+  }
+
+  readAll(prefix: string): { [name: string]: any } {
+    var result: { [name: string]: any } = {};
+    var files = directory(this.directory + '/' + prefix + '.*.json');
+    for (var i = 0; i < files.length; i++) {
+      var base = files[i].substring(files[i].lastIndexOf('/') + 1);
+      var name = base.substring(prefix.length + 1, base.length - 5);
+      if (name.indexOf('.') !== -1) continue;  // Deeper key, not a direct child
+      var value = this.read(prefix + '.' + name);
+      if (value !== null) result[name] = value;
+    }
+    return result;
+  }
+
+  write(key: string, value: any): boolean {
+    try {
+      if (!file_exists(this.directory)) {
+        mkdir(this.directory);
+      }
+      var path = this.pathFor(key);
+      var temp = path + '.' + this.node + '.tmp';
+      var f = new File(temp);
+      if (!f.open('w')) {
+        logError('RaceChannel: unable to write ' + temp);
+        return false;
+      }
+      f.write(JSON.stringify(value));
+      f.close();
+      if (!file_rename(temp, path)) {
+        // Some platforms won't rename over an existing file
+        file_remove(path);
+        return file_rename(temp, path);
+      }
+      return true;
+    } catch (e) {
+      logError('RaceChannel: write ' + key + ' failed: ' + e);
+      return false;
+    }
+  }
+
+  remove(key: string): void {
+    var path = this.pathFor(key);
+    if (file_exists(path)) file_remove(path);
+  }
+
+  close(): void {
+    // Nothing held open between calls
+  }
+
+  private pathFor(key: string): string {
+    return this.directory + '/' + key.replace(/[^a-zA-Z0-9_.-]/g, '_') + '.json';
+  }
+}
+
+/**
+ * Open the channel for this BBS: the high score json-service if one is
+ * configured, otherwise shared files. Returns null if unavailable.
+ */
+function createRaceChannel(node: number): IRaceChannel | null {
+  var hs = OUTRUN_CONFIG.highscores;
+  try {
+    if (hs.server !== 'file' && hs.server !== '') {
+      return new JsonServiceChannel(hs.server, hs.port, hs.serviceName);
+    }
+    return new SharedFileChannel(OUTRUN_CONFIG.multiplayer.directory, node);
+  } catch (e) {
+    logError('RaceChannel: unable to connect: ' + e);
+    return null;
+  }
+}
@@ -1,6 +1,9 @@
 /**
  * Collision - Collision detection and response.
- * Stub for Iteration 0.
+ *
+ * Road edges aren't resolved here: Vehicle.updatePhysics slows cars
+ * off-road, crashes them past OFFROAD_LIMIT and holds invincible cars
+ * on the road.
  */
 
 interface AABB {
@@ -40,40 +43,10 @@ class Collision {
     return lateralDist > track.width / 2;
   }
 
-  /**
-   * Resolve vehicle-to-boundary collision.
-   */
-  static resolveBoundary(vehicle: IVehicle, track: ITrack): void {
-    var centerX = track.getCenterlineX(vehicle.z);
-    var halfWidth = track.width / 2;
-    var lateralDist = vehicle.x - centerX;
-
-    if (Math.abs(lateralDist) > halfWidth) {
-      // Push back onto track
-      var dir = lateralDist > 0 ? 1 : -1;
-      vehicle.x = centerX + dir * halfWidth * 0.95;
-
-      // Slow down
-      vehicle.speed *= 0.8;
-    }
-  }
-
-  /**
-   * Detect and resolve all collisions.
-   * Stub - full implementation in later iteration.
-   */
-  static processCollisions(vehicles: IVehicle[], track: ITrack): void {
-    // Check boundary collisions
-    for (var i = 0; i < vehicles.length; i++) {
-      this.resolveBoundary(vehicles[i], track);
-    }
-  }
-
   /**
    * Process vehicle-to-vehicle collisions.
-   * Called separately from track boundary collisions.
    */
-  static processVehicleCollisions(vehicles: IVehicle[]): void {
+  static processVehicleCollisions(vehicles: IVehicle[], rand: Rand): void {
     // Check all pairs of vehicles
     for (var i = 0; i < vehicles.length; i++) {
       for (var j = i + 1; j < vehicles.length; j++) {
@@ -103,10 +76,10 @@ class Collision {
           // Handle invincibility
           if (aInvincible && !bInvincible) {
             // A plows through B - B takes full hit, A unaffected
-            this.applyCollisionDamage(b, a);
+            this.applyCollisionDamage(b, a, rand);
           } else if (bInvincible && !aInvincible) {
             // B plows through A - A takes full hit, B unaffected
-            this.applyCollisionDamage(a, b);
+            this.applyCollisionDamage(a, b, rand);
           } else if (!aInvincible && !bInvincible) {
             // Normal collision - both affected
             this.resolveVehicleCollision(a, b);
@@ -130,14 +103,16 @@ class Collision {
    * Apply collision damage to a vehicle hit by an invincible vehicle.
    * Same dramatic effect as hitting a shell or banana - knocked to road edge at 0 mph.
    */
-  static applyCollisionDamage(victim: IVehicle, _hitter: IVehicle): void {
+  static applyCollisionDamage(victim: IVehicle, _hitter: IVehicle, rand: Rand): void {
+    if (victim.isRemote) return;  // The victim's own node decides this hit
+
     // Full stop - dramatic impact like hitting a shell
     victim.speed = 0;
     
     // Knock to side of road (but stay ON the road, not off it)
     // playerX range: -1.0 to +1.0 is on-road, so knock to ±0.7 to ±0.9
     var knockDirection = victim.playerX >= 0 ? 1 : -1;  // Knock in direction already moving
-    victim.playerX = knockDirection * (0.7 + Math.random() * 0.2);  // 0.7 to 0.9
+    victim.playerX = knockDirection * (0.7 + rand.next() * 0.2);  // 0.7 to 0.9
     
     // Longer flash for dramatic visual feedback
     victim.flashTimer = 1.5;
@@ -147,21 +122,30 @@ class Collision {
 
   /**
    * Resolve collision between two vehicles.
+   * Weight decides who gets shoved: equal weights share the push evenly,
+   * a heavier car moves and slows less than a lighter one.
    */
   static resolveVehicleCollision(a: IVehicle, b: IVehicle): void {
     // Determine which vehicle was "hit" (the slower/rear one takes more damage)
     var aAhead = a.trackZ > b.trackZ;
     var faster = aAhead ? a : b;
     var slower = aAhead ? b : a;
+
+    // Share of the impact each car takes (1.0 each for equal weights)
+    var totalWeight = a.stats.weight + b.stats.weight;
+    var aShare = 2 * b.stats.weight / totalWeight;
+    var bShare = 2 * a.stats.weight / totalWeight;
+    var fasterShare = aAhead ? bShare : aShare;
+    var slowerShare = aAhead ? aShare : bShare;
     
     // Push vehicles apart laterally
     var pushForce = 0.15;
     if (a.playerX < b.playerX) {
-      a.playerX -= pushForce;
-      b.playerX += pushForce;
+      a.playerX -= pushForce * aShare;
+      b.playerX += pushForce * bShare;
     } else {
-      a.playerX += pushForce;
-      b.playerX -= pushForce;
+      a.playerX += pushForce * aShare;
+      b.playerX -= pushForce * bShare;
     }
     
     // Speed exchange - rear-ended vehicle gets pushed, rear-ender slows
@@ -170,18 +154,18 @@ class Collision {
     // If player hits NPC from behind, slow player and push NPC
     if (!faster.isNPC && slower.isNPC) {
       // Player hit NPC from behind
-      faster.speed = Math.max(0, faster.speed - speedTransfer * 1.5);
-      slower.speed = Math.min(VEHICLE_PHYSICS.MAX_SPEED, slower.speed + speedTransfer);
+      faster.speed = Math.max(0, faster.speed - speedTransfer * 1.5 * fasterShare);
+      slower.speed = Math.min(slower.stats.maxSpeed, slower.speed + speedTransfer * slowerShare);
       faster.flashTimer = 0.3;
     } else if (faster.isNPC && !slower.isNPC) {
       // NPC hit player from behind (shouldn't happen often with commuters)
-      slower.speed = Math.max(0, slower.speed - speedTransfer * 0.5);
-      faster.speed = Math.max(0, faster.speed - speedTransfer);
+      slower.speed = Math.max(0, slower.speed - speedTransfer * 0.5 * slowerShare);
+      faster.speed = Math.max(0, faster.speed - speedTransfer * fasterShare);
       slower.flashTimer = 0.3;
     } else {
       // NPC-NPC or theoretical player-player
-      faster.speed = Math.max(0, faster.speed - speedTransfer);
-      slower.speed = Math.max(0, slower.speed - speedTransfer * 0.5);
+      faster.speed = Math.max(0, faster.speed - speedTransfer * fasterShare);
+      slower.speed = Math.max(0, slower.speed - speedTransfer * 0.5 * slowerShare);
     }
     
     // Both vehicles flash briefly
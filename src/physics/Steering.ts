@@ -15,7 +15,7 @@ class Steering {
     if (vehicle.speed < 1) return; // Can't steer while stationary
 
     // Steering is less responsive at high speeds
-    var speedFactor = 1 - (vehicle.speed / VEHICLE_PHYSICS.MAX_SPEED) * 0.5;
+    var speedFactor = 1 - (vehicle.speed / vehicle.stats.maxSpeed) * 0.5;
     var steerAmount = input * steerSpeed * speedFactor * dt;
 
     vehicle.rotation += steerAmount;
@@ -31,7 +31,7 @@ class Steering {
     if (vehicle.speed < 1) return;
 
     // Lateral movement proportional to speed
-    var speedFactor = vehicle.speed / VEHICLE_PHYSICS.MAX_SPEED;
+    var speedFactor = vehicle.speed / vehicle.stats.maxSpeed;
     vehicle.x += input * lateralSpeed * speedFactor * dt;
   }
 }
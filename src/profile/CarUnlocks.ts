@@ -0,0 +1,195 @@
+/**
+ * CarUnlocks - Cars and colors earned by one Synchronet user.
+ *
+ * UNLOCK_RULES says what earns each unlock. Earned rule ids are stored in
+ * the configured players directory as u<N>.unlocks.json and applied to the
+ * car catalog (see unlockCar) when the user starts the game.
+ */
+
+/** What earns an unlock */
+interface UnlockCondition {
+  /**
+   * 'cup'    - finish a cup at or above a position (cupId omitted = any cup
+   *            but a custom one, which the player can make as easy as they like)
+   * 'record' - beat a track record (trackId omitted = any track)
+   * 'races'  - finish a number of races
+   */
+  type: 'cup' | 'record' | 'races';
+  cupId?: string;
+  /** cup: worst qualifying finish (1 = gold, 3 = any trophy) */
+  position?: number;
+  trackId?: string;
+  /** races: races finished */
+  count?: number;
+}
+
+interface UnlockRule {
+  /** Stored in the user's unlock file - never rename */
+  id: string;
+  carId: string;
+  /** Unlocks this color of the car (omitted = the car itself) */
+  colorId?: string;
+  condition: UnlockCondition;
+  /** What to do, e.g. "Finish 10 races" */
+  hint: string;
+}
+
+var UNLOCK_RULES: UnlockRule[] = [
+  { id: 'super', carId: 'super', condition: { type: 'cup', position: 1 }, hint: 'Win gold in any cup (not custom)' },
+  { id: 'sports_orange', carId: 'sports', colorId: 'orange', condition: { type: 'races', count: 10 }, hint: 'Finish 10 races' },
+  { id: 'compact_red', carId: 'compact', colorId: 'red', condition: { type: 'record' }, hint: 'Beat a track record' },
+  { id: 'classic_magenta', carId: 'classic', colorId: 'magenta', condition: { type: 'cup', cupId: 'dark_cup', position: 1 }, hint: 'Win gold in the Dark Cup' },
+  { id: 'super_yellow', carId: 'super', colorId: 'yellow', condition: { type: 'cup', cupId: 'special_cup', position: 1 }, hint: 'Win gold in the Special Cup' }
+];
+
+class CarUnlocks {
+  private userNumber: number;
+  private directory: string;
+  private earned: string[];
+
+  constructor(userNumber: number) {
+    this.userNumber = userNumber;
+    this.directory = OUTRUN_CONFIG.players.directory;
+    this.earned = this.read();
+
+    for (var i = 0; i < UNLOCK_RULES.length; i++) {
+      if (this.earned.indexOf(UNLOCK_RULES[i].id) !== -1) {
+        applyUnlockRule(UNLOCK_RULES[i]);
+      }
+    }
+  }
+
+  /**
+   * Check every rule not yet earned against the career (and the race just
+   * run, if any). Newly earned rules are applied, saved and returned.
+   */
+  check(stats: CareerStats, race: RaceCareerResult | null): UnlockRule[] {
+    var newlyEarned: UnlockRule[] = [];
+    for (var i = 0; i < UNLOCK_RULES.length; i++) {
+      var rule = UNLOCK_RULES[i];
+      if (this.earned.indexOf(rule.id) !== -1) continue;
+      if (!isUnlockConditionMet(rule.condition, stats, race)) continue;
+
+      this.earned.push(rule.id);
+      applyUnlockRule(rule);
+      newlyEarned.push(rule);
+      logInfo('CarUnlocks: user ' + this.userNumber + ' unlocked ' + rule.id);
+    }
+
+    if (newlyEarned.length > 0) {
+      this.save();
+    }
+    return newlyEarned;
+  }
+
+  private path(): string {
+    return this.directory + '/u' + this.userNumber + '.unlocks.json';
+  }
+
+  private read(): string[] {
+    if (this.userNumber <= 0) return [];
+    var path = this.path();
+    if (!file_exists(path)) return [];
+
+    try {
+      var f = new File(path);
+      if (!f.open('r')) {
+        logWarning('CarUnlocks: unable to open ' + path);
+        return [];
+      }
+      var content = f.read();
+      f.close();
+
+      var data = JSON.parse(content);
+      if (!(data instanceof Array)) {
+        logWarning('CarUnlocks: ignoring invalid unlocks ' + path);
+        return [];
+      }
+      return data.filter(function(id: any) { return typeof id === 'string'; });
+    } catch (e) {
+      logError('CarUnlocks: failed to read ' + path + ': ' + e);
+      return [];
+    }
+  }
+
+  private save(): boolean {
+    if (this.userNumber <= 0) return false;
+    var path = this.path();
+
+    try {
+      if (!file_exists(this.directory)) {
+        mkdir(this.directory);
+      }
+      var f = new File(path);
+      if (!f.open('w')) {
+        logError('CarUnlocks: unable to write ' + path);
+        return false;
+      }
+      f.write(JSON.stringify(this.earned));
+      f.close();
+      return true;
+    } catch (e) {
+      logError('CarUnlocks: failed to write ' + path + ': ' + e);
+      return false;
+    }
+  }
+}
+
+/**
+ * Whether a career (and optionally the race just run) meets a condition.
+ */
+function isUnlockConditionMet(condition: UnlockCondition, stats: CareerStats, race: RaceCareerResult | null): boolean {
+  switch (condition.type) {
+    case 'cup':
+      var position = condition.position || 1;
+      for (var cupId in stats.cupTrophies) {
+        if (!stats.cupTrophies.hasOwnProperty(cupId)) continue;
+        if (condition.cupId ? condition.cupId !== cupId : cupId === CUSTOM_CUP_CAREER_ID) continue;
+        var trophies = stats.cupTrophies[cupId];
+        var best = trophies.gold > 0 ? 1 : (trophies.silver > 0 ? 2 : (trophies.bronze > 0 ? 3 : 0));
+        if (best > 0 && best <= position) return true;
+      }
+      return false;
+    case 'record':
+      return race !== null && race.trackRecord && (!condition.trackId || condition.trackId === race.trackId);
+    case 'races':
+      return stats.racesFinished >= (condition.count || 1);
+  }
+  return false;
+}
+
+/**
+ * Apply an earned rule to the car catalog.
+ */
+function applyUnlockRule(rule: UnlockRule): void {
+  if (rule.colorId) {
+    unlockCarColor(rule.carId, rule.colorId);
+  } else {
+    unlockCar(rule.carId);
+  }
+}
+
+/**
+ * How to unlock a car, or one of its colors.
+ */
+function getUnlockHint(carId: string, colorId?: string): string {
+  for (var i = 0; i < UNLOCK_RULES.length; i++) {
+    var rule = UNLOCK_RULES[i];
+    if (rule.carId === carId && rule.colorId === colorId) return rule.hint + ' to unlock';
+  }
+  var car = colorId ? null : getCarDefinition(carId);
+  return (car && car.unlockHint) || 'Complete challenges to unlock';
+}
+
+/**
+ * Toast text for an earned rule, e.g. "PHANTOM X" or "TURBO GT - Sunset Orange".
+ */
+function describeUnlock(rule: UnlockRule): string {
+  var car = getCarDefinition(rule.carId);
+  var text = car ? car.name : rule.carId;
+  if (rule.colorId) {
+    var color = getCarColor(rule.colorId);
+    text += ' - ' + (color ? color.name : rule.colorId);
+  }
+  return text;
+}
@@ -0,0 +1,218 @@
+/**
+ * PlayerProfile - Career statistics for one Synchronet user.
+ *
+ * Stored in the configured players directory as u<N>.profile.json and
+ * updated after every race and cup (see main.ts). Users without a number
+ * (outside a BBS session) get a profile that is never saved.
+ */
+
+/** World units per mile (the HUD shows speed units/s as mph) */
+var CAREER_UNITS_PER_MILE = 3600;
+
+/** Cup finishes by trophy */
+interface CupTrophyCount {
+  gold: number;
+  silver: number;
+  bronze: number;
+}
+
+interface CareerStats {
+  racesStarted: number;
+  racesFinished: number;
+  wins: number;
+  podiums: number;
+  /** Trophies won, by cup id */
+  cupTrophies: { [cupId: string]: CupTrophyCount };
+  /** Races started, by car id */
+  carRaces: { [carId: string]: number };
+  /** Races started, by track id */
+  trackRaces: { [trackId: string]: number };
+  /** World units driven (see CAREER_UNITS_PER_MILE) */
+  totalDistance: number;
+  /** Items used, by base item name (e.g. RED_SHELL) */
+  itemUses: { [item: string]: number };
+}
+
+/**
+ * What one race adds to a career (see Game.getCareerResult).
+ */
+interface RaceCareerResult {
+  trackId: string;
+  carId: string;
+  finished: boolean;
+  /** Finishing position, 0 when the race has no ranking (Time Trial) */
+  position: number;
+  distance: number;
+  itemUses: { [item: string]: number };
+  /** The race time beat the existing first place on the track's board */
+  trackRecord: boolean;
+}
+
+class PlayerProfile {
+  private userNumber: number;
+  private directory: string;
+  private stats: CareerStats;
+
+  constructor(userNumber: number) {
+    this.userNumber = userNumber;
+    this.directory = OUTRUN_CONFIG.players.directory;
+    this.stats = this.read();
+  }
+
+  getStats(): CareerStats {
+    return this.stats;
+  }
+
+  /**
+   * Add a race to the career and save.
+   */
+  recordRace(result: RaceCareerResult): void {
+    var stats = this.stats;
+    stats.racesStarted++;
+    stats.carRaces[result.carId] = (stats.carRaces[result.carId] || 0) + 1;
+    stats.trackRaces[result.trackId] = (stats.trackRaces[result.trackId] || 0) + 1;
+    stats.totalDistance += result.distance;
+    for (var item in result.itemUses) {
+      if (result.itemUses.hasOwnProperty(item)) {
+        stats.itemUses[item] = (stats.itemUses[item] || 0) + result.itemUses[item];
+      }
+    }
+
+    if (result.finished) {
+      stats.racesFinished++;
+      if (result.position === 1) stats.wins++;
+      if (result.position >= 1 && result.position <= 3) stats.podiums++;
+    }
+    this.save();
+  }
+
+  /**
+   * Add a completed cup to the career (trophies for 1st-3rd) and save.
+   */
+  recordCup(cupId: string, position: number): void {
+    if (position < 1 || position > 3) return;
+    var trophies = this.stats.cupTrophies[cupId];
+    if (!trophies) {
+      trophies = { gold: 0, silver: 0, bronze: 0 };
+      this.stats.cupTrophies[cupId] = trophies;
+    }
+    if (position === 1) trophies.gold++;
+    else if (position === 2) trophies.silver++;
+    else trophies.bronze++;
+    this.save();
+  }
+
+  /**
+   * Most raced car id, or null before the first race.
+   */
+  getFavoriteCar(): string | null {
+    return mostCounted(this.stats.carRaces);
+  }
+
+  /**
+   * Most raced track id, or null before the first race.
+   */
+  getFavoriteTrack(): string | null {
+    return mostCounted(this.stats.trackRaces);
+  }
+
+  private path(): string {
+    return this.directory + '/u' + this.userNumber + '.profile.json';
+  }
+
+  private read(): CareerStats {
+    if (this.userNumber <= 0) return normalizeCareerStats(null);
+    var path = this.path();
+    if (!file_exists(path)) return normalizeCareerStats(null);
+
+    try {
+      var f = new File(path);
+      if (!f.open('r')) {
+        logWarning('PlayerProfile: unable to open ' + path);
+        return normalizeCareerStats(null);
+      }
+      var content = f.read();
+      f.close();
+      return normalizeCareerStats(JSON.parse(content));
+    } catch (e) {
+      logError('PlayerProfile: failed to read ' + path + ': ' + e);
+      return normalizeCareerStats(null);
+    }
+  }
+
+  private save(): boolean {
+    if (this.userNumber <= 0) return false;
+    var path = this.path();
+
+    try {
+      if (!file_exists(this.directory)) {
+        mkdir(this.directory);
+      }
+      var f = new File(path);
+      if (!f.open('w')) {
+        logError('PlayerProfile: unable to write ' + path);
+        return false;
+      }
+      f.write(JSON.stringify(this.stats));
+      f.close();
+      return true;
+    } catch (e) {
+      logError('PlayerProfile: failed to write ' + path + ': ' + e);
+      return false;
+    }
+  }
+}
+
+/**
+ * Career stats from saved data, with missing or malformed fields reset
+ * (null gives a fresh career).
+ */
+function normalizeCareerStats(data: any): CareerStats {
+  var src = data && typeof data === 'object' ? data : {};
+  var count = function(value: any): number {
+    return typeof value === 'number' && value >= 0 ? value : 0;
+  };
+  var countMap = function(value: any): { [key: string]: number } {
+    var map: { [key: string]: number } = {};
+    if (value && typeof value === 'object') {
+      for (var key in value) {
+        if (value.hasOwnProperty(key) && count(value[key]) > 0) map[key] = value[key];
+      }
+    }
+    return map;
+  };
+
+  var trophies: { [cupId: string]: CupTrophyCount } = {};
+  if (src.cupTrophies && typeof src.cupTrophies === 'object') {
+    for (var cupId in src.cupTrophies) {
+      var t = src.cupTrophies[cupId];
+      if (!src.cupTrophies.hasOwnProperty(cupId) || !t || typeof t !== 'object') continue;
+      trophies[cupId] = { gold: count(t.gold), silver: count(t.silver), bronze: count(t.bronze) };
+    }
+  }
+
+  return {
+    racesStarted: count(src.racesStarted),
+    racesFinished: count(src.racesFinished),
+    wins: count(src.wins),
+    podiums: count(src.podiums),
+    cupTrophies: trophies,
+    carRaces: countMap(src.carRaces),
+    trackRaces: countMap(src.trackRaces),
+    totalDistance: count(src.totalDistance),
+    itemUses: countMap(src.itemUses)
+  };
+}
+
+/**
+ * Key with the highest count (first one wins ties), or null if empty.
+ */
+function mostCounted(counts: { [key: string]: number }): string | null {
+  var best: string | null = null;
+  for (var key in counts) {
+    if (counts.hasOwnProperty(key) && (best === null || counts[key] > counts[best])) {
+      best = key;
+    }
+  }
+  return best;
+}
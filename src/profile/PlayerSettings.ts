@@ -0,0 +1,124 @@
+/**
+ * PlayerSettings - In-race preferences for one Synchronet user.
+ *
+ * Changed from the pause menu and stored in the configured players
+ * directory as u<N>.settings.json. Users without a number (outside a BBS
+ * session) keep the defaults for the session.
+ */
+
+/**
+ * HUD layouts:
+ * 'full'    - everything, including the track minimap
+ * 'minimal' - no minimap
+ */
+type HudLayout = 'full' | 'minimal';
+
+var HUD_LAYOUTS: HudLayout[] = ['full', 'minimal'];
+
+interface PlayerSettings {
+  /** Ring the terminal bell at the start, each lap and the finish */
+  bell: boolean;
+  hudLayout: HudLayout;
+}
+
+var DEFAULT_PLAYER_SETTINGS: PlayerSettings = {
+  bell: false,
+  hudLayout: 'full'
+};
+
+class PlayerSettingsStore {
+  private directory: string;
+
+  constructor() {
+    this.directory = OUTRUN_CONFIG.players.directory;
+  }
+
+  /**
+   * Load a user's settings. Missing or invalid fields get the defaults.
+   */
+  load(userNumber: number): PlayerSettings {
+    var settings = copyPlayerSettings(DEFAULT_PLAYER_SETTINGS);
+    if (userNumber <= 0) return settings;
+    var path = this.path(userNumber);
+    if (!file_exists(path)) return settings;
+
+    try {
+      var f = new File(path);
+      if (!f.open('r')) {
+        logWarning('PlayerSettingsStore: unable to open ' + path);
+        return settings;
+      }
+      var content = f.read();
+      f.close();
+
+      var data = JSON.parse(content);
+      if (!data || typeof data !== 'object') {
+        logWarning('PlayerSettingsStore: ignoring invalid settings ' + path);
+        return settings;
+      }
+      if (typeof data.bell === 'boolean') {
+        settings.bell = data.bell;
+      }
+      if (HUD_LAYOUTS.indexOf(data.hudLayout) !== -1) {
+        settings.hudLayout = data.hudLayout;
+      }
+      return settings;
+    } catch (e) {
+      logError('PlayerSettingsStore: failed to read ' + path + ': ' + e);
+      return settings;
+    }
+  }
+
+  /**
+   * Save a user's settings. Returns true if written.
+   */
+  save(settings: PlayerSettings, userNumber: number): boolean {
+    if (userNumber <= 0) return false;
+    var path = this.path(userNumber);
+
+    try {
+      if (!file_exists(this.directory)) {
+        mkdir(this.directory);
+      }
+      var f = new File(path);
+      if (!f.open('w')) {
+        logError('PlayerSettingsStore: unable to write ' + path);
+        return false;
+      }
+      f.write(JSON.stringify(settings));
+      f.close();
+      return true;
+    } catch (e) {
+      logError('PlayerSettingsStore: failed to write ' + path + ': ' + e);
+      return false;
+    }
+  }
+
+  private path(userNumber: number): string {
+    return this.directory + '/u' + userNumber + '.settings.json';
+  }
+}
+
+function copyPlayerSettings(settings: PlayerSettings): PlayerSettings {
+  return { bell: settings.bell, hudLayout: settings.hudLayout };
+}
+
+/** Settings used by every race in this session */
+var playerSettings: PlayerSettings | null = null;
+
+/**
+ * The active player's settings (defaults until loadPlayerSettings).
+ */
+function getPlayerSettings(): PlayerSettings {
+  if (!playerSettings) {
+    playerSettings = copyPlayerSettings(DEFAULT_PLAYER_SETTINGS);
+  }
+  return playerSettings;
+}
+
+/**
+ * Load the current user's saved settings as the active settings.
+ */
+function loadPlayerSettings(userNumber: number): void {
+  playerSettings = new PlayerSettingsStore().load(userNumber);
+}
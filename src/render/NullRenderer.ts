@@ -0,0 +1,34 @@
+/**
+ * NullRenderer - Renderer that draws nothing.
+ *
+ * Lets Game run without a terminal or frame.js (headless simulation).
+ * Optional IRenderer hooks (themes, brake lights, lightning) are left
+ * unimplemented so Game skips them.
+ */
+
+class NullRenderer implements IRenderer {
+  private composer: SceneComposer | null;
+
+  constructor() {
+    this.composer = null;
+  }
+
+  init(): void {}
+  beginFrame(): void {}
+  renderSky(_trackPosition: number, _curvature?: number, _playerSteer?: number, _speed?: number, _dt?: number): void {}
+  renderRoad(_trackPosition: number, _cameraX: number, _track: ITrack, _road: Road): void {}
+  renderEntities(_playerVehicle: IVehicle, _vehicles: IVehicle[], _items: Item[], _projectiles?: IProjectile[]): void {}
+  renderHud(_hudData: HudData): void {}
+  endFrame(): void {}
+  shutdown(): void {}
+
+  /**
+   * Created on first use - nothing asks for it in a headless run.
+   */
+  getComposer(): SceneComposer {
+    if (!this.composer) {
+      this.composer = new SceneComposer(80, 24);
+    }
+    return this.composer;
+  }
+}
@@ -121,6 +121,57 @@ class ANSILoader {
     }
   }
   
+  /**
+   * Load a raw CP437 .bin file (char, attribute byte pairs, no header).
+   * A .bin carries no line breaks, so the width in cells must be given.
+   *
+   * @param path - Full path to the file
+   * @param width - Cells per row
+   * @returns ANSIImage, or null on failure
+   */
+  static loadBin(path: string, width: number): ANSIImage | null {
+    try {
+      if (typeof file_exists === 'function' && !file_exists(path)) {
+        logWarning("BIN file not found: " + path);
+        return null;
+      }
+
+      var f = new File(path);
+      if (!f.open('rb')) {
+        logWarning("Failed to open BIN file: " + path);
+        return null;
+      }
+      var data = f.read();
+      f.close();
+
+      var rowBytes = width * 2;
+      var height = Math.floor(data.length / rowBytes);
+      var cells: ANSICell[][] = [];
+
+      for (var row = 0; row < height; row++) {
+        cells[row] = [];
+        for (var col = 0; col < width; col++) {
+          var offset = row * rowBytes + col * 2;
+          cells[row][col] = {
+            char: data.charAt(offset),
+            attr: data.charCodeAt(offset + 1)
+          };
+        }
+      }
+
+      logInfo("ANSILoader: Loaded " + path + " (" + width + "x" + height + " bin)");
+
+      return {
+        width: width,
+        height: height,
+        cells: cells
+      };
+    } catch (e) {
+      logWarning("Error loading BIN file: " + path + " - " + e);
+      return null;
+    }
+  }
+  
   /**
    * Scan a directory for ANSI files.
    * @param dirPath - Directory to scan
@@ -22,6 +22,10 @@ class HudRenderer {
     if (hudData.countdown > 0 && hudData.raceMode === RaceMode.GRAND_PRIX) {
       this.renderCountdown(hudData.countdown);
     }
+    
+    if (hudData.wrongWay) {
+      this.composer.writeString(34, 3, ' WRONG WAY! ', makeAttr(YELLOW, BG_RED));
+    }
     // Note: raceFinished overlay removed - now using dedicated results screen
   }
 
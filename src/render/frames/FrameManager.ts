@@ -2,7 +2,7 @@
  * FrameManager - Manages layered Frame.js frames for efficient rendering.
  * 
  * Layer architecture:
- *   Layer 0: Root frame (80x24, black background)
+ *   Layer 0: Root frame (full screen, black background)
  *   Layer 1: Sky grid frame (animated, scrolls with forward motion)
  *   Layer 2: Sun frame (transparent, celestial bodies behind scenery)
  *   Layer 3: Mountains frame (transparent, horizontal parallax scenery)
@@ -9,12 +9,29 @@
  * Supports themes for different visual aesthetics.
  */
 
+/** World units of hill look-ahead per unit of scanline distance */
+var HILL_VIEW_SCALE = 100;
+
+/** Screen rows per unit of elevation at distance 1 */
+var HILL_SCREEN_SCALE = 24;
+
+/** Scanline distance at the horizon on an 80x24 screen (16 road rows) */
+var ROAD_HORIZON_DISTANCE = 20;
+
 class FrameRenderer implements IRenderer {
   private frameManager: FrameManager;
   private width: number;
   private height: number;
   private horizonY: number;
   
+  // Column the road's vanishing point and the player's car are centered on
+  private centerX: number;
+  
+  // Draw distance: scanline distance at the horizon, and how far that
+  // reaches past the 80x24 view (1 = 80x24; more road rows see further)
+  private maxRoadDistance: number;
+  private viewScale: number;
+  
   // Active theme
   private activeTheme: Theme;
   
@@ -41,6 +58,10 @@ class FrameRenderer implements IRenderer {
   private _currentTrackPosition: number;
   private _currentCameraX: number;
   
+  // Hill projection from the last renderRoadSurface(): road-frame row ->
+  // row it was drawn at (-1 = hidden behind a crest). Null when flat.
+  private _hillRowMap: number[] | null;
+  
   // Lightning bolt visual effects
   private _lightningBolts: { x: number; startTime: number; targetY: number }[];
   
@@ -55,6 +76,9 @@ class FrameRenderer implements IRenderer {
     this.width = width;
     this.height = height;
     this.horizonY = 8;
+    this.centerX = Math.floor(width / 2);
+    this.viewScale = (height - this.horizonY) / (MIN_SCREEN_HEIGHT - this.horizonY);
+    this.maxRoadDistance = ROAD_HORIZON_DISTANCE * this.viewScale;
     
     this._mountainScrollOffset = 0;
     this._staticElementsDirty = true;
@@ -65,6 +89,7 @@ class FrameRenderer implements IRenderer {
     this._currentRoad = null;
     this._currentTrackPosition = 0;
     this._currentCameraX = 0;
+    this._hillRowMap = null;
     
     // Initialize lightning bolt effects
     this._lightningBolts = [];
@@ -322,6 +347,7 @@ class FrameRenderer implements IRenderer {
     }
     
     if (this._ansiTunnelRenderer && bgType === 'ansi') {
+      this._hillRowMap = null;
       this._ansiTunnelRenderer.updateScroll(trackPosition, road.totalLength);
       
       // Get both sky and road frames
@@ -355,7 +381,8 @@ class FrameRenderer implements IRenderer {
         trackPosition,
         cameraX,
         road,
-        road.totalLength
+        road.totalLength,
+        this.maxRoadDistance
       );
       
       // Skip renderRoadSurface for ANSI theme - it would clear our ANSI content!
@@ -412,7 +439,7 @@ class FrameRenderer implements IRenderer {
     
     // Iterate through world Z positions that are visible
     // View distance in world units (matching road rendering)
-    var viewDistanceWorld = 100;  // How far ahead in world units
+    var viewDistanceWorld = this.maxRoadDistance * 5;  // How far ahead in world units
     var startZ = trackPosition;
     var endZ = trackPosition + viewDistanceWorld;
     
@@ -437,16 +464,21 @@ class FrameRenderer implements IRenderer {
       
       // Distance factor (same formula as road uses)
       var distance = relativeZ / 5;  // Convert world units to distance units
-      if (distance < 1 || distance > 20) continue;
+      if (distance < 1 || distance > this.maxRoadDistance) continue;
       
       // Screen Y from distance (inverse of road formula)
-      // Road uses: distance = 1 / (1 - t * 0.95) where t = (roadBottom - screenY) / roadBottom
+      // Road uses: distance = 1 / (1 - t * k) where t = (roadBottom - screenY) / roadBottom (see scanlineDistance)
       // Solving for screenY: t = 1 - 1/distance, screenY = roadBottom * (1 - t) = roadBottom / distance * 0.95
       var t = 1 - (1 / distance);
       var screenY = Math.round(this.horizonY + roadHeight * (1 - t));
       
       if (screenY <= this.horizonY || screenY >= this.height) continue;
       
+      // Follow hills; skip objects hidden behind a crest
+      var hillRow = this.hillShiftRow(screenY - this.horizonY);
+      if (hillRow < 0) continue;
+      screenY = hillRow + this.horizonY;
+      
       // Calculate road center at this screen Y (same as road rendering)
       // Accumulate curve from player to this point
       var accumulatedCurve = 0;
@@ -455,7 +487,7 @@ class FrameRenderer implements IRenderer {
         if (seg) accumulatedCurve += seg.curve * 0.5;
       }
       var curveOffset = accumulatedCurve * distance * 0.8;
-      var centerX = 40 + Math.round(curveOffset) - Math.round(cameraX * 0.5);
+      var centerX = this.centerX + Math.round(curveOffset) - Math.round(cameraX * 0.5);
       
       // Road width at this distance
       var roadHalfWidth = Math.round(20 / distance);
@@ -481,7 +513,7 @@ class FrameRenderer implements IRenderer {
         }
       }
       if (allowedSide === 'right' || (allowedSide === 'both' && preferredSide === 'right')) {
-        if (rightX < 80) {
+        if (rightX < this.width) {
           objects.push({ x: rightX, y: screenY, distance: distance, type: spriteType });
         }
       }
@@ -489,7 +521,7 @@ class FrameRenderer implements IRenderer {
       // For denser themes, also place on opposite side sometimes (if allowed)
       if (this.activeTheme.roadside.density > 1.0 && (worldZInt % 2 === 0)) {
         if (allowedSide === 'both' || allowedSide === 'right') {
-          if (preferredSide === 'left' && rightX < 80) {
+          if (preferredSide === 'left' && rightX < this.width) {
             objects.push({ x: rightX, y: screenY, distance: distance, type: spriteType });
           }
         }
@@ -591,10 +623,10 @@ class FrameRenderer implements IRenderer {
       var distZ = projectile.trackZ - playerVehicle.trackZ;
       
       // Render if ahead and within view, or slightly behind (just passed)
-      if (distZ < -5 || distZ > 600) continue;
+      if (distZ < -5 || distZ > 600 * this.viewScale) continue;
       
       // Use same perspective system as vehicles
-      var maxViewDist = 500;
+      var maxViewDist = 500 * this.viewScale;
       var normalizedDist = Math.max(0.01, distZ / maxViewDist);
       var t = Math.max(0, Math.min(1, 1 - normalizedDist));
       
@@ -614,7 +646,7 @@ class FrameRenderer implements IRenderer {
       // Lateral position with perspective
       var perspectiveScale = t * t;
       var relativeX = projectile.playerX - playerVehicle.playerX;
-      var screenX = Math.round(40 + curveOffset + relativeX * perspectiveScale * 25 - this._currentCameraX * 0.5);
+      var screenX = Math.round(this.centerX + curveOffset + relativeX * perspectiveScale * 25 - this._currentCameraX * 0.5);
       
       // Determine scale based on screen position (like vehicles)
       var screenProgress = (screenY - visualHorizonY) / roadHeight;
@@ -629,6 +661,10 @@ class FrameRenderer implements IRenderer {
         scaleIndex = 3;  // Large - close
       }
       
+      // Follow hills; skip projectiles hidden behind a crest
+      screenY = this.hillShiftRow(screenY);
+      if (screenY < 0) continue;
+      
       // Select sprite set and color based on projectile type
       var sprites: string[][];
       var attr: number;
@@ -669,7 +705,7 @@ class FrameRenderer implements IRenderer {
           var ch = line.charAt(lx);
           if (ch === ' ') continue;  // Skip spaces
           var drawX = startX + lx;
-          if (drawX < 0 || drawX >= 80) continue;
+          if (drawX < 0 || drawX >= this.width) continue;
           frame.setData(drawX, drawY, ch, attr);
         }
       }
@@ -722,13 +758,13 @@ class FrameRenderer implements IRenderer {
       
       // Calculate relative position to player
       var relativeZ = item.z - playerVehicle.trackZ;
-      var relativeX = item.x - (playerVehicle.playerX * 20);
+      var relativeX = item.x - (playerVehicle.playerX * ROAD_TRACK_X_SCALE);
       
       // Only render items ahead of player and within view distance
-      if (relativeZ < 5 || relativeZ > 300) continue;
+      if (relativeZ < 5 || relativeZ > 300 * this.viewScale) continue;
       
       // Perspective calculation
-      var maxViewDist = 300;
+      var maxViewDist = 300 * this.viewScale;
       var normalizedDist = Math.max(0.01, relativeZ / maxViewDist);
       var t = Math.max(0, Math.min(1, 1 - normalizedDist));
       
@@ -750,7 +786,11 @@ class FrameRenderer implements IRenderer {
       // At close range (t=1), we want full spread across ~60 char road width
       // So multiply by ~1.5 to convert item x to screen offset
       var xScale = t * 1.5;  // Scale with perspective
-      var screenX = Math.round(40 + curveOffset + relativeX * xScale - this._currentCameraX * 0.5);
+      var screenX = Math.round(this.centerX + curveOffset + relativeX * xScale - this._currentCameraX * 0.5);
+      
+      // Follow hills; skip boxes hidden behind a crest
+      screenY = this.hillShiftRow(screenY);
+      if (screenY < 0) continue;
       
       // Bounds check (rough - we'll do precise checks when rendering)
       if (screenY < visualHorizonY - 2 || screenY >= this.height) continue;
@@ -1068,6 +1108,7 @@ class FrameRenderer implements IRenderer {
     for (var i = 0; i < vehicles.length; i++) {
       var v = vehicles[i];
       if (!v.isNPC) continue;  // Skip player
+      if (v.isGhost && !v.active) continue;  // Ghost run has finished
       
       // Calculate relative position with wrap-around handling
       // This computes the signed distance on a circular track
@@ -1085,7 +1126,7 @@ class FrameRenderer implements IRenderer {
       var relativeX = v.playerX - playerVehicle.playerX;
       
       // Render if within view distance (ahead or slightly behind)
-      if (relativeZ > -10 && relativeZ < 600) {
+      if (relativeZ > -10 && relativeZ < 600 * this.viewScale) {
         visibleNPCs.push({ vehicle: v, relativeZ: relativeZ, relativeX: relativeX });
       }
     }
@@ -1108,7 +1149,7 @@ class FrameRenderer implements IRenderer {
     
     // Calculate screen position and scale based on distance
     // t: 0 = far (horizon), 1 = close (player position)
-    var maxViewDist = 500;  // World units before cars disappear
+    var maxViewDist = 500 * this.viewScale;  // World units before cars disappear
     
     // For cars ahead (positive relativeZ): map to screen Y from horizon to near-player
     // For cars behind (negative relativeZ): they should appear below/at player level
@@ -1151,7 +1192,7 @@ class FrameRenderer implements IRenderer {
     // Lateral position scales with perspective
     // Include curve offset so cars follow the road visually
     var perspectiveScale = t * t;  // Non-linear for more realistic perspective
-    var screenX = Math.round(40 + curveOffset + relativeX * perspectiveScale * 25 - this._currentCameraX * 0.5);
+    var screenX = Math.round(this.centerX + curveOffset + relativeX * perspectiveScale * 25 - this._currentCameraX * 0.5);
     
     // Select sprite scale based on screen position (5 scales now: 0=dot, 1=tiny, 2=small, 3=medium, 4=large)
     var roadHeight = roadBottom - visualHorizonY;
@@ -1174,6 +1215,10 @@ class FrameRenderer implements IRenderer {
     // Clamp to available scales
     scaleIndex = Math.min(scaleIndex, sprite.variants.length - 1);
     
+    // Follow hills; cars behind a crest are hidden
+    screenY = this.hillShiftRow(screenY);
+    if (screenY < 0) return;
+    
     // Get sprite dimensions
     var size = getSpriteSize(sprite, scaleIndex);
     
@@ -1219,6 +1264,10 @@ class FrameRenderer implements IRenderer {
     // Visual horizon for bounds check (matches visualHorizonY above)
     var visualHorizon = 5;
     
+    // Ghosts are "translucent": every other cell in a single tint so the
+    // road shows through
+    var ghostAttr = makeAttr(LIGHTCYAN, BG_BLACK);
+    
     for (var row = 0; row < variant.length; row++) {
       for (var col = 0; col < variant[row].length; col++) {
         var cell = variant[row][col];
@@ -1228,6 +1277,12 @@ class FrameRenderer implements IRenderer {
           
           // Bounds check - allow drawing up to visual horizon
           if (drawX >= 0 && drawX < this.width && drawY >= visualHorizon && drawY < this.height - 1) {
+            if (vehicle.isGhost) {
+              if ((drawX + drawY) % 2 === 0) {
+                frame.setData(drawX, drawY, cell.char, ghostAttr);
+              }
+              continue;
+            }
             var attr = isFlashing && (Math.floor(Date.now() / 100) % 2 === 0) ? flashAttr : cell.attr;
             frame.setData(drawX, drawY, cell.char, attr);
           }
@@ -1982,22 +2037,23 @@ class FrameRenderer implements IRenderer {
       frame.setData(7, y, GLYPH.RIGHT_HALF, glassFrameAttr);
     }
     
-    // Right glass panel (column) - x: 72-79
+    // Right glass panel (column) - the last 8 columns
+    var rightPanelX = this.width - 8;
     for (var y = 0; y < this.horizonY; y++) {
-      frame.setData(72, y, GLYPH.LEFT_HALF, glassFrameAttr);
-      for (var x = 73; x < 77; x++) {
+      frame.setData(rightPanelX, y, GLYPH.LEFT_HALF, glassFrameAttr);
+      for (var x = rightPanelX + 1; x < rightPanelX + 5; x++) {
         frame.setData(x, y, GLYPH.FULL_BLOCK, glassFrameAttr);
       }
       // Glass highlight
-      frame.setData(77, y, GLYPH.LIGHT_SHADE, glassHighlightAttr);
-      frame.setData(78, y, GLYPH.FULL_BLOCK, glassFrameAttr);
-      frame.setData(79, y, GLYPH.FULL_BLOCK, glassDarkAttr);
+      frame.setData(rightPanelX + 5, y, GLYPH.LIGHT_SHADE, glassHighlightAttr);
+      frame.setData(rightPanelX + 6, y, GLYPH.FULL_BLOCK, glassFrameAttr);
+      frame.setData(rightPanelX + 7, y, GLYPH.FULL_BLOCK, glassDarkAttr);
     }
     
     // Center aquarium tank (between the pillars)
     // Fill with water
     for (var y = 0; y < this.horizonY; y++) {
-      for (var x = 8; x < 72; x++) {
+      for (var x = 8; x < rightPanelX; x++) {
         var attr = (y < 4) ? waterAttr : waterDeepAttr;
         frame.setData(x, y, ' ', attr);
       }
@@ -2005,7 +2061,7 @@ class FrameRenderer implements IRenderer {
     
     // Sandy bottom
     var bottomY = this.horizonY - 1;
-    for (var x = 8; x < 72; x++) {
+    for (var x = 8; x < rightPanelX; x++) {
       var sandChar = (x % 3 === 0) ? GLYPH.LOWER_HALF : GLYPH.LIGHT_SHADE;
       frame.setData(x, bottomY, sandChar, sandAttr);
     }
@@ -3163,7 +3219,7 @@ class FrameRenderer implements IRenderer {
     
     // Grid is ALWAYS centered at screen center - no parallax shift
     // This keeps it aligned with the road vanishing point
-    var vanishX = 40;
+    var vanishX = this.centerX;
     
     for (var y = this.horizonY - 1; y >= 1; y--) {
       var distFromHorizon = this.horizonY - y;
@@ -3171,7 +3227,7 @@ class FrameRenderer implements IRenderer {
       
       // Vertical converging lines - extend to screen edges
       if (this.activeTheme.sky.converging) {
-        for (var offset = 0; offset <= 40; offset += 8) {
+        for (var offset = 0; offset <= this.centerX; offset += 8) {
           if (offset <= spread) {
             if (offset === 0) {
               frame.setData(vanishX, y, GLYPH.BOX_V, gridAttr);
@@ -3192,7 +3248,7 @@ class FrameRenderer implements IRenderer {
         if (scanlinePhase < 0) scanlinePhase += 1;
         
         if (scanlinePhase < 0.33) {
-          var lineSpread = Math.min(spread, 39);
+          var lineSpread = Math.min(spread, this.centerX - 1);
           for (var x = vanishX - lineSpread; x <= vanishX + lineSpread; x++) {
             if (x >= 0 && x < this.width) {
               frame.setData(x, y, GLYPH.BOX_H, glowAttr);
@@ -4053,7 +4109,7 @@ class FrameRenderer implements IRenderer {
     // Render just the lane stripes on top of ANSI
     for (var screenY = roadBottom; screenY >= 0; screenY--) {
       var t = (roadBottom - screenY) / Math.max(1, roadBottom);
-      var distance = 1 / (1 - t * 0.95);
+      var distance = this.scanlineDistance(t);
       var worldZ = trackPosition + distance * 5;
       var segment = road.getSegment(worldZ);
       
@@ -4064,7 +4120,7 @@ class FrameRenderer implements IRenderer {
       var roadWidth = Math.round(40 / distance);
       var halfWidth = Math.floor(roadWidth / 2);
       var curveOffset = accumulatedCurve * distance * 0.8;
-      var centerX = 40 + Math.round(curveOffset) - Math.round(cameraX * 0.5);
+      var centerX = this.centerX + Math.round(curveOffset) - Math.round(cameraX * 0.5);
       
       // Only render center stripe
       var stripePhase = Math.floor((trackPosition + distance * 5) / 15) % 2;
@@ -4101,9 +4157,18 @@ class FrameRenderer implements IRenderer {
     // Accumulate curvature for perspective curve effect
     var accumulatedCurve = 0;
     
+    // Hills: elevation is measured relative to the camera's own slope, so a
+    // steady climb looks flat and only crests and dips move the road.
+    // Rows are drawn near-to-far; anything projected at or below the
+    // highest row drawn so far is behind a crest and skipped.
+    var camElevation = road.getElevation(trackPosition);
+    var camSlope = road.getSlope(trackPosition) / road.segmentLength;
+    var clipY = roadBottom + 1;
+    var rowMap: number[] = [];
+    
     for (var screenY = roadBottom; screenY >= 0; screenY--) {
       var t = (roadBottom - screenY) / roadBottom;
-      var distance = 1 / (1 - t * 0.95);
+      var distance = this.scanlineDistance(t);
       
       // Get road segment at this distance
       var worldZ = trackPosition + distance * 5;
@@ -4121,7 +4186,7 @@ class FrameRenderer implements IRenderer {
       
       // Apply curve offset - road center shifts based on accumulated curvature
       var curveOffset = accumulatedCurve * distance * 0.8;
-      var centerX = 40 + Math.round(curveOffset) - Math.round(cameraX * 0.5);
+      var centerX = this.centerX + Math.round(curveOffset) - Math.round(cameraX * 0.5);
       
       var leftEdge = centerX - halfWidth;
       var rightEdge = centerX + halfWidth;
@@ -4134,9 +4199,57 @@ class FrameRenderer implements IRenderer {
       if (wrappedZ < 0) wrappedZ += roadLength;
       var isFinishLine = (wrappedZ < 200) || (wrappedZ > roadLength - 200);
       
-      this.renderRoadScanline(frame, screenY, centerX, leftEdge, rightEdge, 
-                              distance, stripePhase, isFinishLine, accumulatedCurve, worldZ);
+      // Project elevation (hills use a longer look-ahead than curves so
+      // crests are visible before you reach them)
+      var hillZ = trackPosition + distance * HILL_VIEW_SCALE;
+      var rise = road.getElevation(hillZ) - camElevation - camSlope * (hillZ - trackPosition);
+      var drawY = screenY - Math.round(rise * HILL_SCREEN_SCALE / distance);
+      
+      if (drawY >= clipY) {
+        rowMap[screenY] = -1;
+        continue;
+      }
+      if (drawY < 0) drawY = 0;
+      rowMap[screenY] = drawY;
+      
+      // Fill down to the previous row so steep rises leave no gaps
+      for (var y = drawY; y < clipY; y++) {
+        this.renderRoadScanline(frame, y, centerX, leftEdge, rightEdge, 
+                                distance, stripePhase, isFinishLine, accumulatedCurve, worldZ);
+      }
+      clipY = drawY;
+    }
+    
+    // Past a crest: fill the remaining rows with ground only
+    for (var gy = 0; gy < clipY; gy++) {
+      this.renderRoadScanline(frame, gy, 0, this.width + 3, this.width + 3,
+                              20, 0, false, accumulatedCurve, trackPosition);
     }
+    
+    // Only keep the map when hills actually moved something
+    var shifted = false;
+    for (var r = 0; r < rowMap.length; r++) {
+      if (rowMap[r] !== r) { shifted = true; break; }
+    }
+    this._hillRowMap = shifted ? rowMap : null;
+  }
+  
+  /**
+   * Scanline distance for a road row, t = 0 at the bottom row to 1 at
+   * the horizon (where it reaches maxRoadDistance).
+   */
+  private scanlineDistance(t: number): number {
+    return 1 / (1 - t * (1 - 1 / this.maxRoadDistance));
+  }
+  
+  /**
+   * Shift a road-frame row to where the road was drawn after hill
+   * projection. Returns -1 if that part of the road is behind a crest.
+   */
+  private hillShiftRow(row: number): number {
+    var map = this._hillRowMap;
+    if (!map || row < 0 || row >= map.length) return row;
+    return map[row];
   }
   
   /**
@@ -4615,7 +4728,7 @@ class FrameRenderer implements IRenderer {
     }
     
     // Player is always at bottom center-ish
-    var screenX = 40 + Math.round(playerX * 5) - 2;
+    var screenX = this.centerX + Math.round(playerX * 5) - 2;
     var screenY = this.height - 3;
     
     this.frameManager.positionVehicleFrame(0, screenX, screenY, true);
@@ -4642,10 +4755,11 @@ class FrameRenderer implements IRenderer {
     var speedSuffix = (hudConfig && hudConfig.speedLabel) ? ' ' + hudConfig.speedLabel : '';
     
     // Top bar - TIME or custom label (centered)
-    this.writeStringToFrame(frame, 35, 0, timeLabel, labelAttr);
-    this.writeStringToFrame(frame, 35 + timeLabel.length + 1, 0, LapTimer.format(hudData.lapTime), valueAttr);
+    var timeX = this.centerX - 5;
+    this.writeStringToFrame(frame, timeX, 0, timeLabel, labelAttr);
+    this.writeStringToFrame(frame, timeX + timeLabel.length + 1, 0, LapTimer.format(hudData.lapTime), valueAttr);
     
-    // Bottom bar (row 23):
+    // Bottom bar (last row):
     // LEFT:  [====LAP 2/3====]
     // RIGHT: [300] [=====SPD=====]
     // Position (8th) on row above, far left
@@ -4668,30 +4782,73 @@ class FrameRenderer implements IRenderer {
       speedDisplay = displaySpeed.toFixed(1) + speedSuffix;
     }
     var speedAttr = displaySpeed > maxDisplaySpeed ? colorToAttr({ fg: LIGHTRED, bg: BG_BLACK }) : valueAttr;
-    var speedX = 79 - speedDisplay.length;  // Right-align before bar
+    var speedX = this.width - 1 - speedDisplay.length;  // Right-align before bar
     this.writeStringToFrame(frame, speedX - 12, bottomY, speedDisplay, speedAttr);
-    this.renderSpeedometerBarCompact(frame, hudData.speed, hudData.speedMax, 67, bottomY, 11);
+    this.renderSpeedometerBarCompact(frame, hudData.speed, hudData.speedMax, this.width - 13, bottomY, 11);
     
-    // Held item display - ABOVE speedometer (rows 20-22, right side)
+    // Held item display - ABOVE speedometer (right side)
     this.renderItemSlotWithIcon(frame, hudData.heldItem);
     
+    // Track minimap - top right corner
+    this.renderMinimap(frame, hudData);
+    
     // Render countdown stoplight if race hasn't started
     if (hudData.countdown > 0 && hudData.raceMode === RaceMode.GRAND_PRIX) {
       this.renderStoplight(frame, hudData.countdown);
     }
+    
+    // Flashing wrong-way warning, centered under the timer
+    if (hudData.wrongWay && Math.floor(Date.now() / 300) % 2 === 0) {
+      var warning = ' ' + GLYPH.TRIANGLE_LEFT + GLYPH.TRIANGLE_LEFT + ' WRONG WAY ' + GLYPH.TRIANGLE_LEFT + GLYPH.TRIANGLE_LEFT + ' ';
+      var warnX = Math.floor((this.width - warning.length) / 2);
+      this.writeStringToFrame(frame, warnX, 2, warning, makeAttr(YELLOW, BG_RED));
+    }
+  }
+  
+  /**
+   * Render the track minimap: dotted outline, racers (o) in their colors,
+   * the leader (O) flashing and the player (@) drawn last so it is never hidden.
+   */
+  private renderMinimap(frame: any, hudData: HudData): void {
+    var outline = hudData.minimapOutline;
+    if (outline.length === 0) return;
+    
+    var outlineAttr = makeAttr(DARKGRAY, BG_BLACK);
+    for (var i = 0; i < outline.length; i++) {
+      frame.setData(outline[i].x, outline[i].y, GLYPH.DOT, outlineAttr);
+    }
+    
+    var flashOn = Math.floor(Date.now() / 400) % 2 === 0;
+    var player: MinimapVehicle | null = null;
+    for (var j = 0; j < hudData.minimapVehicles.length; j++) {
+      var v = hudData.minimapVehicles[j];
+      if (v.isPlayer) {
+        player = v;
+        continue;
+      }
+      if (v.isLeader) {
+        frame.setData(v.x, v.y, GLYPH.CIRCLE, makeAttr(flashOn ? WHITE : v.color, BG_BLACK));
+      } else {
+        frame.setData(v.x, v.y, GLYPH.BULLET, makeAttr(v.color, BG_BLACK));
+      }
+    }
+    
+    if (player) {
+      frame.setData(player.x, player.y, GLYPH.INVERSE_BULLET, makeAttr(player.isLeader && flashOn ? WHITE : player.color, BG_BLACK));
+    }
   }
   
   /**
    * Render item slot with visual icon ABOVE the speedometer.
    * Layout: [divider] [quantity if >1] [icon]
-   * Icon area: rows 19-21, columns 67-79 (same width as speedometer below)
-   * Row 22 is margin between icons and speedometer on row 23.
+   * Icon area: the 3 rows ending 2 above the bottom, in the last 13 columns
+   * (same width as the speedometer below), with a row of margin between.
    */
   private renderItemSlotWithIcon(frame: any, heldItem: HeldItemData | null): void {
-    var slotLeft = 67;      // Align with speedometer
-    var slotRight = 79;     // Right edge of screen
-    var slotTop = 19;       // 4 rows above bottom (moved up 1 for margin)
-    var slotBottom = 21;    // 2 rows above speedometer
+    var slotLeft = this.width - 13;     // Align with speedometer
+    var slotRight = this.width - 1;     // Right edge of screen
+    var slotTop = this.height - 5;      // 4 rows above bottom (moved up 1 for margin)
+    var slotBottom = this.height - 3;   // 2 rows above speedometer
     var slotHeight = 3;
     var slotWidth = slotRight - slotLeft + 1;  // 13 chars wide
     
@@ -4949,7 +5106,7 @@ class FrameRenderer implements IRenderer {
    */
   private renderStoplight(frame: Frame, countdown: number): void {
     var countNum = Math.ceil(countdown);
-    var centerX = 40;
+    var centerX = this.centerX;
     var topY = 3;  // Near top, below HUD bar
     
     // Frame/housing colors
@@ -5114,11 +5271,11 @@ class FrameRenderer implements IRenderer {
    * Trigger a lightning bolt visual effect at a specific X position.
    * The bolt will animate from the top of the screen to the target Y.
    * 
-   * @param targetX - X position on screen (0-79)
+   * @param targetX - X position on screen (0 to width - 1)
    * @param targetY - Y position where bolt terminates (default: player car)
    */
   triggerLightningBolt(targetX?: number, targetY?: number): void {
-    var x = targetX !== undefined ? targetX : 40;  // Default to center
+    var x = targetX !== undefined ? targetX : this.centerX;  // Default to center
     var y = targetY !== undefined ? targetY : this.height - 3;  // Default to player car
     
     this._lightningBolts.push({
@@ -5136,7 +5293,7 @@ class FrameRenderer implements IRenderer {
    */
   triggerLightningStrike(hitCount: number): void {
     // Always add a main bolt at center (player's screen)
-    this.triggerLightningBolt(40, this.height - 3);
+    this.triggerLightningBolt(this.centerX, this.height - 3);
     
     // Add additional bolts at random positions for dramatic effect
     var additionalBolts = Math.min(hitCount, 4);  // Cap at 4 extra bolts
@@ -284,8 +284,9 @@ class ANSITunnelRenderer {
    * Displays 24 continuous rows of ANSI - just like opening it in a viewer.
    * 
    * NEW: Road surface is black with white dividers, ANSI shows only on roadsides.
+   * @param maxRoadDistance - Scanline distance at the horizon (grows with taller screens)
    */
-  renderTunnel(skyFrame: Frame | null, roadFrame: Frame | null, horizonY: number, roadHeight: number, screenWidth: number, trackPosition: number, cameraX: number, road: Road, roadLength: number): void {
+  renderTunnel(skyFrame: Frame | null, roadFrame: Frame | null, horizonY: number, roadHeight: number, screenWidth: number, trackPosition: number, cameraX: number, road: Road, roadLength: number, maxRoadDistance: number): void {
     // Debug: log once per session
     if (!this._renderDebugLogged) {
       this._renderDebugLogged = true;
@@ -329,7 +330,7 @@ class ANSITunnelRenderer {
         // Calculate perspective road boundaries for this scanline
         // This MUST match the logic in renderANSIRoadStripes for alignment
         var t = (roadBottom - screenY) / Math.max(1, roadBottom);
-        var distance = 1 / (1 - t * 0.95);
+        var distance = 1 / (1 - t * (1 - 1 / maxRoadDistance));
         
         // Get road segment and accumulate curvature
         var worldZ = trackPosition + distance * 5;
@@ -343,7 +344,7 @@ class ANSITunnelRenderer {
         
         // Apply curve offset and camera position (matches renderANSIRoadStripes exactly)
         var curveOffset = accumulatedCurve * distance * 0.8;
-        var centerX = 40 + Math.round(curveOffset) - Math.round(cameraX * 0.5);
+        var centerX = Math.floor(screenWidth / 2) + Math.round(curveOffset) - Math.round(cameraX * 0.5);
         
         var leftEdge = centerX - halfWidth;
         var rightEdge = centerX + halfWidth;
@@ -0,0 +1,533 @@
+/**
+ * ThemeLoader - Loads themes and roadside sprites from files.
+ *
+ * loadDefinitions() reads theme files from the configured themes
+ * directory (see themes/README.md for the format). A file theme starts
+ * from a built-in theme ("extends") and overrides any of its sections;
+ * it can also declare roadside sprites drawn as CP437 .ans/.bin art,
+ * one file per scale. Loaded themes are registered alongside the
+ * built-in ones, so a custom track's themeId can name them.
+ */
+
+/** Largest sprite the roadside frame pool can show (see FrameManager) */
+var THEME_SPRITE_MAX_WIDTH = 8;
+var THEME_SPRITE_MAX_HEIGHT = 6;
+
+/** Scales the renderer picks from (see FrameRenderer.getScaleForDistance) */
+var THEME_SPRITE_MAX_SCALES = 5;
+
+var THEME_SKY_TYPES = ['grid', 'stars', 'gradient', 'plain', 'water'];
+var THEME_BACKGROUND_TYPES = ['mountains', 'skyscrapers', 'dunes', 'forest', 'hills', 'ocean',
+  'jungle_canopy', 'candy_hills', 'nebula', 'castle_fortress', 'volcanic', 'pyramids',
+  'stadium', 'destroyed_city', 'underwater', 'aquarium'];
+var THEME_CELESTIAL_TYPES = ['sun', 'moon', 'dual_moons', 'monster', 'mermaid', 'none'];
+var THEME_GROUND_TYPES = ['solid', 'grid', 'dither', 'grass', 'sand', 'lava', 'candy', 'void',
+  'cobblestone', 'jungle', 'dirt', 'water'];
+
+class ThemeLoader {
+  /**
+   * Load every *.json theme in a directory. Sprites from all files are
+   * registered first, so one theme may use another file's sprites.
+   * Invalid files are logged and skipped; they never abort the scan.
+   */
+  loadDefinitions(dirPath: string): Theme[] {
+    var themes: Theme[] = [];
+    var files: string[] = [];
+
+    try {
+      if (typeof directory === 'function') {
+        files = directory(dirPath + '/*.json') || [];
+      }
+    } catch (e) {
+      logWarning("ThemeLoader: Error scanning theme directory " + dirPath + " - " + e);
+      return themes;
+    }
+
+    var parsed: { path: string; data: any }[] = [];
+    for (var i = 0; i < files.length; i++) {
+      var data = this.readJson(files[i]);
+      if (data === null) continue;
+      if (typeof data !== 'object' || data instanceof Array) {
+        logError("ThemeLoader: " + files[i] + ": top level must be an object");
+        continue;
+      }
+      parsed.push({ path: files[i], data: data });
+    }
+
+    for (var s = 0; s < parsed.length; s++) {
+      this.loadSprites(parsed[s].data.sprites, dirPath, parsed[s].path);
+    }
+
+    for (var t = 0; t < parsed.length; t++) {
+      var theme = this.parseTheme(parsed[t].data, parsed[t].path);
+      if (!theme) continue;
+      registerTheme(theme);
+      themes.push(theme);
+    }
+
+    logInfo("ThemeLoader: Loaded " + themes.length + " of " + files.length +
+            " theme files from " + dirPath);
+    return themes;
+  }
+
+  private readJson(path: string): any {
+    var content: string;
+    try {
+      var f = new File(path);
+      if (!f.open('r')) {
+        logError("ThemeLoader: " + path + ": unable to open file");
+        return null;
+      }
+      content = f.read();
+      f.close();
+    } catch (e) {
+      logError("ThemeLoader: " + path + ": read failed - " + e);
+      return null;
+    }
+
+    try {
+      return JSON.parse(content);
+    } catch (e) {
+      logError("ThemeLoader: " + path + ": invalid JSON - " + e);
+      return null;
+    }
+  }
+
+  /**
+   * Register a file's "sprites" entries as roadside sprites.
+   */
+  private loadSprites(sprites: any, dirPath: string, source: string): void {
+    if (sprites === undefined) return;
+    if (!sprites || typeof sprites !== 'object' || sprites instanceof Array) {
+      logError("ThemeLoader: " + source + ": 'sprites' must be an object");
+      return;
+    }
+
+    for (var name in sprites) {
+      if (!sprites.hasOwnProperty(name)) continue;
+      var label = "sprites." + name;
+      if (!/^[a-z0-9_]+$/.test(name)) {
+        logError("ThemeLoader: " + source + ": " + label + ": name must be lowercase letters, digits and underscores");
+        continue;
+      }
+      if (ROADSIDE_SPRITES[name]) {
+        logError("ThemeLoader: " + source + ": " + label + ": a sprite with this name already exists");
+        continue;
+      }
+
+      var sprite = this.loadSprite(name, sprites[name], dirPath, source + ": " + label);
+      if (sprite) {
+        registerRoadsideSprite(name, this.spriteCreator(sprite));
+      }
+    }
+  }
+
+  private spriteCreator(sprite: SpriteDefinition): () => SpriteDefinition {
+    return function() { return sprite; };
+  }
+
+  /**
+   * Build a sprite from its per-scale art files (smallest first).
+   */
+  private loadSprite(name: string, spec: any, dirPath: string, label: string): SpriteDefinition | null {
+    if (!spec || typeof spec !== 'object' || !(spec.files instanceof Array) ||
+        spec.files.length === 0 || spec.files.length > THEME_SPRITE_MAX_SCALES) {
+      logError("ThemeLoader: " + label + ".files must list 1 to " + THEME_SPRITE_MAX_SCALES + " art files");
+      return null;
+    }
+
+    var variants: (SpriteCell | null)[][][] = [];
+    for (var i = 0; i < spec.files.length; i++) {
+      var file = spec.files[i];
+      var fileLabel = label + ".files[" + i + "]";
+      if (typeof file !== 'string' || file.indexOf('..') !== -1) {
+        logError("ThemeLoader: " + fileLabel + " must be a file name in the themes directory");
+        return null;
+      }
+
+      var path = dirPath + '/' + file;
+      var image: ANSIImage | null = null;
+      var ext = file.substring(file.lastIndexOf('.')).toLowerCase();
+      if (ext === '.ans') {
+        image = ANSILoader.load(path);
+      } else if (ext === '.bin') {
+        if (!isIntegerInRange(spec.width, 1, 80)) {
+          logError("ThemeLoader: " + label + ".width must be an integer from 1 to 80 for .bin art");
+          return null;
+        }
+        image = ANSILoader.loadBin(path, spec.width);
+      } else {
+        logError("ThemeLoader: " + fileLabel + " must be an .ans or .bin file");
+        return null;
+      }
+
+      if (!image) {
+        logError("ThemeLoader: " + fileLabel + ": unable to load " + path);
+        return null;
+      }
+      var variant = imageToSpriteVariant(image);
+      if (variant.length === 0) {
+        logError("ThemeLoader: " + fileLabel + ": art is empty");
+        return null;
+      }
+      if (variant.length > THEME_SPRITE_MAX_HEIGHT || variant[0].length > THEME_SPRITE_MAX_WIDTH) {
+        logWarning("ThemeLoader: " + fileLabel + ": larger than " + THEME_SPRITE_MAX_WIDTH + "x" +
+                   THEME_SPRITE_MAX_HEIGHT + ", clipped");
+        variant = variant.slice(variant.length - Math.min(variant.length, THEME_SPRITE_MAX_HEIGHT));
+        for (var r = 0; r < variant.length; r++) {
+          variant[r] = variant[r].slice(0, THEME_SPRITE_MAX_WIDTH);
+        }
+      }
+      variants.push(variant);
+    }
+
+    return { name: name, variants: variants };
+  }
+
+  /**
+   * Validate a theme file and build the theme from its base.
+   * Logs every problem found (prefixed with source) and returns null
+   * if any were fatal.
+   */
+  parseTheme(data: any, source: string): Theme | null {
+    var errors: string[] = [];
+
+    if (typeof data.name !== 'string' || !/^[a-z0-9_]+$/.test(data.name)) {
+      errors.push("'name' must be a lowercase string of letters, digits and underscores");
+    } else if (ThemeRegistry[data.name]) {
+      errors.push("'name' " + data.name + " is already a theme");
+    }
+    if (data.description !== undefined && typeof data.description !== 'string') {
+      errors.push("'description' must be a string");
+    }
+    var baseName = data.extends !== undefined ? data.extends : 'synthwave';
+    var base = typeof baseName === 'string' ? getTheme(baseName) : null;
+    if (!base) {
+      errors.push("'extends' must be one of: " + getThemeNames().join(', '));
+      base = SynthwaveTheme;
+    }
+
+    // Start from a copy of the base and overlay each section given
+    var theme: Theme = JSON.parse(JSON.stringify(base));
+    theme.name = data.name;
+    theme.description = data.description || base.description;
+
+    if (data.colors !== undefined) {
+      this.parseColors(data.colors, theme.colors, errors);
+    }
+    if (data.sky !== undefined && this.checkSection(data.sky, 'sky', errors)) {
+      this.checkEnum(data.sky.type, THEME_SKY_TYPES, 'sky.type', errors);
+      this.checkNumber(data.sky.gridDensity, 1, 100, 'sky.gridDensity', errors);
+      this.checkBooleans(data.sky, ['converging', 'horizontal'], 'sky', errors);
+      if (data.sky.gridChar !== undefined && (typeof data.sky.gridChar !== 'string' || data.sky.gridChar.length !== 1)) {
+        errors.push("'sky.gridChar' must be a single character");
+      }
+      mergeThemeSection(theme.sky, data.sky);
+    }
+    if (data.background !== undefined && this.checkSection(data.background, 'background', errors)) {
+      this.checkEnum(data.background.type, THEME_BACKGROUND_TYPES, 'background.type', errors);
+      if (data.background.config !== undefined) {
+        if (this.checkSection(data.background.config, 'background.config', errors)) {
+          for (var key in data.background.config) {
+            var value = data.background.config[key];
+            if (data.background.config.hasOwnProperty(key) && typeof value !== 'number' && typeof value !== 'boolean') {
+              errors.push("'background.config." + key + "' must be a number or true/false");
+            }
+          }
+        }
+        // A new background type starts from a clean config
+        if (data.background.type !== undefined && data.background.type !== base.background.type) {
+          theme.background.config = {};
+        }
+        mergeThemeSection(theme.background.config, data.background.config);
+      }
+      if (data.background.type !== undefined) theme.background.type = data.background.type;
+    }
+    if (data.celestial !== undefined && this.checkSection(data.celestial, 'celestial', errors)) {
+      this.checkEnum(data.celestial.type, THEME_CELESTIAL_TYPES, 'celestial.type', errors);
+      this.checkNumber(data.celestial.size, 1, 5, 'celestial.size', errors);
+      this.checkNumber(data.celestial.positionX, 0, 1, 'celestial.positionX', errors);
+      this.checkNumber(data.celestial.positionY, 0, 1, 'celestial.positionY', errors);
+      mergeThemeSection(theme.celestial, data.celestial);
+    }
+    if (data.stars !== undefined && this.checkSection(data.stars, 'stars', errors)) {
+      this.checkBooleans(data.stars, ['enabled', 'twinkle'], 'stars', errors);
+      this.checkNumber(data.stars.density, 0, 1, 'stars.density', errors);
+      mergeThemeSection(theme.stars, data.stars);
+    }
+    if (data.ground !== undefined && this.checkSection(data.ground, 'ground', errors)) {
+      var ground = theme.ground || { type: 'solid', primary: theme.colors.shoulderPrimary, secondary: theme.colors.shoulderSecondary };
+      this.checkEnum(data.ground.type, THEME_GROUND_TYPES, 'ground.type', errors);
+      if (data.ground.type !== undefined) ground.type = data.ground.type;
+      if (data.ground.primary !== undefined) ground.primary = parseThemeColorPair(data.ground.primary, 'ground.primary', errors);
+      if (data.ground.secondary !== undefined) ground.secondary = parseThemeColorPair(data.ground.secondary, 'ground.secondary', errors);
+      if (data.ground.pattern !== undefined && this.checkSection(data.ground.pattern, 'ground.pattern', errors)) {
+        ground.pattern = data.ground.pattern;
+      }
+      theme.ground = ground;
+    }
+    if (data.roadside !== undefined && this.checkSection(data.roadside, 'roadside', errors)) {
+      if (data.roadside.pool !== undefined) {
+        theme.roadside.pool = this.parsePool(data.roadside.pool, errors);
+      }
+      this.checkNumber(data.roadside.spacing, 1, 1000, 'roadside.spacing', errors);
+      this.checkNumber(data.roadside.density, 0.1, 10, 'roadside.density', errors);
+      if (data.roadside.spacing !== undefined) theme.roadside.spacing = data.roadside.spacing;
+      if (data.roadside.density !== undefined) theme.roadside.density = data.roadside.density;
+    }
+    if (data.road !== undefined && this.checkSection(data.road, 'road', errors)) {
+      this.checkBooleans(data.road, ['rainbow', 'hideEdgeMarkers'], 'road', errors);
+      theme.road = theme.road || {};
+      mergeThemeSection(theme.road, data.road);
+    }
+    if (data.hud !== undefined && this.checkSection(data.hud, 'hud', errors)) {
+      var hudLabels = ['speedLabel', 'positionPrefix', 'lapLabel', 'timeLabel'];
+      for (var h = 0; h < hudLabels.length; h++) {
+        var label = data.hud[hudLabels[h]];
+        if (label !== undefined && (typeof label !== 'string' || label.length > 10)) {
+          errors.push("'hud." + hudLabels[h] + "' must be a string of up to 10 characters");
+        }
+      }
+      this.checkNumber(data.hud.speedMultiplier, 0.01, 100, 'hud.speedMultiplier', errors);
+      theme.hud = theme.hud || {};
+      mergeThemeSection(theme.hud, data.hud);
+    }
+
+    if (errors.length > 0) {
+      for (var e = 0; e < errors.length; e++) {
+        logError("ThemeLoader: " + source + ": " + errors[e]);
+      }
+      return null;
+    }
+    return theme;
+  }
+
+  /**
+   * Overlay the given colors onto a copy of the base theme's palette.
+   */
+  private parseColors(data: any, colors: ThemeColors, errors: string[]): void {
+    if (!this.checkSection(data, 'colors', errors)) return;
+
+    var palette = colors as any;
+    for (var key in data) {
+      if (!data.hasOwnProperty(key)) continue;
+      var label = 'colors.' + key;
+
+      if (key === 'itemBox') {
+        if (!this.checkSection(data.itemBox, label, errors)) continue;
+        colors.itemBox = {
+          border: parseThemeColorPair(data.itemBox.border, label + '.border', errors),
+          fill: parseThemeColorPair(data.itemBox.fill, label + '.fill', errors),
+          symbol: parseThemeColorPair(data.itemBox.symbol, label + '.symbol', errors)
+        };
+      } else if (key === 'roadsideColors') {
+        if (!this.checkSection(data.roadsideColors, label, errors)) continue;
+        colors.roadsideColors = colors.roadsideColors || {};
+        for (var sprite in data.roadsideColors) {
+          if (!data.roadsideColors.hasOwnProperty(sprite)) continue;
+          var entry = data.roadsideColors[sprite];
+          var entryLabel = label + '.' + sprite;
+          if (!this.checkSection(entry, entryLabel, errors)) continue;
+          colors.roadsideColors[sprite] = {
+            primary: parseThemeColorPair(entry.primary, entryLabel + '.primary', errors)
+          };
+          if (entry.secondary !== undefined) colors.roadsideColors[sprite].secondary = parseThemeColorPair(entry.secondary, entryLabel + '.secondary', errors);
+          if (entry.tertiary !== undefined) colors.roadsideColors[sprite].tertiary = parseThemeColorPair(entry.tertiary, entryLabel + '.tertiary', errors);
+        }
+      } else if (palette[key] !== undefined) {
+        palette[key] = parseThemeColorPair(data[key], label, errors);
+      } else {
+        errors.push("'" + label + "' is not a theme color");
+      }
+    }
+  }
+
+  private parsePool(data: any, errors: string[]): RoadsidePoolEntry[] {
+    var pool: RoadsidePoolEntry[] = [];
+    if (!(data instanceof Array) || data.length === 0) {
+      errors.push("'roadside.pool' must be a non-empty array");
+      return pool;
+    }
+
+    for (var i = 0; i < data.length; i++) {
+      var entry = data[i];
+      var label = 'roadside.pool[' + i + ']';
+      if (!this.checkSection(entry, label, errors)) continue;
+      if (typeof entry.sprite !== 'string' || !ROADSIDE_SPRITES[entry.sprite]) {
+        errors.push("'" + label + ".sprite' must be a built-in sprite or one declared in 'sprites'");
+        continue;
+      }
+      if (!isNumberInRange(entry.weight, 0.01, 100)) {
+        errors.push("'" + label + ".weight' must be a number from 0.01 to 100");
+        continue;
+      }
+      if (entry.side !== undefined && entry.side !== 'left' && entry.side !== 'right' && entry.side !== 'both') {
+        errors.push("'" + label + ".side' must be left, right or both");
+        continue;
+      }
+      pool.push({ sprite: entry.sprite, weight: entry.weight, side: entry.side || 'both' });
+    }
+    return pool;
+  }
+
+  private checkSection(value: any, label: string, errors: string[]): boolean {
+    if (!value || typeof value !== 'object' || value instanceof Array) {
+      errors.push("'" + label + "' must be an object");
+      return false;
+    }
+    return true;
+  }
+
+  private checkEnum(value: any, allowed: string[], label: string, errors: string[]): void {
+    if (value !== undefined && allowed.indexOf(value) === -1) {
+      errors.push("'" + label + "' must be one of: " + allowed.join(', '));
+    }
+  }
+
+  private checkNumber(value: any, min: number, max: number, label: string, errors: string[]): void {
+    if (value !== undefined && !isNumberInRange(value, min, max)) {
+      errors.push("'" + label + "' must be a number from " + min + " to " + max);
+    }
+  }
+
+  private checkBooleans(section: any, keys: string[], label: string, errors: string[]): void {
+    for (var i = 0; i < keys.length; i++) {
+      var value = section[keys[i]];
+      if (value !== undefined && typeof value !== 'boolean') {
+        errors.push("'" + label + "." + keys[i] + "' must be true or false");
+      }
+    }
+  }
+}
+
+/**
+ * Copy every field of a theme file section over the theme's section.
+ */
+function mergeThemeSection(target: any, source: any): void {
+  for (var key in source) {
+    if (source.hasOwnProperty(key)) {
+      target[key] = source[key];
+    }
+  }
+}
+
+/** Foreground color names accepted in JSON files */
+var FG_COLOR_NAMES: { [name: string]: number } = {
+  BLACK: BLACK, BLUE: BLUE, GREEN: GREEN, CYAN: CYAN, RED: RED, MAGENTA: MAGENTA,
+  BROWN: BROWN, LIGHTGRAY: LIGHTGRAY, DARKGRAY: DARKGRAY, LIGHTBLUE: LIGHTBLUE,
+  LIGHTGREEN: LIGHTGREEN, LIGHTCYAN: LIGHTCYAN, LIGHTRED: LIGHTRED,
+  LIGHTMAGENTA: LIGHTMAGENTA, YELLOW: YELLOW, WHITE: WHITE
+};
+
+/**
+ * Parse { "fg": "LIGHTCYAN", "bg": "BG_BLACK" } (names or numbers).
+ */
+function parseThemeColorPair(data: any, label: string, errors: string[]): ColorPair {
+  if (!data || typeof data !== 'object') {
+    errors.push("'" + label + "' must be an object with fg and bg");
+    return { fg: LIGHTGRAY, bg: BG_BLACK };
+  }
+
+  var bgNames: { [name: string]: number } = {
+    BG_BLACK: BG_BLACK, BG_BLUE: BG_BLUE, BG_GREEN: BG_GREEN, BG_CYAN: BG_CYAN,
+    BG_RED: BG_RED, BG_MAGENTA: BG_MAGENTA, BG_BROWN: BG_BROWN, BG_LIGHTGRAY: BG_LIGHTGRAY
+  };
+
+  var fg = typeof data.fg === 'string' ? FG_COLOR_NAMES[data.fg.toUpperCase()] : data.fg;
+  var bg = typeof data.bg === 'string' ? bgNames[data.bg.toUpperCase()] : data.bg;
+  if (!isIntegerInRange(fg, 0, 15)) {
+    errors.push("'" + label + ".fg' must be a color name such as LIGHTCYAN");
+    fg = LIGHTGRAY;
+  }
+  if (!isIntegerInRange(bg, 0, 0x70) || (bg & 0x0F) !== 0) {
+    errors.push("'" + label + ".bg' must be a background name such as BG_BLACK");
+    bg = BG_BLACK;
+  }
+  return { fg: fg, bg: bg };
+}
+
+/**
+ * Crop art to its drawn cells. Spaces (and NULs) on a black background
+ * are transparent.
+ */
+function imageToSpriteVariant(image: ANSIImage): (SpriteCell | null)[][] {
+  var isClear = function(cell: ANSICell): boolean {
+    return (cell.char === ' ' || cell.char === '\0' || cell.char === '') && (cell.attr & 0x70) === 0;
+  };
+
+  var top = image.height, bottom = -1, left = image.width, right = -1;
+  for (var row = 0; row < image.height; row++) {
+    for (var col = 0; col < image.width; col++) {
+      if (isClear(image.cells[row][col])) continue;
+      if (row < top) top = row;
+      if (row > bottom) bottom = row;
+      if (col < left) left = col;
+      if (col > right) right = col;
+    }
+  }
+
+  var variant: (SpriteCell | null)[][] = [];
+  for (var r = top; r <= bottom; r++) {
+    var cells: (SpriteCell | null)[] = [];
+    for (var c = left; c <= right; c++) {
+      var cell = image.cells[r][c];
+      cells.push(isClear(cell) ? null : { char: cell.char, attr: cell.attr });
+    }
+    variant.push(cells);
+  }
+  return variant;
+}
+
+/**
+ * Track selector preview colors for a file theme (built-in themes have
+ * hand-picked entries in TRACK_THEMES).
+ */
+function trackThemeFromTheme(theme: Theme): TrackTheme {
+  var words = theme.name.split('_');
+  for (var i = 0; i < words.length; i++) {
+    words[i] = words[i].charAt(0).toUpperCase() + words[i].substring(1);
+  }
+  var sceneryTypes: string[] = [];
+  for (var p = 0; p < theme.roadside.pool.length; p++) {
+    sceneryTypes.push(theme.roadside.pool[p].sprite);
+  }
+
+  var colors = theme.colors;
+  return {
+    id: theme.name,
+    name: words.join(' '),
+    sky: { top: colors.skyTop, horizon: colors.skyHorizon, gridColor: colors.skyGrid },
+    sun: { color: colors.celestialCore, glowColor: colors.celestialGlow, position: theme.celestial.positionX },
+    road: { surface: colors.roadSurface, stripe: colors.roadStripe, edge: colors.roadEdge, grid: colors.roadGrid },
+    offroad: {
+      groundColor: theme.ground ? theme.ground.primary : colors.shoulderPrimary,
+      sceneryTypes: sceneryTypes,
+      sceneryDensity: Math.min(1, theme.roadside.density * 0.5)
+    },
+    background: { type: theme.background.type, color: colors.sceneryPrimary, highlightColor: colors.scenerySecondary }
+  };
+}
+
+/**
+ * Themes loaded from the themes directory (lazy, loaded once).
+ */
+var _customThemes: Theme[] | null = null;
+
+/**
+ * Load and register the file themes, returning them. Each also gets a
+ * TRACK_THEMES entry so custom tracks can use it as their themeId.
+ */
+function getCustomThemes(): Theme[] {
+  if (_customThemes === null) {
+    _customThemes = new ThemeLoader().loadDefinitions(OUTRUN_CONFIG.themes.directory);
+    for (var i = 0; i < _customThemes.length; i++) {
+      var theme = _customThemes[i];
+      if (TRACK_THEMES[theme.name]) {
+        logWarning("ThemeLoader: theme '" + theme.name + "' shares a name with a track theme, preview colors not replaced");
+        continue;
+      }
+      TRACK_THEMES[theme.name] = trackThemeFromTheme(theme);
+    }
+  }
+  return _customThemes;
+}
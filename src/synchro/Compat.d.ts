@@ -15,6 +15,9 @@ declare function load(filename: string): any;
 declare function log(level: number, text: string): void;
 declare function require(filename: string, symbol?: string): any;
 
+/** Command-line arguments when run under jsexec */
+declare var argv: string[];
+
 // ============================================================
 // KEY CONSTANTS (from key_defs.js)
 // ============================================================
@@ -160,6 +163,7 @@ declare var js: SynchronetJS;
 
 interface SynchronetBBS {
   sys_status: number;
+  node_num: number;
   // Add more bbs properties as needed
 }
 
@@ -182,6 +186,9 @@ declare function log(level: number, message: string): void;
 declare function sleep(seconds: number): void;
 declare function time(): number;
 declare function random(max: number): number;
+declare function mkdir(path: string): boolean;
+declare function file_rename(oldname: string, newname: string): boolean;
+declare function file_remove(path: string): boolean;
 
 // ============================================================
 // FILE CLASS
@@ -35,7 +35,7 @@ var CarSelector = {
     
     // Find initial selection (first unlocked car)
     for (var i = 0; i < cars.length; i++) {
-      if (cars[i].unlocked) {
+      if (isCarUnlocked(cars[i].id)) {
         selectedCarIndex = i;
         break;
       }
@@ -74,7 +74,7 @@ var CarSelector = {
           if (selectedCarIndex < 0) selectedCarIndex = cars.length - 1;
           // Skip locked cars
           var attempts = 0;
-          while (!cars[selectedCarIndex].unlocked && attempts < cars.length) {
+          while (!isCarUnlocked(cars[selectedCarIndex].id) && attempts < cars.length) {
             selectedCarIndex--;
             if (selectedCarIndex < 0) selectedCarIndex = cars.length - 1;
             attempts++;
@@ -88,7 +88,7 @@ var CarSelector = {
           if (selectedCarIndex >= cars.length) selectedCarIndex = 0;
           // Skip locked cars
           var attempts = 0;
-          while (!cars[selectedCarIndex].unlocked && attempts < cars.length) {
+          while (!isCarUnlocked(cars[selectedCarIndex].id) && attempts < cars.length) {
             selectedCarIndex++;
             if (selectedCarIndex >= cars.length) selectedCarIndex = 0;
             attempts++;
@@ -113,7 +113,8 @@ var CarSelector = {
         case '\r':
         case '\n':
         case ' ':
-          if (currentCar.unlocked) {
+          // Locked colors can be browsed but not picked
+          if (isCarUnlocked(currentCar.id) && isCarColorUnlocked(currentCar.id, currentColor.id)) {
             confirmed = true;
             running = false;
           }
@@ -178,19 +179,20 @@ var CarSelector = {
     for (var i = 0; i < cars.length; i++) {
       var car = cars[i];
       var y = listY + i * 2;
-      var attr = (i === selectedIndex) ? selectedAttr : (car.unlocked ? listAttr : lockedAttr);
+      var carUnlocked = isCarUnlocked(car.id);
+      var attr = (i === selectedIndex) ? selectedAttr : (carUnlocked ? listAttr : lockedAttr);
       
       // Selection indicator
       var indicator = (i === selectedIndex) ? '>' : ' ';
       composer.writeString(listX, y, indicator, attr);
       
       // Car name
-      var name = car.unlocked ? car.name : '??? LOCKED ???';
+      var name = carUnlocked ? car.name : '??? LOCKED ???';
       composer.writeString(listX + 2, y, name, attr);
       
       // Lock indicator
-      if (!car.unlocked) {
-        composer.writeString(listX + 2, y + 1, car.unlockHint || 'Complete challenges', lockedAttr);
+      if (!carUnlocked) {
+        composer.writeString(listX + 2, y + 1, getUnlockHint(car.id), lockedAttr);
       }
     }
     
@@ -199,7 +201,7 @@ var CarSelector = {
     var detailY = 4;
     var currentCar = cars[selectedIndex];
     
-    if (currentCar.unlocked) {
+    if (isCarUnlocked(currentCar.id)) {
       // Car name and description
       var nameAttr = makeAttr(YELLOW, BG_BLACK);
       composer.writeString(detailX, detailY, currentCar.name, nameAttr);
@@ -224,12 +226,24 @@ var CarSelector = {
       // Handling
       composer.writeString(detailX, statsY + 2, 'HANDLING:', statLabelAttr);
       this.renderStatBar(composer, detailX + 11, statsY + 2, currentCar.stats.handling, statBarAttr, statBarEmptyAttr);
+
+      // Weight
+      composer.writeString(detailX, statsY + 3, 'WEIGHT:', statLabelAttr);
+      this.renderStatBar(composer, detailX + 11, statsY + 3, currentCar.stats.weight, statBarAttr, statBarEmptyAttr);
+
+      // Off-road grip
+      composer.writeString(detailX, statsY + 4, 'OFF-ROAD:', statLabelAttr);
+      this.renderStatBar(composer, detailX + 11, statsY + 4, currentCar.stats.offroadGrip, statBarAttr, statBarEmptyAttr);
       
       // Color selection
-      var colorY = statsY + 5;
+      var colorY = statsY + 6;
       var colorLabelAttr = makeAttr(LIGHTMAGENTA, BG_BLACK);
       composer.writeString(detailX, colorY, 'COLOR: < ' + currentColor.name + ' >', colorLabelAttr);
       composer.writeString(detailX, colorY + 1, '(' + (colorIndex + 1) + '/' + totalColors + ')', instructAttr);
+      if (!isCarColorUnlocked(currentCar.id, currentColor.id)) {
+        composer.writeString(detailX + 8, colorY + 1, 'LOCKED', makeAttr(RED, BG_BLACK));
+        composer.writeString(detailX, colorY + 2, getUnlockHint(currentCar.id, currentColor.id), lockedAttr);
+      }
       
       // Car preview (render the sprite)
       var previewY = colorY + 3;
@@ -239,7 +253,7 @@ var CarSelector = {
       // Locked car - show mystery
       var lockedMsgAttr = makeAttr(RED, BG_BLACK);
       composer.writeString(detailX, detailY, 'VEHICLE LOCKED', lockedMsgAttr);
-      composer.writeString(detailX, detailY + 2, currentCar.unlockHint || 'Complete challenges to unlock', lockedAttr);
+      composer.writeString(detailX, detailY + 2, getUnlockHint(currentCar.id), lockedAttr);
     }
     
     // Render buffer to screen
@@ -256,7 +270,7 @@ var CarSelector = {
     for (var y = 0; y < buffer.length; y++) {
       var rowBand = y <= 2 ? 'title' : (y >= 21 ? 'prompt' : 'content');
       scene3d.selectRawDepth(rowBand);
-      console.gotoxy(1, y + 1);
+      viewportGotoxy(1, y + 1);
       for (var x = 0; x < buffer[y].length; x++) {
         // The selected car preview occupies the lower-right card. Give the
         // vehicle its own near plane while the lists remain on the menu deck.
@@ -0,0 +1,120 @@
+/**
+ * CareerScreen.ts - The player's career statistics.
+ *
+ * Left: race record, distance and favorites. Right: cup trophies and the
+ * most used items. Uses a fixed 80x24 viewport, centered on larger terminals.
+ */
+
+/** Rows available for each right-hand list */
+var CAREER_LIST_ROWS = 6;
+
+/**
+ * Show the career screen until a key is pressed.
+ */
+function showCareerScreen(profile: PlayerProfile): void {
+  var stats = profile.getStats();
+  var screenWidth = 80;
+
+  scene3d.selectRawDepth('glass');
+  console.clear(BG_BLACK, false);
+
+  scene3d.selectRawDepth('title');
+  var title = "=== CAREER: " + getMultiplayerName().toUpperCase() + " ===";
+  viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+  console.attributes = YELLOW | BG_BLACK;
+  console.print(title);
+
+  // Race record
+  var favoriteCarId = profile.getFavoriteCar();
+  var favoriteCar = favoriteCarId ? getCarDefinition(favoriteCarId) : null;
+  var favoriteTrackId = profile.getFavoriteTrack();
+  var favoriteTrack = favoriteTrackId ? getTrackDefinition(favoriteTrackId) : null;
+  var winRate = stats.racesFinished > 0 ? Math.round(stats.wins / stats.racesFinished * 100) + "%" : "-";
+
+  var rows: string[][] = [
+    ["Races started", String(stats.racesStarted)],
+    ["Races finished", String(stats.racesFinished)],
+    ["Wins", String(stats.wins)],
+    ["Podiums", String(stats.podiums)],
+    ["Win rate", winRate],
+    ["Distance", (stats.totalDistance / CAREER_UNITS_PER_MILE).toFixed(1) + " mi"],
+    ["Favorite car", favoriteCar ? favoriteCar.name : (favoriteCarId || "-")],
+    ["Favorite track", favoriteTrack ? favoriteTrack.name : (favoriteTrackId || "-")]
+  ];
+  for (var i = 0; i < rows.length; i++) {
+    drawCareerRow(4, 5 + i, rows[i][0], rows[i][1].substring(0, 20));
+  }
+
+  // Cup trophies
+  drawCareerHeading(44, 5, "CUP TROPHIES     GOLD SILV BRNZ");
+  var cupIds = Object.keys(stats.cupTrophies);
+  if (cupIds.length === 0) {
+    drawCareerRow(44, 6, "None yet", "");
+  }
+  for (var c = 0; c < cupIds.length && c < CAREER_LIST_ROWS; c++) {
+    var trophies = stats.cupTrophies[cupIds[c]];
+    scene3d.selectRawDepth('content');
+    viewportGotoxy(44, 6 + c);
+    console.attributes = WHITE | BG_BLACK;
+    console.print(padRight(getCareerCupName(cupIds[c]).substring(0, 16), 17) +
+      padRight(String(trophies.gold), 5) + padRight(String(trophies.silver), 5) + trophies.bronze);
+  }
+
+  // Most used items
+  var itemTop = 7 + CAREER_LIST_ROWS;
+  drawCareerHeading(44, itemTop, "ITEMS USED");
+  var items = Object.keys(stats.itemUses).sort(function(a, b) {
+    return stats.itemUses[b] - stats.itemUses[a];
+  });
+  if (items.length === 0) {
+    drawCareerRow(44, itemTop + 1, "None yet", "");
+  }
+  for (var n = 0; n < items.length && n < CAREER_LIST_ROWS; n++) {
+    drawCareerRow(44, itemTop + 1 + n, formatCareerItemName(items[n]), String(stats.itemUses[items[n]]));
+  }
+
+  scene3d.selectRawDepth('prompt');
+  var prompt = "Press any key to return";
+  viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 21);
+  console.attributes = LIGHTMAGENTA | BG_BLACK;
+  console.print(prompt);
+  scene3d.selectRawDepth('glass');
+
+  console.inkey(K_NONE, 60000);
+}
+
+function drawCareerHeading(x: number, y: number, text: string): void {
+  scene3d.selectRawDepth('title');
+  viewportGotoxy(x, y);
+  console.attributes = LIGHTCYAN | BG_BLACK;
+  console.print(text);
+}
+
+function drawCareerRow(x: number, y: number, label: string, value: string): void {
+  scene3d.selectRawDepth('content');
+  viewportGotoxy(x, y);
+  console.attributes = LIGHTGRAY | BG_BLACK;
+  console.print(padRight(label, 17));
+  console.attributes = WHITE | BG_BLACK;
+  console.print(value);
+}
+
+/**
+ * Display name for a cup id (falls back to the id for cups no longer offered).
+ */
+function getCareerCupName(cupId: string): string {
+  if (cupId === CUSTOM_CUP_CAREER_ID) return 'CUSTOM CUPS';
+  var cup = getCupDefinition(cupId);
+  return cup ? cup.name : cupId;
+}
+
+/**
+ * "RED_SHELL" -> "Red Shell".
+ */
+function formatCareerItemName(item: string): string {
+  var words = item.toLowerCase().split('_');
+  for (var i = 0; i < words.length; i++) {
+    words[i] = words[i].charAt(0).toUpperCase() + words[i].substring(1);
+  }
+  return words.join(' ');
+}
@@ -0,0 +1,125 @@
+/**
+ * ControlsMenu.ts - Remap the racing controls.
+ *
+ * Keys (fixed, whatever the bindings are):
+ * - Up/Down (8/2) = choose an action
+ * - ENTER   = replace the action's keys with the next key pressed
+ * - +       = add another key to the action
+ * - R       = restore the default controls
+ * - Q / ESC = save and return
+ * Uses a fixed 80x24 viewport, centered on larger terminals.
+ */
+
+/** How long to wait for the key being bound (ms) */
+var CONTROLS_CAPTURE_TIMEOUT_MS = 10000;
+
+/** Most keys listed per action */
+var CONTROLS_MAX_KEYS_SHOWN = 6;
+
+/**
+ * Run the controls menu for a user, saving their bindings on exit.
+ */
+function showControlsMenu(userNumber: number): void {
+  var inputMap = getPlayerInputMap();
+  var selected = 0;
+  var message = "";
+
+  while (true) {
+    drawControlsMenu(inputMap, selected, message, false);
+    message = "";
+
+    var key = console.inkey(K_NONE, 1000);
+    if (key === '') continue;
+
+    if (key === KEY_UP || key === '8') {
+      selected = (selected + REMAPPABLE_ACTIONS.length - 1) % REMAPPABLE_ACTIONS.length;
+    } else if (key === KEY_DOWN || key === '2') {
+      selected = (selected + 1) % REMAPPABLE_ACTIONS.length;
+    } else if (key === '\r' || key === '+') {
+      var action = REMAPPABLE_ACTIONS[selected];
+      drawControlsMenu(inputMap, selected, "Press the new key for " + getActionLabel(action) + "...", true);
+      var newKey = console.inkey(K_NONE, CONTROLS_CAPTURE_TIMEOUT_MS);
+      if (newKey === '') {
+        message = "No key pressed - unchanged.";
+        continue;
+      }
+      var previous = inputMap.getAction(newKey);
+      if (key === '+') {
+        inputMap.addKey(action, newKey);
+      } else {
+        inputMap.setKey(action, newKey);
+      }
+      if (previous !== GameAction.NONE && previous !== action) {
+        message = getKeyLabel(newKey) + " moved from " + getActionLabel(previous) + ".";
+      }
+    } else if (key.toUpperCase() === 'R') {
+      inputMap.resetToDefaults();
+      message = "Default controls restored.";
+    } else if (key.toUpperCase() === 'Q' || key === KEY_ESC) {
+      var unbound = findUnboundAction(inputMap);
+      if (unbound !== GameAction.NONE) {
+        message = getActionLabel(unbound) + " needs a key before you leave.";
+        continue;
+      }
+      if (new KeyBindingStore().save(inputMap, userNumber)) {
+        logInfo('Saved key bindings for user ' + userNumber);
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * First remappable action with no key, or NONE.
+ */
+function findUnboundAction(inputMap: InputMap): GameAction {
+  for (var i = 0; i < REMAPPABLE_ACTIONS.length; i++) {
+    if (inputMap.getKeysFor(REMAPPABLE_ACTIONS[i]).length === 0) {
+      return REMAPPABLE_ACTIONS[i];
+    }
+  }
+  return GameAction.NONE;
+}
+
+/**
+ * Draw the action list with the current keys for each.
+ */
+function drawControlsMenu(inputMap: InputMap, selected: number, message: string, capturing: boolean): void {
+  var screenWidth = 80;
+
+  scene3d.selectRawDepth('glass');
+  console.clear(BG_BLACK, false);
+
+  scene3d.selectRawDepth('title');
+  var title = "=== CONTROLS ===";
+  viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+  console.attributes = YELLOW | BG_BLACK;
+  console.print(title);
+
+  var tableLeft = 14;
+  var tableTop = 5;
+  scene3d.selectRawDepth('content');
+  for (var i = 0; i < REMAPPABLE_ACTIONS.length; i++) {
+    var action = REMAPPABLE_ACTIONS[i];
+    var isSelected = i === selected;
+    scene3d.selectRawDepth(isSelected ? 'vehicleNear' : 'content');
+    viewportGotoxy(tableLeft, tableTop + i);
+    console.attributes = (isSelected ? (capturing ? LIGHTMAGENTA : LIGHTCYAN) : LIGHTGRAY) | BG_BLACK;
+    console.print((isSelected ? "> " : "  ") + padRight(getActionLabel(action), 22) +
+      describeActionKeys(inputMap, action, CONTROLS_MAX_KEYS_SHOWN));
+  }
+
+  if (message) {
+    scene3d.selectRawDepth('content');
+    viewportGotoxy(Math.floor((screenWidth - message.length) / 2), 18);
+    console.attributes = (capturing ? WHITE : LIGHTRED) | BG_BLACK;
+    console.print(message);
+  }
+
+  scene3d.selectRawDepth('prompt');
+  var prompt = "ENTER Set key   + Add key   R Defaults   Q Save & back";
+  viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 21);
+  console.attributes = LIGHTMAGENTA | BG_BLACK;
+  console.print(prompt);
+  scene3d.selectRawDepth('glass');
+}
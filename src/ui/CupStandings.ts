@@ -5,7 +5,7 @@
 /**
  * Render cup standings screen.
  * Returns when user presses Enter to continue.
- * Uses fixed 80x24 viewport for consistent layout.
+ * Uses a fixed 80x24 viewport, centered on larger terminals.
  */
 function showCupStandings(
   cupManager: CupManager,
@@ -14,7 +14,7 @@ function showCupStandings(
   var state = cupManager.getState();
   if (!state) return;
   
-  // Fixed 80x24 viewport
+  // Fixed 80x24 viewport (centered by viewportGotoxy)
   var screenWidth = 80;
   var screenHeight = 24;
   
@@ -26,7 +26,7 @@ function showCupStandings(
   // Title
   scene3d.selectRawDepth('title');
   var title = "=== " + state.definition.name.toUpperCase() + " ===";
-  console.gotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+  viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
   console.attributes = YELLOW | BG_BLACK;
   console.print(title);
   
@@ -46,7 +46,7 @@ function showCupStandings(
       raceInfo = "After Race " + (cupManager.getCurrentRaceNumber() - 1) + " of " + cupManager.getTotalRaces();
     }
   }
-  console.gotoxy(Math.floor((screenWidth - raceInfo.length) / 2), 4);
+  viewportGotoxy(Math.floor((screenWidth - raceInfo.length) / 2), 4);
   console.attributes = LIGHTCYAN | BG_BLACK;
   console.print(raceInfo);
   
@@ -55,7 +55,7 @@ function showCupStandings(
     var trackId = cupManager.getCurrentTrackId();
     if (trackId) {
       var trackName = getTrackDisplayName(trackId);
-      console.gotoxy(Math.floor((screenWidth - trackName.length) / 2), 5);
+      viewportGotoxy(Math.floor((screenWidth - trackName.length) / 2), 5);
       console.attributes = WHITE | BG_BLACK;
       console.print(trackName);
     }
@@ -68,12 +68,12 @@ function showCupStandings(
   var tableLeft = Math.floor((screenWidth - tableWidth) / 2);
   
   // Header
-  console.gotoxy(tableLeft, tableTop);
+  viewportGotoxy(tableLeft, tableTop);
   console.attributes = LIGHTGRAY | BG_BLACK;
   console.print("POS  RACER                    POINTS");
   
   // Separator
-  console.gotoxy(tableLeft, tableTop + 1);
+  viewportGotoxy(tableLeft, tableTop + 1);
   console.print("------------------------------------");
   
   // Standings rows
@@ -82,7 +82,7 @@ function showCupStandings(
     var row = tableTop + 2 + i;
     
     scene3d.selectRawDepth(s.isPlayer ? 'vehicleNear' : 'content');
-    console.gotoxy(tableLeft, row);
+    viewportGotoxy(tableLeft, row);
     
     // Position
     var posStr = PositionIndicator.getOrdinalSuffix(i + 1);
@@ -110,7 +110,12 @@ function showCupStandings(
     
     // Name (pad to 24 chars)
     var name = s.isPlayer ? "YOU" : s.name;
+    var isRival = !s.isPlayer && s.personaId !== undefined && s.personaId === state.rivalId;
+    if (isRival) name += " (RIVAL)";
     while (name.length < 24) name += ' ';
+    if (isRival) {
+      console.attributes = LIGHTRED | BG_BLACK;
+    }
     console.print(name);
     
     // Points
@@ -142,7 +147,7 @@ function showCupStandings(
   // Points system reference
   scene3d.selectRawDepth('content');
   var refRow = tableTop + 2 + standings.length + 2;
-  console.gotoxy(tableLeft, refRow);
+  viewportGotoxy(tableLeft, refRow);
   console.attributes = DARKGRAY | BG_BLACK;
   console.print("Points: 1st=15 2nd=12 3rd=10 4th=8 5th=6...");
   
@@ -152,7 +157,7 @@ function showCupStandings(
   if (state.isComplete) {
     prompt = "Press ENTER to see results";
   }
-  console.gotoxy(Math.floor((screenWidth - prompt.length) / 2), screenHeight - 3);
+  viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), screenHeight - 3);
   console.attributes = LIGHTMAGENTA | BG_BLACK;
   console.print(prompt);
   
@@ -189,13 +194,13 @@ function waitForEnter(): void {
 
 /**
  * Show winner's circle for cup completion.
- * Uses fixed 80x24 viewport for consistent layout.
+ * Uses a fixed 80x24 viewport, centered on larger terminals.
  */
 function showWinnersCircle(cupManager: CupManager): void {
   var state = cupManager.getState();
   if (!state) return;
   
-  // Fixed 80x24 viewport
+  // Fixed 80x24 viewport (centered by viewportGotoxy)
   var screenWidth = 80;
   var playerWon = cupManager.didPlayerWin();
   var playerPos = cupManager.getPlayerCupPosition();
@@ -224,18 +229,18 @@ function showWinnersCircle(cupManager: CupManager): void {
     
     var trophyTop = 3;
     for (var t = 0; t < trophy.length; t++) {
-      console.gotoxy(Math.floor((screenWidth - trophy[t].length) / 2), trophyTop + t);
+      viewportGotoxy(Math.floor((screenWidth - trophy[t].length) / 2), trophyTop + t);
       console.print(trophy[t]);
     }
     
     var winTitle = "=== CHAMPION! ===";
     scene3d.selectRawDepth('title');
-    console.gotoxy(Math.floor((screenWidth - winTitle.length) / 2), trophyTop + trophy.length + 2);
+    viewportGotoxy(Math.floor((screenWidth - winTitle.length) / 2), trophyTop + trophy.length + 2);
     console.attributes = LIGHTGREEN | BG_BLACK;
     console.print(winTitle);
     
     var cupName = state.definition.name + " Winner!";
-    console.gotoxy(Math.floor((screenWidth - cupName.length) / 2), trophyTop + trophy.length + 4);
+    viewportGotoxy(Math.floor((screenWidth - cupName.length) / 2), trophyTop + trophy.length + 4);
     console.attributes = WHITE | BG_BLACK;
     console.print(cupName);
   } else {
@@ -244,7 +249,7 @@ function showWinnersCircle(cupManager: CupManager): void {
     var posStr = playerPos + PositionIndicator.getOrdinalSuffix(playerPos);
     var resultTitle = "=== " + posStr + " PLACE ===";
     
-    console.gotoxy(Math.floor((screenWidth - resultTitle.length) / 2), 5);
+    viewportGotoxy(Math.floor((screenWidth - resultTitle.length) / 2), 5);
     if (playerPos <= 3) {
       console.attributes = YELLOW | BG_BLACK;  // Podium
     } else {
@@ -253,18 +258,18 @@ function showWinnersCircle(cupManager: CupManager): void {
     console.print(resultTitle);
     
     var cupName2 = state.definition.name + " Complete";
-    console.gotoxy(Math.floor((screenWidth - cupName2.length) / 2), 7);
+    viewportGotoxy(Math.floor((screenWidth - cupName2.length) / 2), 7);
     console.attributes = WHITE | BG_BLACK;
     console.print(cupName2);
     
     if (playerPos <= 3) {
       var podiumMsg = "You made the podium!";
-      console.gotoxy(Math.floor((screenWidth - podiumMsg.length) / 2), 9);
+      viewportGotoxy(Math.floor((screenWidth - podiumMsg.length) / 2), 9);
       console.attributes = LIGHTCYAN | BG_BLACK;
       console.print(podiumMsg);
     } else {
       var tryAgain = "Better luck next time!";
-      console.gotoxy(Math.floor((screenWidth - tryAgain.length) / 2), 9);
+      viewportGotoxy(Math.floor((screenWidth - tryAgain.length) / 2), 9);
       console.attributes = LIGHTGRAY | BG_BLACK;
       console.print(tryAgain);
     }
@@ -273,20 +278,20 @@ function showWinnersCircle(cupManager: CupManager): void {
   // Stats - positioned right after trophy/title area
   scene3d.selectRawDepth('content');
   var statsTop = 16;
-  console.gotoxy(Math.floor((screenWidth - 30) / 2), statsTop);
+  viewportGotoxy(Math.floor((screenWidth - 30) / 2), statsTop);
   console.attributes = LIGHTGRAY | BG_BLACK;
   console.print("Total Points: " + cupManager.getPlayerPoints());
   
-  console.gotoxy(Math.floor((screenWidth - 30) / 2), statsTop + 1);
+  viewportGotoxy(Math.floor((screenWidth - 30) / 2), statsTop + 1);
   console.print("Circuit Time: " + formatCupTime(state.totalTime));
   
-  console.gotoxy(Math.floor((screenWidth - 30) / 2), statsTop + 2);
+  viewportGotoxy(Math.floor((screenWidth - 30) / 2), statsTop + 2);
   console.print("Best Laps Sum: " + formatCupTime(state.totalBestLaps));
   
   // Prompt - at bottom of screen, well below stats
   scene3d.selectRawDepth('prompt');
   var prompt = "Press ENTER to continue";
-  console.gotoxy(Math.floor((screenWidth - prompt.length) / 2), 22);
+  viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 22);
   console.attributes = LIGHTMAGENTA | BG_BLACK;
   console.print(prompt);
   
@@ -0,0 +1,191 @@
+/**
+ * CustomCupBuilder.ts - Build a cup from any 2-8 tracks.
+ *
+ * Keys:
+ * - Up/Down (W/S, 8/2) = choose a track
+ * - ENTER / SPACE      = add the track to the cup, or take it out
+ * - + / -              = laps for every race
+ * - < / >              = race class
+ * - H                  = this cup's high scores
+ * - G                  = race the cup
+ * - Q / ESC            = back to the track selector
+ * Uses a fixed 80x24 viewport, centered on larger terminals.
+ */
+
+/** Tracks shown at once in the track list */
+var CUSTOM_CUP_LIST_ROWS = 14;
+
+/** Laps a new custom cup starts with */
+var CUSTOM_CUP_DEFAULT_LAPS = 3;
+
+/**
+ * Run the builder. Returns a cup selection, or { selected: false } to go back.
+ */
+function showCustomCupBuilder(raceClass: RaceClass, highScoreManager?: HighScoreManager): TrackSelectionResult {
+  var tracks = getAllTracks().filter(function(track) { return !track.hidden; });
+  var picked: string[] = [];
+  var laps = CUSTOM_CUP_DEFAULT_LAPS;
+  var classIndex = RACE_CLASSES.indexOf(raceClass);
+  var selected = 0;
+  var top = 0;
+  var message = "";
+
+  while (true) {
+    if (selected < top) top = selected;
+    if (selected >= top + CUSTOM_CUP_LIST_ROWS) top = selected - CUSTOM_CUP_LIST_ROWS + 1;
+    drawCustomCupBuilder(tracks, picked, laps, RACE_CLASSES[classIndex], selected, top, message);
+    message = "";
+
+    var key = console.inkey(K_UPPER, 60000);
+    if (key === '') continue;
+
+    if (key === KEY_UP || key === 'W' || key === '8') {
+      selected = (selected + tracks.length - 1) % tracks.length;
+    } else if (key === KEY_DOWN || key === 'S' || key === '2') {
+      selected = (selected + 1) % tracks.length;
+    } else if (key === '\r' || key === '\n' || key === ' ') {
+      var trackId = tracks[selected].id;
+      var index = picked.indexOf(trackId);
+      if (index !== -1) {
+        picked.splice(index, 1);
+      } else if (picked.length >= CUP_MAX_TRACKS) {
+        message = "A cup holds at most " + CUP_MAX_TRACKS + " tracks.";
+      } else {
+        picked.push(trackId);
+      }
+    } else if (key === '+' || key === '=') {
+      laps = Math.min(CUSTOM_CUP_MAX_LAPS, laps + 1);
+    } else if (key === '-' || key === '_') {
+      laps = Math.max(CUSTOM_CUP_MIN_LAPS, laps - 1);
+    } else if (key === '<' || key === ',') {
+      classIndex = (classIndex - 1 + RACE_CLASSES.length) % RACE_CLASSES.length;
+    } else if (key === '>' || key === '.') {
+      classIndex = (classIndex + 1) % RACE_CLASSES.length;
+    } else if (key === 'H' && highScoreManager) {
+      if (picked.length < CUP_MIN_TRACKS) {
+        message = "Pick at least " + CUP_MIN_TRACKS + " tracks first.";
+        continue;
+      }
+      var scoreCup = createCustomCup(picked, laps);
+      showHighScoreList(
+        HighScoreType.CIRCUIT_TIME,
+        getRaceClassScoreId(scoreCup.id, RACE_CLASSES[classIndex]),
+        '=== CIRCUIT HIGH SCORES ===',
+        getRaceClassScoreName(getCupScoreName(scoreCup), RACE_CLASSES[classIndex]),
+        highScoreManager
+      );
+    } else if (key === 'G') {
+      if (picked.length < CUP_MIN_TRACKS) {
+        message = "Pick at least " + CUP_MIN_TRACKS + " tracks first.";
+        continue;
+      }
+      var cup = createCustomCup(picked, laps);
+      return {
+        selected: true,
+        track: getCupTracks(cup)[0],
+        isCircuitMode: true,
+        cup: cup,
+        raceClass: RACE_CLASSES[classIndex]
+      };
+    } else if (key === 'Q' || key === KEY_ESC) {
+      return { selected: false, track: null };
+    }
+  }
+}
+
+/**
+ * Draw the track list on the left and the cup so far on the right.
+ */
+function drawCustomCupBuilder(
+  tracks: TrackDefinition[],
+  picked: string[],
+  laps: number,
+  raceClass: RaceClass,
+  selected: number,
+  top: number,
+  message: string
+): void {
+  var screenWidth = 80;
+
+  scene3d.selectRawDepth('glass');
+  console.clear(BG_BLACK, false);
+
+  scene3d.selectRawDepth('title');
+  var title = "=== CUSTOM CUP ===";
+  viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+  console.attributes = YELLOW | BG_BLACK;
+  console.print(title);
+
+  // Every track, with its place in the cup if picked
+  scene3d.selectRawDepth('content');
+  viewportGotoxy(4, 4);
+  console.attributes = WHITE | BG_BLACK;
+  console.print("TRACKS");
+  var last = Math.min(tracks.length, top + CUSTOM_CUP_LIST_ROWS);
+  for (var i = top; i < last; i++) {
+    var track = tracks[i];
+    var order = picked.indexOf(track.id);
+    var isSelected = i === selected;
+    scene3d.selectRawDepth(isSelected ? 'vehicleNear' : 'content');
+    viewportGotoxy(2, 6 + i - top);
+    console.attributes = (isSelected ? LIGHTCYAN : (order !== -1 ? WHITE : LIGHTGRAY)) | BG_BLACK;
+    console.print((isSelected ? "> " : "  ") + (order !== -1 ? "[" + (order + 1) + "] " : "[ ] ") +
+      padRight(track.name, 22));
+    console.attributes = YELLOW | BG_BLACK;
+    console.print(renderDifficultyStars(track.difficulty));
+  }
+  scene3d.selectRawDepth('content');
+  console.attributes = DARKGRAY | BG_BLACK;
+  if (top > 0) {
+    viewportGotoxy(38, 6);
+    console.print(String.fromCharCode(24));
+  }
+  if (last < tracks.length) {
+    viewportGotoxy(38, 5 + CUSTOM_CUP_LIST_ROWS);
+    console.print(String.fromCharCode(25));
+  }
+
+  // The cup so far
+  viewportGotoxy(44, 4);
+  console.attributes = WHITE | BG_BLACK;
+  console.print("YOUR CUP");
+  var totalTime = 0;
+  for (var p = 0; p < CUP_MAX_TRACKS; p++) {
+    viewportGotoxy(44, 6 + p);
+    var pickedTrack = p < picked.length ? getTrackDefinition(picked[p]) : null;
+    if (pickedTrack) {
+      console.attributes = LIGHTCYAN | BG_BLACK;
+      console.print((p + 1) + ". " + pickedTrack.name.substring(0, 28));
+      totalTime += pickedTrack.estimatedLapTime * laps;
+    } else {
+      console.attributes = DARKGRAY | BG_BLACK;
+      console.print((p + 1) + ". -");
+    }
+  }
+
+  var rows: string[][] = [
+    ["Laps", laps + " per race"],
+    ["Class", raceClass.name],
+    ["Est. Time", formatTime(totalTime)]
+  ];
+  for (var r = 0; r < rows.length; r++) {
+    viewportGotoxy(44, 15 + r);
+    console.attributes = LIGHTGRAY | BG_BLACK;
+    console.print(padRight(rows[r][0], 11));
+    console.attributes = (r === 1 && raceClass.mirror ? LIGHTMAGENTA : WHITE) | BG_BLACK;
+    console.print(rows[r][1]);
+  }
+
+  if (message) {
+    viewportGotoxy(Math.floor((screenWidth - message.length) / 2), 21);
+    console.attributes = LIGHTRED | BG_BLACK;
+    console.print(message);
+  }
+
+  scene3d.selectRawDepth('prompt');
+  var prompt = "ENTER Add/remove  +/- Laps  <> Class  H Scores  G Race  Q Back";
+  viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 23);
+  console.attributes = LIGHTMAGENTA | BG_BLACK;
+  console.print(prompt);
+  scene3d.selectRawDepth('glass');
+}
@@ -0,0 +1,278 @@
+/**
+ * MultiplayerLobby.ts - Host or join a race against other BBS nodes.
+ *
+ * Keys:
+ * - Lobby:        H = host a race, J = join the open race, Q = back
+ * - Waiting room: ENTER = start (host), Q = leave
+ * Uses a fixed 80x24 viewport, centered on larger terminals.
+ */
+
+/**
+ * Everything needed to start a multiplayer race.
+ */
+interface MultiplayerRaceSetup {
+  session: MultiplayerSession;
+  track: TrackDefinition;
+  carSelection: CarSelection;
+}
+
+/**
+ * Run the lobby until a race starts (returns its setup) or the user backs
+ * out (returns null).
+ */
+function showMultiplayerLobby(highScoreManager: HighScoreManager): MultiplayerRaceSetup | null {
+  var node = typeof bbs !== 'undefined' && bbs ? bbs.node_num : 0;
+  var channel = createRaceChannel(node);
+  if (!channel) {
+    showLobbyMessage("Multiplayer is unavailable on this BBS.");
+    return null;
+  }
+  var lobby = new Lobby(channel, node, getMultiplayerName());
+
+  while (true) {
+    var open = lobby.getOpenRace();
+    drawLobbyScreen(open);
+
+    var key = console.inkey(K_UPPER, 1000);
+    if (key === 'Q' || key === KEY_ESC) return null;
+
+    var setup: MultiplayerRaceSetup | null = null;
+    if (key === 'H') {
+      if (open) {
+        showLobbyMessage("A race is already open - join it instead.");
+        continue;
+      }
+      setup = hostMultiplayerRace(lobby, channel, node, highScoreManager);
+    } else if (key === 'J' && open) {
+      setup = joinMultiplayerRace(lobby, channel, node, open);
+    }
+    if (setup) return setup;
+  }
+}
+
+/**
+ * Host flow: pick track and car, wait for joins, start.
+ */
+function hostMultiplayerRace(
+  lobby: Lobby,
+  channel: IRaceChannel,
+  node: number,
+  highScoreManager: HighScoreManager
+): MultiplayerRaceSetup | null {
+  var trackSelection = showTrackSelector(highScoreManager);
+  if (!trackSelection.selected || !trackSelection.track || trackSelection.isCircuitMode) {
+    if (trackSelection.isCircuitMode) showLobbyMessage("Multiplayer races are single tracks, not cups.");
+    return null;
+  }
+  var track = trackSelection.track;
+
+  var carSelection = CarSelector.show(new SceneComposer(80, 24));
+  if (!carSelection.confirmed) return null;
+
+  var race = lobby.host(track.id, carSelection.carId, carSelection.colorId);
+  if (!race) {
+    showLobbyMessage("Another node just opened a race - join it instead.");
+    return null;
+  }
+  while (true) {
+    var refreshed = lobby.refreshHost(race);
+    if (!refreshed) {
+      showLobbyMessage("Another node opened a race first - join it instead.");
+      return null;
+    }
+    race = refreshed;
+    drawWaitingRoom(race, node, race.players.length > 1
+      ? "ENTER = Start race    Q = Cancel"
+      : "Waiting for players...    Q = Cancel");
+
+    var key = console.inkey(K_UPPER, 1000);
+    if (key === 'Q' || key === KEY_ESC) {
+      lobby.close(race);
+      return null;
+    }
+    if ((key === '\r' || key === '\n') && race.players.length > 1) {
+      race = lobby.start(race);
+      return { session: new MultiplayerSession(channel, race, node), track: track, carSelection: carSelection };
+    }
+  }
+}
+
+/**
+ * Join flow: pick a car, then wait in the room until the host starts.
+ */
+function joinMultiplayerRace(
+  lobby: Lobby,
+  channel: IRaceChannel,
+  node: number,
+  open: LobbyRace
+): MultiplayerRaceSetup | null {
+  var track = getTrackDefinition(open.trackId);
+  if (!track) return null;
+
+  var carSelection = CarSelector.show(new SceneComposer(80, 24));
+  if (!carSelection.confirmed) return null;
+
+  while (true) {
+    var race = lobby.refreshJoin(open.raceId, carSelection.carId, carSelection.colorId);
+    if (!race) {
+      lobby.leave(open.raceId);
+      showLobbyMessage("The host cancelled the race.");
+      return null;
+    }
+    if (race.state === 'started') {
+      if (findLobbyPlayer(race.players, node)) {
+        return { session: new MultiplayerSession(channel, race, node), track: track, carSelection: carSelection };
+      }
+      lobby.leave(open.raceId);
+      showLobbyMessage("The race started without you.");
+      return null;
+    }
+
+    drawWaitingRoom(race, node, "Waiting for the host to start...    Q = Leave");
+    var key = console.inkey(K_UPPER, 1000);
+    if (key === 'Q' || key === KEY_ESC) {
+      lobby.leave(open.raceId);
+      return null;
+    }
+  }
+}
+
+/**
+ * Render live multiplayer standings while racers are still finishing.
+ */
+function renderMultiplayerStandings(standings: MultiplayerStanding[], everyoneDone: boolean): void {
+  var screenWidth = 80;
+  var screenHeight = 24;
+
+  scene3d.selectRawDepth('glass');
+  console.clear(BG_BLACK, false);
+
+  scene3d.selectRawDepth('title');
+  var title = everyoneDone ? "=== FINAL STANDINGS ===" : "=== WAITING FOR RACERS ===";
+  viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+  console.attributes = YELLOW | BG_BLACK;
+  console.print(title);
+
+  var tableLeft = 18;
+  var tableTop = 5;
+  scene3d.selectRawDepth('content');
+  viewportGotoxy(tableLeft, tableTop);
+  console.attributes = LIGHTGRAY | BG_BLACK;
+  console.print("POS  RACER                    TIME");
+  viewportGotoxy(tableLeft, tableTop + 1);
+  console.print("------------------------------------------");
+
+  for (var i = 0; i < standings.length; i++) {
+    var s = standings[i];
+    scene3d.selectRawDepth(s.isLocal ? 'vehicleNear' : 'content');
+    viewportGotoxy(tableLeft, tableTop + 2 + i);
+    console.attributes = (s.isLocal ? LIGHTCYAN : WHITE) | BG_BLACK;
+
+    var posStr = (i + 1) + PositionIndicator.getOrdinalSuffix(i + 1);
+    var name = (s.isLocal ? "YOU" : s.name).substring(0, 24);
+    var status: string;
+    if (s.finishTime >= 0) {
+      status = LapTimer.format(s.finishTime);
+    } else if (!s.connected) {
+      status = "DNF";
+    } else {
+      status = "Lap " + s.lap;
+    }
+    console.print(padRight(posStr, 5) + padRight(name, 25) + status);
+  }
+
+  scene3d.selectRawDepth('prompt');
+  var prompt = everyoneDone ? "Press ENTER to continue" : "Press ENTER to skip";
+  viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), screenHeight - 3);
+  console.attributes = LIGHTMAGENTA | BG_BLACK;
+  console.print(prompt);
+  scene3d.selectRawDepth('glass');
+}
+
+/**
+ * Lobby screen: the open race (if any) and the available actions.
+ */
+function drawLobbyScreen(open: LobbyRace | null): void {
+  drawLobbyFrame("=== MULTIPLAYER ===");
+
+  scene3d.selectRawDepth('content');
+  viewportGotoxy(18, 6);
+  if (open) {
+    var track = getTrackDefinition(open.trackId);
+    console.attributes = WHITE | BG_BLACK;
+    console.print("Open race: " + (track ? track.name : open.trackId));
+    viewportGotoxy(18, 7);
+    console.attributes = LIGHTGRAY | BG_BLACK;
+    console.print("Host: " + open.players[0].name + "   Players: " + open.players.length + "/" + LOBBY_MAX_PLAYERS);
+  } else {
+    console.attributes = LIGHTGRAY | BG_BLACK;
+    console.print("No race is open. Host one and other nodes can join.");
+  }
+
+  drawLobbyPrompt(open ? "J = Join race    Q = Back" : "H = Host race    Q = Back");
+}
+
+/**
+ * Waiting room: the grid so far.
+ */
+function drawWaitingRoom(race: LobbyRace, node: number, prompt: string): void {
+  var track = getTrackDefinition(race.trackId);
+  drawLobbyFrame("=== " + (track ? track.name : race.trackId).toUpperCase() + " ===");
+
+  scene3d.selectRawDepth('content');
+  for (var i = 0; i < race.players.length; i++) {
+    var p = race.players[i];
+    scene3d.selectRawDepth(p.node === node ? 'vehicleNear' : 'content');
+    viewportGotoxy(18, 6 + i);
+    console.attributes = (p.node === node ? LIGHTCYAN : WHITE) | BG_BLACK;
+    var car = getCarDefinition(p.carId);
+    console.print(padRight((i + 1) + ".", 4) + padRight(p.name.substring(0, 24), 26) + (car ? car.name : p.carId) +
+      (p.node === race.hostNode ? "  (host)" : ""));
+  }
+
+  drawLobbyPrompt(prompt);
+}
+
+function drawLobbyFrame(title: string): void {
+  scene3d.selectRawDepth('glass');
+  console.clear(BG_BLACK, false);
+  scene3d.selectRawDepth('title');
+  viewportGotoxy(Math.floor((80 - title.length) / 2), 2);
+  console.attributes = YELLOW | BG_BLACK;
+  console.print(title);
+}
+
+function drawLobbyPrompt(prompt: string): void {
+  scene3d.selectRawDepth('prompt');
+  viewportGotoxy(Math.floor((80 - prompt.length) / 2), 21);
+  console.attributes = LIGHTMAGENTA | BG_BLACK;
+  console.print(prompt);
+  scene3d.selectRawDepth('glass');
+}
+
+/**
+ * Show a one-line notice and wait briefly for a key.
+ */
+function showLobbyMessage(message: string): void {
+  drawLobbyFrame("=== MULTIPLAYER ===");
+  scene3d.selectRawDepth('content');
+  viewportGotoxy(Math.floor((80 - message.length) / 2), 10);
+  console.attributes = LIGHTRED | BG_BLACK;
+  console.print(message);
+  drawLobbyPrompt("Press any key");
+  console.inkey(K_NONE, 5000);
+}
+
+/**
+ * Current user's alias, or "Node N" outside a BBS session.
+ */
+function getMultiplayerName(): string {
+  try {
+    if (typeof user !== 'undefined' && user && user.alias) {
+      return user.alias;
+    }
+  } catch (e) {
+    // user not available
+  }
+  return "Node " + (typeof bbs !== 'undefined' && bbs ? bbs.node_num : 0);
+}
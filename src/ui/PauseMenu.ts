@@ -0,0 +1,260 @@
+/**
+ * PauseMenu.ts - The in-race pause menu, drawn over the race on the HUD frame.
+ *
+ * Views:
+ * - main         - Resume, Restart Race, Settings, Quit to Menu
+ * - settings     - bell, HUD layout and controls (saved per user)
+ * - confirm_quit - "Quit to menu?" so a stray key never ends a race
+ *
+ * Keys (fixed, whatever the bindings are):
+ * - Up/Down (8/2)     = choose
+ * - ENTER             = select; Left/Right (4/6) also change a setting
+ * - ESC               = back (resume from the main view)
+ * - Y / N             = answer the quit confirmation
+ * Game owns the race side: it opens the menu, feeds it keys and acts on
+ * the PauseMenuAction returned.
+ */
+
+type PauseMenuView = 'main' | 'settings' | 'confirm_quit';
+
+/**
+ * What the race should do after a key:
+ * 'none'     - nothing (the menu changed itself)
+ * 'resume'   - close the menu and carry on
+ * 'restart'  - restart the race from the grid
+ * 'quit'     - leave the race (confirmed)
+ * 'settings' - a setting changed; save and apply it
+ * 'controls' - run the controls menu
+ */
+type PauseMenuAction = 'none' | 'resume' | 'restart' | 'quit' | 'settings' | 'controls';
+
+var PAUSE_MAIN_ITEMS = ['Resume', 'Restart Race', 'Settings', 'Quit to Menu'];
+var PAUSE_SETTINGS_ITEMS = ['Bell', 'HUD', 'Controls...', 'Back'];
+var PAUSE_CONFIRM_ITEMS = ['No, keep racing', 'Yes, quit'];
+
+/** Large "PAUSED" title (5 rows) */
+var PAUSE_TITLE_ART = [
+  ' ####   ###  #   # ### #### ####  ',
+  ' #   # #   # #   # #   #    #   # ',
+  ' ####  ##### #   # ### #### #   # ',
+  ' #     #   # #   #   # #    #   # ',
+  ' #     #   #  ###  ### #### ####  '
+];
+
+class PauseMenu {
+  private view: PauseMenuView;
+  private selected: number;
+  private open: boolean;
+  /** Opened straight into the quit confirmation (QUIT key while racing) */
+  private quitOnly: boolean;
+
+  constructor() {
+    this.view = 'main';
+    this.selected = 0;
+    this.open = false;
+    this.quitOnly = false;
+  }
+
+  /**
+   * Open at the main view (pause key).
+   */
+  show(): void {
+    this.open = true;
+    this.quitOnly = false;
+    this.setView('main');
+  }
+
+  /**
+   * Open at the quit confirmation (quit key). Answering No closes the
+   * menu again rather than leaving it at the main view.
+   */
+  showQuitConfirm(): void {
+    this.open = true;
+    this.quitOnly = true;
+    this.setView('confirm_quit');
+  }
+
+  hide(): void {
+    this.open = false;
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  /**
+   * Handle one key. Returns null if the menu has no use for it, so the
+   * caller can check it against the bindings (e.g. the pause key resumes).
+   */
+  handleKey(key: string): PauseMenuAction | null {
+    var items = this.getItems();
+    var upper = key.toUpperCase();
+
+    if (key === KEY_UP || key === '8') {
+      this.selected = (this.selected + items.length - 1) % items.length;
+      return 'none';
+    }
+    if (key === KEY_DOWN || key === '2') {
+      this.selected = (this.selected + 1) % items.length;
+      return 'none';
+    }
+    if (key === KEY_ESC) {
+      return this.back();
+    }
+
+    if (this.view === 'confirm_quit') {
+      if (upper === 'Y') return 'quit';
+      if (upper === 'N') return this.back();
+      if (key === '\r') return this.selected === 1 ? 'quit' : this.back();
+      return null;
+    }
+
+    if (this.view === 'settings') {
+      if (key === '\r' || key === KEY_LEFT || key === KEY_RIGHT || key === '4' || key === '6') {
+        return this.selectSetting(key === KEY_LEFT || key === '4' ? -1 : 1);
+      }
+      return null;
+    }
+
+    if (key !== '\r') return null;
+    switch (this.selected) {
+      case 0:
+        return 'resume';
+      case 1:
+        return 'restart';
+      case 2:
+        this.setView('settings');
+        return 'none';
+      default:
+        this.setView('confirm_quit');
+        return 'none';
+    }
+  }
+
+  /**
+   * Draw the menu centered on the HUD frame (call after the HUD is rendered).
+   */
+  draw(frame: Frame, inputMap: InputMap): void {
+    var boxTop = Math.floor((frame.height - 18) / 2);
+    var boxBottom = boxTop + 17;
+    var boxLeft = Math.floor((frame.width - 40) / 2);
+    var boxRight = boxLeft + 39;
+    var shadeAttr = makeAttr(DARKGRAY, BG_BLACK);
+    for (var by = boxTop; by <= boxBottom; by++) {
+      for (var bx = boxLeft; bx <= boxRight; bx++) {
+        var edge = by === boxTop || by === boxBottom || bx === boxLeft || bx === boxRight;
+        drawPauseMenuText(frame, bx, by, edge ? GLYPH.MEDIUM_SHADE : ' ', shadeAttr);
+      }
+    }
+
+    if (this.view === 'confirm_quit') {
+      drawPauseMenuCentered(frame, boxTop + 3, 'QUIT TO MENU?', makeAttr(YELLOW, BG_BLACK));
+      drawPauseMenuCentered(frame, boxTop + 5, 'This race will not count.', makeAttr(LIGHTGRAY, BG_BLACK));
+      this.drawItems(frame, PAUSE_CONFIRM_ITEMS, boxTop + 8);
+      drawPauseMenuCentered(frame, boxBottom - 2, 'Y Quit   N Keep racing', makeAttr(LIGHTMAGENTA, BG_BLACK));
+      return;
+    }
+
+    // Rainbow title, cycling with the clock
+    var rainbowColors = [LIGHTRED, YELLOW, LIGHTGREEN, LIGHTCYAN, LIGHTBLUE, LIGHTMAGENTA];
+    var titleAttr = makeAttr(rainbowColors[Math.floor(system.timer * 8) % rainbowColors.length], BG_BLACK);
+    var titleX = Math.floor((frame.width - PAUSE_TITLE_ART[0].length) / 2);
+    for (var row = 0; row < PAUSE_TITLE_ART.length; row++) {
+      var line = PAUSE_TITLE_ART[row];
+      for (var col = 0; col < line.length; col++) {
+        if (line.charAt(col) !== ' ') {
+          drawPauseMenuText(frame, titleX + col, boxTop + 1 + row, GLYPH.FULL_BLOCK, titleAttr);
+        }
+      }
+    }
+
+    var settings = getPlayerSettings();
+    var labels = this.view === 'settings'
+      ? [
+          'Bell: ' + (settings.bell ? 'ON' : 'OFF'),
+          'HUD: ' + (settings.hudLayout === 'full' ? 'FULL' : 'MINIMAL'),
+          PAUSE_SETTINGS_ITEMS[2],
+          PAUSE_SETTINGS_ITEMS[3]
+        ]
+      : PAUSE_MAIN_ITEMS;
+    this.drawItems(frame, labels, boxTop + 7);
+
+    var help = this.view === 'settings'
+      ? 'ENTER Change   ESC Back'
+      : 'ENTER Select   ' + describeActionKeys(inputMap, GameAction.PAUSE, 1) + ' Resume';
+    drawPauseMenuCentered(frame, boxBottom - 2, help, makeAttr(LIGHTMAGENTA, BG_BLACK));
+
+    // A reminder of the active controls under the box
+    var controls = describeActionKeys(inputMap, GameAction.ACCELERATE, 2) + ' Gas  ' +
+      describeActionKeys(inputMap, GameAction.BRAKE, 2) + ' Brake  ' +
+      describeActionKeys(inputMap, GameAction.STEER_LEFT, 2) + '/' +
+      describeActionKeys(inputMap, GameAction.STEER_RIGHT, 2) + ' Steer  ' +
+      describeActionKeys(inputMap, GameAction.USE_ITEM, 1) + ' Item';
+    drawPauseMenuCentered(frame, boxBottom + 2, controls, makeAttr(LIGHTGRAY, BG_BLACK));
+  }
+
+  private drawItems(frame: Frame, labels: string[], top: number): void {
+    for (var i = 0; i < labels.length; i++) {
+      var isSelected = i === this.selected;
+      var text = (isSelected ? '> ' : '  ') + labels[i] + (isSelected ? ' <' : '  ');
+      drawPauseMenuCentered(frame, top + i, text, makeAttr(isSelected ? LIGHTCYAN : LIGHTGRAY, BG_BLACK));
+    }
+  }
+
+  private getItems(): string[] {
+    if (this.view === 'settings') return PAUSE_SETTINGS_ITEMS;
+    if (this.view === 'confirm_quit') return PAUSE_CONFIRM_ITEMS;
+    return PAUSE_MAIN_ITEMS;
+  }
+
+  private setView(view: PauseMenuView): void {
+    this.view = view;
+    this.selected = 0;
+  }
+
+  /**
+   * ESC / No: back to the main view, or resume from it.
+   */
+  private back(): PauseMenuAction {
+    if (this.view === 'main' || (this.view === 'confirm_quit' && this.quitOnly)) {
+      return 'resume';
+    }
+    var from = this.view;
+    this.setView('main');
+    this.selected = from === 'settings' ? 2 : 3;
+    return 'none';
+  }
+
+  /**
+   * Change the selected setting (step -1 / +1 through the choices).
+   */
+  private selectSetting(step: number): PauseMenuAction {
+    var settings = getPlayerSettings();
+    switch (this.selected) {
+      case 0:
+        settings.bell = !settings.bell;
+        return 'settings';
+      case 1:
+        var index = HUD_LAYOUTS.indexOf(settings.hudLayout);
+        settings.hudLayout = HUD_LAYOUTS[(index + step + HUD_LAYOUTS.length) % HUD_LAYOUTS.length];
+        return 'settings';
+      case 2:
+        return step > 0 ? 'controls' : 'none';
+      default:
+        return this.back();
+    }
+  }
+}
+
+function drawPauseMenuText(frame: Frame, x: number, y: number, text: string, attr: number): void {
+  for (var i = 0; i < text.length; i++) {
+    if (x + i >= 0 && x + i < frame.width && y >= 0 && y < frame.height) {
+      frame.setData(x + i + 1, y + 1, text.charAt(i), attr);
+    }
+  }
+}
+
+function drawPauseMenuCentered(frame: Frame, y: number, text: string, attr: number): void {
+  text = text.substring(0, frame.width - 2);
+  drawPauseMenuText(frame, Math.floor((frame.width - text.length) / 2), y, text, attr);
+}
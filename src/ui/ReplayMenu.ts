@@ -0,0 +1,108 @@
+/**
+ * ReplayMenu.ts - Pick a saved race replay and watch it.
+ *
+ * Lists every user's replays, newest first, so a good race can be shared
+ * with the whole BBS.
+ *
+ * Keys:
+ * - Up/Down (W/S, 8/2) = choose a replay
+ * - ENTER              = watch it (see ReplayViewer for the keys while watching)
+ * - D                  = delete it (your own replays only)
+ * - Q / ESC            = back
+ * Uses a fixed 80x24 viewport, centered on larger terminals.
+ */
+
+/** Replays shown at once */
+var REPLAY_LIST_ROWS = 12;
+
+/**
+ * Run the replay list until the user backs out.
+ */
+function showReplayMenu(userNumber: number): void {
+  var store = new ReplayStore();
+  var replays = store.list();
+  var selected = 0;
+
+  while (true) {
+    if (selected >= replays.length) selected = Math.max(0, replays.length - 1);
+    drawReplayMenu(replays, selected, userNumber);
+
+    var key = console.inkey(K_UPPER, 1000);
+    if (key === 'Q' || key === KEY_ESC) return;
+
+    if (key === KEY_UP || key === 'W' || key === '8') {
+      if (replays.length > 0) selected = (selected + replays.length - 1) % replays.length;
+    } else if (key === KEY_DOWN || key === 'S' || key === '2') {
+      if (replays.length > 0) selected = (selected + 1) % replays.length;
+    } else if ((key === '\r' || key === '\n') && replays.length > 0) {
+      if (!new ReplayViewer(replays[selected]).play()) {
+        showWatchMessage("That replay's track isn't installed.");
+      }
+    } else if (key === 'D' && replays.length > 0 && userNumber > 0 && replays[selected].userNumber === userNumber) {
+      if (store.remove(replays[selected])) {
+        replays.splice(selected, 1);
+      }
+    }
+  }
+}
+
+/**
+ * The replays: player, track, class, mode, finish time and place, date.
+ */
+function drawReplayMenu(replays: ReplayData[], selected: number, userNumber: number): void {
+  var screenWidth = 80;
+
+  scene3d.selectRawDepth('glass');
+  console.clear(BG_BLACK, false);
+
+  scene3d.selectRawDepth('title');
+  var title = "=== REPLAYS ===";
+  viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+  console.attributes = YELLOW | BG_BLACK;
+  console.print(title);
+
+  scene3d.selectRawDepth('content');
+  if (replays.length === 0) {
+    var none = "No replays yet. Finish a race to save one.";
+    viewportGotoxy(Math.floor((screenWidth - none.length) / 2), 10);
+    console.attributes = LIGHTGRAY | BG_BLACK;
+    console.print(none);
+  } else {
+    viewportGotoxy(4, 5);
+    console.attributes = LIGHTGRAY | BG_BLACK;
+    console.print(padRight("PLAYER", 16) + padRight("TRACK", 20) + padRight("CLASS", 7) +
+      padRight("TIME", 10) + padRight("PLACE", 7) + "DATE");
+    viewportGotoxy(4, 6);
+    console.print("------------------------------------------------------------------------");
+
+    var top = Math.max(0, Math.min(selected - REPLAY_LIST_ROWS + 1, replays.length - REPLAY_LIST_ROWS));
+    var last = Math.min(replays.length, top + REPLAY_LIST_ROWS);
+    for (var i = top; i < last; i++) {
+      var replay = replays[i];
+      var isSelected = i === selected;
+      var track = getTrackDefinition(replay.trackId);
+      var date = new Date(replay.date);
+      var place = replay.raceMode === RaceMode.TIME_TRIAL ? "TT" :
+        replay.position + PositionIndicator.getOrdinalSuffix(replay.position);
+      scene3d.selectRawDepth(isSelected ? 'vehicleNear' : 'content');
+      viewportGotoxy(2, 7 + i - top);
+      console.attributes = (isSelected ? LIGHTCYAN : (replay.userNumber === userNumber ? LIGHTGREEN : WHITE)) | BG_BLACK;
+      console.print((isSelected ? "> " : "  ") +
+        padRight(replay.playerName.substring(0, 14), 16) +
+        padRight((track ? track.name : replay.trackId).substring(0, 18), 20) +
+        padRight(getRaceClass(replay.raceClassId).name, 7) +
+        padRight(formatCupTime(replay.time), 10) +
+        padRight(place, 7) +
+        (date.getMonth() + 1) + "/" + date.getDate());
+    }
+  }
+
+  scene3d.selectRawDepth('prompt');
+  var canDelete = replays.length > 0 && userNumber > 0 && replays[selected].userNumber === userNumber;
+  var prompt = replays.length > 0 ?
+    "ENTER Watch   Up/Down Choose   " + (canDelete ? "D Delete   " : "") + "Q Back" : "Q Back";
+  viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 21);
+  console.attributes = LIGHTMAGENTA | BG_BLACK;
+  console.print(prompt);
+  scene3d.selectRawDepth('glass');
+}
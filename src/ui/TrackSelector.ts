@@ -1,99 +1,28 @@
 /**
  * TrackSelector - Circuit-based track selection UI inspired by Mario Kart.
  *
- * Layout:
+ * Layout (80x24 minimum; larger terminals widen and lengthen the map):
  * - Left panel (cols 1-22): Circuit/Track selector with icons
- * - Right panel (cols 23-80): Track info, route visualization, stats
+ * - Right panel (cols 23 to the right edge): Track info, route visualization, stats
  *
  * Circuits:
- * - 4 circuits with 4 tracks each (16 total, excluding test tracks)
+ * - Every cup in CupRegistry (the built-in cups, then the cups file)
+ * - CUSTOM TRACKS: custom tracks that aren't hidden (single races only)
  * - User can play full circuit or select individual tracks
+ * - < and > pick the race class (50cc/100cc/150cc/Mirror) for either
+ * - B opens the Custom Cup builder
  */
 
-// ============================================================
-// CIRCUIT DEFINITIONS
-// ============================================================
-
-interface Circuit {
-  id: string;
-  name: string;
-  icon: string[];     // 5-line ASCII art icon
-  color: number;      // Primary color
-  trackIds: string[]; // 4 track IDs in this circuit
-  description: string;
-}
-
-/**
- * The four racing circuits, each with 4 tracks.
- * 16 unique tracks across all circuits.
- */
-var CIRCUITS: Circuit[] = [
-  {
-    id: 'retro_cup',
-    name: 'RETRO CUP',
-    icon: [
-      '  ____  ',
-      ' /    \\ ',
-      '|  RC  |',
-      ' \\____/ ',
-      '   ||   '
-    ],
-    color: LIGHTCYAN,
-    trackIds: ['neon_coast', 'downtown_dash', 'sunset_beach', 'twilight_grove'],
-    description: 'Classic retro vibes'
-  },
-  {
-    id: 'nature_cup',
-    name: 'NATURE CUP',
-    icon: [
-      '   /\\   ',
-      '  /  \\  ',
-      ' /    \\ ',
-      '/______\\',
-      '   NC   '
-    ],
-    color: LIGHTGREEN,
-    trackIds: ['winter_wonderland', 'cactus_canyon', 'jungle_run', 'sugar_rush'],
-    description: 'Wild natural courses'
-  },
-  {
-    id: 'dark_cup',
-    name: 'DARK CUP',
-    icon: [
-      ' _\\||/_ ',
-      '  \\||/  ',
-      '  /||\\ ',
-      ' /_||\\_',
-      '   DC   '
-    ],
-    color: LIGHTMAGENTA,
-    trackIds: ['haunted_hollow', 'fortress_rally', 'inferno_speedway', 'mermaid_lagoon'],
-    description: 'Dangerous & mysterious'
-  },
-  {
-    id: 'special_cup',
-    name: 'SPECIAL CUP',
-    icon: [
-      '   **   ',
-      '  *  *  ',
-      ' * SC * ',
-      '  *  *  ',
-      '   **   '
-    ],
-    color: YELLOW,
-    trackIds: ['celestial_circuit', 'data_highway', 'glitch_circuit', 'kaiju_rampage'],
-    description: 'Ultimate challenge'
-  }
-];
-
 // ============================================================
 // UI STATE
 // ============================================================
 
 interface SelectorState {
   mode: 'circuit' | 'tracks';  // Current view mode
-  circuitIndex: number;        // Selected circuit (0-3)
-  trackIndex: number;          // Selected track within circuit (0-3), or 4 for "Play Circuit"
+  circuitIndex: number;        // Selected getSelectorCircuits() entry
+  circuitTop: number;          // First cup shown in the (scrolling) circuit list
+  trackIndex: number;          // Selected track within circuit, or trackIds.length for "Play Circuit"
+  classIndex: number;          // Selected RACE_CLASSES entry
 }
 
 // ============================================================
@@ -104,9 +33,9 @@ interface TrackSelectionResult {
   selected: boolean;
   track: TrackDefinition | null;
   isCircuitMode?: boolean;
-  circuitTracks?: TrackDefinition[] | null;
-  circuitId?: string;
-  circuitName?: string;
+  cup?: CupDefinition;              // Set with isCircuitMode: the registered or custom cup to race
+  dailyChallenge?: DailyChallenge;  // Set when the Daily Challenge was picked (car is fixed)
+  raceClass?: RaceClass;            // Class picked for a circuit or track (omitted = default)
 }
 
 // ============================================================
@@ -115,7 +44,16 @@ interface TrackSelectionResult {
 
 var LEFT_PANEL_WIDTH = 22;
 var RIGHT_PANEL_START = 24;
-var SCREEN_WIDTH = 80;
+
+/** Id of the CUSTOM TRACKS entry in the circuit list (never a registered cup) */
+var CUSTOM_TRACKS_GROUP_ID = 'custom_tracks';
+
+/** Tracks listed in the circuit info panel before "and N more" */
+var CIRCUIT_INFO_MAX_TRACKS = 8;
+
+// The terminal's size, set each time the selector opens
+var SCREEN_WIDTH = MIN_SCREEN_WIDTH;
+var SCREEN_HEIGHT = MIN_SCREEN_HEIGHT;
 
 // ============================================================
 // MAIN SELECTOR FUNCTION
@@ -125,10 +63,16 @@ var SCREEN_WIDTH = 80;
  * Display the track selector and wait for user input.
  */
 function showTrackSelector(highScoreManager?: HighScoreManager): TrackSelectionResult {
+  var screen = getScreenSize();
+  SCREEN_WIDTH = screen.width;
+  SCREEN_HEIGHT = screen.height;
+
   var state: SelectorState = {
     mode: 'circuit',
     circuitIndex: 0,
-    trackIndex: 0
+    circuitTop: 0,
+    trackIndex: 0,
+    classIndex: RACE_CLASSES.indexOf(getRaceClass(DEFAULT_RACE_CLASS_ID))
   };
 
   // Initial draw
@@ -141,15 +85,26 @@ function showTrackSelector(highScoreManager?: HighScoreManager): TrackSelectionR
     if (key === '') continue;
 
     var needsRedraw = false;
+    var raceClass = RACE_CLASSES[state.classIndex];
+    var cups = getSelectorCircuits();
 
-    if (state.mode === 'circuit') {
+    // Race class, in either view
+    if (key === '<' || key === ',') {
+      state.classIndex = (state.classIndex - 1 + RACE_CLASSES.length) % RACE_CLASSES.length;
+      needsRedraw = true;
+    }
+    else if (key === '>' || key === '.') {
+      state.classIndex = (state.classIndex + 1) % RACE_CLASSES.length;
+      needsRedraw = true;
+    }
+    else if (state.mode === 'circuit') {
       // Circuit selection mode
       if (key === KEY_UP || key === 'W' || key === '8') {
-        state.circuitIndex = (state.circuitIndex - 1 + CIRCUITS.length) % CIRCUITS.length;
+        state.circuitIndex = (state.circuitIndex - 1 + cups.length) % cups.length;
         needsRedraw = true;
       }
       else if (key === KEY_DOWN || key === 'S' || key === '2') {
-        state.circuitIndex = (state.circuitIndex + 1) % CIRCUITS.length;
+        state.circuitIndex = (state.circuitIndex + 1) % cups.length;
         needsRedraw = true;
       }
       else if (key === '\r' || key === '\n' || key === ' ' || key === KEY_RIGHT || key === 'D' || key === '6') {
@@ -158,21 +113,37 @@ function showTrackSelector(highScoreManager?: HighScoreManager): TrackSelectionR
         state.trackIndex = 0;
         needsRedraw = true;
       }
-      else if (key === 'H' && highScoreManager) {
+      else if (key === 'H' && highScoreManager && !isTrackGroup(cups[state.circuitIndex])) {
         // Show circuit high scores
-        var circuit = CIRCUITS[state.circuitIndex];
+        var circuit = cups[state.circuitIndex];
         showHighScoreList(
           HighScoreType.CIRCUIT_TIME,
-          circuit.id,
+          getRaceClassScoreId(circuit.id, raceClass),
           '=== CIRCUIT HIGH SCORES ===',
-          circuit.name,
+          getRaceClassScoreName(getCupScoreName(circuit), raceClass),
           highScoreManager
         );
         needsRedraw = true;
       }
+      else if (key === 'B') {
+        // Custom Cup builder
+        var customResult = showCustomCupBuilder(raceClass, highScoreManager);
+        if (customResult.selected && customResult.track) {
+          return customResult;
+        }
+        needsRedraw = true;
+      }
       else if (key === 'Q' || key === KEY_ESC) {
         return { selected: false, track: null };
       }
+      else if (key === 'C') {
+        // Daily Challenge
+        var dailyResult = showDailyChallengeMenu(highScoreManager);
+        if (dailyResult.selected && dailyResult.track) {
+          return dailyResult;
+        }
+        needsRedraw = true;
+      }
       else if (key === '?') {
         // Secret tracks menu
         var secretResult = showSecretTracksMenu();
@@ -184,28 +155,29 @@ function showTrackSelector(highScoreManager?: HighScoreManager): TrackSelectionR
     }
     else {
       // Track selection mode within a circuit
+      var circuit = cups[state.circuitIndex];
+      var playIndex = circuit.trackIds.length;  // After the tracks: "Play Circuit"
+      var lastIndex = isTrackGroup(circuit) ? playIndex - 1 : playIndex;
       if (key === KEY_UP || key === 'W' || key === '8') {
         state.trackIndex--;
-        if (state.trackIndex < 0) state.trackIndex = 4; // 0-3 = tracks, 4 = "Play Circuit"
+        if (state.trackIndex < 0) state.trackIndex = lastIndex;
         needsRedraw = true;
       }
       else if (key === KEY_DOWN || key === 'S' || key === '2') {
         state.trackIndex++;
-        if (state.trackIndex > 4) state.trackIndex = 0;
+        if (state.trackIndex > lastIndex) state.trackIndex = 0;
         needsRedraw = true;
       }
       else if (key === '\r' || key === '\n' || key === ' ') {
-        var circuit = CIRCUITS[state.circuitIndex];
-        if (state.trackIndex === 4) {
+        if (state.trackIndex === playIndex) {
           // Play full circuit
-          var circuitTracks = getCircuitTracks(circuit);
+          var circuitTracks = getCupTracks(circuit);
           return {
             selected: true,
             track: circuitTracks[0],
             isCircuitMode: true,
-            circuitTracks: circuitTracks,
-            circuitId: circuit.id,
-            circuitName: circuit.name
+            cup: circuit,
+            raceClass: raceClass
           };
         } else {
           // Play single track
@@ -215,7 +187,7 @@ function showTrackSelector(highScoreManager?: HighScoreManager): TrackSelectionR
               selected: true,
               track: trackDef,
               isCircuitMode: false,
-              circuitTracks: null
+              raceClass: raceClass
             };
           }
         }
@@ -227,14 +199,13 @@ function showTrackSelector(highScoreManager?: HighScoreManager): TrackSelectionR
       }
       else if (key === 'H' && highScoreManager) {
         // Show high scores for selected track or circuit
-        var circuit = CIRCUITS[state.circuitIndex];
-        if (state.trackIndex === 4) {
+        if (state.trackIndex === playIndex) {
           // "Play Cup" selected - show circuit high scores
           showHighScoreList(
             HighScoreType.CIRCUIT_TIME,
-            circuit.id,
+            getRaceClassScoreId(circuit.id, raceClass),
             '=== CIRCUIT HIGH SCORES ===',
-            circuit.name,
+            getRaceClassScoreName(getCupScoreName(circuit), raceClass),
             highScoreManager
           );
         } else {
@@ -243,8 +214,8 @@ function showTrackSelector(highScoreManager?: HighScoreManager): TrackSelectionR
           var trackDef = getTrackDefinition(trackId);
           if (trackDef) {
             showTwoColumnHighScores(
-              trackId,
-              trackDef.name,
+              getRaceClassScoreId(trackId, raceClass),
+              getRaceClassScoreName(trackDef.name, raceClass),
               highScoreManager,
               0,  // No player position highlight
               0
@@ -275,29 +246,64 @@ function showTrackSelector(highScoreManager?: HighScoreManager): TrackSelectionR
 }
 
 /**
- * Get all tracks in a circuit.
+ * A cup's 5-line selector icon; cups without one get their initials.
  */
-function getCircuitTracks(circuit: Circuit): TrackDefinition[] {
-  var tracks: TrackDefinition[] = [];
-  for (var i = 0; i < circuit.trackIds.length; i++) {
-    var track = getTrackDefinition(circuit.trackIds[i]);
-    if (track) tracks.push(track);
-  }
-  return tracks;
+function getCupIcon(cup: CupDefinition): string[] {
+  if (cup.icon) return cup.icon;
+  var words = cup.name.split(' ');
+  var initials = (words[0].charAt(0) + (words.length > 1 ? words[1].charAt(0) : '')).toUpperCase();
+  return [
+    ' ______ ',
+    '|      |',
+    '|  ' + padRight(initials, 2) + '  |',
+    ' \____/ ',
+    '   ||   '
+  ];
+}
+
+/**
+ * A cup's selector color (white if it has none).
+ */
+function getCupColor(cup: CupDefinition): number {
+  return cup.color !== undefined ? cup.color : WHITE;
 }
 
 /**
- * Get all hidden/secret tracks from the catalog.
+ * The circuit list: every registered cup, then a CUSTOM TRACKS entry
+ * holding the custom tracks that aren't hidden (if there are any).
+ */
+function getSelectorCircuits(): CupDefinition[] {
+  var customTracks = getCustomTracks().filter(function(track) { return !track.hidden; });
+  if (customTracks.length === 0) return getAllCups();
+  return getAllCups().concat([{
+    id: CUSTOM_TRACKS_GROUP_ID,
+    name: 'CUSTOM TRACKS',
+    trackIds: customTracks.map(function(track) { return track.id; }),
+    description: 'Tracks added by your sysop',
+    icon: [
+      ' ______ ',
+      '|      |',
+      '| NEW! |',
+      '|______|',
+      '   ||   '
+    ],
+    color: LIGHTBLUE
+  }]);
+}
+
+/**
+ * True for the CUSTOM TRACKS entry: its tracks are raced one at a time,
+ * never as a cup.
+ */
+function isTrackGroup(circuit: CupDefinition): boolean {
+  return circuit.id === CUSTOM_TRACKS_GROUP_ID;
+}
+
+/**
+ * Get all hidden/secret tracks, built-in and custom.
  */
 function getSecretTracks(): TrackDefinition[] {
-  var secrets: TrackDefinition[] = [];
-  var allTracks = getAllTracks();
-  for (var i = 0; i < allTracks.length; i++) {
-    if (allTracks[i].hidden) {
-      secrets.push(allTracks[i]);
-    }
-  }
-  return secrets;
+  return getAllTracks().filter(function(track) { return !!track.hidden; });
 }
 
 /**
@@ -329,8 +335,13 @@ function showSecretTracksMenu(): TrackSelectionResult {
   }
   
   var selectedIndex = 0;
+  var scrollTop = 0;
+  var maxVisible = 5;  // Rows 9-17, two lines per track
   
   while (true) {
+    if (selectedIndex < scrollTop) scrollTop = selectedIndex;
+    if (selectedIndex >= scrollTop + maxVisible) scrollTop = selectedIndex - maxVisible + 1;
+    
     // Draw secret tracks menu
     scene3d.selectRawDepth('glass');
     console.clear(LIGHTGRAY, false);
@@ -351,9 +362,11 @@ function showSecretTracksMenu(): TrackSelectionResult {
     
     // List secret tracks
     scene3d.selectRawDepth('content');
-    for (var i = 0; i < secretTracks.length; i++) {
+    var visibleEnd = Math.min(secretTracks.length, scrollTop + maxVisible);
+    for (var i = scrollTop; i < visibleEnd; i++) {
       var track = secretTracks[i];
-      console.gotoxy(5, 9 + i * 2);
+      var row = 9 + (i - scrollTop) * 2;
+      console.gotoxy(5, row);
       
       if (i === selectedIndex) {
         console.attributes = LIGHTCYAN;
@@ -368,10 +381,12 @@ function showSecretTracksMenu(): TrackSelectionResult {
       
       console.attributes = DARKGRAY;
       console.print(' - ');
-      console.print(track.description);
+      // Keep long (custom) descriptions clear of the star column
+      var descRoom = 64 - (9 + track.name.length + 3);
+      console.print(track.description.substring(0, Math.max(0, descRoom)));
       
       // Difficulty stars
-      console.gotoxy(65, 9 + i * 2);
+      console.gotoxy(65, row);
       console.attributes = YELLOW;
       console.print(renderDifficultyStars(track.difficulty));
     }
@@ -412,10 +427,97 @@ function showSecretTracksMenu(): TrackSelectionResult {
       return {
         selected: true,
         track: secretTracks[selectedIndex],
+        isCircuitMode: false
+      };
+    }
+    else if (key === 'Q' || key === KEY_ESC) {
+      return { selected: false, track: null };
+    }
+  }
+}
+
+/**
+ * Show today's Daily Challenge: the fixed track, car, laps and items,
+ * plus today's leader and yesterday's winner.
+ * Returns a selection with dailyChallenge set, or { selected: false } to go back.
+ */
+function showDailyChallengeMenu(highScoreManager?: HighScoreManager): TrackSelectionResult {
+  var challenge = getDailyChallenge();
+  var track = getDailyTrackDefinition(challenge);
+  if (!track) return { selected: false, track: null };
+
+  var car = getCarDefinition(challenge.carId);
+  var color = getCarColor(challenge.colorId);
+
+  while (true) {
+    scene3d.selectRawDepth('glass');
+    console.clear(LIGHTGRAY, false);
+
+    scene3d.selectRawDepth('title');
+    console.gotoxy(1, 1);
+    console.attributes = LIGHTMAGENTA;
+    console.print(repeatChar(GLYPH.DBOX_H, 79) + '\r\n');
+    console.attributes = YELLOW;
+    console.print('                   #### DAILY CHALLENGE ' + challenge.dateKey + ' ####\r\n');
+    console.attributes = LIGHTMAGENTA;
+    console.print(repeatChar(GLYPH.DBOX_H, 79) + '\r\n');
+
+    scene3d.selectRawDepth('content');
+    console.gotoxy(5, 5);
+    console.attributes = DARKGRAY;
+    console.print('Everyone races the same track, car and items today. One board, one winner.');
+
+    var rows: string[][] = [
+      ['TRACK', track.name],
+      ['LAPS', String(challenge.laps)],
+      ['CAR', (car ? car.name : challenge.carId) + (color ? ' (' + color.name + ')' : '')],
+      ['ITEMS', challenge.itemSet.name]
+    ];
+    for (var i = 0; i < rows.length; i++) {
+      console.gotoxy(10, 8 + i * 2);
+      console.attributes = LIGHTCYAN;
+      console.print(padRight(rows[i][0], 8));
+      console.attributes = WHITE;
+      console.print(rows[i][1]);
+    }
+
+    if (highScoreManager) {
+      displayTopScoreLine('Today\'s leader', highScoreManager.getTopScore(HighScoreType.DAILY_TIME, challenge.dateKey),
+        10, 17, LIGHTGRAY, LIGHTGREEN);
+      displayTopScoreLine('Yesterday\'s winner', highScoreManager.getTopScore(HighScoreType.DAILY_TIME, getPreviousDailyDateKey(challenge.dateKey)),
+        10, 18, LIGHTGRAY, YELLOW);
+    }
+
+    scene3d.selectRawDepth('prompt');
+    console.gotoxy(5, 21);
+    console.attributes = CYAN;
+    console.print('[');
+    console.attributes = WHITE;
+    console.print('ENTER');
+    console.attributes = CYAN;
+    console.print('] Race   [');
+    console.attributes = WHITE;
+    console.print('H');
+    console.attributes = CYAN;
+    console.print('] Today\'s board   [');
+    console.attributes = WHITE;
+    console.print('ESC/Q');
+    console.attributes = CYAN;
+    console.print('] Back');
+
+    scene3d.selectRawDepth('glass');
+    var key = console.inkey(K_UPPER, 60000);
+    if (key === '\r' || key === '\n' || key === ' ') {
+      return {
+        selected: true,
+        track: track,
         isCircuitMode: false,
-        circuitTracks: null
+        dailyChallenge: challenge
       };
     }
+    if (key === 'H' && highScoreManager) {
+      showDailyChallengeScores(challenge, highScoreManager);
+    }
     else if (key === 'Q' || key === KEY_ESC) {
       return { selected: false, track: null };
     }
@@ -430,16 +532,16 @@ function showSecretTracksMenu(): TrackSelectionResult {
  * Draw the complete selector UI.
  */
 function drawSelectorUI(state: SelectorState, highScoreManager?: HighScoreManager): void {
-  drawHeader();
+  drawHeader(RACE_CLASSES[state.classIndex]);
   drawLeftPanel(state);
   drawRightPanel(state, highScoreManager);
   drawControls(state);
 }
 
 /**
- * Draw the header.
+ * Draw the header, with the selected race class at the right.
  */
-function drawHeader(): void {
+function drawHeader(raceClass: RaceClass): void {
   scene3d.selectRawDepth('chrome');
   console.gotoxy(1, 1);
   console.attributes = LIGHTMAGENTA;
@@ -452,6 +554,15 @@ function drawHeader(): void {
   var padding = Math.floor((SCREEN_WIDTH - title.length) / 2);
   console.print(repeatChar(' ', padding) + title);
   
+  // Race class, changed with < and >
+  console.gotoxy(SCREEN_WIDTH - 14, 2);
+  console.attributes = DARKGRAY;
+  console.print('< ');
+  console.attributes = raceClass.mirror ? LIGHTMAGENTA : YELLOW;
+  console.print(padRight(raceClass.name, 6));
+  console.attributes = DARKGRAY;
+  console.print(' >');
+  
   console.gotoxy(1, 3);
   scene3d.selectRawDepth('chrome');
   console.attributes = LIGHTMAGENTA;
@@ -466,7 +577,7 @@ function drawLeftPanel(state: SelectorState): void {
   var y = 5;
   
   // Draw vertical separator
-  for (var sy = 4; sy <= 22; sy++) {
+  for (var sy = 4; sy <= SCREEN_HEIGHT - 2; sy++) {
     console.gotoxy(LEFT_PANEL_WIDTH, sy);
     console.attributes = DARKGRAY;
     console.print(GLYPH.BOX_V);
@@ -480,23 +591,31 @@ function drawLeftPanel(state: SelectorState): void {
 }
 
 /**
- * Draw the circuit selector (vertical list with icons).
+ * Draw the circuit selector (vertical list with icons, scrolling when
+ * there are more cups than fit).
  */
 function drawCircuitSelector(state: SelectorState, startY: number): void {
+  var cups = getSelectorCircuits();
   console.gotoxy(2, startY);
   console.attributes = WHITE;
   console.print('SELECT CIRCUIT');
   
-  // Draw all 4 circuits as selectable icons
-  for (var i = 0; i < CIRCUITS.length; i++) {
-    var circuit = CIRCUITS[i];
+  // Four rows per cup, down to the separator's end
+  var visible = Math.max(1, Math.floor((SCREEN_HEIGHT - 2 - (startY + 2) + 1) / 4));
+  if (state.circuitIndex < state.circuitTop) state.circuitTop = state.circuitIndex;
+  if (state.circuitIndex >= state.circuitTop + visible) state.circuitTop = state.circuitIndex - visible + 1;
+  
+  var last = Math.min(cups.length, state.circuitTop + visible);
+  for (var i = state.circuitTop; i < last; i++) {
+    var circuit = cups[i];
+    var color = getCupColor(circuit);
     var isSelected = (i === state.circuitIndex);
-    var baseY = startY + 2 + (i * 4);
+    var baseY = startY + 2 + ((i - state.circuitTop) * 4);
     
     // Selection indicator
     console.gotoxy(1, baseY + 1);
     if (isSelected) {
-      console.attributes = circuit.color;
+      console.attributes = color;
       console.print(GLYPH.TRIANGLE_RIGHT);
     } else {
       console.print(' ');
@@ -504,7 +623,7 @@ function drawCircuitSelector(state: SelectorState, startY: number): void {
     
     // Circuit name (compact for left panel)
     console.gotoxy(3, baseY);
-    console.attributes = isSelected ? circuit.color : DARKGRAY;
+    console.attributes = isSelected ? color : DARKGRAY;
     
     // Show abbreviated name that fits
     var shortName = circuit.name.substring(0, 10);
@@ -513,44 +632,65 @@ function drawCircuitSelector(state: SelectorState, startY: number): void {
     // Small icon indicator
     console.gotoxy(3, baseY + 1);
     console.attributes = isSelected ? WHITE : DARKGRAY;
-    console.print(circuit.icon[2].substring(0, 8)); // Middle line of icon
+    console.print(getCupIcon(circuit)[2].substring(0, 8)); // Middle line of icon
     
     // Track count
     console.gotoxy(3, baseY + 2);
     console.attributes = isSelected ? LIGHTGRAY : DARKGRAY;
-    console.print('4 tracks');
+    console.print(circuit.trackIds.length + ' tracks');
+  }
+  
+  // More cups above or below
+  console.attributes = DARKGRAY;
+  if (state.circuitTop > 0) {
+    console.gotoxy(LEFT_PANEL_WIDTH - 2, startY + 2);
+    console.print(String.fromCharCode(24));
+  }
+  if (last < cups.length) {
+    console.gotoxy(LEFT_PANEL_WIDTH - 2, startY + 2 + visible * 4 - 2);
+    console.print(String.fromCharCode(25));
   }
 }
 
 /**
- * Draw the track list for selected circuit.
+ * Draw the track list for selected circuit, scrolling when there are
+ * more tracks than fit (only the CUSTOM TRACKS list can get that long).
  */
 function drawTrackList(state: SelectorState, startY: number): void {
-  var circuit = CIRCUITS[state.circuitIndex];
+  var circuit = getSelectorCircuits()[state.circuitIndex];
+  var color = getCupColor(circuit);
+  var count = circuit.trackIds.length;
+  var playable = !isTrackGroup(circuit);
   
   // Circuit name header with back indicator
   console.gotoxy(2, startY);
   console.attributes = DARKGRAY;
   console.print(GLYPH.TRIANGLE_LEFT + ' ');
-  console.attributes = circuit.color;
+  console.attributes = color;
   console.print(circuit.name.substring(0, 14));
   
   console.gotoxy(2, startY + 1);
   console.attributes = DARKGRAY;
   console.print(repeatChar(GLYPH.BOX_H, LEFT_PANEL_WIDTH - 4));
   
+  // Three rows per track, fewer for long cups (stars only with room)
+  var rows = SCREEN_HEIGHT - 2 - (startY + 3);
+  var step = Math.max(1, Math.min(3, Math.floor(rows / count)));
+  var visible = Math.min(count, rows - (playable ? 1 : 0));
+  var top = Math.max(0, Math.min(state.trackIndex, count - 1) - visible + 1);
+  
   // Track list
-  for (var i = 0; i < circuit.trackIds.length; i++) {
+  for (var i = top; i < top + visible; i++) {
     var track = getTrackDefinition(circuit.trackIds[i]);
     if (!track) continue;
     
     var isSelected = (i === state.trackIndex);
-    var y = startY + 3 + (i * 3);
+    var y = startY + 3 + ((i - top) * step);
     
     // Selection indicator
     console.gotoxy(1, y);
     if (isSelected) {
-      console.attributes = circuit.color;
+      console.attributes = color;
       console.print(GLYPH.TRIANGLE_RIGHT);
     } else {
       console.print(' ');
@@ -563,19 +703,22 @@ function drawTrackList(state: SelectorState, startY: number): void {
     
     // Track name (truncate if needed)
     console.gotoxy(6, y);
-    console.attributes = isSelected ? circuit.color : CYAN;
+    console.attributes = isSelected ? color : CYAN;
     var name = track.name.substring(0, 13);
     console.print(name);
     
     // Difficulty stars
-    console.gotoxy(3, y + 1);
-    console.attributes = isSelected ? YELLOW : BROWN;
-    console.print(renderDifficultyStars(track.difficulty));
+    if (step > 1) {
+      console.gotoxy(3, y + 1);
+      console.attributes = isSelected ? YELLOW : BROWN;
+      console.print(renderDifficultyStars(track.difficulty));
+    }
   }
   
   // "Play Circuit" option
-  var playY = startY + 3 + (4 * 3);
-  var isPlaySelected = (state.trackIndex === 4);
+  if (!playable) return;
+  var playY = startY + 3 + (visible * step);
+  var isPlaySelected = (state.trackIndex === count);
   
   console.gotoxy(1, playY);
   if (isPlaySelected) {
@@ -595,13 +738,13 @@ function drawTrackList(state: SelectorState, startY: number): void {
  */
 function drawRightPanel(state: SelectorState, highScoreManager?: HighScoreManager): void {
   scene3d.selectRawDepth('content');
-  var circuit = CIRCUITS[state.circuitIndex];
+  var circuit = getSelectorCircuits()[state.circuitIndex];
   
   // Panel header
   console.gotoxy(RIGHT_PANEL_START, 5);
   console.attributes = WHITE;
   
-  if (state.mode === 'circuit' || (state.mode === 'tracks' && state.trackIndex === 4)) {
+  if (state.mode === 'circuit' || (state.mode === 'tracks' && state.trackIndex === circuit.trackIds.length)) {
     // Circuit selection mode OR "Play Cup" selected - show circuit info
     console.print('CIRCUIT INFO');
     
@@ -620,7 +763,7 @@ function drawRightPanel(state: SelectorState, highScoreManager?: HighScoreManage
       console.attributes = DARKGRAY;
       console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH - RIGHT_PANEL_START - 1));
       
-      drawTrackInfo(track, circuit.color, highScoreManager);
+      drawTrackInfo(track, getCupColor(circuit), RACE_CLASSES[state.classIndex], highScoreManager);
       drawTrackRoute(track);
     }
   }
@@ -629,36 +772,43 @@ function drawRightPanel(state: SelectorState, highScoreManager?: HighScoreManage
 /**
  * Draw circuit info - shows track listing for the circuit.
  */
-function drawCircuitInfo(circuit: Circuit, _highScoreManager?: HighScoreManager): void {
+function drawCircuitInfo(circuit: CupDefinition, _highScoreManager?: HighScoreManager): void {
   var y = 8;
+  var color = getCupColor(circuit);
+  var icon = getCupIcon(circuit);
   
   // Circuit name with icon
   console.gotoxy(RIGHT_PANEL_START, y);
-  console.attributes = circuit.color;
+  console.attributes = color;
   console.print(circuit.name);
   
   // Draw circuit icon
-  for (var iconLine = 0; iconLine < circuit.icon.length; iconLine++) {
+  for (var iconLine = 0; iconLine < icon.length; iconLine++) {
     console.gotoxy(RIGHT_PANEL_START + 20, y - 1 + iconLine);
-    console.attributes = circuit.color;
-    console.print(circuit.icon[iconLine]);
+    console.attributes = color;
+    console.print(icon[iconLine]);
   }
   
   console.gotoxy(RIGHT_PANEL_START, y + 1);
   console.attributes = LIGHTGRAY;
-  console.print(circuit.description);
+  console.print(circuit.description || '');
   
   // Track list
   console.gotoxy(RIGHT_PANEL_START, y + 3);
   console.attributes = WHITE;
   console.print('Tracks in this circuit:');
   
+  var tracks = getCupTracks(circuit);
   var totalLaps = 0;
   var totalTime = 0;
   
-  for (var i = 0; i < circuit.trackIds.length; i++) {
-    var track = getTrackDefinition(circuit.trackIds[i]);
-    if (!track) continue;
+  // Long lists end with "...and N more"
+  var listed = tracks.length > CIRCUIT_INFO_MAX_TRACKS ? CIRCUIT_INFO_MAX_TRACKS - 1 : tracks.length;
+  for (var i = 0; i < tracks.length; i++) {
+    var track = tracks[i];
+    totalLaps += track.laps;
+    totalTime += track.estimatedLapTime * track.laps;
+    if (i >= listed) continue;
     
     console.gotoxy(RIGHT_PANEL_START + 2, y + 5 + i);
     console.attributes = CYAN;
@@ -666,29 +816,32 @@ function drawCircuitInfo(circuit: Circuit, _highScoreManager?: HighScoreManager)
     
     console.attributes = YELLOW;
     console.print(renderDifficultyStars(track.difficulty));
-    
-    totalLaps += track.laps;
-    totalTime += track.estimatedLapTime * track.laps;
+  }
+  if (tracks.length > listed) {
+    console.gotoxy(RIGHT_PANEL_START + 2, y + 5 + listed);
+    console.attributes = DARKGRAY;
+    console.print('...and ' + (tracks.length - listed) + ' more');
   }
   
-  // Circuit totals
-  console.gotoxy(RIGHT_PANEL_START, y + 11);
+  // Circuit totals, below the list (up to 8 tracks fit at 80x24)
+  var totalsY = y + 5 + Math.max(6, Math.min(tracks.length, CIRCUIT_INFO_MAX_TRACKS));
+  console.gotoxy(RIGHT_PANEL_START, totalsY);
   console.attributes = DARKGRAY;
   console.print(repeatChar(GLYPH.BOX_H, 40));
   
-  console.gotoxy(RIGHT_PANEL_START, y + 12);
+  console.gotoxy(RIGHT_PANEL_START, totalsY + 1);
   console.attributes = LIGHTGRAY;
   console.print('Total Races: ');
   console.attributes = WHITE;
   console.print(circuit.trackIds.length.toString());
   
-  console.gotoxy(RIGHT_PANEL_START + 20, y + 12);
+  console.gotoxy(RIGHT_PANEL_START + 20, totalsY + 1);
   console.attributes = LIGHTGRAY;
   console.print('Total Laps: ');
   console.attributes = WHITE;
   console.print(totalLaps.toString());
   
-  console.gotoxy(RIGHT_PANEL_START, y + 13);
+  console.gotoxy(RIGHT_PANEL_START + 36, totalsY + 1);
   console.attributes = LIGHTGRAY;
   console.print('Est. Time: ');
   console.attributes = WHITE;
@@ -698,7 +851,7 @@ function drawCircuitInfo(circuit: Circuit, _highScoreManager?: HighScoreManager)
 /**
  * Draw track info - large themed track map as the hero element.
  */
-function drawTrackInfo(track: TrackDefinition, _accentColor: number, highScoreManager?: HighScoreManager): void {
+function drawTrackInfo(track: TrackDefinition, _accentColor: number, raceClass: RaceClass, highScoreManager?: HighScoreManager): void {
   var theme = getTrackTheme(track);
   
   // Track name in theme color with difficulty stars
@@ -713,15 +866,16 @@ function drawTrackInfo(track: TrackDefinition, _accentColor: number, highScoreMa
   console.attributes = DARKGRAY;
   console.print(track.laps + ' laps');
   
-  // High scores for this track
+  // High scores for this track in the selected class
   if (highScoreManager) {
-    var trackTimeScore = highScoreManager.getTopScore(HighScoreType.TRACK_TIME, track.id);
-    var lapTimeScore = highScoreManager.getTopScore(HighScoreType.LAP_TIME, track.id);
+    var scoreId = getRaceClassScoreId(track.id, raceClass);
+    var trackTimeScore = highScoreManager.getTopScore(HighScoreType.TRACK_TIME, scoreId);
+    var lapTimeScore = highScoreManager.getTopScore(HighScoreType.LAP_TIME, scoreId);
     
     if (trackTimeScore || lapTimeScore) {
       console.gotoxy(RIGHT_PANEL_START, 10);
       console.attributes = DARKGRAY;
-      console.print('High Scores:');
+      console.print('High Scores (' + raceClass.name + '):');
       
       if (trackTimeScore) {
         console.gotoxy(RIGHT_PANEL_START + 2, 11);
@@ -758,7 +912,7 @@ function drawThemedTrackMap(track: TrackDefinition, theme: TrackTheme): void {
   var mapX = RIGHT_PANEL_START;
   var mapY = 11;
   var mapWidth = SCREEN_WIDTH - RIGHT_PANEL_START - 1; // Use nearly full width
-  var mapHeight = 13; // Character rows (expanded from 11)
+  var mapHeight = SCREEN_HEIGHT - 11; // Character rows down to the controls (13 on 24 rows)
   
   // Virtual pixel dimensions (2x vertical resolution)
   var pixelWidth = mapWidth - 2;
@@ -1061,152 +1215,6 @@ function generateTrackLoop(track: TrackDefinition, width: number, height: number
   return points;
 }
 
-/**
- * Generate a path by simulating driving through track sections.
- * The curvature is scaled so the track naturally completes one full loop.
- */
-function generatePathFromSections(sections: any[]): { x: number; y: number }[] {
-  // First pass: calculate total "intended" curvature from sections
-  var totalIntendedCurve = 0;
-  for (var i = 0; i < sections.length; i++) {
-    var section = sections[i];
-    var segmentCount = section.length || 10;
-    
-    switch (section.type) {
-      case 'curve':
-        totalIntendedCurve += (section.curve || 0) * segmentCount;
-        break;
-      case 'ease_in':
-        // Average curve over the section
-        totalIntendedCurve += (section.targetCurve || 0.5) * segmentCount * 0.5;
-        break;
-      case 'ease_out':
-        totalIntendedCurve += (section.targetCurve || 0.5) * segmentCount * 0.5;
-        break;
-      case 's_curve':
-        // S-curves cancel out
-        break;
-    }
-  }
-  
-  // Scale factor to make total curvature = 2*PI (one full loop)
-  // If no curve data, default to making a loop
-  var curveScale = 0.1;
-  if (Math.abs(totalIntendedCurve) > 0.1) {
-    curveScale = (Math.PI * 2) / Math.abs(totalIntendedCurve);
-  }
-  
-  // Determine direction (clockwise or counterclockwise)
-  var direction = totalIntendedCurve >= 0 ? 1 : -1;
-  curveScale = Math.abs(curveScale) * direction;
-  
-  // Second pass: generate path with scaled curvature
-  var points: { x: number; y: number }[] = [];
-  var x = 0;
-  var y = 0;
-  var heading = 0; // Angle in radians, 0 = going right/east
-  var currentCurve = 0;
-  var stepSize = 1.0;
-  
-  points.push({ x: x, y: y });
-  
-  for (var i = 0; i < sections.length; i++) {
-    var section = sections[i];
-    var segmentCount = section.length || 10;
-    
-    switch (section.type) {
-      case 'straight':
-        // Move forward without turning
-        for (var s = 0; s < segmentCount; s++) {
-          x += Math.cos(heading) * stepSize;
-          y += Math.sin(heading) * stepSize;
-          points.push({ x: x, y: y });
-        }
-        currentCurve = 0;
-        break;
-        
-      case 'curve':
-        // Constant curve - turn while moving
-        var curvature = (section.curve || 0) * curveScale;
-        for (var s = 0; s < segmentCount; s++) {
-          heading += curvature;
-          x += Math.cos(heading) * stepSize;
-          y += Math.sin(heading) * stepSize;
-          points.push({ x: x, y: y });
-        }
-        currentCurve = section.curve || 0;
-        break;
-        
-      case 'ease_in':
-        // Gradually increase curvature
-        var targetCurve = (section.targetCurve || 0.5) * curveScale;
-        for (var s = 0; s < segmentCount; s++) {
-          var t = s / segmentCount;
-          var easedCurve = currentCurve * curveScale + (targetCurve - currentCurve * curveScale) * t;
-          heading += easedCurve;
-          x += Math.cos(heading) * stepSize;
-          y += Math.sin(heading) * stepSize;
-          points.push({ x: x, y: y });
-        }
-        currentCurve = section.targetCurve || 0.5;
-        break;
-        
-      case 'ease_out':
-        // Gradually decrease curvature to zero
-        var startCurve = currentCurve * curveScale;
-        for (var s = 0; s < segmentCount; s++) {
-          var t = s / segmentCount;
-          var easedCurve = startCurve * (1 - t);
-          heading += easedCurve;
-          x += Math.cos(heading) * stepSize;
-          y += Math.sin(heading) * stepSize;
-          points.push({ x: x, y: y });
-        }
-        currentCurve = 0;
-        break;
-        
-      case 's_curve':
-        // S-curve: turn one way then the other (mostly cancels out)
-        var halfLen = Math.floor(segmentCount / 2);
-        var sCurve = 0.06 * curveScale;
-        // First half - turn one way
-        for (var s = 0; s < halfLen; s++) {
-          heading += sCurve;
-          x += Math.cos(heading) * stepSize;
-          y += Math.sin(heading) * stepSize;
-          points.push({ x: x, y: y });
-        }
-        // Second half - turn back
-        for (var s = 0; s < halfLen; s++) {
-          heading -= sCurve;
-          x += Math.cos(heading) * stepSize;
-          y += Math.sin(heading) * stepSize;
-          points.push({ x: x, y: y });
-        }
-        break;
-    }
-  }
-  
-  // Close the loop smoothly back to start
-  var startX = points[0].x;
-  var startY = points[0].y;
-  var endX = points[points.length - 1].x;
-  var endY = points[points.length - 1].y;
-  
-  var closeSteps = 15;
-  for (var s = 1; s <= closeSteps; s++) {
-    var t = s / closeSteps;
-    // Smooth interpolation using ease function
-    var smoothT = t * t * (3 - 2 * t);
-    points.push({
-      x: endX + (startX - endX) * smoothT,
-      y: endY + (startY - endY) * smoothT
-    });
-  }
-  
-  return points;
-}
-
 /**
  * Normalize path to fit within display bounds with padding.
  */
@@ -1332,11 +1340,11 @@ function drawTrackRoute(_track: TrackDefinition): void {
  */
 function drawControls(state: SelectorState): void {
   scene3d.selectRawDepth('prompt');
-  console.gotoxy(1, 23);
+  console.gotoxy(1, SCREEN_HEIGHT - 1);
   console.attributes = LIGHTMAGENTA;
   console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH));
   
-  console.gotoxy(1, 24);
+  console.gotoxy(1, SCREEN_HEIGHT);
   console.attributes = LIGHTGRAY;
   
   if (state.mode === 'circuit') {
@@ -1354,6 +1362,18 @@ function drawControls(state: SelectorState): void {
     console.attributes = LIGHTGRAY;
     console.print(' Scores  ');
     console.attributes = WHITE;
+    console.print('C');
+    console.attributes = LIGHTGRAY;
+    console.print(' Daily  ');
+    console.attributes = WHITE;
+    console.print('B');
+    console.attributes = LIGHTGRAY;
+    console.print(' Custom  ');
+    console.attributes = WHITE;
+    console.print('<>');
+    console.attributes = LIGHTGRAY;
+    console.print(' Class  ');
+    console.attributes = WHITE;
     console.print('Q');
     console.attributes = LIGHTGRAY;
     console.print(' Quit  ');
@@ -1380,6 +1400,10 @@ function drawControls(state: SelectorState): void {
     console.attributes = LIGHTGRAY;
     console.print(' Back  ');
     console.attributes = WHITE;
+    console.print('<>');
+    console.attributes = LIGHTGRAY;
+    console.print(' Class  ');
+    console.attributes = WHITE;
     console.print('Q');
     console.attributes = LIGHTGRAY;
     console.print(' Quit  ');
@@ -1389,7 +1413,7 @@ function drawControls(state: SelectorState): void {
     console.print(' ???');
   }
   
-  console.gotoxy(1, 25);
+  console.gotoxy(1, SCREEN_HEIGHT + 1);
   console.attributes = LIGHTMAGENTA;
   console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH));
   scene3d.selectRawDepth('glass');
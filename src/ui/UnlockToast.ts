@@ -0,0 +1,54 @@
+/**
+ * UnlockToast.ts - "New car unlocked" pop-up.
+ *
+ * Drawn as a box over whatever is on screen; each unlock stays up until a
+ * key is pressed or UNLOCK_TOAST_MS passes. Uses a fixed 80x24 viewport,
+ * centered on larger terminals.
+ */
+
+/** How long each toast stays up (ms) */
+var UNLOCK_TOAST_MS = 4000;
+
+/**
+ * Show a toast for each newly earned unlock.
+ */
+function showUnlockToasts(rules: UnlockRule[]): void {
+  for (var i = 0; i < rules.length; i++) {
+    drawUnlockToast(rules[i]);
+    console.inkey(K_NONE, UNLOCK_TOAST_MS);
+  }
+}
+
+function drawUnlockToast(rule: UnlockRule): void {
+  var heading = rule.colorId ? "NEW COLOR UNLOCKED!" : "NEW CAR UNLOCKED!";
+  var lines = [heading, describeUnlock(rule), rule.hint];
+
+  var boxWidth = 0;
+  for (var i = 0; i < lines.length; i++) {
+    boxWidth = Math.max(boxWidth, lines[i].length);
+  }
+  boxWidth += 6;
+  var left = Math.floor((80 - boxWidth) / 2) + 1;
+  var top = 9;
+  var border = makeAttr(YELLOW, BG_BLUE);
+
+  scene3d.selectRawDepth('prompt');
+  viewportGotoxy(left, top);
+  console.attributes = border;
+  console.print(GLYPH.DBOX_TL + repeatChar(GLYPH.DBOX_H, boxWidth - 2) + GLYPH.DBOX_TR);
+  for (var row = 0; row < lines.length; row++) {
+    var text = lines[row];
+    var padLeft = Math.floor((boxWidth - 2 - text.length) / 2);
+    viewportGotoxy(left, top + 1 + row);
+    console.attributes = border;
+    console.print(GLYPH.DBOX_V);
+    console.attributes = row === 0 ? makeAttr(YELLOW, BG_BLUE) : (row === 1 ? makeAttr(WHITE, BG_BLUE) : makeAttr(LIGHTCYAN, BG_BLUE));
+    console.print(repeatChar(' ', padLeft) + text + repeatChar(' ', boxWidth - 2 - padLeft - text.length));
+    console.attributes = border;
+    console.print(GLYPH.DBOX_V);
+  }
+  viewportGotoxy(left, top + 1 + lines.length);
+  console.print(GLYPH.DBOX_BL + repeatChar(GLYPH.DBOX_H, boxWidth - 2) + GLYPH.DBOX_BR);
+  console.attributes = LIGHTGRAY;
+  scene3d.selectRawDepth('glass');
+}
@@ -0,0 +1,134 @@
+/**
+ * WatchRaces.ts - Pick a race running on another node and watch it live.
+ *
+ * Keys:
+ * - Up/Down (W/S, 8/2) = choose a race
+ * - ENTER              = watch it (see Spectator for the keys while watching)
+ * - Q / ESC            = back
+ * The list refreshes every second. Uses a fixed 80x24 viewport, centered
+ * on larger terminals.
+ */
+
+/** Races shown at once */
+var WATCH_LIST_ROWS = 12;
+
+/**
+ * Run the race list until the user backs out.
+ */
+function showWatchRaces(): void {
+  var node = typeof bbs !== 'undefined' && bbs ? bbs.node_num : 0;
+  var channel = getBroadcastChannel(node);
+  if (!channel) {
+    showWatchMessage("Watching races is unavailable on this BBS.");
+    return;
+  }
+
+  var selected = 0;
+  while (true) {
+    // Our own node never shows up, even if a broadcast was left behind
+    var races = readLiveBroadcasts(channel).filter(function(record) { return record.node !== node; });
+    if (selected >= races.length) selected = Math.max(0, races.length - 1);
+    drawWatchRaces(races, selected);
+
+    var key = console.inkey(K_UPPER, 1000);
+    if (key === 'Q' || key === KEY_ESC) return;
+
+    if (key === KEY_UP || key === 'W' || key === '8') {
+      if (races.length > 0) selected = (selected + races.length - 1) % races.length;
+    } else if (key === KEY_DOWN || key === 'S' || key === '2') {
+      if (races.length > 0) selected = (selected + 1) % races.length;
+    } else if ((key === '\r' || key === '\n') && races.length > 0) {
+      var spectator = new Spectator(channel);
+      if (!spectator.watch(races[selected].node)) {
+        showWatchMessage("That race has ended.");
+      }
+    }
+  }
+}
+
+/**
+ * The live races: node, player, track, class and how far along.
+ */
+function drawWatchRaces(races: RaceBroadcastRecord[], selected: number): void {
+  var screenWidth = 80;
+
+  scene3d.selectRawDepth('glass');
+  console.clear(BG_BLACK, false);
+
+  scene3d.selectRawDepth('title');
+  var title = "=== WATCH LIVE RACES ===";
+  viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+  console.attributes = YELLOW | BG_BLACK;
+  console.print(title);
+
+  scene3d.selectRawDepth('content');
+  if (races.length === 0) {
+    var none = "Nobody is racing right now.";
+    viewportGotoxy(Math.floor((screenWidth - none.length) / 2), 10);
+    console.attributes = LIGHTGRAY | BG_BLACK;
+    console.print(none);
+  } else {
+    viewportGotoxy(4, 5);
+    console.attributes = LIGHTGRAY | BG_BLACK;
+    console.print(padRight("NODE", 6) + padRight("PLAYER", 20) + padRight("TRACK", 24) + padRight("CLASS", 8) + "STATUS");
+    viewportGotoxy(4, 6);
+    console.print("------------------------------------------------------------------------");
+
+    var top = Math.max(0, Math.min(selected - WATCH_LIST_ROWS + 1, races.length - WATCH_LIST_ROWS));
+    var last = Math.min(races.length, top + WATCH_LIST_ROWS);
+    for (var i = top; i < last; i++) {
+      var race = races[i];
+      var isSelected = i === selected;
+      var track = getTrackDefinition(race.trackId);
+      scene3d.selectRawDepth(isSelected ? 'vehicleNear' : 'content');
+      viewportGotoxy(2, 7 + i - top);
+      console.attributes = (isSelected ? LIGHTCYAN : WHITE) | BG_BLACK;
+      console.print((isSelected ? "> " : "  ") +
+        padRight(String(race.node), 6) +
+        padRight(race.name.substring(0, 18), 20) +
+        padRight((track ? track.name : race.trackId).substring(0, 22), 24) +
+        padRight(getRaceClass(race.raceClassId).name, 8) +
+        getWatchRaceStatus(race));
+    }
+  }
+
+  scene3d.selectRawDepth('prompt');
+  var prompt = races.length > 0 ? "ENTER Watch   Up/Down Choose   Q Back" : "Q Back";
+  viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 21);
+  console.attributes = LIGHTMAGENTA | BG_BLACK;
+  console.print(prompt);
+  scene3d.selectRawDepth('glass');
+}
+
+/**
+ * "Lap 2/3", or where the race is when it isn't simply racing.
+ */
+function getWatchRaceStatus(race: RaceBroadcastRecord): string {
+  if (race.finished) return "Finished";
+  if (race.countdown > 0) return "Starting";
+  if (race.paused) return "Paused";
+  for (var i = 0; i < race.vehicles.length; i++) {
+    if (race.vehicles[i].player) {
+      return "Lap " + Math.min(race.vehicles[i].lap, race.laps) + "/" + race.laps;
+    }
+  }
+  return "Racing";
+}
+
+/**
+ * Show a one-line notice and wait briefly for a key.
+ */
+function showWatchMessage(message: string): void {
+  scene3d.selectRawDepth('glass');
+  console.clear(BG_BLACK, false);
+  scene3d.selectRawDepth('content');
+  viewportGotoxy(Math.floor((80 - message.length) / 2), 10);
+  console.attributes = LIGHTRED | BG_BLACK;
+  console.print(message);
+  scene3d.selectRawDepth('prompt');
+  viewportGotoxy(Math.floor((80 - 13) / 2), 21);
+  console.attributes = LIGHTMAGENTA | BG_BLACK;
+  console.print("Press any key");
+  scene3d.selectRawDepth('glass');
+  console.inkey(K_NONE, 5000);
+}
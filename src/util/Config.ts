@@ -8,6 +8,7 @@
 interface OutrunConfig {
   general: {
     gameName: string;
+    tickRate: number;     // logic ticks per second (frames are smoothed in between)
   };
   highscores: {
     server: string;      // 'file' for local file, hostname for json-service
@@ -20,8 +21,39 @@ interface OutrunConfig {
     maxRows: number;
     scrollSpeed: number;
   };
+  tracks: {
+    directory: string;    // directory scanned for custom *.json track files
+  };
+  themes: {
+    directory: string;    // directory scanned for custom *.json themes and their sprites
+  };
+  ghosts: {
+    enabled: boolean;     // record and show Time Trial ghosts
+    directory: string;    // directory for ghost replay files
+  };
+  replays: {
+    enabled: boolean;     // save a replay of every finished race
+    directory: string;    // directory for race replay files (shared by every user)
+    keep: number;         // replays kept per user (oldest are deleted)
+  };
+  multiplayer: {
+    enabled: boolean;     // allow head-to-head races between nodes
+    broadcast: boolean;   // publish every race for spectators (W on the title screen); off by default
+    directory: string;    // shared state directory (when highscores server = file)
+  };
+  players: {
+    directory: string;    // per-user files (key bindings, career profile, unlocks, saved cup)
+  };
+  cup: {
+    rival: boolean;       // one roster racer per cup keeps pace with the player
+    file: string;         // JSON file of extra cups (optional)
+  };
 }
 
+/** Range [general] tick_rate is clamped to */
+var MIN_TICK_RATE = 30;
+var MAX_TICK_RATE = 120;
+
 /**
  * Load and parse synthkart.ini configuration
  */
@@ -31,7 +63,8 @@ function loadConfig(): OutrunConfig {
   // Default configuration
   var config: OutrunConfig = {
     general: {
-      gameName: 'OUTRUN'
+      gameName: 'OUTRUN',
+      tickRate: 60
     },
     highscores: {
       server: 'file',
@@ -43,6 +76,33 @@ function loadConfig(): OutrunConfig {
       directory: 'ansi_art',
       maxRows: 2000,
       scrollSpeed: 0.5
+    },
+    tracks: {
+      directory: 'tracks'
+    },
+    themes: {
+      directory: 'themes'
+    },
+    ghosts: {
+      enabled: true,
+      directory: 'ghosts'
+    },
+    replays: {
+      enabled: true,
+      directory: 'replays',
+      keep: 10
+    },
+    multiplayer: {
+      enabled: true,
+      broadcast: false,
+      directory: 'multiplayer'
+    },
+    players: {
+      directory: 'players'
+    },
+    cup: {
+      rival: true,
+      file: 'cups.json'
     }
   };
   
@@ -91,7 +151,12 @@ function loadConfig(): OutrunConfig {
       
       // Assign to config based on section
       if (currentSection === 'general') {
-        if (key === 'gamename') config.general.gameName = value;
+        if (key === 'gamename') {
+          config.general.gameName = value;
+        } else if (key === 'tickrate') {
+          var rate = parseInt(value, 10);
+          if (!isNaN(rate)) config.general.tickRate = clamp(rate, MIN_TICK_RATE, MAX_TICK_RATE);
+        }
       } else if (currentSection === 'highscores') {
         if (key === 'server') {
           config.highscores.server = value;
@@ -113,6 +178,41 @@ function loadConfig(): OutrunConfig {
           var speed = parseFloat(value);
           if (!isNaN(speed) && speed > 0) config.ansiTunnel.scrollSpeed = speed;
         }
+      } else if (currentSection === 'tracks') {
+        if (key === 'directory') config.tracks.directory = value;
+      } else if (currentSection === 'themes') {
+        if (key === 'directory') config.themes.directory = value;
+      } else if (currentSection === 'ghosts') {
+        if (key === 'enabled') {
+          config.ghosts.enabled = !(value === '0' || value.toLowerCase() === 'false' || value.toLowerCase() === 'no');
+        } else if (key === 'directory') {
+          config.ghosts.directory = value;
+        }
+      } else if (currentSection === 'replays') {
+        if (key === 'enabled') {
+          config.replays.enabled = !(value === '0' || value.toLowerCase() === 'false' || value.toLowerCase() === 'no');
+        } else if (key === 'directory') {
+          config.replays.directory = value;
+        } else if (key === 'keep') {
+          var keep = parseInt(value, 10);
+          if (!isNaN(keep) && keep > 0) config.replays.keep = keep;
+        }
+      } else if (currentSection === 'multiplayer') {
+        if (key === 'enabled') {
+          config.multiplayer.enabled = !(value === '0' || value.toLowerCase() === 'false' || value.toLowerCase() === 'no');
+        } else if (key === 'broadcast') {
+          config.multiplayer.broadcast = !(value === '0' || value.toLowerCase() === 'false' || value.toLowerCase() === 'no');
+        } else if (key === 'directory') {
+          config.multiplayer.directory = value;
+        }
+      } else if (currentSection === 'players') {
+        if (key === 'directory') config.players.directory = value;
+      } else if (currentSection === 'cup') {
+        if (key === 'rival') {
+          config.cup.rival = !(value === '0' || value.toLowerCase() === 'false' || value.toLowerCase() === 'no');
+        } else if (key === 'file') {
+          config.cup.file = value;
+        }
       }
     }
     
@@ -132,7 +232,44 @@ function loadConfig(): OutrunConfig {
     config.ansiTunnel.directory = js.exec_dir + config.ansiTunnel.directory;
   }
   
+  if (config.tracks.directory.charAt(0) !== '/' && 
+      config.tracks.directory.indexOf(':') === -1) {
+    config.tracks.directory = js.exec_dir + config.tracks.directory;
+  }
+  
+  if (config.themes.directory.charAt(0) !== '/' && 
+      config.themes.directory.indexOf(':') === -1) {
+    config.themes.directory = js.exec_dir + config.themes.directory;
+  }
+  
+  if (config.ghosts.directory.charAt(0) !== '/' && 
+      config.ghosts.directory.indexOf(':') === -1) {
+    config.ghosts.directory = js.exec_dir + config.ghosts.directory;
+  }
+  
+  if (config.replays.directory.charAt(0) !== '/' && 
+      config.replays.directory.indexOf(':') === -1) {
+    config.replays.directory = js.exec_dir + config.replays.directory;
+  }
+  
+  if (config.multiplayer.directory.charAt(0) !== '/' && 
+      config.multiplayer.directory.indexOf(':') === -1) {
+    config.multiplayer.directory = js.exec_dir + config.multiplayer.directory;
+  }
+  
+  if (config.players.directory.charAt(0) !== '/' && 
+      config.players.directory.indexOf(':') === -1) {
+    config.players.directory = js.exec_dir + config.players.directory;
+  }
+  
+  if (config.cup.file.charAt(0) !== '/' && 
+      config.cup.file.indexOf(':') === -1) {
+    config.cup.file = js.exec_dir + config.cup.file;
+  }
+  
   logInfo('Config loaded: ansiDir=' + config.ansiTunnel.directory + 
+          ' tracksDir=' + config.tracks.directory +
+          ' themesDir=' + config.themes.directory +
           ' hsServer=' + config.highscores.server);
   
   return config;
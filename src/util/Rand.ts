@@ -1,13 +1,18 @@
 /**
  * Simple pseudo-random number generator.
  * Provides deterministic sequences for reproducible gameplay.
+ *
+ * Each race owns a Rand seeded from GameState.seed; anything that can
+ * change the outcome of a race must draw from it. Math.random() is only
+ * for purely cosmetic render effects (glitches, embers, light rays).
  */
 
 class Rand {
   private seed: number;
 
   constructor(seed?: number) {
-    this.seed = seed !== undefined ? seed : Date.now();
+    this.seed = 0;
+    this.setSeed(seed !== undefined ? seed : Date.now());
   }
 
   /**
@@ -15,9 +20,14 @@ class Rand {
    * Uses a simple LCG (Linear Congruential Generator).
    */
   next(): number {
-    // LCG parameters (same as glibc)
-    this.seed = (this.seed * 1103515245 + 12345) & 0x7fffffff;
-    return this.seed / 0x7fffffff;
+    // LCG parameters (same as glibc). The multiply is split into 16-bit
+    // halves so it stays exact - a plain double multiply overflows 2^53
+    // and drops the low bits we keep.
+    var a = 1103515245;
+    var lo = (this.seed & 0xffff) * a;
+    var hi = ((this.seed >>> 16) * (a & 0xffff)) & 0xffff;
+    this.seed = (lo + hi * 0x10000 + 12345) & 0x7fffffff;
+    return this.seed / 0x80000000;
   }
 
   /**
@@ -67,7 +77,7 @@ class Rand {
    * Reset seed for reproducible sequences.
    */
   setSeed(seed: number): void {
-    this.seed = seed;
+    this.seed = (seed >>> 0) & 0x7fffffff;
   }
 }
 
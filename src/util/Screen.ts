@@ -0,0 +1,50 @@
+/**
+ * Screen - Terminal size for the race view and menus.
+ *
+ * Everything is laid out for 80x24 at minimum; larger terminals (e.g.
+ * 132x37 SyncTERM windows) get a wider race view, more road rows and
+ * menus spread or centered to fit.
+ */
+
+/** Smallest terminal the game lays out for */
+var MIN_SCREEN_WIDTH = 80;
+var MIN_SCREEN_HEIGHT = 24;
+
+interface ScreenSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * The caller's terminal size, never below 80x24. Outside a BBS session
+ * (headless runs) there is no console and the minimum is used.
+ */
+function getScreenSize(): ScreenSize {
+  var width = MIN_SCREEN_WIDTH;
+  var height = MIN_SCREEN_HEIGHT;
+  if (typeof console !== 'undefined' && console) {
+    if (console.screen_columns > width) width = console.screen_columns;
+    if (console.screen_rows > height) height = console.screen_rows;
+  }
+  return { width: width, height: height };
+}
+
+/**
+ * Top-left corner (1-based) of an 80x24 viewport centered on the terminal,
+ * for screens laid out at the minimum size.
+ */
+function getViewportOrigin(): { x: number; y: number } {
+  var screen = getScreenSize();
+  return {
+    x: 1 + Math.floor((screen.width - MIN_SCREEN_WIDTH) / 2),
+    y: 1 + Math.floor((screen.height - MIN_SCREEN_HEIGHT) / 2)
+  };
+}
+
+/**
+ * console.gotoxy() in 80x24 viewport coordinates (1-based).
+ */
+function viewportGotoxy(x: number, y: number): void {
+  var origin = getViewportOrigin();
+  console.gotoxy(origin.x + x - 1, origin.y + y - 1);
+}
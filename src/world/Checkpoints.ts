@@ -1,63 +1,195 @@
 /**
  * Checkpoints - Checkpoint tracking for lap validation.
+ *
+ * Checkpoints are generated per road at evenly spaced segment boundaries.
+ * Index 0 is always the start/finish line. A lap only counts when the
+ * finish line is crossed after every other checkpoint has been passed
+ * in order, so reversing back and forth over the line (or any other
+ * shortcut) can't add laps.
  */
 
+/** Segments per checkpoint when generating from a road */
+var CHECKPOINT_SPACING_SEGMENTS = 8;
+
+/** Bounds on generated checkpoint count (including the finish line) */
+var CHECKPOINT_MIN_COUNT = 4;
+var CHECKPOINT_MAX_COUNT = 16;
+
+/** Backward travel (world units) before a vehicle is flagged wrong way */
+var WRONG_WAY_DISTANCE = 60;
+
+/**
+ * Per-vehicle checkpoint progress.
+ */
+interface CheckpointProgress {
+  /** Index of the next checkpoint to cross (0 = finish line) */
+  next: number;
+
+  /** Wrapped trackZ at the last update */
+  lastZ: number;
+
+  /** Times the vehicle has reversed over the finish line without re-crossing it */
+  behindLine: number;
+
+  /** Net backward travel, used for wrong-way detection */
+  backward: number;
+}
+
+/**
+ * Generate ordered checkpoints for a road.
+ * The first checkpoint is the finish line at z = 0.
+ */
+function generateCheckpoints(road: Road): Checkpoint[] {
+  var count = Math.round(road.segments.length / CHECKPOINT_SPACING_SEGMENTS);
+  count = clamp(count, CHECKPOINT_MIN_COUNT, CHECKPOINT_MAX_COUNT);
+  count = Math.min(count, Math.max(1, road.segments.length));
+
+  var checkpoints: Checkpoint[] = [];
+  for (var i = 0; i < count; i++) {
+    // Snap to segment boundaries so checkpoints sit on stripe edges
+    var segIndex = Math.floor(i * road.segments.length / count);
+    checkpoints.push({ z: segIndex * road.segmentLength });
+  }
+  return checkpoints;
+}
+
 class CheckpointTracker {
-  private track: ITrack;
-  private vehicleCheckpoints: { [vehicleId: number]: number };
+  private road: Road;
+  private checkpoints: Checkpoint[];
+  private progress: { [vehicleId: number]: CheckpointProgress };
+
+  /**
+   * @param checkpoints - The track's checkpoints (default: generated from the road)
+   */
+  constructor(road: Road, checkpoints?: Checkpoint[]) {
+    this.road = road;
+    this.checkpoints = checkpoints || generateCheckpoints(road);
+    this.progress = {};
+  }
 
-  constructor(track: ITrack) {
-    this.track = track;
-    this.vehicleCheckpoints = {};
+  /**
+   * Get the generated checkpoints (index 0 = finish line).
+   */
+  getCheckpoints(): Checkpoint[] {
+    return this.checkpoints;
   }
 
   /**
-   * Initialize tracking for a vehicle.
+   * Initialize tracking for a vehicle at its current position.
+   * The next checkpoint is the first one ahead of the vehicle.
    */
-  initVehicle(vehicleId: number): void {
-    this.vehicleCheckpoints[vehicleId] = 0;
+  initVehicle(vehicle: IVehicle): void {
+    var z = this.wrapZ(vehicle.trackZ);
+    var count = this.checkpoints.length;
+    var next = 0;
+    for (var i = count - 1; i > 0; i--) {
+      if (this.checkpoints[i].z > z) next = i;
+    }
+
+    this.progress[vehicle.id] = {
+      next: next,
+      lastZ: z,
+      behindLine: 0,
+      backward: 0
+    };
+    vehicle.checkpoint = (next - 1 + count) % count;
+    vehicle.isWrongWay = false;
   }
 
   /**
-   * Check if vehicle has passed next checkpoint.
-   * Returns true if checkpoint was crossed.
+   * Update a vehicle's checkpoint progress from its movement since the
+   * last call. Returns true if a valid lap was completed.
    */
   checkProgress(vehicle: IVehicle): boolean {
-    var currentCheckpoint = this.vehicleCheckpoints[vehicle.id] || 0;
-    var nextCheckpoint = this.track.checkpoints[currentCheckpoint];
+    var p = this.progress[vehicle.id];
+    if (!p) {
+      this.initVehicle(vehicle);
+      return false;
+    }
+
+    var length = this.road.totalLength;
+    var z = this.wrapZ(vehicle.trackZ);
+
+    // Signed movement, taking the shorter way around the loop
+    var delta = z - p.lastZ;
+    if (delta > length / 2) delta -= length;
+    else if (delta < -length / 2) delta += length;
 
-    if (!nextCheckpoint) {
-      // All checkpoints passed
+    // Anything larger than a couple of segments in one tick is a
+    // teleport (respawn, grid placement) - resync without crossing
+    if (Math.abs(delta) > this.road.segmentLength * 2) {
+      p.lastZ = z;
       return false;
     }
 
-    // Check if vehicle has passed the checkpoint Z position
-    var wrappedZ = vehicle.z % this.track.length;
-    if (wrappedZ >= nextCheckpoint.z) {
-      this.vehicleCheckpoints[vehicle.id] = currentCheckpoint + 1;
-      vehicle.checkpoint = currentCheckpoint + 1;
+    var count = this.checkpoints.length;
+    var lapCompleted = false;
 
-      // Check for lap completion
-      if (currentCheckpoint + 1 >= this.track.checkpoints.length) {
-        this.vehicleCheckpoints[vehicle.id] = 0;
-        return true; // Lap completed
+    if (delta > 0) {
+      while (this.crossedForward(p.lastZ, delta, this.checkpoints[p.next].z)) {
+        if (p.next === 0) {
+          if (p.behindLine > 0) {
+            // Re-crossing a line we backed over - not a new lap
+            p.behindLine--;
+          } else {
+            lapCompleted = true;
+          }
+        }
+        p.next = (p.next + 1) % count;
+        if (count === 1) break;
       }
+      p.backward = Math.max(0, p.backward - delta);
+    } else if (delta < 0) {
+      var prev = (p.next - 1 + count) % count;
+      if (this.crossedBackward(p.lastZ, delta, this.checkpoints[prev].z)) {
+        if (prev === 0) p.behindLine++;
+        p.next = prev;
+      }
+      p.backward += -delta;
     }
 
-    return false;
+    p.lastZ = z;
+    vehicle.checkpoint = (p.next - 1 + count) % count;
+    vehicle.isWrongWay = p.backward > WRONG_WAY_DISTANCE;
+
+    return lapCompleted;
   }
 
   /**
-   * Get current checkpoint index for a vehicle.
+   * Get index of the next checkpoint a vehicle must cross (0 = finish line).
    */
-  getCurrentCheckpoint(vehicleId: number): number {
-    return this.vehicleCheckpoints[vehicleId] || 0;
+  getNextCheckpoint(vehicleId: number): number {
+    var p = this.progress[vehicleId];
+    return p ? p.next : 0;
   }
 
   /**
    * Reset all checkpoint progress.
    */
   reset(): void {
-    this.vehicleCheckpoints = {};
+    this.progress = {};
+  }
+
+  /**
+   * True if moving forward by delta from fromZ passes checkpointZ.
+   */
+  private crossedForward(fromZ: number, delta: number, checkpointZ: number): boolean {
+    var ahead = this.wrapZ(checkpointZ - fromZ);
+    return ahead > 0 && ahead <= delta;
+  }
+
+  /**
+   * True if moving backward by delta (negative) from fromZ passes checkpointZ.
+   */
+  private crossedBackward(fromZ: number, delta: number, checkpointZ: number): boolean {
+    var behind = this.wrapZ(fromZ - checkpointZ);
+    return behind < -delta;
+  }
+
+  private wrapZ(z: number): number {
+    var length = this.road.totalLength;
+    var wrapped = z % length;
+    if (wrapped < 0) wrapped += length;
+    return wrapped;
   }
 }
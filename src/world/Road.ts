@@ -6,6 +6,8 @@
  * 
  * Key concepts:
  * - Each segment has a Z depth, curvature (dx), and hill (dy)
+ * - Elevation accumulates hill across segments; the renderer projects it
+ *   relative to the camera so crests hide the road behind them
  * - The road "curves" by accumulating curvature across segments
  * - Player X position is relative to road center (-1 to 1 = road edges)
  * - Steering counteracts road curvature to stay on track
@@ -18,9 +20,12 @@ interface RoadSegment {
   /** Curvature: how much road curves left (<0) or right (>0) per segment */
   curve: number;
   
-  /** Hill: vertical change (positive = uphill) - for future use */
+  /** Hill: vertical change across this segment (positive = uphill) */
   hill: number;
   
+  /** Elevation at the start of this segment (sum of previous hills) */
+  elevation: number;
+  
   /** Road width multiplier (1.0 = normal, can narrow/widen) */
   width: number;
   
@@ -91,6 +96,25 @@ class Road {
     return this.getSegment(z).curve;
   }
 
+  /**
+   * Get the road elevation at a given Z position.
+   * Interpolates within the segment so hills are smooth.
+   */
+  getElevation(z: number): number {
+    var segment = this.getSegment(z);
+    var local = z % this.segmentLength;
+    if (local < 0) local += this.segmentLength;
+    return segment.elevation + segment.hill * (local / this.segmentLength);
+  }
+
+  /**
+   * Get the slope at a given Z position (elevation change per segment).
+   * Positive = uphill.
+   */
+  getSlope(z: number): number {
+    return this.getSegment(z).hill;
+  }
+
   /**
    * Check if position is on the road.
    * @param x Player X position (-1 to 1 = on road)
@@ -186,6 +210,33 @@ class RoadBuilder {
     return this;
   }
 
+  /**
+   * Number of segments added so far.
+   */
+  getSegmentCount(): number {
+    return this.road.segments.length;
+  }
+
+  /**
+   * Shape the elevation of the most recently added segments.
+   * Curves and hills are independent, so this is applied after the
+   * segments have been added by straight()/curve()/easeIn()/easeOut().
+   * @param numSegments Number of trailing segments to shape
+   * @param profile 'climb' rises by height, 'descend' falls by height,
+   *                'crest' rises and returns, 'dip' falls and returns
+   * @param height Elevation change at the peak of the profile
+   */
+  elevation(numSegments: number, profile: string, height: number): RoadBuilder {
+    var segments = this.road.segments;
+    var n = Math.min(numSegments, segments.length);
+    var start = segments.length - n;
+    for (var i = 0; i < n; i++) {
+      var delta = hillProfileAt(profile, (i + 1) / n) - hillProfileAt(profile, i / n);
+      segments[start + i].hill += delta * height;
+    }
+    return this;
+  }
+
   /**
    * Add a single segment.
    */
@@ -194,6 +245,7 @@ class RoadBuilder {
       z: this.currentZ,
       curve: curve,
       hill: 0,
+      elevation: 0,
       width: 1.0,
       stripe: Math.floor(this.stripeCounter / this.stripeLength) % 2,
       spriteLeft: null,
@@ -208,8 +260,51 @@ class RoadBuilder {
    */
   build(): Road {
     this.road.totalLength = this.currentZ;
+    this.resolveElevation();
     return this.road;
   }
+
+  /**
+   * Accumulate hills into per-segment elevation.
+   * The road is a loop, so any net climb is spread evenly over the lap
+   * to avoid a step at the finish line.
+   */
+  private resolveElevation(): void {
+    var segments = this.road.segments;
+    if (segments.length === 0) return;
+
+    var net = 0;
+    for (var i = 0; i < segments.length; i++) {
+      net += segments[i].hill;
+    }
+    var correction = net / segments.length;
+
+    var elevation = 0;
+    for (var j = 0; j < segments.length; j++) {
+      if (correction !== 0) segments[j].hill -= correction;
+      segments[j].elevation = elevation;
+      elevation += segments[j].hill;
+    }
+  }
+}
+
+/**
+ * Normalized elevation profile at t (0-1).
+ * Eased with cosines so slopes blend smoothly into neighbouring sections.
+ */
+function hillProfileAt(profile: string, t: number): number {
+  switch (profile) {
+    case 'climb':
+      return (1 - Math.cos(Math.PI * t)) / 2;
+    case 'descend':
+      return -(1 - Math.cos(Math.PI * t)) / 2;
+    case 'crest':
+      return (1 - Math.cos(2 * Math.PI * t)) / 2;
+    case 'dip':
+      return -(1 - Math.cos(2 * Math.PI * t)) / 2;
+    default:
+      return 0;
+  }
 }
 
 /**
@@ -1,7 +1,35 @@
 /**
  * SpawnPoints - Handles vehicle spawn positioning.
+ *
+ * The grid starts just past the start line: pole position alone at the
+ * front, everyone else in 2-wide rows behind it.
  */
 
+/** Z spacing between grid rows */
+var SPAWN_GRID_ROW_SPACING = 20;
+
+/** Lateral offset of the two grid columns (Vehicle.x units, playerX 0.5) */
+var SPAWN_GRID_COLUMN_OFFSET = 10;
+
+/** Grid slots per track: the player plus 7 CPU racers, or a full lobby */
+var SPAWN_GRID_SLOTS = 8;
+
+/**
+ * Generate a starting grid of count slots, pole position first.
+ */
+function generateSpawnGrid(count: number): SpawnPoint[] {
+  var rows = Math.ceil((count - 1) / 2);
+  var points: SpawnPoint[] = [{ x: 0, z: (rows + 1) * SPAWN_GRID_ROW_SPACING }];
+  for (var i = 1; i < count; i++) {
+    var row = Math.floor((i - 1) / 2);
+    points.push({
+      x: (i - 1) % 2 === 0 ? -SPAWN_GRID_COLUMN_OFFSET : SPAWN_GRID_COLUMN_OFFSET,
+      z: (rows - row) * SPAWN_GRID_ROW_SPACING
+    });
+  }
+  return points;
+}
+
 class SpawnPointManager {
   private track: ITrack;
 
@@ -18,12 +46,12 @@ class SpawnPointManager {
       return { x: sp.x, z: sp.z };
     }
 
-    // Generate additional spawn points if needed
-    var row = Math.floor(gridPosition / 2);
-    var col = gridPosition % 2;
+    // Past the track's grid: keep adding 2-wide rows behind it
+    var last = this.track.spawnPoints[this.track.spawnPoints.length - 1];
+    var extra = gridPosition - this.track.spawnPoints.length;
     return {
-      x: col === 0 ? -5 : 5,
-      z: -(row + 1) * 15
+      x: extra % 2 === 0 ? -SPAWN_GRID_COLUMN_OFFSET : SPAWN_GRID_COLUMN_OFFSET,
+      z: (last ? last.z : 0) - (Math.floor(extra / 2) + 1) * SPAWN_GRID_ROW_SPACING
     };
   }
 
@@ -34,6 +62,8 @@ class SpawnPointManager {
     var pos = this.getSpawnPosition(gridPosition);
     vehicle.x = pos.x;
     vehicle.z = pos.z;
+    vehicle.playerX = pos.x / ROAD_TRACK_X_SCALE;
+    vehicle.trackZ = pos.z;
     vehicle.rotation = 0;
     vehicle.speed = 0;
   }
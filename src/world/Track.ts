@@ -1,16 +1,23 @@
 /**
  * Track - Race track definition.
+ *
+ * RoadTrack adapts the Road built from the selected TrackDefinition, so
+ * checkpoints, the starting grid and off-track checks all follow the
+ * track actually being raced.
  */
 
+/** Vehicle.x units per unit of playerX (see Vehicle.updatePhysics) */
+var ROAD_TRACK_X_SCALE = 20;
+
 interface Checkpoint {
   /** Z position along track */
   z: number;
 }
 
 interface SpawnPoint {
-  /** Lateral offset from centerline */
+  /** Lateral offset from centerline (Vehicle.x units) */
   x: number;
-  /** Distance behind start line */
+  /** Position along the track (trackZ) */
   z: number;
 }
 
@@ -150,3 +157,62 @@ class Track implements ITrack {
     return Math.atan2(p2.y - p1.y, p2.x - p1.x);
   }
 }
+
+/**
+ * ITrack for a Road: its layout, width, checkpoints and starting grid.
+ */
+class RoadTrack extends Track {
+  constructor(road: Road) {
+    super();
+    this.name = road.name;
+    this.laps = road.laps;
+    this.length = road.totalLength;
+    this.width = VEHICLE_PHYSICS.ROAD_HALF_WIDTH * 2 * ROAD_TRACK_X_SCALE;
+    this.centerline = generateRoadCenterline(road);
+    this.checkpoints = generateCheckpoints(road);
+    this.spawnPoints = generateSpawnGrid(SPAWN_GRID_SLOTS);
+  }
+
+  /**
+   * Vehicle.x is already measured from the centerline, so the
+   * centerline is always at 0.
+   */
+  getCenterlineX(_z: number): number {
+    return 0;
+  }
+}
+
+/**
+ * Plan view of a road, one point per segment. Curvature is scaled so
+ * the loop turns through one full circle, keeping the road's direction
+ * (a mirrored road is drawn mirrored). When the curves cancel out the
+ * minimap's fallback scale is used instead (see generatePathFromSections).
+ * Whatever gap is left between the end and the start is spread along
+ * the road, so the points always form a closed loop.
+ */
+function generateRoadCenterline(road: Road): Point2D[] {
+  var totalCurve = 0;
+  for (var i = 0; i < road.segments.length; i++) {
+    totalCurve += road.segments[i].curve;
+  }
+  var turnScale = Math.abs(totalCurve) > 0.1 ? (Math.PI * 2) / Math.abs(totalCurve) : 0.1;
+
+  var points: Point2D[] = [];
+  var x = 0;
+  var y = 0;
+  var heading = 0;
+  for (var j = 0; j < road.segments.length; j++) {
+    points.push({ x: x, y: y });
+    heading += road.segments[j].curve * turnScale;
+    x += Math.cos(heading) * road.segmentLength;
+    y += Math.sin(heading) * road.segmentLength;
+  }
+
+  // (x, y) is where the segment after the last would start: pull it back to 0, 0
+  for (var k = 0; k < points.length; k++) {
+    var t = k / points.length;
+    points[k].x -= x * t;
+    points[k].y -= y * t;
+  }
+  return points;
+}
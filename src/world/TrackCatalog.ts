@@ -120,6 +120,12 @@ interface TrackSection {
   
   /** Target curve for ease_in */
   targetCurve?: number;
+  
+  /** Elevation profile across the section (default flat) */
+  elevation?: 'climb' | 'descend' | 'crest' | 'dip';
+  
+  /** Elevation change at the peak of the profile (default 0.5) */
+  height?: number;
 }
 
 // ============================================================
@@ -814,7 +820,7 @@ var TRACK_CATALOG: TrackDefinition[] = [
       { type: 'ease_in', length: 3, targetCurve: 0.35 },
       { type: 'curve', length: 7, curve: 0.35 },
       { type: 'ease_out', length: 3 },
-      { type: 'straight', length: 5 },
+      { type: 'straight', length: 5, elevation: 'crest', height: 0.5 },
       { type: 'ease_in', length: 2, targetCurve: -0.4 },
       { type: 'curve', length: 6, curve: -0.4 },
       { type: 'ease_out', length: 3 }
@@ -832,11 +838,11 @@ var TRACK_CATALOG: TrackDefinition[] = [
     estimatedLapTime: 40,
     npcCount: 5,
     sections: [
-      { type: 'straight', length: 5 },
+      { type: 'straight', length: 5, elevation: 'crest', height: 0.6 },
       { type: 'ease_in', length: 2, targetCurve: 0.5 },
       { type: 'curve', length: 7, curve: 0.5 },
       { type: 'ease_out', length: 2 },
-      { type: 'straight', length: 4 },
+      { type: 'straight', length: 4, elevation: 'dip', height: 0.5 },
       { type: 'ease_in', length: 2, targetCurve: -0.65 },
       { type: 'curve', length: 6, curve: -0.65 },
       { type: 'ease_out', length: 2 },
@@ -1191,14 +1197,17 @@ var TRACK_CATALOG: TrackDefinition[] = [
 
 /**
  * Build a Road from a TrackDefinition.
+ * @param mirror - Flip every curve left for right (Mirror class)
  */
-function buildRoadFromDefinition(def: TrackDefinition): Road {
+function buildRoadFromDefinition(def: TrackDefinition, mirror?: boolean): Road {
   var builder = new RoadBuilder()
     .name(def.name)
     .laps(def.laps);
+  var flip = mirror ? -1 : 1;
 
   for (var i = 0; i < def.sections.length; i++) {
     var section = def.sections[i];
+    var firstSegment = builder.getSegmentCount();
     
     switch (section.type) {
       case 'straight':
@@ -1206,11 +1215,11 @@ function buildRoadFromDefinition(def: TrackDefinition): Road {
         break;
         
       case 'curve':
-        builder.curve(section.length, section.curve || 0);
+        builder.curve(section.length, (section.curve || 0) * flip);
         break;
         
       case 'ease_in':
-        builder.easeIn(section.length, section.targetCurve || 0);
+        builder.easeIn(section.length, (section.targetCurve || 0) * flip);
         break;
         
       case 'ease_out':
@@ -1221,23 +1230,58 @@ function buildRoadFromDefinition(def: TrackDefinition): Road {
         // S-curve: right then left (or use length to split evenly)
         var halfLen = Math.floor(section.length / 6);
         builder
-          .easeIn(halfLen, 0.5)
-          .curve(halfLen * 2, 0.5)
+          .easeIn(halfLen, 0.5 * flip)
+          .curve(halfLen * 2, 0.5 * flip)
           .easeOut(halfLen)
-          .easeIn(halfLen, -0.5)
-          .curve(halfLen * 2, -0.5)
+          .easeIn(halfLen, -0.5 * flip)
+          .curve(halfLen * 2, -0.5 * flip)
           .easeOut(halfLen);
         break;
     }
+    
+    if (section.elevation) {
+      var height = section.height !== undefined ? section.height : 0.5;
+      builder.elevation(builder.getSegmentCount() - firstSegment, section.elevation, height);
+    }
   }
 
   return builder.build();
 }
 
 /**
- * Get a track definition by ID.
+ * Custom tracks loaded from the tracks directory (lazy, loaded once).
  */
-function getTrackDefinition(id: string): TrackDefinition | null {
+var _customTracks: TrackDefinition[] | null = null;
+
+/**
+ * Built-in plus custom tracks (lazy, built once).
+ */
+var _allTracks: TrackDefinition[] | null = null;
+
+/**
+ * Get tracks loaded from JSON files in the configured tracks directory.
+ * Files that reuse a built-in track id are rejected.
+ */
+function getCustomTracks(): TrackDefinition[] {
+  if (_customTracks === null) {
+    _customTracks = [];
+    getCustomThemes();  // Custom tracks may use file themes
+    var loaded = new TrackLoader().loadDefinitions(OUTRUN_CONFIG.tracks.directory);
+    for (var i = 0; i < loaded.length; i++) {
+      if (getBuiltInTrackDefinition(loaded[i].id)) {
+        logError("TrackCatalog: custom track '" + loaded[i].id + "' conflicts with a built-in track, skipped");
+        continue;
+      }
+      _customTracks.push(loaded[i]);
+    }
+  }
+  return _customTracks;
+}
+
+/**
+ * Look up a track in the built-in TRACK_CATALOG only.
+ */
+function getBuiltInTrackDefinition(id: string): TrackDefinition | null {
   for (var i = 0; i < TRACK_CATALOG.length; i++) {
     if (TRACK_CATALOG[i].id === id) {
       return TRACK_CATALOG[i];
@@ -1246,6 +1290,33 @@ function getTrackDefinition(id: string): TrackDefinition | null {
   return null;
 }
 
+/**
+ * Get a track definition by ID (built-in or custom).
+ */
+function getTrackDefinition(id: string): TrackDefinition | null {
+  var tracks = getAllTracks();
+  for (var i = 0; i < tracks.length; i++) {
+    if (tracks[i].id === id) {
+      return tracks[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * A copy of a track definition raced over a different number of laps.
+ */
+function getTrackWithLaps(def: TrackDefinition, laps: number): TrackDefinition {
+  var copy = {} as TrackDefinition;
+  for (var key in def) {
+    if (def.hasOwnProperty(key)) {
+      (copy as any)[key] = (def as any)[key];
+    }
+  }
+  copy.laps = laps;
+  return copy;
+}
+
 /**
  * Get the theme for a track.
  */
@@ -1254,10 +1325,13 @@ function getTrackTheme(trackDef: TrackDefinition): TrackTheme {
 }
 
 /**
- * Get all available tracks.
+ * Get all available tracks: the built-in catalog followed by custom tracks.
  */
 function getAllTracks(): TrackDefinition[] {
-  return TRACK_CATALOG;
+  if (_allTracks === null) {
+    _allTracks = TRACK_CATALOG.concat(getCustomTracks());
+  }
+  return _allTracks;
 }
 
 /**
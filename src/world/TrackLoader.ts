@@ -1,161 +1,214 @@
 /**
  * TrackLoader - Loads track data from JSON files.
  *
- * NOTE: For Iteration 0, this returns hardcoded data.
- * File I/O will be implemented in Iteration 1.
- * See ADR-0003 for the track JSON schema.
+ * loadDefinitions() reads sysop-supplied TrackDefinition files from the
+ * configured tracks directory (see tracks/README.md for the format).
  */
 
 class TrackLoader {
-  // Reserved for future file I/O (Iteration 1)
-  // private basePath: string;
-
-  constructor() {
-    // Tracks will be loaded from data/tracks/ subdirectory
-    // Synchronet automatically resolves relative paths from script directory
-    // TODO: Enable in Iteration 1
-    // this.basePath = "data/tracks/";
-  }
-
   /**
-   * Load a track by ID.
-   *
-   * TODO (Iteration 1): Implement actual file loading:
-   *   var f = new File(this.basePath + trackId + ".json");
-   *   if (f.open("r")) {
-   *     var content = f.read();
-   *     f.close();
-   *     return this.parseTrackJson(JSON.parse(content));
-   *   }
+   * Load every *.json track definition in a directory.
+   * Invalid files are logged and skipped; they never abort the scan.
    */
-  load(trackId: string): ITrack {
-    logInfo("TrackLoader: Loading track '" + trackId + "'");
+  loadDefinitions(dirPath: string): TrackDefinition[] {
+    var defs: TrackDefinition[] = [];
+    var files: string[] = [];
 
-    // For now, return hardcoded data matching neon_coast_01.json
-    if (trackId === "neon_coast_01") {
-      return this.loadNeonCoast();
+    try {
+      if (typeof directory === 'function') {
+        files = directory(dirPath + '/*.json') || [];
+      }
+    } catch (e) {
+      logWarning("TrackLoader: Error scanning track directory " + dirPath + " - " + e);
+      return defs;
     }
 
-    // Fallback to default track
-    logWarning("TrackLoader: Unknown track '" + trackId + "', using default");
-    return this.loadNeonCoast();
-  }
+    var seen: { [id: string]: string } = {};
+    for (var i = 0; i < files.length; i++) {
+      var def = this.loadDefinitionFile(files[i]);
+      if (!def) continue;
 
-  /**
-   * Hardcoded Neon Coast track for Iteration 0.
-   */
-  private loadNeonCoast(): ITrack {
-    var track = new Track();
-    track.name = "Neon Coast";
-    track.width = 40;
-    track.laps = 3;
-
-    // Centerline forms a simple oval
-    track.centerline = [
-      { x: 0, y: 0 },
-      { x: 100, y: 0 },
-      { x: 200, y: 50 },
-      { x: 250, y: 150 },
-      { x: 200, y: 250 },
-      { x: 100, y: 300 },
-      { x: 0, y: 300 },
-      { x: -100, y: 250 },
-      { x: -150, y: 150 },
-      { x: -100, y: 50 }
-    ];
-
-    // Calculate length from centerline
-    track.length = this.calculateTrackLength(track.centerline);
-
-    // Checkpoints
-    track.checkpoints = [
-      { z: 0 },
-      { z: track.length * 0.25 },
-      { z: track.length * 0.5 },
-      { z: track.length * 0.75 }
-    ];
-
-    // Spawn points (8 positions in 2 columns)
-    track.spawnPoints = [
-      { x: -5, z: -10 },
-      { x: 5, z: -10 },
-      { x: -5, z: -25 },
-      { x: 5, z: -25 },
-      { x: -5, z: -40 },
-      { x: 5, z: -40 },
-      { x: -5, z: -55 },
-      { x: 5, z: -55 }
-    ];
-
-    // Scenery
-    track.scenery = {
-      sky: {
-        type: 'sunset',
-        sunAzimuth: 270,
-        horizonColors: ['#ff00ff', '#ff6600', '#ffff00']
-      },
-      props: {
-        palmTrees: 0.7,
-        buildings: 0.3,
-        billboards: 0.2
-      },
-      road: {
-        color: '#333333',
-        stripeColor: '#ffffff',
-        stripeWidth: 2
-      },
-      skyline: {
-        style: 'city',
-        density: 0.6
+      if (seen[def.id]) {
+        logError("TrackLoader: " + files[i] + ": duplicate track id '" + def.id +
+                 "' (already defined in " + seen[def.id] + ")");
+        continue;
       }
-    };
+      seen[def.id] = files[i];
+      defs.push(def);
+    }
 
-    return track;
+    logInfo("TrackLoader: Loaded " + defs.length + " of " + files.length +
+            " track files from " + dirPath);
+    return defs;
   }
 
   /**
-   * Calculate total track length from centerline points.
+   * Read and validate a single track definition file.
    */
-  private calculateTrackLength(centerline: Point2D[]): number {
-    var length = 0;
-    for (var i = 0; i < centerline.length; i++) {
-      var p1 = centerline[i];
-      var p2 = centerline[(i + 1) % centerline.length];
-      length += distance(p1, p2);
-    }
-    return length;
+  private loadDefinitionFile(path: string): TrackDefinition | null {
+    var content: string;
+    try {
+      var f = new File(path);
+      if (!f.open('r')) {
+        logError("TrackLoader: " + path + ": unable to open file");
+        return null;
+      }
+      content = f.read();
+      f.close();
+    } catch (e) {
+      logError("TrackLoader: " + path + ": read failed - " + e);
+      return null;
+    }
+
+    var data: any;
+    try {
+      data = JSON.parse(content);
+    } catch (e) {
+      logError("TrackLoader: " + path + ": invalid JSON - " + e);
+      return null;
+    }
+
+    return this.parseTrackDefinition(data, path);
   }
 
   /**
-   * Parse a track JSON object (for future file loading).
-   * @ts-ignore Unused until Iteration 1
+   * Validate parsed JSON against the TrackDefinition schema.
+   * Logs every problem found (prefixed with source) and returns null
+   * if any were fatal.
    */
-  /* istanbul ignore next */
-  parseTrackJson(data: any): ITrack {
-    var track = new Track();
+  parseTrackDefinition(data: any, source: string): TrackDefinition | null {
+    var errors: string[] = [];
+
+    if (!data || typeof data !== 'object' || data instanceof Array) {
+      logError("TrackLoader: " + source + ": top level must be an object");
+      return null;
+    }
+
+    if (typeof data.id !== 'string' || !/^[a-z0-9_]+$/.test(data.id)) {
+      errors.push("'id' must be a lowercase string of letters, digits and underscores");
+    }
+    if (typeof data.name !== 'string' || data.name === '') {
+      errors.push("'name' must be a non-empty string");
+    }
+    if (data.description !== undefined && typeof data.description !== 'string') {
+      errors.push("'description' must be a string");
+    }
+    if (data.difficulty !== undefined && !isIntegerInRange(data.difficulty, 1, 5)) {
+      errors.push("'difficulty' must be an integer from 1 to 5");
+    }
+    if (!isIntegerInRange(data.laps, 1, 99)) {
+      errors.push("'laps' must be an integer from 1 to 99");
+    }
+    if (typeof data.themeId !== 'string' || !TRACK_THEMES[data.themeId]) {
+      errors.push("'themeId' must be one of: " + Object.keys(TRACK_THEMES).join(', '));
+    }
+    if (data.estimatedLapTime !== undefined &&
+        (typeof data.estimatedLapTime !== 'number' || !(data.estimatedLapTime > 0))) {
+      errors.push("'estimatedLapTime' must be a positive number of seconds");
+    }
+    if (data.npcCount !== undefined && !isIntegerInRange(data.npcCount, 0, 20)) {
+      errors.push("'npcCount' must be an integer from 0 to 20");
+    }
+    if (data.hidden !== undefined && typeof data.hidden !== 'boolean') {
+      errors.push("'hidden' must be true or false");
+    }
+
+    var sections: TrackSection[] = [];
+    var totalLength = 0;
+    if (!(data.sections instanceof Array) || data.sections.length === 0) {
+      errors.push("'sections' must be a non-empty array");
+    } else {
+      for (var i = 0; i < data.sections.length; i++) {
+        var section = this.parseTrackSection(data.sections[i], 'sections[' + i + ']', errors);
+        if (section) {
+          sections.push(section);
+          totalLength += section.length;
+        }
+      }
+    }
 
-    // Meta
-    track.name = data.meta?.name || "Unknown";
-    track.laps = data.race?.laps || 3;
+    if (errors.length > 0) {
+      for (var e = 0; e < errors.length; e++) {
+        logError("TrackLoader: " + source + ": " + errors[e]);
+      }
+      return null;
+    }
 
-    // Geometry
-    track.width = data.geometry?.width || 40;
-    track.centerline = (data.geometry?.centerline || []).map(function(p: number[]) {
-      return { x: p[0], y: p[1] };
-    });
-    track.length = data.geometry?.length || this.calculateTrackLength(track.centerline);
+    return {
+      id: data.id,
+      name: data.name,
+      description: data.description || '',
+      difficulty: data.difficulty !== undefined ? data.difficulty : 3,
+      laps: data.laps,
+      themeId: data.themeId,
+      sections: sections,
+      // Roughly one second per segment when no estimate is supplied
+      estimatedLapTime: data.estimatedLapTime !== undefined ? data.estimatedLapTime : totalLength,
+      npcCount: data.npcCount,
+      hidden: data.hidden === true
+    };
+  }
 
-    // Race
-    track.checkpoints = (data.race?.checkpoints || []).map(function(z: number) {
-      return { z: z };
-    });
-    track.spawnPoints = data.race?.spawnPoints || [];
+  /**
+   * Validate a single section entry, appending problems to errors.
+   */
+  private parseTrackSection(data: any, label: string, errors: string[]): TrackSection | null {
+    if (!data || typeof data !== 'object') {
+      errors.push(label + " must be an object");
+      return null;
+    }
 
-    // Scenery
-    if (data.scenery) {
-      track.scenery = data.scenery;
+    var type = data.type;
+    if (type !== 'straight' && type !== 'curve' && type !== 'ease_in' &&
+        type !== 'ease_out' && type !== 's_curve') {
+      errors.push(label + ".type must be straight, curve, ease_in, ease_out or s_curve");
+      return null;
     }
 
-    return track;
+    var ok = true;
+    if (!isIntegerInRange(data.length, 1, 1000)) {
+      errors.push(label + ".length must be an integer from 1 to 1000");
+      ok = false;
+    }
+    if (type === 'curve' && !isNumberInRange(data.curve, -1, 1)) {
+      errors.push(label + ".curve must be a number from -1 to 1");
+      ok = false;
+    }
+    if (type === 'ease_in' && !isNumberInRange(data.targetCurve, -1, 1)) {
+      errors.push(label + ".targetCurve must be a number from -1 to 1");
+      ok = false;
+    }
+    var elevation = data.elevation;
+    if (elevation !== undefined && elevation !== 'climb' && elevation !== 'descend' &&
+        elevation !== 'crest' && elevation !== 'dip') {
+      errors.push(label + ".elevation must be climb, descend, crest or dip");
+      ok = false;
+    }
+    if (data.height !== undefined && !isNumberInRange(data.height, 0, 2)) {
+      errors.push(label + ".height must be a number from 0 to 2");
+      ok = false;
+    }
+    if (!ok) return null;
+
+    var section: TrackSection = { type: type, length: data.length };
+    if (type === 'curve') section.curve = data.curve;
+    if (type === 'ease_in') section.targetCurve = data.targetCurve;
+    if (elevation !== undefined) section.elevation = elevation;
+    if (data.height !== undefined) section.height = data.height;
+    return section;
   }
 }
+
+/**
+ * True if value is an integer within [min, max].
+ */
+function isIntegerInRange(value: any, min: number, max: number): boolean {
+  return typeof value === 'number' && Math.floor(value) === value && value >= min && value <= max;
+}
+
+/**
+ * True if value is a finite number within [min, max].
+ */
+function isNumberInRange(value: any, min: number, max: number): boolean {
+  return typeof value === 'number' && value >= min && value <= max;
+}
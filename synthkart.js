@@ -68,11 +68,15 @@ function sign(x) {
 "use strict";
 var Rand = (function () {
     function Rand(seed) {
-        this.seed = seed !== undefined ? seed : Date.now();
+        this.seed = 0;
+        this.setSeed(seed !== undefined ? seed : Date.now());
     }
     Rand.prototype.next = function () {
-        this.seed = (this.seed * 1103515245 + 12345) & 0x7fffffff;
-        return this.seed / 0x7fffffff;
+        var a = 1103515245;
+        var lo = (this.seed & 0xffff) * a;
+        var hi = ((this.seed >>> 16) * (a & 0xffff)) & 0xffff;
+        this.seed = (lo + hi * 0x10000 + 12345) & 0x7fffffff;
+        return this.seed / 0x80000000;
     };
     Rand.prototype.nextInt = function (min, max) {
         return Math.floor(this.next() * (max - min + 1)) + min;
@@ -98,7 +102,7 @@ var Rand = (function () {
         return array;
     };
     Rand.prototype.setSeed = function (seed) {
-        this.seed = seed;
+        this.seed = (seed >>> 0) & 0x7fffffff;
     };
     return Rand;
 }());
@@ -294,11 +298,39 @@ function logError(message) {
     logMessage(LogLevel.ERROR, message);
 }
 "use strict";
+var MIN_SCREEN_WIDTH = 80;
+var MIN_SCREEN_HEIGHT = 24;
+function getScreenSize() {
+    var width = MIN_SCREEN_WIDTH;
+    var height = MIN_SCREEN_HEIGHT;
+    if (typeof console !== 'undefined' && console) {
+        if (console.screen_columns > width)
+            width = console.screen_columns;
+        if (console.screen_rows > height)
+            height = console.screen_rows;
+    }
+    return { width: width, height: height };
+}
+function getViewportOrigin() {
+    var screen = getScreenSize();
+    return {
+        x: 1 + Math.floor((screen.width - MIN_SCREEN_WIDTH) / 2),
+        y: 1 + Math.floor((screen.height - MIN_SCREEN_HEIGHT) / 2)
+    };
+}
+function viewportGotoxy(x, y) {
+    var origin = getViewportOrigin();
+    console.gotoxy(origin.x + x - 1, origin.y + y - 1);
+}
+"use strict";
+var MIN_TICK_RATE = 30;
+var MAX_TICK_RATE = 120;
 function loadConfig() {
     var configPath = js.exec_dir + 'synthkart.ini';
     var config = {
         general: {
-            gameName: 'OUTRUN'
+            gameName: 'OUTRUN',
+            tickRate: 60
         },
         highscores: {
             server: 'file',
@@ -310,6 +342,33 @@ function loadConfig() {
             directory: 'ansi_art',
             maxRows: 2000,
             scrollSpeed: 0.5
+        },
+        tracks: {
+            directory: 'tracks'
+        },
+        themes: {
+            directory: 'themes'
+        },
+        ghosts: {
+            enabled: true,
+            directory: 'ghosts'
+        },
+        replays: {
+            enabled: true,
+            directory: 'replays',
+            keep: 10
+        },
+        multiplayer: {
+            enabled: true,
+            broadcast: false,
+            directory: 'multiplayer'
+        },
+        players: {
+            directory: 'players'
+        },
+        cup: {
+            rival: true,
+            file: 'cups.json'
         }
     };
     if (!file_exists(configPath)) {
@@ -342,8 +401,14 @@ function loadConfig() {
                 value = value.substring(1, value.length - 1);
             }
             if (currentSection === 'general') {
-                if (key === 'gamename')
+                if (key === 'gamename') {
                     config.general.gameName = value;
+                }
+                else if (key === 'tickrate') {
+                    var rate = parseInt(value, 10);
+                    if (!isNaN(rate))
+                        config.general.tickRate = clamp(rate, MIN_TICK_RATE, MAX_TICK_RATE);
+                }
             }
             else if (currentSection === 'highscores') {
                 if (key === 'server') {
@@ -376,6 +441,58 @@ function loadConfig() {
                         config.ansiTunnel.scrollSpeed = speed;
                 }
             }
+            else if (currentSection === 'tracks') {
+                if (key === 'directory')
+                    config.tracks.directory = value;
+            }
+            else if (currentSection === 'themes') {
+                if (key === 'directory')
+                    config.themes.directory = value;
+            }
+            else if (currentSection === 'ghosts') {
+                if (key === 'enabled') {
+                    config.ghosts.enabled = !(value === '0' || value.toLowerCase() === 'false' || value.toLowerCase() === 'no');
+                }
+                else if (key === 'directory') {
+                    config.ghosts.directory = value;
+                }
+            }
+            else if (currentSection === 'replays') {
+                if (key === 'enabled') {
+                    config.replays.enabled = !(value === '0' || value.toLowerCase() === 'false' || value.toLowerCase() === 'no');
+                }
+                else if (key === 'directory') {
+                    config.replays.directory = value;
+                }
+                else if (key === 'keep') {
+                    var keep = parseInt(value, 10);
+                    if (!isNaN(keep) && keep > 0)
+                        config.replays.keep = keep;
+                }
+            }
+            else if (currentSection === 'multiplayer') {
+                if (key === 'enabled') {
+                    config.multiplayer.enabled = !(value === '0' || value.toLowerCase() === 'false' || value.toLowerCase() === 'no');
+                }
+                else if (key === 'broadcast') {
+                    config.multiplayer.broadcast = !(value === '0' || value.toLowerCase() === 'false' || value.toLowerCase() === 'no');
+                }
+                else if (key === 'directory') {
+                    config.multiplayer.directory = value;
+                }
+            }
+            else if (currentSection === 'players') {
+                if (key === 'directory')
+                    config.players.directory = value;
+            }
+            else if (currentSection === 'cup') {
+                if (key === 'rival') {
+                    config.cup.rival = !(value === '0' || value.toLowerCase() === 'false' || value.toLowerCase() === 'no');
+                }
+                else if (key === 'file') {
+                    config.cup.file = value;
+                }
+            }
         }
         file.close();
     }
@@ -390,7 +507,37 @@ function loadConfig() {
         config.ansiTunnel.directory.indexOf(':') === -1) {
         config.ansiTunnel.directory = js.exec_dir + config.ansiTunnel.directory;
     }
+    if (config.tracks.directory.charAt(0) !== '/' &&
+        config.tracks.directory.indexOf(':') === -1) {
+        config.tracks.directory = js.exec_dir + config.tracks.directory;
+    }
+    if (config.themes.directory.charAt(0) !== '/' &&
+        config.themes.directory.indexOf(':') === -1) {
+        config.themes.directory = js.exec_dir + config.themes.directory;
+    }
+    if (config.ghosts.directory.charAt(0) !== '/' &&
+        config.ghosts.directory.indexOf(':') === -1) {
+        config.ghosts.directory = js.exec_dir + config.ghosts.directory;
+    }
+    if (config.replays.directory.charAt(0) !== '/' &&
+        config.replays.directory.indexOf(':') === -1) {
+        config.replays.directory = js.exec_dir + config.replays.directory;
+    }
+    if (config.multiplayer.directory.charAt(0) !== '/' &&
+        config.multiplayer.directory.indexOf(':') === -1) {
+        config.multiplayer.directory = js.exec_dir + config.multiplayer.directory;
+    }
+    if (config.players.directory.charAt(0) !== '/' &&
+        config.players.directory.indexOf(':') === -1) {
+        config.players.directory = js.exec_dir + config.players.directory;
+    }
+    if (config.cup.file.charAt(0) !== '/' &&
+        config.cup.file.indexOf(':') === -1) {
+        config.cup.file = js.exec_dir + config.cup.file;
+    }
     logInfo('Config loaded: ansiDir=' + config.ansiTunnel.directory +
+        ' tracksDir=' + config.tracks.directory +
+        ' themesDir=' + config.themes.directory +
         ' hsServer=' + config.highscores.server);
     return config;
 }
@@ -468,11 +615,23 @@ var InputMap = (function () {
         this.bindings = {};
         this.setupDefaultBindings();
     }
+    InputMap.prototype.resetToDefaults = function () {
+        this.bindings = {};
+        this.setupDefaultBindings();
+    };
     InputMap.prototype.setupDefaultBindings = function () {
         this.bind(KEY_UP, GameAction.ACCELERATE);
         this.bind(KEY_DOWN, GameAction.BRAKE);
         this.bind(KEY_LEFT, GameAction.STEER_LEFT);
         this.bind(KEY_RIGHT, GameAction.STEER_RIGHT);
+        this.bind('w', GameAction.ACCELERATE);
+        this.bind('W', GameAction.ACCELERATE);
+        this.bind('s', GameAction.BRAKE);
+        this.bind('S', GameAction.BRAKE);
+        this.bind('a', GameAction.STEER_LEFT);
+        this.bind('A', GameAction.STEER_LEFT);
+        this.bind('d', GameAction.STEER_RIGHT);
+        this.bind('D', GameAction.STEER_RIGHT);
         this.bind('7', GameAction.ACCEL_LEFT);
         this.bind('8', GameAction.ACCELERATE);
         this.bind('9', GameAction.ACCEL_RIGHT);
@@ -495,12 +654,220 @@ var InputMap = (function () {
     InputMap.prototype.bind = function (key, action) {
         this.bindings[key] = action;
     };
+    InputMap.prototype.addKey = function (action, key) {
+        var keys = bindingVariants(key);
+        for (var i = 0; i < keys.length; i++) {
+            this.bindings[keys[i]] = action;
+        }
+    };
+    InputMap.prototype.setKey = function (action, key) {
+        this.clearAction(action);
+        this.addKey(action, key);
+    };
+    InputMap.prototype.clearAction = function (action) {
+        for (var key in this.bindings) {
+            if (this.bindings.hasOwnProperty(key) && this.bindings[key] === action) {
+                delete this.bindings[key];
+            }
+        }
+    };
+    InputMap.prototype.getKeysFor = function (action) {
+        var keys = [];
+        for (var key in this.bindings) {
+            if (!this.bindings.hasOwnProperty(key) || this.bindings[key] !== action)
+                continue;
+            if (key !== key.toUpperCase() && this.bindings[key.toUpperCase()] === action)
+                continue;
+            keys.push(key);
+        }
+        keys.sort(function (a, b) {
+            var aNamed = a.length > 1 || a <= ' ';
+            var bNamed = b.length > 1 || b <= ' ';
+            if (aNamed !== bNamed)
+                return aNamed ? -1 : 1;
+            return a < b ? -1 : (a > b ? 1 : 0);
+        });
+        return keys;
+    };
+    InputMap.prototype.exportBindings = function () {
+        var data = {};
+        for (var i = 0; i < REMAPPABLE_ACTIONS.length; i++) {
+            var action = REMAPPABLE_ACTIONS[i];
+            var keys = [];
+            for (var key in this.bindings) {
+                if (this.bindings.hasOwnProperty(key) && this.bindings[key] === action) {
+                    keys.push(key);
+                }
+            }
+            data[GameAction[action]] = keys;
+        }
+        return data;
+    };
+    InputMap.prototype.importBindings = function (data) {
+        if (!data || typeof data !== 'object')
+            return false;
+        var bindings = {};
+        var found = false;
+        for (var name in data) {
+            if (!data.hasOwnProperty(name))
+                continue;
+            var action = GameAction[name];
+            if (typeof action !== 'number' || REMAPPABLE_ACTIONS.indexOf(action) === -1)
+                continue;
+            var keys = data[name];
+            if (!(keys instanceof Array))
+                continue;
+            for (var i = 0; i < keys.length; i++) {
+                if (typeof keys[i] !== 'string' || keys[i].length === 0)
+                    continue;
+                bindings[keys[i]] = action;
+                found = true;
+            }
+        }
+        if (!found)
+            return false;
+        this.bindings = bindings;
+        return true;
+    };
     InputMap.prototype.getAction = function (key) {
         var action = this.bindings[key];
         return action !== undefined ? action : GameAction.NONE;
     };
     return InputMap;
 }());
+var REMAPPABLE_ACTIONS = [
+    GameAction.ACCELERATE,
+    GameAction.BRAKE,
+    GameAction.STEER_LEFT,
+    GameAction.STEER_RIGHT,
+    GameAction.ACCEL_LEFT,
+    GameAction.ACCEL_RIGHT,
+    GameAction.BRAKE_LEFT,
+    GameAction.BRAKE_RIGHT,
+    GameAction.USE_ITEM,
+    GameAction.PAUSE,
+    GameAction.QUIT
+];
+function getActionLabel(action) {
+    switch (action) {
+        case GameAction.ACCELERATE: return 'Accelerate';
+        case GameAction.BRAKE: return 'Brake';
+        case GameAction.STEER_LEFT: return 'Steer Left';
+        case GameAction.STEER_RIGHT: return 'Steer Right';
+        case GameAction.ACCEL_LEFT: return 'Accelerate + Left';
+        case GameAction.ACCEL_RIGHT: return 'Accelerate + Right';
+        case GameAction.BRAKE_LEFT: return 'Brake + Left';
+        case GameAction.BRAKE_RIGHT: return 'Brake + Right';
+        case GameAction.USE_ITEM: return 'Use Item';
+        case GameAction.PAUSE: return 'Pause';
+        case GameAction.QUIT: return 'Quit';
+        default: return 'None';
+    }
+}
+function getKeyLabel(key) {
+    switch (key) {
+        case KEY_UP: return 'Up';
+        case KEY_DOWN: return 'Down';
+        case KEY_LEFT: return 'Left';
+        case KEY_RIGHT: return 'Right';
+        case ' ': return 'Space';
+        case '\r': return 'Enter';
+        case '\x1b': return 'Esc';
+    }
+    var code = key.charCodeAt(0);
+    if (key.length === 1 && code < 32) {
+        return '^' + String.fromCharCode(code + 64);
+    }
+    return key.toUpperCase();
+}
+function describeActionKeys(inputMap, action, maxKeys) {
+    var keys = inputMap.getKeysFor(action);
+    if (keys.length === 0)
+        return '(none)';
+    if (maxKeys !== undefined && keys.length > maxKeys)
+        keys = keys.slice(0, maxKeys);
+    var labels = [];
+    for (var i = 0; i < keys.length; i++) {
+        labels.push(getKeyLabel(keys[i]));
+    }
+    return labels.join('/');
+}
+function bindingVariants(key) {
+    var upper = key.toUpperCase();
+    var lower = key.toLowerCase();
+    if (key.length === 1 && upper !== lower)
+        return [upper, lower];
+    return [key];
+}
+var playerInputMap = null;
+function getPlayerInputMap() {
+    if (!playerInputMap) {
+        playerInputMap = new InputMap();
+    }
+    return playerInputMap;
+}
+"use strict";
+var KeyBindingStore = (function () {
+    function KeyBindingStore() {
+        this.directory = OUTRUN_CONFIG.players.directory;
+    }
+    KeyBindingStore.prototype.load = function (inputMap, userNumber) {
+        if (userNumber <= 0)
+            return false;
+        var path = this.path(userNumber);
+        if (!file_exists(path))
+            return false;
+        try {
+            var f = new File(path);
+            if (!f.open('r')) {
+                logWarning('KeyBindingStore: unable to open ' + path);
+                return false;
+            }
+            var content = f.read();
+            f.close();
+            if (!inputMap.importBindings(JSON.parse(content))) {
+                logWarning('KeyBindingStore: ignoring invalid bindings ' + path);
+                return false;
+            }
+            return true;
+        }
+        catch (e) {
+            logError('KeyBindingStore: failed to read ' + path + ': ' + e);
+            return false;
+        }
+    };
+    KeyBindingStore.prototype.save = function (inputMap, userNumber) {
+        if (userNumber <= 0)
+            return false;
+        var path = this.path(userNumber);
+        try {
+            if (!file_exists(this.directory)) {
+                mkdir(this.directory);
+            }
+            var f = new File(path);
+            if (!f.open('w')) {
+                logError('KeyBindingStore: unable to write ' + path);
+                return false;
+            }
+            f.write(JSON.stringify(inputMap.exportBindings()));
+            f.close();
+            return true;
+        }
+        catch (e) {
+            logError('KeyBindingStore: failed to write ' + path + ': ' + e);
+            return false;
+        }
+    };
+    KeyBindingStore.prototype.path = function (userNumber) {
+        return this.directory + '/u' + userNumber + '.keys.json';
+    };
+    return KeyBindingStore;
+}());
+function loadPlayerKeyBindings(userNumber) {
+    if (new KeyBindingStore().load(getPlayerInputMap(), userNumber)) {
+        logInfo('Loaded key bindings for user ' + userNumber);
+    }
+}
 "use strict";
 var Controls = (function () {
     function Controls(inputMap) {
@@ -514,7 +881,9 @@ var Controls = (function () {
         this.lastAccelAction = 1;
     }
     Controls.prototype.handleKey = function (key, now) {
-        var action = this.inputMap.getAction(key);
+        this.handleAction(this.inputMap.getAction(key), now);
+    };
+    Controls.prototype.handleAction = function (action, now) {
         if (action !== GameAction.NONE) {
             if (!this.activeActions[action]) {
                 this.justPressedActions[action] = true;
@@ -610,9 +979,63 @@ var Controls = (function () {
     Controls.prototype.getLastAccelAction = function () {
         return this.lastAccelAction;
     };
+    Controls.prototype.getTickIntent = function () {
+        return (this.currentAccel + 1) +
+            (this.currentSteer + 1) * 3 +
+            (this.lastAccelAction > 0 ? 9 : 0) +
+            (this.justPressedActions[GameAction.USE_ITEM] === true ? 18 : 0);
+    };
+    Controls.prototype.setTickIntent = function (intent) {
+        this.currentAccel = intent % 3 - 1;
+        this.currentSteer = Math.floor(intent / 3) % 3 - 1;
+        this.lastAccelAction = Math.floor(intent / 9) % 2 === 1 ? 1 : -1;
+        this.justPressedActions[GameAction.USE_ITEM] = intent >= 18;
+    };
     return Controls;
 }());
 "use strict";
+var ScriptedInput = (function () {
+    function ScriptedInput(events) {
+        this.events = events.slice(0);
+        this.events.sort(function (a, b) { return a.tick - b.tick; });
+    }
+    ScriptedInput.prototype.apply = function (controls, tick, now) {
+        for (var i = 0; i < this.events.length; i++) {
+            var e = this.events[i];
+            if (e.tick > tick)
+                break;
+            var hold = e.hold !== undefined ? e.hold : 1;
+            if (tick < e.tick + hold) {
+                controls.handleAction(e.action, now);
+            }
+        }
+        controls.update(now);
+    };
+    ScriptedInput.parse = function (data, source) {
+        if (!(data instanceof Array)) {
+            logError("ScriptedInput: " + source + ": expected an array of events");
+            return null;
+        }
+        var events = [];
+        for (var i = 0; i < data.length; i++) {
+            var raw = data[i];
+            var action = raw ? GameAction[raw.action] : undefined;
+            if (typeof action !== 'number' || action === GameAction.NONE) {
+                logError("ScriptedInput: " + source + ": event " + i + " has unknown action '" + (raw ? raw.action : raw) + "'");
+                return null;
+            }
+            if (!isIntegerInRange(raw.tick, 0, Number.MAX_VALUE) ||
+                (raw.hold !== undefined && !isIntegerInRange(raw.hold, 1, Number.MAX_VALUE))) {
+                logError("ScriptedInput: " + source + ": event " + i + " needs a whole tick >= 0 and hold >= 1");
+                return null;
+            }
+            events.push({ tick: raw.tick, action: action, hold: raw.hold });
+        }
+        return new ScriptedInput(events);
+    };
+    return ScriptedInput;
+}());
+"use strict";
 var nextEntityId = 1;
 function generateEntityId() {
     return nextEntityId++;
@@ -678,12 +1101,13 @@ var CpuDriver = (function () {
 }());
 "use strict";
 var CommuterDriver = (function () {
-    function CommuterDriver(speedFactor) {
-        this.speedFactor = speedFactor !== undefined ? speedFactor : 0.3 + Math.random() * 0.2;
-        this.driftAmount = 0.1 + Math.random() * 0.1;
+    function CommuterDriver(speedFactor, rand) {
+        this.rand = rand || globalRand;
+        this.speedFactor = speedFactor !== undefined ? speedFactor : 0.3 + this.rand.next() * 0.2;
+        this.driftAmount = 0.1 + this.rand.next() * 0.1;
         this.driftDirection = 0;
         this.driftTimer = 0;
-        this.driftInterval = 2 + Math.random() * 3;
+        this.driftInterval = 2 + this.rand.next() * 3;
         this.active = false;
         this.activationRange = 400;
     }
@@ -698,7 +1122,7 @@ var CommuterDriver = (function () {
         this.driftTimer += dt;
         if (this.driftTimer >= this.driftInterval) {
             this.driftTimer = 0;
-            var rand = Math.random();
+            var rand = this.rand.next();
             if (rand < 0.3) {
                 this.driftDirection = -1;
             }
@@ -739,20 +1163,65 @@ var CommuterDriver = (function () {
     return CommuterDriver;
 }());
 "use strict";
+var RIVAL_PACE_SMOOTHING = 3;
+var RACER_CURVE_LOOKAHEAD = 2.5;
+var RACER_APEX_OFFSET = 0.45;
+var RACER_CORNER_BRAKE = 0.25;
+var RACER_LANE_WIDTH = 0.4;
+var RACER_PASS_OFFSET = 0.55;
+var RACER_MAX_LINE = 0.8;
+var RACER_MIN_TRAFFIC_GAP = 25;
+var RACER_TRAFFIC_TIME = 1.5;
+var RACER_DEFEND_GAP = 40;
+var RACER_DEFEND_STRENGTH = 0.7;
 var RacerDriver = (function () {
-    function RacerDriver(skill, name) {
+    function RacerDriver(skill, name, rand) {
+        this.rand = rand || globalRand;
         this.skill = clamp(skill, 0.3, 1.0);
         this.name = name || this.generateName();
         this.targetSpeed = 0.90 + (this.skill * 0.10);
-        this._aggression = 0.3 + (this.skill * 0.5);
-        this._reactionDelay = 0.3 - (this.skill * 0.25);
-        this.preferredLine = (Math.random() - 0.5) * 0.6;
+        this.aggression = 0.3 + (this.skill * 0.5);
+        this.itemHabit = 'tactical';
+        this.itemRate = 1;
+        this.personaId = null;
+        this.rivalTarget = null;
+        this.rivalPace = this.targetSpeed;
+        this.reactionDelay = 0.3 - (this.skill * 0.25);
+        this.road = null;
+        this.field = [];
+        this.passSide = 0;
+        this.preferredLine = (this.rand.next() - 0.5) * 0.6;
         this.steerAmount = 0;
         this.variationTimer = 0;
         this.speedVariation = 0;
         this.canMove = false;
         this.itemUseCooldown = 0;
     }
+    RacerDriver.fromPersona = function (persona, rand, raceClass) {
+        var driver = new RacerDriver(persona.skill, persona.name, rand);
+        driver.personaId = persona.id;
+        driver.preferredLine = persona.preferredLine;
+        driver.aggression = persona.aggression;
+        driver.itemHabit = persona.itemHabit;
+        if (raceClass) {
+            driver.skill = clamp(persona.skill * raceClass.aiSkill, 0.3, 1.0);
+            driver.targetSpeed = raceClass.aiPace + driver.skill * raceClass.aiPaceRange;
+            driver.rivalPace = driver.targetSpeed;
+            driver.reactionDelay = 0.3 - driver.skill * 0.25;
+            driver.itemRate = raceClass.itemRate;
+        }
+        return driver;
+    };
+    RacerDriver.prototype.setRaceContext = function (road, field) {
+        this.road = road;
+        this.field = field;
+    };
+    RacerDriver.prototype.setRival = function (player) {
+        this.rivalTarget = player;
+    };
+    RacerDriver.prototype.isRival = function () {
+        return this.rivalTarget !== null;
+    };
     RacerDriver.prototype.setCanMove = function (canMove) {
         this.canMove = canMove;
     };
@@ -765,8 +1234,8 @@ var RacerDriver = (function () {
             'Speed', 'Racer', 'Driver', 'Storm', 'Thunder', 'Blitz', 'Volt', 'Dash',
             'Rocket', 'Jet', 'Zoom', 'Rush', 'Gear', 'Torque', 'Drift', 'Burn'
         ];
-        var firstName = firstNames[Math.floor(Math.random() * firstNames.length)];
-        var lastName = lastNames[Math.floor(Math.random() * lastNames.length)];
+        var firstName = firstNames[Math.floor(this.rand.next() * firstNames.length)];
+        var lastName = lastNames[Math.floor(this.rand.next() * lastNames.length)];
         return firstName + ' ' + lastName;
     };
     RacerDriver.prototype.update = function (vehicle, _track, dt) {
@@ -781,17 +1250,50 @@ var RacerDriver = (function () {
             this.itemUseCooldown -= dt;
         }
         this.variationTimer += dt;
-        if (this.variationTimer > 2 + Math.random() * 2) {
+        if (this.variationTimer > 2 + this.rand.next() * 2) {
             this.variationTimer = 0;
-            this.speedVariation = (Math.random() - 0.5) * 0.1 * (1 - this.skill);
+            this.speedVariation = (this.rand.next() - 0.5) * 0.1 * (1 - this.skill);
+        }
+        var currentX = vehicle.playerX || 0;
+        var speedRatio = vehicle.speed / vehicle.stats.maxSpeed;
+        var targetX = this.preferredLine;
+        var pace = this.getPaceTarget(vehicle, dt);
+        if (this.road) {
+            var curve = this.scanCurve(vehicle);
+            var commit = Math.min(1, Math.abs(curve) / 0.5) * (0.5 + this.skill * 0.5);
+            targetX = this.preferredLine * (1 - commit) - sign(curve) * RACER_APEX_OFFSET * commit;
+            pace -= RACER_CORNER_BRAKE * Math.abs(curve) * (1.2 - this.skill);
+            var traffic = this.findTraffic(vehicle);
+            if (traffic.ahead) {
+                var other = traffic.ahead;
+                if (this.passSide === 0) {
+                    this.passSide = other.playerX > 0 ? -1 : 1;
+                }
+                var passX = other.playerX + this.passSide * RACER_PASS_OFFSET;
+                if (Math.abs(passX) > RACER_MAX_LINE) {
+                    this.passSide = -this.passSide;
+                    passX = other.playerX + this.passSide * RACER_PASS_OFFSET;
+                }
+                targetX = clamp(passX, -RACER_MAX_LINE, RACER_MAX_LINE);
+                if (Math.abs(currentX - other.playerX) < RACER_LANE_WIDTH) {
+                    pace = Math.min(pace, other.speed / vehicle.stats.maxSpeed);
+                }
+            }
+            else {
+                this.passSide = 0;
+                if (traffic.behind) {
+                    var cover = this.aggression * RACER_DEFEND_STRENGTH;
+                    targetX = clamp(targetX + (traffic.behind.playerX - targetX) * cover, -RACER_MAX_LINE, RACER_MAX_LINE);
+                }
+            }
         }
-        var maxSpeedForAI = (this.targetSpeed + this.speedVariation) * VEHICLE_PHYSICS.MAX_SPEED;
+        var maxSpeedForAI = (pace + this.speedVariation) * vehicle.stats.maxSpeed;
         var accelerate;
-        if (vehicle.speed < maxSpeedForAI * 0.95) {
+        if (vehicle.speed < maxSpeedForAI * 0.97) {
             accelerate = 1;
         }
-        else if (vehicle.speed > maxSpeedForAI * 1.05) {
-            accelerate = -0.3;
+        else if (vehicle.speed > maxSpeedForAI * 1.08) {
+            accelerate = -1;
         }
         else {
             accelerate = 0;
@@ -799,48 +1301,176 @@ var RacerDriver = (function () {
         if (vehicle.isCrashed) {
             accelerate = 0.3;
         }
-        var currentX = vehicle.playerX || 0;
-        var targetX = this.preferredLine;
         var lineDiff = targetX - currentX;
-        this.steerAmount = lineDiff * (0.5 + this.skill * 0.5);
-        this.steerAmount = clamp(this.steerAmount, -0.8, 0.8);
-        var wobble = (Math.random() - 0.5) * 0.1 * (1 - this.skill);
+        this.steerAmount = lineDiff * (1 + this.skill);
+        if (this.road && vehicle.speed >= 5) {
+            var steerMult = 1 - speedRatio * VEHICLE_PHYSICS.STEER_SPEED_FACTOR;
+            var push = this.road.getCurvature(vehicle.trackZ) * speedRatio * VEHICLE_PHYSICS.CENTRIFUGAL;
+            this.steerAmount -= push / (vehicle.stats.steerRate * steerMult) * (0.5 + this.skill * 0.5);
+        }
+        this.steerAmount = clamp(this.steerAmount, -1, 1);
+        var wobble = (this.rand.next() - 0.5) * 0.1 * (1 - this.skill);
         this.steerAmount += wobble;
-        if (currentX < -0.8) {
+        if (currentX < -0.9) {
             this.steerAmount = 0.5;
         }
-        else if (currentX > 0.8) {
+        else if (currentX > 0.9) {
             this.steerAmount = -0.5;
         }
         var shouldUseItem = false;
         if (vehicle.heldItem !== null && this.itemUseCooldown <= 0) {
-            var useChance = 0.05 * dt;
-            if (vehicle.racePosition > 2) {
+            var useChance = 0.05 * dt * (0.5 + this.aggression) * this.itemRate;
+            if (this.itemHabit === 'eager') {
+                useChance *= 2;
+            }
+            else if (this.itemHabit === 'hoarder') {
+                useChance *= vehicle.racePosition === 1 ? 1.5 : 0.4;
+            }
+            else if (vehicle.racePosition > 2) {
                 useChance *= 1.5;
             }
-            if (Math.random() < useChance) {
+            if (this.rand.next() < useChance) {
                 shouldUseItem = true;
-                this.itemUseCooldown = 2 + Math.random() * 3;
+                this.itemUseCooldown = 2 + this.rand.next() * 3;
             }
         }
         return {
-            accelerate: clamp(accelerate, 0, 1),
+            accelerate: accelerate,
             steer: this.steerAmount,
             useItem: shouldUseItem
         };
     };
+    RacerDriver.prototype.scanCurve = function (vehicle) {
+        var road = this.road;
+        var distance = Math.max(vehicle.speed, 100) * (RACER_CURVE_LOOKAHEAD - this.reactionDelay);
+        var steps = Math.max(1, Math.ceil(distance / road.segmentLength));
+        var sharpest = road.getCurvature(vehicle.trackZ);
+        for (var i = 1; i <= steps; i++) {
+            var curve = road.getCurvature(vehicle.trackZ + i * road.segmentLength);
+            if (Math.abs(curve) > Math.abs(sharpest)) {
+                sharpest = curve;
+            }
+        }
+        return sharpest;
+    };
+    RacerDriver.prototype.findTraffic = function (vehicle) {
+        var road = this.road;
+        var length = road.totalLength;
+        var ahead = null;
+        var behind = null;
+        var aheadGap = Infinity;
+        var behindGap = Infinity;
+        var catchRange = RACER_MIN_TRAFFIC_GAP * (1 + this.aggression);
+        for (var i = 0; i < this.field.length; i++) {
+            var other = this.field[i];
+            if (other === vehicle || !other.active || other.isGhost)
+                continue;
+            var gap = other.trackZ - vehicle.trackZ;
+            if (gap > length / 2)
+                gap -= length;
+            else if (gap < -length / 2)
+                gap += length;
+            var lateral = Math.abs(other.playerX - vehicle.playerX);
+            if (gap > 0) {
+                var closing = vehicle.speed - other.speed;
+                var range = Math.max(catchRange, closing * RACER_TRAFFIC_TIME);
+                if (gap < range && gap < aheadGap && lateral < RACER_LANE_WIDTH * 1.5 &&
+                    (closing > 0 || gap < RACER_MIN_TRAFFIC_GAP)) {
+                    ahead = other;
+                    aheadGap = gap;
+                }
+            }
+            else if (-gap < RACER_DEFEND_GAP && -gap < behindGap && (other.isRacer || !other.isNPC) &&
+                other.speed > vehicle.speed * 0.95) {
+                behind = other;
+                behindGap = -gap;
+            }
+        }
+        return { ahead: ahead, behind: behind };
+    };
+    RacerDriver.prototype.getPaceTarget = function (vehicle, dt) {
+        var player = this.rivalTarget;
+        if (!player)
+            return this.targetSpeed;
+        var playerPace = player.speed / player.stats.maxSpeed;
+        this.rivalPace += (playerPace - this.rivalPace) * Math.min(1, dt / RIVAL_PACE_SMOOTHING);
+        if (vehicle.racePosition > player.racePosition) {
+            return clamp(Math.max(this.rivalPace, this.targetSpeed) + 0.05, 0.9, 1.05);
+        }
+        return clamp(this.rivalPace + 0.02, this.targetSpeed - 0.05, 1.05);
+    };
     RacerDriver.prototype.getSkill = function () {
         return this.skill;
     };
     RacerDriver.prototype.getAggression = function () {
-        return this._aggression;
+        return this.aggression;
     };
     RacerDriver.prototype.getReactionDelay = function () {
-        return this._reactionDelay;
+        return this.reactionDelay;
     };
     return RacerDriver;
 }());
 "use strict";
+var REMOTE_MAX_EXTRAPOLATION = 1.0;
+var REMOTE_SNAP_DISTANCE = 150;
+var REMOTE_CORRECTION_RATE = 6;
+var RemoteDriver = (function () {
+    function RemoteDriver(node, name) {
+        this.node = node;
+        this.name = name;
+        this.latest = null;
+    }
+    RemoteDriver.prototype.receive = function (state) {
+        if (this.latest && state.time <= this.latest.time)
+            return;
+        this.latest = state;
+    };
+    RemoteDriver.prototype.update = function (vehicle, _track, _dt) {
+        if (!this.latest)
+            return neutralIntent();
+        return {
+            accelerate: vehicle.speed < this.latest.speed ? 1 : 0,
+            steer: clamp((this.latest.playerX - vehicle.playerX) * 4, -1, 1),
+            useItem: false
+        };
+    };
+    RemoteDriver.prototype.place = function (vehicle, road, raceTime, dt) {
+        var s = this.latest;
+        if (!s)
+            return;
+        var length = road.totalLength;
+        var age = clamp(raceTime - s.time, 0, REMOTE_MAX_EXTRAPOLATION);
+        var targetZ = s.trackZ + s.speed * age;
+        var targetLap = s.lap;
+        if (targetZ >= length) {
+            targetZ -= length;
+            targetLap++;
+        }
+        var error = targetZ - vehicle.trackZ;
+        if (error > length / 2)
+            error -= length;
+        else if (error < -length / 2)
+            error += length;
+        if (Math.abs(error) > REMOTE_SNAP_DISTANCE) {
+            vehicle.trackZ = targetZ;
+            vehicle.playerX = s.playerX;
+        }
+        else {
+            var blend = Math.min(1, REMOTE_CORRECTION_RATE * dt);
+            vehicle.trackZ = (vehicle.trackZ + error * blend + length) % length;
+            vehicle.playerX += (s.playerX - vehicle.playerX) * blend;
+        }
+        vehicle.z = vehicle.trackZ;
+        vehicle.x = vehicle.playerX * ROAD_TRACK_X_SCALE;
+        vehicle.speed = s.speed;
+        vehicle.lap = targetLap;
+        if (s.flash && vehicle.flashTimer <= 0) {
+            vehicle.flashTimer = 0.2;
+        }
+    };
+    return RemoteDriver;
+}());
+"use strict";
 var CAR_COLORS = {
     'yellow': {
         id: 'yellow',
@@ -908,12 +1538,15 @@ var CAR_CATALOG = [
         stats: {
             topSpeed: 1.0,
             acceleration: 1.0,
-            handling: 1.0
+            handling: 1.0,
+            weight: 1.0,
+            offroadGrip: 1.0
         },
-        availableColors: ['yellow', 'red', 'blue', 'green', 'cyan', 'magenta', 'white'],
+        availableColors: ['yellow', 'red', 'blue', 'green', 'cyan', 'magenta', 'white', 'orange'],
         defaultColor: 'yellow',
         brakeLights: [{ x: 0, y: 1 }, { x: 4, y: 1 }],
-        unlocked: true
+        unlocked: true,
+        lockedColors: ['orange']
     },
     {
         id: 'muscle',
@@ -923,7 +1556,9 @@ var CAR_CATALOG = [
         stats: {
             topSpeed: 1.15,
             acceleration: 1.1,
-            handling: 0.85
+            handling: 0.85,
+            weight: 1.3,
+            offroadGrip: 0.85
         },
         availableColors: ['red', 'yellow', 'blue', 'white', 'orange'],
         defaultColor: 'red',
@@ -938,12 +1573,15 @@ var CAR_CATALOG = [
         stats: {
             topSpeed: 0.9,
             acceleration: 1.2,
-            handling: 1.25
+            handling: 1.25,
+            weight: 0.8,
+            offroadGrip: 1.2
         },
-        availableColors: ['cyan', 'green', 'magenta', 'yellow', 'white'],
+        availableColors: ['cyan', 'green', 'magenta', 'yellow', 'white', 'red'],
         defaultColor: 'cyan',
         brakeLights: [{ x: 0, y: 1 }, { x: 4, y: 1 }],
-        unlocked: true
+        unlocked: true,
+        lockedColors: ['red']
     },
     {
         id: 'super',
@@ -953,13 +1591,16 @@ var CAR_CATALOG = [
         stats: {
             topSpeed: 1.2,
             acceleration: 1.15,
-            handling: 1.1
+            handling: 1.1,
+            weight: 1.0,
+            offroadGrip: 0.9
         },
-        availableColors: ['white', 'red', 'blue', 'magenta'],
+        availableColors: ['white', 'red', 'blue', 'magenta', 'yellow'],
         defaultColor: 'white',
         brakeLights: [{ x: 0, y: 1 }, { x: 4, y: 1 }],
         unlocked: false,
-        unlockHint: 'Win a Grand Prix to unlock'
+        unlockHint: 'Win gold in any cup to unlock',
+        lockedColors: ['yellow']
     },
     {
         id: 'classic',
@@ -969,14 +1610,18 @@ var CAR_CATALOG = [
         stats: {
             topSpeed: 0.95,
             acceleration: 1.0,
-            handling: 1.05
+            handling: 1.05,
+            weight: 1.15,
+            offroadGrip: 1.1
         },
-        availableColors: ['yellow', 'red', 'white', 'green', 'blue'],
+        availableColors: ['yellow', 'red', 'white', 'green', 'blue', 'magenta'],
         defaultColor: 'yellow',
         brakeLights: [{ x: 0, y: 1 }, { x: 4, y: 1 }],
-        unlocked: true
+        unlocked: true,
+        lockedColors: ['magenta']
     }
 ];
+var CAR_UNLOCKS = {};
 function getCarDefinition(carId) {
     for (var i = 0; i < CAR_CATALOG.length; i++) {
         if (CAR_CATALOG[i].id === carId) {
@@ -991,7 +1636,7 @@ function getCarColor(colorId) {
 function getUnlockedCars() {
     var unlocked = [];
     for (var i = 0; i < CAR_CATALOG.length; i++) {
-        if (CAR_CATALOG[i].unlocked) {
+        if (isCarUnlocked(CAR_CATALOG[i].id)) {
             unlocked.push(CAR_CATALOG[i]);
         }
     }
@@ -1000,46 +1645,80 @@ function getUnlockedCars() {
 function getAllCars() {
     return CAR_CATALOG.slice();
 }
-function unlockCar(carId) {
+function getStarterCars() {
+    var starters = [];
     for (var i = 0; i < CAR_CATALOG.length; i++) {
-        if (CAR_CATALOG[i].id === carId) {
-            CAR_CATALOG[i].unlocked = true;
-            return true;
+        if (CAR_CATALOG[i].unlocked) {
+            starters.push(CAR_CATALOG[i]);
         }
     }
-    return false;
+    return starters;
+}
+function unlockCar(carId) {
+    if (!getCarDefinition(carId))
+        return false;
+    CAR_UNLOCKS[carId] = true;
+    return true;
+}
+function unlockCarColor(carId, colorId) {
+    if (!getCarDefinition(carId) || !getCarColor(colorId))
+        return false;
+    CAR_UNLOCKS[carId + ':' + colorId] = true;
+    return true;
 }
 function isCarUnlocked(carId) {
     var car = getCarDefinition(carId);
-    return car !== null && car.unlocked;
+    return car !== null && (car.unlocked || CAR_UNLOCKS[carId] === true);
+}
+function isCarColorUnlocked(carId, colorId) {
+    var car = getCarDefinition(carId);
+    if (!car || !car.lockedColors || car.lockedColors.indexOf(colorId) === -1)
+        return true;
+    return CAR_UNLOCKS[carId + ':' + colorId] === true;
 }
 function getEffectFlashColor(colorId) {
     var color = getCarColor(colorId);
     return color ? color.effectFlash : LIGHTCYAN;
 }
-function applyCarStats(carId) {
-    var car = getCarDefinition(carId);
-    if (!car)
-        return;
-    if (typeof VEHICLE_PHYSICS._baseMaxSpeed === 'undefined') {
-        VEHICLE_PHYSICS._baseMaxSpeed = VEHICLE_PHYSICS.MAX_SPEED;
-        VEHICLE_PHYSICS._baseAccel = VEHICLE_PHYSICS.ACCEL;
-        VEHICLE_PHYSICS._baseSteer = VEHICLE_PHYSICS.STEER_RATE;
-    }
-    VEHICLE_PHYSICS.MAX_SPEED = VEHICLE_PHYSICS._baseMaxSpeed * car.stats.topSpeed;
-    VEHICLE_PHYSICS.ACCEL = VEHICLE_PHYSICS._baseAccel * car.stats.acceleration;
-    VEHICLE_PHYSICS.STEER_RATE = VEHICLE_PHYSICS._baseSteer * car.stats.handling;
-    logInfo('Applied car stats for ' + car.name +
-        ': speed=' + VEHICLE_PHYSICS.MAX_SPEED.toFixed(0) +
-        ', accel=' + VEHICLE_PHYSICS.ACCEL.toFixed(0) +
-        ', steer=' + VEHICLE_PHYSICS.STEER_RATE.toFixed(2));
+function resolveCarStats(carId) {
+    var car = getCarDefinition(carId) || CAR_CATALOG[0];
+    return {
+        maxSpeed: VEHICLE_PHYSICS.MAX_SPEED * car.stats.topSpeed,
+        accel: VEHICLE_PHYSICS.ACCEL * car.stats.acceleration,
+        steerRate: VEHICLE_PHYSICS.STEER_RATE * car.stats.handling,
+        weight: car.stats.weight,
+        offroadDecel: VEHICLE_PHYSICS.OFFROAD_DECEL / car.stats.offroadGrip
+    };
+}
+"use strict";
+var RIVAL_ROSTER = [
+    { id: 'max', name: 'MAX', skill: 0.82, aggression: 0.7, preferredLine: -0.1, carId: 'super', colorId: 'red', itemHabit: 'tactical' },
+    { id: 'luna', name: 'LUNA', skill: 0.75, aggression: 0.4, preferredLine: 0.2, carId: 'sports', colorId: 'blue', itemHabit: 'hoarder' },
+    { id: 'blaze', name: 'BLAZE', skill: 0.58, aggression: 0.9, preferredLine: 0, carId: 'muscle', colorId: 'orange', itemHabit: 'eager' },
+    { id: 'nova', name: 'NOVA', skill: 0.52, aggression: 0.3, preferredLine: -0.25, carId: 'compact', colorId: 'cyan', itemHabit: 'tactical' },
+    { id: 'turbo', name: 'TURBO', skill: 0.42, aggression: 0.6, preferredLine: 0.15, carId: 'muscle', colorId: 'green', itemHabit: 'eager' },
+    { id: 'dash', name: 'DASH', skill: 0.38, aggression: 0.5, preferredLine: -0.15, carId: 'classic', colorId: 'magenta', itemHabit: 'hoarder' },
+    { id: 'flash', name: 'FLASH', skill: 0.35, aggression: 0.8, preferredLine: 0.25, carId: 'compact', colorId: 'white', itemHabit: 'eager' }
+];
+function getRivalPersona(id) {
+    for (var i = 0; i < RIVAL_ROSTER.length; i++) {
+        if (RIVAL_ROSTER[i].id === id) {
+            return RIVAL_ROSTER[i];
+        }
+    }
+    return null;
+}
+function getRivalSpriteType(persona) {
+    var car = getCarDefinition(persona.carId);
+    return car && (car.bodyStyle === 'sports' || car.bodyStyle === 'super') ? 'sportscar' : 'sedan';
 }
-function resetCarStats() {
-    if (typeof VEHICLE_PHYSICS._baseMaxSpeed !== 'undefined') {
-        VEHICLE_PHYSICS.MAX_SPEED = VEHICLE_PHYSICS._baseMaxSpeed;
-        VEHICLE_PHYSICS.ACCEL = VEHICLE_PHYSICS._baseAccel;
-        VEHICLE_PHYSICS.STEER_RATE = VEHICLE_PHYSICS._baseSteer;
+function getRivalSpriteColorIndex(persona) {
+    for (var i = 0; i < NPC_VEHICLE_COLORS.length; i++) {
+        if (NPC_VEHICLE_COLORS[i].name === persona.colorId) {
+            return i;
+        }
     }
+    return 0;
 }
 "use strict";
 var __extends = (this && this.__extends) || (function () {
@@ -1066,6 +1745,8 @@ var VEHICLE_PHYSICS = {
     STEER_RATE: 2.0,
     STEER_SPEED_FACTOR: 0.3,
     CENTRIFUGAL: 0.6,
+    HILL_GRAVITY: 150,
+    HILL_DESCENT_BONUS: 0.5,
     ROAD_HALF_WIDTH: 1.0,
     OFFROAD_LIMIT: 1.8,
     CRASH_TIME: 1.5,
@@ -1087,6 +1768,7 @@ var Vehicle = (function (_super) {
         _this.activeEffects = [];
         _this.color = YELLOW;
         _this.isOffRoad = false;
+        _this.isWrongWay = false;
         _this.isCrashed = false;
         _this.crashTimer = 0;
         _this.flashTimer = 0;
@@ -1095,12 +1777,19 @@ var Vehicle = (function (_super) {
         _this.boostMinSpeed = 0;
         _this.isNPC = false;
         _this.isRacer = false;
+        _this.isGhost = false;
+        _this.isRemote = false;
         _this.npcType = 'sedan';
         _this.npcColorIndex = 0;
         _this.carId = 'sports';
         _this.carColorId = 'yellow';
+        _this.stats = resolveCarStats(_this.carId);
         return _this;
     }
+    Vehicle.prototype.setCar = function (carId) {
+        this.carId = carId;
+        this.stats = resolveCarStats(carId);
+    };
     Vehicle.prototype.hasEffect = function (type) {
         for (var i = 0; i < this.activeEffects.length; i++) {
             if (this.activeEffects[i].type === type)
@@ -1191,7 +1880,7 @@ var Vehicle = (function (_super) {
             return;
         }
         if (intent.accelerate > 0) {
-            this.speed += VEHICLE_PHYSICS.ACCEL * dt;
+            this.speed += this.stats.accel * dt;
         }
         else if (intent.accelerate < 0) {
             this.speed -= VEHICLE_PHYSICS.BRAKE * dt;
@@ -1199,9 +1888,13 @@ var Vehicle = (function (_super) {
         else {
             this.speed -= VEHICLE_PHYSICS.DECEL * dt;
         }
+        var slope = road.getSlope(this.trackZ);
+        if (this.speed > 0) {
+            this.speed -= slope * VEHICLE_PHYSICS.HILL_GRAVITY * dt;
+        }
         this.isOffRoad = Math.abs(this.playerX) > VEHICLE_PHYSICS.ROAD_HALF_WIDTH;
         if (this.isOffRoad) {
-            this.speed -= VEHICLE_PHYSICS.OFFROAD_DECEL * dt;
+            this.speed -= this.stats.offroadDecel * dt;
             if (this.flashTimer <= 0) {
                 this.flashTimer = 0.15;
             }
@@ -1212,10 +1905,13 @@ var Vehicle = (function (_super) {
                 this.flashTimer = 0.5;
             }
         }
-        var effectiveMaxSpeed = VEHICLE_PHYSICS.MAX_SPEED * this.boostMultiplier * lightningSlowdown;
+        var effectiveMaxSpeed = this.stats.maxSpeed * this.boostMultiplier * lightningSlowdown;
+        if (slope < 0) {
+            effectiveMaxSpeed *= 1 + (-slope * VEHICLE_PHYSICS.HILL_DESCENT_BONUS);
+        }
         var minSpeed = this.boostMinSpeed > 0 ? this.boostMinSpeed : 0;
         this.speed = clamp(this.speed, minSpeed, effectiveMaxSpeed);
-        var speedRatio = this.speed / VEHICLE_PHYSICS.MAX_SPEED;
+        var speedRatio = this.speed / this.stats.maxSpeed;
         var hasBullet = this.hasEffect(ItemType.BULLET);
         if (hasBullet) {
             var autoPilotRate = 3.0;
@@ -1233,7 +1929,7 @@ var Vehicle = (function (_super) {
         else {
             if (this.speed >= 5) {
                 var steerMult = 1.0 - (speedRatio * VEHICLE_PHYSICS.STEER_SPEED_FACTOR);
-                var steerDelta = intent.steer * VEHICLE_PHYSICS.STEER_RATE * steerMult * dt;
+                var steerDelta = intent.steer * this.stats.steerRate * steerMult * dt;
                 this.playerX += steerDelta;
             }
             var curve = road.getCurvature(this.trackZ);
@@ -1253,7 +1949,7 @@ var Vehicle = (function (_super) {
             this.trackZ = this.trackZ % road.totalLength;
         }
         this.z = this.trackZ;
-        this.x = this.playerX * 20;
+        this.x = this.playerX * ROAD_TRACK_X_SCALE;
     };
     Vehicle.prototype.triggerCrash = function () {
         debugLog.warn("CRASH! playerX=" + this.playerX.toFixed(3) + " (limit=" + VEHICLE_PHYSICS.OFFROAD_LIMIT + ")");
@@ -1290,6 +1986,16 @@ var Road = (function () {
     Road.prototype.getCurvature = function (z) {
         return this.getSegment(z).curve;
     };
+    Road.prototype.getElevation = function (z) {
+        var segment = this.getSegment(z);
+        var local = z % this.segmentLength;
+        if (local < 0)
+            local += this.segmentLength;
+        return segment.elevation + segment.hill * (local / this.segmentLength);
+    };
+    Road.prototype.getSlope = function (z) {
+        return this.getSegment(z).hill;
+    };
     Road.prototype.isOnRoad = function (x, z) {
         var segment = this.getSegment(z);
         var halfWidth = segment.width / 2;
@@ -1343,11 +2049,25 @@ var RoadBuilder = (function () {
         this.currentCurve = 0;
         return this;
     };
+    RoadBuilder.prototype.getSegmentCount = function () {
+        return this.road.segments.length;
+    };
+    RoadBuilder.prototype.elevation = function (numSegments, profile, height) {
+        var segments = this.road.segments;
+        var n = Math.min(numSegments, segments.length);
+        var start = segments.length - n;
+        for (var i = 0; i < n; i++) {
+            var delta = hillProfileAt(profile, (i + 1) / n) - hillProfileAt(profile, i / n);
+            segments[start + i].hill += delta * height;
+        }
+        return this;
+    };
     RoadBuilder.prototype.addSegment = function (curve) {
         this.road.segments.push({
             z: this.currentZ,
             curve: curve,
             hill: 0,
+            elevation: 0,
             width: 1.0,
             stripe: Math.floor(this.stripeCounter / this.stripeLength) % 2,
             spriteLeft: null,
@@ -1358,10 +2078,42 @@ var RoadBuilder = (function () {
     };
     RoadBuilder.prototype.build = function () {
         this.road.totalLength = this.currentZ;
+        this.resolveElevation();
         return this.road;
     };
+    RoadBuilder.prototype.resolveElevation = function () {
+        var segments = this.road.segments;
+        if (segments.length === 0)
+            return;
+        var net = 0;
+        for (var i = 0; i < segments.length; i++) {
+            net += segments[i].hill;
+        }
+        var correction = net / segments.length;
+        var elevation = 0;
+        for (var j = 0; j < segments.length; j++) {
+            if (correction !== 0)
+                segments[j].hill -= correction;
+            segments[j].elevation = elevation;
+            elevation += segments[j].hill;
+        }
+    };
     return RoadBuilder;
 }());
+function hillProfileAt(profile, t) {
+    switch (profile) {
+        case 'climb':
+            return (1 - Math.cos(Math.PI * t)) / 2;
+        case 'descend':
+            return -(1 - Math.cos(Math.PI * t)) / 2;
+        case 'crest':
+            return (1 - Math.cos(2 * Math.PI * t)) / 2;
+        case 'dip':
+            return -(1 - Math.cos(2 * Math.PI * t)) / 2;
+        default:
+            return 0;
+    }
+}
 function createNeonCoastRoad() {
     return new RoadBuilder()
         .name("Neon Coast")
@@ -2031,7 +2783,7 @@ var TRACK_CATALOG = [
             { type: 'ease_in', length: 3, targetCurve: 0.35 },
             { type: 'curve', length: 7, curve: 0.35 },
             { type: 'ease_out', length: 3 },
-            { type: 'straight', length: 5 },
+            { type: 'straight', length: 5, elevation: 'crest', height: 0.5 },
             { type: 'ease_in', length: 2, targetCurve: -0.4 },
             { type: 'curve', length: 6, curve: -0.4 },
             { type: 'ease_out', length: 3 }
@@ -2047,11 +2799,11 @@ var TRACK_CATALOG = [
         estimatedLapTime: 40,
         npcCount: 5,
         sections: [
-            { type: 'straight', length: 5 },
+            { type: 'straight', length: 5, elevation: 'crest', height: 0.6 },
             { type: 'ease_in', length: 2, targetCurve: 0.5 },
             { type: 'curve', length: 7, curve: 0.5 },
             { type: 'ease_out', length: 2 },
-            { type: 'straight', length: 4 },
+            { type: 'straight', length: 4, elevation: 'dip', height: 0.5 },
             { type: 'ease_in', length: 2, targetCurve: -0.65 },
             { type: 'curve', length: 6, curve: -0.65 },
             { type: 'ease_out', length: 2 },
@@ -2355,21 +3107,23 @@ var TRACK_CATALOG = [
         ]
     }
 ];
-function buildRoadFromDefinition(def) {
+function buildRoadFromDefinition(def, mirror) {
     var builder = new RoadBuilder()
         .name(def.name)
         .laps(def.laps);
+    var flip = mirror ? -1 : 1;
     for (var i = 0; i < def.sections.length; i++) {
         var section = def.sections[i];
+        var firstSegment = builder.getSegmentCount();
         switch (section.type) {
             case 'straight':
                 builder.straight(section.length);
                 break;
             case 'curve':
-                builder.curve(section.length, section.curve || 0);
+                builder.curve(section.length, (section.curve || 0) * flip);
                 break;
             case 'ease_in':
-                builder.easeIn(section.length, section.targetCurve || 0);
+                builder.easeIn(section.length, (section.targetCurve || 0) * flip);
                 break;
             case 'ease_out':
                 builder.easeOut(section.length);
@@ -2377,18 +3131,39 @@ function buildRoadFromDefinition(def) {
             case 's_curve':
                 var halfLen = Math.floor(section.length / 6);
                 builder
-                    .easeIn(halfLen, 0.5)
-                    .curve(halfLen * 2, 0.5)
+                    .easeIn(halfLen, 0.5 * flip)
+                    .curve(halfLen * 2, 0.5 * flip)
                     .easeOut(halfLen)
-                    .easeIn(halfLen, -0.5)
-                    .curve(halfLen * 2, -0.5)
+                    .easeIn(halfLen, -0.5 * flip)
+                    .curve(halfLen * 2, -0.5 * flip)
                     .easeOut(halfLen);
                 break;
         }
+        if (section.elevation) {
+            var height = section.height !== undefined ? section.height : 0.5;
+            builder.elevation(builder.getSegmentCount() - firstSegment, section.elevation, height);
+        }
     }
     return builder.build();
 }
-function getTrackDefinition(id) {
+var _customTracks = null;
+var _allTracks = null;
+function getCustomTracks() {
+    if (_customTracks === null) {
+        _customTracks = [];
+        getCustomThemes();
+        var loaded = new TrackLoader().loadDefinitions(OUTRUN_CONFIG.tracks.directory);
+        for (var i = 0; i < loaded.length; i++) {
+            if (getBuiltInTrackDefinition(loaded[i].id)) {
+                logError("TrackCatalog: custom track '" + loaded[i].id + "' conflicts with a built-in track, skipped");
+                continue;
+            }
+            _customTracks.push(loaded[i]);
+        }
+    }
+    return _customTracks;
+}
+function getBuiltInTrackDefinition(id) {
     for (var i = 0; i < TRACK_CATALOG.length; i++) {
         if (TRACK_CATALOG[i].id === id) {
             return TRACK_CATALOG[i];
@@ -2396,11 +3171,33 @@ function getTrackDefinition(id) {
     }
     return null;
 }
+function getTrackDefinition(id) {
+    var tracks = getAllTracks();
+    for (var i = 0; i < tracks.length; i++) {
+        if (tracks[i].id === id) {
+            return tracks[i];
+        }
+    }
+    return null;
+}
+function getTrackWithLaps(def, laps) {
+    var copy = {};
+    for (var key in def) {
+        if (def.hasOwnProperty(key)) {
+            copy[key] = def[key];
+        }
+    }
+    copy.laps = laps;
+    return copy;
+}
 function getTrackTheme(trackDef) {
     return TRACK_THEMES[trackDef.themeId] || TRACK_THEMES['synthwave'];
 }
 function getAllTracks() {
-    return TRACK_CATALOG;
+    if (_allTracks === null) {
+        _allTracks = TRACK_CATALOG.concat(getCustomTracks());
+    }
+    return _allTracks;
 }
 function renderDifficultyStars(difficulty) {
     var stars = '';
@@ -2410,6 +3207,22 @@ function renderDifficultyStars(difficulty) {
     return stars;
 }
 "use strict";
+var __extends = (this && this.__extends) || (function () {
+    var extendStatics = function (d, b) {
+        extendStatics = Object.setPrototypeOf ||
+            ({ __proto__: [] } instanceof Array && function (d, b) { d.__proto__ = b; }) ||
+            function (d, b) { for (var p in b) if (Object.prototype.hasOwnProperty.call(b, p)) d[p] = b[p]; };
+        return extendStatics(d, b);
+    };
+    return function (d, b) {
+        if (typeof b !== "function" && b !== null)
+            throw new TypeError("Class extends value " + String(b) + " is not a constructor or null");
+        extendStatics(d, b);
+        function __() { this.constructor = d; }
+        d.prototype = b === null ? Object.create(b) : (__.prototype = b.prototype, new __());
+    };
+})();
+var ROAD_TRACK_X_SCALE = 20;
 var Track = (function () {
     function Track() {
         this.name = "Unnamed Track";
@@ -2465,140 +3278,358 @@ var Track = (function () {
     };
     return Track;
 }());
-"use strict";
-var TrackLoader = (function () {
-    function TrackLoader() {
+var RoadTrack = (function (_super) {
+    __extends(RoadTrack, _super);
+    function RoadTrack(road) {
+        var _this = _super.call(this) || this;
+        _this.name = road.name;
+        _this.laps = road.laps;
+        _this.length = road.totalLength;
+        _this.width = VEHICLE_PHYSICS.ROAD_HALF_WIDTH * 2 * ROAD_TRACK_X_SCALE;
+        _this.centerline = generateRoadCenterline(road);
+        _this.checkpoints = generateCheckpoints(road);
+        _this.spawnPoints = generateSpawnGrid(SPAWN_GRID_SLOTS);
+        return _this;
     }
-    TrackLoader.prototype.load = function (trackId) {
-        logInfo("TrackLoader: Loading track '" + trackId + "'");
-        if (trackId === "neon_coast_01") {
-            return this.loadNeonCoast();
-        }
-        logWarning("TrackLoader: Unknown track '" + trackId + "', using default");
-        return this.loadNeonCoast();
-    };
-    TrackLoader.prototype.loadNeonCoast = function () {
-        var track = new Track();
-        track.name = "Neon Coast";
-        track.width = 40;
-        track.laps = 3;
-        track.centerline = [
-            { x: 0, y: 0 },
-            { x: 100, y: 0 },
-            { x: 200, y: 50 },
-            { x: 250, y: 150 },
-            { x: 200, y: 250 },
-            { x: 100, y: 300 },
-            { x: 0, y: 300 },
-            { x: -100, y: 250 },
-            { x: -150, y: 150 },
-            { x: -100, y: 50 }
-        ];
-        track.length = this.calculateTrackLength(track.centerline);
-        track.checkpoints = [
-            { z: 0 },
-            { z: track.length * 0.25 },
-            { z: track.length * 0.5 },
-            { z: track.length * 0.75 }
-        ];
-        track.spawnPoints = [
-            { x: -5, z: -10 },
-            { x: 5, z: -10 },
-            { x: -5, z: -25 },
-            { x: 5, z: -25 },
-            { x: -5, z: -40 },
-            { x: 5, z: -40 },
-            { x: -5, z: -55 },
-            { x: 5, z: -55 }
-        ];
-        track.scenery = {
-            sky: {
-                type: 'sunset',
-                sunAzimuth: 270,
-                horizonColors: ['#ff00ff', '#ff6600', '#ffff00']
-            },
-            props: {
-                palmTrees: 0.7,
-                buildings: 0.3,
-                billboards: 0.2
-            },
-            road: {
-                color: '#333333',
-                stripeColor: '#ffffff',
-                stripeWidth: 2
-            },
-            skyline: {
-                style: 'city',
-                density: 0.6
+    RoadTrack.prototype.getCenterlineX = function (_z) {
+        return 0;
+    };
+    return RoadTrack;
+}(Track));
+function generateRoadCenterline(road) {
+    var totalCurve = 0;
+    for (var i = 0; i < road.segments.length; i++) {
+        totalCurve += road.segments[i].curve;
+    }
+    var turnScale = Math.abs(totalCurve) > 0.1 ? (Math.PI * 2) / Math.abs(totalCurve) : 0.1;
+    var points = [];
+    var x = 0;
+    var y = 0;
+    var heading = 0;
+    for (var j = 0; j < road.segments.length; j++) {
+        points.push({ x: x, y: y });
+        heading += road.segments[j].curve * turnScale;
+        x += Math.cos(heading) * road.segmentLength;
+        y += Math.sin(heading) * road.segmentLength;
+    }
+    for (var k = 0; k < points.length; k++) {
+        var t = k / points.length;
+        points[k].x -= x * t;
+        points[k].y -= y * t;
+    }
+    return points;
+}
+"use strict";
+var TrackLoader = (function () {
+    function TrackLoader() {
+    }
+    TrackLoader.prototype.loadDefinitions = function (dirPath) {
+        var defs = [];
+        var files = [];
+        try {
+            if (typeof directory === 'function') {
+                files = directory(dirPath + '/*.json') || [];
+            }
+        }
+        catch (e) {
+            logWarning("TrackLoader: Error scanning track directory " + dirPath + " - " + e);
+            return defs;
+        }
+        var seen = {};
+        for (var i = 0; i < files.length; i++) {
+            var def = this.loadDefinitionFile(files[i]);
+            if (!def)
+                continue;
+            if (seen[def.id]) {
+                logError("TrackLoader: " + files[i] + ": duplicate track id '" + def.id +
+                    "' (already defined in " + seen[def.id] + ")");
+                continue;
+            }
+            seen[def.id] = files[i];
+            defs.push(def);
+        }
+        logInfo("TrackLoader: Loaded " + defs.length + " of " + files.length +
+            " track files from " + dirPath);
+        return defs;
+    };
+    TrackLoader.prototype.loadDefinitionFile = function (path) {
+        var content;
+        try {
+            var f = new File(path);
+            if (!f.open('r')) {
+                logError("TrackLoader: " + path + ": unable to open file");
+                return null;
+            }
+            content = f.read();
+            f.close();
+        }
+        catch (e) {
+            logError("TrackLoader: " + path + ": read failed - " + e);
+            return null;
+        }
+        var data;
+        try {
+            data = JSON.parse(content);
+        }
+        catch (e) {
+            logError("TrackLoader: " + path + ": invalid JSON - " + e);
+            return null;
+        }
+        return this.parseTrackDefinition(data, path);
+    };
+    TrackLoader.prototype.parseTrackDefinition = function (data, source) {
+        var errors = [];
+        if (!data || typeof data !== 'object' || data instanceof Array) {
+            logError("TrackLoader: " + source + ": top level must be an object");
+            return null;
+        }
+        if (typeof data.id !== 'string' || !/^[a-z0-9_]+$/.test(data.id)) {
+            errors.push("'id' must be a lowercase string of letters, digits and underscores");
+        }
+        if (typeof data.name !== 'string' || data.name === '') {
+            errors.push("'name' must be a non-empty string");
+        }
+        if (data.description !== undefined && typeof data.description !== 'string') {
+            errors.push("'description' must be a string");
+        }
+        if (data.difficulty !== undefined && !isIntegerInRange(data.difficulty, 1, 5)) {
+            errors.push("'difficulty' must be an integer from 1 to 5");
+        }
+        if (!isIntegerInRange(data.laps, 1, 99)) {
+            errors.push("'laps' must be an integer from 1 to 99");
+        }
+        if (typeof data.themeId !== 'string' || !TRACK_THEMES[data.themeId]) {
+            errors.push("'themeId' must be one of: " + Object.keys(TRACK_THEMES).join(', '));
+        }
+        if (data.estimatedLapTime !== undefined &&
+            (typeof data.estimatedLapTime !== 'number' || !(data.estimatedLapTime > 0))) {
+            errors.push("'estimatedLapTime' must be a positive number of seconds");
+        }
+        if (data.npcCount !== undefined && !isIntegerInRange(data.npcCount, 0, 20)) {
+            errors.push("'npcCount' must be an integer from 0 to 20");
+        }
+        if (data.hidden !== undefined && typeof data.hidden !== 'boolean') {
+            errors.push("'hidden' must be true or false");
+        }
+        var sections = [];
+        var totalLength = 0;
+        if (!(data.sections instanceof Array) || data.sections.length === 0) {
+            errors.push("'sections' must be a non-empty array");
+        }
+        else {
+            for (var i = 0; i < data.sections.length; i++) {
+                var section = this.parseTrackSection(data.sections[i], 'sections[' + i + ']', errors);
+                if (section) {
+                    sections.push(section);
+                    totalLength += section.length;
+                }
+            }
+        }
+        if (errors.length > 0) {
+            for (var e = 0; e < errors.length; e++) {
+                logError("TrackLoader: " + source + ": " + errors[e]);
             }
+            return null;
+        }
+        return {
+            id: data.id,
+            name: data.name,
+            description: data.description || '',
+            difficulty: data.difficulty !== undefined ? data.difficulty : 3,
+            laps: data.laps,
+            themeId: data.themeId,
+            sections: sections,
+            estimatedLapTime: data.estimatedLapTime !== undefined ? data.estimatedLapTime : totalLength,
+            npcCount: data.npcCount,
+            hidden: data.hidden === true
         };
-        return track;
-    };
-    TrackLoader.prototype.calculateTrackLength = function (centerline) {
-        var length = 0;
-        for (var i = 0; i < centerline.length; i++) {
-            var p1 = centerline[i];
-            var p2 = centerline[(i + 1) % centerline.length];
-            length += distance(p1, p2);
-        }
-        return length;
-    };
-    TrackLoader.prototype.parseTrackJson = function (data) {
-        var _a, _b, _c, _d, _e, _f, _g;
-        var track = new Track();
-        track.name = ((_a = data.meta) === null || _a === void 0 ? void 0 : _a.name) || "Unknown";
-        track.laps = ((_b = data.race) === null || _b === void 0 ? void 0 : _b.laps) || 3;
-        track.width = ((_c = data.geometry) === null || _c === void 0 ? void 0 : _c.width) || 40;
-        track.centerline = (((_d = data.geometry) === null || _d === void 0 ? void 0 : _d.centerline) || []).map(function (p) {
-            return { x: p[0], y: p[1] };
-        });
-        track.length = ((_e = data.geometry) === null || _e === void 0 ? void 0 : _e.length) || this.calculateTrackLength(track.centerline);
-        track.checkpoints = (((_f = data.race) === null || _f === void 0 ? void 0 : _f.checkpoints) || []).map(function (z) {
-            return { z: z };
-        });
-        track.spawnPoints = ((_g = data.race) === null || _g === void 0 ? void 0 : _g.spawnPoints) || [];
-        if (data.scenery) {
-            track.scenery = data.scenery;
+    };
+    TrackLoader.prototype.parseTrackSection = function (data, label, errors) {
+        if (!data || typeof data !== 'object') {
+            errors.push(label + " must be an object");
+            return null;
+        }
+        var type = data.type;
+        if (type !== 'straight' && type !== 'curve' && type !== 'ease_in' &&
+            type !== 'ease_out' && type !== 's_curve') {
+            errors.push(label + ".type must be straight, curve, ease_in, ease_out or s_curve");
+            return null;
         }
-        return track;
+        var ok = true;
+        if (!isIntegerInRange(data.length, 1, 1000)) {
+            errors.push(label + ".length must be an integer from 1 to 1000");
+            ok = false;
+        }
+        if (type === 'curve' && !isNumberInRange(data.curve, -1, 1)) {
+            errors.push(label + ".curve must be a number from -1 to 1");
+            ok = false;
+        }
+        if (type === 'ease_in' && !isNumberInRange(data.targetCurve, -1, 1)) {
+            errors.push(label + ".targetCurve must be a number from -1 to 1");
+            ok = false;
+        }
+        var elevation = data.elevation;
+        if (elevation !== undefined && elevation !== 'climb' && elevation !== 'descend' &&
+            elevation !== 'crest' && elevation !== 'dip') {
+            errors.push(label + ".elevation must be climb, descend, crest or dip");
+            ok = false;
+        }
+        if (data.height !== undefined && !isNumberInRange(data.height, 0, 2)) {
+            errors.push(label + ".height must be a number from 0 to 2");
+            ok = false;
+        }
+        if (!ok)
+            return null;
+        var section = { type: type, length: data.length };
+        if (type === 'curve')
+            section.curve = data.curve;
+        if (type === 'ease_in')
+            section.targetCurve = data.targetCurve;
+        if (elevation !== undefined)
+            section.elevation = elevation;
+        if (data.height !== undefined)
+            section.height = data.height;
+        return section;
     };
     return TrackLoader;
 }());
+function isIntegerInRange(value, min, max) {
+    return typeof value === 'number' && Math.floor(value) === value && value >= min && value <= max;
+}
+function isNumberInRange(value, min, max) {
+    return typeof value === 'number' && value >= min && value <= max;
+}
 "use strict";
+var CHECKPOINT_SPACING_SEGMENTS = 8;
+var CHECKPOINT_MIN_COUNT = 4;
+var CHECKPOINT_MAX_COUNT = 16;
+var WRONG_WAY_DISTANCE = 60;
+function generateCheckpoints(road) {
+    var count = Math.round(road.segments.length / CHECKPOINT_SPACING_SEGMENTS);
+    count = clamp(count, CHECKPOINT_MIN_COUNT, CHECKPOINT_MAX_COUNT);
+    count = Math.min(count, Math.max(1, road.segments.length));
+    var checkpoints = [];
+    for (var i = 0; i < count; i++) {
+        var segIndex = Math.floor(i * road.segments.length / count);
+        checkpoints.push({ z: segIndex * road.segmentLength });
+    }
+    return checkpoints;
+}
 var CheckpointTracker = (function () {
-    function CheckpointTracker(track) {
-        this.track = track;
-        this.vehicleCheckpoints = {};
+    function CheckpointTracker(road, checkpoints) {
+        this.road = road;
+        this.checkpoints = checkpoints || generateCheckpoints(road);
+        this.progress = {};
     }
-    CheckpointTracker.prototype.initVehicle = function (vehicleId) {
-        this.vehicleCheckpoints[vehicleId] = 0;
+    CheckpointTracker.prototype.getCheckpoints = function () {
+        return this.checkpoints;
+    };
+    CheckpointTracker.prototype.initVehicle = function (vehicle) {
+        var z = this.wrapZ(vehicle.trackZ);
+        var count = this.checkpoints.length;
+        var next = 0;
+        for (var i = count - 1; i > 0; i--) {
+            if (this.checkpoints[i].z > z)
+                next = i;
+        }
+        this.progress[vehicle.id] = {
+            next: next,
+            lastZ: z,
+            behindLine: 0,
+            backward: 0
+        };
+        vehicle.checkpoint = (next - 1 + count) % count;
+        vehicle.isWrongWay = false;
     };
     CheckpointTracker.prototype.checkProgress = function (vehicle) {
-        var currentCheckpoint = this.vehicleCheckpoints[vehicle.id] || 0;
-        var nextCheckpoint = this.track.checkpoints[currentCheckpoint];
-        if (!nextCheckpoint) {
+        var p = this.progress[vehicle.id];
+        if (!p) {
+            this.initVehicle(vehicle);
             return false;
         }
-        var wrappedZ = vehicle.z % this.track.length;
-        if (wrappedZ >= nextCheckpoint.z) {
-            this.vehicleCheckpoints[vehicle.id] = currentCheckpoint + 1;
-            vehicle.checkpoint = currentCheckpoint + 1;
-            if (currentCheckpoint + 1 >= this.track.checkpoints.length) {
-                this.vehicleCheckpoints[vehicle.id] = 0;
-                return true;
+        var length = this.road.totalLength;
+        var z = this.wrapZ(vehicle.trackZ);
+        var delta = z - p.lastZ;
+        if (delta > length / 2)
+            delta -= length;
+        else if (delta < -length / 2)
+            delta += length;
+        if (Math.abs(delta) > this.road.segmentLength * 2) {
+            p.lastZ = z;
+            return false;
+        }
+        var count = this.checkpoints.length;
+        var lapCompleted = false;
+        if (delta > 0) {
+            while (this.crossedForward(p.lastZ, delta, this.checkpoints[p.next].z)) {
+                if (p.next === 0) {
+                    if (p.behindLine > 0) {
+                        p.behindLine--;
+                    }
+                    else {
+                        lapCompleted = true;
+                    }
+                }
+                p.next = (p.next + 1) % count;
+                if (count === 1)
+                    break;
             }
+            p.backward = Math.max(0, p.backward - delta);
         }
-        return false;
+        else if (delta < 0) {
+            var prev = (p.next - 1 + count) % count;
+            if (this.crossedBackward(p.lastZ, delta, this.checkpoints[prev].z)) {
+                if (prev === 0)
+                    p.behindLine++;
+                p.next = prev;
+            }
+            p.backward += -delta;
+        }
+        p.lastZ = z;
+        vehicle.checkpoint = (p.next - 1 + count) % count;
+        vehicle.isWrongWay = p.backward > WRONG_WAY_DISTANCE;
+        return lapCompleted;
     };
-    CheckpointTracker.prototype.getCurrentCheckpoint = function (vehicleId) {
-        return this.vehicleCheckpoints[vehicleId] || 0;
+    CheckpointTracker.prototype.getNextCheckpoint = function (vehicleId) {
+        var p = this.progress[vehicleId];
+        return p ? p.next : 0;
     };
     CheckpointTracker.prototype.reset = function () {
-        this.vehicleCheckpoints = {};
+        this.progress = {};
+    };
+    CheckpointTracker.prototype.crossedForward = function (fromZ, delta, checkpointZ) {
+        var ahead = this.wrapZ(checkpointZ - fromZ);
+        return ahead > 0 && ahead <= delta;
+    };
+    CheckpointTracker.prototype.crossedBackward = function (fromZ, delta, checkpointZ) {
+        var behind = this.wrapZ(fromZ - checkpointZ);
+        return behind < -delta;
+    };
+    CheckpointTracker.prototype.wrapZ = function (z) {
+        var length = this.road.totalLength;
+        var wrapped = z % length;
+        if (wrapped < 0)
+            wrapped += length;
+        return wrapped;
     };
     return CheckpointTracker;
 }());
 "use strict";
+var SPAWN_GRID_ROW_SPACING = 20;
+var SPAWN_GRID_COLUMN_OFFSET = 10;
+var SPAWN_GRID_SLOTS = 8;
+function generateSpawnGrid(count) {
+    var rows = Math.ceil((count - 1) / 2);
+    var points = [{ x: 0, z: (rows + 1) * SPAWN_GRID_ROW_SPACING }];
+    for (var i = 1; i < count; i++) {
+        var row = Math.floor((i - 1) / 2);
+        points.push({
+            x: (i - 1) % 2 === 0 ? -SPAWN_GRID_COLUMN_OFFSET : SPAWN_GRID_COLUMN_OFFSET,
+            z: (rows - row) * SPAWN_GRID_ROW_SPACING
+        });
+    }
+    return points;
+}
 var SpawnPointManager = (function () {
     function SpawnPointManager(track) {
         this.track = track;
@@ -2608,17 +3639,19 @@ var SpawnPointManager = (function () {
             var sp = this.track.spawnPoints[gridPosition];
             return { x: sp.x, z: sp.z };
         }
-        var row = Math.floor(gridPosition / 2);
-        var col = gridPosition % 2;
+        var last = this.track.spawnPoints[this.track.spawnPoints.length - 1];
+        var extra = gridPosition - this.track.spawnPoints.length;
         return {
-            x: col === 0 ? -5 : 5,
-            z: -(row + 1) * 15
+            x: extra % 2 === 0 ? -SPAWN_GRID_COLUMN_OFFSET : SPAWN_GRID_COLUMN_OFFSET,
+            z: (last ? last.z : 0) - (Math.floor(extra / 2) + 1) * SPAWN_GRID_ROW_SPACING
         };
     };
     SpawnPointManager.prototype.placeVehicle = function (vehicle, gridPosition) {
         var pos = this.getSpawnPosition(gridPosition);
         vehicle.x = pos.x;
         vehicle.z = pos.z;
+        vehicle.playerX = pos.x / ROAD_TRACK_X_SCALE;
+        vehicle.trackZ = pos.z;
         vehicle.rotation = 0;
         vehicle.speed = 0;
     };
@@ -2657,7 +3690,7 @@ var Steering = (function () {
             return;
         if (vehicle.speed < 1)
             return;
-        var speedFactor = 1 - (vehicle.speed / VEHICLE_PHYSICS.MAX_SPEED) * 0.5;
+        var speedFactor = 1 - (vehicle.speed / vehicle.stats.maxSpeed) * 0.5;
         var steerAmount = input * steerSpeed * speedFactor * dt;
         vehicle.rotation += steerAmount;
         vehicle.rotation = wrapAngle(vehicle.rotation);
@@ -2667,7 +3700,7 @@ var Steering = (function () {
             return;
         if (vehicle.speed < 1)
             return;
-        var speedFactor = vehicle.speed / VEHICLE_PHYSICS.MAX_SPEED;
+        var speedFactor = vehicle.speed / vehicle.stats.maxSpeed;
         vehicle.x += input * lateralSpeed * speedFactor * dt;
     };
     return Steering;
@@ -2693,22 +3726,7 @@ var Collision = (function () {
         var lateralDist = Math.abs(vehicle.x - centerX);
         return lateralDist > track.width / 2;
     };
-    Collision.resolveBoundary = function (vehicle, track) {
-        var centerX = track.getCenterlineX(vehicle.z);
-        var halfWidth = track.width / 2;
-        var lateralDist = vehicle.x - centerX;
-        if (Math.abs(lateralDist) > halfWidth) {
-            var dir = lateralDist > 0 ? 1 : -1;
-            vehicle.x = centerX + dir * halfWidth * 0.95;
-            vehicle.speed *= 0.8;
-        }
-    };
-    Collision.processCollisions = function (vehicles, track) {
-        for (var i = 0; i < vehicles.length; i++) {
-            this.resolveBoundary(vehicles[i], track);
-        }
-    };
-    Collision.processVehicleCollisions = function (vehicles) {
+    Collision.processVehicleCollisions = function (vehicles, rand) {
         for (var i = 0; i < vehicles.length; i++) {
             for (var j = i + 1; j < vehicles.length; j++) {
                 var a = vehicles[i];
@@ -2725,10 +3743,10 @@ var Collision = (function () {
                 var collisionLong = 10;
                 if (latDist < collisionLat && longDist < collisionLong) {
                     if (aInvincible && !bInvincible) {
-                        this.applyCollisionDamage(b, a);
+                        this.applyCollisionDamage(b, a, rand);
                     }
                     else if (bInvincible && !aInvincible) {
-                        this.applyCollisionDamage(a, b);
+                        this.applyCollisionDamage(a, b, rand);
                     }
                     else if (!aInvincible && !bInvincible) {
                         this.resolveVehicleCollision(a, b);
@@ -2743,10 +3761,12 @@ var Collision = (function () {
             return false;
         return v.hasEffect(ItemType.STAR) || v.hasEffect(ItemType.BULLET);
     };
-    Collision.applyCollisionDamage = function (victim, _hitter) {
+    Collision.applyCollisionDamage = function (victim, _hitter, rand) {
+        if (victim.isRemote)
+            return;
         victim.speed = 0;
         var knockDirection = victim.playerX >= 0 ? 1 : -1;
-        victim.playerX = knockDirection * (0.7 + Math.random() * 0.2);
+        victim.playerX = knockDirection * (0.7 + rand.next() * 0.2);
         victim.flashTimer = 1.5;
         logInfo("Invincible collision! Vehicle " + victim.id + " knocked to edge at playerX=" + victim.playerX.toFixed(2) + ", speed=0!");
     };
@@ -2754,29 +3774,34 @@ var Collision = (function () {
         var aAhead = a.trackZ > b.trackZ;
         var faster = aAhead ? a : b;
         var slower = aAhead ? b : a;
+        var totalWeight = a.stats.weight + b.stats.weight;
+        var aShare = 2 * b.stats.weight / totalWeight;
+        var bShare = 2 * a.stats.weight / totalWeight;
+        var fasterShare = aAhead ? bShare : aShare;
+        var slowerShare = aAhead ? aShare : bShare;
         var pushForce = 0.15;
         if (a.playerX < b.playerX) {
-            a.playerX -= pushForce;
-            b.playerX += pushForce;
+            a.playerX -= pushForce * aShare;
+            b.playerX += pushForce * bShare;
         }
         else {
-            a.playerX += pushForce;
-            b.playerX -= pushForce;
+            a.playerX += pushForce * aShare;
+            b.playerX -= pushForce * bShare;
         }
         var speedTransfer = 20;
         if (!faster.isNPC && slower.isNPC) {
-            faster.speed = Math.max(0, faster.speed - speedTransfer * 1.5);
-            slower.speed = Math.min(VEHICLE_PHYSICS.MAX_SPEED, slower.speed + speedTransfer);
+            faster.speed = Math.max(0, faster.speed - speedTransfer * 1.5 * fasterShare);
+            slower.speed = Math.min(slower.stats.maxSpeed, slower.speed + speedTransfer * slowerShare);
             faster.flashTimer = 0.3;
         }
         else if (faster.isNPC && !slower.isNPC) {
-            slower.speed = Math.max(0, slower.speed - speedTransfer * 0.5);
-            faster.speed = Math.max(0, faster.speed - speedTransfer);
+            slower.speed = Math.max(0, slower.speed - speedTransfer * 0.5 * slowerShare);
+            faster.speed = Math.max(0, faster.speed - speedTransfer * fasterShare);
             slower.flashTimer = 0.3;
         }
         else {
-            faster.speed = Math.max(0, faster.speed - speedTransfer);
-            slower.speed = Math.max(0, slower.speed - speedTransfer * 0.5);
+            faster.speed = Math.max(0, faster.speed - speedTransfer * fasterShare);
+            slower.speed = Math.max(0, slower.speed - speedTransfer * 0.5 * slowerShare);
         }
         if (a.flashTimer <= 0)
             a.flashTimer = 0.2;
@@ -2942,8 +3967,8 @@ var Mushroom = (function (_super) {
     Mushroom.applyEffect = function (vehicle) {
         vehicle.boostTimer = Mushroom.BOOST_DURATION;
         vehicle.boostMultiplier = Mushroom.BOOST_MULTIPLIER;
-        vehicle.boostMinSpeed = Math.max(vehicle.speed, VEHICLE_PHYSICS.MAX_SPEED * 0.5);
-        vehicle.speed = Math.min(vehicle.speed * 1.3, VEHICLE_PHYSICS.MAX_SPEED * Mushroom.BOOST_MULTIPLIER);
+        vehicle.boostMinSpeed = Math.max(vehicle.speed, vehicle.stats.maxSpeed * 0.5);
+        vehicle.speed = Math.min(vehicle.speed * 1.3, vehicle.stats.maxSpeed * Mushroom.BOOST_MULTIPLIER);
         logInfo("Mushroom boost activated! Duration: " + Mushroom.BOOST_DURATION + "s, minSpeed: " + vehicle.boostMinSpeed);
     };
     Mushroom.BOOST_MULTIPLIER = 1.4;
@@ -2978,7 +4003,8 @@ var SHELL_PHYSICS = {
     RED_TARGET_SPEED: 550,
     BLUE_TARGET_SPEED: 700,
     ACCELERATION: 200,
-    BACKWARD_SPEED: -250
+    BACKWARD_SPEED: -250,
+    HOMING_MARGIN: 1.2
 };
 var Shell = (function (_super) {
     __extends(Shell, _super);
@@ -2993,6 +4019,7 @@ var Shell = (function (_super) {
         _this.targetId = -1;
         _this.ttl = 10;
         _this.isDestroyed = false;
+        _this.hitVehicleId = -1;
         _this.isBackward = false;
         return _this;
     }
@@ -3011,7 +4038,7 @@ var Shell = (function (_super) {
         else {
             shell.trackZ = vehicle.trackZ + 15;
             shell.playerX = vehicle.playerX;
-            shell.speed = SHELL_PHYSICS.MIN_SPEED;
+            shell.speed = Shell.launchSpeed(vehicle);
             shell.targetSpeed = SHELL_PHYSICS.GREEN_TARGET_SPEED;
             logInfo("GREEN SHELL fired FORWARD, starting at speed=" + shell.speed.toFixed(0) + ", target=" + shell.targetSpeed);
         }
@@ -3022,7 +4049,7 @@ var Shell = (function (_super) {
         shell.trackZ = vehicle.trackZ + 15;
         shell.playerX = vehicle.playerX;
         shell.ownerId = vehicle.id;
-        shell.speed = SHELL_PHYSICS.MIN_SPEED;
+        shell.speed = Shell.launchSpeed(vehicle);
         shell.targetSpeed = SHELL_PHYSICS.RED_TARGET_SPEED;
         shell.targetId = Shell.findNextVehicleAhead(vehicle, vehicles);
         logInfo("RED SHELL fired, starting at speed=" + shell.speed.toFixed(0) + ", target speed=" + shell.targetSpeed + ", homing to vehicle " + shell.targetId);
@@ -3033,12 +4060,15 @@ var Shell = (function (_super) {
         shell.trackZ = vehicle.trackZ + 15;
         shell.playerX = vehicle.playerX;
         shell.ownerId = vehicle.id;
-        shell.speed = SHELL_PHYSICS.MIN_SPEED;
+        shell.speed = Shell.launchSpeed(vehicle);
         shell.targetSpeed = SHELL_PHYSICS.BLUE_TARGET_SPEED;
         shell.targetId = Shell.findFirstPlace(vehicles);
         logInfo("BLUE SHELL fired, starting at speed=" + shell.speed.toFixed(0) + ", target speed=" + shell.targetSpeed + ", homing to 1st place (vehicle " + shell.targetId + ")");
         return shell;
     };
+    Shell.launchSpeed = function (vehicle) {
+        return Math.max(SHELL_PHYSICS.MIN_SPEED, vehicle.stats.maxSpeed);
+    };
     Shell.findNextVehicleAhead = function (shooter, vehicles) {
         var bestId = -1;
         var bestDist = Infinity;
@@ -3062,7 +4092,7 @@ var Shell = (function (_super) {
         }
         return -1;
     };
-    Shell.prototype.update = function (dt, vehicles, roadLength) {
+    Shell.prototype.update = function (dt, vehicles, roadLength, rand) {
         if (this.isDestroyed)
             return true;
         this.ttl -= dt;
@@ -3086,6 +4116,10 @@ var Shell = (function (_super) {
         if (!this.isBackward && (this.shellType === ShellType.RED || this.shellType === ShellType.BLUE)) {
             var target = this.findVehicleById(vehicles, this.targetId);
             if (target) {
+                var chaseSpeed = target.stats.maxSpeed * target.boostMultiplier * SHELL_PHYSICS.HOMING_MARGIN;
+                if (chaseSpeed > this.targetSpeed) {
+                    this.targetSpeed = chaseSpeed;
+                }
                 var homingRate = 2.0;
                 if (this.playerX < target.playerX - 0.05) {
                     this.playerX += homingRate * dt;
@@ -3101,6 +4135,8 @@ var Shell = (function (_super) {
                 continue;
             if (v.isCrashed)
                 continue;
+            if (v.isRemote)
+                continue;
             var isInvincible = false;
             for (var e = 0; e < v.activeEffects.length; e++) {
                 var effectType = v.activeEffects[e].type;
@@ -3114,8 +4150,9 @@ var Shell = (function (_super) {
             var latDist = Math.abs(this.playerX - v.playerX);
             var longDist = Math.abs(this.trackZ - v.trackZ);
             if (latDist < 0.5 && longDist < 15) {
-                this.applyHitToVehicle(v);
+                this.applyHitToVehicle(v, rand);
                 this.isDestroyed = true;
+                this.hitVehicleId = v.id;
                 return true;
             }
         }
@@ -3128,10 +4165,10 @@ var Shell = (function (_super) {
         }
         return null;
     };
-    Shell.prototype.applyHitToVehicle = function (vehicle) {
+    Shell.prototype.applyHitToVehicle = function (vehicle, rand) {
         vehicle.speed = 0;
         var knockDirection = vehicle.playerX >= 0 ? 1 : -1;
-        vehicle.playerX = knockDirection * (0.7 + Math.random() * 0.2);
+        vehicle.playerX = knockDirection * (0.7 + rand.next() * 0.2);
         vehicle.flashTimer = 1.5;
         var shellNames = ['GREEN', 'RED', 'BLUE'];
         var direction = this.isBackward ? ' (backward)' : '';
@@ -3167,6 +4204,7 @@ var Banana = (function (_super) {
         _this.targetId = -1;
         _this.ttl = 60;
         _this.isDestroyed = false;
+        _this.hitVehicleId = -1;
         return _this;
     }
     Banana.drop = function (vehicle) {
@@ -3177,7 +4215,7 @@ var Banana = (function (_super) {
         logInfo("BANANA dropped at trackZ=" + banana.trackZ.toFixed(0) + ", playerX=" + banana.playerX.toFixed(2));
         return banana;
     };
-    Banana.prototype.update = function (dt, vehicles, roadLength) {
+    Banana.prototype.update = function (dt, vehicles, roadLength, rand) {
         if (this.isDestroyed)
             return true;
         this.ttl -= dt;
@@ -3197,6 +4235,8 @@ var Banana = (function (_super) {
                 continue;
             if (v.isCrashed)
                 continue;
+            if (v.isRemote)
+                continue;
             var isInvincible = false;
             for (var e = 0; e < v.activeEffects.length; e++) {
                 var effectType = v.activeEffects[e].type;
@@ -3210,17 +4250,18 @@ var Banana = (function (_super) {
             var latDist = Math.abs(this.playerX - v.playerX);
             var longDist = Math.abs(this.trackZ - v.trackZ);
             if (latDist < 0.5 && longDist < 15) {
-                this.applyHitToVehicle(v);
+                this.applyHitToVehicle(v, rand);
                 this.isDestroyed = true;
+                this.hitVehicleId = v.id;
                 return true;
             }
         }
         return false;
     };
-    Banana.prototype.applyHitToVehicle = function (vehicle) {
+    Banana.prototype.applyHitToVehicle = function (vehicle, rand) {
         vehicle.speed = 0;
         var knockDirection = vehicle.playerX >= 0 ? 1 : -1;
-        vehicle.playerX = knockDirection * (0.7 + Math.random() * 0.2);
+        vehicle.playerX = knockDirection * (0.7 + rand.next() * 0.2);
         vehicle.flashTimer = 2.0;
         logInfo("BANANA hit vehicle " + vehicle.id + " - spun out to edge at playerX=" + vehicle.playerX.toFixed(2) + "!");
     };
@@ -3233,12 +4274,17 @@ var ItemSystem = (function () {
         this.items = [];
         this.projectiles = [];
         this.callbacks = {};
+        this.rand = globalRand;
+        this.itemPool = null;
     }
     ItemSystem.prototype.setCallbacks = function (callbacks) {
         this.callbacks = callbacks;
     };
-    ItemSystem.prototype.initFromTrack = function (_track, road) {
+    ItemSystem.prototype.initFromTrack = function (_track, road, rand) {
         this.items = [];
+        this.projectiles = [];
+        this.rand = rand || globalRand;
+        this.itemPool = null;
         var trackLength = road.totalLength;
         var numRows = Math.max(2, Math.floor(trackLength / 1200));
         var spacing = trackLength / (numRows + 1);
@@ -3259,7 +4305,7 @@ var ItemSystem = (function () {
             var pattern = rowPatterns[patternIdx];
             for (var j = 0; j < pattern.length; j++) {
                 var x = pattern[j];
-                x += (globalRand.next() - 0.5) * 2;
+                x += (this.rand.next() - 0.5) * 2;
                 var item = new Item(ItemType.NONE);
                 item.x = x;
                 item.z = z;
@@ -3269,6 +4315,9 @@ var ItemSystem = (function () {
         }
         logInfo("ItemSystem: Placed " + this.items.length + " item boxes in " + numRows + " rows across track length " + trackLength);
     };
+    ItemSystem.prototype.setItemPool = function (items) {
+        this.itemPool = items && items.length > 0 ? items : null;
+    };
     ItemSystem.prototype.update = function (dt, vehicles, roadLength) {
         for (var i = 0; i < this.items.length; i++) {
             this.items[i].updateRespawn(dt);
@@ -3276,7 +4325,15 @@ var ItemSystem = (function () {
         if (vehicles && roadLength) {
             for (var j = this.projectiles.length - 1; j >= 0; j--) {
                 var shell = this.projectiles[j];
-                if (shell.update(dt, vehicles, roadLength)) {
+                if (shell.update(dt, vehicles, roadLength, this.rand)) {
+                    if (shell.hitVehicleId >= 0) {
+                        this.emit({
+                            type: 'hit',
+                            vehicleId: shell.hitVehicleId,
+                            itemType: this.projectileItemType(shell),
+                            sourceId: shell.ownerId
+                        });
+                    }
                     this.projectiles.splice(j, 1);
                 }
             }
@@ -3290,6 +4347,8 @@ var ItemSystem = (function () {
             var vehicle = vehicles[i];
             if (vehicle.heldItem !== null)
                 continue;
+            if (vehicle.isRemote)
+                continue;
             for (var j = 0; j < this.items.length; j++) {
                 var item = this.items[j];
                 if (!item.isAvailable())
@@ -3325,6 +4384,7 @@ var ItemSystem = (function () {
                         activated: false
                     };
                     logInfo("Vehicle picked up " + ItemType[itemType] + " (x" + vehicle.heldItem.uses + ")");
+                    this.emit({ type: 'pickup', vehicleId: vehicle.id, itemType: itemType });
                 }
             }
         }
@@ -3334,6 +4394,7 @@ var ItemSystem = (function () {
             return;
         var itemType = vehicle.heldItem.type;
         var consumed = false;
+        this.emit({ type: 'use', vehicleId: vehicle.id, itemType: itemType, backward: fireBackward === true });
         switch (itemType) {
             case ItemType.MUSHROOM:
             case ItemType.MUSHROOM_TRIPLE:
@@ -3407,23 +4468,49 @@ var ItemSystem = (function () {
             }
         }
     };
+    ItemSystem.prototype.replayItemUse = function (vehicle, itemType, allVehicles, fireBackward) {
+        vehicle.heldItem = {
+            type: itemType,
+            uses: 1,
+            activated: vehicle.hasEffect(itemType)
+        };
+        this.useItem(vehicle, allVehicles, fireBackward);
+        vehicle.heldItem = null;
+    };
+    ItemSystem.prototype.removeProjectileNear = function (ownerId, trackZ) {
+        var best = -1;
+        var bestDist = Infinity;
+        for (var i = 0; i < this.projectiles.length; i++) {
+            var p = this.projectiles[i];
+            if (p.ownerId !== ownerId)
+                continue;
+            var dist = Math.abs(p.trackZ - trackZ);
+            if (dist < bestDist) {
+                best = i;
+                bestDist = dist;
+            }
+        }
+        if (best >= 0) {
+            this.projectiles.splice(best, 1);
+        }
+    };
     ItemSystem.prototype.applyDurationEffect = function (vehicle, type) {
         var duration = getItemDuration(type);
         vehicle.addEffect(type, duration, vehicle.id);
-        vehicle.boostMinSpeed = Math.max(vehicle.speed, VEHICLE_PHYSICS.MAX_SPEED * 0.5);
+        vehicle.boostMinSpeed = Math.max(vehicle.speed, vehicle.stats.maxSpeed * 0.5);
         switch (type) {
             case ItemType.MUSHROOM_GOLDEN:
                 vehicle.boostMultiplier = 1.4;
-                vehicle.speed = Math.min(vehicle.speed * 1.2, VEHICLE_PHYSICS.MAX_SPEED * 1.4);
+                vehicle.speed = Math.min(vehicle.speed * 1.2, vehicle.stats.maxSpeed * 1.4);
                 break;
             case ItemType.STAR:
                 vehicle.boostMultiplier = 1.35;
-                vehicle.speed = Math.min(vehicle.speed * 1.25, VEHICLE_PHYSICS.MAX_SPEED * 1.35);
+                vehicle.speed = Math.min(vehicle.speed * 1.25, vehicle.stats.maxSpeed * 1.35);
                 break;
             case ItemType.BULLET:
                 vehicle.boostMultiplier = 1.6;
-                vehicle.speed = VEHICLE_PHYSICS.MAX_SPEED * 1.6;
-                vehicle.boostMinSpeed = VEHICLE_PHYSICS.MAX_SPEED * 1.5;
+                vehicle.speed = vehicle.stats.maxSpeed * 1.6;
+                vehicle.boostMinSpeed = vehicle.stats.maxSpeed * 1.5;
                 break;
         }
         logInfo("Applied " + ItemType[type] + " effect for " + duration + "s, minSpeed: " + vehicle.boostMinSpeed);
@@ -3435,6 +4522,8 @@ var ItemSystem = (function () {
             var v = allVehicles[i];
             if (v.id === user.id)
                 continue;
+            if (v.isRemote)
+                continue;
             if (v.racePosition >= user.racePosition)
                 continue;
             if (v.hasEffect && (v.hasEffect(ItemType.STAR) ||
@@ -3443,17 +4532,35 @@ var ItemSystem = (function () {
             }
             v.addEffect(ItemType.LIGHTNING, duration, user.id);
             hitCount++;
+            this.emit({ type: 'hit', vehicleId: v.id, itemType: ItemType.LIGHTNING, sourceId: user.id });
         }
         if (this.callbacks.onLightningStrike) {
             this.callbacks.onLightningStrike(hitCount);
         }
         logInfo("Lightning struck " + hitCount + " opponents ahead (positions 1-" + (user.racePosition - 1) + ")!");
     };
+    ItemSystem.prototype.emit = function (event) {
+        if (this.callbacks.onItemEvent) {
+            this.callbacks.onItemEvent(event);
+        }
+    };
+    ItemSystem.prototype.projectileItemType = function (projectile) {
+        if (projectile instanceof Banana)
+            return ItemType.BANANA;
+        if (projectile.shellType === ShellType.BLUE)
+            return ItemType.BLUE_SHELL;
+        if (projectile.shellType === ShellType.RED)
+            return ItemType.RED_SHELL;
+        return ItemType.GREEN_SHELL;
+    };
     ItemSystem.prototype.randomItemType = function (position, totalRacers) {
         if (DEBUG_FORCE_ITEM !== null) {
             return DEBUG_FORCE_ITEM;
         }
-        var roll = globalRand.next();
+        if (this.itemPool) {
+            return this.itemPool[this.rand.nextInt(0, this.itemPool.length - 1)];
+        }
+        var roll = this.rand.next();
         var positionFactor = totalRacers > 1 ? (position - 1) / (totalRacers - 1) : 0;
         if (positionFactor < 0.25) {
             if (roll < 0.40)
@@ -3516,17 +4623,32 @@ var ItemSystem = (function () {
     return ItemSystem;
 }());
 "use strict";
+var HUD_MINIMAP_WIDTH = 18;
+var HUD_MINIMAP_HEIGHT = 8;
 var Hud = (function () {
-    function Hud() {
+    function Hud(screenWidth) {
         this.startTime = 0;
         this.lapStartTime = 0;
         this.bestLapTime = Infinity;
+        this.minimap = new Minimap({
+            x: (screenWidth || MIN_SCREEN_WIDTH) - HUD_MINIMAP_WIDTH,
+            y: 0,
+            width: HUD_MINIMAP_WIDTH,
+            height: HUD_MINIMAP_HEIGHT
+        });
+        this.minimapVisible = true;
     }
     Hud.prototype.init = function (currentTime) {
         this.startTime = currentTime;
         this.lapStartTime = currentTime;
         this.bestLapTime = Infinity;
     };
+    Hud.prototype.initMinimap = function (trackDef, mirror) {
+        this.minimap.initForTrack(trackDef, mirror);
+    };
+    Hud.prototype.setMinimapVisible = function (visible) {
+        this.minimapVisible = visible;
+    };
     Hud.prototype.onLapComplete = function (currentTime) {
         var lapTime = currentTime - this.lapStartTime;
         if (lapTime < this.bestLapTime) {
@@ -3549,7 +4671,7 @@ var Hud = (function () {
         var displayTotalTime = isCountdown ? 0 : Math.max(0, totalTime);
         return {
             speed: Math.round(vehicle.speed),
-            speedMax: VEHICLE_PHYSICS.MAX_SPEED,
+            speedMax: vehicle.stats.maxSpeed,
             lap: vehicle.lap,
             totalLaps: track.laps,
             lapProgress: lapProgress,
@@ -3561,7 +4683,10 @@ var Hud = (function () {
             heldItem: vehicle.heldItem,
             raceFinished: vehicle.lap > track.laps,
             countdown: countdown || 0,
-            raceMode: raceMode !== undefined ? raceMode : RaceMode.TIME_TRIAL
+            raceMode: raceMode !== undefined ? raceMode : RaceMode.TIME_TRIAL,
+            wrongWay: vehicle.isWrongWay,
+            minimapOutline: this.minimapVisible ? this.minimap.getOutline() : [],
+            minimapVehicles: this.minimapVisible ? this.minimap.getVehiclePositions(vehicles, road.totalLength, vehicle.id) : []
         };
     };
     Hud.formatTime = function (seconds) {
@@ -3576,16 +4701,24 @@ var Hud = (function () {
 var Minimap = (function () {
     function Minimap(config) {
         this.config = config;
-        this.scaleX = 1;
-        this.scaleY = 1;
-        this.offsetX = 0;
-        this.offsetY = 0;
+        this.path = [];
+        this.outline = [];
     }
-    Minimap.prototype.initForTrack = function (track) {
+    Minimap.prototype.initForTrack = function (trackDef, mirror) {
+        this.path = [];
+        this.outline = [];
+        if (!trackDef.sections || trackDef.sections.length === 0)
+            return;
+        var points = generatePathFromSections(trackDef.sections);
+        if (mirror) {
+            for (var m = 0; m < points.length; m++) {
+                points[m].y = -points[m].y;
+            }
+        }
         var minX = Infinity, maxX = -Infinity;
         var minY = Infinity, maxY = -Infinity;
-        for (var i = 0; i < track.centerline.length; i++) {
-            var p = track.centerline[i];
+        for (var i = 0; i < points.length; i++) {
+            var p = points[i];
             if (p.x < minX)
                 minX = p.x;
             if (p.x > maxX)
@@ -3599,32 +4732,53 @@ var Minimap = (function () {
         var trackHeight = maxY - minY;
         var mapInnerW = this.config.width - 2;
         var mapInnerH = this.config.height - 2;
-        this.scaleX = mapInnerW / (trackWidth || 1);
-        this.scaleY = mapInnerH / (trackHeight || 1);
-        var scale = Math.min(this.scaleX, this.scaleY);
-        this.scaleX = scale;
-        this.scaleY = scale;
-        this.offsetX = -minX;
-        this.offsetY = -minY;
-    };
-    Minimap.prototype.worldToMinimap = function (worldX, worldY) {
-        return {
-            x: Math.round((worldX + this.offsetX) * this.scaleX) + this.config.x + 1,
-            y: Math.round((worldY + this.offsetY) * this.scaleY) + this.config.y + 1
-        };
+        var scaleX = (mapInnerW - 1) / (trackWidth || 1);
+        var scaleY = (mapInnerH - 1) / (trackHeight || 1);
+        var left = this.config.x + 1;
+        var top = this.config.y + 1;
+        for (var j = 0; j < points.length; j++) {
+            this.path.push({
+                x: Math.round(left + (points[j].x - minX) * scaleX),
+                y: Math.round(top + (points[j].y - minY) * scaleY)
+            });
+        }
+        var seen = {};
+        for (var k = 0; k < this.path.length; k++) {
+            var from = this.path[k];
+            var to = this.path[(k + 1) % this.path.length];
+            var steps = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y), 1);
+            for (var s = 0; s < steps; s++) {
+                var cellX = Math.round(from.x + (to.x - from.x) * s / steps);
+                var cellY = Math.round(from.y + (to.y - from.y) * s / steps);
+                var key = cellX + ',' + cellY;
+                if (!seen[key]) {
+                    seen[key] = true;
+                    this.outline.push({ x: cellX, y: cellY });
+                }
+            }
+        }
     };
-    Minimap.prototype.getVehiclePositions = function (vehicles, track, playerId) {
+    Minimap.prototype.getOutline = function () {
+        return this.outline;
+    };
+    Minimap.prototype.getVehiclePositions = function (vehicles, roadLength, playerId) {
         var result = [];
+        if (this.path.length === 0 || roadLength <= 0)
+            return result;
         for (var i = 0; i < vehicles.length; i++) {
             var v = vehicles[i];
-            var progress = (v.z % track.length) / track.length;
-            var centerlineIdx = Math.floor(progress * track.centerline.length);
-            var centerPoint = track.centerline[centerlineIdx] || { x: 0, y: 0 };
-            var pos = this.worldToMinimap(centerPoint.x + v.x * 0.1, centerPoint.y);
+            if (v.isNPC && !v.isRacer)
+                continue;
+            var progress = (v.trackZ % roadLength) / roadLength;
+            if (progress < 0)
+                progress += 1;
+            var pathIdx = Math.min(this.path.length - 1, Math.floor(progress * this.path.length));
+            var pos = this.path[pathIdx];
             result.push({
                 x: pos.x,
                 y: pos.y,
                 isPlayer: v.id === playerId,
+                isLeader: v.racePosition === 1,
                 color: v.color
             });
         }
@@ -3635,85 +4789,196 @@ var Minimap = (function () {
     };
     return Minimap;
 }());
-"use strict";
-var Speedometer = (function () {
-    function Speedometer(maxBarLength) {
-        this.maxBarLength = maxBarLength;
-    }
-    Speedometer.prototype.calculate = function (currentSpeed, maxSpeed) {
-        var percentage = clamp(currentSpeed / maxSpeed, 0, 1);
-        var filledLength = Math.round(percentage * this.maxBarLength);
-        return {
-            currentSpeed: Math.round(currentSpeed),
-            maxSpeed: maxSpeed,
-            percentage: percentage,
-            barLength: this.maxBarLength,
-            filledLength: filledLength
-        };
-    };
-    Speedometer.prototype.generateBar = function (data) {
-        var filled = '';
-        var empty = '';
-        for (var i = 0; i < data.filledLength; i++) {
-            filled += '█';
-        }
-        for (var j = data.filledLength; j < data.barLength; j++) {
-            empty += '░';
+function generatePathFromSections(sections) {
+    var totalIntendedCurve = 0;
+    for (var i = 0; i < sections.length; i++) {
+        var section = sections[i];
+        var segmentCount = section.length || 10;
+        switch (section.type) {
+            case 'curve':
+                totalIntendedCurve += (section.curve || 0) * segmentCount;
+                break;
+            case 'ease_in':
+                totalIntendedCurve += (section.targetCurve || 0.5) * segmentCount * 0.5;
+                break;
+            case 'ease_out':
+                totalIntendedCurve += (section.targetCurve || 0.5) * segmentCount * 0.5;
+                break;
+            case 's_curve':
+                break;
         }
-        return filled + empty;
-    };
-    return Speedometer;
-}());
-"use strict";
-var LapTimer = (function () {
-    function LapTimer() {
-        this.lapTimes = [];
-        this.lapStartTime = 0;
-        this.raceStartTime = 0;
-        this.bestLapTime = null;
     }
-    LapTimer.prototype.start = function (currentTime) {
-        this.raceStartTime = currentTime;
-        this.lapStartTime = currentTime;
-        this.lapTimes = [];
-        this.bestLapTime = null;
-    };
-    LapTimer.prototype.completeLap = function (currentTime) {
-        var lapTime = currentTime - this.lapStartTime;
-        this.lapTimes.push(lapTime);
-        if (this.bestLapTime === null || lapTime < this.bestLapTime) {
-            this.bestLapTime = lapTime;
-        }
-        this.lapStartTime = currentTime;
-        return lapTime;
-    };
-    LapTimer.prototype.getData = function (currentTime, currentLap, totalLaps) {
-        return {
-            currentLap: currentLap,
-            totalLaps: totalLaps,
-            currentLapTime: currentTime - this.lapStartTime,
-            bestLapTime: this.bestLapTime,
-            lapTimes: this.lapTimes.slice(),
-            totalTime: currentTime - this.raceStartTime
-        };
-    };
-    LapTimer.format = function (seconds) {
-        if (seconds === null || seconds === undefined)
-            return "--:--.--";
-        var mins = Math.floor(seconds / 60);
-        var secs = Math.floor(seconds % 60);
-        var ms = Math.floor((seconds % 1) * 100);
-        var secStr = secs < 10 ? "0" + secs : "" + secs;
-        var msStr = ms < 10 ? "0" + ms : "" + ms;
-        return mins + ":" + secStr + "." + msStr;
-    };
-    return LapTimer;
-}());
-"use strict";
-var PositionIndicator = (function () {
-    function PositionIndicator() {
+    var curveScale = 0.1;
+    if (Math.abs(totalIntendedCurve) > 0.1) {
+        curveScale = (Math.PI * 2) / Math.abs(totalIntendedCurve);
     }
-    PositionIndicator.calculate = function (position, totalRacers) {
+    var direction = totalIntendedCurve >= 0 ? 1 : -1;
+    curveScale = Math.abs(curveScale) * direction;
+    var points = [];
+    var x = 0;
+    var y = 0;
+    var heading = 0;
+    var currentCurve = 0;
+    var stepSize = 1.0;
+    points.push({ x: x, y: y });
+    for (var i = 0; i < sections.length; i++) {
+        var section = sections[i];
+        var segmentCount = section.length || 10;
+        switch (section.type) {
+            case 'straight':
+                for (var s = 0; s < segmentCount; s++) {
+                    x += Math.cos(heading) * stepSize;
+                    y += Math.sin(heading) * stepSize;
+                    points.push({ x: x, y: y });
+                }
+                currentCurve = 0;
+                break;
+            case 'curve':
+                var curvature = (section.curve || 0) * curveScale;
+                for (var s = 0; s < segmentCount; s++) {
+                    heading += curvature;
+                    x += Math.cos(heading) * stepSize;
+                    y += Math.sin(heading) * stepSize;
+                    points.push({ x: x, y: y });
+                }
+                currentCurve = section.curve || 0;
+                break;
+            case 'ease_in':
+                var targetCurve = (section.targetCurve || 0.5) * curveScale;
+                for (var s = 0; s < segmentCount; s++) {
+                    var t = s / segmentCount;
+                    var easedCurve = currentCurve * curveScale + (targetCurve - currentCurve * curveScale) * t;
+                    heading += easedCurve;
+                    x += Math.cos(heading) * stepSize;
+                    y += Math.sin(heading) * stepSize;
+                    points.push({ x: x, y: y });
+                }
+                currentCurve = section.targetCurve || 0.5;
+                break;
+            case 'ease_out':
+                var startCurve = currentCurve * curveScale;
+                for (var s = 0; s < segmentCount; s++) {
+                    var t = s / segmentCount;
+                    var easedCurve = startCurve * (1 - t);
+                    heading += easedCurve;
+                    x += Math.cos(heading) * stepSize;
+                    y += Math.sin(heading) * stepSize;
+                    points.push({ x: x, y: y });
+                }
+                currentCurve = 0;
+                break;
+            case 's_curve':
+                var halfLen = Math.floor(segmentCount / 2);
+                var sCurve = 0.06 * curveScale;
+                for (var s = 0; s < halfLen; s++) {
+                    heading += sCurve;
+                    x += Math.cos(heading) * stepSize;
+                    y += Math.sin(heading) * stepSize;
+                    points.push({ x: x, y: y });
+                }
+                for (var s = 0; s < halfLen; s++) {
+                    heading -= sCurve;
+                    x += Math.cos(heading) * stepSize;
+                    y += Math.sin(heading) * stepSize;
+                    points.push({ x: x, y: y });
+                }
+                break;
+        }
+    }
+    var startX = points[0].x;
+    var startY = points[0].y;
+    var endX = points[points.length - 1].x;
+    var endY = points[points.length - 1].y;
+    var closeSteps = 15;
+    for (var s = 1; s <= closeSteps; s++) {
+        var t = s / closeSteps;
+        var smoothT = t * t * (3 - 2 * t);
+        points.push({
+            x: endX + (startX - endX) * smoothT,
+            y: endY + (startY - endY) * smoothT
+        });
+    }
+    return points;
+}
+"use strict";
+var Speedometer = (function () {
+    function Speedometer(maxBarLength) {
+        this.maxBarLength = maxBarLength;
+    }
+    Speedometer.prototype.calculate = function (currentSpeed, maxSpeed) {
+        var percentage = clamp(currentSpeed / maxSpeed, 0, 1);
+        var filledLength = Math.round(percentage * this.maxBarLength);
+        return {
+            currentSpeed: Math.round(currentSpeed),
+            maxSpeed: maxSpeed,
+            percentage: percentage,
+            barLength: this.maxBarLength,
+            filledLength: filledLength
+        };
+    };
+    Speedometer.prototype.generateBar = function (data) {
+        var filled = '';
+        var empty = '';
+        for (var i = 0; i < data.filledLength; i++) {
+            filled += '█';
+        }
+        for (var j = data.filledLength; j < data.barLength; j++) {
+            empty += '░';
+        }
+        return filled + empty;
+    };
+    return Speedometer;
+}());
+"use strict";
+var LapTimer = (function () {
+    function LapTimer() {
+        this.lapTimes = [];
+        this.lapStartTime = 0;
+        this.raceStartTime = 0;
+        this.bestLapTime = null;
+    }
+    LapTimer.prototype.start = function (currentTime) {
+        this.raceStartTime = currentTime;
+        this.lapStartTime = currentTime;
+        this.lapTimes = [];
+        this.bestLapTime = null;
+    };
+    LapTimer.prototype.completeLap = function (currentTime) {
+        var lapTime = currentTime - this.lapStartTime;
+        this.lapTimes.push(lapTime);
+        if (this.bestLapTime === null || lapTime < this.bestLapTime) {
+            this.bestLapTime = lapTime;
+        }
+        this.lapStartTime = currentTime;
+        return lapTime;
+    };
+    LapTimer.prototype.getData = function (currentTime, currentLap, totalLaps) {
+        return {
+            currentLap: currentLap,
+            totalLaps: totalLaps,
+            currentLapTime: currentTime - this.lapStartTime,
+            bestLapTime: this.bestLapTime,
+            lapTimes: this.lapTimes.slice(),
+            totalTime: currentTime - this.raceStartTime
+        };
+    };
+    LapTimer.format = function (seconds) {
+        if (seconds === null || seconds === undefined)
+            return "--:--.--";
+        var mins = Math.floor(seconds / 60);
+        var secs = Math.floor(seconds % 60);
+        var ms = Math.floor((seconds % 1) * 100);
+        var secStr = secs < 10 ? "0" + secs : "" + secs;
+        var msStr = ms < 10 ? "0" + ms : "" + ms;
+        return mins + ":" + secStr + "." + msStr;
+    };
+    return LapTimer;
+}());
+"use strict";
+var PositionIndicator = (function () {
+    function PositionIndicator() {
+    }
+    PositionIndicator.calculate = function (position, totalRacers) {
         return {
             position: position,
             totalRacers: totalRacers,
@@ -3756,6 +5021,7 @@ var HighScoreType;
     HighScoreType["TRACK_TIME"] = "track_time";
     HighScoreType["LAP_TIME"] = "lap_time";
     HighScoreType["CIRCUIT_TIME"] = "circuit_time";
+    HighScoreType["DAILY_TIME"] = "daily_time";
 })(HighScoreType || (HighScoreType = {}));
 var HighScoreManager = (function () {
     function HighScoreManager() {
@@ -3945,7 +5211,7 @@ function displayHighScores(scores, title, trackOrCircuitName, playerPosition) {
     var boxX = Math.floor((screenWidth - boxWidth) / 2);
     var topY = Math.floor((screenHeight - boxHeight) / 2);
     scene3d.selectRawDepth('chrome');
-    console.gotoxy(boxX, topY);
+    viewportGotoxy(boxX, topY);
     console.attributes = boxAttr;
     console.print(GLYPH.DBOX_TL);
     for (var i = 1; i < boxWidth - 1; i++) {
@@ -3953,33 +5219,33 @@ function displayHighScores(scores, title, trackOrCircuitName, playerPosition) {
     }
     console.print(GLYPH.DBOX_TR + "\r\n");
     for (var j = 1; j < boxHeight - 1; j++) {
-        console.gotoxy(boxX, topY + j);
+        viewportGotoxy(boxX, topY + j);
         console.print(GLYPH.DBOX_V);
-        console.gotoxy(boxX + boxWidth - 1, topY + j);
+        viewportGotoxy(boxX + boxWidth - 1, topY + j);
         console.print(GLYPH.DBOX_V + "\r\n");
     }
-    console.gotoxy(boxX, topY + boxHeight - 1);
+    viewportGotoxy(boxX, topY + boxHeight - 1);
     console.print(GLYPH.DBOX_BL);
     for (var i = 1; i < boxWidth - 1; i++) {
         console.print(GLYPH.DBOX_H);
     }
     console.print(GLYPH.DBOX_BR + "\r\n");
     scene3d.selectRawDepth('title');
-    console.gotoxy(boxX + Math.floor((boxWidth - title.length) / 2), topY + 2);
+    viewportGotoxy(boxX + Math.floor((boxWidth - title.length) / 2), topY + 2);
     console.attributes = titleAttr;
     console.print(title);
     scene3d.selectRawDepth('content');
-    console.gotoxy(boxX + Math.floor((boxWidth - trackOrCircuitName.length) / 2), topY + 3);
+    viewportGotoxy(boxX + Math.floor((boxWidth - trackOrCircuitName.length) / 2), topY + 3);
     console.attributes = headerAttr;
     console.print(trackOrCircuitName);
-    console.gotoxy(boxX + 3, topY + 5);
+    viewportGotoxy(boxX + 3, topY + 5);
     console.attributes = headerAttr;
     console.print("RANK  PLAYER NAME           TIME        DATE");
     var startY = topY + 6;
     for (var i = 0; i < 10; i++) {
         var isHighlighted = (playerPosition !== undefined && playerPosition === i + 1);
         scene3d.selectRawDepth(isHighlighted ? 'vehicleNear' : 'content');
-        console.gotoxy(boxX + 3, startY + i);
+        viewportGotoxy(boxX + 3, startY + i);
         if (i < scores.length) {
             var score = scores[i];
             var rank = (i + 1) + ".";
@@ -4021,7 +5287,7 @@ function displayHighScores(scores, title, trackOrCircuitName, playerPosition) {
         }
     }
     scene3d.selectRawDepth('prompt');
-    console.gotoxy(boxX + Math.floor((boxWidth - 24) / 2), topY + boxHeight - 2);
+    viewportGotoxy(boxX + Math.floor((boxWidth - 24) / 2), topY + boxHeight - 2);
     console.attributes = headerAttr;
     console.print("Press any key to continue");
 }
@@ -4033,7 +5299,7 @@ function showHighScoreList(type, identifier, title, trackOrCircuitName, highScor
     console.inkey(K_NONE, 300000);
 }
 function displayTopScoreLine(label, score, x, y, labelAttr, valueAttr) {
-    console.gotoxy(x, y);
+    viewportGotoxy(x, y);
     console.attributes = labelAttr;
     console.print(label + ": ");
     console.attributes = valueAttr;
@@ -4067,7 +5333,7 @@ function showTwoColumnHighScores(trackId, trackName, highScoreManager, trackTime
     var boxX = Math.floor((viewWidth - boxWidth) / 2);
     var topY = Math.floor((viewHeight - boxHeight) / 2);
     scene3d.selectRawDepth('chrome');
-    console.gotoxy(boxX, topY);
+    viewportGotoxy(boxX, topY);
     console.attributes = boxAttr;
     console.print(GLYPH.DBOX_TL);
     for (var i = 1; i < boxWidth - 1; i++) {
@@ -4075,12 +5341,12 @@ function showTwoColumnHighScores(trackId, trackName, highScoreManager, trackTime
     }
     console.print(GLYPH.DBOX_TR);
     for (var j = 1; j < boxHeight - 1; j++) {
-        console.gotoxy(boxX, topY + j);
+        viewportGotoxy(boxX, topY + j);
         console.print(GLYPH.DBOX_V);
-        console.gotoxy(boxX + boxWidth - 1, topY + j);
+        viewportGotoxy(boxX + boxWidth - 1, topY + j);
         console.print(GLYPH.DBOX_V);
     }
-    console.gotoxy(boxX, topY + boxHeight - 1);
+    viewportGotoxy(boxX, topY + boxHeight - 1);
     console.print(GLYPH.DBOX_BL);
     for (var i = 1; i < boxWidth - 1; i++) {
         console.print(GLYPH.DBOX_H);
@@ -4088,32 +5354,32 @@ function showTwoColumnHighScores(trackId, trackName, highScoreManager, trackTime
     console.print(GLYPH.DBOX_BR);
     scene3d.selectRawDepth('title');
     var title = "=== HIGH SCORES ===";
-    console.gotoxy(boxX + Math.floor((boxWidth - title.length) / 2), topY + 1);
+    viewportGotoxy(boxX + Math.floor((boxWidth - title.length) / 2), topY + 1);
     console.attributes = titleAttr;
     console.print(title);
     scene3d.selectRawDepth('content');
-    console.gotoxy(boxX + Math.floor((boxWidth - trackName.length) / 2), topY + 2);
+    viewportGotoxy(boxX + Math.floor((boxWidth - trackName.length) / 2), topY + 2);
     console.attributes = headerAttr;
     console.print(trackName);
     var leftColX = boxX + 3;
     var rightColX = boxX + 40;
-    console.gotoxy(leftColX, topY + 4);
+    viewportGotoxy(leftColX, topY + 4);
     console.attributes = colHeaderAttr;
     console.print("TRACK TIME");
-    console.gotoxy(rightColX, topY + 4);
+    viewportGotoxy(rightColX, topY + 4);
     console.print("BEST LAP");
-    console.gotoxy(boxX + 37, topY + 4);
+    viewportGotoxy(boxX + 37, topY + 4);
     console.attributes = boxAttr;
     console.print(GLYPH.BOX_V);
     for (var j = 5; j < boxHeight - 3; j++) {
-        console.gotoxy(boxX + 37, topY + j);
+        viewportGotoxy(boxX + 37, topY + j);
         console.print(GLYPH.BOX_V);
     }
     var startY = topY + 5;
     for (var i = 0; i < 10; i++) {
         var trackHighlighted = (trackTimePosition > 0 && trackTimePosition === i + 1);
         scene3d.selectRawDepth(trackHighlighted ? 'vehicleNear' : 'content');
-        console.gotoxy(leftColX, startY + i);
+        viewportGotoxy(leftColX, startY + i);
         if (i < trackScores.length) {
             var score = trackScores[i];
             var rank = (i + 1) + ".";
@@ -4148,7 +5414,7 @@ function showTwoColumnHighScores(trackId, trackName, highScoreManager, trackTime
         }
         var lapHighlighted = (lapTimePosition > 0 && lapTimePosition === i + 1);
         scene3d.selectRawDepth(lapHighlighted ? 'vehicleNear' : 'content');
-        console.gotoxy(rightColX, startY + i);
+        viewportGotoxy(rightColX, startY + i);
         if (i < lapScores.length) {
             var score = lapScores[i];
             var rank = (i + 1) + ".";
@@ -4184,106 +5450,541 @@ function showTwoColumnHighScores(trackId, trackName, highScoreManager, trackTime
     }
     scene3d.selectRawDepth('content');
     if (trackTimePosition > 0 || lapTimePosition > 0) {
-        console.gotoxy(boxX + 3, topY + boxHeight - 3);
+        viewportGotoxy(boxX + 3, topY + boxHeight - 3);
         console.attributes = newScoreAttr;
         console.print("* = Your new high score!");
     }
     scene3d.selectRawDepth('prompt');
     var prompt = "Press any key to continue";
-    console.gotoxy(boxX + Math.floor((boxWidth - prompt.length) / 2), topY + boxHeight - 2);
+    viewportGotoxy(boxX + Math.floor((boxWidth - prompt.length) / 2), topY + boxHeight - 2);
     console.attributes = promptAttr;
     console.print(prompt);
     scene3d.selectRawDepth('glass');
     console.line_counter = 0;
     console.inkey(K_NONE, 300000);
 }
-"use strict";
-var PALETTE = {
-    SKY_TOP: { fg: MAGENTA, bg: BG_BLACK },
-    SKY_MID: { fg: LIGHTMAGENTA, bg: BG_BLACK },
-    SKY_HORIZON: { fg: LIGHTMAGENTA, bg: BG_BLACK },
-    SKY_GRID: { fg: MAGENTA, bg: BG_BLACK },
-    SKY_GRID_GLOW: { fg: LIGHTMAGENTA, bg: BG_BLACK },
-    SUN_CORE: { fg: YELLOW, bg: BG_RED },
-    SUN_GLOW: { fg: LIGHTRED, bg: BG_BLACK },
-    MOUNTAIN: { fg: MAGENTA, bg: BG_BLACK },
-    MOUNTAIN_HIGHLIGHT: { fg: LIGHTMAGENTA, bg: BG_BLACK },
-    GRID_LINE: { fg: CYAN, bg: BG_BLACK },
-    GRID_GLOW: { fg: LIGHTCYAN, bg: BG_BLACK },
-    ROAD_LIGHT: { fg: LIGHTCYAN, bg: BG_BLACK },
-    ROAD_DARK: { fg: CYAN, bg: BG_BLACK },
-    ROAD_STRIPE: { fg: WHITE, bg: BG_BLACK },
-    ROAD_EDGE: { fg: LIGHTRED, bg: BG_BLACK },
-    ROAD_GRID: { fg: CYAN, bg: BG_BLACK },
-    OFFROAD_GRASS: { fg: GREEN, bg: BG_BLACK },
-    OFFROAD_DIRT: { fg: BROWN, bg: BG_BLACK },
-    OFFROAD_ROCK: { fg: DARKGRAY, bg: BG_BLACK },
-    OFFROAD_TREE: { fg: LIGHTGREEN, bg: BG_BLACK },
-    OFFROAD_TREE_TRUNK: { fg: BROWN, bg: BG_BLACK },
-    OFFROAD_CACTUS: { fg: GREEN, bg: BG_BLACK },
-    PLAYER_BODY: { fg: YELLOW, bg: BG_BLACK },
-    PLAYER_TRIM: { fg: WHITE, bg: BG_BLACK },
-    ENEMY_BODY: { fg: LIGHTCYAN, bg: BG_BLACK },
-    HUD_FRAME: { fg: LIGHTCYAN, bg: BG_BLACK },
-    HUD_TEXT: { fg: WHITE, bg: BG_BLACK },
-    HUD_VALUE: { fg: YELLOW, bg: BG_BLACK },
-    HUD_LABEL: { fg: LIGHTGRAY, bg: BG_BLACK },
-    ITEM_BOX: { fg: YELLOW, bg: BG_BLACK },
-    ITEM_MUSHROOM: { fg: LIGHTRED, bg: BG_BLACK },
-    ITEM_SHELL: { fg: LIGHTGREEN, bg: BG_BLACK }
-};
-function makeAttr(fg, bg) {
-    return fg | bg;
-}
-function getFg(attr) {
-    return attr & 0x0F;
-}
-function getBg(attr) {
-    return attr & 0xF0;
-}
-function colorToAttr(color) {
-    return color.fg | color.bg;
+function showDailyChallengeScores(challenge, highScoreManager, playerPosition) {
+    var scores = highScoreManager.getScores(HighScoreType.DAILY_TIME, challenge.dateKey);
+    var track = getBuiltInTrackDefinition(challenge.trackId);
+    var subtitle = challenge.dateKey + " - " + (track ? track.name : challenge.trackId) + ", " + challenge.laps + " laps";
+    displayHighScores(scores, "=== DAILY CHALLENGE ===", subtitle, playerPosition);
+    var yesterday = highScoreManager.getTopScore(HighScoreType.DAILY_TIME, getPreviousDailyDateKey(challenge.dateKey));
+    scene3d.selectRawDepth('content');
+    displayTopScoreLine("Yesterday's winner", yesterday, 8, 22, colorToAttr({ fg: LIGHTCYAN, bg: BG_BLACK }), colorToAttr({ fg: YELLOW, bg: BG_BLACK }));
+    scene3d.selectRawDepth('glass');
+    console.line_counter = 0;
+    console.inkey(K_NONE, 300000);
 }
 "use strict";
-var GLYPH = {
-    FULL_BLOCK: String.fromCharCode(219),
-    LOWER_HALF: String.fromCharCode(220),
-    UPPER_HALF: String.fromCharCode(223),
-    LEFT_HALF: String.fromCharCode(221),
-    RIGHT_HALF: String.fromCharCode(222),
-    LIGHT_SHADE: String.fromCharCode(176),
-    MEDIUM_SHADE: String.fromCharCode(177),
-    DARK_SHADE: String.fromCharCode(178),
-    BOX_H: String.fromCharCode(196),
-    BOX_V: String.fromCharCode(179),
-    BOX_TL: String.fromCharCode(218),
-    BOX_TR: String.fromCharCode(191),
-    BOX_BL: String.fromCharCode(192),
-    BOX_BR: String.fromCharCode(217),
-    BOX_VR: String.fromCharCode(195),
-    BOX_VL: String.fromCharCode(180),
-    BOX_HD: String.fromCharCode(194),
-    BOX_HU: String.fromCharCode(193),
-    BOX_CROSS: String.fromCharCode(197),
-    DBOX_H: String.fromCharCode(205),
-    DBOX_V: String.fromCharCode(186),
-    DBOX_TL: String.fromCharCode(201),
-    DBOX_TR: String.fromCharCode(187),
-    DBOX_BL: String.fromCharCode(200),
-    DBOX_BR: String.fromCharCode(188),
-    DBOX_VR: String.fromCharCode(204),
-    DBOX_VL: String.fromCharCode(185),
-    DBOX_HD: String.fromCharCode(203),
-    DBOX_HU: String.fromCharCode(202),
-    DBOX_CROSS: String.fromCharCode(206),
-    BOX_VD_HD: String.fromCharCode(209),
-    BOX_VD_HU: String.fromCharCode(207),
-    TRIANGLE_UP: '^',
-    TRIANGLE_DOWN: 'v',
-    TRIANGLE_LEFT: '<',
-    TRIANGLE_RIGHT: '>',
-    DIAMOND: '*',
-    BULLET: 'o',
+var GhostStore = (function () {
+    function GhostStore(tickRate) {
+        this.directory = OUTRUN_CONFIG.ghosts.directory;
+        this.tickRate = tickRate;
+    }
+    GhostStore.prototype.loadBest = function (trackId, userNumber) {
+        var personal = userNumber > 0 ? this.read(this.personalPath(trackId, userNumber)) : null;
+        if (personal)
+            return personal;
+        return this.read(this.recordPath(trackId));
+    };
+    GhostStore.prototype.saveIfBetter = function (ghost, userNumber) {
+        var saved = false;
+        if (userNumber > 0) {
+            var personalPath = this.personalPath(ghost.trackId, userNumber);
+            var personal = this.read(personalPath);
+            if (!personal || ghost.time < personal.time) {
+                saved = this.write(personalPath, ghost) || saved;
+            }
+        }
+        var recordPath = this.recordPath(ghost.trackId);
+        var record = this.read(recordPath);
+        if (!record || ghost.time < record.time) {
+            saved = this.write(recordPath, ghost) || saved;
+            logInfo('GhostStore: new track record ghost for ' + ghost.trackId + ': ' + ghost.time.toFixed(2));
+        }
+        return saved;
+    };
+    GhostStore.prototype.personalPath = function (trackId, userNumber) {
+        return this.directory + '/' + this.sanitize(trackId) + '.u' + userNumber + '.json';
+    };
+    GhostStore.prototype.recordPath = function (trackId) {
+        return this.directory + '/' + this.sanitize(trackId) + '.record.json';
+    };
+    GhostStore.prototype.sanitize = function (id) {
+        return id.replace(/[^a-zA-Z0-9_-]/g, '_');
+    };
+    GhostStore.prototype.read = function (path) {
+        if (!file_exists(path))
+            return null;
+        try {
+            var f = new File(path);
+            if (!f.open('r')) {
+                logWarning('GhostStore: unable to open ' + path);
+                return null;
+            }
+            var content = f.read();
+            f.close();
+            var data = JSON.parse(content);
+            if (!isValidGhostData(data, this.tickRate)) {
+                logWarning('GhostStore: ignoring incompatible ghost ' + path);
+                return null;
+            }
+            return data;
+        }
+        catch (e) {
+            logError('GhostStore: failed to read ' + path + ': ' + e);
+            return null;
+        }
+    };
+    GhostStore.prototype.write = function (path, ghost) {
+        try {
+            if (!file_exists(this.directory)) {
+                mkdir(this.directory);
+            }
+            var f = new File(path);
+            if (!f.open('w')) {
+                logError('GhostStore: unable to write ' + path);
+                return false;
+            }
+            f.write(JSON.stringify(ghost));
+            f.close();
+            return true;
+        }
+        catch (e) {
+            logError('GhostStore: failed to write ' + path + ': ' + e);
+            return false;
+        }
+    };
+    return GhostStore;
+}());
+"use strict";
+var ReplayStore = (function () {
+    function ReplayStore() {
+        this.directory = OUTRUN_CONFIG.replays.directory;
+        this.keep = OUTRUN_CONFIG.replays.keep;
+    }
+    ReplayStore.prototype.save = function (replay) {
+        if (!this.write(this.pathFor(replay.id), replay))
+            return false;
+        this.prune(replay.userNumber);
+        return true;
+    };
+    ReplayStore.prototype.list = function () {
+        var replays = [];
+        var files = file_exists(this.directory) ? directory(this.directory + '/u*.json') || [] : [];
+        for (var i = 0; i < files.length; i++) {
+            var replay = this.read(files[i]);
+            if (replay)
+                replays.push(replay);
+        }
+        replays.sort(function (a, b) { return b.date - a.date; });
+        return replays;
+    };
+    ReplayStore.prototype.remove = function (replay) {
+        var path = this.pathFor(replay.id);
+        return file_exists(path) && file_remove(path);
+    };
+    ReplayStore.prototype.prune = function (userNumber) {
+        var files = directory(this.directory + '/u' + userNumber + '.*.json') || [];
+        if (files.length <= this.keep)
+            return;
+        var self = this;
+        files.sort(function (a, b) { return self.getFileDate(a) - self.getFileDate(b); });
+        for (var i = 0; i < files.length - this.keep; i++) {
+            if (!file_remove(files[i])) {
+                logWarning('ReplayStore: unable to remove ' + files[i]);
+            }
+        }
+    };
+    ReplayStore.prototype.getFileDate = function (path) {
+        var match = /\.(\d+)\.json$/.exec(path);
+        return match ? parseInt(match[1], 10) : 0;
+    };
+    ReplayStore.prototype.pathFor = function (id) {
+        return this.directory + '/' + id.replace(/[^a-zA-Z0-9_.-]/g, '_') + '.json';
+    };
+    ReplayStore.prototype.read = function (path) {
+        try {
+            var f = new File(path);
+            if (!f.open('r')) {
+                logWarning('ReplayStore: unable to open ' + path);
+                return null;
+            }
+            var content = f.read();
+            f.close();
+            var data = JSON.parse(content);
+            if (!isValidReplayData(data)) {
+                logWarning('ReplayStore: ignoring incompatible replay ' + path);
+                return null;
+            }
+            return data;
+        }
+        catch (e) {
+            logError('ReplayStore: failed to read ' + path + ': ' + e);
+            return null;
+        }
+    };
+    ReplayStore.prototype.write = function (path, replay) {
+        try {
+            if (!file_exists(this.directory)) {
+                mkdir(this.directory);
+            }
+            var f = new File(path);
+            if (!f.open('w')) {
+                logError('ReplayStore: unable to write ' + path);
+                return false;
+            }
+            f.write(JSON.stringify(replay));
+            f.close();
+            return true;
+        }
+        catch (e) {
+            logError('ReplayStore: failed to write ' + path + ': ' + e);
+            return false;
+        }
+    };
+    return ReplayStore;
+}());
+"use strict";
+var RACE_CHANNEL_LOCK_READ = 1;
+var RACE_CHANNEL_LOCK_WRITE = 2;
+var JsonServiceChannel = (function () {
+    function JsonServiceChannel(server, port, serviceName) {
+        this.client = new JSONClient(server, port);
+        this.serviceName = serviceName;
+    }
+    JsonServiceChannel.prototype.read = function (key) {
+        try {
+            var value = this.client.read(this.serviceName, 'multiplayer.' + key, RACE_CHANNEL_LOCK_READ);
+            return value === undefined ? null : value;
+        }
+        catch (e) {
+            logError('RaceChannel: read ' + key + ' failed: ' + e);
+            return null;
+        }
+    };
+    JsonServiceChannel.prototype.readAll = function (prefix) {
+        var value = this.read(prefix);
+        return value && typeof value === 'object' ? value : {};
+    };
+    JsonServiceChannel.prototype.write = function (key, value) {
+        try {
+            this.client.write(this.serviceName, 'multiplayer.' + key, value, RACE_CHANNEL_LOCK_WRITE);
+            return true;
+        }
+        catch (e) {
+            logError('RaceChannel: write ' + key + ' failed: ' + e);
+            return false;
+        }
+    };
+    JsonServiceChannel.prototype.remove = function (key) {
+        try {
+            this.client.remove(this.serviceName, 'multiplayer.' + key, RACE_CHANNEL_LOCK_WRITE);
+        }
+        catch (e) {
+            logError('RaceChannel: remove ' + key + ' failed: ' + e);
+        }
+    };
+    JsonServiceChannel.prototype.close = function () {
+        try {
+            this.client.disconnect();
+        }
+        catch (e) {
+            logError('RaceChannel: disconnect failed: ' + e);
+        }
+    };
+    return JsonServiceChannel;
+}());
+var SharedFileChannel = (function () {
+    function SharedFileChannel(directory, node) {
+        this.directory = directory;
+        this.node = node;
+    }
+    SharedFileChannel.prototype.read = function (key) {
+        var path = this.pathFor(key);
+        if (!file_exists(path))
+            return null;
+        try {
+            var f = new File(path);
+            if (!f.open('r'))
+                return null;
+            var content = f.read();
+            f.close();
+            return JSON.parse(content);
+        }
+        catch (e) {
+            return null;
+        }
+    };
+    SharedFileChannel.prototype.readAll = function (prefix) {
+        var result = {};
+        var files = directory(this.directory + '/' + prefix + '.*.json');
+        for (var i = 0; i < files.length; i++) {
+            var base = files[i].substring(files[i].lastIndexOf('/') + 1);
+            var name = base.substring(prefix.length + 1, base.length - 5);
+            if (name.indexOf('.') !== -1)
+                continue;
+            var value = this.read(prefix + '.' + name);
+            if (value !== null)
+                result[name] = value;
+        }
+        return result;
+    };
+    SharedFileChannel.prototype.write = function (key, value) {
+        try {
+            if (!file_exists(this.directory)) {
+                mkdir(this.directory);
+            }
+            var path = this.pathFor(key);
+            var temp = path + '.' + this.node + '.tmp';
+            var f = new File(temp);
+            if (!f.open('w')) {
+                logError('RaceChannel: unable to write ' + temp);
+                return false;
+            }
+            f.write(JSON.stringify(value));
+            f.close();
+            if (!file_rename(temp, path)) {
+                file_remove(path);
+                return file_rename(temp, path);
+            }
+            return true;
+        }
+        catch (e) {
+            logError('RaceChannel: write ' + key + ' failed: ' + e);
+            return false;
+        }
+    };
+    SharedFileChannel.prototype.remove = function (key) {
+        var path = this.pathFor(key);
+        if (file_exists(path))
+            file_remove(path);
+    };
+    SharedFileChannel.prototype.close = function () {
+    };
+    SharedFileChannel.prototype.pathFor = function (key) {
+        return this.directory + '/' + key.replace(/[^a-zA-Z0-9_.-]/g, '_') + '.json';
+    };
+    return SharedFileChannel;
+}());
+function createRaceChannel(node) {
+    var hs = OUTRUN_CONFIG.highscores;
+    try {
+        if (hs.server !== 'file' && hs.server !== '') {
+            return new JsonServiceChannel(hs.server, hs.port, hs.serviceName);
+        }
+        return new SharedFileChannel(OUTRUN_CONFIG.multiplayer.directory, node);
+    }
+    catch (e) {
+        logError('RaceChannel: unable to connect: ' + e);
+        return null;
+    }
+}
+"use strict";
+var LOBBY_STALE_MS = 15000;
+var LOBBY_START_DELAY_MS = 5000;
+var LOBBY_MAX_PLAYERS = 8;
+var Lobby = (function () {
+    function Lobby(channel, node, name) {
+        this.channel = channel;
+        this.node = node;
+        this.name = name;
+    }
+    Lobby.prototype.getOpenRace = function () {
+        var race = this.channel.read('lobby');
+        if (!race || race.state !== 'open')
+            return null;
+        if (Date.now() - race.updated > LOBBY_STALE_MS)
+            return null;
+        if (!getTrackDefinition(race.trackId))
+            return null;
+        return race;
+    };
+    Lobby.prototype.host = function (trackId, carId, colorId) {
+        if (this.getOpenRace()) {
+            logInfo('Lobby: another race is already open, not hosting');
+            return null;
+        }
+        var now = Date.now();
+        var race = {
+            raceId: this.node + '-' + now,
+            hostNode: this.node,
+            trackId: trackId,
+            seed: generateRaceSeed(),
+            state: 'open',
+            startAt: 0,
+            players: [{ node: this.node, name: this.name, carId: carId, colorId: colorId }],
+            updated: now
+        };
+        this.channel.write('lobby', race);
+        logInfo('Lobby: hosting race ' + race.raceId + ' on ' + trackId);
+        return race;
+    };
+    Lobby.prototype.refreshHost = function (race) {
+        var now = Date.now();
+        var current = this.channel.read('lobby');
+        if (current && current.raceId !== race.raceId && current.state === 'open' &&
+            now - current.updated <= LOBBY_STALE_MS && isEarlierLobbyRace(current, race)) {
+            logInfo('Lobby: race ' + current.raceId + ' was opened first, closing ' + race.raceId);
+            return null;
+        }
+        var joins = this.channel.readAll('join.' + race.raceId);
+        var players = [race.players[0]];
+        for (var i = 1; i < race.players.length; i++) {
+            var existing = joins[race.players[i].node];
+            if (existing && now - existing.updated <= LOBBY_STALE_MS) {
+                players.push(race.players[i]);
+            }
+        }
+        var nodes = Object.keys(joins).sort(function (a, b) { return parseInt(a, 10) - parseInt(b, 10); });
+        for (var j = 0; j < nodes.length && players.length < LOBBY_MAX_PLAYERS; j++) {
+            var join = joins[nodes[j]];
+            if (now - join.updated > LOBBY_STALE_MS)
+                continue;
+            if (findLobbyPlayer(players, join.node))
+                continue;
+            players.push({ node: join.node, name: join.name, carId: join.carId, colorId: join.colorId });
+        }
+        race.players = players;
+        race.updated = now;
+        this.channel.write('lobby', race);
+        return race;
+    };
+    Lobby.prototype.start = function (race) {
+        race.state = 'started';
+        race.startAt = Date.now() + LOBBY_START_DELAY_MS;
+        race.updated = Date.now();
+        this.channel.write('lobby', race);
+        logInfo('Lobby: race ' + race.raceId + ' starting with ' + race.players.length + ' players');
+        return race;
+    };
+    Lobby.prototype.close = function (race) {
+        race.state = 'closed';
+        race.updated = Date.now();
+        this.channel.write('lobby', race);
+    };
+    Lobby.prototype.refreshJoin = function (raceId, carId, colorId) {
+        var record = {
+            node: this.node,
+            name: this.name,
+            carId: carId,
+            colorId: colorId,
+            updated: Date.now()
+        };
+        this.channel.write('join.' + raceId + '.' + this.node, record);
+        var race = this.channel.read('lobby');
+        if (!race || race.raceId !== raceId || race.state === 'closed')
+            return null;
+        if (race.state === 'open' && Date.now() - race.updated > LOBBY_STALE_MS)
+            return null;
+        return race;
+    };
+    Lobby.prototype.leave = function (raceId) {
+        this.channel.remove('join.' + raceId + '.' + this.node);
+    };
+    return Lobby;
+}());
+function isEarlierLobbyRace(a, b) {
+    var openedA = parseInt(a.raceId.substring(a.raceId.indexOf('-') + 1), 10);
+    var openedB = parseInt(b.raceId.substring(b.raceId.indexOf('-') + 1), 10);
+    if (openedA !== openedB)
+        return openedA < openedB;
+    return a.hostNode < b.hostNode;
+}
+function findLobbyPlayer(players, node) {
+    for (var i = 0; i < players.length; i++) {
+        if (players[i].node === node)
+            return players[i];
+    }
+    return null;
+}
+"use strict";
+var PALETTE = {
+    SKY_TOP: { fg: MAGENTA, bg: BG_BLACK },
+    SKY_MID: { fg: LIGHTMAGENTA, bg: BG_BLACK },
+    SKY_HORIZON: { fg: LIGHTMAGENTA, bg: BG_BLACK },
+    SKY_GRID: { fg: MAGENTA, bg: BG_BLACK },
+    SKY_GRID_GLOW: { fg: LIGHTMAGENTA, bg: BG_BLACK },
+    SUN_CORE: { fg: YELLOW, bg: BG_RED },
+    SUN_GLOW: { fg: LIGHTRED, bg: BG_BLACK },
+    MOUNTAIN: { fg: MAGENTA, bg: BG_BLACK },
+    MOUNTAIN_HIGHLIGHT: { fg: LIGHTMAGENTA, bg: BG_BLACK },
+    GRID_LINE: { fg: CYAN, bg: BG_BLACK },
+    GRID_GLOW: { fg: LIGHTCYAN, bg: BG_BLACK },
+    ROAD_LIGHT: { fg: LIGHTCYAN, bg: BG_BLACK },
+    ROAD_DARK: { fg: CYAN, bg: BG_BLACK },
+    ROAD_STRIPE: { fg: WHITE, bg: BG_BLACK },
+    ROAD_EDGE: { fg: LIGHTRED, bg: BG_BLACK },
+    ROAD_GRID: { fg: CYAN, bg: BG_BLACK },
+    OFFROAD_GRASS: { fg: GREEN, bg: BG_BLACK },
+    OFFROAD_DIRT: { fg: BROWN, bg: BG_BLACK },
+    OFFROAD_ROCK: { fg: DARKGRAY, bg: BG_BLACK },
+    OFFROAD_TREE: { fg: LIGHTGREEN, bg: BG_BLACK },
+    OFFROAD_TREE_TRUNK: { fg: BROWN, bg: BG_BLACK },
+    OFFROAD_CACTUS: { fg: GREEN, bg: BG_BLACK },
+    PLAYER_BODY: { fg: YELLOW, bg: BG_BLACK },
+    PLAYER_TRIM: { fg: WHITE, bg: BG_BLACK },
+    ENEMY_BODY: { fg: LIGHTCYAN, bg: BG_BLACK },
+    HUD_FRAME: { fg: LIGHTCYAN, bg: BG_BLACK },
+    HUD_TEXT: { fg: WHITE, bg: BG_BLACK },
+    HUD_VALUE: { fg: YELLOW, bg: BG_BLACK },
+    HUD_LABEL: { fg: LIGHTGRAY, bg: BG_BLACK },
+    ITEM_BOX: { fg: YELLOW, bg: BG_BLACK },
+    ITEM_MUSHROOM: { fg: LIGHTRED, bg: BG_BLACK },
+    ITEM_SHELL: { fg: LIGHTGREEN, bg: BG_BLACK }
+};
+function makeAttr(fg, bg) {
+    return fg | bg;
+}
+function getFg(attr) {
+    return attr & 0x0F;
+}
+function getBg(attr) {
+    return attr & 0xF0;
+}
+function colorToAttr(color) {
+    return color.fg | color.bg;
+}
+"use strict";
+var GLYPH = {
+    FULL_BLOCK: String.fromCharCode(219),
+    LOWER_HALF: String.fromCharCode(220),
+    UPPER_HALF: String.fromCharCode(223),
+    LEFT_HALF: String.fromCharCode(221),
+    RIGHT_HALF: String.fromCharCode(222),
+    LIGHT_SHADE: String.fromCharCode(176),
+    MEDIUM_SHADE: String.fromCharCode(177),
+    DARK_SHADE: String.fromCharCode(178),
+    BOX_H: String.fromCharCode(196),
+    BOX_V: String.fromCharCode(179),
+    BOX_TL: String.fromCharCode(218),
+    BOX_TR: String.fromCharCode(191),
+    BOX_BL: String.fromCharCode(192),
+    BOX_BR: String.fromCharCode(217),
+    BOX_VR: String.fromCharCode(195),
+    BOX_VL: String.fromCharCode(180),
+    BOX_HD: String.fromCharCode(194),
+    BOX_HU: String.fromCharCode(193),
+    BOX_CROSS: String.fromCharCode(197),
+    DBOX_H: String.fromCharCode(205),
+    DBOX_V: String.fromCharCode(186),
+    DBOX_TL: String.fromCharCode(201),
+    DBOX_TR: String.fromCharCode(187),
+    DBOX_BL: String.fromCharCode(200),
+    DBOX_BR: String.fromCharCode(188),
+    DBOX_VR: String.fromCharCode(204),
+    DBOX_VL: String.fromCharCode(185),
+    DBOX_HD: String.fromCharCode(203),
+    DBOX_HU: String.fromCharCode(202),
+    DBOX_CROSS: String.fromCharCode(206),
+    BOX_VD_HD: String.fromCharCode(209),
+    BOX_VD_HU: String.fromCharCode(207),
+    TRIANGLE_UP: '^',
+    TRIANGLE_DOWN: 'v',
+    TRIANGLE_LEFT: '<',
+    TRIANGLE_RIGHT: '>',
+    DIAMOND: '*',
+    BULLET: 'o',
     CIRCLE: 'O',
     INVERSE_BULLET: '@',
     SPACE: ' ',
@@ -4981,6 +6682,9 @@ var HudRenderer = (function () {
         if (hudData.countdown > 0 && hudData.raceMode === RaceMode.GRAND_PRIX) {
             this.renderCountdown(hudData.countdown);
         }
+        if (hudData.wrongWay) {
+            this.composer.writeString(34, 3, ' WRONG WAY! ', makeAttr(YELLOW, BG_RED));
+        }
     };
     HudRenderer.prototype.renderTopBar = function (data) {
         var y = 0;
@@ -5352,22 +7056,60 @@ var ANSILoader = (function () {
             return null;
         }
     };
-    ANSILoader.scanDirectory = function (dirPath) {
-        var dir = dirPath || ANSILoader.defaultDirectory;
-        var files = [];
+    ANSILoader.loadBin = function (path, width) {
         try {
-            if (typeof directory === 'function') {
-                var glob = dir + '/*.ans';
-                var allFiles = directory(glob);
-                if (allFiles && allFiles.length) {
-                    for (var i = 0; i < allFiles.length; i++) {
-                        files.push(allFiles[i]);
-                    }
-                }
+            if (typeof file_exists === 'function' && !file_exists(path)) {
+                logWarning("BIN file not found: " + path);
+                return null;
             }
-            logInfo("ANSILoader.scanDirectory: Found " + files.length + " files in " + dir);
-        }
-        catch (e) {
+            var f = new File(path);
+            if (!f.open('rb')) {
+                logWarning("Failed to open BIN file: " + path);
+                return null;
+            }
+            var data = f.read();
+            f.close();
+            var rowBytes = width * 2;
+            var height = Math.floor(data.length / rowBytes);
+            var cells = [];
+            for (var row = 0; row < height; row++) {
+                cells[row] = [];
+                for (var col = 0; col < width; col++) {
+                    var offset = row * rowBytes + col * 2;
+                    cells[row][col] = {
+                        char: data.charAt(offset),
+                        attr: data.charCodeAt(offset + 1)
+                    };
+                }
+            }
+            logInfo("ANSILoader: Loaded " + path + " (" + width + "x" + height + " bin)");
+            return {
+                width: width,
+                height: height,
+                cells: cells
+            };
+        }
+        catch (e) {
+            logWarning("Error loading BIN file: " + path + " - " + e);
+            return null;
+        }
+    };
+    ANSILoader.scanDirectory = function (dirPath) {
+        var dir = dirPath || ANSILoader.defaultDirectory;
+        var files = [];
+        try {
+            if (typeof directory === 'function') {
+                var glob = dir + '/*.ans';
+                var allFiles = directory(glob);
+                if (allFiles && allFiles.length) {
+                    for (var i = 0; i < allFiles.length; i++) {
+                        files.push(allFiles[i]);
+                    }
+                }
+            }
+            logInfo("ANSILoader.scanDirectory: Found " + files.length + " files in " + dir);
+        }
+        catch (e) {
             logWarning("Error scanning ANSI directory: " + dir + " - " + e);
         }
         return files;
@@ -11626,7 +13368,7 @@ var ANSITunnelRenderer = (function () {
         if (this.scrollOffset < 0)
             this.scrollOffset += this.combinedHeight;
     };
-    ANSITunnelRenderer.prototype.renderTunnel = function (skyFrame, roadFrame, horizonY, roadHeight, screenWidth, trackPosition, cameraX, road, roadLength) {
+    ANSITunnelRenderer.prototype.renderTunnel = function (skyFrame, roadFrame, horizonY, roadHeight, screenWidth, trackPosition, cameraX, road, roadLength, maxRoadDistance) {
         if (!this._renderDebugLogged) {
             this._renderDebugLogged = true;
             logInfo('ANSITunnelRenderer.renderTunnel: canvas=' + this.combinedWidth + 'x' + this.combinedHeight + ' horizonY=' + horizonY + ' roadHeight=' + roadHeight);
@@ -11652,7 +13394,7 @@ var ANSITunnelRenderer = (function () {
             for (var screenY = roadBottom; screenY >= 0; screenY--) {
                 var ansiRow = startRow + horizonY + screenY;
                 var t = (roadBottom - screenY) / Math.max(1, roadBottom);
-                var distance = 1 / (1 - t * 0.95);
+                var distance = 1 / (1 - t * (1 - 1 / maxRoadDistance));
                 var worldZ = trackPosition + distance * 5;
                 var segment = road.getSegment(worldZ);
                 if (segment) {
@@ -11661,7 +13403,7 @@ var ANSITunnelRenderer = (function () {
                 var roadWidth = Math.round(40 / distance);
                 var halfWidth = Math.floor(roadWidth / 2);
                 var curveOffset = accumulatedCurve * distance * 0.8;
-                var centerX = 40 + Math.round(curveOffset) - Math.round(cameraX * 0.5);
+                var centerX = Math.floor(screenWidth / 2) + Math.round(curveOffset) - Math.round(cameraX * 0.5);
                 var leftEdge = centerX - halfWidth;
                 var rightEdge = centerX + halfWidth;
                 var wrappedZ = worldZ % roadLength;
@@ -11737,6 +13479,475 @@ function getANSITunnelRenderer() {
     return ansiTunnelRenderer;
 }
 "use strict";
+var THEME_SPRITE_MAX_WIDTH = 8;
+var THEME_SPRITE_MAX_HEIGHT = 6;
+var THEME_SPRITE_MAX_SCALES = 5;
+var THEME_SKY_TYPES = ['grid', 'stars', 'gradient', 'plain', 'water'];
+var THEME_BACKGROUND_TYPES = ['mountains', 'skyscrapers', 'dunes', 'forest', 'hills', 'ocean',
+    'jungle_canopy', 'candy_hills', 'nebula', 'castle_fortress', 'volcanic', 'pyramids',
+    'stadium', 'destroyed_city', 'underwater', 'aquarium'];
+var THEME_CELESTIAL_TYPES = ['sun', 'moon', 'dual_moons', 'monster', 'mermaid', 'none'];
+var THEME_GROUND_TYPES = ['solid', 'grid', 'dither', 'grass', 'sand', 'lava', 'candy', 'void',
+    'cobblestone', 'jungle', 'dirt', 'water'];
+var ThemeLoader = (function () {
+    function ThemeLoader() {
+    }
+    ThemeLoader.prototype.loadDefinitions = function (dirPath) {
+        var themes = [];
+        var files = [];
+        try {
+            if (typeof directory === 'function') {
+                files = directory(dirPath + '/*.json') || [];
+            }
+        }
+        catch (e) {
+            logWarning("ThemeLoader: Error scanning theme directory " + dirPath + " - " + e);
+            return themes;
+        }
+        var parsed = [];
+        for (var i = 0; i < files.length; i++) {
+            var data = this.readJson(files[i]);
+            if (data === null)
+                continue;
+            if (typeof data !== 'object' || data instanceof Array) {
+                logError("ThemeLoader: " + files[i] + ": top level must be an object");
+                continue;
+            }
+            parsed.push({ path: files[i], data: data });
+        }
+        for (var s = 0; s < parsed.length; s++) {
+            this.loadSprites(parsed[s].data.sprites, dirPath, parsed[s].path);
+        }
+        for (var t = 0; t < parsed.length; t++) {
+            var theme = this.parseTheme(parsed[t].data, parsed[t].path);
+            if (!theme)
+                continue;
+            registerTheme(theme);
+            themes.push(theme);
+        }
+        logInfo("ThemeLoader: Loaded " + themes.length + " of " + files.length +
+            " theme files from " + dirPath);
+        return themes;
+    };
+    ThemeLoader.prototype.readJson = function (path) {
+        var content;
+        try {
+            var f = new File(path);
+            if (!f.open('r')) {
+                logError("ThemeLoader: " + path + ": unable to open file");
+                return null;
+            }
+            content = f.read();
+            f.close();
+        }
+        catch (e) {
+            logError("ThemeLoader: " + path + ": read failed - " + e);
+            return null;
+        }
+        try {
+            return JSON.parse(content);
+        }
+        catch (e) {
+            logError("ThemeLoader: " + path + ": invalid JSON - " + e);
+            return null;
+        }
+    };
+    ThemeLoader.prototype.loadSprites = function (sprites, dirPath, source) {
+        if (sprites === undefined)
+            return;
+        if (!sprites || typeof sprites !== 'object' || sprites instanceof Array) {
+            logError("ThemeLoader: " + source + ": 'sprites' must be an object");
+            return;
+        }
+        for (var name in sprites) {
+            if (!sprites.hasOwnProperty(name))
+                continue;
+            var label = "sprites." + name;
+            if (!/^[a-z0-9_]+$/.test(name)) {
+                logError("ThemeLoader: " + source + ": " + label + ": name must be lowercase letters, digits and underscores");
+                continue;
+            }
+            if (ROADSIDE_SPRITES[name]) {
+                logError("ThemeLoader: " + source + ": " + label + ": a sprite with this name already exists");
+                continue;
+            }
+            var sprite = this.loadSprite(name, sprites[name], dirPath, source + ": " + label);
+            if (sprite) {
+                registerRoadsideSprite(name, this.spriteCreator(sprite));
+            }
+        }
+    };
+    ThemeLoader.prototype.spriteCreator = function (sprite) {
+        return function () { return sprite; };
+    };
+    ThemeLoader.prototype.loadSprite = function (name, spec, dirPath, label) {
+        if (!spec || typeof spec !== 'object' || !(spec.files instanceof Array) ||
+            spec.files.length === 0 || spec.files.length > THEME_SPRITE_MAX_SCALES) {
+            logError("ThemeLoader: " + label + ".files must list 1 to " + THEME_SPRITE_MAX_SCALES + " art files");
+            return null;
+        }
+        var variants = [];
+        for (var i = 0; i < spec.files.length; i++) {
+            var file = spec.files[i];
+            var fileLabel = label + ".files[" + i + "]";
+            if (typeof file !== 'string' || file.indexOf('..') !== -1) {
+                logError("ThemeLoader: " + fileLabel + " must be a file name in the themes directory");
+                return null;
+            }
+            var path = dirPath + '/' + file;
+            var image = null;
+            var ext = file.substring(file.lastIndexOf('.')).toLowerCase();
+            if (ext === '.ans') {
+                image = ANSILoader.load(path);
+            }
+            else if (ext === '.bin') {
+                if (!isIntegerInRange(spec.width, 1, 80)) {
+                    logError("ThemeLoader: " + label + ".width must be an integer from 1 to 80 for .bin art");
+                    return null;
+                }
+                image = ANSILoader.loadBin(path, spec.width);
+            }
+            else {
+                logError("ThemeLoader: " + fileLabel + " must be an .ans or .bin file");
+                return null;
+            }
+            if (!image) {
+                logError("ThemeLoader: " + fileLabel + ": unable to load " + path);
+                return null;
+            }
+            var variant = imageToSpriteVariant(image);
+            if (variant.length === 0) {
+                logError("ThemeLoader: " + fileLabel + ": art is empty");
+                return null;
+            }
+            if (variant.length > THEME_SPRITE_MAX_HEIGHT || variant[0].length > THEME_SPRITE_MAX_WIDTH) {
+                logWarning("ThemeLoader: " + fileLabel + ": larger than " + THEME_SPRITE_MAX_WIDTH + "x" +
+                    THEME_SPRITE_MAX_HEIGHT + ", clipped");
+                variant = variant.slice(variant.length - Math.min(variant.length, THEME_SPRITE_MAX_HEIGHT));
+                for (var r = 0; r < variant.length; r++) {
+                    variant[r] = variant[r].slice(0, THEME_SPRITE_MAX_WIDTH);
+                }
+            }
+            variants.push(variant);
+        }
+        return { name: name, variants: variants };
+    };
+    ThemeLoader.prototype.parseTheme = function (data, source) {
+        var errors = [];
+        if (typeof data.name !== 'string' || !/^[a-z0-9_]+$/.test(data.name)) {
+            errors.push("'name' must be a lowercase string of letters, digits and underscores");
+        }
+        else if (ThemeRegistry[data.name]) {
+            errors.push("'name' " + data.name + " is already a theme");
+        }
+        if (data.description !== undefined && typeof data.description !== 'string') {
+            errors.push("'description' must be a string");
+        }
+        var baseName = data.extends !== undefined ? data.extends : 'synthwave';
+        var base = typeof baseName === 'string' ? getTheme(baseName) : null;
+        if (!base) {
+            errors.push("'extends' must be one of: " + getThemeNames().join(', '));
+            base = SynthwaveTheme;
+        }
+        var theme = JSON.parse(JSON.stringify(base));
+        theme.name = data.name;
+        theme.description = data.description || base.description;
+        if (data.colors !== undefined) {
+            this.parseColors(data.colors, theme.colors, errors);
+        }
+        if (data.sky !== undefined && this.checkSection(data.sky, 'sky', errors)) {
+            this.checkEnum(data.sky.type, THEME_SKY_TYPES, 'sky.type', errors);
+            this.checkNumber(data.sky.gridDensity, 1, 100, 'sky.gridDensity', errors);
+            this.checkBooleans(data.sky, ['converging', 'horizontal'], 'sky', errors);
+            if (data.sky.gridChar !== undefined && (typeof data.sky.gridChar !== 'string' || data.sky.gridChar.length !== 1)) {
+                errors.push("'sky.gridChar' must be a single character");
+            }
+            mergeThemeSection(theme.sky, data.sky);
+        }
+        if (data.background !== undefined && this.checkSection(data.background, 'background', errors)) {
+            this.checkEnum(data.background.type, THEME_BACKGROUND_TYPES, 'background.type', errors);
+            if (data.background.config !== undefined) {
+                if (this.checkSection(data.background.config, 'background.config', errors)) {
+                    for (var key in data.background.config) {
+                        var value = data.background.config[key];
+                        if (data.background.config.hasOwnProperty(key) && typeof value !== 'number' && typeof value !== 'boolean') {
+                            errors.push("'background.config." + key + "' must be a number or true/false");
+                        }
+                    }
+                }
+                if (data.background.type !== undefined && data.background.type !== base.background.type) {
+                    theme.background.config = {};
+                }
+                mergeThemeSection(theme.background.config, data.background.config);
+            }
+            if (data.background.type !== undefined)
+                theme.background.type = data.background.type;
+        }
+        if (data.celestial !== undefined && this.checkSection(data.celestial, 'celestial', errors)) {
+            this.checkEnum(data.celestial.type, THEME_CELESTIAL_TYPES, 'celestial.type', errors);
+            this.checkNumber(data.celestial.size, 1, 5, 'celestial.size', errors);
+            this.checkNumber(data.celestial.positionX, 0, 1, 'celestial.positionX', errors);
+            this.checkNumber(data.celestial.positionY, 0, 1, 'celestial.positionY', errors);
+            mergeThemeSection(theme.celestial, data.celestial);
+        }
+        if (data.stars !== undefined && this.checkSection(data.stars, 'stars', errors)) {
+            this.checkBooleans(data.stars, ['enabled', 'twinkle'], 'stars', errors);
+            this.checkNumber(data.stars.density, 0, 1, 'stars.density', errors);
+            mergeThemeSection(theme.stars, data.stars);
+        }
+        if (data.ground !== undefined && this.checkSection(data.ground, 'ground', errors)) {
+            var ground = theme.ground || { type: 'solid', primary: theme.colors.shoulderPrimary, secondary: theme.colors.shoulderSecondary };
+            this.checkEnum(data.ground.type, THEME_GROUND_TYPES, 'ground.type', errors);
+            if (data.ground.type !== undefined)
+                ground.type = data.ground.type;
+            if (data.ground.primary !== undefined)
+                ground.primary = parseThemeColorPair(data.ground.primary, 'ground.primary', errors);
+            if (data.ground.secondary !== undefined)
+                ground.secondary = parseThemeColorPair(data.ground.secondary, 'ground.secondary', errors);
+            if (data.ground.pattern !== undefined && this.checkSection(data.ground.pattern, 'ground.pattern', errors)) {
+                ground.pattern = data.ground.pattern;
+            }
+            theme.ground = ground;
+        }
+        if (data.roadside !== undefined && this.checkSection(data.roadside, 'roadside', errors)) {
+            if (data.roadside.pool !== undefined) {
+                theme.roadside.pool = this.parsePool(data.roadside.pool, errors);
+            }
+            this.checkNumber(data.roadside.spacing, 1, 1000, 'roadside.spacing', errors);
+            this.checkNumber(data.roadside.density, 0.1, 10, 'roadside.density', errors);
+            if (data.roadside.spacing !== undefined)
+                theme.roadside.spacing = data.roadside.spacing;
+            if (data.roadside.density !== undefined)
+                theme.roadside.density = data.roadside.density;
+        }
+        if (data.road !== undefined && this.checkSection(data.road, 'road', errors)) {
+            this.checkBooleans(data.road, ['rainbow', 'hideEdgeMarkers'], 'road', errors);
+            theme.road = theme.road || {};
+            mergeThemeSection(theme.road, data.road);
+        }
+        if (data.hud !== undefined && this.checkSection(data.hud, 'hud', errors)) {
+            var hudLabels = ['speedLabel', 'positionPrefix', 'lapLabel', 'timeLabel'];
+            for (var h = 0; h < hudLabels.length; h++) {
+                var label = data.hud[hudLabels[h]];
+                if (label !== undefined && (typeof label !== 'string' || label.length > 10)) {
+                    errors.push("'hud." + hudLabels[h] + "' must be a string of up to 10 characters");
+                }
+            }
+            this.checkNumber(data.hud.speedMultiplier, 0.01, 100, 'hud.speedMultiplier', errors);
+            theme.hud = theme.hud || {};
+            mergeThemeSection(theme.hud, data.hud);
+        }
+        if (errors.length > 0) {
+            for (var e = 0; e < errors.length; e++) {
+                logError("ThemeLoader: " + source + ": " + errors[e]);
+            }
+            return null;
+        }
+        return theme;
+    };
+    ThemeLoader.prototype.parseColors = function (data, colors, errors) {
+        if (!this.checkSection(data, 'colors', errors))
+            return;
+        var palette = colors;
+        for (var key in data) {
+            if (!data.hasOwnProperty(key))
+                continue;
+            var label = 'colors.' + key;
+            if (key === 'itemBox') {
+                if (!this.checkSection(data.itemBox, label, errors))
+                    continue;
+                colors.itemBox = {
+                    border: parseThemeColorPair(data.itemBox.border, label + '.border', errors),
+                    fill: parseThemeColorPair(data.itemBox.fill, label + '.fill', errors),
+                    symbol: parseThemeColorPair(data.itemBox.symbol, label + '.symbol', errors)
+                };
+            }
+            else if (key === 'roadsideColors') {
+                if (!this.checkSection(data.roadsideColors, label, errors))
+                    continue;
+                colors.roadsideColors = colors.roadsideColors || {};
+                for (var sprite in data.roadsideColors) {
+                    if (!data.roadsideColors.hasOwnProperty(sprite))
+                        continue;
+                    var entry = data.roadsideColors[sprite];
+                    var entryLabel = label + '.' + sprite;
+                    if (!this.checkSection(entry, entryLabel, errors))
+                        continue;
+                    colors.roadsideColors[sprite] = {
+                        primary: parseThemeColorPair(entry.primary, entryLabel + '.primary', errors)
+                    };
+                    if (entry.secondary !== undefined)
+                        colors.roadsideColors[sprite].secondary = parseThemeColorPair(entry.secondary, entryLabel + '.secondary', errors);
+                    if (entry.tertiary !== undefined)
+                        colors.roadsideColors[sprite].tertiary = parseThemeColorPair(entry.tertiary, entryLabel + '.tertiary', errors);
+                }
+            }
+            else if (palette[key] !== undefined) {
+                palette[key] = parseThemeColorPair(data[key], label, errors);
+            }
+            else {
+                errors.push("'" + label + "' is not a theme color");
+            }
+        }
+    };
+    ThemeLoader.prototype.parsePool = function (data, errors) {
+        var pool = [];
+        if (!(data instanceof Array) || data.length === 0) {
+            errors.push("'roadside.pool' must be a non-empty array");
+            return pool;
+        }
+        for (var i = 0; i < data.length; i++) {
+            var entry = data[i];
+            var label = 'roadside.pool[' + i + ']';
+            if (!this.checkSection(entry, label, errors))
+                continue;
+            if (typeof entry.sprite !== 'string' || !ROADSIDE_SPRITES[entry.sprite]) {
+                errors.push("'" + label + ".sprite' must be a built-in sprite or one declared in 'sprites'");
+                continue;
+            }
+            if (!isNumberInRange(entry.weight, 0.01, 100)) {
+                errors.push("'" + label + ".weight' must be a number from 0.01 to 100");
+                continue;
+            }
+            if (entry.side !== undefined && entry.side !== 'left' && entry.side !== 'right' && entry.side !== 'both') {
+                errors.push("'" + label + ".side' must be left, right or both");
+                continue;
+            }
+            pool.push({ sprite: entry.sprite, weight: entry.weight, side: entry.side || 'both' });
+        }
+        return pool;
+    };
+    ThemeLoader.prototype.checkSection = function (value, label, errors) {
+        if (!value || typeof value !== 'object' || value instanceof Array) {
+            errors.push("'" + label + "' must be an object");
+            return false;
+        }
+        return true;
+    };
+    ThemeLoader.prototype.checkEnum = function (value, allowed, label, errors) {
+        if (value !== undefined && allowed.indexOf(value) === -1) {
+            errors.push("'" + label + "' must be one of: " + allowed.join(', '));
+        }
+    };
+    ThemeLoader.prototype.checkNumber = function (value, min, max, label, errors) {
+        if (value !== undefined && !isNumberInRange(value, min, max)) {
+            errors.push("'" + label + "' must be a number from " + min + " to " + max);
+        }
+    };
+    ThemeLoader.prototype.checkBooleans = function (section, keys, label, errors) {
+        for (var i = 0; i < keys.length; i++) {
+            var value = section[keys[i]];
+            if (value !== undefined && typeof value !== 'boolean') {
+                errors.push("'" + label + "." + keys[i] + "' must be true or false");
+            }
+        }
+    };
+    return ThemeLoader;
+}());
+function mergeThemeSection(target, source) {
+    for (var key in source) {
+        if (source.hasOwnProperty(key)) {
+            target[key] = source[key];
+        }
+    }
+}
+var FG_COLOR_NAMES = {
+    BLACK: BLACK, BLUE: BLUE, GREEN: GREEN, CYAN: CYAN, RED: RED, MAGENTA: MAGENTA,
+    BROWN: BROWN, LIGHTGRAY: LIGHTGRAY, DARKGRAY: DARKGRAY, LIGHTBLUE: LIGHTBLUE,
+    LIGHTGREEN: LIGHTGREEN, LIGHTCYAN: LIGHTCYAN, LIGHTRED: LIGHTRED,
+    LIGHTMAGENTA: LIGHTMAGENTA, YELLOW: YELLOW, WHITE: WHITE
+};
+function parseThemeColorPair(data, label, errors) {
+    if (!data || typeof data !== 'object') {
+        errors.push("'" + label + "' must be an object with fg and bg");
+        return { fg: LIGHTGRAY, bg: BG_BLACK };
+    }
+    var bgNames = {
+        BG_BLACK: BG_BLACK, BG_BLUE: BG_BLUE, BG_GREEN: BG_GREEN, BG_CYAN: BG_CYAN,
+        BG_RED: BG_RED, BG_MAGENTA: BG_MAGENTA, BG_BROWN: BG_BROWN, BG_LIGHTGRAY: BG_LIGHTGRAY
+    };
+    var fg = typeof data.fg === 'string' ? FG_COLOR_NAMES[data.fg.toUpperCase()] : data.fg;
+    var bg = typeof data.bg === 'string' ? bgNames[data.bg.toUpperCase()] : data.bg;
+    if (!isIntegerInRange(fg, 0, 15)) {
+        errors.push("'" + label + ".fg' must be a color name such as LIGHTCYAN");
+        fg = LIGHTGRAY;
+    }
+    if (!isIntegerInRange(bg, 0, 0x70) || (bg & 0x0F) !== 0) {
+        errors.push("'" + label + ".bg' must be a background name such as BG_BLACK");
+        bg = BG_BLACK;
+    }
+    return { fg: fg, bg: bg };
+}
+function imageToSpriteVariant(image) {
+    var isClear = function (cell) {
+        return (cell.char === ' ' || cell.char === '\0' || cell.char === '') && (cell.attr & 0x70) === 0;
+    };
+    var top = image.height, bottom = -1, left = image.width, right = -1;
+    for (var row = 0; row < image.height; row++) {
+        for (var col = 0; col < image.width; col++) {
+            if (isClear(image.cells[row][col]))
+                continue;
+            if (row < top)
+                top = row;
+            if (row > bottom)
+                bottom = row;
+            if (col < left)
+                left = col;
+            if (col > right)
+                right = col;
+        }
+    }
+    var variant = [];
+    for (var r = top; r <= bottom; r++) {
+        var cells = [];
+        for (var c = left; c <= right; c++) {
+            var cell = image.cells[r][c];
+            cells.push(isClear(cell) ? null : { char: cell.char, attr: cell.attr });
+        }
+        variant.push(cells);
+    }
+    return variant;
+}
+function trackThemeFromTheme(theme) {
+    var words = theme.name.split('_');
+    for (var i = 0; i < words.length; i++) {
+        words[i] = words[i].charAt(0).toUpperCase() + words[i].substring(1);
+    }
+    var sceneryTypes = [];
+    for (var p = 0; p < theme.roadside.pool.length; p++) {
+        sceneryTypes.push(theme.roadside.pool[p].sprite);
+    }
+    var colors = theme.colors;
+    return {
+        id: theme.name,
+        name: words.join(' '),
+        sky: { top: colors.skyTop, horizon: colors.skyHorizon, gridColor: colors.skyGrid },
+        sun: { color: colors.celestialCore, glowColor: colors.celestialGlow, position: theme.celestial.positionX },
+        road: { surface: colors.roadSurface, stripe: colors.roadStripe, edge: colors.roadEdge, grid: colors.roadGrid },
+        offroad: {
+            groundColor: theme.ground ? theme.ground.primary : colors.shoulderPrimary,
+            sceneryTypes: sceneryTypes,
+            sceneryDensity: Math.min(1, theme.roadside.density * 0.5)
+        },
+        background: { type: theme.background.type, color: colors.sceneryPrimary, highlightColor: colors.scenerySecondary }
+    };
+}
+var _customThemes = null;
+function getCustomThemes() {
+    if (_customThemes === null) {
+        _customThemes = new ThemeLoader().loadDefinitions(OUTRUN_CONFIG.themes.directory);
+        for (var i = 0; i < _customThemes.length; i++) {
+            var theme = _customThemes[i];
+            if (TRACK_THEMES[theme.name]) {
+                logWarning("ThemeLoader: theme '" + theme.name + "' shares a name with a track theme, preview colors not replaced");
+                continue;
+            }
+            TRACK_THEMES[theme.name] = trackThemeFromTheme(theme);
+        }
+    }
+    return _customThemes;
+}
+"use strict";
 var SynthKartScene3dRuntime = (function () {
     function SynthKartScene3dRuntime() {
         this.mod = null;
@@ -12281,12 +14492,18 @@ registerRoadsideSprite('tree', SpriteSheet.createTree);
 registerRoadsideSprite('rock', SpriteSheet.createRock);
 registerRoadsideSprite('bush', SpriteSheet.createBush);
 "use strict";
+var HILL_VIEW_SCALE = 100;
+var HILL_SCREEN_SCALE = 24;
+var ROAD_HORIZON_DISTANCE = 20;
 var FrameRenderer = (function () {
     function FrameRenderer(width, height) {
         this._currentBrakeLightsOn = false;
         this.width = width;
         this.height = height;
         this.horizonY = 8;
+        this.centerX = Math.floor(width / 2);
+        this.viewScale = (height - this.horizonY) / (MIN_SCREEN_HEIGHT - this.horizonY);
+        this.maxRoadDistance = ROAD_HORIZON_DISTANCE * this.viewScale;
         this._mountainScrollOffset = 0;
         this._staticElementsDirty = true;
         this._skyGridAnimPhase = 0;
@@ -12294,6 +14511,7 @@ var FrameRenderer = (function () {
         this._currentRoad = null;
         this._currentTrackPosition = 0;
         this._currentCameraX = 0;
+        this._hillRowMap = null;
         this._lightningBolts = [];
         this._ansiTunnelRenderer = null;
         this._ansiDebugLogged = false;
@@ -12481,6 +14699,7 @@ var FrameRenderer = (function () {
             logInfo('renderRoad check: bgType=' + bgType + ' hasRenderer=' + (this._ansiTunnelRenderer ? 'yes' : 'no') + ' theme=' + this.activeTheme.name);
         }
         if (this._ansiTunnelRenderer && bgType === 'ansi') {
+            this._hillRowMap = null;
             this._ansiTunnelRenderer.updateScroll(trackPosition, road.totalLength);
             var skyFrame = this.frameManager.getSkyGridFrame();
             var roadFrame = this.frameManager.getRoadFrame();
@@ -12493,7 +14712,7 @@ var FrameRenderer = (function () {
             if (roadFrame) {
                 roadFrame.clear();
             }
-            this._ansiTunnelRenderer.renderTunnel(skyFrame, roadFrame, this.horizonY, ansiRoadHeight, this.width, trackPosition, cameraX, road, road.totalLength);
+            this._ansiTunnelRenderer.renderTunnel(skyFrame, roadFrame, this.horizonY, ansiRoadHeight, this.width, trackPosition, cameraX, road, road.totalLength, this.maxRoadDistance);
             this.renderANSIRoadStripes(trackPosition, cameraX, road, ansiRoadHeight);
             var roadsideObjects = this.buildRoadsideObjects(trackPosition, cameraX, road);
             this.renderRoadsideSprites(roadsideObjects);
@@ -12532,7 +14751,7 @@ var FrameRenderer = (function () {
     FrameRenderer.prototype.buildRoadsideObjects = function (trackPosition, cameraX, road) {
         var objects = [];
         var roadHeight = this.height - this.horizonY;
-        var viewDistanceWorld = 100;
+        var viewDistanceWorld = this.maxRoadDistance * 5;
         var startZ = trackPosition;
         var endZ = trackPosition + viewDistanceWorld;
         var spacing = this.activeTheme.roadside.spacing;
@@ -12546,12 +14765,16 @@ var FrameRenderer = (function () {
             if (relativeZ <= 0)
                 continue;
             var distance = relativeZ / 5;
-            if (distance < 1 || distance > 20)
+            if (distance < 1 || distance > this.maxRoadDistance)
                 continue;
             var t = 1 - (1 / distance);
             var screenY = Math.round(this.horizonY + roadHeight * (1 - t));
             if (screenY <= this.horizonY || screenY >= this.height)
                 continue;
+            var hillRow = this.hillShiftRow(screenY - this.horizonY);
+            if (hillRow < 0)
+                continue;
+            screenY = hillRow + this.horizonY;
             var accumulatedCurve = 0;
             for (var z = trackPosition; z < worldZ; z += 5) {
                 var seg = road.getSegment(z);
@@ -12559,7 +14782,7 @@ var FrameRenderer = (function () {
                     accumulatedCurve += seg.curve * 0.5;
             }
             var curveOffset = accumulatedCurve * distance * 0.8;
-            var centerX = 40 + Math.round(curveOffset) - Math.round(cameraX * 0.5);
+            var centerX = this.centerX + Math.round(curveOffset) - Math.round(cameraX * 0.5);
             var roadHalfWidth = Math.round(20 / distance);
             var leftEdge = centerX - roadHalfWidth;
             var rightEdge = centerX + roadHalfWidth;
@@ -12573,13 +14796,13 @@ var FrameRenderer = (function () {
                 }
             }
             if (allowedSide === 'right' || (allowedSide === 'both' && preferredSide === 'right')) {
-                if (rightX < 80) {
+                if (rightX < this.width) {
                     objects.push({ x: rightX, y: screenY, distance: distance, type: spriteType });
                 }
             }
             if (this.activeTheme.roadside.density > 1.0 && (worldZInt % 2 === 0)) {
                 if (allowedSide === 'both' || allowedSide === 'right') {
-                    if (preferredSide === 'left' && rightX < 80) {
+                    if (preferredSide === 'left' && rightX < this.width) {
                         objects.push({ x: rightX, y: screenY, distance: distance, type: spriteType });
                     }
                 }
@@ -12639,9 +14862,9 @@ var FrameRenderer = (function () {
                 continue;
             var isBanana = projectile.speed === 0;
             var distZ = projectile.trackZ - playerVehicle.trackZ;
-            if (distZ < -5 || distZ > 600)
+            if (distZ < -5 || distZ > 600 * this.viewScale)
                 continue;
-            var maxViewDist = 500;
+            var maxViewDist = 500 * this.viewScale;
             var normalizedDist = Math.max(0.01, distZ / maxViewDist);
             var t = Math.max(0, Math.min(1, 1 - normalizedDist));
             var screenY = Math.round(visualHorizonY + t * roadHeight);
@@ -12655,7 +14878,7 @@ var FrameRenderer = (function () {
             }
             var perspectiveScale = t * t;
             var relativeX = projectile.playerX - playerVehicle.playerX;
-            var screenX = Math.round(40 + curveOffset + relativeX * perspectiveScale * 25 - this._currentCameraX * 0.5);
+            var screenX = Math.round(this.centerX + curveOffset + relativeX * perspectiveScale * 25 - this._currentCameraX * 0.5);
             var screenProgress = (screenY - visualHorizonY) / roadHeight;
             var scaleIndex;
             if (screenProgress < 0.08) {
@@ -12670,6 +14893,9 @@ var FrameRenderer = (function () {
             else {
                 scaleIndex = 3;
             }
+            screenY = this.hillShiftRow(screenY);
+            if (screenY < 0)
+                continue;
             var sprites;
             var attr;
             if (isBanana) {
@@ -12706,7 +14932,7 @@ var FrameRenderer = (function () {
                     if (ch === ' ')
                         continue;
                     var drawX = startX + lx;
-                    if (drawX < 0 || drawX >= 80)
+                    if (drawX < 0 || drawX >= this.width)
                         continue;
                     frame.setData(drawX, drawY, ch, attr);
                 }
@@ -12742,10 +14968,10 @@ var FrameRenderer = (function () {
             if (item.isBeingDestroyed() && item.pickedUpByPlayer)
                 continue;
             var relativeZ = item.z - playerVehicle.trackZ;
-            var relativeX = item.x - (playerVehicle.playerX * 20);
-            if (relativeZ < 5 || relativeZ > 300)
+            var relativeX = item.x - (playerVehicle.playerX * ROAD_TRACK_X_SCALE);
+            if (relativeZ < 5 || relativeZ > 300 * this.viewScale)
                 continue;
-            var maxViewDist = 300;
+            var maxViewDist = 300 * this.viewScale;
             var normalizedDist = Math.max(0.01, relativeZ / maxViewDist);
             var t = Math.max(0, Math.min(1, 1 - normalizedDist));
             var screenY = Math.round(visualHorizonY + t * (roadBottom - visualHorizonY));
@@ -12758,7 +14984,10 @@ var FrameRenderer = (function () {
                 }
             }
             var xScale = t * 1.5;
-            var screenX = Math.round(40 + curveOffset + relativeX * xScale - this._currentCameraX * 0.5);
+            var screenX = Math.round(this.centerX + curveOffset + relativeX * xScale - this._currentCameraX * 0.5);
+            screenY = this.hillShiftRow(screenY);
+            if (screenY < 0)
+                continue;
             if (screenY < visualHorizonY - 2 || screenY >= this.height)
                 continue;
             if (screenX < -3 || screenX >= this.width + 3)
@@ -12971,6 +15200,8 @@ var FrameRenderer = (function () {
             var v = vehicles[i];
             if (!v.isNPC)
                 continue;
+            if (v.isGhost && !v.active)
+                continue;
             var rawDiff = v.trackZ - playerVehicle.trackZ;
             var relativeZ = rawDiff;
             if (rawDiff > roadLength / 2) {
@@ -12980,7 +15211,7 @@ var FrameRenderer = (function () {
                 relativeZ = rawDiff + roadLength;
             }
             var relativeX = v.playerX - playerVehicle.playerX;
-            if (relativeZ > -10 && relativeZ < 600) {
+            if (relativeZ > -10 && relativeZ < 600 * this.viewScale) {
                 visibleNPCs.push({ vehicle: v, relativeZ: relativeZ, relativeX: relativeX });
             }
         }
@@ -12991,7 +15222,7 @@ var FrameRenderer = (function () {
     };
     FrameRenderer.prototype.renderNPCVehicle = function (vehicle, relativeZ, relativeX) {
         var sprite = getNPCSprite(vehicle.npcType, vehicle.npcColorIndex);
-        var maxViewDist = 500;
+        var maxViewDist = 500 * this.viewScale;
         var t;
         if (relativeZ >= 0) {
             var normalizedDist = Math.min(1, relativeZ / maxViewDist);
@@ -13012,7 +15243,7 @@ var FrameRenderer = (function () {
             }
         }
         var perspectiveScale = t * t;
-        var screenX = Math.round(40 + curveOffset + relativeX * perspectiveScale * 25 - this._currentCameraX * 0.5);
+        var screenX = Math.round(this.centerX + curveOffset + relativeX * perspectiveScale * 25 - this._currentCameraX * 0.5);
         var roadHeight = roadBottom - visualHorizonY;
         var screenProgress = (screenY - visualHorizonY) / roadHeight;
         var scaleIndex;
@@ -13032,6 +15263,9 @@ var FrameRenderer = (function () {
             scaleIndex = 4;
         }
         scaleIndex = Math.min(scaleIndex, sprite.variants.length - 1);
+        screenY = this.hillShiftRow(screenY);
+        if (screenY < 0)
+            return;
         var size = getSpriteSize(sprite, scaleIndex);
         screenX -= Math.floor(size.width / 2);
         var variant = sprite.variants[scaleIndex];
@@ -13060,6 +15294,7 @@ var FrameRenderer = (function () {
             isFlashing = true;
         }
         var visualHorizon = 5;
+        var ghostAttr = makeAttr(LIGHTCYAN, BG_BLACK);
         for (var row = 0; row < variant.length; row++) {
             for (var col = 0; col < variant[row].length; col++) {
                 var cell = variant[row][col];
@@ -13067,6 +15302,12 @@ var FrameRenderer = (function () {
                     var drawX = screenX + col;
                     var drawY = screenY + row;
                     if (drawX >= 0 && drawX < this.width && drawY >= visualHorizon && drawY < this.height - 1) {
+                        if (vehicle.isGhost) {
+                            if ((drawX + drawY) % 2 === 0) {
+                                frame.setData(drawX, drawY, cell.char, ghostAttr);
+                            }
+                            continue;
+                        }
                         var attr = isFlashing && (Math.floor(Date.now() / 100) % 2 === 0) ? flashAttr : cell.attr;
                         frame.setData(drawX, drawY, cell.char, attr);
                     }
@@ -13597,23 +15838,24 @@ var FrameRenderer = (function () {
             }
             frame.setData(7, y, GLYPH.RIGHT_HALF, glassFrameAttr);
         }
+        var rightPanelX = this.width - 8;
         for (var y = 0; y < this.horizonY; y++) {
-            frame.setData(72, y, GLYPH.LEFT_HALF, glassFrameAttr);
-            for (var x = 73; x < 77; x++) {
+            frame.setData(rightPanelX, y, GLYPH.LEFT_HALF, glassFrameAttr);
+            for (var x = rightPanelX + 1; x < rightPanelX + 5; x++) {
                 frame.setData(x, y, GLYPH.FULL_BLOCK, glassFrameAttr);
             }
-            frame.setData(77, y, GLYPH.LIGHT_SHADE, glassHighlightAttr);
-            frame.setData(78, y, GLYPH.FULL_BLOCK, glassFrameAttr);
-            frame.setData(79, y, GLYPH.FULL_BLOCK, glassDarkAttr);
+            frame.setData(rightPanelX + 5, y, GLYPH.LIGHT_SHADE, glassHighlightAttr);
+            frame.setData(rightPanelX + 6, y, GLYPH.FULL_BLOCK, glassFrameAttr);
+            frame.setData(rightPanelX + 7, y, GLYPH.FULL_BLOCK, glassDarkAttr);
         }
         for (var y = 0; y < this.horizonY; y++) {
-            for (var x = 8; x < 72; x++) {
+            for (var x = 8; x < rightPanelX; x++) {
                 var attr = (y < 4) ? waterAttr : waterDeepAttr;
                 frame.setData(x, y, ' ', attr);
             }
         }
         var bottomY = this.horizonY - 1;
-        for (var x = 8; x < 72; x++) {
+        for (var x = 8; x < rightPanelX; x++) {
             var sandChar = (x % 3 === 0) ? GLYPH.LOWER_HALF : GLYPH.LIGHT_SHADE;
             frame.setData(x, bottomY, sandChar, sandAttr);
         }
@@ -14469,12 +16711,12 @@ var FrameRenderer = (function () {
         var colors = this.activeTheme.colors;
         var gridAttr = makeAttr(colors.skyGrid.fg, colors.skyGrid.bg);
         var glowAttr = makeAttr(colors.skyGridGlow.fg, colors.skyGridGlow.bg);
-        var vanishX = 40;
+        var vanishX = this.centerX;
         for (var y = this.horizonY - 1; y >= 1; y--) {
             var distFromHorizon = this.horizonY - y;
             var spread = distFromHorizon * 6;
             if (this.activeTheme.sky.converging) {
-                for (var offset = 0; offset <= 40; offset += 8) {
+                for (var offset = 0; offset <= this.centerX; offset += 8) {
                     if (offset <= spread) {
                         if (offset === 0) {
                             frame.setData(vanishX, y, GLYPH.BOX_V, gridAttr);
@@ -14495,7 +16737,7 @@ var FrameRenderer = (function () {
                 if (scanlinePhase < 0)
                     scanlinePhase += 1;
                 if (scanlinePhase < 0.33) {
-                    var lineSpread = Math.min(spread, 39);
+                    var lineSpread = Math.min(spread, this.centerX - 1);
                     for (var x = vanishX - lineSpread; x <= vanishX + lineSpread; x++) {
                         if (x >= 0 && x < this.width) {
                             frame.setData(x, y, GLYPH.BOX_H, glowAttr);
@@ -15135,7 +17377,7 @@ var FrameRenderer = (function () {
         var accumulatedCurve = 0;
         for (var screenY = roadBottom; screenY >= 0; screenY--) {
             var t = (roadBottom - screenY) / Math.max(1, roadBottom);
-            var distance = 1 / (1 - t * 0.95);
+            var distance = this.scanlineDistance(t);
             var worldZ = trackPosition + distance * 5;
             var segment = road.getSegment(worldZ);
             if (segment) {
@@ -15144,7 +17386,7 @@ var FrameRenderer = (function () {
             var roadWidth = Math.round(40 / distance);
             var halfWidth = Math.floor(roadWidth / 2);
             var curveOffset = accumulatedCurve * distance * 0.8;
-            var centerX = 40 + Math.round(curveOffset) - Math.round(cameraX * 0.5);
+            var centerX = this.centerX + Math.round(curveOffset) - Math.round(cameraX * 0.5);
             var stripePhase = Math.floor((trackPosition + distance * 5) / 15) % 2;
             if (stripePhase === 0 && halfWidth > 2) {
                 frame.setData(centerX, screenY, '-', makeAttr(YELLOW, BG_BLACK));
@@ -15167,9 +17409,13 @@ var FrameRenderer = (function () {
         var roadBottom = this.height - this.horizonY - 1;
         var roadLength = road.totalLength;
         var accumulatedCurve = 0;
+        var camElevation = road.getElevation(trackPosition);
+        var camSlope = road.getSlope(trackPosition) / road.segmentLength;
+        var clipY = roadBottom + 1;
+        var rowMap = [];
         for (var screenY = roadBottom; screenY >= 0; screenY--) {
             var t = (roadBottom - screenY) / roadBottom;
-            var distance = 1 / (1 - t * 0.95);
+            var distance = this.scanlineDistance(t);
             var worldZ = trackPosition + distance * 5;
             var segment = road.getSegment(worldZ);
             if (segment) {
@@ -15178,7 +17424,7 @@ var FrameRenderer = (function () {
             var roadWidth = Math.round(40 / distance);
             var halfWidth = Math.floor(roadWidth / 2);
             var curveOffset = accumulatedCurve * distance * 0.8;
-            var centerX = 40 + Math.round(curveOffset) - Math.round(cameraX * 0.5);
+            var centerX = this.centerX + Math.round(curveOffset) - Math.round(cameraX * 0.5);
             var leftEdge = centerX - halfWidth;
             var rightEdge = centerX + halfWidth;
             var stripePhase = Math.floor((trackPosition + distance * 5) / 15) % 2;
@@ -15186,8 +17432,41 @@ var FrameRenderer = (function () {
             if (wrappedZ < 0)
                 wrappedZ += roadLength;
             var isFinishLine = (wrappedZ < 200) || (wrappedZ > roadLength - 200);
-            this.renderRoadScanline(frame, screenY, centerX, leftEdge, rightEdge, distance, stripePhase, isFinishLine, accumulatedCurve, worldZ);
+            var hillZ = trackPosition + distance * HILL_VIEW_SCALE;
+            var rise = road.getElevation(hillZ) - camElevation - camSlope * (hillZ - trackPosition);
+            var drawY = screenY - Math.round(rise * HILL_SCREEN_SCALE / distance);
+            if (drawY >= clipY) {
+                rowMap[screenY] = -1;
+                continue;
+            }
+            if (drawY < 0)
+                drawY = 0;
+            rowMap[screenY] = drawY;
+            for (var y = drawY; y < clipY; y++) {
+                this.renderRoadScanline(frame, y, centerX, leftEdge, rightEdge, distance, stripePhase, isFinishLine, accumulatedCurve, worldZ);
+            }
+            clipY = drawY;
+        }
+        for (var gy = 0; gy < clipY; gy++) {
+            this.renderRoadScanline(frame, gy, 0, this.width + 3, this.width + 3, 20, 0, false, accumulatedCurve, trackPosition);
+        }
+        var shifted = false;
+        for (var r = 0; r < rowMap.length; r++) {
+            if (rowMap[r] !== r) {
+                shifted = true;
+                break;
+            }
         }
+        this._hillRowMap = shifted ? rowMap : null;
+    };
+    FrameRenderer.prototype.scanlineDistance = function (t) {
+        return 1 / (1 - t * (1 - 1 / this.maxRoadDistance));
+    };
+    FrameRenderer.prototype.hillShiftRow = function (row) {
+        var map = this._hillRowMap;
+        if (!map || row < 0 || row >= map.length)
+            return row;
+        return map[row];
     };
     FrameRenderer.prototype.renderRoadScanline = function (frame, y, centerX, leftEdge, rightEdge, distance, stripePhase, isFinishLine, curve, worldZ) {
         var colors = this.activeTheme.colors;
@@ -15520,7 +17799,7 @@ var FrameRenderer = (function () {
                 }
             }
         }
-        var screenX = 40 + Math.round(playerX * 5) - 2;
+        var screenX = this.centerX + Math.round(playerX * 5) - 2;
         var screenY = this.height - 3;
         this.frameManager.positionVehicleFrame(0, screenX, screenY, true);
     };
@@ -15537,8 +17816,9 @@ var FrameRenderer = (function () {
         var positionPrefix = (hudConfig && hudConfig.positionPrefix) ? hudConfig.positionPrefix : '';
         var speedMultiplier = (hudConfig && hudConfig.speedMultiplier) ? hudConfig.speedMultiplier : 1;
         var speedSuffix = (hudConfig && hudConfig.speedLabel) ? ' ' + hudConfig.speedLabel : '';
-        this.writeStringToFrame(frame, 35, 0, timeLabel, labelAttr);
-        this.writeStringToFrame(frame, 35 + timeLabel.length + 1, 0, LapTimer.format(hudData.lapTime), valueAttr);
+        var timeX = this.centerX - 5;
+        this.writeStringToFrame(frame, timeX, 0, timeLabel, labelAttr);
+        this.writeStringToFrame(frame, timeX + timeLabel.length + 1, 0, LapTimer.format(hudData.lapTime), valueAttr);
         var bottomY = this.height - 1;
         var posStr = positionPrefix + hudData.position + PositionIndicator.getOrdinalSuffix(hudData.position);
         this.writeStringToFrame(frame, 0, bottomY - 1, posStr, valueAttr);
@@ -15550,19 +17830,52 @@ var FrameRenderer = (function () {
             speedDisplay = displaySpeed.toFixed(1) + speedSuffix;
         }
         var speedAttr = displaySpeed > maxDisplaySpeed ? colorToAttr({ fg: LIGHTRED, bg: BG_BLACK }) : valueAttr;
-        var speedX = 79 - speedDisplay.length;
+        var speedX = this.width - 1 - speedDisplay.length;
         this.writeStringToFrame(frame, speedX - 12, bottomY, speedDisplay, speedAttr);
-        this.renderSpeedometerBarCompact(frame, hudData.speed, hudData.speedMax, 67, bottomY, 11);
+        this.renderSpeedometerBarCompact(frame, hudData.speed, hudData.speedMax, this.width - 13, bottomY, 11);
         this.renderItemSlotWithIcon(frame, hudData.heldItem);
+        this.renderMinimap(frame, hudData);
         if (hudData.countdown > 0 && hudData.raceMode === RaceMode.GRAND_PRIX) {
             this.renderStoplight(frame, hudData.countdown);
         }
+        if (hudData.wrongWay && Math.floor(Date.now() / 300) % 2 === 0) {
+            var warning = ' ' + GLYPH.TRIANGLE_LEFT + GLYPH.TRIANGLE_LEFT + ' WRONG WAY ' + GLYPH.TRIANGLE_LEFT + GLYPH.TRIANGLE_LEFT + ' ';
+            var warnX = Math.floor((this.width - warning.length) / 2);
+            this.writeStringToFrame(frame, warnX, 2, warning, makeAttr(YELLOW, BG_RED));
+        }
+    };
+    FrameRenderer.prototype.renderMinimap = function (frame, hudData) {
+        var outline = hudData.minimapOutline;
+        if (outline.length === 0)
+            return;
+        var outlineAttr = makeAttr(DARKGRAY, BG_BLACK);
+        for (var i = 0; i < outline.length; i++) {
+            frame.setData(outline[i].x, outline[i].y, GLYPH.DOT, outlineAttr);
+        }
+        var flashOn = Math.floor(Date.now() / 400) % 2 === 0;
+        var player = null;
+        for (var j = 0; j < hudData.minimapVehicles.length; j++) {
+            var v = hudData.minimapVehicles[j];
+            if (v.isPlayer) {
+                player = v;
+                continue;
+            }
+            if (v.isLeader) {
+                frame.setData(v.x, v.y, GLYPH.CIRCLE, makeAttr(flashOn ? WHITE : v.color, BG_BLACK));
+            }
+            else {
+                frame.setData(v.x, v.y, GLYPH.BULLET, makeAttr(v.color, BG_BLACK));
+            }
+        }
+        if (player) {
+            frame.setData(player.x, player.y, GLYPH.INVERSE_BULLET, makeAttr(player.isLeader && flashOn ? WHITE : player.color, BG_BLACK));
+        }
     };
     FrameRenderer.prototype.renderItemSlotWithIcon = function (frame, heldItem) {
-        var slotLeft = 67;
-        var slotRight = 79;
-        var slotTop = 19;
-        var slotBottom = 21;
+        var slotLeft = this.width - 13;
+        var slotRight = this.width - 1;
+        var slotTop = this.height - 5;
+        var slotBottom = this.height - 3;
         var slotHeight = 3;
         var slotWidth = slotRight - slotLeft + 1;
         var separatorAttr = makeAttr(DARKGRAY, BG_BLACK);
@@ -15731,7 +18044,7 @@ var FrameRenderer = (function () {
     };
     FrameRenderer.prototype.renderStoplight = function (frame, countdown) {
         var countNum = Math.ceil(countdown);
-        var centerX = 40;
+        var centerX = this.centerX;
         var topY = 3;
         var frameAttr = colorToAttr({ fg: DARKGRAY, bg: BG_BLACK });
         var redOn = countNum >= 3;
@@ -15838,7 +18151,7 @@ var FrameRenderer = (function () {
         return str;
     };
     FrameRenderer.prototype.triggerLightningBolt = function (targetX, targetY) {
-        var x = targetX !== undefined ? targetX : 40;
+        var x = targetX !== undefined ? targetX : this.centerX;
         var y = targetY !== undefined ? targetY : this.height - 3;
         this._lightningBolts.push({
             x: x,
@@ -15847,7 +18160,7 @@ var FrameRenderer = (function () {
         });
     };
     FrameRenderer.prototype.triggerLightningStrike = function (hitCount) {
-        this.triggerLightningBolt(40, this.height - 3);
+        this.triggerLightningBolt(this.centerX, this.height - 3);
         var additionalBolts = Math.min(hitCount, 4);
         for (var i = 0; i < additionalBolts; i++) {
             var randomX = 10 + Math.floor(Math.random() * 60);
@@ -16028,12 +18341,38 @@ var Renderer = (function () {
     return Renderer;
 }());
 "use strict";
+var NullRenderer = (function () {
+    function NullRenderer() {
+        this.composer = null;
+    }
+    NullRenderer.prototype.init = function () { };
+    NullRenderer.prototype.beginFrame = function () { };
+    NullRenderer.prototype.renderSky = function (_trackPosition, _curvature, _playerSteer, _speed, _dt) { };
+    NullRenderer.prototype.renderRoad = function (_trackPosition, _cameraX, _track, _road) { };
+    NullRenderer.prototype.renderEntities = function (_playerVehicle, _vehicles, _items, _projectiles) { };
+    NullRenderer.prototype.renderHud = function (_hudData) { };
+    NullRenderer.prototype.endFrame = function () { };
+    NullRenderer.prototype.shutdown = function () { };
+    NullRenderer.prototype.getComposer = function () {
+        if (!this.composer) {
+            this.composer = new SceneComposer(80, 24);
+        }
+        return this.composer;
+    };
+    return NullRenderer;
+}());
+"use strict";
 var RaceMode;
 (function (RaceMode) {
     RaceMode["TIME_TRIAL"] = "time_trial";
     RaceMode["GRAND_PRIX"] = "grand_prix";
+    RaceMode["MULTIPLAYER"] = "multiplayer";
 })(RaceMode || (RaceMode = {}));
-function createInitialState(track, trackDef, road, playerVehicle, raceMode) {
+function generateRaceSeed() {
+    return (Date.now() >>> 0) & 0x7fffffff;
+}
+function createInitialState(track, trackDef, road, playerVehicle, raceMode, seed) {
+    var raceSeed = seed !== undefined ? seed : generateRaceSeed();
     return {
         track: track,
         trackDefinition: trackDef,
@@ -16051,7 +18390,9 @@ function createInitialState(track, trackDef, road, playerVehicle, raceMode) {
         lapTimes: [],
         raceResults: [],
         countdown: 3,
-        raceStarted: false
+        raceStarted: false,
+        seed: raceSeed,
+        rand: new Rand(raceSeed)
     };
 }
 "use strict";
@@ -16076,29 +18417,28 @@ var PhysicsSystem = (function () {
 }());
 var RaceSystem = (function () {
     function RaceSystem() {
-        this.lastTrackZ = {};
+        this.checkpoints = null;
     }
     RaceSystem.prototype.init = function (state) {
+        this.checkpoints = new CheckpointTracker(state.road, state.track.checkpoints);
         for (var i = 0; i < state.vehicles.length; i++) {
-            var vehicle = state.vehicles[i];
-            this.lastTrackZ[vehicle.id] = vehicle.trackZ || 0;
+            this.checkpoints.initVehicle(state.vehicles[i]);
         }
     };
     RaceSystem.prototype.update = function (state, _dt) {
         if (state.finished)
             return;
-        var roadLength = state.road.totalLength;
+        if (!this.checkpoints)
+            this.init(state);
+        var checkpoints = this.checkpoints;
         for (var i = 0; i < state.vehicles.length; i++) {
             var vehicle = state.vehicles[i];
             if (vehicle.isCrashed || !vehicle.active)
                 continue;
-            var lastZ = this.lastTrackZ[vehicle.id] || 0;
-            var currentZ = vehicle.trackZ || 0;
-            var crossedFinishLine = (lastZ > roadLength * 0.75 && currentZ < roadLength * 0.25);
-            if (crossedFinishLine) {
+            if (checkpoints.checkProgress(vehicle)) {
                 vehicle.lap++;
                 debugLog.info("LAP COMPLETE! Vehicle " + vehicle.id + " now on lap " + vehicle.lap + "/" + state.track.laps);
-                debugLog.info("  lastZ=" + lastZ.toFixed(1) + " currentZ=" + currentZ.toFixed(1) + " roadLength=" + roadLength);
+                debugLog.info("  trackZ=" + vehicle.trackZ.toFixed(1) + " roadLength=" + state.road.totalLength);
                 if (!vehicle.isNPC) {
                     var lapTime = state.time - state.lapStartTime;
                     state.lapTimes.push(lapTime);
@@ -16114,13 +18454,38 @@ var RaceSystem = (function () {
                     debugLog.info("RACE FINISHED! Final time: " + state.time.toFixed(2));
                 }
             }
-            this.lastTrackZ[vehicle.id] = currentZ;
         }
         PositionIndicator.calculatePositions(state.vehicles);
     };
     return RaceSystem;
 }());
 "use strict";
+var RACE_CLASSES = [
+    { id: '50cc', name: '50cc', speed: 0.7, aiSkill: 0.6, aiPace: 0.82, aiPaceRange: 0.10, itemRate: 0.5, mirror: false },
+    { id: '100cc', name: '100cc', speed: 0.85, aiSkill: 0.8, aiPace: 0.86, aiPaceRange: 0.10, itemRate: 0.75, mirror: false },
+    { id: '150cc', name: '150cc', speed: 1, aiSkill: 1, aiPace: 0.90, aiPaceRange: 0.10, itemRate: 1, mirror: false },
+    { id: 'mirror', name: 'MIRROR', speed: 1, aiSkill: 1, aiPace: 0.90, aiPaceRange: 0.10, itemRate: 1, mirror: true }
+];
+var DEFAULT_RACE_CLASS_ID = '150cc';
+function getRaceClass(id) {
+    var fallback = RACE_CLASSES[0];
+    for (var i = 0; i < RACE_CLASSES.length; i++) {
+        if (RACE_CLASSES[i].id === id) {
+            return RACE_CLASSES[i];
+        }
+        if (RACE_CLASSES[i].id === DEFAULT_RACE_CLASS_ID) {
+            fallback = RACE_CLASSES[i];
+        }
+    }
+    return fallback;
+}
+function getRaceClassScoreId(identifier, raceClass) {
+    return raceClass.id === DEFAULT_RACE_CLASS_ID ? identifier : identifier + '_' + raceClass.id;
+}
+function getRaceClassScoreName(name, raceClass) {
+    return name + ' (' + raceClass.name + ')';
+}
+"use strict";
 var CUP_POINTS = [15, 12, 10, 8, 6, 5, 4, 3, 2, 1];
 function getPointsForPosition(position) {
     if (position < 1 || position > CUP_POINTS.length)
@@ -16128,10 +18493,12 @@ function getPointsForPosition(position) {
     return CUP_POINTS[position - 1];
 }
 var CupManager = (function () {
-    function CupManager() {
+    function CupManager(userNumber) {
         this.state = null;
+        this.userNumber = userNumber;
+        this.directory = OUTRUN_CONFIG.players.directory;
     }
-    CupManager.prototype.startCup = function (cupDef, racerNames) {
+    CupManager.prototype.startCup = function (cupDef, racers, car, rivalId, raceClassId) {
         var standings = [];
         standings.push({
             id: 1,
@@ -16140,17 +18507,21 @@ var CupManager = (function () {
             points: 0,
             raceResults: []
         });
-        for (var i = 0; i < racerNames.length; i++) {
+        for (var i = 0; i < racers.length; i++) {
             standings.push({
                 id: i + 2,
-                name: racerNames[i],
+                name: racers[i].name,
                 isPlayer: false,
+                personaId: racers[i].id,
                 points: 0,
                 raceResults: []
             });
         }
         this.state = {
             definition: cupDef,
+            car: car,
+            rivalId: rivalId,
+            raceClassId: raceClassId,
             currentRaceIndex: 0,
             standings: standings,
             raceResults: [],
@@ -16158,6 +18529,35 @@ var CupManager = (function () {
             totalBestLaps: 0,
             isComplete: false
         };
+        this.save();
+    };
+    CupManager.prototype.resumeCup = function (state) {
+        this.state = state;
+    };
+    CupManager.prototype.loadSavedCup = function () {
+        if (this.userNumber <= 0)
+            return null;
+        var path = this.path();
+        if (!file_exists(path))
+            return null;
+        try {
+            var f = new File(path);
+            if (!f.open('r')) {
+                logWarning('CupManager: unable to open ' + path);
+                return null;
+            }
+            var content = f.read();
+            f.close();
+            var state = normalizeCupState(JSON.parse(content));
+            if (!state) {
+                logWarning('CupManager: ignoring invalid saved cup ' + path);
+            }
+            return state;
+        }
+        catch (e) {
+            logError('CupManager: failed to read ' + path + ': ' + e);
+            return null;
+        }
     };
     CupManager.prototype.getState = function () {
         return this.state;
@@ -16210,6 +18610,7 @@ var CupManager = (function () {
         if (this.state.currentRaceIndex >= this.state.definition.trackIds.length) {
             this.state.isComplete = true;
         }
+        this.save();
     };
     CupManager.prototype.getStandings = function () {
         if (!this.state)
@@ -16246,708 +18647,209 @@ var CupManager = (function () {
     };
     CupManager.prototype.clear = function () {
         this.state = null;
+        if (this.userNumber <= 0)
+            return;
+        var path = this.path();
+        if (file_exists(path) && !file_remove(path)) {
+            logWarning('CupManager: unable to remove ' + path);
+        }
     };
-    CupManager.CUPS = [
-        {
-            id: 'neon_cup',
-            name: 'Neon Cup',
-            trackIds: ['neon_coast', 'twilight_forest', 'sunset_beach'],
-            description: 'A tour through the neon-lit night'
-        },
-        {
-            id: 'nature_cup',
-            name: 'Nature Cup',
-            trackIds: ['twilight_forest', 'sunset_beach', 'cactus_canyon', 'tropical_jungle'],
-            description: 'Race through nature\'s finest'
-        },
-        {
-            id: 'spooky_cup',
-            name: 'Spooky Cup',
-            trackIds: ['haunted_hollow', 'dark_castle', 'ancient_ruins'],
-            description: 'Face your fears on the track'
-        },
-        {
-            id: 'fantasy_cup',
-            name: 'Fantasy Cup',
-            trackIds: ['candy_land', 'rainbow_road', 'dark_castle', 'kaiju_rampage'],
-            description: 'A journey through imagination'
-        },
-        {
-            id: 'grand_prix',
-            name: 'Grand Prix',
-            trackIds: ['neon_coast', 'sunset_beach', 'twilight_forest', 'haunted_hollow',
-                'cactus_canyon', 'tropical_jungle', 'rainbow_road', 'thunder_stadium'],
-            description: 'The ultimate challenge - 8 tracks!'
+    CupManager.prototype.path = function () {
+        return this.directory + '/u' + this.userNumber + '.cup.json';
+    };
+    CupManager.prototype.save = function () {
+        if (this.userNumber <= 0 || !this.state)
+            return false;
+        var path = this.path();
+        try {
+            if (!file_exists(this.directory)) {
+                mkdir(this.directory);
+            }
+            var f = new File(path);
+            if (!f.open('w')) {
+                logError('CupManager: unable to write ' + path);
+                return false;
+            }
+            f.write(JSON.stringify(this.state));
+            f.close();
+            return true;
         }
-    ];
+        catch (e) {
+            logError('CupManager: failed to write ' + path + ': ' + e);
+            return false;
+        }
+    };
     return CupManager;
 }());
-"use strict";
-var DEFAULT_CONFIG = {
-    screenWidth: 80,
-    screenHeight: 24,
-    tickRate: 60,
-    maxTicksPerFrame: 5
-};
-var Game = (function () {
-    function Game(config, highScoreManager) {
-        this.config = config || DEFAULT_CONFIG;
-        this.running = false;
-        this.paused = false;
-        this.clock = new Clock();
-        this.timestep = new FixedTimestep({
-            tickRate: this.config.tickRate,
-            maxTicksPerFrame: this.config.maxTicksPerFrame
-        });
-        this.inputMap = new InputMap();
-        this.controls = new Controls(this.inputMap);
-        this.renderer = new FrameRenderer(this.config.screenWidth, this.config.screenHeight);
-        this.trackLoader = new TrackLoader();
-        this.hud = new Hud();
-        this.physicsSystem = new PhysicsSystem();
-        this.raceSystem = new RaceSystem();
-        this.itemSystem = new ItemSystem();
-        this.highScoreManager = highScoreManager || null;
-        this.state = null;
+function normalizeCupState(data) {
+    if (!data || typeof data !== 'object')
+        return null;
+    var def = data.definition;
+    if (!def || typeof def.id !== 'string' || typeof def.name !== 'string' ||
+        !(def.trackIds instanceof Array) || def.trackIds.length === 0) {
+        return null;
     }
-    Game.prototype.initWithTrack = function (trackDef, raceMode, carSelection) {
-        logInfo("Game.initWithTrack(): " + trackDef.name + " mode: " + (raceMode || RaceMode.GRAND_PRIX));
-        var mode = raceMode || RaceMode.GRAND_PRIX;
-        this.renderer.init();
-        var themeMapping = {
-            'synthwave': 'synthwave',
-            'midnight_city': 'city_night',
-            'beach_paradise': 'sunset_beach',
-            'forest_night': 'twilight_forest',
-            'haunted_hollow': 'haunted_hollow',
-            'winter_wonderland': 'winter_wonderland',
-            'cactus_canyon': 'cactus_canyon',
-            'tropical_jungle': 'tropical_jungle',
-            'candy_land': 'candy_land',
-            'rainbow_road': 'rainbow_road',
-            'dark_castle': 'dark_castle',
-            'villains_lair': 'villains_lair',
-            'ancient_ruins': 'ancient_ruins',
-            'thunder_stadium': 'thunder_stadium',
-            'glitch_circuit': 'glitch_circuit',
-            'kaiju_rampage': 'kaiju_rampage',
-            'underwater_grotto': 'underwater_grotto',
-            'ansi_tunnel': 'ansi_tunnel'
-        };
-        var themeName = themeMapping[trackDef.themeId] || 'synthwave';
-        if (this.renderer.setTheme) {
-            this.renderer.setTheme(themeName);
+    for (var t = 0; t < def.trackIds.length; t++) {
+        if (typeof def.trackIds[t] !== 'string')
+            return null;
+    }
+    if (typeof data.currentRaceIndex !== 'number' || data.currentRaceIndex < 0 ||
+        data.currentRaceIndex > def.trackIds.length) {
+        return null;
+    }
+    if (!(data.standings instanceof Array) || data.standings.length === 0 ||
+        !(data.raceResults instanceof Array)) {
+        return null;
+    }
+    for (var i = 0; i < data.standings.length; i++) {
+        var s = data.standings[i];
+        if (!s || typeof s.id !== 'number' || typeof s.name !== 'string' ||
+            typeof s.points !== 'number' || !(s.raceResults instanceof Array)) {
+            return null;
         }
-        var road = buildRoadFromDefinition(trackDef);
-        var track = this.trackLoader.load("neon_coast_01");
-        track.laps = trackDef.laps;
-        track.name = trackDef.name;
-        var selectedCarId = carSelection ? carSelection.carId : 'sports';
-        var selectedColorId = carSelection ? carSelection.colorId : 'yellow';
-        applyCarStats(selectedCarId);
-        var playerVehicle = new Vehicle();
-        playerVehicle.driver = new HumanDriver(this.controls);
-        playerVehicle.isNPC = false;
-        playerVehicle.carId = selectedCarId;
-        playerVehicle.carColorId = selectedColorId;
-        var carColor = getCarColor(selectedColorId);
-        playerVehicle.color = carColor ? carColor.body : YELLOW;
-        this.state = createInitialState(track, trackDef, road, playerVehicle, mode);
-        if (mode === RaceMode.GRAND_PRIX) {
-            this.spawnRacers(7, road);
-            this.positionOnStartingGrid(road);
-            for (var i = 0; i < this.state.vehicles.length; i++) {
-                var v = this.state.vehicles[i];
-                var drv = v.driver;
-                if (drv && drv.setCanMove) {
-                    drv.setCanMove(false);
-                }
+    }
+    var car = data.car;
+    return {
+        definition: {
+            id: def.id,
+            name: def.name,
+            trackIds: def.trackIds,
+            description: def.description,
+            laps: typeof def.laps === 'number' && def.laps >= 1 ? Math.floor(def.laps) : undefined,
+            custom: def.custom === true ? true : undefined
+        },
+        car: car && typeof car.carId === 'string' && typeof car.colorId === 'string' ?
+            { carId: car.carId, colorId: car.colorId } : undefined,
+        rivalId: typeof data.rivalId === 'string' ? data.rivalId : undefined,
+        raceClassId: typeof data.raceClassId === 'string' ? data.raceClassId : undefined,
+        currentRaceIndex: data.currentRaceIndex,
+        standings: data.standings,
+        raceResults: data.raceResults,
+        totalTime: typeof data.totalTime === 'number' ? data.totalTime : 0,
+        totalBestLaps: typeof data.totalBestLaps === 'number' ? data.totalBestLaps : 0,
+        isComplete: data.currentRaceIndex >= def.trackIds.length
+    };
+}
+"use strict";
+var CUP_MIN_TRACKS = 2;
+var CUP_MAX_TRACKS = 8;
+var CupLoader = (function () {
+    function CupLoader() {
+    }
+    CupLoader.prototype.loadDefinitions = function (path) {
+        var defs = [];
+        if (!file_exists(path))
+            return defs;
+        var content;
+        try {
+            var f = new File(path);
+            if (!f.open('r')) {
+                logError("CupLoader: " + path + ": unable to open file");
+                return defs;
             }
+            content = f.read();
+            f.close();
         }
-        else {
-            var npcCount = trackDef.npcCount !== undefined ? trackDef.npcCount : 5;
-            this.spawnNPCs(npcCount, road);
-            playerVehicle.trackZ = 0;
-            playerVehicle.playerX = 0;
+        catch (e) {
+            logError("CupLoader: " + path + ": read failed - " + e);
+            return defs;
         }
-        this.physicsSystem.init(this.state);
-        this.raceSystem.init(this.state);
-        this.itemSystem.initFromTrack(track, road);
-        var renderer = this.renderer;
-        this.itemSystem.setCallbacks({
-            onLightningStrike: function (hitCount) {
-                if (renderer.triggerLightningStrike) {
-                    renderer.triggerLightningStrike(hitCount);
-                }
-            }
-        });
-        this.hud.init(this.state.time);
-        this.running = true;
-        this.state.racing = false;
-        debugLog.info("Game initialized with track: " + trackDef.name);
-        debugLog.info("  Race mode: " + mode);
-        debugLog.info("  Road segments: " + road.segments.length);
-        debugLog.info("  Road length: " + road.totalLength);
-        debugLog.info("  Laps: " + road.laps);
-        debugLog.info("  Total racers: " + this.state.vehicles.length);
-    };
-    Game.prototype.init = function () {
-        logInfo("Game.init()");
-        var defaultTrack = getTrackDefinition('test_oval');
-        if (defaultTrack) {
-            this.initWithTrack(defaultTrack, RaceMode.GRAND_PRIX);
+        var data;
+        try {
+            data = JSON.parse(content);
         }
-        else {
-            this.initWithTrack({
-                id: 'fallback',
-                name: 'Fallback Track',
-                description: 'Default fallback',
-                difficulty: 1,
-                laps: 2,
-                themeId: 'synthwave',
-                estimatedLapTime: 30,
-                sections: [
-                    { type: 'straight', length: 15 },
-                    { type: 'curve', length: 15, curve: 0.5 },
-                    { type: 'straight', length: 15 },
-                    { type: 'curve', length: 15, curve: 0.5 }
-                ]
-            });
+        catch (e) {
+            logError("CupLoader: " + path + ": invalid JSON - " + e);
+            return defs;
         }
-    };
-    Game.prototype.run = function () {
-        debugLog.info("Entering game loop");
-        this.clock.reset();
-        var frameCount = 0;
-        var lastLogTime = 0;
-        while (this.running) {
-            var deltaMs = this.clock.getDelta();
-            frameCount++;
-            this.processInput();
-            if (!this.paused && this.state) {
-                var ticks = this.timestep.update(deltaMs);
-                for (var i = 0; i < ticks; i++) {
-                    this.tick(this.timestep.getDt());
-                }
-                this.controls.endFrame();
-                if (this.state.time - lastLogTime >= 1.0) {
-                    debugLog.logVehicle(this.state.playerVehicle);
-                    lastLogTime = this.state.time;
-                }
-                if (this.state.finished && this.state.racing === false) {
-                    debugLog.info("Race complete! Final time: " + this.state.time.toFixed(2));
-                    this.showGameOverScreen();
-                    this.running = false;
-                }
-            }
-            this.render();
-            mswait(1);
+        if (!(data instanceof Array)) {
+            logError("CupLoader: " + path + ": top level must be an array of cups");
+            return defs;
         }
+        for (var i = 0; i < data.length; i++) {
+            var def = this.parseCupDefinition(data[i], path + ' [' + i + ']');
+            if (def)
+                defs.push(def);
+        }
+        logInfo("CupLoader: Loaded " + defs.length + " of " + data.length + " cups from " + path);
+        return defs;
     };
-    Game.prototype.processInput = function () {
-        var now = this.clock.now();
-        var key;
-        while ((key = console.inkey(K_NONE, 0)) !== '') {
-            this.controls.handleKey(key, now);
+    CupLoader.prototype.parseCupDefinition = function (data, source) {
+        var errors = [];
+        if (!data || typeof data !== 'object' || data instanceof Array) {
+            logError("CupLoader: " + source + ": cup must be an object");
+            return null;
         }
-        this.controls.update(now);
-        if (this.controls.wasJustPressed(GameAction.QUIT)) {
-            debugLog.info("QUIT action triggered - exiting game loop");
-            this.running = false;
-            this.controls.endFrame();
-            return;
+        if (typeof data.id !== 'string' || !/^[a-z0-9_]+$/.test(data.id)) {
+            errors.push("'id' must be a lowercase string of letters, digits and underscores");
         }
-        if (this.controls.wasJustPressed(GameAction.PAUSE)) {
-            this.togglePause();
-            this.controls.endFrame();
-            return;
+        else if (data.id.indexOf(CUSTOM_CUP_ID_PREFIX) === 0) {
+            errors.push("'id' must not start with '" + CUSTOM_CUP_ID_PREFIX + "' (kept for custom cups)");
         }
-    };
-    Game.prototype.tick = function (dt) {
-        if (!this.state)
-            return;
-        if (!this.state.raceStarted && this.state.raceMode === RaceMode.GRAND_PRIX) {
-            this.state.countdown -= dt;
-            if (this.state.countdown <= 0) {
-                this.state.raceStarted = true;
-                this.state.racing = true;
-                this.state.countdown = 0;
-                this.state.time = 0;
-                this.state.lapStartTime = 0;
-                this.hud.init(0);
-                for (var i = 0; i < this.state.vehicles.length; i++) {
-                    var vehicle = this.state.vehicles[i];
-                    var driver = vehicle.driver;
-                    if (driver && driver.setCanMove) {
-                        driver.setCanMove(true);
-                    }
-                }
-                debugLog.info("Race started! GO!");
-            }
-            return;
+        if (typeof data.name !== 'string' || data.name === '') {
+            errors.push("'name' must be a non-empty string");
         }
-        this.state.time += dt;
-        this.physicsSystem.update(this.state, dt);
-        this.raceSystem.update(this.state, dt);
-        if (this.state.raceMode !== RaceMode.GRAND_PRIX) {
-            this.activateDormantNPCs();
-            this.applyNPCPacing();
+        if (data.description !== undefined && typeof data.description !== 'string') {
+            errors.push("'description' must be a string");
         }
-        this.itemSystem.update(dt, this.state.vehicles, this.state.road.totalLength);
-        this.itemSystem.checkPickups(this.state.vehicles, this.state.road);
-        if (this.controls.consumeJustPressed(GameAction.USE_ITEM)) {
-            var fireBackward = this.controls.getLastAccelAction() < 0;
-            var currentSpeed = this.state.playerVehicle.speed;
-            var currentAccel = this.controls.getAcceleration();
-            this.itemSystem.useItem(this.state.playerVehicle, this.state.vehicles, fireBackward);
-            if (currentAccel >= 0 && this.state.playerVehicle.speed < currentSpeed) {
-                this.state.playerVehicle.speed = currentSpeed;
-            }
+        if (!(data.trackIds instanceof Array) || data.trackIds.length < CUP_MIN_TRACKS ||
+            data.trackIds.length > CUP_MAX_TRACKS) {
+            errors.push("'trackIds' must be a list of " + CUP_MIN_TRACKS + " to " + CUP_MAX_TRACKS + " track ids");
         }
-        for (var i = 0; i < this.state.vehicles.length; i++) {
-            var vehicle = this.state.vehicles[i];
-            if (vehicle === this.state.playerVehicle)
-                continue;
-            if (!vehicle.isRacer)
-                continue;
-            if (!vehicle.driver)
-                continue;
-            var intent = vehicle.driver.update(vehicle, this.state.track, dt);
-            if (intent.useItem && vehicle.heldItem !== null) {
-                this.itemSystem.useItem(vehicle, this.state.vehicles);
+        else {
+            for (var i = 0; i < data.trackIds.length; i++) {
+                if (typeof data.trackIds[i] !== 'string') {
+                    errors.push("'trackIds[" + i + "]' must be a string");
+                }
             }
         }
-        Collision.processVehicleCollisions(this.state.vehicles);
-        if (this.state.raceMode !== RaceMode.GRAND_PRIX) {
-            this.checkNPCRespawn();
+        if (data.laps !== undefined && !isIntegerInRange(data.laps, 1, 99)) {
+            errors.push("'laps' must be an integer from 1 to 99");
         }
-        this.state.cameraX = this.state.playerVehicle.x;
-    };
-    Game.prototype.showGameOverScreen = function () {
-        if (!this.state)
-            return;
-        debugLog.info("Showing game over screen, waiting for ENTER...");
-        var player = this.state.playerVehicle;
-        var finalPosition = player.racePosition;
-        var finalTime = this.state.time;
-        var bestLap = this.state.bestLapTime > 0 ? this.state.bestLapTime : 0;
-        var trackTimePosition = 0;
-        var lapTimePosition = 0;
-        if (this.highScoreManager && this.state.trackDefinition) {
-            var trackId = this.state.trackDefinition.id;
-            trackTimePosition = this.highScoreManager.checkQualification(HighScoreType.TRACK_TIME, trackId, finalTime);
-            if (bestLap > 0) {
-                lapTimePosition = this.highScoreManager.checkQualification(HighScoreType.LAP_TIME, trackId, bestLap);
-            }
-            var playerName = "Player";
-            try {
-                if (typeof user !== 'undefined' && user && user.alias) {
-                    playerName = user.alias;
-                }
-            }
-            catch (e) {
-            }
-            if (trackTimePosition > 0) {
-                this.highScoreManager.submitScore(HighScoreType.TRACK_TIME, trackId, playerName, finalTime, this.state.track.name);
-                logInfo("NEW HIGH SCORE! Track time #" + trackTimePosition + ": " + finalTime.toFixed(2));
+        var color = typeof data.color === 'string' ? FG_COLOR_NAMES[data.color.toUpperCase()] : undefined;
+        if (data.color !== undefined && color === undefined) {
+            errors.push("'color' must be a color name such as LIGHTCYAN");
+        }
+        if (data.icon !== undefined) {
+            var iconValid = data.icon instanceof Array && data.icon.length === 5;
+            for (var row = 0; iconValid && row < data.icon.length; row++) {
+                iconValid = typeof data.icon[row] === 'string' && data.icon[row].length <= 8;
             }
-            if (lapTimePosition > 0) {
-                this.highScoreManager.submitScore(HighScoreType.LAP_TIME, trackId, playerName, bestLap, this.state.track.name);
-                logInfo("NEW HIGH SCORE! Lap time #" + lapTimePosition + ": " + bestLap.toFixed(2));
+            if (!iconValid) {
+                errors.push("'icon' must be 5 strings of up to 8 characters");
             }
         }
-        this.renderResultsScreen(finalPosition, finalTime, bestLap);
-        while (true) {
-            var key = console.inkey(K_NONE, 100);
-            if (key === '\r' || key === '\n') {
-                debugLog.info("ENTER pressed, exiting game over screen");
-                break;
+        if (errors.length > 0) {
+            for (var e = 0; e < errors.length; e++) {
+                logError("CupLoader: " + source + ": " + errors[e]);
             }
+            return null;
         }
-        if (this.highScoreManager && this.state.trackDefinition && (trackTimePosition > 0 || lapTimePosition > 0)) {
-            var trackId = this.state.trackDefinition.id;
-            showTwoColumnHighScores(trackId, this.state.track.name, this.highScoreManager, trackTimePosition, lapTimePosition);
-        }
+        return {
+            id: data.id,
+            name: data.name,
+            trackIds: data.trackIds.slice(),
+            description: data.description || '',
+            laps: data.laps,
+            icon: data.icon ? data.icon.slice() : undefined,
+            color: color
+        };
     };
-    Game.prototype.renderResultsScreen = function (position, totalTime, bestLap) {
-        scene3d.selectRawDepth('glass');
-        console.clear(BG_BLACK, false);
-        var titleAttr = colorToAttr({ fg: YELLOW, bg: BG_BLACK });
-        var labelAttr = colorToAttr({ fg: WHITE, bg: BG_BLACK });
-        var valueAttr = colorToAttr({ fg: LIGHTGREEN, bg: BG_BLACK });
-        var boxAttr = colorToAttr({ fg: LIGHTCYAN, bg: BG_BLACK });
-        var promptAttr = colorToAttr({ fg: LIGHTMAGENTA, bg: BG_BLACK });
-        var viewWidth = 80;
-        var viewHeight = 24;
-        var boxWidth = 40;
-        var boxHeight = 12;
-        var boxX = Math.floor((viewWidth - boxWidth) / 2);
-        var topY = Math.floor((viewHeight - boxHeight) / 2);
-        scene3d.selectRawDepth('chrome');
-        console.gotoxy(boxX + 1, topY + 1);
-        console.attributes = boxAttr;
-        console.print(GLYPH.DBOX_TL);
-        for (var i = 1; i < boxWidth - 1; i++) {
-            console.print(GLYPH.DBOX_H);
-        }
-        console.print(GLYPH.DBOX_TR);
-        for (var j = 1; j < boxHeight - 1; j++) {
-            console.gotoxy(boxX + 1, topY + 1 + j);
-            console.print(GLYPH.DBOX_V);
-            for (var i = 1; i < boxWidth - 1; i++) {
-                console.print(' ');
-            }
-            console.print(GLYPH.DBOX_V);
-        }
-        console.gotoxy(boxX + 1, topY + boxHeight);
-        console.print(GLYPH.DBOX_BL);
-        for (var i = 1; i < boxWidth - 1; i++) {
-            console.print(GLYPH.DBOX_H);
-        }
-        console.print(GLYPH.DBOX_BR);
-        scene3d.selectRawDepth('title');
-        var title = "=== RACE COMPLETE ===";
-        console.gotoxy(boxX + 1 + Math.floor((boxWidth - title.length) / 2), topY + 3);
-        console.attributes = titleAttr;
-        console.print(title);
-        scene3d.selectRawDepth('content');
-        var posSuffix = PositionIndicator.getOrdinalSuffix(position);
-        console.gotoxy(boxX + 5, topY + 5);
-        console.attributes = labelAttr;
-        console.print("FINAL POSITION:");
-        console.gotoxy(boxX + 23, topY + 5);
-        console.attributes = valueAttr;
-        console.print(position + posSuffix);
-        console.gotoxy(boxX + 5, topY + 6);
-        console.attributes = labelAttr;
-        console.print("TOTAL TIME:");
-        console.gotoxy(boxX + 23, topY + 6);
-        console.attributes = valueAttr;
-        console.print(LapTimer.format(totalTime));
-        console.gotoxy(boxX + 5, topY + 7);
-        console.attributes = labelAttr;
-        console.print("BEST LAP:");
-        console.gotoxy(boxX + 23, topY + 7);
-        console.attributes = valueAttr;
-        console.print(bestLap > 0 ? LapTimer.format(bestLap) : "--:--.--");
-        console.gotoxy(boxX + 5, topY + 9);
-        console.attributes = labelAttr;
-        console.print("TRACK:");
-        console.gotoxy(boxX + 23, topY + 9);
-        console.attributes = valueAttr;
-        console.print(this.state.track.name);
-        scene3d.selectRawDepth('prompt');
-        var prompt = "Press ENTER to continue";
-        console.gotoxy(boxX + 1 + Math.floor((boxWidth - prompt.length) / 2), topY + 11);
-        console.attributes = promptAttr;
-        console.print(prompt);
-        scene3d.selectRawDepth('glass');
-    };
-    Game.prototype.activateDormantNPCs = function () {
-        if (!this.state)
-            return;
-        var playerZ = this.state.playerVehicle.trackZ;
-        var roadLength = this.state.road.totalLength;
-        for (var i = 0; i < this.state.vehicles.length; i++) {
-            var npc = this.state.vehicles[i];
-            if (!npc.isNPC || npc.isRacer)
-                continue;
-            var driver = npc.driver;
-            if (driver.isActive())
-                continue;
-            var dist = npc.trackZ - playerZ;
-            if (dist < 0)
-                dist += roadLength;
-            if (dist < driver.getActivationRange()) {
-                driver.activate();
-                debugLog.info("NPC activated at distance " + dist.toFixed(0));
-            }
-        }
-    };
-    Game.prototype.checkNPCRespawn = function () {
-        if (!this.state)
-            return;
-        var playerZ = this.state.playerVehicle.trackZ;
-        var roadLength = this.state.road.totalLength;
-        var respawnDistance = 100;
-        var npcs = [];
-        for (var i = 0; i < this.state.vehicles.length; i++) {
-            if (this.state.vehicles[i].isNPC && !this.state.vehicles[i].isRacer) {
-                npcs.push(this.state.vehicles[i]);
-            }
-        }
-        if (npcs.length === 0)
-            return;
-        var idealSpacing = roadLength / npcs.length;
-        var respawnCount = 0;
-        for (var j = 0; j < npcs.length; j++) {
-            var npc = npcs[j];
-            var distBehind = playerZ - npc.trackZ;
-            if (distBehind > respawnDistance) {
-                var slotOffset = idealSpacing * (respawnCount + 1);
-                var newZ = (playerZ + slotOffset) % roadLength;
-                npc.trackZ = newZ;
-                npc.z = newZ;
-                var driver = npc.driver;
-                driver.deactivate();
-                npc.speed = 0;
-                var laneChoice = Math.random();
-                if (laneChoice < 0.4) {
-                    npc.playerX = -0.35 + (Math.random() - 0.5) * 0.2;
-                }
-                else if (laneChoice < 0.8) {
-                    npc.playerX = 0.35 + (Math.random() - 0.5) * 0.2;
-                }
-                else {
-                    npc.playerX = (Math.random() - 0.5) * 0.3;
-                }
-                npc.isCrashed = false;
-                npc.crashTimer = 0;
-                npc.flashTimer = 0;
-                respawnCount++;
-            }
-        }
-    };
-    Game.prototype.applyNPCPacing = function () {
-        if (!this.state)
-            return;
-        var playerZ = this.state.playerVehicle.trackZ;
-        var roadLength = this.state.road.totalLength;
-        for (var i = 0; i < this.state.vehicles.length; i++) {
-            var npc = this.state.vehicles[i];
-            if (!npc.isNPC)
-                continue;
-            var driver = npc.driver;
-            if (!driver.isActive())
-                continue;
-            var distance = npc.trackZ - playerZ;
-            if (distance < 0)
-                distance += roadLength;
-            var commuterBaseSpeed = VEHICLE_PHYSICS.MAX_SPEED * driver.getSpeedFactor();
-            if (distance < 100) {
-                var slowFactor = 0.7 + (distance / 100) * 0.3;
-                npc.speed = commuterBaseSpeed * slowFactor;
-            }
-            else {
-                npc.speed = commuterBaseSpeed;
-            }
-        }
-    };
-    Game.prototype.render = function () {
-        if (!this.state)
-            return;
-        var trackZ = this.state.playerVehicle.z;
-        var vehicle = this.state.playerVehicle;
-        var road = this.state.road;
-        var curvature = road.getCurvature(trackZ);
-        var playerSteer = vehicle.playerX;
-        var speed = this.paused ? 0 : vehicle.speed;
-        var dt = 1.0 / this.config.tickRate;
-        var accel = this.controls.getAcceleration();
-        var brakeLightsOn = accel <= 0;
-        if (this.renderer.setBrakeLightState) {
-            this.renderer.setBrakeLightState(brakeLightsOn);
-        }
-        this.renderer.beginFrame();
-        this.renderer.renderSky(trackZ, curvature, playerSteer, speed, dt);
-        this.renderer.renderRoad(trackZ, this.state.cameraX, this.state.track, this.state.road);
-        this.renderer.renderEntities(this.state.playerVehicle, this.state.vehicles, this.itemSystem.getItemBoxes(), this.itemSystem.getProjectiles());
-        var hudData = this.hud.compute(this.state.playerVehicle, this.state.track, this.state.road, this.state.vehicles, this.state.time, this.state.countdown, this.state.raceMode);
-        this.renderer.renderHud(hudData);
-        if (this.paused) {
-            this.renderPauseOverlay();
-        }
-        this.renderer.endFrame();
-    };
-    Game.prototype.renderPauseOverlay = function () {
-        var pausedArt = [
-            ' ####   ###  #   # ### #### ####  ',
-            ' #   # #   # #   # #   #    #   # ',
-            ' ####  ##### #   # ### #### #   # ',
-            ' #     #   # #   #   # #    #   # ',
-            ' #     #   #  ###  ### #### ####  '
-        ];
-        var rainbowColors = [LIGHTRED, YELLOW, LIGHTGREEN, LIGHTCYAN, LIGHTBLUE, LIGHTMAGENTA];
-        var colorIndex = Math.floor((system.timer * 8)) % rainbowColors.length;
-        var textColor = rainbowColors[colorIndex];
-        var attr = makeAttr(textColor, BG_BLACK);
-        var textWidth = pausedArt[0].length;
-        var textHeight = pausedArt.length;
-        var startX = Math.floor((80 - textWidth) / 2);
-        var startY = Math.floor((24 - textHeight) / 2);
-        var hudFrame = this.renderer.getHudFrame ? this.renderer.getHudFrame() : null;
-        if (!hudFrame)
-            return;
-        var boxPadding = 2;
-        var boxAttr = makeAttr(DARKGRAY, BG_BLACK);
-        for (var by = startY - boxPadding; by < startY + textHeight + boxPadding; by++) {
-            for (var bx = startX - boxPadding; bx < startX + textWidth + boxPadding; bx++) {
-                if (bx >= 0 && bx < 80 && by >= 0 && by < 24) {
-                    hudFrame.setData(bx + 1, by + 1, GLYPH.MEDIUM_SHADE, boxAttr);
-                }
-            }
-        }
-        for (var row = 0; row < textHeight; row++) {
-            var line = pausedArt[row];
-            for (var col = 0; col < line.length; col++) {
-                var ch = line.charAt(col);
-                var x = startX + col;
-                var y = startY + row;
-                if (x >= 0 && x < 80 && y >= 0 && y < 24) {
-                    if (ch !== ' ') {
-                        hudFrame.setData(x + 1, y + 1, GLYPH.FULL_BLOCK, attr);
-                    }
-                }
-            }
-        }
-        var resumeText = 'Press P to resume';
-        var resumeX = Math.floor((80 - resumeText.length) / 2);
-        var resumeY = startY + textHeight + 2;
-        var resumeAttr = makeAttr(WHITE, BG_BLACK);
-        for (var i = 0; i < resumeText.length; i++) {
-            if (resumeX + i >= 0 && resumeX + i < 80 && resumeY >= 0 && resumeY < 24) {
-                hudFrame.setData(resumeX + i + 1, resumeY + 1, resumeText.charAt(i), resumeAttr);
-            }
-        }
-    };
-    Game.prototype.togglePause = function () {
-        this.paused = !this.paused;
-        if (!this.paused) {
-            this.clock.reset();
-            this.timestep.reset();
-        }
-        logInfo("Game " + (this.paused ? "paused" : "resumed"));
-    };
-    Game.prototype.spawnRacers = function (count, _road) {
-        if (!this.state)
-            return;
-        var racerColors = [
-            { body: LIGHTRED, highlight: WHITE },
-            { body: LIGHTBLUE, highlight: LIGHTCYAN },
-            { body: LIGHTGREEN, highlight: WHITE },
-            { body: LIGHTMAGENTA, highlight: WHITE },
-            { body: LIGHTCYAN, highlight: WHITE },
-            { body: WHITE, highlight: LIGHTGRAY },
-            { body: BROWN, highlight: YELLOW }
-        ];
-        var skillLevels = [0.82, 0.75, 0.58, 0.52, 0.42, 0.38, 0.35];
-        for (var i = 0; i < count && i < racerColors.length; i++) {
-            var racer = new Vehicle();
-            var skill = skillLevels[i] || 0.6;
-            racer.driver = new RacerDriver(skill);
-            racer.isNPC = true;
-            racer.isRacer = true;
-            var typeIndex = Math.floor(Math.random() * NPC_VEHICLE_TYPES.length);
-            racer.npcType = NPC_VEHICLE_TYPES[typeIndex];
-            var colorPalette = racerColors[i];
-            racer.color = colorPalette.body;
-            racer.npcColorIndex = i;
-            racer.trackZ = 0;
-            racer.z = 0;
-            racer.playerX = 0;
-            this.state.vehicles.push(racer);
-        }
-        debugLog.info("Spawned " + count + " CPU racers for Grand Prix");
-    };
-    Game.prototype.positionOnStartingGrid = function (_road) {
-        if (!this.state)
-            return;
-        var vehicles = this.state.vehicles;
-        var gridRowSpacing = 20;
-        var gridColSpacing = 0.5;
-        var playerIdx = -1;
-        for (var p = 0; p < vehicles.length; p++) {
-            if (!vehicles[p].isNPC) {
-                playerIdx = p;
-                break;
-            }
-        }
-        var numAICars = vehicles.length - 1;
-        var totalGridLength = Math.ceil(numAICars / 2) * gridRowSpacing;
-        var aiSlot = 0;
-        for (var v = 0; v < vehicles.length; v++) {
-            var vehicle = vehicles[v];
-            if (v === playerIdx) {
-                vehicle.trackZ = totalGridLength + gridRowSpacing;
-                vehicle.z = vehicle.trackZ;
-                vehicle.playerX = 0;
-            }
-            else {
-                var row = Math.floor(aiSlot / 2);
-                var col = aiSlot % 2;
-                vehicle.trackZ = totalGridLength - (row * gridRowSpacing);
-                vehicle.z = vehicle.trackZ;
-                vehicle.playerX = (col === 0) ? -gridColSpacing : gridColSpacing;
-                aiSlot++;
-            }
-            vehicle.speed = 0;
-            vehicle.lap = 1;
-            vehicle.checkpoint = 0;
-            vehicle.racePosition = 1;
-            debugLog.info("Grid slot " + v + " (NPC=" + vehicle.isNPC + "): trackZ=" + vehicle.trackZ.toFixed(0) + " X=" + vehicle.playerX.toFixed(2));
-        }
-        debugLog.info("Positioned " + vehicles.length + " vehicles on starting grid (player at front)");
-    };
-    Game.prototype.spawnNPCs = function (count, road) {
-        if (!this.state)
-            return;
-        var roadLength = road.totalLength;
-        var spacing = roadLength / count;
-        for (var i = 0; i < count; i++) {
-            var npc = new Vehicle();
-            npc.driver = new CommuterDriver();
-            npc.isNPC = true;
-            var typeIndex = Math.floor(Math.random() * NPC_VEHICLE_TYPES.length);
-            npc.npcType = NPC_VEHICLE_TYPES[typeIndex];
-            npc.npcColorIndex = Math.floor(Math.random() * NPC_VEHICLE_COLORS.length);
-            var colorPalette = NPC_VEHICLE_COLORS[npc.npcColorIndex];
-            npc.color = colorPalette.body;
-            var baseZ = spacing * i;
-            var jitter = spacing * 0.2 * (Math.random() - 0.5);
-            npc.trackZ = (baseZ + jitter + roadLength) % roadLength;
-            npc.z = npc.trackZ;
-            var laneOffset = (i % 2 === 0) ? -0.3 : 0.3;
-            npc.playerX = laneOffset + (Math.random() - 0.5) * 0.4;
-            this.state.vehicles.push(npc);
-        }
-        debugLog.info("Spawned " + count + " NPC commuters");
-    };
-    Game.prototype.isRunning = function () {
-        return this.running;
-    };
-    Game.prototype.getFinalRaceResults = function () {
-        if (!this.state || !this.state.finished)
-            return null;
-        var positions = [];
-        positions.push({
-            id: 1,
-            position: this.state.playerVehicle.racePosition
-        });
-        var aiId = 2;
-        for (var i = 0; i < this.state.vehicles.length; i++) {
-            var v = this.state.vehicles[i];
-            if (v !== this.state.playerVehicle && v.isRacer) {
-                positions.push({
-                    id: aiId++,
-                    position: v.racePosition
-                });
-            }
-        }
-        return {
-            positions: positions,
-            playerTime: this.state.time,
-            playerBestLap: this.state.bestLapTime > 0 ? this.state.bestLapTime : this.state.time / this.state.track.laps
-        };
-    };
-    Game.prototype.shutdown = function () {
-        logInfo("Game.shutdown()");
-        this.renderer.shutdown();
-        this.controls.clearAll();
-    };
-    return Game;
+    return CupLoader;
 }());
 "use strict";
-var CIRCUITS = [
+var CUSTOM_CUP_ID_PREFIX = 'custom_';
+var CUSTOM_CUP_CAREER_ID = 'custom_cup';
+var CUSTOM_CUP_MIN_LAPS = 1;
+var CUSTOM_CUP_MAX_LAPS = 9;
+var CUSTOM_CUP_ICON = [
+    '  _  _  ',
+    ' | || | ',
+    '  \\  /  ',
+    '   ||   ',
+    '  DIY   '
+];
+var CUP_CATALOG = [
     {
         id: 'retro_cup',
         name: 'RETRO CUP',
@@ -17005,844 +18907,3592 @@ var CIRCUITS = [
         description: 'Ultimate challenge'
     }
 ];
-var LEFT_PANEL_WIDTH = 22;
-var RIGHT_PANEL_START = 24;
-var SCREEN_WIDTH = 80;
-function showTrackSelector(highScoreManager) {
-    var state = {
-        mode: 'circuit',
-        circuitIndex: 0,
-        trackIndex: 0
-    };
-    scene3d.selectRawDepth('glass');
-    console.clear(LIGHTGRAY, false);
-    drawSelectorUI(state, highScoreManager);
-    while (true) {
-        var key = console.inkey(K_UPPER, 100);
-        if (key === '')
-            continue;
-        var needsRedraw = false;
-        if (state.mode === 'circuit') {
-            if (key === KEY_UP || key === 'W' || key === '8') {
-                state.circuitIndex = (state.circuitIndex - 1 + CIRCUITS.length) % CIRCUITS.length;
-                needsRedraw = true;
-            }
-            else if (key === KEY_DOWN || key === 'S' || key === '2') {
-                state.circuitIndex = (state.circuitIndex + 1) % CIRCUITS.length;
-                needsRedraw = true;
-            }
-            else if (key === '\r' || key === '\n' || key === ' ' || key === KEY_RIGHT || key === 'D' || key === '6') {
-                state.mode = 'tracks';
-                state.trackIndex = 0;
-                needsRedraw = true;
-            }
-            else if (key === 'H' && highScoreManager) {
-                var circuit = CIRCUITS[state.circuitIndex];
-                showHighScoreList(HighScoreType.CIRCUIT_TIME, circuit.id, '=== CIRCUIT HIGH SCORES ===', circuit.name, highScoreManager);
-                needsRedraw = true;
-            }
-            else if (key === 'Q' || key === KEY_ESC) {
-                return { selected: false, track: null };
-            }
-            else if (key === '?') {
-                var secretResult = showSecretTracksMenu();
-                if (secretResult.selected && secretResult.track) {
-                    return secretResult;
-                }
-                needsRedraw = true;
-            }
-        }
-        else {
-            if (key === KEY_UP || key === 'W' || key === '8') {
-                state.trackIndex--;
-                if (state.trackIndex < 0)
-                    state.trackIndex = 4;
-                needsRedraw = true;
-            }
-            else if (key === KEY_DOWN || key === 'S' || key === '2') {
-                state.trackIndex++;
-                if (state.trackIndex > 4)
-                    state.trackIndex = 0;
-                needsRedraw = true;
-            }
-            else if (key === '\r' || key === '\n' || key === ' ') {
-                var circuit = CIRCUITS[state.circuitIndex];
-                if (state.trackIndex === 4) {
-                    var circuitTracks = getCircuitTracks(circuit);
-                    return {
-                        selected: true,
-                        track: circuitTracks[0],
-                        isCircuitMode: true,
-                        circuitTracks: circuitTracks,
-                        circuitId: circuit.id,
-                        circuitName: circuit.name
-                    };
-                }
-                else {
-                    var trackDef = getTrackDefinition(circuit.trackIds[state.trackIndex]);
-                    if (trackDef) {
-                        return {
-                            selected: true,
-                            track: trackDef,
-                            isCircuitMode: false,
-                            circuitTracks: null
-                        };
-                    }
-                }
-            }
-            else if (key === KEY_LEFT || key === 'A' || key === '4' || key === KEY_ESC) {
-                state.mode = 'circuit';
-                needsRedraw = true;
-            }
-            else if (key === 'H' && highScoreManager) {
-                var circuit = CIRCUITS[state.circuitIndex];
-                if (state.trackIndex === 4) {
-                    showHighScoreList(HighScoreType.CIRCUIT_TIME, circuit.id, '=== CIRCUIT HIGH SCORES ===', circuit.name, highScoreManager);
-                }
-                else {
-                    var trackId = circuit.trackIds[state.trackIndex];
-                    var trackDef = getTrackDefinition(trackId);
-                    if (trackDef) {
-                        showTwoColumnHighScores(trackId, trackDef.name, highScoreManager, 0, 0);
-                    }
-                }
-                needsRedraw = true;
-            }
-            else if (key === 'Q') {
-                return { selected: false, track: null };
+var _allCups = null;
+function getAllCups() {
+    if (_allCups === null) {
+        _allCups = CUP_CATALOG.slice();
+        var loaded = new CupLoader().loadDefinitions(OUTRUN_CONFIG.cup.file);
+        for (var i = 0; i < loaded.length; i++) {
+            var cup = loaded[i];
+            if (getCupDefinition(cup.id)) {
+                logError("CupRegistry: cup '" + cup.id + "' is already defined, skipped");
+                continue;
             }
-            else if (key === '?') {
-                var secretResult = showSecretTracksMenu();
-                if (secretResult.selected && secretResult.track) {
-                    return secretResult;
-                }
-                needsRedraw = true;
+            var missing = cup.trackIds.filter(function (id) { return !getTrackDefinition(id); });
+            if (missing.length > 0) {
+                logError("CupRegistry: cup '" + cup.id + "' has unknown tracks " + missing.join(', ') + ", skipped");
+                continue;
             }
+            _allCups.push(cup);
         }
-        if (needsRedraw) {
-            scene3d.selectRawDepth('glass');
-            console.clear(LIGHTGRAY, false);
-            drawSelectorUI(state, highScoreManager);
+    }
+    return _allCups;
+}
+function getCupDefinition(id) {
+    var cups = getAllCups();
+    for (var i = 0; i < cups.length; i++) {
+        if (cups[i].id === id) {
+            return cups[i];
         }
     }
+    return null;
 }
-function getCircuitTracks(circuit) {
+function getCupTracks(cup) {
     var tracks = [];
-    for (var i = 0; i < circuit.trackIds.length; i++) {
-        var track = getTrackDefinition(circuit.trackIds[i]);
+    for (var i = 0; i < cup.trackIds.length; i++) {
+        var track = getTrackDefinition(cup.trackIds[i]);
         if (track)
-            tracks.push(track);
+            tracks.push(cup.laps ? getTrackWithLaps(track, cup.laps) : track);
     }
     return tracks;
 }
-function getSecretTracks() {
-    var secrets = [];
-    var allTracks = getAllTracks();
-    for (var i = 0; i < allTracks.length; i++) {
-        if (allTracks[i].hidden) {
-            secrets.push(allTracks[i]);
-        }
+function createCustomCup(trackIds, laps) {
+    var key = trackIds.join(',') + '/' + laps;
+    var hash = 0;
+    for (var i = 0; i < key.length; i++) {
+        hash = ((hash * 31) + key.charCodeAt(i)) & 0x7fffffff;
     }
-    return secrets;
+    return {
+        id: CUSTOM_CUP_ID_PREFIX + hash.toString(36),
+        name: 'CUSTOM CUP',
+        trackIds: trackIds.slice(),
+        description: trackIds.length + ' races, ' + laps + (laps === 1 ? ' lap' : ' laps') + ' each',
+        laps: laps,
+        icon: CUSTOM_CUP_ICON,
+        color: LIGHTRED,
+        custom: true
+    };
 }
-function showSecretTracksMenu() {
-    var secretTracks = getSecretTracks();
-    if (secretTracks.length === 0) {
-        scene3d.selectRawDepth('glass');
-        console.clear(LIGHTGRAY, false);
-        scene3d.selectRawDepth('title');
-        console.gotoxy(1, 10);
-        console.attributes = LIGHTMAGENTA;
-        console.print('       ' + GLYPH.DBOX_TL + repeatChar(GLYPH.DBOX_H, 44) + GLYPH.DBOX_TR + '\r\n');
-        console.print('       ' + GLYPH.DBOX_V + '         NO SECRETS FOUND... YET          ' + GLYPH.DBOX_V + '\r\n');
-        console.print('       ' + GLYPH.DBOX_V + '                                          ' + GLYPH.DBOX_V + '\r\n');
-        console.print('       ' + GLYPH.DBOX_V + '  Keep racing to unlock hidden tracks!    ' + GLYPH.DBOX_V + '\r\n');
-        console.print('       ' + GLYPH.DBOX_BL + repeatChar(GLYPH.DBOX_H, 44) + GLYPH.DBOX_BR + '\r\n');
-        console.print('\r\n');
-        console.attributes = DARKGRAY;
-        scene3d.selectRawDepth('prompt');
-        console.print('                 Press any key to return...\r\n');
-        scene3d.selectRawDepth('glass');
-        console.inkey(K_NONE, 5000);
-        return { selected: false, track: null };
-    }
-    var selectedIndex = 0;
-    while (true) {
-        scene3d.selectRawDepth('glass');
-        console.clear(LIGHTGRAY, false);
-        scene3d.selectRawDepth('title');
-        console.gotoxy(1, 1);
-        console.attributes = LIGHTRED;
-        console.print(repeatChar(GLYPH.DBOX_H, 79) + '\r\n');
-        console.attributes = YELLOW;
-        console.print('                     #### SECRET TRACKS ####\r\n');
-        console.attributes = LIGHTRED;
-        console.print(repeatChar(GLYPH.DBOX_H, 79) + '\r\n');
-        console.print('\r\n');
-        console.attributes = DARKGRAY;
-        console.print('  These tracks are hidden from the main menu. Shh, it\'s a secret!\r\n\r\n');
-        scene3d.selectRawDepth('content');
-        for (var i = 0; i < secretTracks.length; i++) {
-            var track = secretTracks[i];
-            console.gotoxy(5, 9 + i * 2);
-            if (i === selectedIndex) {
-                console.attributes = LIGHTCYAN;
-                console.print('>>  ');
-            }
-            else {
-                console.attributes = DARKGRAY;
-                console.print('    ');
-            }
-            console.attributes = i === selectedIndex ? WHITE : LIGHTGRAY;
-            console.print(track.name);
-            console.attributes = DARKGRAY;
-            console.print(' - ');
-            console.print(track.description);
-            console.gotoxy(65, 9 + i * 2);
-            console.attributes = YELLOW;
-            console.print(renderDifficultyStars(track.difficulty));
-        }
-        scene3d.selectRawDepth('prompt');
-        console.gotoxy(5, 20);
-        console.attributes = DARKGRAY;
-        console.print(repeatChar(GLYPH.BOX_H, 68) + '\r\n');
-        console.gotoxy(5, 21);
-        console.attributes = CYAN;
-        console.print('[');
-        console.attributes = WHITE;
-        console.print('W/S');
-        console.attributes = CYAN;
-        console.print('] Select   [');
-        console.attributes = WHITE;
-        console.print('ENTER');
-        console.attributes = CYAN;
-        console.print('] Race   [');
-        console.attributes = WHITE;
-        console.print('ESC/Q');
-        console.attributes = CYAN;
-        console.print('] Back');
-        scene3d.selectRawDepth('glass');
-        var key = console.inkey(K_UPPER, 100);
-        if (key === '')
-            continue;
-        if (key === KEY_UP || key === 'W' || key === '8') {
-            selectedIndex = (selectedIndex - 1 + secretTracks.length) % secretTracks.length;
-        }
-        else if (key === KEY_DOWN || key === 'S' || key === '2') {
-            selectedIndex = (selectedIndex + 1) % secretTracks.length;
-        }
-        else if (key === '\r' || key === '\n' || key === ' ') {
-            return {
-                selected: true,
-                track: secretTracks[selectedIndex],
-                isCircuitMode: false,
-                circuitTracks: null
-            };
-        }
-        else if (key === 'Q' || key === KEY_ESC) {
-            return { selected: false, track: null };
-        }
+function getCupScoreName(cup) {
+    if (!cup.custom)
+        return cup.name;
+    var names = [];
+    for (var i = 0; i < cup.trackIds.length; i++) {
+        var track = getTrackDefinition(cup.trackIds[i]);
+        names.push(track ? track.name : cup.trackIds[i]);
     }
+    return 'Custom: ' + names.join(', ') + ' x' + cup.laps;
 }
-function drawSelectorUI(state, highScoreManager) {
-    drawHeader();
-    drawLeftPanel(state);
-    drawRightPanel(state, highScoreManager);
-    drawControls(state);
+function getCareerCupId(cup) {
+    return cup.custom ? CUSTOM_CUP_CAREER_ID : cup.id;
 }
-function drawHeader() {
-    scene3d.selectRawDepth('chrome');
-    console.gotoxy(1, 1);
-    console.attributes = LIGHTMAGENTA;
-    console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH));
-    console.gotoxy(1, 2);
-    scene3d.selectRawDepth('title');
-    console.attributes = LIGHTCYAN;
-    var title = '  SELECT YOUR RACE  ';
-    var padding = Math.floor((SCREEN_WIDTH - title.length) / 2);
-    console.print(repeatChar(' ', padding) + title);
-    console.gotoxy(1, 3);
-    scene3d.selectRawDepth('chrome');
-    console.attributes = LIGHTMAGENTA;
-    console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH));
+"use strict";
+var DAILY_ITEM_SETS = [
+    { id: 'standard', name: 'Full Arsenal', items: [] },
+    { id: 'shells', name: 'Shell Shock', items: [ItemType.GREEN_SHELL, ItemType.RED_SHELL, ItemType.GREEN_SHELL_TRIPLE, ItemType.RED_SHELL_TRIPLE] },
+    { id: 'speed', name: 'Speed Freaks', items: [ItemType.MUSHROOM, ItemType.MUSHROOM_TRIPLE, ItemType.MUSHROOM_GOLDEN, ItemType.STAR] },
+    { id: 'bananas', name: 'Banana Split', items: [ItemType.BANANA, ItemType.BANANA_TRIPLE, ItemType.GREEN_SHELL] },
+    { id: 'chaos', name: 'Total Chaos', items: [ItemType.BLUE_SHELL, ItemType.LIGHTNING, ItemType.BULLET, ItemType.STAR, ItemType.RED_SHELL_TRIPLE] }
+];
+var DAILY_EXCLUDED_TRACKS = ['test_oval', 'quick_test'];
+var DAILY_MIN_LAPS = 2;
+var DAILY_MAX_LAPS = 4;
+function getDailyDateKey(date) {
+    var month = date.getUTCMonth() + 1;
+    var day = date.getUTCDate();
+    return date.getUTCFullYear() + '-' + (month < 10 ? '0' : '') + month + '-' + (day < 10 ? '0' : '') + day;
 }
-function drawLeftPanel(state) {
-    scene3d.selectRawDepth('content');
-    var y = 5;
-    for (var sy = 4; sy <= 22; sy++) {
-        console.gotoxy(LEFT_PANEL_WIDTH, sy);
-        console.attributes = DARKGRAY;
-        console.print(GLYPH.BOX_V);
+function getPreviousDailyDateKey(dateKey) {
+    var parts = dateKey.split('-');
+    return getDailyDateKey(new Date(Date.UTC(parseInt(parts[0], 10), parseInt(parts[1], 10) - 1, parseInt(parts[2], 10) - 1)));
+}
+function getDailyChallenge(date) {
+    var dateKey = getDailyDateKey(date || new Date());
+    var seed = 0;
+    for (var i = 0; i < dateKey.length; i++) {
+        seed = ((seed * 31) + dateKey.charCodeAt(i)) & 0x7fffffff;
     }
-    if (state.mode === 'circuit') {
-        drawCircuitSelector(state, y);
+    var rand = new Rand(seed);
+    var tracks = [];
+    for (var t = 0; t < TRACK_CATALOG.length; t++) {
+        var def = TRACK_CATALOG[t];
+        if (def.hidden || DAILY_EXCLUDED_TRACKS.indexOf(def.id) !== -1)
+            continue;
+        tracks.push(def);
     }
-    else {
-        drawTrackList(state, y);
+    var track = tracks[rand.nextInt(0, tracks.length - 1)];
+    var cars = getStarterCars();
+    var car = cars[rand.nextInt(0, cars.length - 1)];
+    var colors = car.availableColors.filter(function (id) {
+        return !car.lockedColors || car.lockedColors.indexOf(id) === -1;
+    });
+    var colorId = colors[rand.nextInt(0, colors.length - 1)];
+    return {
+        dateKey: dateKey,
+        seed: seed,
+        trackId: track.id,
+        carId: car.id,
+        colorId: colorId,
+        laps: rand.nextInt(DAILY_MIN_LAPS, DAILY_MAX_LAPS),
+        itemSet: DAILY_ITEM_SETS[rand.nextInt(0, DAILY_ITEM_SETS.length - 1)]
+    };
+}
+function getDailyTrackDefinition(challenge) {
+    var base = getBuiltInTrackDefinition(challenge.trackId);
+    return base ? getTrackWithLaps(base, challenge.laps) : null;
+}
+"use strict";
+var GHOST_FORMAT_VERSION = 1;
+var GhostRecorder = (function () {
+    function GhostRecorder(tickRate) {
+        this.samples = [];
+        this.lastDistance = 0;
+        this.tickRate = tickRate;
+    }
+    GhostRecorder.prototype.record = function (vehicle, roadLength) {
+        var distance = Math.round(((vehicle.lap - 1) * roadLength + vehicle.trackZ) * 10);
+        this.samples.push(distance - this.lastDistance, Math.round(vehicle.playerX * 100), Math.round(vehicle.speed));
+        this.lastDistance = distance;
+    };
+    GhostRecorder.prototype.getTickCount = function () {
+        return this.samples.length / 3;
+    };
+    GhostRecorder.prototype.finish = function (trackId, playerName, carId, time) {
+        return {
+            version: GHOST_FORMAT_VERSION,
+            trackId: trackId,
+            playerName: playerName,
+            carId: carId,
+            time: time,
+            tickRate: this.tickRate,
+            samples: this.samples
+        };
+    };
+    return GhostRecorder;
+}());
+var GhostPlayer = (function () {
+    function GhostPlayer(data) {
+        this.data = data;
+        this.tick = 0;
+        this.distance = 0;
+        var ghost = new Vehicle();
+        ghost.isNPC = true;
+        ghost.isGhost = true;
+        ghost.npcType = 'sportscar';
+        ghost.npcColorIndex = 0;
+        ghost.driver = null;
+        this.vehicle = ghost;
     }
+    GhostPlayer.prototype.getVehicle = function () {
+        return this.vehicle;
+    };
+    GhostPlayer.prototype.getData = function () {
+        return this.data;
+    };
+    GhostPlayer.prototype.step = function (roadLength) {
+        var samples = this.data.samples;
+        var i = this.tick * 3;
+        if (i + 2 >= samples.length) {
+            this.vehicle.active = false;
+            return;
+        }
+        this.distance += samples[i];
+        var z = this.distance / 10;
+        var v = this.vehicle;
+        v.lap = Math.floor(z / roadLength) + 1;
+        v.trackZ = z - (v.lap - 1) * roadLength;
+        v.z = v.trackZ;
+        v.playerX = samples[i + 1] / 100;
+        v.x = v.playerX * ROAD_TRACK_X_SCALE;
+        v.speed = samples[i + 2];
+        v.active = true;
+        this.tick++;
+    };
+    return GhostPlayer;
+}());
+function isValidGhostData(data, tickRate) {
+    return !!data &&
+        data.version === GHOST_FORMAT_VERSION &&
+        data.tickRate === tickRate &&
+        typeof data.time === 'number' && data.time > 0 &&
+        data.samples instanceof Array && data.samples.length % 3 === 0;
 }
-function drawCircuitSelector(state, startY) {
-    console.gotoxy(2, startY);
-    console.attributes = WHITE;
-    console.print('SELECT CIRCUIT');
-    for (var i = 0; i < CIRCUITS.length; i++) {
-        var circuit = CIRCUITS[i];
-        var isSelected = (i === state.circuitIndex);
-        var baseY = startY + 2 + (i * 4);
-        console.gotoxy(1, baseY + 1);
-        if (isSelected) {
-            console.attributes = circuit.color;
-            console.print(GLYPH.TRIANGLE_RIGHT);
+"use strict";
+var REPLAY_FORMAT_VERSION = 1;
+var REPLAY_COAST_INTENT = 13;
+var ReplayRecorder = (function () {
+    function ReplayRecorder(tickRate) {
+        this.inputs = [];
+        this.ticks = 0;
+        this.tickRate = tickRate;
+    }
+    ReplayRecorder.prototype.record = function (controls) {
+        var intent = controls.getTickIntent();
+        var last = this.inputs.length - 2;
+        if (last >= 0 && this.inputs[last] === intent) {
+            this.inputs[last + 1]++;
         }
         else {
-            console.print(' ');
+            this.inputs.push(intent, 1);
         }
-        console.gotoxy(3, baseY);
-        console.attributes = isSelected ? circuit.color : DARKGRAY;
-        var shortName = circuit.name.substring(0, 10);
-        console.print(shortName);
-        console.gotoxy(3, baseY + 1);
-        console.attributes = isSelected ? WHITE : DARKGRAY;
-        console.print(circuit.icon[2].substring(0, 8));
-        console.gotoxy(3, baseY + 2);
-        console.attributes = isSelected ? LIGHTGRAY : DARKGRAY;
-        console.print('4 tracks');
+        this.ticks++;
+    };
+    ReplayRecorder.prototype.getTickCount = function () {
+        return this.ticks;
+    };
+    ReplayRecorder.prototype.finish = function (setup, userNumber, playerName, time, position) {
+        var date = Date.now();
+        return {
+            version: REPLAY_FORMAT_VERSION,
+            id: 'u' + userNumber + '.' + date,
+            userNumber: userNumber,
+            playerName: playerName,
+            date: date,
+            trackId: setup.trackDef.id,
+            laps: setup.trackDef.laps,
+            raceMode: setup.raceMode,
+            raceClassId: setup.raceClassId,
+            seed: setup.seed,
+            carId: setup.carId,
+            colorId: setup.colorId,
+            rivalId: setup.rivalId,
+            itemPool: setup.itemPool,
+            time: time,
+            position: position,
+            tickRate: this.tickRate,
+            ticks: this.ticks,
+            inputs: this.inputs
+        };
+    };
+    return ReplayRecorder;
+}());
+var ReplayInput = (function () {
+    function ReplayInput(inputs) {
+        this.inputs = inputs;
+        this.index = 0;
+        this.left = inputs.length >= 2 ? inputs[1] : 0;
     }
-}
-function drawTrackList(state, startY) {
-    var circuit = CIRCUITS[state.circuitIndex];
-    console.gotoxy(2, startY);
-    console.attributes = DARKGRAY;
-    console.print(GLYPH.TRIANGLE_LEFT + ' ');
-    console.attributes = circuit.color;
-    console.print(circuit.name.substring(0, 14));
-    console.gotoxy(2, startY + 1);
-    console.attributes = DARKGRAY;
-    console.print(repeatChar(GLYPH.BOX_H, LEFT_PANEL_WIDTH - 4));
-    for (var i = 0; i < circuit.trackIds.length; i++) {
-        var track = getTrackDefinition(circuit.trackIds[i]);
-        if (!track)
-            continue;
-        var isSelected = (i === state.trackIndex);
-        var y = startY + 3 + (i * 3);
-        console.gotoxy(1, y);
-        if (isSelected) {
-            console.attributes = circuit.color;
-            console.print(GLYPH.TRIANGLE_RIGHT);
+    ReplayInput.prototype.apply = function (controls) {
+        while (this.left <= 0 && this.index + 2 < this.inputs.length) {
+            this.index += 2;
+            this.left = this.inputs[this.index + 1];
         }
-        else {
-            console.print(' ');
+        if (this.left <= 0) {
+            controls.setTickIntent(REPLAY_COAST_INTENT);
+            return;
         }
-        console.gotoxy(3, y);
-        console.attributes = isSelected ? WHITE : LIGHTGRAY;
-        console.print((i + 1) + '.');
-        console.gotoxy(6, y);
-        console.attributes = isSelected ? circuit.color : CYAN;
-        var name = track.name.substring(0, 13);
-        console.print(name);
-        console.gotoxy(3, y + 1);
-        console.attributes = isSelected ? YELLOW : BROWN;
-        console.print(renderDifficultyStars(track.difficulty));
-    }
-    var playY = startY + 3 + (4 * 3);
-    var isPlaySelected = (state.trackIndex === 4);
-    console.gotoxy(1, playY);
-    if (isPlaySelected) {
-        console.attributes = LIGHTGREEN;
-        console.print(GLYPH.TRIANGLE_RIGHT);
-    }
-    else {
-        console.print(' ');
-    }
-    console.gotoxy(3, playY);
-    console.attributes = isPlaySelected ? LIGHTGREEN : GREEN;
-    console.print(GLYPH.TRIANGLE_RIGHT + ' PLAY CUP');
+        controls.setTickIntent(this.inputs[this.index]);
+        this.left--;
+    };
+    return ReplayInput;
+}());
+function getReplayTrackDefinition(replay) {
+    var track = getTrackDefinition(replay.trackId) || getBuiltInTrackDefinition(replay.trackId);
+    if (!track)
+        return null;
+    return track.laps !== replay.laps ? getTrackWithLaps(track, replay.laps) : track;
 }
-function drawRightPanel(state, highScoreManager) {
-    scene3d.selectRawDepth('content');
-    var circuit = CIRCUITS[state.circuitIndex];
-    console.gotoxy(RIGHT_PANEL_START, 5);
-    console.attributes = WHITE;
-    if (state.mode === 'circuit' || (state.mode === 'tracks' && state.trackIndex === 4)) {
-        console.print('CIRCUIT INFO');
-        console.gotoxy(RIGHT_PANEL_START, 6);
-        console.attributes = DARKGRAY;
-        console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH - RIGHT_PANEL_START - 1));
-        drawCircuitInfo(circuit, highScoreManager);
-    }
-    else {
-        var track = getTrackDefinition(circuit.trackIds[state.trackIndex]);
-        if (track) {
-            console.print('TRACK INFO');
-            console.gotoxy(RIGHT_PANEL_START, 6);
-            console.attributes = DARKGRAY;
-            console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH - RIGHT_PANEL_START - 1));
-            drawTrackInfo(track, circuit.color, highScoreManager);
-            drawTrackRoute(track);
-        }
+function isValidReplayData(data) {
+    if (!data || data.version !== REPLAY_FORMAT_VERSION || !isIntegerInRange(data.tickRate, MIN_TICK_RATE, MAX_TICK_RATE))
+        return false;
+    if (typeof data.id !== 'string' || typeof data.trackId !== 'string' || typeof data.playerName !== 'string')
+        return false;
+    if (!isIntegerInRange(data.laps, 1, 99) || !isIntegerInRange(data.ticks, 1, Number.MAX_VALUE))
+        return false;
+    if (typeof data.seed !== 'number' || typeof data.time !== 'number' || typeof data.date !== 'number')
+        return false;
+    if (!(data.inputs instanceof Array) || data.inputs.length % 2 !== 0)
+        return false;
+    for (var i = 0; i < data.inputs.length; i += 2) {
+        if (!isIntegerInRange(data.inputs[i], 0, 35) || !isIntegerInRange(data.inputs[i + 1], 1, Number.MAX_VALUE))
+            return false;
     }
+    return true;
 }
-function drawCircuitInfo(circuit, _highScoreManager) {
-    var y = 8;
-    console.gotoxy(RIGHT_PANEL_START, y);
-    console.attributes = circuit.color;
-    console.print(circuit.name);
-    for (var iconLine = 0; iconLine < circuit.icon.length; iconLine++) {
-        console.gotoxy(RIGHT_PANEL_START + 20, y - 1 + iconLine);
-        console.attributes = circuit.color;
-        console.print(circuit.icon[iconLine]);
-    }
-    console.gotoxy(RIGHT_PANEL_START, y + 1);
-    console.attributes = LIGHTGRAY;
-    console.print(circuit.description);
-    console.gotoxy(RIGHT_PANEL_START, y + 3);
-    console.attributes = WHITE;
-    console.print('Tracks in this circuit:');
-    var totalLaps = 0;
-    var totalTime = 0;
-    for (var i = 0; i < circuit.trackIds.length; i++) {
-        var track = getTrackDefinition(circuit.trackIds[i]);
-        if (!track)
-            continue;
-        console.gotoxy(RIGHT_PANEL_START + 2, y + 5 + i);
-        console.attributes = CYAN;
-        console.print((i + 1) + '. ' + padRight(track.name, 22));
-        console.attributes = YELLOW;
-        console.print(renderDifficultyStars(track.difficulty));
-        totalLaps += track.laps;
-        totalTime += track.estimatedLapTime * track.laps;
+"use strict";
+var CAREER_UNITS_PER_MILE = 3600;
+var PlayerProfile = (function () {
+    function PlayerProfile(userNumber) {
+        this.userNumber = userNumber;
+        this.directory = OUTRUN_CONFIG.players.directory;
+        this.stats = this.read();
     }
-    console.gotoxy(RIGHT_PANEL_START, y + 11);
-    console.attributes = DARKGRAY;
-    console.print(repeatChar(GLYPH.BOX_H, 40));
-    console.gotoxy(RIGHT_PANEL_START, y + 12);
-    console.attributes = LIGHTGRAY;
-    console.print('Total Races: ');
-    console.attributes = WHITE;
-    console.print(circuit.trackIds.length.toString());
-    console.gotoxy(RIGHT_PANEL_START + 20, y + 12);
-    console.attributes = LIGHTGRAY;
-    console.print('Total Laps: ');
-    console.attributes = WHITE;
-    console.print(totalLaps.toString());
-    console.gotoxy(RIGHT_PANEL_START, y + 13);
-    console.attributes = LIGHTGRAY;
-    console.print('Est. Time: ');
-    console.attributes = WHITE;
-    console.print(formatTime(totalTime));
-}
-function drawTrackInfo(track, _accentColor, highScoreManager) {
-    var theme = getTrackTheme(track);
-    console.gotoxy(RIGHT_PANEL_START, 8);
-    console.attributes = theme.road.edge.fg;
-    console.print(track.name);
-    console.attributes = YELLOW;
-    console.print('  ' + renderDifficultyStars(track.difficulty));
-    console.gotoxy(RIGHT_PANEL_START, 9);
-    console.attributes = DARKGRAY;
-    console.print(track.laps + ' laps');
-    if (highScoreManager) {
-        var trackTimeScore = highScoreManager.getTopScore(HighScoreType.TRACK_TIME, track.id);
-        var lapTimeScore = highScoreManager.getTopScore(HighScoreType.LAP_TIME, track.id);
-        if (trackTimeScore || lapTimeScore) {
-            console.gotoxy(RIGHT_PANEL_START, 10);
-            console.attributes = DARKGRAY;
-            console.print('High Scores:');
-            if (trackTimeScore) {
-                console.gotoxy(RIGHT_PANEL_START + 2, 11);
-                console.attributes = LIGHTGRAY;
-                console.print('Track: ');
-                console.attributes = LIGHTGREEN;
-                console.print(LapTimer.format(trackTimeScore.time) + ' ');
-                console.attributes = DARKGRAY;
-                console.print('(' + trackTimeScore.playerName + ')');
+    PlayerProfile.prototype.getStats = function () {
+        return this.stats;
+    };
+    PlayerProfile.prototype.recordRace = function (result) {
+        var stats = this.stats;
+        stats.racesStarted++;
+        stats.carRaces[result.carId] = (stats.carRaces[result.carId] || 0) + 1;
+        stats.trackRaces[result.trackId] = (stats.trackRaces[result.trackId] || 0) + 1;
+        stats.totalDistance += result.distance;
+        for (var item in result.itemUses) {
+            if (result.itemUses.hasOwnProperty(item)) {
+                stats.itemUses[item] = (stats.itemUses[item] || 0) + result.itemUses[item];
+            }
+        }
+        if (result.finished) {
+            stats.racesFinished++;
+            if (result.position === 1)
+                stats.wins++;
+            if (result.position >= 1 && result.position <= 3)
+                stats.podiums++;
+        }
+        this.save();
+    };
+    PlayerProfile.prototype.recordCup = function (cupId, position) {
+        if (position < 1 || position > 3)
+            return;
+        var trophies = this.stats.cupTrophies[cupId];
+        if (!trophies) {
+            trophies = { gold: 0, silver: 0, bronze: 0 };
+            this.stats.cupTrophies[cupId] = trophies;
+        }
+        if (position === 1)
+            trophies.gold++;
+        else if (position === 2)
+            trophies.silver++;
+        else
+            trophies.bronze++;
+        this.save();
+    };
+    PlayerProfile.prototype.getFavoriteCar = function () {
+        return mostCounted(this.stats.carRaces);
+    };
+    PlayerProfile.prototype.getFavoriteTrack = function () {
+        return mostCounted(this.stats.trackRaces);
+    };
+    PlayerProfile.prototype.path = function () {
+        return this.directory + '/u' + this.userNumber + '.profile.json';
+    };
+    PlayerProfile.prototype.read = function () {
+        if (this.userNumber <= 0)
+            return normalizeCareerStats(null);
+        var path = this.path();
+        if (!file_exists(path))
+            return normalizeCareerStats(null);
+        try {
+            var f = new File(path);
+            if (!f.open('r')) {
+                logWarning('PlayerProfile: unable to open ' + path);
+                return normalizeCareerStats(null);
             }
-            if (lapTimeScore) {
-                console.gotoxy(RIGHT_PANEL_START + 2, 12);
-                console.attributes = LIGHTGRAY;
-                console.print('Lap:   ');
-                console.attributes = LIGHTGREEN;
-                console.print(LapTimer.format(lapTimeScore.time) + ' ');
-                console.attributes = DARKGRAY;
-                console.print('(' + lapTimeScore.playerName + ')');
+            var content = f.read();
+            f.close();
+            return normalizeCareerStats(JSON.parse(content));
+        }
+        catch (e) {
+            logError('PlayerProfile: failed to read ' + path + ': ' + e);
+            return normalizeCareerStats(null);
+        }
+    };
+    PlayerProfile.prototype.save = function () {
+        if (this.userNumber <= 0)
+            return false;
+        var path = this.path();
+        try {
+            if (!file_exists(this.directory)) {
+                mkdir(this.directory);
+            }
+            var f = new File(path);
+            if (!f.open('w')) {
+                logError('PlayerProfile: unable to write ' + path);
+                return false;
             }
+            f.write(JSON.stringify(this.stats));
+            f.close();
+            return true;
+        }
+        catch (e) {
+            logError('PlayerProfile: failed to write ' + path + ': ' + e);
+            return false;
+        }
+    };
+    return PlayerProfile;
+}());
+function normalizeCareerStats(data) {
+    var src = data && typeof data === 'object' ? data : {};
+    var count = function (value) {
+        return typeof value === 'number' && value >= 0 ? value : 0;
+    };
+    var countMap = function (value) {
+        var map = {};
+        if (value && typeof value === 'object') {
+            for (var key in value) {
+                if (value.hasOwnProperty(key) && count(value[key]) > 0)
+                    map[key] = value[key];
+            }
+        }
+        return map;
+    };
+    var trophies = {};
+    if (src.cupTrophies && typeof src.cupTrophies === 'object') {
+        for (var cupId in src.cupTrophies) {
+            var t = src.cupTrophies[cupId];
+            if (!src.cupTrophies.hasOwnProperty(cupId) || !t || typeof t !== 'object')
+                continue;
+            trophies[cupId] = { gold: count(t.gold), silver: count(t.silver), bronze: count(t.bronze) };
         }
     }
-    drawThemedTrackMap(track, theme);
-}
-function drawThemedTrackMap(track, theme) {
-    var mapX = RIGHT_PANEL_START;
-    var mapY = 11;
-    var mapWidth = SCREEN_WIDTH - RIGHT_PANEL_START - 1;
-    var mapHeight = 13;
-    var pixelWidth = mapWidth - 2;
-    var pixelHeight = (mapHeight - 1) * 2;
-    var points = generateTrackLoop(track, pixelWidth, pixelHeight);
-    var pixels = createPixelGrid(pixelWidth, pixelHeight);
-    rasterizeTrack(points, pixels, pixelWidth, pixelHeight);
-    markInfield(pixels, pixelWidth, pixelHeight);
-    renderHalfBlockMap(pixels, mapX + 2, mapY + 1, pixelWidth, pixelHeight, theme);
-    drawStartFinishHiRes(points, mapX + 2, mapY + 1, pixelWidth, pixelHeight, theme);
+    return {
+        racesStarted: count(src.racesStarted),
+        racesFinished: count(src.racesFinished),
+        wins: count(src.wins),
+        podiums: count(src.podiums),
+        cupTrophies: trophies,
+        carRaces: countMap(src.carRaces),
+        trackRaces: countMap(src.trackRaces),
+        totalDistance: count(src.totalDistance),
+        itemUses: countMap(src.itemUses)
+    };
 }
-function createPixelGrid(width, height) {
-    var grid = [];
-    for (var y = 0; y < height; y++) {
-        grid[y] = [];
-        for (var x = 0; x < width; x++) {
-            grid[y][x] = 0;
+function mostCounted(counts) {
+    var best = null;
+    for (var key in counts) {
+        if (counts.hasOwnProperty(key) && (best === null || counts[key] > counts[best])) {
+            best = key;
         }
     }
-    return grid;
+    return best;
 }
-function markInfield(pixels, width, height) {
-    var OUTSIDE_MARKER = -1;
-    var queue = [];
-    for (var x = 0; x < width; x++) {
-        if (pixels[0][x] === 0) {
-            pixels[0][x] = OUTSIDE_MARKER;
-            queue.push({ x: x, y: 0 });
-        }
-        if (pixels[height - 1][x] === 0) {
-            pixels[height - 1][x] = OUTSIDE_MARKER;
-            queue.push({ x: x, y: height - 1 });
+"use strict";
+var UNLOCK_RULES = [
+    { id: 'super', carId: 'super', condition: { type: 'cup', position: 1 }, hint: 'Win gold in any cup (not custom)' },
+    { id: 'sports_orange', carId: 'sports', colorId: 'orange', condition: { type: 'races', count: 10 }, hint: 'Finish 10 races' },
+    { id: 'compact_red', carId: 'compact', colorId: 'red', condition: { type: 'record' }, hint: 'Beat a track record' },
+    { id: 'classic_magenta', carId: 'classic', colorId: 'magenta', condition: { type: 'cup', cupId: 'dark_cup', position: 1 }, hint: 'Win gold in the Dark Cup' },
+    { id: 'super_yellow', carId: 'super', colorId: 'yellow', condition: { type: 'cup', cupId: 'special_cup', position: 1 }, hint: 'Win gold in the Special Cup' }
+];
+var CarUnlocks = (function () {
+    function CarUnlocks(userNumber) {
+        this.userNumber = userNumber;
+        this.directory = OUTRUN_CONFIG.players.directory;
+        this.earned = this.read();
+        for (var i = 0; i < UNLOCK_RULES.length; i++) {
+            if (this.earned.indexOf(UNLOCK_RULES[i].id) !== -1) {
+                applyUnlockRule(UNLOCK_RULES[i]);
+            }
         }
     }
-    for (var y = 0; y < height; y++) {
-        if (pixels[y][0] === 0) {
-            pixels[y][0] = OUTSIDE_MARKER;
-            queue.push({ x: 0, y: y });
+    CarUnlocks.prototype.check = function (stats, race) {
+        var newlyEarned = [];
+        for (var i = 0; i < UNLOCK_RULES.length; i++) {
+            var rule = UNLOCK_RULES[i];
+            if (this.earned.indexOf(rule.id) !== -1)
+                continue;
+            if (!isUnlockConditionMet(rule.condition, stats, race))
+                continue;
+            this.earned.push(rule.id);
+            applyUnlockRule(rule);
+            newlyEarned.push(rule);
+            logInfo('CarUnlocks: user ' + this.userNumber + ' unlocked ' + rule.id);
         }
-        if (pixels[y][width - 1] === 0) {
-            pixels[y][width - 1] = OUTSIDE_MARKER;
-            queue.push({ x: width - 1, y: y });
+        if (newlyEarned.length > 0) {
+            this.save();
         }
-    }
-    while (queue.length > 0) {
-        var p = queue.shift();
-        if (!p)
-            break;
-        var neighbors = [
-            { x: p.x - 1, y: p.y },
-            { x: p.x + 1, y: p.y },
-            { x: p.x, y: p.y - 1 },
-            { x: p.x, y: p.y + 1 }
-        ];
-        for (var i = 0; i < neighbors.length; i++) {
-            var n = neighbors[i];
-            if (n.x >= 0 && n.x < width && n.y >= 0 && n.y < height) {
-                if (pixels[n.y][n.x] === 0) {
-                    pixels[n.y][n.x] = OUTSIDE_MARKER;
-                    queue.push(n);
-                }
+        return newlyEarned;
+    };
+    CarUnlocks.prototype.path = function () {
+        return this.directory + '/u' + this.userNumber + '.unlocks.json';
+    };
+    CarUnlocks.prototype.read = function () {
+        if (this.userNumber <= 0)
+            return [];
+        var path = this.path();
+        if (!file_exists(path))
+            return [];
+        try {
+            var f = new File(path);
+            if (!f.open('r')) {
+                logWarning('CarUnlocks: unable to open ' + path);
+                return [];
             }
+            var content = f.read();
+            f.close();
+            var data = JSON.parse(content);
+            if (!(data instanceof Array)) {
+                logWarning('CarUnlocks: ignoring invalid unlocks ' + path);
+                return [];
+            }
+            return data.filter(function (id) { return typeof id === 'string'; });
         }
-    }
-    for (var y = 0; y < height; y++) {
-        for (var x = 0; x < width; x++) {
-            if (pixels[y][x] === OUTSIDE_MARKER) {
-                pixels[y][x] = 0;
+        catch (e) {
+            logError('CarUnlocks: failed to read ' + path + ': ' + e);
+            return [];
+        }
+    };
+    CarUnlocks.prototype.save = function () {
+        if (this.userNumber <= 0)
+            return false;
+        var path = this.path();
+        try {
+            if (!file_exists(this.directory)) {
+                mkdir(this.directory);
             }
-            else if (pixels[y][x] === 0) {
-                pixels[y][x] = 3;
+            var f = new File(path);
+            if (!f.open('w')) {
+                logError('CarUnlocks: unable to write ' + path);
+                return false;
             }
+            f.write(JSON.stringify(this.earned));
+            f.close();
+            return true;
         }
-    }
-}
-function rasterizeTrack(points, pixels, width, height) {
-    if (points.length < 2)
-        return;
-    var roadWidth = 2;
-    var edgeWidth = 1;
-    for (var i = 0; i < points.length - 1; i++) {
-        var x1 = points[i].x;
-        var y1 = points[i].y;
-        var x2 = points[i + 1].x;
-        var y2 = points[i + 1].y;
-        var dx = x2 - x1;
-        var dy = y2 - y1;
-        var len = Math.sqrt(dx * dx + dy * dy);
-        if (len === 0)
-            continue;
-        var perpX = -dy / len;
-        var perpY = dx / len;
-        var steps = Math.max(Math.ceil(len), 1);
-        for (var s = 0; s <= steps; s++) {
-            var t = s / steps;
-            var cx = x1 + dx * t;
-            var cy = y1 + dy * t;
-            for (var w = -(roadWidth + edgeWidth); w <= (roadWidth + edgeWidth); w++) {
-                var px = Math.floor(cx + perpX * w);
-                var py = Math.floor(cy + perpY * w);
-                if (px >= 0 && px < width && py >= 0 && py < height) {
-                    if (Math.abs(w) <= roadWidth) {
-                        pixels[py][px] = 2;
-                    }
-                    else if (pixels[py][px] === 0) {
-                        pixels[py][px] = 1;
-                    }
-                }
-            }
+        catch (e) {
+            logError('CarUnlocks: failed to write ' + path + ': ' + e);
+            return false;
         }
+    };
+    return CarUnlocks;
+}());
+function isUnlockConditionMet(condition, stats, race) {
+    switch (condition.type) {
+        case 'cup':
+            var position = condition.position || 1;
+            for (var cupId in stats.cupTrophies) {
+                if (!stats.cupTrophies.hasOwnProperty(cupId))
+                    continue;
+                if (condition.cupId ? condition.cupId !== cupId : cupId === CUSTOM_CUP_CAREER_ID)
+                    continue;
+                var trophies = stats.cupTrophies[cupId];
+                var best = trophies.gold > 0 ? 1 : (trophies.silver > 0 ? 2 : (trophies.bronze > 0 ? 3 : 0));
+                if (best > 0 && best <= position)
+                    return true;
+            }
+            return false;
+        case 'record':
+            return race !== null && race.trackRecord && (!condition.trackId || condition.trackId === race.trackId);
+        case 'races':
+            return stats.racesFinished >= (condition.count || 1);
     }
+    return false;
 }
-function renderHalfBlockMap(pixels, screenX, screenY, width, height, theme) {
-    var charRows = Math.floor(height / 2);
-    function getPixelColor(pixelType) {
-        switch (pixelType) {
-            case 0: return theme.offroad.groundColor.fg;
-            case 1: return theme.road.edge.fg;
-            case 2: return theme.road.surface.fg;
-            case 3: return BG_BLACK;
-            default: return theme.offroad.groundColor.fg;
-        }
+function applyUnlockRule(rule) {
+    if (rule.colorId) {
+        unlockCarColor(rule.carId, rule.colorId);
     }
-    function isFilledPixel(pixelType) {
-        return pixelType === 1 || pixelType === 2;
+    else {
+        unlockCar(rule.carId);
     }
-    for (var charRow = 0; charRow < charRows; charRow++) {
-        var topPixelY = charRow * 2;
-        var bottomPixelY = charRow * 2 + 1;
-        for (var col = 0; col < width; col++) {
-            var topPixel = (topPixelY < height) ? pixels[topPixelY][col] : 0;
-            var bottomPixel = (bottomPixelY < height) ? pixels[bottomPixelY][col] : 0;
-            console.gotoxy(screenX + col, screenY + charRow);
-            var topFilled = isFilledPixel(topPixel);
-            var bottomFilled = isFilledPixel(bottomPixel);
-            if (topFilled && bottomFilled) {
-                var pixelType = (topPixel === 2 || bottomPixel === 2) ? 2 : 1;
-                console.attributes = getPixelColor(pixelType);
-                console.print(GLYPH.FULL_BLOCK);
+}
+function getUnlockHint(carId, colorId) {
+    for (var i = 0; i < UNLOCK_RULES.length; i++) {
+        var rule = UNLOCK_RULES[i];
+        if (rule.carId === carId && rule.colorId === colorId)
+            return rule.hint + ' to unlock';
+    }
+    var car = colorId ? null : getCarDefinition(carId);
+    return (car && car.unlockHint) || 'Complete challenges to unlock';
+}
+function describeUnlock(rule) {
+    var car = getCarDefinition(rule.carId);
+    var text = car ? car.name : rule.carId;
+    if (rule.colorId) {
+        var color = getCarColor(rule.colorId);
+        text += ' - ' + (color ? color.name : rule.colorId);
+    }
+    return text;
+}
+"use strict";
+var HUD_LAYOUTS = ['full', 'minimal'];
+var DEFAULT_PLAYER_SETTINGS = {
+    bell: false,
+    hudLayout: 'full'
+};
+var PlayerSettingsStore = (function () {
+    function PlayerSettingsStore() {
+        this.directory = OUTRUN_CONFIG.players.directory;
+    }
+    PlayerSettingsStore.prototype.load = function (userNumber) {
+        var settings = copyPlayerSettings(DEFAULT_PLAYER_SETTINGS);
+        if (userNumber <= 0)
+            return settings;
+        var path = this.path(userNumber);
+        if (!file_exists(path))
+            return settings;
+        try {
+            var f = new File(path);
+            if (!f.open('r')) {
+                logWarning('PlayerSettingsStore: unable to open ' + path);
+                return settings;
             }
-            else if (topFilled) {
-                var topColor = getPixelColor(topPixel);
-                var bottomColor = getPixelColor(bottomPixel);
-                console.attributes = topColor + (bottomColor << 4);
-                console.print(GLYPH.UPPER_HALF);
+            var content = f.read();
+            f.close();
+            var data = JSON.parse(content);
+            if (!data || typeof data !== 'object') {
+                logWarning('PlayerSettingsStore: ignoring invalid settings ' + path);
+                return settings;
             }
-            else if (bottomFilled) {
-                var topColor = getPixelColor(topPixel);
-                var bottomColor = getPixelColor(bottomPixel);
-                console.attributes = bottomColor + (topColor << 4);
-                console.print(GLYPH.LOWER_HALF);
+            if (typeof data.bell === 'boolean') {
+                settings.bell = data.bell;
             }
-            else {
-                if (topPixel === 3 || bottomPixel === 3) {
-                    console.attributes = BLACK;
-                    console.print(' ');
-                }
-                else {
-                    console.attributes = theme.offroad.groundColor.fg;
-                    console.print(GLYPH.LIGHT_SHADE);
-                }
+            if (HUD_LAYOUTS.indexOf(data.hudLayout) !== -1) {
+                settings.hudLayout = data.hudLayout;
+            }
+            return settings;
+        }
+        catch (e) {
+            logError('PlayerSettingsStore: failed to read ' + path + ': ' + e);
+            return settings;
+        }
+    };
+    PlayerSettingsStore.prototype.save = function (settings, userNumber) {
+        if (userNumber <= 0)
+            return false;
+        var path = this.path(userNumber);
+        try {
+            if (!file_exists(this.directory)) {
+                mkdir(this.directory);
             }
+            var f = new File(path);
+            if (!f.open('w')) {
+                logError('PlayerSettingsStore: unable to write ' + path);
+                return false;
+            }
+            f.write(JSON.stringify(settings));
+            f.close();
+            return true;
+        }
+        catch (e) {
+            logError('PlayerSettingsStore: failed to write ' + path + ': ' + e);
+            return false;
         }
+    };
+    PlayerSettingsStore.prototype.path = function (userNumber) {
+        return this.directory + '/u' + userNumber + '.settings.json';
+    };
+    return PlayerSettingsStore;
+}());
+function copyPlayerSettings(settings) {
+    return { bell: settings.bell, hudLayout: settings.hudLayout };
+}
+var playerSettings = null;
+function getPlayerSettings() {
+    if (!playerSettings) {
+        playerSettings = copyPlayerSettings(DEFAULT_PLAYER_SETTINGS);
     }
+    return playerSettings;
 }
-function generateTrackLoop(track, width, height) {
-    var sections = track.sections;
-    var difficulty = track.difficulty || 3;
-    var trackId = track.id || '';
-    var totalLength = 0;
-    var totalCurve = 0;
-    var hasSCurves = false;
-    var sharpestCurve = 0;
-    if (sections && sections.length > 0) {
-        for (var i = 0; i < sections.length; i++) {
-            var section = sections[i];
-            totalLength += section.length || 0;
-            if (section.type === 'curve') {
-                totalCurve += Math.abs(section.curve || 0) * (section.length || 1);
-                if (Math.abs(section.curve || 0) > sharpestCurve) {
-                    sharpestCurve = Math.abs(section.curve || 0);
-                }
+function loadPlayerSettings(userNumber) {
+    playerSettings = new PlayerSettingsStore().load(userNumber);
+}
+"use strict";
+var MP_PUBLISH_INTERVAL_MS = 100;
+var MP_STALE_MS = 10000;
+var MP_MAX_EVENTS = 20;
+var MultiplayerSession = (function () {
+    function MultiplayerSession(channel, race, localNode) {
+        this.channel = channel;
+        this.race = race;
+        this.localNode = localNode;
+        this.localVehicle = null;
+        this.remotes = [];
+        this.events = [];
+        this.eventSeq = 0;
+        this.lastPublish = 0;
+        this.finishTime = -1;
+    }
+    MultiplayerSession.prototype.getRace = function () {
+        return this.race;
+    };
+    MultiplayerSession.prototype.buildGrid = function (localVehicle) {
+        this.localVehicle = localVehicle;
+        this.remotes = [];
+        var grid = [];
+        for (var i = 0; i < this.race.players.length; i++) {
+            var player = this.race.players[i];
+            if (player.node === this.localNode) {
+                grid.push(localVehicle);
+                continue;
             }
-            if (section.type === 's_curve')
-                hasSCurves = true;
+            var vehicle = new Vehicle();
+            var driver = new RemoteDriver(player.node, player.name);
+            vehicle.driver = driver;
+            vehicle.isNPC = true;
+            vehicle.isRacer = true;
+            vehicle.isRemote = true;
+            vehicle.npcType = 'sportscar';
+            vehicle.npcColorIndex = i % NPC_VEHICLE_COLORS.length;
+            vehicle.setCar(player.carId);
+            vehicle.carColorId = player.colorId;
+            var color = getCarColor(player.colorId);
+            vehicle.color = color ? color.body : WHITE;
+            this.remotes.push({ player: player, vehicle: vehicle, driver: driver, record: null, lastEventSeq: 0 });
+            grid.push(vehicle);
+        }
+        return grid;
+    };
+    MultiplayerSession.prototype.getCountdown = function () {
+        return Math.max(0, (this.race.startAt - Date.now()) / 1000);
+    };
+    MultiplayerSession.prototype.update = function (state, itemSystem, dt) {
+        for (var i = 0; i < this.remotes.length; i++) {
+            this.remotes[i].driver.place(this.remotes[i].vehicle, state.road, state.time, dt);
         }
-    }
-    var points = [];
-    var cx = width / 2;
-    var cy = height / 2;
-    var rx = (width - 8) / 2;
-    var ry = (height - 6) / 2;
-    var numPoints = 80;
-    var complexity = Math.min(difficulty, 5);
-    var wobbleFreq = 2 + complexity;
-    var wobbleAmp = 0.05 + (sharpestCurve * 0.15);
-    if (trackId.indexOf('figure') >= 0 || (hasSCurves && difficulty >= 4)) {
-        for (var i = 0; i <= numPoints; i++) {
-            var t = (i / numPoints) * Math.PI * 2;
-            var fx = Math.sin(t);
-            var fy = Math.sin(t) * Math.cos(t);
-            points.push({
-                x: cx + fx * rx,
-                y: cy + fy * ry * 1.5
+        var now = Date.now();
+        if (now - this.lastPublish < MP_PUBLISH_INTERVAL_MS)
+            return;
+        this.lastPublish = now;
+        this.publish(state);
+        this.poll(state, itemSystem);
+    };
+    MultiplayerSession.prototype.publish = function (state) {
+        var v = state.playerVehicle;
+        var record = {
+            node: this.localNode,
+            updated: Date.now(),
+            time: state.time,
+            trackZ: v.trackZ,
+            playerX: v.playerX,
+            speed: v.speed,
+            lap: v.lap,
+            flash: v.flashTimer > 0,
+            finishTime: this.finishTime,
+            events: this.events
+        };
+        this.channel.write('state.' + this.race.raceId + '.' + this.localNode, record);
+    };
+    MultiplayerSession.prototype.poll = function (state, itemSystem) {
+        var records = this.channel.readAll('state.' + this.race.raceId);
+        for (var i = 0; i < this.remotes.length; i++) {
+            var remote = this.remotes[i];
+            var record = records[remote.player.node];
+            if (!record)
+                continue;
+            remote.record = record;
+            remote.driver.receive(record);
+            var events = record.events || [];
+            for (var e = 0; e < events.length; e++) {
+                var event = events[e];
+                if (event.seq <= remote.lastEventSeq)
+                    continue;
+                remote.lastEventSeq = event.seq;
+                if (itemSystem)
+                    this.applyRemoteEvent(remote, event, state, itemSystem);
+            }
+        }
+    };
+    MultiplayerSession.prototype.recordItemEvent = function (event) {
+        if (!this.localVehicle || event.vehicleId !== this.localVehicle.id)
+            return;
+        if (event.type === 'use') {
+            this.pushEvent({ seq: 0, type: 'use', item: event.itemType, backward: event.backward === true });
+        }
+        else if (event.type === 'hit') {
+            var source = this.nodeForVehicle(event.sourceId);
+            if (source >= 0) {
+                this.pushEvent({ seq: 0, type: 'hit', item: event.itemType, source: source });
+            }
+        }
+    };
+    MultiplayerSession.prototype.markFinished = function (state) {
+        if (this.finishTime >= 0)
+            return;
+        this.finishTime = state.time;
+        this.publish(state);
+    };
+    MultiplayerSession.prototype.getStandings = function (state) {
+        var now = Date.now();
+        var standings = [];
+        var progress = {};
+        for (var i = 0; i < this.race.players.length; i++) {
+            var player = this.race.players[i];
+            var isLocal = player.node === this.localNode;
+            var remote = isLocal ? null : this.findRemote(player.node);
+            var record = remote ? remote.record : null;
+            var finishTime = isLocal ? this.finishTime : (record ? record.finishTime : -1);
+            var lap = isLocal ? state.playerVehicle.lap : (record ? record.lap : 1);
+            var trackZ = isLocal ? state.playerVehicle.trackZ : (record ? record.trackZ : 0);
+            var connected = isLocal || (record !== null && (finishTime >= 0 || now - record.updated <= MP_STALE_MS));
+            progress[player.node] = lap * state.road.totalLength + trackZ;
+            standings.push({
+                node: player.node,
+                name: player.name,
+                isLocal: isLocal,
+                finishTime: finishTime,
+                lap: lap,
+                connected: connected
             });
         }
+        standings.sort(function (a, b) {
+            if (a.connected !== b.connected)
+                return a.connected ? -1 : 1;
+            var aDone = a.finishTime >= 0;
+            var bDone = b.finishTime >= 0;
+            if (aDone !== bDone)
+                return aDone ? -1 : 1;
+            if (aDone && a.finishTime !== b.finishTime)
+                return a.finishTime - b.finishTime;
+            if (!aDone && progress[a.node] !== progress[b.node])
+                return progress[b.node] - progress[a.node];
+            return a.node - b.node;
+        });
+        return standings;
+    };
+    MultiplayerSession.prototype.isEveryoneDone = function (state) {
+        var standings = this.getStandings(state);
+        for (var i = 0; i < standings.length; i++) {
+            if (standings[i].connected && standings[i].finishTime < 0)
+                return false;
+        }
+        return true;
+    };
+    MultiplayerSession.prototype.leave = function (state) {
+        if (!state || this.isEveryoneDone(state)) {
+            this.channel.remove('state.' + this.race.raceId + '.' + this.localNode);
+        }
+        if (this.race.hostNode !== this.localNode) {
+            this.channel.remove('join.' + this.race.raceId + '.' + this.localNode);
+        }
+    };
+    MultiplayerSession.prototype.applyRemoteEvent = function (remote, event, state, itemSystem) {
+        if (event.type === 'use') {
+            itemSystem.replayItemUse(remote.vehicle, event.item, state.vehicles, event.backward === true);
+        }
+        else if (event.type === 'hit' && event.source !== undefined) {
+            var shooter = event.source === this.localNode ? this.localVehicle : this.vehicleForNode(event.source);
+            if (shooter) {
+                itemSystem.removeProjectileNear(shooter.id, remote.vehicle.trackZ);
+            }
+        }
+    };
+    MultiplayerSession.prototype.pushEvent = function (event) {
+        event.seq = ++this.eventSeq;
+        this.events.push(event);
+        if (this.events.length > MP_MAX_EVENTS) {
+            this.events.shift();
+        }
+    };
+    MultiplayerSession.prototype.findRemote = function (node) {
+        for (var i = 0; i < this.remotes.length; i++) {
+            if (this.remotes[i].player.node === node)
+                return this.remotes[i];
+        }
+        return null;
+    };
+    MultiplayerSession.prototype.vehicleForNode = function (node) {
+        var remote = this.findRemote(node);
+        return remote ? remote.vehicle : null;
+    };
+    MultiplayerSession.prototype.nodeForVehicle = function (vehicleId) {
+        if (vehicleId === undefined)
+            return -1;
+        if (this.localVehicle && vehicleId === this.localVehicle.id)
+            return this.localNode;
+        for (var i = 0; i < this.remotes.length; i++) {
+            if (this.remotes[i].vehicle.id === vehicleId)
+                return this.remotes[i].player.node;
+        }
+        return -1;
+    };
+    return MultiplayerSession;
+}());
+"use strict";
+var RACE_BROADCAST_INTERVAL_MS = 250;
+var RACE_BROADCAST_STALE_MS = 10000;
+var RACE_BROADCAST_SLOW_MS = 50;
+var RACE_BROADCAST_MAX_INTERVAL_MS = 4000;
+var _broadcastChannel = null;
+var RaceBroadcaster = (function () {
+    function RaceBroadcaster(channel, node, name) {
+        this.channel = channel;
+        this.node = node;
+        this.name = name;
+        this.trackDef = null;
+        this.raceClass = null;
+        this.lastPublish = 0;
+        this.interval = RACE_BROADCAST_INTERVAL_MS;
     }
-    else {
-        for (var i = 0; i <= numPoints; i++) {
-            var angle = (i / numPoints) * Math.PI * 2;
-            var wobble = Math.sin(angle * wobbleFreq) * wobbleAmp;
-            var wobble2 = Math.cos(angle * (wobbleFreq + 1)) * wobbleAmp * 0.5;
-            points.push({
-                x: cx + Math.cos(angle) * rx * (1 + wobble),
-                y: cy + Math.sin(angle) * ry * (1 + wobble2)
+    RaceBroadcaster.prototype.start = function (trackDef, raceClass) {
+        this.trackDef = trackDef;
+        this.raceClass = raceClass;
+        this.lastPublish = 0;
+        this.interval = RACE_BROADCAST_INTERVAL_MS;
+    };
+    RaceBroadcaster.prototype.update = function (state, itemSystem, paused) {
+        var now = Date.now();
+        if (now - this.lastPublish < this.interval)
+            return;
+        var ok = this.publish(state, itemSystem, paused);
+        this.lastPublish = Date.now();
+        if (!ok || this.lastPublish - now > RACE_BROADCAST_SLOW_MS) {
+            this.interval = Math.min(this.interval * 2, RACE_BROADCAST_MAX_INTERVAL_MS);
+        }
+        else {
+            this.interval = RACE_BROADCAST_INTERVAL_MS;
+        }
+    };
+    RaceBroadcaster.prototype.publish = function (state, itemSystem, paused) {
+        if (!this.trackDef || !this.raceClass)
+            return true;
+        var vehicles = [];
+        for (var i = 0; i < state.vehicles.length; i++) {
+            var v = state.vehicles[i];
+            var isPlayer = v === state.playerVehicle;
+            vehicles.push({
+                id: v.id,
+                name: isPlayer ? this.name : getBroadcastDriverName(v),
+                trackZ: v.trackZ,
+                playerX: v.playerX,
+                speed: v.speed,
+                lap: v.lap,
+                position: v.racePosition,
+                carId: v.carId,
+                colorId: v.carColorId,
+                color: v.color,
+                npcType: v.npcType,
+                npcColorIndex: v.npcColorIndex,
+                racer: isPlayer || v.isRacer,
+                player: isPlayer,
+                flash: v.flashTimer > 0,
+                item: v.heldItem ? v.heldItem.type : ItemType.NONE
+            });
+        }
+        var itemBoxes = [];
+        var boxes = itemSystem.getItemBoxes();
+        for (var b = 0; b < boxes.length; b++) {
+            itemBoxes.push({ x: boxes[b].x, z: boxes[b].z, available: boxes[b].isAvailable() });
+        }
+        var projectiles = [];
+        var active = itemSystem.getProjectiles();
+        for (var p = 0; p < active.length; p++) {
+            if (active[p].isDestroyed)
+                continue;
+            projectiles.push({
+                shellType: active[p].shellType,
+                trackZ: active[p].trackZ,
+                playerX: active[p].playerX,
+                speed: active[p].speed
             });
         }
+        var record = {
+            node: this.node,
+            name: this.name,
+            trackId: this.trackDef.id,
+            laps: this.trackDef.laps,
+            raceClassId: this.raceClass.id,
+            raceMode: state.raceMode,
+            updated: Date.now(),
+            time: state.time,
+            countdown: state.raceStarted ? 0 : Math.max(0, state.countdown),
+            paused: paused,
+            finished: state.finished,
+            vehicles: vehicles,
+            itemBoxes: itemBoxes,
+            projectiles: projectiles
+        };
+        return this.channel.write('broadcast.' + this.node, record);
+    };
+    RaceBroadcaster.prototype.stop = function () {
+        this.channel.remove('broadcast.' + this.node);
+        this.trackDef = null;
+    };
+    return RaceBroadcaster;
+}());
+function getBroadcastDriverName(vehicle) {
+    if (vehicle.driver instanceof RacerDriver || vehicle.driver instanceof RemoteDriver) {
+        return vehicle.driver.name;
     }
-    return points;
+    return '';
 }
-function generatePathFromSections(sections) {
-    var totalIntendedCurve = 0;
-    for (var i = 0; i < sections.length; i++) {
-        var section = sections[i];
-        var segmentCount = section.length || 10;
-        switch (section.type) {
-            case 'curve':
-                totalIntendedCurve += (section.curve || 0) * segmentCount;
-                break;
-            case 'ease_in':
-                totalIntendedCurve += (section.targetCurve || 0.5) * segmentCount * 0.5;
-                break;
-            case 'ease_out':
-                totalIntendedCurve += (section.targetCurve || 0.5) * segmentCount * 0.5;
-                break;
-            case 's_curve':
-                break;
+function getBroadcastChannel(node) {
+    if (!_broadcastChannel) {
+        _broadcastChannel = createRaceChannel(node);
+    }
+    return _broadcastChannel;
+}
+function closeBroadcastChannel() {
+    if (_broadcastChannel) {
+        _broadcastChannel.close();
+        _broadcastChannel = null;
+    }
+}
+function createRaceBroadcaster(node, name) {
+    if (!OUTRUN_CONFIG.multiplayer.enabled || !OUTRUN_CONFIG.multiplayer.broadcast)
+        return null;
+    var channel = getBroadcastChannel(node);
+    return channel ? new RaceBroadcaster(channel, node, name) : null;
+}
+function readLiveBroadcasts(channel) {
+    var now = Date.now();
+    var records = channel.readAll('broadcast');
+    var live = [];
+    for (var name in records) {
+        var record = records[name];
+        if (record && record.vehicles && now - record.updated <= RACE_BROADCAST_STALE_MS) {
+            live.push(record);
         }
     }
-    var curveScale = 0.1;
-    if (Math.abs(totalIntendedCurve) > 0.1) {
-        curveScale = (Math.PI * 2) / Math.abs(totalIntendedCurve);
+    live.sort(function (a, b) { return a.node - b.node; });
+    return live;
+}
+function readRaceBroadcast(channel, node) {
+    var record = channel.read('broadcast.' + node);
+    if (!record || !record.vehicles || Date.now() - record.updated > RACE_BROADCAST_STALE_MS)
+        return null;
+    return record;
+}
+"use strict";
+var INTERPOLATION_SNAP_Z = 100;
+var INTERPOLATION_SNAP_X = 0.5;
+var RenderInterpolator = (function () {
+    function RenderInterpolator() {
+        this.previous = [];
+        this.previousCameraX = 0;
+        this.saved = [];
+        this.savedCameraX = 0;
+        this.applied = false;
     }
-    var direction = totalIntendedCurve >= 0 ? 1 : -1;
-    curveScale = Math.abs(curveScale) * direction;
-    var points = [];
-    var x = 0;
-    var y = 0;
-    var heading = 0;
-    var currentCurve = 0;
-    var stepSize = 1.0;
-    points.push({ x: x, y: y });
-    for (var i = 0; i < sections.length; i++) {
-        var section = sections[i];
-        var segmentCount = section.length || 10;
-        switch (section.type) {
-            case 'straight':
-                for (var s = 0; s < segmentCount; s++) {
-                    x += Math.cos(heading) * stepSize;
-                    y += Math.sin(heading) * stepSize;
-                    points.push({ x: x, y: y });
+    RenderInterpolator.prototype.reset = function () {
+        this.previous = [];
+    };
+    RenderInterpolator.prototype.capture = function (state, entities) {
+        this.previous = entities.map(sampleEntity);
+        this.previousCameraX = state.cameraX;
+    };
+    RenderInterpolator.prototype.apply = function (state, entities, alpha) {
+        if (alpha >= 1 || this.previous.length === 0)
+            return;
+        this.applied = true;
+        this.saved = [];
+        var length = state.road.totalLength;
+        for (var i = 0; i < entities.length; i++) {
+            var entity = entities[i];
+            var prev = this.findPrevious(entity);
+            if (!prev)
+                continue;
+            var dz = entity.trackZ - prev.trackZ;
+            if (dz > length / 2)
+                dz -= length;
+            else if (dz < -length / 2)
+                dz += length;
+            var dx = entity.playerX - prev.playerX;
+            if (Math.abs(dz) > INTERPOLATION_SNAP_Z || Math.abs(dx) > INTERPOLATION_SNAP_X)
+                continue;
+            this.saved.push(sampleEntity(entity));
+            var back = 1 - alpha;
+            entity.trackZ = (entity.trackZ - dz * back + length) % length;
+            entity.playerX -= dx * back;
+            entity.z = (entity.z - dz * back + length) % length;
+            entity.x -= (entity.x - prev.x) * back;
+        }
+        this.savedCameraX = state.cameraX;
+        var cameraDx = state.cameraX - this.previousCameraX;
+        if (Math.abs(cameraDx) <= INTERPOLATION_SNAP_X * ROAD_TRACK_X_SCALE) {
+            state.cameraX -= cameraDx * (1 - alpha);
+        }
+    };
+    RenderInterpolator.prototype.restore = function (state) {
+        if (!this.applied)
+            return;
+        this.applied = false;
+        for (var i = 0; i < this.saved.length; i++) {
+            var s = this.saved[i];
+            s.entity.trackZ = s.trackZ;
+            s.entity.playerX = s.playerX;
+            s.entity.z = s.z;
+            s.entity.x = s.x;
+        }
+        this.saved = [];
+        state.cameraX = this.savedCameraX;
+    };
+    RenderInterpolator.prototype.findPrevious = function (entity) {
+        for (var i = 0; i < this.previous.length; i++) {
+            if (this.previous[i].entity === entity)
+                return this.previous[i];
+        }
+        return null;
+    };
+    return RenderInterpolator;
+}());
+function sampleEntity(entity) {
+    return { entity: entity, trackZ: entity.trackZ, playerX: entity.playerX, z: entity.z, x: entity.x };
+}
+"use strict";
+var DEFAULT_CONFIG = {
+    screenWidth: MIN_SCREEN_WIDTH,
+    screenHeight: MIN_SCREEN_HEIGHT,
+    tickRate: 60,
+    maxTicksPerFrame: 5
+};
+function createGameConfig(tickRate) {
+    var screen = getScreenSize();
+    tickRate = tickRate || OUTRUN_CONFIG.general.tickRate;
+    return {
+        screenWidth: screen.width,
+        screenHeight: screen.height,
+        tickRate: tickRate,
+        maxTicksPerFrame: Math.max(1, Math.round(DEFAULT_CONFIG.maxTicksPerFrame * tickRate / DEFAULT_CONFIG.tickRate))
+    };
+}
+var TRACK_THEME_NAMES = {
+    'synthwave': 'synthwave',
+    'midnight_city': 'city_night',
+    'beach_paradise': 'sunset_beach',
+    'forest_night': 'twilight_forest',
+    'haunted_hollow': 'haunted_hollow',
+    'winter_wonderland': 'winter_wonderland',
+    'cactus_canyon': 'cactus_canyon',
+    'tropical_jungle': 'tropical_jungle',
+    'candy_land': 'candy_land',
+    'rainbow_road': 'rainbow_road',
+    'dark_castle': 'dark_castle',
+    'villains_lair': 'villains_lair',
+    'ancient_ruins': 'ancient_ruins',
+    'thunder_stadium': 'thunder_stadium',
+    'glitch_circuit': 'glitch_circuit',
+    'kaiju_rampage': 'kaiju_rampage',
+    'underwater_grotto': 'underwater_grotto',
+    'ansi_tunnel': 'ansi_tunnel'
+};
+function getTrackThemeName(trackDef) {
+    return TRACK_THEME_NAMES[trackDef.themeId] || (getTheme(trackDef.themeId) ? trackDef.themeId : 'synthwave');
+}
+var Game = (function () {
+    function Game(config, highScoreManager, renderer) {
+        this.config = config || createGameConfig();
+        this.running = false;
+        this.paused = false;
+        this.clock = new Clock();
+        this.timestep = new FixedTimestep({
+            tickRate: this.config.tickRate,
+            maxTicksPerFrame: this.config.maxTicksPerFrame
+        });
+        this.inputMap = getPlayerInputMap();
+        this.controls = new Controls(this.inputMap);
+        this.renderer = renderer || new FrameRenderer(this.config.screenWidth, this.config.screenHeight);
+        this.hud = new Hud(this.config.screenWidth);
+        this.physicsSystem = new PhysicsSystem();
+        this.raceSystem = new RaceSystem();
+        this.itemSystem = new ItemSystem();
+        this.highScoreManager = highScoreManager || null;
+        this.ghostStore = OUTRUN_CONFIG.ghosts.enabled ? new GhostStore(this.config.tickRate) : null;
+        this.ghostRecorder = null;
+        this.ghostPlayer = null;
+        this.interpolator = new RenderInterpolator();
+        this.replayStore = OUTRUN_CONFIG.replays.enabled ? new ReplayStore() : null;
+        this.replayRecorder = null;
+        this.replayInput = null;
+        this.cameraVehicle = null;
+        this.hudOverlay = null;
+        this.itemEventListener = null;
+        this.session = null;
+        this.broadcaster = null;
+        this.dailyChallenge = null;
+        this.rivalId = null;
+        this.raceClass = getRaceClass(DEFAULT_RACE_CLASS_ID);
+        this.playerItemUses = {};
+        this.finalPosition = 0;
+        this.trackRecord = false;
+        this.pauseMenu = new PauseMenu();
+        this.raceSetup = null;
+        this.state = null;
+    }
+    Game.prototype.initWithTrack = function (trackDef, raceMode, carSelection, seed) {
+        logInfo("Game.initWithTrack(): " + trackDef.name + " mode: " + (raceMode || RaceMode.GRAND_PRIX));
+        this.raceSetup = { trackDef: trackDef, raceMode: raceMode, carSelection: carSelection, seed: seed };
+        var mode = raceMode || RaceMode.GRAND_PRIX;
+        this.renderer.init();
+        var themeName = getTrackThemeName(trackDef);
+        if (this.renderer.setTheme) {
+            this.renderer.setTheme(themeName);
+        }
+        var road = buildRoadFromDefinition(trackDef, this.raceClass.mirror);
+        var track = new RoadTrack(road);
+        var selectedCarId = carSelection ? carSelection.carId : 'sports';
+        var selectedColorId = carSelection ? carSelection.colorId : 'yellow';
+        var playerVehicle = new Vehicle();
+        playerVehicle.driver = new HumanDriver(this.controls);
+        playerVehicle.isNPC = false;
+        playerVehicle.setCar(selectedCarId);
+        playerVehicle.carColorId = selectedColorId;
+        var carColor = getCarColor(selectedColorId);
+        playerVehicle.color = carColor ? carColor.body : YELLOW;
+        this.state = createInitialState(track, trackDef, road, playerVehicle, mode, seed);
+        if (mode === RaceMode.MULTIPLAYER && this.session) {
+            this.state.vehicles = this.session.buildGrid(playerVehicle);
+            this.positionMultiplayerGrid();
+            this.state.countdown = this.session.getCountdown();
+            this.blockDrivers();
+        }
+        else if (mode === RaceMode.GRAND_PRIX) {
+            this.spawnRacers(7, road);
+            this.positionOnStartingGrid();
+            this.blockDrivers();
+        }
+        else {
+            var npcCount = trackDef.npcCount !== undefined ? trackDef.npcCount : 5;
+            this.spawnNPCs(npcCount, road);
+            playerVehicle.trackZ = 0;
+            playerVehicle.playerX = 0;
+        }
+        if (this.raceClass.speed !== 1) {
+            for (var v = 0; v < this.state.vehicles.length; v++) {
+                this.state.vehicles[v].stats.maxSpeed *= this.raceClass.speed;
+                this.state.vehicles[v].stats.accel *= this.raceClass.speed;
+            }
+        }
+        this.physicsSystem.init(this.state);
+        this.raceSystem.init(this.state);
+        this.itemSystem.initFromTrack(track, road, this.state.rand);
+        var renderer = this.renderer;
+        var self = this;
+        this.itemSystem.setCallbacks({
+            onLightningStrike: function (hitCount) {
+                if (renderer.triggerLightningStrike) {
+                    renderer.triggerLightningStrike(hitCount);
                 }
-                currentCurve = 0;
-                break;
-            case 'curve':
-                var curvature = (section.curve || 0) * curveScale;
-                for (var s = 0; s < segmentCount; s++) {
-                    heading += curvature;
-                    x += Math.cos(heading) * stepSize;
-                    y += Math.sin(heading) * stepSize;
-                    points.push({ x: x, y: y });
+            },
+            onItemEvent: function (event) {
+                if (event.type === 'use' && self.state && event.vehicleId === self.state.playerVehicle.id) {
+                    var item = ItemType[getBaseItemType(event.itemType)];
+                    self.playerItemUses[item] = (self.playerItemUses[item] || 0) + 1;
                 }
-                currentCurve = section.curve || 0;
-                break;
-            case 'ease_in':
-                var targetCurve = (section.targetCurve || 0.5) * curveScale;
-                for (var s = 0; s < segmentCount; s++) {
-                    var t = s / segmentCount;
-                    var easedCurve = currentCurve * curveScale + (targetCurve - currentCurve * curveScale) * t;
-                    heading += easedCurve;
-                    x += Math.cos(heading) * stepSize;
-                    y += Math.sin(heading) * stepSize;
-                    points.push({ x: x, y: y });
+                if (self.session) {
+                    self.session.recordItemEvent(event);
                 }
-                currentCurve = section.targetCurve || 0.5;
-                break;
-            case 'ease_out':
-                var startCurve = currentCurve * curveScale;
-                for (var s = 0; s < segmentCount; s++) {
-                    var t = s / segmentCount;
-                    var easedCurve = startCurve * (1 - t);
-                    heading += easedCurve;
-                    x += Math.cos(heading) * stepSize;
-                    y += Math.sin(heading) * stepSize;
-                    points.push({ x: x, y: y });
+                if (self.itemEventListener) {
+                    self.itemEventListener(event);
                 }
-                currentCurve = 0;
-                break;
-            case 's_curve':
-                var halfLen = Math.floor(segmentCount / 2);
-                var sCurve = 0.06 * curveScale;
-                for (var s = 0; s < halfLen; s++) {
-                    heading += sCurve;
-                    x += Math.cos(heading) * stepSize;
-                    y += Math.sin(heading) * stepSize;
-                    points.push({ x: x, y: y });
+            }
+        });
+        this.playerItemUses = {};
+        this.finalPosition = 0;
+        this.trackRecord = false;
+        this.interpolator.reset();
+        this.ghostRecorder = null;
+        this.ghostPlayer = null;
+        if (mode === RaceMode.TIME_TRIAL && this.ghostStore && !this.replayInput) {
+            this.ghostRecorder = new GhostRecorder(this.config.tickRate);
+            var ghost = this.ghostStore.loadBest(getRaceClassScoreId(trackDef.id, this.raceClass), this.getUserNumber());
+            if (ghost) {
+                this.ghostPlayer = new GhostPlayer(ghost);
+                logInfo("Racing ghost of " + ghost.playerName + " (" + ghost.time.toFixed(2) + "s)");
+            }
+        }
+        this.replayRecorder = null;
+        this.cameraVehicle = null;
+        if (this.replayStore && !this.replayInput && mode !== RaceMode.MULTIPLAYER) {
+            this.replayRecorder = new ReplayRecorder(this.config.tickRate);
+        }
+        if (this.broadcaster) {
+            this.broadcaster.start(trackDef, this.raceClass);
+        }
+        this.hud.init(this.state.time);
+        this.hud.initMinimap(trackDef, this.raceClass.mirror);
+        this.hud.setMinimapVisible(getPlayerSettings().hudLayout === 'full');
+        this.running = true;
+        this.state.racing = false;
+        debugLog.info("Game initialized with track: " + trackDef.name);
+        debugLog.info("  Race mode: " + mode);
+        debugLog.info("  Race class: " + this.raceClass.name);
+        debugLog.info("  Race seed: " + this.state.seed);
+        debugLog.info("  Road segments: " + road.segments.length);
+        debugLog.info("  Road length: " + road.totalLength);
+        debugLog.info("  Laps: " + road.laps);
+        debugLog.info("  Total racers: " + this.state.vehicles.length);
+    };
+    Game.prototype.initMultiplayer = function (trackDef, carSelection, session) {
+        this.session = session;
+        this.initWithTrack(trackDef, RaceMode.MULTIPLAYER, carSelection, session.getRace().seed);
+    };
+    Game.prototype.initDailyChallenge = function (trackDef, challenge) {
+        this.dailyChallenge = challenge;
+        this.initWithTrack(trackDef, RaceMode.GRAND_PRIX, { carId: challenge.carId, colorId: challenge.colorId }, challenge.seed);
+        this.itemSystem.setItemPool(challenge.itemSet.items);
+    };
+    Game.prototype.initReplay = function (replay, trackDef) {
+        if (this.state) {
+            this.renderer.shutdown();
+            this.controls.clearAll();
+        }
+        this.replayInput = new ReplayInput(replay.inputs);
+        this.setRival(replay.rivalId);
+        this.setRaceClass(getRaceClass(replay.raceClassId));
+        this.initWithTrack(trackDef, replay.raceMode, { carId: replay.carId, colorId: replay.colorId }, replay.seed);
+        if (replay.itemPool) {
+            this.itemSystem.setItemPool(replay.itemPool);
+        }
+    };
+    Game.prototype.init = function () {
+        logInfo("Game.init()");
+        var defaultTrack = getTrackDefinition('test_oval');
+        if (defaultTrack) {
+            this.initWithTrack(defaultTrack, RaceMode.GRAND_PRIX);
+        }
+        else {
+            this.initWithTrack({
+                id: 'fallback',
+                name: 'Fallback Track',
+                description: 'Default fallback',
+                difficulty: 1,
+                laps: 2,
+                themeId: 'synthwave',
+                estimatedLapTime: 30,
+                sections: [
+                    { type: 'straight', length: 15 },
+                    { type: 'curve', length: 15, curve: 0.5 },
+                    { type: 'straight', length: 15 },
+                    { type: 'curve', length: 15, curve: 0.5 }
+                ]
+            });
+        }
+    };
+    Game.prototype.run = function () {
+        debugLog.info("Entering game loop");
+        this.clock.reset();
+        var frameCount = 0;
+        var lastLogTime = 0;
+        while (this.running) {
+            var deltaMs = this.clock.getDelta();
+            frameCount++;
+            this.processInput();
+            if (!this.paused && this.state) {
+                var ticks = this.timestep.update(deltaMs);
+                for (var i = 0; i < ticks; i++) {
+                    this.tick(this.timestep.getDt());
                 }
-                for (var s = 0; s < halfLen; s++) {
-                    heading -= sCurve;
-                    x += Math.cos(heading) * stepSize;
-                    y += Math.sin(heading) * stepSize;
-                    points.push({ x: x, y: y });
+                this.controls.endFrame();
+                if (this.state.time - lastLogTime >= 1.0) {
+                    debugLog.logVehicle(this.state.playerVehicle);
+                    lastLogTime = this.state.time;
                 }
-                break;
+                if (this.state.finished && this.state.racing === false) {
+                    debugLog.info("Race complete! Final time: " + this.state.time.toFixed(2));
+                    if (this.broadcaster) {
+                        this.broadcaster.publish(this.state, this.itemSystem, false);
+                    }
+                    this.showGameOverScreen();
+                    this.running = false;
+                }
+            }
+            if (this.broadcaster && this.state && this.running) {
+                this.broadcaster.update(this.state, this.itemSystem, this.paused);
+            }
+            this.render(this.timestep.getAlpha());
+            mswait(1);
         }
-    }
-    var startX = points[0].x;
-    var startY = points[0].y;
-    var endX = points[points.length - 1].x;
-    var endY = points[points.length - 1].y;
-    var closeSteps = 15;
-    for (var s = 1; s <= closeSteps; s++) {
-        var t = s / closeSteps;
-        var smoothT = t * t * (3 - 2 * t);
-        points.push({
-            x: endX + (startX - endX) * smoothT,
-            y: endY + (startY - endY) * smoothT
-        });
-    }
-    return points;
-}
-function normalizeAndCenterPath(points, width, height) {
-    if (points.length === 0)
-        return points;
-    var minX = points[0].x, maxX = points[0].x;
-    var minY = points[0].y, maxY = points[0].y;
-    for (var i = 1; i < points.length; i++) {
-        if (points[i].x < minX)
-            minX = points[i].x;
-        if (points[i].x > maxX)
-            maxX = points[i].x;
-        if (points[i].y < minY)
-            minY = points[i].y;
-        if (points[i].y > maxY)
-            maxY = points[i].y;
-    }
-    var pathWidth = maxX - minX;
-    var pathHeight = maxY - minY;
-    var padding = 3;
-    var availWidth = width - padding * 2;
-    var availHeight = height - padding * 2;
-    var scaleX = pathWidth > 0 ? availWidth / pathWidth : 1;
-    var scaleY = pathHeight > 0 ? availHeight / pathHeight : 1;
-    var scale = Math.min(scaleX, scaleY);
-    var scaledWidth = pathWidth * scale;
-    var scaledHeight = pathHeight * scale;
-    var offsetX = padding + (availWidth - scaledWidth) / 2;
-    var offsetY = padding + (availHeight - scaledHeight) / 2;
-    var result = [];
-    for (var i = 0; i < points.length; i++) {
-        result.push({
-            x: (points[i].x - minX) * scale + offsetX,
-            y: (points[i].y - minY) * scale + offsetY
-        });
-    }
-    return result;
-}
-function generateOvalTrack(width, height) {
-    var points = [];
-    var cx = width / 2;
+    };
+    Game.prototype.step = function () {
+        if (!this.state)
+            return;
+        this.tick(this.timestep.getDt());
+        this.controls.endFrame();
+    };
+    Game.prototype.getState = function () {
+        return this.state;
+    };
+    Game.prototype.getControls = function () {
+        return this.controls;
+    };
+    Game.prototype.setItemEventListener = function (listener) {
+        this.itemEventListener = listener;
+    };
+    Game.prototype.setRival = function (personaId) {
+        this.rivalId = personaId;
+    };
+    Game.prototype.setBroadcaster = function (broadcaster) {
+        this.broadcaster = broadcaster;
+    };
+    Game.prototype.setCamera = function (vehicle) {
+        this.cameraVehicle = vehicle;
+    };
+    Game.prototype.setHudOverlay = function (overlay) {
+        this.hudOverlay = overlay;
+    };
+    Game.prototype.setRaceClass = function (raceClass) {
+        this.raceClass = raceClass;
+    };
+    Game.prototype.processInput = function () {
+        var now = this.clock.now();
+        var key;
+        while ((key = console.inkey(K_NONE, 0)) !== '') {
+            if (this.pauseMenu.isOpen()) {
+                this.handlePauseMenuKey(key);
+                if (!this.running)
+                    return;
+            }
+            else {
+                this.controls.handleKey(key, now);
+            }
+        }
+        this.controls.update(now);
+        if (this.controls.wasJustPressed(GameAction.QUIT)) {
+            debugLog.info("QUIT action triggered - confirming");
+            this.openPauseMenu(true);
+            this.controls.endFrame();
+            return;
+        }
+        if (this.controls.wasJustPressed(GameAction.PAUSE) && !this.session) {
+            this.openPauseMenu(false);
+            this.controls.endFrame();
+            return;
+        }
+    };
+    Game.prototype.tick = function (dt) {
+        if (!this.state)
+            return;
+        this.interpolator.capture(this.state, this.getInterpolatedEntities());
+        if (this.replayInput) {
+            this.replayInput.apply(this.controls);
+        }
+        else if (this.replayRecorder) {
+            this.replayRecorder.record(this.controls);
+        }
+        if (!this.state.raceStarted && this.state.raceMode !== RaceMode.TIME_TRIAL) {
+            this.state.countdown = this.session ? this.session.getCountdown() : this.state.countdown - dt;
+            if (this.state.countdown <= 0) {
+                this.state.raceStarted = true;
+                this.state.racing = true;
+                this.state.countdown = 0;
+                this.state.time = 0;
+                this.state.lapStartTime = 0;
+                this.hud.init(0);
+                for (var i = 0; i < this.state.vehicles.length; i++) {
+                    var vehicle = this.state.vehicles[i];
+                    var driver = vehicle.driver;
+                    if (driver && driver.setCanMove) {
+                        driver.setCanMove(true);
+                    }
+                }
+                debugLog.info("Race started! GO!");
+                this.ringBell();
+            }
+            return;
+        }
+        this.state.time += dt;
+        this.physicsSystem.update(this.state, dt);
+        var lapBefore = this.state.playerVehicle.lap;
+        var finishedBefore = this.state.finished;
+        this.raceSystem.update(this.state, dt);
+        if (this.state.playerVehicle.lap > lapBefore || (this.state.finished && !finishedBefore)) {
+            this.ringBell();
+        }
+        if (this.ghostRecorder && !this.state.finished) {
+            this.ghostRecorder.record(this.state.playerVehicle, this.state.road.totalLength);
+        }
+        if (this.ghostPlayer) {
+            this.ghostPlayer.step(this.state.road.totalLength);
+        }
+        if (this.state.raceMode === RaceMode.TIME_TRIAL) {
+            this.activateDormantNPCs();
+            this.applyNPCPacing();
+        }
+        this.itemSystem.update(dt, this.state.vehicles, this.state.road.totalLength);
+        this.itemSystem.checkPickups(this.state.vehicles, this.state.road);
+        if (this.controls.consumeJustPressed(GameAction.USE_ITEM)) {
+            var fireBackward = this.controls.getLastAccelAction() < 0;
+            var currentSpeed = this.state.playerVehicle.speed;
+            var currentAccel = this.controls.getAcceleration();
+            this.itemSystem.useItem(this.state.playerVehicle, this.state.vehicles, fireBackward);
+            if (currentAccel >= 0 && this.state.playerVehicle.speed < currentSpeed) {
+                this.state.playerVehicle.speed = currentSpeed;
+            }
+        }
+        for (var i = 0; i < this.state.vehicles.length; i++) {
+            var vehicle = this.state.vehicles[i];
+            if (vehicle === this.state.playerVehicle)
+                continue;
+            if (!vehicle.isRacer)
+                continue;
+            if (!vehicle.driver)
+                continue;
+            var intent = vehicle.driver.update(vehicle, this.state.track, dt);
+            if (intent.useItem && vehicle.heldItem !== null) {
+                this.itemSystem.useItem(vehicle, this.state.vehicles);
+            }
+        }
+        Collision.processVehicleCollisions(this.state.vehicles, this.state.rand);
+        if (this.state.raceMode === RaceMode.TIME_TRIAL) {
+            this.checkNPCRespawn();
+        }
+        if (this.session) {
+            this.session.update(this.state, this.itemSystem, dt);
+            if (this.state.finished) {
+                this.session.markFinished(this.state);
+            }
+        }
+        this.state.cameraX = this.state.playerVehicle.x;
+    };
+    Game.prototype.showGameOverScreen = function () {
+        if (!this.state)
+            return;
+        debugLog.info("Showing game over screen, waiting for ENTER...");
+        var player = this.state.playerVehicle;
+        var finalPosition = player.racePosition;
+        var finalTime = this.state.time;
+        var bestLap = this.state.bestLapTime > 0 ? this.state.bestLapTime : 0;
+        if (this.session) {
+            finalPosition = this.waitForMultiplayerFinish();
+        }
+        this.finalPosition = finalPosition;
+        var trackTimePosition = 0;
+        var lapTimePosition = 0;
+        var dailyPosition = 0;
+        if (this.highScoreManager && this.state.trackDefinition) {
+            var trackId = getRaceClassScoreId(this.state.trackDefinition.id, this.raceClass);
+            var trackName = getRaceClassScoreName(this.state.track.name, this.raceClass);
+            if (!this.dailyChallenge) {
+                trackTimePosition = this.highScoreManager.checkQualification(HighScoreType.TRACK_TIME, trackId, finalTime);
+            }
+            if (bestLap > 0) {
+                lapTimePosition = this.highScoreManager.checkQualification(HighScoreType.LAP_TIME, trackId, bestLap);
+            }
+            var playerName = this.getPlayerName();
+            if (trackTimePosition > 0) {
+                var hadTrackRecord = this.highScoreManager.getScores(HighScoreType.TRACK_TIME, trackId).length > 0;
+                this.highScoreManager.submitScore(HighScoreType.TRACK_TIME, trackId, playerName, finalTime, trackName);
+                logInfo("NEW HIGH SCORE! Track time #" + trackTimePosition + ": " + finalTime.toFixed(2));
+                this.trackRecord = trackTimePosition === 1 && hadTrackRecord;
+            }
+            if (lapTimePosition > 0) {
+                this.highScoreManager.submitScore(HighScoreType.LAP_TIME, trackId, playerName, bestLap, trackName);
+                logInfo("NEW HIGH SCORE! Lap time #" + lapTimePosition + ": " + bestLap.toFixed(2));
+            }
+            if (this.dailyChallenge) {
+                dailyPosition = this.highScoreManager.submitScore(HighScoreType.DAILY_TIME, this.dailyChallenge.dateKey, playerName, finalTime, this.state.track.name);
+                if (dailyPosition > 0) {
+                    logInfo("Daily Challenge " + this.dailyChallenge.dateKey + " #" + dailyPosition + ": " + finalTime.toFixed(2));
+                }
+            }
+        }
+        if (this.ghostRecorder && this.ghostStore && this.state.trackDefinition) {
+            var ghostData = this.ghostRecorder.finish(getRaceClassScoreId(this.state.trackDefinition.id, this.raceClass), this.getPlayerName(), player.carId, finalTime);
+            this.ghostStore.saveIfBetter(ghostData, this.getUserNumber());
+            this.ghostRecorder = null;
+        }
+        if (this.replayRecorder && this.replayStore && this.raceSetup) {
+            var replayData = this.replayRecorder.finish({
+                trackDef: this.raceSetup.trackDef,
+                raceMode: this.state.raceMode,
+                raceClassId: this.raceClass.id,
+                seed: this.state.seed,
+                carId: player.carId,
+                colorId: player.carColorId,
+                rivalId: this.rivalId,
+                itemPool: this.dailyChallenge ? this.dailyChallenge.itemSet.items : null
+            }, this.getUserNumber(), this.getPlayerName(), finalTime, finalPosition);
+            this.replayStore.save(replayData);
+            this.replayRecorder = null;
+        }
+        this.renderResultsScreen(finalPosition, finalTime, bestLap);
+        while (true) {
+            var key = console.inkey(K_NONE, 100);
+            if (key === '\r' || key === '\n') {
+                debugLog.info("ENTER pressed, exiting game over screen");
+                break;
+            }
+        }
+        if (this.highScoreManager && this.dailyChallenge) {
+            showDailyChallengeScores(this.dailyChallenge, this.highScoreManager, dailyPosition);
+        }
+        else if (this.highScoreManager && this.state.trackDefinition && (trackTimePosition > 0 || lapTimePosition > 0)) {
+            showTwoColumnHighScores(getRaceClassScoreId(this.state.trackDefinition.id, this.raceClass), getRaceClassScoreName(this.state.track.name, this.raceClass), this.highScoreManager, trackTimePosition, lapTimePosition);
+        }
+    };
+    Game.prototype.waitForMultiplayerFinish = function () {
+        var session = this.session;
+        var state = this.state;
+        var lastPublish = 0;
+        var standings;
+        var done;
+        while (true) {
+            if (Date.now() - lastPublish >= 1000) {
+                session.publish(state);
+                lastPublish = Date.now();
+            }
+            session.poll(state, null);
+            standings = session.getStandings(state);
+            done = session.isEveryoneDone(state);
+            renderMultiplayerStandings(standings, done);
+            var key = console.inkey(K_NONE, 500);
+            if (key === '\r' || key === '\n')
+                break;
+        }
+        for (var i = 0; i < standings.length; i++) {
+            if (standings[i].isLocal)
+                return i + 1;
+        }
+        return standings.length;
+    };
+    Game.prototype.getPlayerName = function () {
+        try {
+            if (typeof user !== 'undefined' && user && user.alias) {
+                return user.alias;
+            }
+        }
+        catch (e) {
+        }
+        return "Player";
+    };
+    Game.prototype.getUserNumber = function () {
+        try {
+            if (typeof user !== 'undefined' && user && user.number) {
+                return user.number;
+            }
+        }
+        catch (e) {
+        }
+        return 0;
+    };
+    Game.prototype.renderResultsScreen = function (position, totalTime, bestLap) {
+        scene3d.selectRawDepth('glass');
+        console.clear(BG_BLACK, false);
+        var titleAttr = colorToAttr({ fg: YELLOW, bg: BG_BLACK });
+        var labelAttr = colorToAttr({ fg: WHITE, bg: BG_BLACK });
+        var valueAttr = colorToAttr({ fg: LIGHTGREEN, bg: BG_BLACK });
+        var boxAttr = colorToAttr({ fg: LIGHTCYAN, bg: BG_BLACK });
+        var promptAttr = colorToAttr({ fg: LIGHTMAGENTA, bg: BG_BLACK });
+        var viewWidth = 80;
+        var viewHeight = 24;
+        var boxWidth = 40;
+        var boxHeight = 12;
+        var boxX = Math.floor((viewWidth - boxWidth) / 2);
+        var topY = Math.floor((viewHeight - boxHeight) / 2);
+        scene3d.selectRawDepth('chrome');
+        console.gotoxy(boxX + 1, topY + 1);
+        console.attributes = boxAttr;
+        console.print(GLYPH.DBOX_TL);
+        for (var i = 1; i < boxWidth - 1; i++) {
+            console.print(GLYPH.DBOX_H);
+        }
+        console.print(GLYPH.DBOX_TR);
+        for (var j = 1; j < boxHeight - 1; j++) {
+            console.gotoxy(boxX + 1, topY + 1 + j);
+            console.print(GLYPH.DBOX_V);
+            for (var i = 1; i < boxWidth - 1; i++) {
+                console.print(' ');
+            }
+            console.print(GLYPH.DBOX_V);
+        }
+        console.gotoxy(boxX + 1, topY + boxHeight);
+        console.print(GLYPH.DBOX_BL);
+        for (var i = 1; i < boxWidth - 1; i++) {
+            console.print(GLYPH.DBOX_H);
+        }
+        console.print(GLYPH.DBOX_BR);
+        scene3d.selectRawDepth('title');
+        var title = "=== RACE COMPLETE ===";
+        console.gotoxy(boxX + 1 + Math.floor((boxWidth - title.length) / 2), topY + 3);
+        console.attributes = titleAttr;
+        console.print(title);
+        scene3d.selectRawDepth('content');
+        var posSuffix = PositionIndicator.getOrdinalSuffix(position);
+        console.gotoxy(boxX + 5, topY + 5);
+        console.attributes = labelAttr;
+        console.print("FINAL POSITION:");
+        console.gotoxy(boxX + 23, topY + 5);
+        console.attributes = valueAttr;
+        console.print(position + posSuffix);
+        console.gotoxy(boxX + 5, topY + 6);
+        console.attributes = labelAttr;
+        console.print("TOTAL TIME:");
+        console.gotoxy(boxX + 23, topY + 6);
+        console.attributes = valueAttr;
+        console.print(LapTimer.format(totalTime));
+        console.gotoxy(boxX + 5, topY + 7);
+        console.attributes = labelAttr;
+        console.print("BEST LAP:");
+        console.gotoxy(boxX + 23, topY + 7);
+        console.attributes = valueAttr;
+        console.print(bestLap > 0 ? LapTimer.format(bestLap) : "--:--.--");
+        var winner = this.getRaceWinnerName();
+        if (winner) {
+            console.gotoxy(boxX + 5, topY + 8);
+            console.attributes = labelAttr;
+            console.print("WINNER:");
+            console.gotoxy(boxX + 23, topY + 8);
+            console.attributes = valueAttr;
+            console.print(winner);
+        }
+        console.gotoxy(boxX + 5, topY + 9);
+        console.attributes = labelAttr;
+        console.print("TRACK:");
+        console.gotoxy(boxX + 23, topY + 9);
+        console.attributes = valueAttr;
+        console.print(this.state.track.name);
+        scene3d.selectRawDepth('prompt');
+        var prompt = "Press ENTER to continue";
+        console.gotoxy(boxX + 1 + Math.floor((boxWidth - prompt.length) / 2), topY + 11);
+        console.attributes = promptAttr;
+        console.print(prompt);
+        scene3d.selectRawDepth('glass');
+    };
+    Game.prototype.getRaceWinnerName = function () {
+        if (!this.state || this.session || this.state.raceMode !== RaceMode.GRAND_PRIX)
+            return null;
+        for (var i = 0; i < this.state.vehicles.length; i++) {
+            var v = this.state.vehicles[i];
+            if (v.racePosition !== 1)
+                continue;
+            if (v === this.state.playerVehicle)
+                return "YOU";
+            if (v.isRacer && v.driver instanceof RacerDriver)
+                return v.driver.name;
+        }
+        return null;
+    };
+    Game.prototype.activateDormantNPCs = function () {
+        if (!this.state)
+            return;
+        var playerZ = this.state.playerVehicle.trackZ;
+        var roadLength = this.state.road.totalLength;
+        for (var i = 0; i < this.state.vehicles.length; i++) {
+            var npc = this.state.vehicles[i];
+            if (!npc.isNPC || npc.isRacer)
+                continue;
+            var driver = npc.driver;
+            if (driver.isActive())
+                continue;
+            var dist = npc.trackZ - playerZ;
+            if (dist < 0)
+                dist += roadLength;
+            if (dist < driver.getActivationRange()) {
+                driver.activate();
+                debugLog.info("NPC activated at distance " + dist.toFixed(0));
+            }
+        }
+    };
+    Game.prototype.checkNPCRespawn = function () {
+        if (!this.state)
+            return;
+        var rand = this.state.rand;
+        var playerZ = this.state.playerVehicle.trackZ;
+        var roadLength = this.state.road.totalLength;
+        var respawnDistance = 100;
+        var npcs = [];
+        for (var i = 0; i < this.state.vehicles.length; i++) {
+            if (this.state.vehicles[i].isNPC && !this.state.vehicles[i].isRacer) {
+                npcs.push(this.state.vehicles[i]);
+            }
+        }
+        if (npcs.length === 0)
+            return;
+        var idealSpacing = roadLength / npcs.length;
+        var respawnCount = 0;
+        for (var j = 0; j < npcs.length; j++) {
+            var npc = npcs[j];
+            var distBehind = playerZ - npc.trackZ;
+            if (distBehind > respawnDistance) {
+                var slotOffset = idealSpacing * (respawnCount + 1);
+                var newZ = (playerZ + slotOffset) % roadLength;
+                npc.trackZ = newZ;
+                npc.z = newZ;
+                var driver = npc.driver;
+                driver.deactivate();
+                npc.speed = 0;
+                var laneChoice = rand.next();
+                if (laneChoice < 0.4) {
+                    npc.playerX = -0.35 + (rand.next() - 0.5) * 0.2;
+                }
+                else if (laneChoice < 0.8) {
+                    npc.playerX = 0.35 + (rand.next() - 0.5) * 0.2;
+                }
+                else {
+                    npc.playerX = (rand.next() - 0.5) * 0.3;
+                }
+                npc.isCrashed = false;
+                npc.crashTimer = 0;
+                npc.flashTimer = 0;
+                respawnCount++;
+            }
+        }
+    };
+    Game.prototype.applyNPCPacing = function () {
+        if (!this.state)
+            return;
+        var playerZ = this.state.playerVehicle.trackZ;
+        var roadLength = this.state.road.totalLength;
+        for (var i = 0; i < this.state.vehicles.length; i++) {
+            var npc = this.state.vehicles[i];
+            if (!npc.isNPC)
+                continue;
+            var driver = npc.driver;
+            if (!driver.isActive())
+                continue;
+            var distance = npc.trackZ - playerZ;
+            if (distance < 0)
+                distance += roadLength;
+            var commuterBaseSpeed = npc.stats.maxSpeed * driver.getSpeedFactor();
+            if (distance < 100) {
+                var slowFactor = 0.7 + (distance / 100) * 0.3;
+                npc.speed = commuterBaseSpeed * slowFactor;
+            }
+            else {
+                npc.speed = commuterBaseSpeed;
+            }
+        }
+    };
+    Game.prototype.render = function (alpha) {
+        if (!this.state)
+            return;
+        var entities = this.getInterpolatedEntities();
+        this.interpolator.apply(this.state, entities, alpha === undefined ? 1 : alpha);
+        this.drawFrame();
+        this.interpolator.restore(this.state);
+    };
+    Game.prototype.getInterpolatedEntities = function () {
+        var state = this.state;
+        var entities = state.vehicles.concat(this.itemSystem.getProjectiles());
+        if (this.ghostPlayer) {
+            entities.push(this.ghostPlayer.getVehicle());
+        }
+        return entities;
+    };
+    Game.prototype.drawFrame = function () {
+        if (!this.state)
+            return;
+        var vehicle = this.cameraVehicle || this.state.playerVehicle;
+        var player = this.state.playerVehicle;
+        var trackZ = vehicle.z;
+        var road = this.state.road;
+        var curvature = road.getCurvature(trackZ);
+        var playerSteer = vehicle.playerX;
+        var speed = this.paused ? 0 : vehicle.speed;
+        var dt = 1.0 / this.config.tickRate;
+        var accel = vehicle === player ? this.controls.getAcceleration() : 1;
+        var brakeLightsOn = accel <= 0;
+        if (this.renderer.setBrakeLightState) {
+            this.renderer.setBrakeLightState(brakeLightsOn);
+        }
+        this.renderer.beginFrame();
+        this.renderer.renderSky(trackZ, curvature, playerSteer, speed, dt);
+        this.renderer.renderRoad(trackZ, vehicle === player ? this.state.cameraX : vehicle.x, this.state.track, this.state.road);
+        var renderVehicles = this.state.vehicles;
+        if (this.ghostPlayer) {
+            renderVehicles = renderVehicles.concat([this.ghostPlayer.getVehicle()]);
+        }
+        if (vehicle !== player) {
+            vehicle.isNPC = false;
+            player.isNPC = true;
+        }
+        this.renderer.renderEntities(vehicle, renderVehicles, this.itemSystem.getItemBoxes(), this.itemSystem.getProjectiles());
+        if (vehicle !== player) {
+            vehicle.isNPC = true;
+            player.isNPC = false;
+        }
+        var hudData = this.hud.compute(vehicle, this.state.track, this.state.road, this.state.vehicles, this.state.time, this.state.countdown, this.state.raceMode);
+        this.renderer.renderHud(hudData);
+        var hudFrame = this.renderer.getHudFrame ? this.renderer.getHudFrame() : null;
+        if (hudFrame && this.hudOverlay) {
+            this.hudOverlay(hudFrame);
+        }
+        if (hudFrame && this.pauseMenu.isOpen()) {
+            this.pauseMenu.draw(hudFrame, this.inputMap);
+        }
+        this.renderer.endFrame();
+    };
+    Game.prototype.openPauseMenu = function (confirmQuit) {
+        if (confirmQuit || this.session) {
+            this.pauseMenu.showQuitConfirm();
+        }
+        else {
+            this.pauseMenu.show();
+        }
+        this.controls.clearAll();
+        if (!this.session) {
+            this.paused = true;
+        }
+        logInfo("Game paused");
+    };
+    Game.prototype.resumeFromPause = function () {
+        this.pauseMenu.hide();
+        if (this.paused) {
+            this.paused = false;
+            this.clock.reset();
+            this.timestep.reset();
+        }
+        logInfo("Game resumed");
+    };
+    Game.prototype.handlePauseMenuKey = function (key) {
+        var action = this.pauseMenu.handleKey(key);
+        if (action === null) {
+            if (!this.session && this.inputMap.getAction(key) === GameAction.PAUSE) {
+                this.resumeFromPause();
+            }
+            return;
+        }
+        switch (action) {
+            case 'resume':
+                this.resumeFromPause();
+                break;
+            case 'restart':
+                this.restartRace();
+                break;
+            case 'quit':
+                debugLog.info("Quit confirmed - exiting game loop");
+                this.pauseMenu.hide();
+                this.running = false;
+                break;
+            case 'settings':
+                this.applyPlayerSettings();
+                break;
+            case 'controls':
+                showControlsMenu(this.getUserNumber());
+                var rootFrame = this.renderer.getRootFrame ? this.renderer.getRootFrame() : null;
+                if (rootFrame) {
+                    rootFrame.invalidate();
+                }
+                break;
+        }
+    };
+    Game.prototype.applyPlayerSettings = function () {
+        var settings = getPlayerSettings();
+        new PlayerSettingsStore().save(settings, this.getUserNumber());
+        this.hud.setMinimapVisible(settings.hudLayout === 'full');
+    };
+    Game.prototype.restartRace = function () {
+        if (!this.raceSetup)
+            return;
+        var setup = this.raceSetup;
+        logInfo("Game: restarting race");
+        this.pauseMenu.hide();
+        this.controls.clearAll();
+        this.renderer.shutdown();
+        if (this.dailyChallenge) {
+            this.initDailyChallenge(setup.trackDef, this.dailyChallenge);
+        }
+        else {
+            this.initWithTrack(setup.trackDef, setup.raceMode, setup.carSelection, setup.seed);
+        }
+        this.paused = false;
+        this.clock.reset();
+        this.timestep.reset();
+    };
+    Game.prototype.ringBell = function () {
+        if (getPlayerSettings().bell && typeof console !== 'undefined') {
+            console.beep();
+        }
+    };
+    Game.prototype.spawnRacers = function (count, road) {
+        if (!this.state)
+            return;
+        var rand = this.state.rand;
+        for (var i = 0; i < count && i < RIVAL_ROSTER.length; i++) {
+            var persona = RIVAL_ROSTER[i];
+            var racer = new Vehicle();
+            var driver = RacerDriver.fromPersona(persona, rand, this.raceClass);
+            driver.setRaceContext(road, this.state.vehicles);
+            if (persona.id === this.rivalId) {
+                driver.setRival(this.state.playerVehicle);
+            }
+            racer.driver = driver;
+            racer.isNPC = true;
+            racer.isRacer = true;
+            racer.setCar(persona.carId);
+            racer.npcType = getRivalSpriteType(persona);
+            racer.npcColorIndex = getRivalSpriteColorIndex(persona);
+            var carColor = getCarColor(persona.colorId);
+            racer.color = carColor ? carColor.body : LIGHTGRAY;
+            racer.trackZ = 0;
+            racer.z = 0;
+            racer.playerX = 0;
+            this.state.vehicles.push(racer);
+        }
+        debugLog.info("Spawned " + count + " CPU racers for Grand Prix");
+    };
+    Game.prototype.positionOnStartingGrid = function () {
+        if (!this.state)
+            return;
+        var vehicles = this.state.vehicles;
+        var grid = new SpawnPointManager(this.state.track);
+        var playerIdx = -1;
+        for (var p = 0; p < vehicles.length; p++) {
+            if (!vehicles[p].isNPC) {
+                playerIdx = p;
+                break;
+            }
+        }
+        var aiSlot = 1;
+        for (var v = 0; v < vehicles.length; v++) {
+            var vehicle = vehicles[v];
+            grid.placeVehicle(vehicle, v === playerIdx ? 0 : aiSlot++);
+            vehicle.lap = 1;
+            vehicle.checkpoint = 0;
+            vehicle.racePosition = 1;
+            debugLog.info("Grid slot " + v + " (NPC=" + vehicle.isNPC + "): trackZ=" + vehicle.trackZ.toFixed(0) + " X=" + vehicle.playerX.toFixed(2));
+        }
+        debugLog.info("Positioned " + vehicles.length + " vehicles on starting grid (player at front)");
+    };
+    Game.prototype.positionMultiplayerGrid = function () {
+        if (!this.state)
+            return;
+        var vehicles = this.state.vehicles;
+        var grid = new SpawnPointManager(this.state.track);
+        for (var i = 0; i < vehicles.length; i++) {
+            var vehicle = vehicles[i];
+            grid.placeVehicle(vehicle, i);
+            vehicle.lap = 1;
+            vehicle.checkpoint = 0;
+            vehicle.racePosition = i + 1;
+        }
+        debugLog.info("Positioned " + vehicles.length + " multiplayer racers on starting grid");
+    };
+    Game.prototype.blockDrivers = function () {
+        if (!this.state)
+            return;
+        for (var i = 0; i < this.state.vehicles.length; i++) {
+            var drv = this.state.vehicles[i].driver;
+            if (drv && drv.setCanMove) {
+                drv.setCanMove(false);
+            }
+        }
+    };
+    Game.prototype.spawnNPCs = function (count, road) {
+        if (!this.state)
+            return;
+        var rand = this.state.rand;
+        var roadLength = road.totalLength;
+        var spacing = roadLength / count;
+        for (var i = 0; i < count; i++) {
+            var npc = new Vehicle();
+            npc.driver = new CommuterDriver(undefined, rand);
+            npc.isNPC = true;
+            var typeIndex = rand.nextInt(0, NPC_VEHICLE_TYPES.length - 1);
+            npc.npcType = NPC_VEHICLE_TYPES[typeIndex];
+            npc.npcColorIndex = rand.nextInt(0, NPC_VEHICLE_COLORS.length - 1);
+            var colorPalette = NPC_VEHICLE_COLORS[npc.npcColorIndex];
+            npc.color = colorPalette.body;
+            var baseZ = spacing * i;
+            var jitter = spacing * 0.2 * (rand.next() - 0.5);
+            npc.trackZ = (baseZ + jitter + roadLength) % roadLength;
+            npc.z = npc.trackZ;
+            var laneOffset = (i % 2 === 0) ? -0.3 : 0.3;
+            npc.playerX = laneOffset + (rand.next() - 0.5) * 0.4;
+            this.state.vehicles.push(npc);
+        }
+        debugLog.info("Spawned " + count + " NPC commuters");
+    };
+    Game.prototype.isRunning = function () {
+        return this.running;
+    };
+    Game.prototype.getFinalRaceResults = function () {
+        if (!this.state || !this.state.finished)
+            return null;
+        var positions = [];
+        positions.push({
+            id: 1,
+            position: this.state.playerVehicle.racePosition
+        });
+        var aiId = 2;
+        for (var i = 0; i < this.state.vehicles.length; i++) {
+            var v = this.state.vehicles[i];
+            if (v !== this.state.playerVehicle && v.isRacer) {
+                positions.push({
+                    id: aiId++,
+                    position: v.racePosition
+                });
+            }
+        }
+        return {
+            positions: positions,
+            playerTime: this.state.time,
+            playerBestLap: this.state.bestLapTime > 0 ? this.state.bestLapTime : this.state.time / this.state.track.laps
+        };
+    };
+    Game.prototype.getCareerResult = function () {
+        if (!this.state || !this.state.trackDefinition)
+            return null;
+        var player = this.state.playerVehicle;
+        var raceLength = this.state.road.totalLength * this.state.track.laps;
+        var distance = Math.max(0, player.lap - 1) * this.state.road.totalLength + player.trackZ;
+        return {
+            trackId: this.state.trackDefinition.id,
+            carId: player.carId,
+            finished: this.state.finished,
+            position: this.state.raceMode === RaceMode.TIME_TRIAL ? 0 : this.finalPosition,
+            distance: Math.min(distance, raceLength),
+            itemUses: this.playerItemUses,
+            trackRecord: this.trackRecord
+        };
+    };
+    Game.prototype.shutdown = function () {
+        logInfo("Game.shutdown()");
+        if (this.session) {
+            this.session.leave(this.state);
+            this.session = null;
+        }
+        if (this.broadcaster) {
+            this.broadcaster.stop();
+            this.broadcaster = null;
+        }
+        this.renderer.shutdown();
+        this.controls.clearAll();
+    };
+    return Game;
+}());
+"use strict";
+var Spectator = (function () {
+    function Spectator(channel, config, renderer) {
+        this.channel = channel;
+        this.config = config || createGameConfig();
+        this.clock = new Clock();
+        this.renderer = renderer || new FrameRenderer(this.config.screenWidth, this.config.screenHeight);
+        this.hud = new Hud(this.config.screenWidth);
+        this.record = null;
+        this.road = null;
+        this.track = null;
+        this.cars = [];
+        this.itemBoxes = [];
+        this.projectiles = [];
+        this.cameraId = -1;
+        this.lastPoll = 0;
+    }
+    Spectator.prototype.watch = function (node) {
+        var record = readRaceBroadcast(this.channel, node);
+        if (!record || !this.setup(record))
+            return false;
+        logInfo("Spectator: watching node " + node + " on " + record.trackId);
+        this.cameraId = -1;
+        this.lastPoll = Date.now();
+        this.clock.reset();
+        var quit = false;
+        try {
+            while (true) {
+                var dt = this.clock.getDelta() / 1000;
+                if (this.processInput()) {
+                    quit = true;
+                    break;
+                }
+                var now = Date.now();
+                if (now - this.lastPoll >= RACE_BROADCAST_INTERVAL_MS) {
+                    this.lastPoll = now;
+                    record = readRaceBroadcast(this.channel, node);
+                    if (!record)
+                        break;
+                    this.receive(record);
+                }
+                this.advance(dt);
+                this.render();
+                mswait(1);
+            }
+        }
+        finally {
+            this.renderer.shutdown();
+        }
+        logInfo("Spectator: stopped watching node " + node + (quit ? "" : " (race over)"));
+        return quit;
+    };
+    Spectator.prototype.setup = function (record) {
+        var baseDef = getTrackDefinition(record.trackId);
+        if (!baseDef) {
+            logError("Spectator: unknown track " + record.trackId);
+            return false;
+        }
+        var trackDef = record.laps !== baseDef.laps ? getTrackWithLaps(baseDef, record.laps) : baseDef;
+        var mirror = getRaceClass(record.raceClassId).mirror;
+        this.renderer.init();
+        if (this.renderer.setTheme) {
+            this.renderer.setTheme(getTrackThemeName(trackDef));
+        }
+        if (this.renderer.setBrakeLightState) {
+            this.renderer.setBrakeLightState(false);
+        }
+        this.road = buildRoadFromDefinition(trackDef, mirror);
+        this.track = new RoadTrack(this.road);
+        this.hud.init(0);
+        this.hud.initMinimap(trackDef, mirror);
+        this.hud.setMinimapVisible(getPlayerSettings().hudLayout === 'full');
+        this.cars = [];
+        this.receive(record);
+        return true;
+    };
+    Spectator.prototype.receive = function (record) {
+        this.record = record;
+        var sameGrid = this.cars.length === record.vehicles.length;
+        for (var i = 0; sameGrid && i < record.vehicles.length; i++) {
+            sameGrid = this.cars[i].vehicle.id === record.vehicles[i].id;
+        }
+        if (!sameGrid) {
+            this.cars = [];
+            for (var c = 0; c < record.vehicles.length; c++) {
+                this.cars.push(createSpectatorCar(record.node, record.vehicles[c]));
+            }
+        }
+        for (var v = 0; v < record.vehicles.length; v++) {
+            var data = record.vehicles[v];
+            var car = this.cars[v];
+            car.driver.receive({
+                time: record.time,
+                trackZ: data.trackZ,
+                playerX: data.playerX,
+                speed: data.speed,
+                lap: data.lap,
+                flash: data.flash
+            });
+            car.vehicle.racePosition = data.position;
+            car.vehicle.heldItem = data.item !== ItemType.NONE ? { type: data.item, uses: 1, activated: false } : null;
+        }
+        this.itemBoxes = [];
+        for (var b = 0; b < record.itemBoxes.length; b++) {
+            var box = new Item(ItemType.NONE);
+            box.x = record.itemBoxes[b].x;
+            box.z = record.itemBoxes[b].z;
+            if (!record.itemBoxes[b].available)
+                box.respawnCountdown = 1;
+            this.itemBoxes.push(box);
+        }
+        this.projectiles = [];
+        for (var p = 0; p < record.projectiles.length; p++) {
+            var shot = record.projectiles[p];
+            var projectile = shot.speed === 0 ? new Banana() : new Shell(shot.shellType);
+            projectile.trackZ = shot.trackZ;
+            projectile.playerX = shot.playerX;
+            projectile.speed = shot.speed;
+            this.projectiles.push(projectile);
+        }
+    };
+    Spectator.prototype.advance = function (dt) {
+        if (!this.record || !this.road)
+            return;
+        var raceTime = this.getRaceTime();
+        var length = this.road.totalLength;
+        for (var i = 0; i < this.cars.length; i++) {
+            var vehicle = this.cars[i].vehicle;
+            this.cars[i].driver.place(vehicle, this.road, raceTime, dt);
+            if (vehicle.flashTimer > 0)
+                vehicle.flashTimer -= dt;
+        }
+        if (!this.record.paused) {
+            for (var p = 0; p < this.projectiles.length; p++) {
+                var projectile = this.projectiles[p];
+                projectile.trackZ = (projectile.trackZ + projectile.speed * dt + length) % length;
+            }
+        }
+    };
+    Spectator.prototype.getRaceTime = function () {
+        var record = this.record;
+        if (record.paused || record.finished || record.countdown > 0)
+            return record.time;
+        return record.time + Math.max(0, Date.now() - record.updated) / 1000;
+    };
+    Spectator.prototype.getCountdown = function () {
+        var record = this.record;
+        if (record.countdown <= 0 || record.paused)
+            return record.countdown;
+        return Math.max(0.01, record.countdown - Math.max(0, Date.now() - record.updated) / 1000);
+    };
+    Spectator.prototype.processInput = function () {
+        var key;
+        while ((key = console.inkey(K_NONE, 0)) !== '') {
+            var upper = key.toUpperCase();
+            if (upper === 'Q' || key === KEY_ESC)
+                return true;
+            if (key === '[' || key === KEY_LEFT || key === '4') {
+                this.switchCamera(-1);
+            }
+            else if (key === ']' || key === KEY_RIGHT || key === '6') {
+                this.switchCamera(1);
+            }
+            else if (upper === 'L') {
+                this.cameraId = -1;
+            }
+            else if (upper === 'P') {
+                for (var i = 0; i < this.cars.length; i++) {
+                    if (this.cars[i].isPlayer)
+                        this.cameraId = this.cars[i].vehicle.id;
+                }
+            }
+        }
+        return false;
+    };
+    Spectator.prototype.switchCamera = function (step) {
+        var racers = this.getRacersByPosition();
+        if (racers.length === 0)
+            return;
+        var index = racers.indexOf(this.getCameraCar());
+        index = (index + step + racers.length) % racers.length;
+        this.cameraId = racers[index].vehicle.id;
+    };
+    Spectator.prototype.getRacersByPosition = function () {
+        var racers = this.cars.filter(function (car) { return car.vehicle.isRacer; });
+        racers.sort(function (a, b) { return a.vehicle.racePosition - b.vehicle.racePosition; });
+        return racers;
+    };
+    Spectator.prototype.getCameraCar = function () {
+        for (var i = 0; i < this.cars.length; i++) {
+            if (this.cars[i].vehicle.id === this.cameraId)
+                return this.cars[i];
+        }
+        var racers = this.getRacersByPosition();
+        return racers.length > 0 ? racers[0] : this.cars[0];
+    };
+    Spectator.prototype.render = function () {
+        if (!this.record || !this.road || !this.track || this.cars.length === 0)
+            return;
+        var camera = this.getCameraCar();
+        var vehicles = [];
+        for (var i = 0; i < this.cars.length; i++) {
+            this.cars[i].vehicle.isNPC = this.cars[i] !== camera;
+            vehicles.push(this.cars[i].vehicle);
+        }
+        var vehicle = camera.vehicle;
+        var speed = this.record.paused ? 0 : vehicle.speed;
+        this.renderer.beginFrame();
+        this.renderer.renderSky(vehicle.z, this.road.getCurvature(vehicle.z), vehicle.playerX, speed, 1.0 / this.config.tickRate);
+        this.renderer.renderRoad(vehicle.z, vehicle.x, this.track, this.road);
+        this.renderer.renderEntities(vehicle, vehicles, this.itemBoxes, this.projectiles);
+        var countdown = this.getCountdown();
+        var hudData = this.hud.compute(vehicle, this.track, this.road, vehicles, countdown > 0 ? 0 : this.getRaceTime(), countdown, this.record.raceMode);
+        this.renderer.renderHud(hudData);
+        var hudFrame = this.renderer.getHudFrame ? this.renderer.getHudFrame() : null;
+        if (hudFrame) {
+            this.drawOverlay(hudFrame, camera);
+        }
+        this.renderer.endFrame();
+    };
+    Spectator.prototype.drawOverlay = function (frame, camera) {
+        var record = this.record;
+        var name = camera.driver.name || record.name;
+        drawSpectatorText(frame, 0, 0, "LIVE: " + name.substring(0, 24) + (this.cameraId === -1 ? " (leader)" : ""), makeAttr(LIGHTRED, BG_BLACK));
+        drawSpectatorText(frame, 0, 1, "[ ] Car  L Leader  P Node " + record.node + "  Q Exit", makeAttr(DARKGRAY, BG_BLACK));
+        var status = record.finished ? "FINISHED" : (record.paused ? "PAUSED" : "");
+        if (status) {
+            drawSpectatorText(frame, Math.floor((frame.width - status.length) / 2), Math.floor(frame.height / 2), status, makeAttr(YELLOW, BG_BLACK));
+        }
+    };
+    return Spectator;
+}());
+function createSpectatorCar(node, data) {
+    var vehicle = new Vehicle();
+    var driver = new RemoteDriver(node, data.name);
+    vehicle.id = data.id;
+    vehicle.driver = driver;
+    vehicle.isNPC = true;
+    vehicle.isRacer = data.racer;
+    vehicle.isRemote = true;
+    vehicle.npcType = data.npcType;
+    vehicle.npcColorIndex = data.npcColorIndex;
+    vehicle.setCar(data.carId);
+    vehicle.carColorId = data.colorId;
+    vehicle.color = data.color;
+    vehicle.trackZ = data.trackZ;
+    vehicle.playerX = data.playerX;
+    vehicle.lap = data.lap;
+    vehicle.racePosition = data.position;
+    return { vehicle: vehicle, driver: driver, isPlayer: data.player };
+}
+function drawSpectatorText(frame, x, y, text, attr) {
+    for (var i = 0; i < text.length; i++) {
+        if (x + i >= 0 && x + i < frame.width && y >= 0 && y < frame.height) {
+            frame.setData(x + i + 1, y + 1, text.charAt(i), attr);
+        }
+    }
+}
+"use strict";
+var REPLAY_SPEEDS = [1, 2, 4];
+var REPLAY_SEEK_SECONDS = 10;
+var ReplayViewer = (function () {
+    function ReplayViewer(replay, config, renderer) {
+        this.replay = replay;
+        this.trackDef = getReplayTrackDefinition(replay);
+        this.config = config || createGameConfig(replay.tickRate);
+        this.game = new Game(this.config, undefined, renderer);
+        this.clock = new Clock();
+        this.timestep = new FixedTimestep({
+            tickRate: this.config.tickRate,
+            maxTicksPerFrame: this.config.maxTicksPerFrame * REPLAY_SPEEDS[REPLAY_SPEEDS.length - 1]
+        });
+        this.tickCount = 0;
+        this.paused = false;
+        this.speedIndex = 0;
+        this.cameraIndex = 0;
+    }
+    ReplayViewer.prototype.play = function () {
+        if (!this.trackDef) {
+            logError("ReplayViewer: unknown track " + this.replay.trackId);
+            return false;
+        }
+        logInfo("ReplayViewer: playing " + this.replay.id);
+        var self = this;
+        this.restart();
+        this.watchPlayer();
+        this.game.setHudOverlay(function (frame) { self.drawOverlay(frame); });
+        this.clock.reset();
+        try {
+            while (true) {
+                var deltaMs = this.clock.getDelta();
+                if (this.processInput())
+                    break;
+                if (!this.paused && !this.isOver()) {
+                    var ticks = this.timestep.update(deltaMs * REPLAY_SPEEDS[this.speedIndex]);
+                    for (var i = 0; i < ticks && !this.isOver(); i++) {
+                        this.stepTick();
+                    }
+                }
+                this.updateCamera();
+                this.game.render(this.paused || this.isOver() ? 1 : this.timestep.getAlpha());
+                mswait(1);
+            }
+        }
+        finally {
+            this.game.shutdown();
+        }
+        logInfo("ReplayViewer: stopped at tick " + this.tickCount + "/" + this.replay.ticks);
+        return true;
+    };
+    ReplayViewer.prototype.restart = function () {
+        this.game.initReplay(this.replay, this.trackDef);
+        this.tickCount = 0;
+        this.timestep.reset();
+    };
+    ReplayViewer.prototype.stepTick = function () {
+        this.game.step();
+        this.tickCount++;
+    };
+    ReplayViewer.prototype.isOver = function () {
+        var state = this.game.getState();
+        return !state || this.tickCount >= this.replay.ticks || (state.finished && !state.racing);
+    };
+    ReplayViewer.prototype.seek = function (seconds) {
+        var target = this.tickCount + Math.round(seconds * this.config.tickRate);
+        target = Math.max(0, Math.min(this.replay.ticks, target));
+        if (target < this.tickCount) {
+            this.restart();
+        }
+        while (this.tickCount < target && !this.isOver()) {
+            this.stepTick();
+        }
+        this.timestep.reset();
+        this.clock.reset();
+    };
+    ReplayViewer.prototype.processInput = function () {
+        var key;
+        while ((key = console.inkey(K_NONE, 0)) !== '') {
+            var upper = key.toUpperCase();
+            if (upper === 'Q' || key === KEY_ESC)
+                return true;
+            if (key === ' ' || upper === 'P') {
+                this.paused = !this.paused;
+                this.timestep.reset();
+            }
+            else if (upper === 'F') {
+                this.speedIndex = (this.speedIndex + 1) % REPLAY_SPEEDS.length;
+            }
+            else if (key === KEY_LEFT || key === '4') {
+                this.seek(-REPLAY_SEEK_SECONDS);
+            }
+            else if (key === KEY_RIGHT || key === '6') {
+                this.seek(REPLAY_SEEK_SECONDS);
+            }
+            else if (key === '[') {
+                this.switchCamera(-1);
+            }
+            else if (key === ']') {
+                this.switchCamera(1);
+            }
+            else if (upper === 'L') {
+                this.cameraIndex = -1;
+            }
+            else if (upper === 'Y') {
+                this.watchPlayer();
+            }
+        }
+        return false;
+    };
+    ReplayViewer.prototype.switchCamera = function (step) {
+        var racers = this.getRacersByPosition();
+        if (racers.length === 0)
+            return;
+        var index = racers.indexOf(this.getCameraVehicle());
+        index = (index + step + racers.length) % racers.length;
+        this.cameraIndex = this.game.getState().vehicles.indexOf(racers[index]);
+    };
+    ReplayViewer.prototype.watchPlayer = function () {
+        var state = this.game.getState();
+        this.cameraIndex = state.vehicles.indexOf(state.playerVehicle);
+    };
+    ReplayViewer.prototype.getRacersByPosition = function () {
+        var state = this.game.getState();
+        if (!state)
+            return [];
+        var player = state.playerVehicle;
+        var racers = state.vehicles.filter(function (v) { return v === player || v.isRacer; });
+        racers.sort(function (a, b) { return a.racePosition - b.racePosition; });
+        return racers;
+    };
+    ReplayViewer.prototype.getCameraVehicle = function () {
+        var state = this.game.getState();
+        if (this.cameraIndex >= 0 && this.cameraIndex < state.vehicles.length) {
+            return state.vehicles[this.cameraIndex];
+        }
+        var racers = this.getRacersByPosition();
+        return racers.length > 0 ? racers[0] : state.playerVehicle;
+    };
+    ReplayViewer.prototype.updateCamera = function () {
+        var state = this.game.getState();
+        if (!state)
+            return;
+        var vehicle = this.getCameraVehicle();
+        this.game.setCamera(vehicle === state.playerVehicle ? null : vehicle);
+    };
+    ReplayViewer.prototype.drawOverlay = function (frame) {
+        var vehicle = this.getCameraVehicle();
+        var state = this.game.getState();
+        var name = vehicle === state.playerVehicle ? this.replay.playerName : getBroadcastDriverName(vehicle);
+        var clock = formatTime(this.tickCount / this.config.tickRate) + " / " +
+            formatTime(this.replay.ticks / this.config.tickRate);
+        drawSpectatorText(frame, 0, 0, "REPLAY: " + name.substring(0, 20) + (this.cameraIndex === -1 ? " (leader)" : "") + "  " + clock, makeAttr(LIGHTCYAN, BG_BLACK));
+        drawSpectatorText(frame, 0, 1, "SPACE Pause  F Speed  <- -> Seek  [ ] Car  L Leader  Y You  Q Exit", makeAttr(DARKGRAY, BG_BLACK));
+        var status = this.isOver() ? "END OF REPLAY" : (this.paused ? "PAUSED" : "");
+        var speed = REPLAY_SPEEDS[this.speedIndex];
+        if (!status && speed > 1)
+            status = speed + "x";
+        if (status) {
+            drawSpectatorText(frame, Math.floor((frame.width - status.length) / 2), Math.floor(frame.height / 2), status, makeAttr(YELLOW, BG_BLACK));
+        }
+    };
+    return ReplayViewer;
+}());
+"use strict";
+var HEADLESS_DEFAULT_TICKS = 60 * 60 * 10;
+function runHeadlessRace(options) {
+    var trackDef = getTrackDefinition(options.trackId);
+    if (!trackDef) {
+        logError("Headless: unknown track '" + options.trackId + "'");
+        return null;
+    }
+    var maxTicks = options.maxTicks !== undefined ? options.maxTicks : HEADLESS_DEFAULT_TICKS;
+    var input = options.input || new ScriptedInput([
+        { tick: 0, action: GameAction.ACCELERATE, hold: maxTicks }
+    ]);
+    OUTRUN_CONFIG.ghosts.enabled = false;
+    OUTRUN_CONFIG.replays.enabled = false;
+    var game = new Game(DEFAULT_CONFIG, undefined, new NullRenderer());
+    var tick = 0;
+    var itemEvents = [];
+    game.setItemEventListener(function (event) {
+        var entry = {
+            tick: tick,
+            type: event.type,
+            vehicleId: event.vehicleId,
+            item: ItemType[event.itemType]
+        };
+        if (event.sourceId !== undefined)
+            entry.sourceId = event.sourceId;
+        itemEvents.push(entry);
+    });
+    game.setRaceClass(getRaceClass(options.raceClassId));
+    game.initWithTrack(trackDef, options.raceMode || RaceMode.GRAND_PRIX, { carId: options.carId || 'sports', colorId: 'yellow' }, options.seed);
+    var state = game.getState();
+    var controls = game.getControls();
+    var tickMs = 1000 / DEFAULT_CONFIG.tickRate;
+    while (tick < maxTicks && !state.finished) {
+        input.apply(controls, tick, tick * tickMs);
+        game.step();
+        tick++;
+    }
+    return summarizeHeadlessRace(state, tick, itemEvents);
+}
+function summarizeHeadlessRace(state, ticks, itemEvents) {
+    var vehicles = [];
+    for (var i = 0; i < state.vehicles.length; i++) {
+        var v = state.vehicles[i];
+        var isPlayer = v === state.playerVehicle;
+        if (!isPlayer && !v.isRacer)
+            continue;
+        vehicles.push({
+            id: v.id,
+            name: isPlayer ? 'Player' : (v.driver instanceof RacerDriver ? v.driver.name : 'CPU ' + v.id),
+            isPlayer: isPlayer,
+            carId: v.carId,
+            position: v.racePosition,
+            lap: v.lap,
+            trackZ: roundTo(v.trackZ, 1),
+            speed: roundTo(v.speed, 1)
+        });
+    }
+    vehicles.sort(function (a, b) { return a.position - b.position; });
+    var lapTimes = [];
+    for (var j = 0; j < state.lapTimes.length; j++) {
+        lapTimes.push(roundTo(state.lapTimes[j], 3));
+    }
+    return {
+        trackId: state.trackDefinition.id,
+        raceMode: state.raceMode,
+        seed: state.seed,
+        ticks: ticks,
+        time: roundTo(state.time, 3),
+        finished: state.finished,
+        lapTimes: lapTimes,
+        bestLap: roundTo(state.bestLapTime, 3),
+        vehicles: vehicles,
+        itemEvents: itemEvents
+    };
+}
+function runHeadlessFromArgv(args) {
+    var opts = {};
+    for (var i = 0; i < args.length; i++) {
+        var eq = args[i].indexOf('=');
+        if (eq > 0) {
+            opts[args[i].substring(0, eq).toLowerCase()] = args[i].substring(eq + 1);
+        }
+    }
+    if (!opts['track']) {
+        print("usage: --headless track=<id> [mode=gp|tt] [seed=N] [ticks=N] [car=<id>] [class=<id>] [script=<file>] [out=<file>]");
+        return 1;
+    }
+    var options = {
+        trackId: opts['track'],
+        raceMode: opts['mode'] === 'tt' ? RaceMode.TIME_TRIAL : RaceMode.GRAND_PRIX,
+        carId: opts['car'],
+        raceClassId: opts['class']
+    };
+    if (opts['seed'] !== undefined)
+        options.seed = parseInt(opts['seed'], 10);
+    if (opts['ticks'] !== undefined)
+        options.maxTicks = parseInt(opts['ticks'], 10);
+    if (opts['script']) {
+        var script = readHeadlessFile(opts['script']);
+        var input = script !== null ? ScriptedInput.parse(parseHeadlessJson(script, opts['script']), opts['script']) : null;
+        if (!input) {
+            print("headless: invalid input script " + opts['script']);
+            return 1;
+        }
+        options.input = input;
+    }
+    var summary = runHeadlessRace(options);
+    if (!summary) {
+        print("headless: unknown track " + opts['track']);
+        return 1;
+    }
+    var json = JSON.stringify(summary, null, 2);
+    if (opts['out']) {
+        var f = new File(opts['out']);
+        if (!f.open('w')) {
+            print("headless: unable to write " + opts['out']);
+            return 1;
+        }
+        f.write(json);
+        f.close();
+    }
+    else {
+        print(json);
+    }
+    return 0;
+}
+function readHeadlessFile(path) {
+    var f = new File(path);
+    if (!f.open('r')) {
+        logError("Headless: unable to open " + path);
+        return null;
+    }
+    var content = f.read();
+    f.close();
+    return content;
+}
+function parseHeadlessJson(content, source) {
+    try {
+        return JSON.parse(content);
+    }
+    catch (e) {
+        logError("Headless: " + source + ": " + e);
+        return null;
+    }
+}
+function roundTo(value, places) {
+    var scale = Math.pow(10, places);
+    return Math.round(value * scale) / scale;
+}
+"use strict";
+var LEFT_PANEL_WIDTH = 22;
+var RIGHT_PANEL_START = 24;
+var CUSTOM_TRACKS_GROUP_ID = 'custom_tracks';
+var CIRCUIT_INFO_MAX_TRACKS = 8;
+var SCREEN_WIDTH = MIN_SCREEN_WIDTH;
+var SCREEN_HEIGHT = MIN_SCREEN_HEIGHT;
+function showTrackSelector(highScoreManager) {
+    var screen = getScreenSize();
+    SCREEN_WIDTH = screen.width;
+    SCREEN_HEIGHT = screen.height;
+    var state = {
+        mode: 'circuit',
+        circuitIndex: 0,
+        circuitTop: 0,
+        trackIndex: 0,
+        classIndex: RACE_CLASSES.indexOf(getRaceClass(DEFAULT_RACE_CLASS_ID))
+    };
+    scene3d.selectRawDepth('glass');
+    console.clear(LIGHTGRAY, false);
+    drawSelectorUI(state, highScoreManager);
+    while (true) {
+        var key = console.inkey(K_UPPER, 100);
+        if (key === '')
+            continue;
+        var needsRedraw = false;
+        var raceClass = RACE_CLASSES[state.classIndex];
+        var cups = getSelectorCircuits();
+        if (key === '<' || key === ',') {
+            state.classIndex = (state.classIndex - 1 + RACE_CLASSES.length) % RACE_CLASSES.length;
+            needsRedraw = true;
+        }
+        else if (key === '>' || key === '.') {
+            state.classIndex = (state.classIndex + 1) % RACE_CLASSES.length;
+            needsRedraw = true;
+        }
+        else if (state.mode === 'circuit') {
+            if (key === KEY_UP || key === 'W' || key === '8') {
+                state.circuitIndex = (state.circuitIndex - 1 + cups.length) % cups.length;
+                needsRedraw = true;
+            }
+            else if (key === KEY_DOWN || key === 'S' || key === '2') {
+                state.circuitIndex = (state.circuitIndex + 1) % cups.length;
+                needsRedraw = true;
+            }
+            else if (key === '\r' || key === '\n' || key === ' ' || key === KEY_RIGHT || key === 'D' || key === '6') {
+                state.mode = 'tracks';
+                state.trackIndex = 0;
+                needsRedraw = true;
+            }
+            else if (key === 'H' && highScoreManager && !isTrackGroup(cups[state.circuitIndex])) {
+                var circuit = cups[state.circuitIndex];
+                showHighScoreList(HighScoreType.CIRCUIT_TIME, getRaceClassScoreId(circuit.id, raceClass), '=== CIRCUIT HIGH SCORES ===', getRaceClassScoreName(getCupScoreName(circuit), raceClass), highScoreManager);
+                needsRedraw = true;
+            }
+            else if (key === 'B') {
+                var customResult = showCustomCupBuilder(raceClass, highScoreManager);
+                if (customResult.selected && customResult.track) {
+                    return customResult;
+                }
+                needsRedraw = true;
+            }
+            else if (key === 'Q' || key === KEY_ESC) {
+                return { selected: false, track: null };
+            }
+            else if (key === 'C') {
+                var dailyResult = showDailyChallengeMenu(highScoreManager);
+                if (dailyResult.selected && dailyResult.track) {
+                    return dailyResult;
+                }
+                needsRedraw = true;
+            }
+            else if (key === '?') {
+                var secretResult = showSecretTracksMenu();
+                if (secretResult.selected && secretResult.track) {
+                    return secretResult;
+                }
+                needsRedraw = true;
+            }
+        }
+        else {
+            var circuit = cups[state.circuitIndex];
+            var playIndex = circuit.trackIds.length;
+            var lastIndex = isTrackGroup(circuit) ? playIndex - 1 : playIndex;
+            if (key === KEY_UP || key === 'W' || key === '8') {
+                state.trackIndex--;
+                if (state.trackIndex < 0)
+                    state.trackIndex = lastIndex;
+                needsRedraw = true;
+            }
+            else if (key === KEY_DOWN || key === 'S' || key === '2') {
+                state.trackIndex++;
+                if (state.trackIndex > lastIndex)
+                    state.trackIndex = 0;
+                needsRedraw = true;
+            }
+            else if (key === '\r' || key === '\n' || key === ' ') {
+                if (state.trackIndex === playIndex) {
+                    var circuitTracks = getCupTracks(circuit);
+                    return {
+                        selected: true,
+                        track: circuitTracks[0],
+                        isCircuitMode: true,
+                        cup: circuit,
+                        raceClass: raceClass
+                    };
+                }
+                else {
+                    var trackDef = getTrackDefinition(circuit.trackIds[state.trackIndex]);
+                    if (trackDef) {
+                        return {
+                            selected: true,
+                            track: trackDef,
+                            isCircuitMode: false,
+                            raceClass: raceClass
+                        };
+                    }
+                }
+            }
+            else if (key === KEY_LEFT || key === 'A' || key === '4' || key === KEY_ESC) {
+                state.mode = 'circuit';
+                needsRedraw = true;
+            }
+            else if (key === 'H' && highScoreManager) {
+                if (state.trackIndex === playIndex) {
+                    showHighScoreList(HighScoreType.CIRCUIT_TIME, getRaceClassScoreId(circuit.id, raceClass), '=== CIRCUIT HIGH SCORES ===', getRaceClassScoreName(getCupScoreName(circuit), raceClass), highScoreManager);
+                }
+                else {
+                    var trackId = circuit.trackIds[state.trackIndex];
+                    var trackDef = getTrackDefinition(trackId);
+                    if (trackDef) {
+                        showTwoColumnHighScores(getRaceClassScoreId(trackId, raceClass), getRaceClassScoreName(trackDef.name, raceClass), highScoreManager, 0, 0);
+                    }
+                }
+                needsRedraw = true;
+            }
+            else if (key === 'Q') {
+                return { selected: false, track: null };
+            }
+            else if (key === '?') {
+                var secretResult = showSecretTracksMenu();
+                if (secretResult.selected && secretResult.track) {
+                    return secretResult;
+                }
+                needsRedraw = true;
+            }
+        }
+        if (needsRedraw) {
+            scene3d.selectRawDepth('glass');
+            console.clear(LIGHTGRAY, false);
+            drawSelectorUI(state, highScoreManager);
+        }
+    }
+}
+function getCupIcon(cup) {
+    if (cup.icon)
+        return cup.icon;
+    var words = cup.name.split(' ');
+    var initials = (words[0].charAt(0) + (words.length > 1 ? words[1].charAt(0) : '')).toUpperCase();
+    return [
+        ' ______ ',
+        '|      |',
+        '|  ' + padRight(initials, 2) + '  |',
+        ' \____/ ',
+        '   ||   '
+    ];
+}
+function getCupColor(cup) {
+    return cup.color !== undefined ? cup.color : WHITE;
+}
+function getSelectorCircuits() {
+    var customTracks = getCustomTracks().filter(function (track) { return !track.hidden; });
+    if (customTracks.length === 0)
+        return getAllCups();
+    return getAllCups().concat([{
+            id: CUSTOM_TRACKS_GROUP_ID,
+            name: 'CUSTOM TRACKS',
+            trackIds: customTracks.map(function (track) { return track.id; }),
+            description: 'Tracks added by your sysop',
+            icon: [
+                ' ______ ',
+                '|      |',
+                '| NEW! |',
+                '|______|',
+                '   ||   '
+            ],
+            color: LIGHTBLUE
+        }]);
+}
+function isTrackGroup(circuit) {
+    return circuit.id === CUSTOM_TRACKS_GROUP_ID;
+}
+function getSecretTracks() {
+    return getAllTracks().filter(function (track) { return !!track.hidden; });
+}
+function showSecretTracksMenu() {
+    var secretTracks = getSecretTracks();
+    if (secretTracks.length === 0) {
+        scene3d.selectRawDepth('glass');
+        console.clear(LIGHTGRAY, false);
+        scene3d.selectRawDepth('title');
+        console.gotoxy(1, 10);
+        console.attributes = LIGHTMAGENTA;
+        console.print('       ' + GLYPH.DBOX_TL + repeatChar(GLYPH.DBOX_H, 44) + GLYPH.DBOX_TR + '\r\n');
+        console.print('       ' + GLYPH.DBOX_V + '         NO SECRETS FOUND... YET          ' + GLYPH.DBOX_V + '\r\n');
+        console.print('       ' + GLYPH.DBOX_V + '                                          ' + GLYPH.DBOX_V + '\r\n');
+        console.print('       ' + GLYPH.DBOX_V + '  Keep racing to unlock hidden tracks!    ' + GLYPH.DBOX_V + '\r\n');
+        console.print('       ' + GLYPH.DBOX_BL + repeatChar(GLYPH.DBOX_H, 44) + GLYPH.DBOX_BR + '\r\n');
+        console.print('\r\n');
+        console.attributes = DARKGRAY;
+        scene3d.selectRawDepth('prompt');
+        console.print('                 Press any key to return...\r\n');
+        scene3d.selectRawDepth('glass');
+        console.inkey(K_NONE, 5000);
+        return { selected: false, track: null };
+    }
+    var selectedIndex = 0;
+    var scrollTop = 0;
+    var maxVisible = 5;
+    while (true) {
+        if (selectedIndex < scrollTop)
+            scrollTop = selectedIndex;
+        if (selectedIndex >= scrollTop + maxVisible)
+            scrollTop = selectedIndex - maxVisible + 1;
+        scene3d.selectRawDepth('glass');
+        console.clear(LIGHTGRAY, false);
+        scene3d.selectRawDepth('title');
+        console.gotoxy(1, 1);
+        console.attributes = LIGHTRED;
+        console.print(repeatChar(GLYPH.DBOX_H, 79) + '\r\n');
+        console.attributes = YELLOW;
+        console.print('                     #### SECRET TRACKS ####\r\n');
+        console.attributes = LIGHTRED;
+        console.print(repeatChar(GLYPH.DBOX_H, 79) + '\r\n');
+        console.print('\r\n');
+        console.attributes = DARKGRAY;
+        console.print('  These tracks are hidden from the main menu. Shh, it\'s a secret!\r\n\r\n');
+        scene3d.selectRawDepth('content');
+        var visibleEnd = Math.min(secretTracks.length, scrollTop + maxVisible);
+        for (var i = scrollTop; i < visibleEnd; i++) {
+            var track = secretTracks[i];
+            var row = 9 + (i - scrollTop) * 2;
+            console.gotoxy(5, row);
+            if (i === selectedIndex) {
+                console.attributes = LIGHTCYAN;
+                console.print('>>  ');
+            }
+            else {
+                console.attributes = DARKGRAY;
+                console.print('    ');
+            }
+            console.attributes = i === selectedIndex ? WHITE : LIGHTGRAY;
+            console.print(track.name);
+            console.attributes = DARKGRAY;
+            console.print(' - ');
+            var descRoom = 64 - (9 + track.name.length + 3);
+            console.print(track.description.substring(0, Math.max(0, descRoom)));
+            console.gotoxy(65, row);
+            console.attributes = YELLOW;
+            console.print(renderDifficultyStars(track.difficulty));
+        }
+        scene3d.selectRawDepth('prompt');
+        console.gotoxy(5, 20);
+        console.attributes = DARKGRAY;
+        console.print(repeatChar(GLYPH.BOX_H, 68) + '\r\n');
+        console.gotoxy(5, 21);
+        console.attributes = CYAN;
+        console.print('[');
+        console.attributes = WHITE;
+        console.print('W/S');
+        console.attributes = CYAN;
+        console.print('] Select   [');
+        console.attributes = WHITE;
+        console.print('ENTER');
+        console.attributes = CYAN;
+        console.print('] Race   [');
+        console.attributes = WHITE;
+        console.print('ESC/Q');
+        console.attributes = CYAN;
+        console.print('] Back');
+        scene3d.selectRawDepth('glass');
+        var key = console.inkey(K_UPPER, 100);
+        if (key === '')
+            continue;
+        if (key === KEY_UP || key === 'W' || key === '8') {
+            selectedIndex = (selectedIndex - 1 + secretTracks.length) % secretTracks.length;
+        }
+        else if (key === KEY_DOWN || key === 'S' || key === '2') {
+            selectedIndex = (selectedIndex + 1) % secretTracks.length;
+        }
+        else if (key === '\r' || key === '\n' || key === ' ') {
+            return {
+                selected: true,
+                track: secretTracks[selectedIndex],
+                isCircuitMode: false
+            };
+        }
+        else if (key === 'Q' || key === KEY_ESC) {
+            return { selected: false, track: null };
+        }
+    }
+}
+function showDailyChallengeMenu(highScoreManager) {
+    var challenge = getDailyChallenge();
+    var track = getDailyTrackDefinition(challenge);
+    if (!track)
+        return { selected: false, track: null };
+    var car = getCarDefinition(challenge.carId);
+    var color = getCarColor(challenge.colorId);
+    while (true) {
+        scene3d.selectRawDepth('glass');
+        console.clear(LIGHTGRAY, false);
+        scene3d.selectRawDepth('title');
+        console.gotoxy(1, 1);
+        console.attributes = LIGHTMAGENTA;
+        console.print(repeatChar(GLYPH.DBOX_H, 79) + '\r\n');
+        console.attributes = YELLOW;
+        console.print('                   #### DAILY CHALLENGE ' + challenge.dateKey + ' ####\r\n');
+        console.attributes = LIGHTMAGENTA;
+        console.print(repeatChar(GLYPH.DBOX_H, 79) + '\r\n');
+        scene3d.selectRawDepth('content');
+        console.gotoxy(5, 5);
+        console.attributes = DARKGRAY;
+        console.print('Everyone races the same track, car and items today. One board, one winner.');
+        var rows = [
+            ['TRACK', track.name],
+            ['LAPS', String(challenge.laps)],
+            ['CAR', (car ? car.name : challenge.carId) + (color ? ' (' + color.name + ')' : '')],
+            ['ITEMS', challenge.itemSet.name]
+        ];
+        for (var i = 0; i < rows.length; i++) {
+            console.gotoxy(10, 8 + i * 2);
+            console.attributes = LIGHTCYAN;
+            console.print(padRight(rows[i][0], 8));
+            console.attributes = WHITE;
+            console.print(rows[i][1]);
+        }
+        if (highScoreManager) {
+            displayTopScoreLine('Today\'s leader', highScoreManager.getTopScore(HighScoreType.DAILY_TIME, challenge.dateKey), 10, 17, LIGHTGRAY, LIGHTGREEN);
+            displayTopScoreLine('Yesterday\'s winner', highScoreManager.getTopScore(HighScoreType.DAILY_TIME, getPreviousDailyDateKey(challenge.dateKey)), 10, 18, LIGHTGRAY, YELLOW);
+        }
+        scene3d.selectRawDepth('prompt');
+        console.gotoxy(5, 21);
+        console.attributes = CYAN;
+        console.print('[');
+        console.attributes = WHITE;
+        console.print('ENTER');
+        console.attributes = CYAN;
+        console.print('] Race   [');
+        console.attributes = WHITE;
+        console.print('H');
+        console.attributes = CYAN;
+        console.print('] Today\'s board   [');
+        console.attributes = WHITE;
+        console.print('ESC/Q');
+        console.attributes = CYAN;
+        console.print('] Back');
+        scene3d.selectRawDepth('glass');
+        var key = console.inkey(K_UPPER, 60000);
+        if (key === '\r' || key === '\n' || key === ' ') {
+            return {
+                selected: true,
+                track: track,
+                isCircuitMode: false,
+                dailyChallenge: challenge
+            };
+        }
+        if (key === 'H' && highScoreManager) {
+            showDailyChallengeScores(challenge, highScoreManager);
+        }
+        else if (key === 'Q' || key === KEY_ESC) {
+            return { selected: false, track: null };
+        }
+    }
+}
+function drawSelectorUI(state, highScoreManager) {
+    drawHeader(RACE_CLASSES[state.classIndex]);
+    drawLeftPanel(state);
+    drawRightPanel(state, highScoreManager);
+    drawControls(state);
+}
+function drawHeader(raceClass) {
+    scene3d.selectRawDepth('chrome');
+    console.gotoxy(1, 1);
+    console.attributes = LIGHTMAGENTA;
+    console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH));
+    console.gotoxy(1, 2);
+    scene3d.selectRawDepth('title');
+    console.attributes = LIGHTCYAN;
+    var title = '  SELECT YOUR RACE  ';
+    var padding = Math.floor((SCREEN_WIDTH - title.length) / 2);
+    console.print(repeatChar(' ', padding) + title);
+    console.gotoxy(SCREEN_WIDTH - 14, 2);
+    console.attributes = DARKGRAY;
+    console.print('< ');
+    console.attributes = raceClass.mirror ? LIGHTMAGENTA : YELLOW;
+    console.print(padRight(raceClass.name, 6));
+    console.attributes = DARKGRAY;
+    console.print(' >');
+    console.gotoxy(1, 3);
+    scene3d.selectRawDepth('chrome');
+    console.attributes = LIGHTMAGENTA;
+    console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH));
+}
+function drawLeftPanel(state) {
+    scene3d.selectRawDepth('content');
+    var y = 5;
+    for (var sy = 4; sy <= SCREEN_HEIGHT - 2; sy++) {
+        console.gotoxy(LEFT_PANEL_WIDTH, sy);
+        console.attributes = DARKGRAY;
+        console.print(GLYPH.BOX_V);
+    }
+    if (state.mode === 'circuit') {
+        drawCircuitSelector(state, y);
+    }
+    else {
+        drawTrackList(state, y);
+    }
+}
+function drawCircuitSelector(state, startY) {
+    var cups = getSelectorCircuits();
+    console.gotoxy(2, startY);
+    console.attributes = WHITE;
+    console.print('SELECT CIRCUIT');
+    var visible = Math.max(1, Math.floor((SCREEN_HEIGHT - 2 - (startY + 2) + 1) / 4));
+    if (state.circuitIndex < state.circuitTop)
+        state.circuitTop = state.circuitIndex;
+    if (state.circuitIndex >= state.circuitTop + visible)
+        state.circuitTop = state.circuitIndex - visible + 1;
+    var last = Math.min(cups.length, state.circuitTop + visible);
+    for (var i = state.circuitTop; i < last; i++) {
+        var circuit = cups[i];
+        var color = getCupColor(circuit);
+        var isSelected = (i === state.circuitIndex);
+        var baseY = startY + 2 + ((i - state.circuitTop) * 4);
+        console.gotoxy(1, baseY + 1);
+        if (isSelected) {
+            console.attributes = color;
+            console.print(GLYPH.TRIANGLE_RIGHT);
+        }
+        else {
+            console.print(' ');
+        }
+        console.gotoxy(3, baseY);
+        console.attributes = isSelected ? color : DARKGRAY;
+        var shortName = circuit.name.substring(0, 10);
+        console.print(shortName);
+        console.gotoxy(3, baseY + 1);
+        console.attributes = isSelected ? WHITE : DARKGRAY;
+        console.print(getCupIcon(circuit)[2].substring(0, 8));
+        console.gotoxy(3, baseY + 2);
+        console.attributes = isSelected ? LIGHTGRAY : DARKGRAY;
+        console.print(circuit.trackIds.length + ' tracks');
+    }
+    console.attributes = DARKGRAY;
+    if (state.circuitTop > 0) {
+        console.gotoxy(LEFT_PANEL_WIDTH - 2, startY + 2);
+        console.print(String.fromCharCode(24));
+    }
+    if (last < cups.length) {
+        console.gotoxy(LEFT_PANEL_WIDTH - 2, startY + 2 + visible * 4 - 2);
+        console.print(String.fromCharCode(25));
+    }
+}
+function drawTrackList(state, startY) {
+    var circuit = getSelectorCircuits()[state.circuitIndex];
+    var color = getCupColor(circuit);
+    var count = circuit.trackIds.length;
+    var playable = !isTrackGroup(circuit);
+    console.gotoxy(2, startY);
+    console.attributes = DARKGRAY;
+    console.print(GLYPH.TRIANGLE_LEFT + ' ');
+    console.attributes = color;
+    console.print(circuit.name.substring(0, 14));
+    console.gotoxy(2, startY + 1);
+    console.attributes = DARKGRAY;
+    console.print(repeatChar(GLYPH.BOX_H, LEFT_PANEL_WIDTH - 4));
+    var rows = SCREEN_HEIGHT - 2 - (startY + 3);
+    var step = Math.max(1, Math.min(3, Math.floor(rows / count)));
+    var visible = Math.min(count, rows - (playable ? 1 : 0));
+    var top = Math.max(0, Math.min(state.trackIndex, count - 1) - visible + 1);
+    for (var i = top; i < top + visible; i++) {
+        var track = getTrackDefinition(circuit.trackIds[i]);
+        if (!track)
+            continue;
+        var isSelected = (i === state.trackIndex);
+        var y = startY + 3 + ((i - top) * step);
+        console.gotoxy(1, y);
+        if (isSelected) {
+            console.attributes = color;
+            console.print(GLYPH.TRIANGLE_RIGHT);
+        }
+        else {
+            console.print(' ');
+        }
+        console.gotoxy(3, y);
+        console.attributes = isSelected ? WHITE : LIGHTGRAY;
+        console.print((i + 1) + '.');
+        console.gotoxy(6, y);
+        console.attributes = isSelected ? color : CYAN;
+        var name = track.name.substring(0, 13);
+        console.print(name);
+        if (step > 1) {
+            console.gotoxy(3, y + 1);
+            console.attributes = isSelected ? YELLOW : BROWN;
+            console.print(renderDifficultyStars(track.difficulty));
+        }
+    }
+    if (!playable)
+        return;
+    var playY = startY + 3 + (visible * step);
+    var isPlaySelected = (state.trackIndex === count);
+    console.gotoxy(1, playY);
+    if (isPlaySelected) {
+        console.attributes = LIGHTGREEN;
+        console.print(GLYPH.TRIANGLE_RIGHT);
+    }
+    else {
+        console.print(' ');
+    }
+    console.gotoxy(3, playY);
+    console.attributes = isPlaySelected ? LIGHTGREEN : GREEN;
+    console.print(GLYPH.TRIANGLE_RIGHT + ' PLAY CUP');
+}
+function drawRightPanel(state, highScoreManager) {
+    scene3d.selectRawDepth('content');
+    var circuit = getSelectorCircuits()[state.circuitIndex];
+    console.gotoxy(RIGHT_PANEL_START, 5);
+    console.attributes = WHITE;
+    if (state.mode === 'circuit' || (state.mode === 'tracks' && state.trackIndex === circuit.trackIds.length)) {
+        console.print('CIRCUIT INFO');
+        console.gotoxy(RIGHT_PANEL_START, 6);
+        console.attributes = DARKGRAY;
+        console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH - RIGHT_PANEL_START - 1));
+        drawCircuitInfo(circuit, highScoreManager);
+    }
+    else {
+        var track = getTrackDefinition(circuit.trackIds[state.trackIndex]);
+        if (track) {
+            console.print('TRACK INFO');
+            console.gotoxy(RIGHT_PANEL_START, 6);
+            console.attributes = DARKGRAY;
+            console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH - RIGHT_PANEL_START - 1));
+            drawTrackInfo(track, getCupColor(circuit), RACE_CLASSES[state.classIndex], highScoreManager);
+            drawTrackRoute(track);
+        }
+    }
+}
+function drawCircuitInfo(circuit, _highScoreManager) {
+    var y = 8;
+    var color = getCupColor(circuit);
+    var icon = getCupIcon(circuit);
+    console.gotoxy(RIGHT_PANEL_START, y);
+    console.attributes = color;
+    console.print(circuit.name);
+    for (var iconLine = 0; iconLine < icon.length; iconLine++) {
+        console.gotoxy(RIGHT_PANEL_START + 20, y - 1 + iconLine);
+        console.attributes = color;
+        console.print(icon[iconLine]);
+    }
+    console.gotoxy(RIGHT_PANEL_START, y + 1);
+    console.attributes = LIGHTGRAY;
+    console.print(circuit.description || '');
+    console.gotoxy(RIGHT_PANEL_START, y + 3);
+    console.attributes = WHITE;
+    console.print('Tracks in this circuit:');
+    var tracks = getCupTracks(circuit);
+    var totalLaps = 0;
+    var totalTime = 0;
+    var listed = tracks.length > CIRCUIT_INFO_MAX_TRACKS ? CIRCUIT_INFO_MAX_TRACKS - 1 : tracks.length;
+    for (var i = 0; i < tracks.length; i++) {
+        var track = tracks[i];
+        totalLaps += track.laps;
+        totalTime += track.estimatedLapTime * track.laps;
+        if (i >= listed)
+            continue;
+        console.gotoxy(RIGHT_PANEL_START + 2, y + 5 + i);
+        console.attributes = CYAN;
+        console.print((i + 1) + '. ' + padRight(track.name, 22));
+        console.attributes = YELLOW;
+        console.print(renderDifficultyStars(track.difficulty));
+    }
+    if (tracks.length > listed) {
+        console.gotoxy(RIGHT_PANEL_START + 2, y + 5 + listed);
+        console.attributes = DARKGRAY;
+        console.print('...and ' + (tracks.length - listed) + ' more');
+    }
+    var totalsY = y + 5 + Math.max(6, Math.min(tracks.length, CIRCUIT_INFO_MAX_TRACKS));
+    console.gotoxy(RIGHT_PANEL_START, totalsY);
+    console.attributes = DARKGRAY;
+    console.print(repeatChar(GLYPH.BOX_H, 40));
+    console.gotoxy(RIGHT_PANEL_START, totalsY + 1);
+    console.attributes = LIGHTGRAY;
+    console.print('Total Races: ');
+    console.attributes = WHITE;
+    console.print(circuit.trackIds.length.toString());
+    console.gotoxy(RIGHT_PANEL_START + 20, totalsY + 1);
+    console.attributes = LIGHTGRAY;
+    console.print('Total Laps: ');
+    console.attributes = WHITE;
+    console.print(totalLaps.toString());
+    console.gotoxy(RIGHT_PANEL_START + 36, totalsY + 1);
+    console.attributes = LIGHTGRAY;
+    console.print('Est. Time: ');
+    console.attributes = WHITE;
+    console.print(formatTime(totalTime));
+}
+function drawTrackInfo(track, _accentColor, raceClass, highScoreManager) {
+    var theme = getTrackTheme(track);
+    console.gotoxy(RIGHT_PANEL_START, 8);
+    console.attributes = theme.road.edge.fg;
+    console.print(track.name);
+    console.attributes = YELLOW;
+    console.print('  ' + renderDifficultyStars(track.difficulty));
+    console.gotoxy(RIGHT_PANEL_START, 9);
+    console.attributes = DARKGRAY;
+    console.print(track.laps + ' laps');
+    if (highScoreManager) {
+        var scoreId = getRaceClassScoreId(track.id, raceClass);
+        var trackTimeScore = highScoreManager.getTopScore(HighScoreType.TRACK_TIME, scoreId);
+        var lapTimeScore = highScoreManager.getTopScore(HighScoreType.LAP_TIME, scoreId);
+        if (trackTimeScore || lapTimeScore) {
+            console.gotoxy(RIGHT_PANEL_START, 10);
+            console.attributes = DARKGRAY;
+            console.print('High Scores (' + raceClass.name + '):');
+            if (trackTimeScore) {
+                console.gotoxy(RIGHT_PANEL_START + 2, 11);
+                console.attributes = LIGHTGRAY;
+                console.print('Track: ');
+                console.attributes = LIGHTGREEN;
+                console.print(LapTimer.format(trackTimeScore.time) + ' ');
+                console.attributes = DARKGRAY;
+                console.print('(' + trackTimeScore.playerName + ')');
+            }
+            if (lapTimeScore) {
+                console.gotoxy(RIGHT_PANEL_START + 2, 12);
+                console.attributes = LIGHTGRAY;
+                console.print('Lap:   ');
+                console.attributes = LIGHTGREEN;
+                console.print(LapTimer.format(lapTimeScore.time) + ' ');
+                console.attributes = DARKGRAY;
+                console.print('(' + lapTimeScore.playerName + ')');
+            }
+        }
+    }
+    drawThemedTrackMap(track, theme);
+}
+function drawThemedTrackMap(track, theme) {
+    var mapX = RIGHT_PANEL_START;
+    var mapY = 11;
+    var mapWidth = SCREEN_WIDTH - RIGHT_PANEL_START - 1;
+    var mapHeight = SCREEN_HEIGHT - 11;
+    var pixelWidth = mapWidth - 2;
+    var pixelHeight = (mapHeight - 1) * 2;
+    var points = generateTrackLoop(track, pixelWidth, pixelHeight);
+    var pixels = createPixelGrid(pixelWidth, pixelHeight);
+    rasterizeTrack(points, pixels, pixelWidth, pixelHeight);
+    markInfield(pixels, pixelWidth, pixelHeight);
+    renderHalfBlockMap(pixels, mapX + 2, mapY + 1, pixelWidth, pixelHeight, theme);
+    drawStartFinishHiRes(points, mapX + 2, mapY + 1, pixelWidth, pixelHeight, theme);
+}
+function createPixelGrid(width, height) {
+    var grid = [];
+    for (var y = 0; y < height; y++) {
+        grid[y] = [];
+        for (var x = 0; x < width; x++) {
+            grid[y][x] = 0;
+        }
+    }
+    return grid;
+}
+function markInfield(pixels, width, height) {
+    var OUTSIDE_MARKER = -1;
+    var queue = [];
+    for (var x = 0; x < width; x++) {
+        if (pixels[0][x] === 0) {
+            pixels[0][x] = OUTSIDE_MARKER;
+            queue.push({ x: x, y: 0 });
+        }
+        if (pixels[height - 1][x] === 0) {
+            pixels[height - 1][x] = OUTSIDE_MARKER;
+            queue.push({ x: x, y: height - 1 });
+        }
+    }
+    for (var y = 0; y < height; y++) {
+        if (pixels[y][0] === 0) {
+            pixels[y][0] = OUTSIDE_MARKER;
+            queue.push({ x: 0, y: y });
+        }
+        if (pixels[y][width - 1] === 0) {
+            pixels[y][width - 1] = OUTSIDE_MARKER;
+            queue.push({ x: width - 1, y: y });
+        }
+    }
+    while (queue.length > 0) {
+        var p = queue.shift();
+        if (!p)
+            break;
+        var neighbors = [
+            { x: p.x - 1, y: p.y },
+            { x: p.x + 1, y: p.y },
+            { x: p.x, y: p.y - 1 },
+            { x: p.x, y: p.y + 1 }
+        ];
+        for (var i = 0; i < neighbors.length; i++) {
+            var n = neighbors[i];
+            if (n.x >= 0 && n.x < width && n.y >= 0 && n.y < height) {
+                if (pixels[n.y][n.x] === 0) {
+                    pixels[n.y][n.x] = OUTSIDE_MARKER;
+                    queue.push(n);
+                }
+            }
+        }
+    }
+    for (var y = 0; y < height; y++) {
+        for (var x = 0; x < width; x++) {
+            if (pixels[y][x] === OUTSIDE_MARKER) {
+                pixels[y][x] = 0;
+            }
+            else if (pixels[y][x] === 0) {
+                pixels[y][x] = 3;
+            }
+        }
+    }
+}
+function rasterizeTrack(points, pixels, width, height) {
+    if (points.length < 2)
+        return;
+    var roadWidth = 2;
+    var edgeWidth = 1;
+    for (var i = 0; i < points.length - 1; i++) {
+        var x1 = points[i].x;
+        var y1 = points[i].y;
+        var x2 = points[i + 1].x;
+        var y2 = points[i + 1].y;
+        var dx = x2 - x1;
+        var dy = y2 - y1;
+        var len = Math.sqrt(dx * dx + dy * dy);
+        if (len === 0)
+            continue;
+        var perpX = -dy / len;
+        var perpY = dx / len;
+        var steps = Math.max(Math.ceil(len), 1);
+        for (var s = 0; s <= steps; s++) {
+            var t = s / steps;
+            var cx = x1 + dx * t;
+            var cy = y1 + dy * t;
+            for (var w = -(roadWidth + edgeWidth); w <= (roadWidth + edgeWidth); w++) {
+                var px = Math.floor(cx + perpX * w);
+                var py = Math.floor(cy + perpY * w);
+                if (px >= 0 && px < width && py >= 0 && py < height) {
+                    if (Math.abs(w) <= roadWidth) {
+                        pixels[py][px] = 2;
+                    }
+                    else if (pixels[py][px] === 0) {
+                        pixels[py][px] = 1;
+                    }
+                }
+            }
+        }
+    }
+}
+function renderHalfBlockMap(pixels, screenX, screenY, width, height, theme) {
+    var charRows = Math.floor(height / 2);
+    function getPixelColor(pixelType) {
+        switch (pixelType) {
+            case 0: return theme.offroad.groundColor.fg;
+            case 1: return theme.road.edge.fg;
+            case 2: return theme.road.surface.fg;
+            case 3: return BG_BLACK;
+            default: return theme.offroad.groundColor.fg;
+        }
+    }
+    function isFilledPixel(pixelType) {
+        return pixelType === 1 || pixelType === 2;
+    }
+    for (var charRow = 0; charRow < charRows; charRow++) {
+        var topPixelY = charRow * 2;
+        var bottomPixelY = charRow * 2 + 1;
+        for (var col = 0; col < width; col++) {
+            var topPixel = (topPixelY < height) ? pixels[topPixelY][col] : 0;
+            var bottomPixel = (bottomPixelY < height) ? pixels[bottomPixelY][col] : 0;
+            console.gotoxy(screenX + col, screenY + charRow);
+            var topFilled = isFilledPixel(topPixel);
+            var bottomFilled = isFilledPixel(bottomPixel);
+            if (topFilled && bottomFilled) {
+                var pixelType = (topPixel === 2 || bottomPixel === 2) ? 2 : 1;
+                console.attributes = getPixelColor(pixelType);
+                console.print(GLYPH.FULL_BLOCK);
+            }
+            else if (topFilled) {
+                var topColor = getPixelColor(topPixel);
+                var bottomColor = getPixelColor(bottomPixel);
+                console.attributes = topColor + (bottomColor << 4);
+                console.print(GLYPH.UPPER_HALF);
+            }
+            else if (bottomFilled) {
+                var topColor = getPixelColor(topPixel);
+                var bottomColor = getPixelColor(bottomPixel);
+                console.attributes = bottomColor + (topColor << 4);
+                console.print(GLYPH.LOWER_HALF);
+            }
+            else {
+                if (topPixel === 3 || bottomPixel === 3) {
+                    console.attributes = BLACK;
+                    console.print(' ');
+                }
+                else {
+                    console.attributes = theme.offroad.groundColor.fg;
+                    console.print(GLYPH.LIGHT_SHADE);
+                }
+            }
+        }
+    }
+}
+function generateTrackLoop(track, width, height) {
+    var sections = track.sections;
+    var difficulty = track.difficulty || 3;
+    var trackId = track.id || '';
+    var totalLength = 0;
+    var totalCurve = 0;
+    var hasSCurves = false;
+    var sharpestCurve = 0;
+    if (sections && sections.length > 0) {
+        for (var i = 0; i < sections.length; i++) {
+            var section = sections[i];
+            totalLength += section.length || 0;
+            if (section.type === 'curve') {
+                totalCurve += Math.abs(section.curve || 0) * (section.length || 1);
+                if (Math.abs(section.curve || 0) > sharpestCurve) {
+                    sharpestCurve = Math.abs(section.curve || 0);
+                }
+            }
+            if (section.type === 's_curve')
+                hasSCurves = true;
+        }
+    }
+    var points = [];
+    var cx = width / 2;
+    var cy = height / 2;
+    var rx = (width - 8) / 2;
+    var ry = (height - 6) / 2;
+    var numPoints = 80;
+    var complexity = Math.min(difficulty, 5);
+    var wobbleFreq = 2 + complexity;
+    var wobbleAmp = 0.05 + (sharpestCurve * 0.15);
+    if (trackId.indexOf('figure') >= 0 || (hasSCurves && difficulty >= 4)) {
+        for (var i = 0; i <= numPoints; i++) {
+            var t = (i / numPoints) * Math.PI * 2;
+            var fx = Math.sin(t);
+            var fy = Math.sin(t) * Math.cos(t);
+            points.push({
+                x: cx + fx * rx,
+                y: cy + fy * ry * 1.5
+            });
+        }
+    }
+    else {
+        for (var i = 0; i <= numPoints; i++) {
+            var angle = (i / numPoints) * Math.PI * 2;
+            var wobble = Math.sin(angle * wobbleFreq) * wobbleAmp;
+            var wobble2 = Math.cos(angle * (wobbleFreq + 1)) * wobbleAmp * 0.5;
+            points.push({
+                x: cx + Math.cos(angle) * rx * (1 + wobble),
+                y: cy + Math.sin(angle) * ry * (1 + wobble2)
+            });
+        }
+    }
+    return points;
+}
+function normalizeAndCenterPath(points, width, height) {
+    if (points.length === 0)
+        return points;
+    var minX = points[0].x, maxX = points[0].x;
+    var minY = points[0].y, maxY = points[0].y;
+    for (var i = 1; i < points.length; i++) {
+        if (points[i].x < minX)
+            minX = points[i].x;
+        if (points[i].x > maxX)
+            maxX = points[i].x;
+        if (points[i].y < minY)
+            minY = points[i].y;
+        if (points[i].y > maxY)
+            maxY = points[i].y;
+    }
+    var pathWidth = maxX - minX;
+    var pathHeight = maxY - minY;
+    var padding = 3;
+    var availWidth = width - padding * 2;
+    var availHeight = height - padding * 2;
+    var scaleX = pathWidth > 0 ? availWidth / pathWidth : 1;
+    var scaleY = pathHeight > 0 ? availHeight / pathHeight : 1;
+    var scale = Math.min(scaleX, scaleY);
+    var scaledWidth = pathWidth * scale;
+    var scaledHeight = pathHeight * scale;
+    var offsetX = padding + (availWidth - scaledWidth) / 2;
+    var offsetY = padding + (availHeight - scaledHeight) / 2;
+    var result = [];
+    for (var i = 0; i < points.length; i++) {
+        result.push({
+            x: (points[i].x - minX) * scale + offsetX,
+            y: (points[i].y - minY) * scale + offsetY
+        });
+    }
+    return result;
+}
+function generateOvalTrack(width, height) {
+    var points = [];
+    var cx = width / 2;
     var cy = height / 2;
     var rx = (width - 8) / 2;
     var ry = (height - 4) / 2;
@@ -17854,560 +22504,1562 @@ function generateOvalTrack(width, height) {
             y: cy + Math.sin(angle) * ry
         });
     }
-    return points;
-}
-function drawTrackSurface(_points, _x, _y, _width, _height, _theme) {
-}
-function drawStartFinishHiRes(points, screenX, screenY, _pixelWidth, pixelHeight, theme) {
-    if (points.length < 2)
+    return points;
+}
+function drawTrackSurface(_points, _x, _y, _width, _height, _theme) {
+}
+function drawStartFinishHiRes(points, screenX, screenY, _pixelWidth, pixelHeight, theme) {
+    if (points.length < 2)
+        return;
+    var startPixelX = Math.floor(points[0].x);
+    var startPixelY = Math.floor(points[0].y);
+    var charX = startPixelX;
+    var charY = Math.floor(startPixelY / 2);
+    var maxCharY = Math.floor(pixelHeight / 2) - 1;
+    charY = Math.max(0, Math.min(maxCharY, charY));
+    console.gotoxy(screenX + charX, screenY + charY);
+    console.attributes = WHITE;
+    console.print(GLYPH.CHECKER);
+    console.gotoxy(screenX + charX + 1, screenY + charY);
+    console.attributes = theme.sun.color.fg;
+    console.print('S');
+}
+function drawStartFinish(_points, _x, _y, _width, _height, _theme) {
+}
+function drawTrackRoute(_track) {
+}
+function drawControls(state) {
+    scene3d.selectRawDepth('prompt');
+    console.gotoxy(1, SCREEN_HEIGHT - 1);
+    console.attributes = LIGHTMAGENTA;
+    console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH));
+    console.gotoxy(1, SCREEN_HEIGHT);
+    console.attributes = LIGHTGRAY;
+    if (state.mode === 'circuit') {
+        console.print('  ');
+        console.attributes = WHITE;
+        console.print(String.fromCharCode(24) + '/' + String.fromCharCode(25));
+        console.attributes = LIGHTGRAY;
+        console.print(' Select  ');
+        console.attributes = WHITE;
+        console.print('ENTER');
+        console.attributes = LIGHTGRAY;
+        console.print(' Open  ');
+        console.attributes = WHITE;
+        console.print('H');
+        console.attributes = LIGHTGRAY;
+        console.print(' Scores  ');
+        console.attributes = WHITE;
+        console.print('C');
+        console.attributes = LIGHTGRAY;
+        console.print(' Daily  ');
+        console.attributes = WHITE;
+        console.print('B');
+        console.attributes = LIGHTGRAY;
+        console.print(' Custom  ');
+        console.attributes = WHITE;
+        console.print('<>');
+        console.attributes = LIGHTGRAY;
+        console.print(' Class  ');
+        console.attributes = WHITE;
+        console.print('Q');
+        console.attributes = LIGHTGRAY;
+        console.print(' Quit  ');
+        console.attributes = DARKGRAY;
+        console.print('?');
+        console.attributes = DARKGRAY;
+        console.print(' ???');
+    }
+    else {
+        console.print('  ');
+        console.attributes = WHITE;
+        console.print(String.fromCharCode(24) + '/' + String.fromCharCode(25));
+        console.attributes = LIGHTGRAY;
+        console.print(' Select  ');
+        console.attributes = WHITE;
+        console.print('ENTER');
+        console.attributes = LIGHTGRAY;
+        console.print(' Race  ');
+        console.attributes = WHITE;
+        console.print('H');
+        console.attributes = LIGHTGRAY;
+        console.print(' Scores  ');
+        console.attributes = WHITE;
+        console.print(String.fromCharCode(27));
+        console.attributes = LIGHTGRAY;
+        console.print(' Back  ');
+        console.attributes = WHITE;
+        console.print('<>');
+        console.attributes = LIGHTGRAY;
+        console.print(' Class  ');
+        console.attributes = WHITE;
+        console.print('Q');
+        console.attributes = LIGHTGRAY;
+        console.print(' Quit  ');
+        console.attributes = DARKGRAY;
+        console.print('?');
+        console.attributes = DARKGRAY;
+        console.print(' ???');
+    }
+    console.gotoxy(1, SCREEN_HEIGHT + 1);
+    console.attributes = LIGHTMAGENTA;
+    console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH));
+    scene3d.selectRawDepth('glass');
+}
+function repeatChar(char, count) {
+    var result = '';
+    for (var i = 0; i < count; i++) {
+        result += char;
+    }
+    return result;
+}
+function formatTime(seconds) {
+    var mins = Math.floor(seconds / 60);
+    var secs = Math.floor(seconds % 60);
+    return mins + ':' + (secs < 10 ? '0' : '') + secs;
+}
+function padRight(str, len) {
+    while (str.length < len) {
+        str += ' ';
+    }
+    return str.substring(0, len);
+}
+"use strict";
+var CUSTOM_CUP_LIST_ROWS = 14;
+var CUSTOM_CUP_DEFAULT_LAPS = 3;
+function showCustomCupBuilder(raceClass, highScoreManager) {
+    var tracks = getAllTracks().filter(function (track) { return !track.hidden; });
+    var picked = [];
+    var laps = CUSTOM_CUP_DEFAULT_LAPS;
+    var classIndex = RACE_CLASSES.indexOf(raceClass);
+    var selected = 0;
+    var top = 0;
+    var message = "";
+    while (true) {
+        if (selected < top)
+            top = selected;
+        if (selected >= top + CUSTOM_CUP_LIST_ROWS)
+            top = selected - CUSTOM_CUP_LIST_ROWS + 1;
+        drawCustomCupBuilder(tracks, picked, laps, RACE_CLASSES[classIndex], selected, top, message);
+        message = "";
+        var key = console.inkey(K_UPPER, 60000);
+        if (key === '')
+            continue;
+        if (key === KEY_UP || key === 'W' || key === '8') {
+            selected = (selected + tracks.length - 1) % tracks.length;
+        }
+        else if (key === KEY_DOWN || key === 'S' || key === '2') {
+            selected = (selected + 1) % tracks.length;
+        }
+        else if (key === '\r' || key === '\n' || key === ' ') {
+            var trackId = tracks[selected].id;
+            var index = picked.indexOf(trackId);
+            if (index !== -1) {
+                picked.splice(index, 1);
+            }
+            else if (picked.length >= CUP_MAX_TRACKS) {
+                message = "A cup holds at most " + CUP_MAX_TRACKS + " tracks.";
+            }
+            else {
+                picked.push(trackId);
+            }
+        }
+        else if (key === '+' || key === '=') {
+            laps = Math.min(CUSTOM_CUP_MAX_LAPS, laps + 1);
+        }
+        else if (key === '-' || key === '_') {
+            laps = Math.max(CUSTOM_CUP_MIN_LAPS, laps - 1);
+        }
+        else if (key === '<' || key === ',') {
+            classIndex = (classIndex - 1 + RACE_CLASSES.length) % RACE_CLASSES.length;
+        }
+        else if (key === '>' || key === '.') {
+            classIndex = (classIndex + 1) % RACE_CLASSES.length;
+        }
+        else if (key === 'H' && highScoreManager) {
+            if (picked.length < CUP_MIN_TRACKS) {
+                message = "Pick at least " + CUP_MIN_TRACKS + " tracks first.";
+                continue;
+            }
+            var scoreCup = createCustomCup(picked, laps);
+            showHighScoreList(HighScoreType.CIRCUIT_TIME, getRaceClassScoreId(scoreCup.id, RACE_CLASSES[classIndex]), '=== CIRCUIT HIGH SCORES ===', getRaceClassScoreName(getCupScoreName(scoreCup), RACE_CLASSES[classIndex]), highScoreManager);
+        }
+        else if (key === 'G') {
+            if (picked.length < CUP_MIN_TRACKS) {
+                message = "Pick at least " + CUP_MIN_TRACKS + " tracks first.";
+                continue;
+            }
+            var cup = createCustomCup(picked, laps);
+            return {
+                selected: true,
+                track: getCupTracks(cup)[0],
+                isCircuitMode: true,
+                cup: cup,
+                raceClass: RACE_CLASSES[classIndex]
+            };
+        }
+        else if (key === 'Q' || key === KEY_ESC) {
+            return { selected: false, track: null };
+        }
+    }
+}
+function drawCustomCupBuilder(tracks, picked, laps, raceClass, selected, top, message) {
+    var screenWidth = 80;
+    scene3d.selectRawDepth('glass');
+    console.clear(BG_BLACK, false);
+    scene3d.selectRawDepth('title');
+    var title = "=== CUSTOM CUP ===";
+    viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+    console.attributes = YELLOW | BG_BLACK;
+    console.print(title);
+    scene3d.selectRawDepth('content');
+    viewportGotoxy(4, 4);
+    console.attributes = WHITE | BG_BLACK;
+    console.print("TRACKS");
+    var last = Math.min(tracks.length, top + CUSTOM_CUP_LIST_ROWS);
+    for (var i = top; i < last; i++) {
+        var track = tracks[i];
+        var order = picked.indexOf(track.id);
+        var isSelected = i === selected;
+        scene3d.selectRawDepth(isSelected ? 'vehicleNear' : 'content');
+        viewportGotoxy(2, 6 + i - top);
+        console.attributes = (isSelected ? LIGHTCYAN : (order !== -1 ? WHITE : LIGHTGRAY)) | BG_BLACK;
+        console.print((isSelected ? "> " : "  ") + (order !== -1 ? "[" + (order + 1) + "] " : "[ ] ") +
+            padRight(track.name, 22));
+        console.attributes = YELLOW | BG_BLACK;
+        console.print(renderDifficultyStars(track.difficulty));
+    }
+    scene3d.selectRawDepth('content');
+    console.attributes = DARKGRAY | BG_BLACK;
+    if (top > 0) {
+        viewportGotoxy(38, 6);
+        console.print(String.fromCharCode(24));
+    }
+    if (last < tracks.length) {
+        viewportGotoxy(38, 5 + CUSTOM_CUP_LIST_ROWS);
+        console.print(String.fromCharCode(25));
+    }
+    viewportGotoxy(44, 4);
+    console.attributes = WHITE | BG_BLACK;
+    console.print("YOUR CUP");
+    var totalTime = 0;
+    for (var p = 0; p < CUP_MAX_TRACKS; p++) {
+        viewportGotoxy(44, 6 + p);
+        var pickedTrack = p < picked.length ? getTrackDefinition(picked[p]) : null;
+        if (pickedTrack) {
+            console.attributes = LIGHTCYAN | BG_BLACK;
+            console.print((p + 1) + ". " + pickedTrack.name.substring(0, 28));
+            totalTime += pickedTrack.estimatedLapTime * laps;
+        }
+        else {
+            console.attributes = DARKGRAY | BG_BLACK;
+            console.print((p + 1) + ". -");
+        }
+    }
+    var rows = [
+        ["Laps", laps + " per race"],
+        ["Class", raceClass.name],
+        ["Est. Time", formatTime(totalTime)]
+    ];
+    for (var r = 0; r < rows.length; r++) {
+        viewportGotoxy(44, 15 + r);
+        console.attributes = LIGHTGRAY | BG_BLACK;
+        console.print(padRight(rows[r][0], 11));
+        console.attributes = (r === 1 && raceClass.mirror ? LIGHTMAGENTA : WHITE) | BG_BLACK;
+        console.print(rows[r][1]);
+    }
+    if (message) {
+        viewportGotoxy(Math.floor((screenWidth - message.length) / 2), 21);
+        console.attributes = LIGHTRED | BG_BLACK;
+        console.print(message);
+    }
+    scene3d.selectRawDepth('prompt');
+    var prompt = "ENTER Add/remove  +/- Laps  <> Class  H Scores  G Race  Q Back";
+    viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 23);
+    console.attributes = LIGHTMAGENTA | BG_BLACK;
+    console.print(prompt);
+    scene3d.selectRawDepth('glass');
+}
+"use strict";
+var CarSelector = {
+    show: function (composer) {
+        var cars = getAllCars();
+        var selectedCarIndex = 0;
+        var selectedColorIndex = 0;
+        for (var i = 0; i < cars.length; i++) {
+            if (isCarUnlocked(cars[i].id)) {
+                selectedCarIndex = i;
+                break;
+            }
+        }
+        var running = true;
+        var confirmed = false;
+        while (running) {
+            var currentCar = cars[selectedCarIndex];
+            var availableColors = [];
+            for (var c = 0; c < currentCar.availableColors.length; c++) {
+                var col = getCarColor(currentCar.availableColors[c]);
+                if (col)
+                    availableColors.push(col);
+            }
+            if (selectedColorIndex >= availableColors.length) {
+                selectedColorIndex = 0;
+            }
+            var currentColor = availableColors[selectedColorIndex];
+            this.render(composer, cars, selectedCarIndex, currentColor, selectedColorIndex, availableColors.length);
+            var key = console.inkey(K_UPPER, 100);
+            if (key === '')
+                continue;
+            switch (key) {
+                case 'W':
+                case KEY_UP:
+                    selectedCarIndex--;
+                    if (selectedCarIndex < 0)
+                        selectedCarIndex = cars.length - 1;
+                    var attempts = 0;
+                    while (!isCarUnlocked(cars[selectedCarIndex].id) && attempts < cars.length) {
+                        selectedCarIndex--;
+                        if (selectedCarIndex < 0)
+                            selectedCarIndex = cars.length - 1;
+                        attempts++;
+                    }
+                    selectedColorIndex = 0;
+                    break;
+                case 'S':
+                case KEY_DOWN:
+                    selectedCarIndex++;
+                    if (selectedCarIndex >= cars.length)
+                        selectedCarIndex = 0;
+                    var attempts = 0;
+                    while (!isCarUnlocked(cars[selectedCarIndex].id) && attempts < cars.length) {
+                        selectedCarIndex++;
+                        if (selectedCarIndex >= cars.length)
+                            selectedCarIndex = 0;
+                        attempts++;
+                    }
+                    selectedColorIndex = 0;
+                    break;
+                case 'A':
+                case KEY_LEFT:
+                    selectedColorIndex--;
+                    if (selectedColorIndex < 0)
+                        selectedColorIndex = availableColors.length - 1;
+                    break;
+                case 'D':
+                case KEY_RIGHT:
+                    selectedColorIndex++;
+                    if (selectedColorIndex >= availableColors.length)
+                        selectedColorIndex = 0;
+                    break;
+                case '\r':
+                case '\n':
+                case ' ':
+                    if (isCarUnlocked(currentCar.id) && isCarColorUnlocked(currentCar.id, currentColor.id)) {
+                        confirmed = true;
+                        running = false;
+                    }
+                    break;
+                case 'Q':
+                case '\x1b':
+                    running = false;
+                    break;
+            }
+        }
+        if (confirmed) {
+            var car = cars[selectedCarIndex];
+            var colors = [];
+            for (var c = 0; c < car.availableColors.length; c++) {
+                var col = getCarColor(car.availableColors[c]);
+                if (col)
+                    colors.push(col);
+            }
+            return {
+                carId: car.id,
+                colorId: colors[selectedColorIndex].id,
+                confirmed: true
+            };
+        }
+        else {
+            return {
+                carId: 'sports',
+                colorId: 'yellow',
+                confirmed: false
+            };
+        }
+    },
+    render: function (composer, cars, selectedIndex, currentColor, colorIndex, totalColors) {
+        composer.clear();
+        var width = 80;
+        var titleAttr = makeAttr(LIGHTCYAN, BG_BLACK);
+        var title = '=== SELECT YOUR VEHICLE ===';
+        composer.writeString(Math.floor((width - title.length) / 2), 1, title, titleAttr);
+        var instructAttr = makeAttr(DARKGRAY, BG_BLACK);
+        composer.writeString(5, 22, 'W/S: Car  A/D: Color  ENTER: Select  Q: Cancel', instructAttr);
+        var listX = 3;
+        var listY = 4;
+        var listAttr = makeAttr(LIGHTGRAY, BG_BLACK);
+        var selectedAttr = makeAttr(WHITE, BG_BLUE);
+        var lockedAttr = makeAttr(DARKGRAY, BG_BLACK);
+        for (var i = 0; i < cars.length; i++) {
+            var car = cars[i];
+            var y = listY + i * 2;
+            var carUnlocked = isCarUnlocked(car.id);
+            var attr = (i === selectedIndex) ? selectedAttr : (carUnlocked ? listAttr : lockedAttr);
+            var indicator = (i === selectedIndex) ? '>' : ' ';
+            composer.writeString(listX, y, indicator, attr);
+            var name = carUnlocked ? car.name : '??? LOCKED ???';
+            composer.writeString(listX + 2, y, name, attr);
+            if (!carUnlocked) {
+                composer.writeString(listX + 2, y + 1, getUnlockHint(car.id), lockedAttr);
+            }
+        }
+        var detailX = 40;
+        var detailY = 4;
+        var currentCar = cars[selectedIndex];
+        if (isCarUnlocked(currentCar.id)) {
+            var nameAttr = makeAttr(YELLOW, BG_BLACK);
+            composer.writeString(detailX, detailY, currentCar.name, nameAttr);
+            var descAttr = makeAttr(LIGHTGRAY, BG_BLACK);
+            composer.writeString(detailX, detailY + 1, currentCar.description, descAttr);
+            var statsY = detailY + 3;
+            var statLabelAttr = makeAttr(CYAN, BG_BLACK);
+            var statBarAttr = makeAttr(LIGHTGREEN, BG_BLACK);
+            var statBarEmptyAttr = makeAttr(DARKGRAY, BG_BLACK);
+            composer.writeString(detailX, statsY, 'TOP SPEED:', statLabelAttr);
+            this.renderStatBar(composer, detailX + 11, statsY, currentCar.stats.topSpeed, statBarAttr, statBarEmptyAttr);
+            composer.writeString(detailX, statsY + 1, 'ACCEL:', statLabelAttr);
+            this.renderStatBar(composer, detailX + 11, statsY + 1, currentCar.stats.acceleration, statBarAttr, statBarEmptyAttr);
+            composer.writeString(detailX, statsY + 2, 'HANDLING:', statLabelAttr);
+            this.renderStatBar(composer, detailX + 11, statsY + 2, currentCar.stats.handling, statBarAttr, statBarEmptyAttr);
+            composer.writeString(detailX, statsY + 3, 'WEIGHT:', statLabelAttr);
+            this.renderStatBar(composer, detailX + 11, statsY + 3, currentCar.stats.weight, statBarAttr, statBarEmptyAttr);
+            composer.writeString(detailX, statsY + 4, 'OFF-ROAD:', statLabelAttr);
+            this.renderStatBar(composer, detailX + 11, statsY + 4, currentCar.stats.offroadGrip, statBarAttr, statBarEmptyAttr);
+            var colorY = statsY + 6;
+            var colorLabelAttr = makeAttr(LIGHTMAGENTA, BG_BLACK);
+            composer.writeString(detailX, colorY, 'COLOR: < ' + currentColor.name + ' >', colorLabelAttr);
+            composer.writeString(detailX, colorY + 1, '(' + (colorIndex + 1) + '/' + totalColors + ')', instructAttr);
+            if (!isCarColorUnlocked(currentCar.id, currentColor.id)) {
+                composer.writeString(detailX + 8, colorY + 1, 'LOCKED', makeAttr(RED, BG_BLACK));
+                composer.writeString(detailX, colorY + 2, getUnlockHint(currentCar.id, currentColor.id), lockedAttr);
+            }
+            var previewY = colorY + 3;
+            this.renderCarPreview(composer, detailX + 8, previewY, currentCar.bodyStyle, currentColor);
+        }
+        else {
+            var lockedMsgAttr = makeAttr(RED, BG_BLACK);
+            composer.writeString(detailX, detailY, 'VEHICLE LOCKED', lockedMsgAttr);
+            composer.writeString(detailX, detailY + 2, getUnlockHint(currentCar.id), lockedAttr);
+        }
+        this.outputToConsole(composer);
+    },
+    outputToConsole: function (composer) {
+        scene3d.selectRawDepth('glass');
+        console.clear(BG_BLACK, false);
+        var buffer = composer.getBuffer();
+        for (var y = 0; y < buffer.length; y++) {
+            var rowBand = y <= 2 ? 'title' : (y >= 21 ? 'prompt' : 'content');
+            scene3d.selectRawDepth(rowBand);
+            viewportGotoxy(1, y + 1);
+            for (var x = 0; x < buffer[y].length; x++) {
+                if (y >= 15 && y <= 18 && x === 38)
+                    scene3d.selectRawDepth('vehicleNear');
+                var cell = buffer[y][x];
+                console.attributes = cell.attr;
+                console.print(cell.char);
+            }
+        }
+        scene3d.selectRawDepth('glass');
+    },
+    renderStatBar: function (composer, x, y, value, filledAttr, emptyAttr) {
+        var filled = Math.round(value * 5);
+        filled = Math.max(1, Math.min(10, filled));
+        for (var i = 0; i < 10; i++) {
+            var char = (i < filled) ? GLYPH.FULL_BLOCK : GLYPH.LIGHT_SHADE;
+            var attr = (i < filled) ? filledAttr : emptyAttr;
+            composer.setCell(x + i, y, char, attr);
+        }
+    },
+    renderCarPreview: function (composer, x, y, bodyStyle, color) {
+        var sprite = getPlayerCarSprite(bodyStyle, color.id, false);
+        var variant = sprite.variants[0];
+        for (var row = 0; row < variant.length; row++) {
+            for (var col = 0; col < variant[row].length; col++) {
+                var cell = variant[row][col];
+                if (cell) {
+                    composer.setCell(x + col, y + row, cell.char, cell.attr);
+                }
+            }
+        }
+        var labelAttr = makeAttr(DARKGRAY, BG_BLACK);
+        composer.writeString(x - 2, y + 3, '(preview)', labelAttr);
+    }
+};
+"use strict";
+function showCupStandings(cupManager, isPreRace) {
+    var state = cupManager.getState();
+    if (!state)
         return;
-    var startPixelX = Math.floor(points[0].x);
-    var startPixelY = Math.floor(points[0].y);
-    var charX = startPixelX;
-    var charY = Math.floor(startPixelY / 2);
-    var maxCharY = Math.floor(pixelHeight / 2) - 1;
-    charY = Math.max(0, Math.min(maxCharY, charY));
-    console.gotoxy(screenX + charX, screenY + charY);
-    console.attributes = WHITE;
-    console.print(GLYPH.CHECKER);
-    console.gotoxy(screenX + charX + 1, screenY + charY);
-    console.attributes = theme.sun.color.fg;
-    console.print('S');
-}
-function drawStartFinish(_points, _x, _y, _width, _height, _theme) {
-}
-function drawTrackRoute(_track) {
-}
-function drawControls(state) {
-    scene3d.selectRawDepth('prompt');
-    console.gotoxy(1, 23);
-    console.attributes = LIGHTMAGENTA;
-    console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH));
-    console.gotoxy(1, 24);
-    console.attributes = LIGHTGRAY;
-    if (state.mode === 'circuit') {
-        console.print('  ');
-        console.attributes = WHITE;
-        console.print(String.fromCharCode(24) + '/' + String.fromCharCode(25));
-        console.attributes = LIGHTGRAY;
-        console.print(' Select  ');
-        console.attributes = WHITE;
-        console.print('ENTER');
-        console.attributes = LIGHTGRAY;
-        console.print(' Open  ');
-        console.attributes = WHITE;
-        console.print('H');
-        console.attributes = LIGHTGRAY;
-        console.print(' Scores  ');
-        console.attributes = WHITE;
-        console.print('Q');
-        console.attributes = LIGHTGRAY;
-        console.print(' Quit  ');
-        console.attributes = DARKGRAY;
-        console.print('?');
-        console.attributes = DARKGRAY;
-        console.print(' ???');
+    var screenWidth = 80;
+    var screenHeight = 24;
+    scene3d.selectRawDepth('glass');
+    console.clear(BG_BLACK, false);
+    console.attributes = WHITE | BG_BLACK;
+    scene3d.selectRawDepth('title');
+    var title = "=== " + state.definition.name.toUpperCase() + " ===";
+    viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+    console.attributes = YELLOW | BG_BLACK;
+    console.print(title);
+    scene3d.selectRawDepth('content');
+    var raceInfo;
+    if (isPreRace) {
+        if (cupManager.getCurrentRaceNumber() === 1) {
+            raceInfo = "Race " + cupManager.getCurrentRaceNumber() + " of " + cupManager.getTotalRaces();
+        }
+        else {
+            raceInfo = "Next: Race " + cupManager.getCurrentRaceNumber() + " of " + cupManager.getTotalRaces();
+        }
     }
     else {
-        console.print('  ');
-        console.attributes = WHITE;
-        console.print(String.fromCharCode(24) + '/' + String.fromCharCode(25));
-        console.attributes = LIGHTGRAY;
-        console.print(' Select  ');
-        console.attributes = WHITE;
-        console.print('ENTER');
-        console.attributes = LIGHTGRAY;
-        console.print(' Race  ');
-        console.attributes = WHITE;
-        console.print('H');
-        console.attributes = LIGHTGRAY;
-        console.print(' Scores  ');
-        console.attributes = WHITE;
-        console.print(String.fromCharCode(27));
-        console.attributes = LIGHTGRAY;
-        console.print(' Back  ');
-        console.attributes = WHITE;
-        console.print('Q');
-        console.attributes = LIGHTGRAY;
-        console.print(' Quit  ');
-        console.attributes = DARKGRAY;
-        console.print('?');
-        console.attributes = DARKGRAY;
-        console.print(' ???');
+        if (state.isComplete) {
+            raceInfo = "FINAL STANDINGS";
+        }
+        else {
+            raceInfo = "After Race " + (cupManager.getCurrentRaceNumber() - 1) + " of " + cupManager.getTotalRaces();
+        }
+    }
+    viewportGotoxy(Math.floor((screenWidth - raceInfo.length) / 2), 4);
+    console.attributes = LIGHTCYAN | BG_BLACK;
+    console.print(raceInfo);
+    if (isPreRace) {
+        var trackId = cupManager.getCurrentTrackId();
+        if (trackId) {
+            var trackName = getTrackDisplayName(trackId);
+            viewportGotoxy(Math.floor((screenWidth - trackName.length) / 2), 5);
+            console.attributes = WHITE | BG_BLACK;
+            console.print(trackName);
+        }
+    }
+    var standings = cupManager.getStandings();
+    var tableTop = 7;
+    var tableWidth = 50;
+    var tableLeft = Math.floor((screenWidth - tableWidth) / 2);
+    viewportGotoxy(tableLeft, tableTop);
+    console.attributes = LIGHTGRAY | BG_BLACK;
+    console.print("POS  RACER                    POINTS");
+    viewportGotoxy(tableLeft, tableTop + 1);
+    console.print("------------------------------------");
+    for (var i = 0; i < standings.length; i++) {
+        var s = standings[i];
+        var row = tableTop + 2 + i;
+        scene3d.selectRawDepth(s.isPlayer ? 'vehicleNear' : 'content');
+        viewportGotoxy(tableLeft, row);
+        var posStr = PositionIndicator.getOrdinalSuffix(i + 1);
+        posStr = (i + 1) + posStr;
+        while (posStr.length < 4)
+            posStr += ' ';
+        if (s.isPlayer) {
+            if (i === 0) {
+                console.attributes = LIGHTGREEN | BG_BLACK;
+            }
+            else if (i < 3) {
+                console.attributes = YELLOW | BG_BLACK;
+            }
+            else {
+                console.attributes = LIGHTCYAN | BG_BLACK;
+            }
+        }
+        else {
+            if (i === 0) {
+                console.attributes = WHITE | BG_BLACK;
+            }
+            else {
+                console.attributes = LIGHTGRAY | BG_BLACK;
+            }
+        }
+        console.print(posStr + " ");
+        var name = s.isPlayer ? "YOU" : s.name;
+        var isRival = !s.isPlayer && s.personaId !== undefined && s.personaId === state.rivalId;
+        if (isRival)
+            name += " (RIVAL)";
+        while (name.length < 24)
+            name += ' ';
+        if (isRival) {
+            console.attributes = LIGHTRED | BG_BLACK;
+        }
+        console.print(name);
+        var pointsStr = s.points.toString();
+        while (pointsStr.length < 4)
+            pointsStr = ' ' + pointsStr;
+        console.print(pointsStr);
+        if (s.raceResults.length > 0) {
+            console.attributes = DARKGRAY | BG_BLACK;
+            console.print("  [");
+            for (var r = 0; r < s.raceResults.length; r++) {
+                if (r > 0)
+                    console.print(",");
+                var racePos = s.raceResults[r];
+                if (racePos <= 3) {
+                    console.attributes = LIGHTGREEN | BG_BLACK;
+                }
+                else if (racePos <= 5) {
+                    console.attributes = YELLOW | BG_BLACK;
+                }
+                else {
+                    console.attributes = LIGHTGRAY | BG_BLACK;
+                }
+                console.print(racePos.toString());
+            }
+            console.attributes = DARKGRAY | BG_BLACK;
+            console.print("]");
+        }
     }
-    console.gotoxy(1, 25);
-    console.attributes = LIGHTMAGENTA;
-    console.print(repeatChar(GLYPH.BOX_H, SCREEN_WIDTH));
-    scene3d.selectRawDepth('glass');
-}
-function repeatChar(char, count) {
-    var result = '';
-    for (var i = 0; i < count; i++) {
-        result += char;
+    scene3d.selectRawDepth('content');
+    var refRow = tableTop + 2 + standings.length + 2;
+    viewportGotoxy(tableLeft, refRow);
+    console.attributes = DARKGRAY | BG_BLACK;
+    console.print("Points: 1st=15 2nd=12 3rd=10 4th=8 5th=6...");
+    scene3d.selectRawDepth('prompt');
+    var prompt = isPreRace ? "Press ENTER to start race" : "Press ENTER to continue";
+    if (state.isComplete) {
+        prompt = "Press ENTER to see results";
     }
-    return result;
+    viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), screenHeight - 3);
+    console.attributes = LIGHTMAGENTA | BG_BLACK;
+    console.print(prompt);
+    waitForEnter();
 }
-function formatTime(seconds) {
-    var mins = Math.floor(seconds / 60);
-    var secs = Math.floor(seconds % 60);
-    return mins + ':' + (secs < 10 ? '0' : '') + secs;
+function getTrackDisplayName(trackId) {
+    var parts = trackId.split('_');
+    var name = '';
+    for (var i = 0; i < parts.length; i++) {
+        if (i > 0)
+            name += ' ';
+        var part = parts[i];
+        name += part.charAt(0).toUpperCase() + part.slice(1);
+    }
+    return name;
 }
-function padRight(str, len) {
-    while (str.length < len) {
-        str += ' ';
+function waitForEnter() {
+    scene3d.selectRawDepth('glass');
+    while (true) {
+        var key = console.inkey(K_NONE, 100);
+        if (key === '\r' || key === '\n')
+            break;
+        if (key === 'q' || key === 'Q')
+            break;
     }
-    return str.substring(0, len);
 }
-"use strict";
-var CarSelector = {
-    show: function (composer) {
-        var cars = getAllCars();
-        var selectedCarIndex = 0;
-        var selectedColorIndex = 0;
-        for (var i = 0; i < cars.length; i++) {
-            if (cars[i].unlocked) {
-                selectedCarIndex = i;
-                break;
-            }
+function showWinnersCircle(cupManager) {
+    var state = cupManager.getState();
+    if (!state)
+        return;
+    var screenWidth = 80;
+    var playerWon = cupManager.didPlayerWin();
+    var playerPos = cupManager.getPlayerCupPosition();
+    scene3d.selectRawDepth('glass');
+    console.clear(BG_BLACK, false);
+    if (playerWon) {
+        scene3d.selectRawDepth('vehicleNear');
+        console.attributes = YELLOW | BG_BLACK;
+        var trophy = [
+            "    ___________",
+            "   '._==_==_=_.'",
+            "   .-\\:      /-.",
+            "  | (|:.     |) |",
+            "   '-|:.     |-'",
+            "     \\::.    /",
+            "      '::. .'",
+            "        ) (",
+            "      _.' '._",
+            "     '-------'"
+        ];
+        var trophyTop = 3;
+        for (var t = 0; t < trophy.length; t++) {
+            viewportGotoxy(Math.floor((screenWidth - trophy[t].length) / 2), trophyTop + t);
+            console.print(trophy[t]);
         }
-        var running = true;
-        var confirmed = false;
-        while (running) {
-            var currentCar = cars[selectedCarIndex];
-            var availableColors = [];
-            for (var c = 0; c < currentCar.availableColors.length; c++) {
-                var col = getCarColor(currentCar.availableColors[c]);
-                if (col)
-                    availableColors.push(col);
-            }
-            if (selectedColorIndex >= availableColors.length) {
-                selectedColorIndex = 0;
-            }
-            var currentColor = availableColors[selectedColorIndex];
-            this.render(composer, cars, selectedCarIndex, currentColor, selectedColorIndex, availableColors.length);
-            var key = console.inkey(K_UPPER, 100);
-            if (key === '')
-                continue;
-            switch (key) {
-                case 'W':
-                case KEY_UP:
-                    selectedCarIndex--;
-                    if (selectedCarIndex < 0)
-                        selectedCarIndex = cars.length - 1;
-                    var attempts = 0;
-                    while (!cars[selectedCarIndex].unlocked && attempts < cars.length) {
-                        selectedCarIndex--;
-                        if (selectedCarIndex < 0)
-                            selectedCarIndex = cars.length - 1;
-                        attempts++;
-                    }
-                    selectedColorIndex = 0;
-                    break;
-                case 'S':
-                case KEY_DOWN:
-                    selectedCarIndex++;
-                    if (selectedCarIndex >= cars.length)
-                        selectedCarIndex = 0;
-                    var attempts = 0;
-                    while (!cars[selectedCarIndex].unlocked && attempts < cars.length) {
-                        selectedCarIndex++;
-                        if (selectedCarIndex >= cars.length)
-                            selectedCarIndex = 0;
-                        attempts++;
-                    }
-                    selectedColorIndex = 0;
-                    break;
-                case 'A':
-                case KEY_LEFT:
-                    selectedColorIndex--;
-                    if (selectedColorIndex < 0)
-                        selectedColorIndex = availableColors.length - 1;
-                    break;
-                case 'D':
-                case KEY_RIGHT:
-                    selectedColorIndex++;
-                    if (selectedColorIndex >= availableColors.length)
-                        selectedColorIndex = 0;
-                    break;
-                case '\r':
-                case '\n':
-                case ' ':
-                    if (currentCar.unlocked) {
-                        confirmed = true;
-                        running = false;
-                    }
-                    break;
-                case 'Q':
-                case '\x1b':
-                    running = false;
-                    break;
-            }
+        var winTitle = "=== CHAMPION! ===";
+        scene3d.selectRawDepth('title');
+        viewportGotoxy(Math.floor((screenWidth - winTitle.length) / 2), trophyTop + trophy.length + 2);
+        console.attributes = LIGHTGREEN | BG_BLACK;
+        console.print(winTitle);
+        var cupName = state.definition.name + " Winner!";
+        viewportGotoxy(Math.floor((screenWidth - cupName.length) / 2), trophyTop + trophy.length + 4);
+        console.attributes = WHITE | BG_BLACK;
+        console.print(cupName);
+    }
+    else {
+        scene3d.selectRawDepth('title');
+        var posStr = playerPos + PositionIndicator.getOrdinalSuffix(playerPos);
+        var resultTitle = "=== " + posStr + " PLACE ===";
+        viewportGotoxy(Math.floor((screenWidth - resultTitle.length) / 2), 5);
+        if (playerPos <= 3) {
+            console.attributes = YELLOW | BG_BLACK;
         }
-        if (confirmed) {
-            var car = cars[selectedCarIndex];
-            var colors = [];
-            for (var c = 0; c < car.availableColors.length; c++) {
-                var col = getCarColor(car.availableColors[c]);
-                if (col)
-                    colors.push(col);
-            }
-            return {
-                carId: car.id,
-                colorId: colors[selectedColorIndex].id,
-                confirmed: true
-            };
+        else {
+            console.attributes = LIGHTGRAY | BG_BLACK;
+        }
+        console.print(resultTitle);
+        var cupName2 = state.definition.name + " Complete";
+        viewportGotoxy(Math.floor((screenWidth - cupName2.length) / 2), 7);
+        console.attributes = WHITE | BG_BLACK;
+        console.print(cupName2);
+        if (playerPos <= 3) {
+            var podiumMsg = "You made the podium!";
+            viewportGotoxy(Math.floor((screenWidth - podiumMsg.length) / 2), 9);
+            console.attributes = LIGHTCYAN | BG_BLACK;
+            console.print(podiumMsg);
         }
         else {
-            return {
-                carId: 'sports',
-                colorId: 'yellow',
-                confirmed: false
-            };
+            var tryAgain = "Better luck next time!";
+            viewportGotoxy(Math.floor((screenWidth - tryAgain.length) / 2), 9);
+            console.attributes = LIGHTGRAY | BG_BLACK;
+            console.print(tryAgain);
         }
-    },
-    render: function (composer, cars, selectedIndex, currentColor, colorIndex, totalColors) {
-        composer.clear();
-        var width = 80;
-        var titleAttr = makeAttr(LIGHTCYAN, BG_BLACK);
-        var title = '=== SELECT YOUR VEHICLE ===';
-        composer.writeString(Math.floor((width - title.length) / 2), 1, title, titleAttr);
-        var instructAttr = makeAttr(DARKGRAY, BG_BLACK);
-        composer.writeString(5, 22, 'W/S: Car  A/D: Color  ENTER: Select  Q: Cancel', instructAttr);
-        var listX = 3;
-        var listY = 4;
-        var listAttr = makeAttr(LIGHTGRAY, BG_BLACK);
-        var selectedAttr = makeAttr(WHITE, BG_BLUE);
-        var lockedAttr = makeAttr(DARKGRAY, BG_BLACK);
-        for (var i = 0; i < cars.length; i++) {
-            var car = cars[i];
-            var y = listY + i * 2;
-            var attr = (i === selectedIndex) ? selectedAttr : (car.unlocked ? listAttr : lockedAttr);
-            var indicator = (i === selectedIndex) ? '>' : ' ';
-            composer.writeString(listX, y, indicator, attr);
-            var name = car.unlocked ? car.name : '??? LOCKED ???';
-            composer.writeString(listX + 2, y, name, attr);
-            if (!car.unlocked) {
-                composer.writeString(listX + 2, y + 1, car.unlockHint || 'Complete challenges', lockedAttr);
+    }
+    scene3d.selectRawDepth('content');
+    var statsTop = 16;
+    viewportGotoxy(Math.floor((screenWidth - 30) / 2), statsTop);
+    console.attributes = LIGHTGRAY | BG_BLACK;
+    console.print("Total Points: " + cupManager.getPlayerPoints());
+    viewportGotoxy(Math.floor((screenWidth - 30) / 2), statsTop + 1);
+    console.print("Circuit Time: " + formatCupTime(state.totalTime));
+    viewportGotoxy(Math.floor((screenWidth - 30) / 2), statsTop + 2);
+    console.print("Best Laps Sum: " + formatCupTime(state.totalBestLaps));
+    scene3d.selectRawDepth('prompt');
+    var prompt = "Press ENTER to continue";
+    viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 22);
+    console.attributes = LIGHTMAGENTA | BG_BLACK;
+    console.print(prompt);
+    waitForEnter();
+}
+function formatCupTime(seconds) {
+    var mins = Math.floor(seconds / 60);
+    var secs = seconds % 60;
+    var minsStr = mins.toString();
+    var secsStr = secs.toFixed(2);
+    if (secs < 10)
+        secsStr = '0' + secsStr;
+    return minsStr + ':' + secsStr;
+}
+"use strict";
+function showMultiplayerLobby(highScoreManager) {
+    var node = typeof bbs !== 'undefined' && bbs ? bbs.node_num : 0;
+    var channel = createRaceChannel(node);
+    if (!channel) {
+        showLobbyMessage("Multiplayer is unavailable on this BBS.");
+        return null;
+    }
+    var lobby = new Lobby(channel, node, getMultiplayerName());
+    while (true) {
+        var open = lobby.getOpenRace();
+        drawLobbyScreen(open);
+        var key = console.inkey(K_UPPER, 1000);
+        if (key === 'Q' || key === KEY_ESC)
+            return null;
+        var setup = null;
+        if (key === 'H') {
+            if (open) {
+                showLobbyMessage("A race is already open - join it instead.");
+                continue;
             }
+            setup = hostMultiplayerRace(lobby, channel, node, highScoreManager);
         }
-        var detailX = 40;
-        var detailY = 4;
-        var currentCar = cars[selectedIndex];
-        if (currentCar.unlocked) {
-            var nameAttr = makeAttr(YELLOW, BG_BLACK);
-            composer.writeString(detailX, detailY, currentCar.name, nameAttr);
-            var descAttr = makeAttr(LIGHTGRAY, BG_BLACK);
-            composer.writeString(detailX, detailY + 1, currentCar.description, descAttr);
-            var statsY = detailY + 3;
-            var statLabelAttr = makeAttr(CYAN, BG_BLACK);
-            var statBarAttr = makeAttr(LIGHTGREEN, BG_BLACK);
-            var statBarEmptyAttr = makeAttr(DARKGRAY, BG_BLACK);
-            composer.writeString(detailX, statsY, 'TOP SPEED:', statLabelAttr);
-            this.renderStatBar(composer, detailX + 11, statsY, currentCar.stats.topSpeed, statBarAttr, statBarEmptyAttr);
-            composer.writeString(detailX, statsY + 1, 'ACCEL:', statLabelAttr);
-            this.renderStatBar(composer, detailX + 11, statsY + 1, currentCar.stats.acceleration, statBarAttr, statBarEmptyAttr);
-            composer.writeString(detailX, statsY + 2, 'HANDLING:', statLabelAttr);
-            this.renderStatBar(composer, detailX + 11, statsY + 2, currentCar.stats.handling, statBarAttr, statBarEmptyAttr);
-            var colorY = statsY + 5;
-            var colorLabelAttr = makeAttr(LIGHTMAGENTA, BG_BLACK);
-            composer.writeString(detailX, colorY, 'COLOR: < ' + currentColor.name + ' >', colorLabelAttr);
-            composer.writeString(detailX, colorY + 1, '(' + (colorIndex + 1) + '/' + totalColors + ')', instructAttr);
-            var previewY = colorY + 3;
-            this.renderCarPreview(composer, detailX + 8, previewY, currentCar.bodyStyle, currentColor);
+        else if (key === 'J' && open) {
+            setup = joinMultiplayerRace(lobby, channel, node, open);
         }
-        else {
-            var lockedMsgAttr = makeAttr(RED, BG_BLACK);
-            composer.writeString(detailX, detailY, 'VEHICLE LOCKED', lockedMsgAttr);
-            composer.writeString(detailX, detailY + 2, currentCar.unlockHint || 'Complete challenges to unlock', lockedAttr);
+        if (setup)
+            return setup;
+    }
+}
+function hostMultiplayerRace(lobby, channel, node, highScoreManager) {
+    var trackSelection = showTrackSelector(highScoreManager);
+    if (!trackSelection.selected || !trackSelection.track || trackSelection.isCircuitMode) {
+        if (trackSelection.isCircuitMode)
+            showLobbyMessage("Multiplayer races are single tracks, not cups.");
+        return null;
+    }
+    var track = trackSelection.track;
+    var carSelection = CarSelector.show(new SceneComposer(80, 24));
+    if (!carSelection.confirmed)
+        return null;
+    var race = lobby.host(track.id, carSelection.carId, carSelection.colorId);
+    if (!race) {
+        showLobbyMessage("Another node just opened a race - join it instead.");
+        return null;
+    }
+    while (true) {
+        var refreshed = lobby.refreshHost(race);
+        if (!refreshed) {
+            showLobbyMessage("Another node opened a race first - join it instead.");
+            return null;
         }
-        this.outputToConsole(composer);
-    },
-    outputToConsole: function (composer) {
-        scene3d.selectRawDepth('glass');
-        console.clear(BG_BLACK, false);
-        var buffer = composer.getBuffer();
-        for (var y = 0; y < buffer.length; y++) {
-            var rowBand = y <= 2 ? 'title' : (y >= 21 ? 'prompt' : 'content');
-            scene3d.selectRawDepth(rowBand);
-            console.gotoxy(1, y + 1);
-            for (var x = 0; x < buffer[y].length; x++) {
-                if (y >= 15 && y <= 18 && x === 38)
-                    scene3d.selectRawDepth('vehicleNear');
-                var cell = buffer[y][x];
-                console.attributes = cell.attr;
-                console.print(cell.char);
-            }
+        race = refreshed;
+        drawWaitingRoom(race, node, race.players.length > 1
+            ? "ENTER = Start race    Q = Cancel"
+            : "Waiting for players...    Q = Cancel");
+        var key = console.inkey(K_UPPER, 1000);
+        if (key === 'Q' || key === KEY_ESC) {
+            lobby.close(race);
+            return null;
         }
-        scene3d.selectRawDepth('glass');
-    },
-    renderStatBar: function (composer, x, y, value, filledAttr, emptyAttr) {
-        var filled = Math.round(value * 5);
-        filled = Math.max(1, Math.min(10, filled));
-        for (var i = 0; i < 10; i++) {
-            var char = (i < filled) ? GLYPH.FULL_BLOCK : GLYPH.LIGHT_SHADE;
-            var attr = (i < filled) ? filledAttr : emptyAttr;
-            composer.setCell(x + i, y, char, attr);
+        if ((key === '\r' || key === '\n') && race.players.length > 1) {
+            race = lobby.start(race);
+            return { session: new MultiplayerSession(channel, race, node), track: track, carSelection: carSelection };
         }
-    },
-    renderCarPreview: function (composer, x, y, bodyStyle, color) {
-        var sprite = getPlayerCarSprite(bodyStyle, color.id, false);
-        var variant = sprite.variants[0];
-        for (var row = 0; row < variant.length; row++) {
-            for (var col = 0; col < variant[row].length; col++) {
-                var cell = variant[row][col];
-                if (cell) {
-                    composer.setCell(x + col, y + row, cell.char, cell.attr);
-                }
+    }
+}
+function joinMultiplayerRace(lobby, channel, node, open) {
+    var track = getTrackDefinition(open.trackId);
+    if (!track)
+        return null;
+    var carSelection = CarSelector.show(new SceneComposer(80, 24));
+    if (!carSelection.confirmed)
+        return null;
+    while (true) {
+        var race = lobby.refreshJoin(open.raceId, carSelection.carId, carSelection.colorId);
+        if (!race) {
+            lobby.leave(open.raceId);
+            showLobbyMessage("The host cancelled the race.");
+            return null;
+        }
+        if (race.state === 'started') {
+            if (findLobbyPlayer(race.players, node)) {
+                return { session: new MultiplayerSession(channel, race, node), track: track, carSelection: carSelection };
             }
+            lobby.leave(open.raceId);
+            showLobbyMessage("The race started without you.");
+            return null;
+        }
+        drawWaitingRoom(race, node, "Waiting for the host to start...    Q = Leave");
+        var key = console.inkey(K_UPPER, 1000);
+        if (key === 'Q' || key === KEY_ESC) {
+            lobby.leave(open.raceId);
+            return null;
         }
-        var labelAttr = makeAttr(DARKGRAY, BG_BLACK);
-        composer.writeString(x - 2, y + 3, '(preview)', labelAttr);
     }
-};
-"use strict";
-function showCupStandings(cupManager, isPreRace) {
-    var state = cupManager.getState();
-    if (!state)
-        return;
+}
+function renderMultiplayerStandings(standings, everyoneDone) {
     var screenWidth = 80;
     var screenHeight = 24;
     scene3d.selectRawDepth('glass');
     console.clear(BG_BLACK, false);
-    console.attributes = WHITE | BG_BLACK;
     scene3d.selectRawDepth('title');
-    var title = "=== " + state.definition.name.toUpperCase() + " ===";
-    console.gotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+    var title = everyoneDone ? "=== FINAL STANDINGS ===" : "=== WAITING FOR RACERS ===";
+    viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
     console.attributes = YELLOW | BG_BLACK;
     console.print(title);
+    var tableLeft = 18;
+    var tableTop = 5;
     scene3d.selectRawDepth('content');
-    var raceInfo;
-    if (isPreRace) {
-        if (cupManager.getCurrentRaceNumber() === 1) {
-            raceInfo = "Race " + cupManager.getCurrentRaceNumber() + " of " + cupManager.getTotalRaces();
+    viewportGotoxy(tableLeft, tableTop);
+    console.attributes = LIGHTGRAY | BG_BLACK;
+    console.print("POS  RACER                    TIME");
+    viewportGotoxy(tableLeft, tableTop + 1);
+    console.print("------------------------------------------");
+    for (var i = 0; i < standings.length; i++) {
+        var s = standings[i];
+        scene3d.selectRawDepth(s.isLocal ? 'vehicleNear' : 'content');
+        viewportGotoxy(tableLeft, tableTop + 2 + i);
+        console.attributes = (s.isLocal ? LIGHTCYAN : WHITE) | BG_BLACK;
+        var posStr = (i + 1) + PositionIndicator.getOrdinalSuffix(i + 1);
+        var name = (s.isLocal ? "YOU" : s.name).substring(0, 24);
+        var status;
+        if (s.finishTime >= 0) {
+            status = LapTimer.format(s.finishTime);
+        }
+        else if (!s.connected) {
+            status = "DNF";
         }
         else {
-            raceInfo = "Next: Race " + cupManager.getCurrentRaceNumber() + " of " + cupManager.getTotalRaces();
+            status = "Lap " + s.lap;
         }
+        console.print(padRight(posStr, 5) + padRight(name, 25) + status);
+    }
+    scene3d.selectRawDepth('prompt');
+    var prompt = everyoneDone ? "Press ENTER to continue" : "Press ENTER to skip";
+    viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), screenHeight - 3);
+    console.attributes = LIGHTMAGENTA | BG_BLACK;
+    console.print(prompt);
+    scene3d.selectRawDepth('glass');
+}
+function drawLobbyScreen(open) {
+    drawLobbyFrame("=== MULTIPLAYER ===");
+    scene3d.selectRawDepth('content');
+    viewportGotoxy(18, 6);
+    if (open) {
+        var track = getTrackDefinition(open.trackId);
+        console.attributes = WHITE | BG_BLACK;
+        console.print("Open race: " + (track ? track.name : open.trackId));
+        viewportGotoxy(18, 7);
+        console.attributes = LIGHTGRAY | BG_BLACK;
+        console.print("Host: " + open.players[0].name + "   Players: " + open.players.length + "/" + LOBBY_MAX_PLAYERS);
     }
     else {
-        if (state.isComplete) {
-            raceInfo = "FINAL STANDINGS";
+        console.attributes = LIGHTGRAY | BG_BLACK;
+        console.print("No race is open. Host one and other nodes can join.");
+    }
+    drawLobbyPrompt(open ? "J = Join race    Q = Back" : "H = Host race    Q = Back");
+}
+function drawWaitingRoom(race, node, prompt) {
+    var track = getTrackDefinition(race.trackId);
+    drawLobbyFrame("=== " + (track ? track.name : race.trackId).toUpperCase() + " ===");
+    scene3d.selectRawDepth('content');
+    for (var i = 0; i < race.players.length; i++) {
+        var p = race.players[i];
+        scene3d.selectRawDepth(p.node === node ? 'vehicleNear' : 'content');
+        viewportGotoxy(18, 6 + i);
+        console.attributes = (p.node === node ? LIGHTCYAN : WHITE) | BG_BLACK;
+        var car = getCarDefinition(p.carId);
+        console.print(padRight((i + 1) + ".", 4) + padRight(p.name.substring(0, 24), 26) + (car ? car.name : p.carId) +
+            (p.node === race.hostNode ? "  (host)" : ""));
+    }
+    drawLobbyPrompt(prompt);
+}
+function drawLobbyFrame(title) {
+    scene3d.selectRawDepth('glass');
+    console.clear(BG_BLACK, false);
+    scene3d.selectRawDepth('title');
+    viewportGotoxy(Math.floor((80 - title.length) / 2), 2);
+    console.attributes = YELLOW | BG_BLACK;
+    console.print(title);
+}
+function drawLobbyPrompt(prompt) {
+    scene3d.selectRawDepth('prompt');
+    viewportGotoxy(Math.floor((80 - prompt.length) / 2), 21);
+    console.attributes = LIGHTMAGENTA | BG_BLACK;
+    console.print(prompt);
+    scene3d.selectRawDepth('glass');
+}
+function showLobbyMessage(message) {
+    drawLobbyFrame("=== MULTIPLAYER ===");
+    scene3d.selectRawDepth('content');
+    viewportGotoxy(Math.floor((80 - message.length) / 2), 10);
+    console.attributes = LIGHTRED | BG_BLACK;
+    console.print(message);
+    drawLobbyPrompt("Press any key");
+    console.inkey(K_NONE, 5000);
+}
+function getMultiplayerName() {
+    try {
+        if (typeof user !== 'undefined' && user && user.alias) {
+            return user.alias;
         }
-        else {
-            raceInfo = "After Race " + (cupManager.getCurrentRaceNumber() - 1) + " of " + cupManager.getTotalRaces();
+    }
+    catch (e) {
+    }
+    return "Node " + (typeof bbs !== 'undefined' && bbs ? bbs.node_num : 0);
+}
+"use strict";
+var WATCH_LIST_ROWS = 12;
+function showWatchRaces() {
+    var node = typeof bbs !== 'undefined' && bbs ? bbs.node_num : 0;
+    var channel = getBroadcastChannel(node);
+    if (!channel) {
+        showWatchMessage("Watching races is unavailable on this BBS.");
+        return;
+    }
+    var selected = 0;
+    while (true) {
+        var races = readLiveBroadcasts(channel).filter(function (record) { return record.node !== node; });
+        if (selected >= races.length)
+            selected = Math.max(0, races.length - 1);
+        drawWatchRaces(races, selected);
+        var key = console.inkey(K_UPPER, 1000);
+        if (key === 'Q' || key === KEY_ESC)
+            return;
+        if (key === KEY_UP || key === 'W' || key === '8') {
+            if (races.length > 0)
+                selected = (selected + races.length - 1) % races.length;
+        }
+        else if (key === KEY_DOWN || key === 'S' || key === '2') {
+            if (races.length > 0)
+                selected = (selected + 1) % races.length;
+        }
+        else if ((key === '\r' || key === '\n') && races.length > 0) {
+            var spectator = new Spectator(channel);
+            if (!spectator.watch(races[selected].node)) {
+                showWatchMessage("That race has ended.");
+            }
         }
     }
-    console.gotoxy(Math.floor((screenWidth - raceInfo.length) / 2), 4);
-    console.attributes = LIGHTCYAN | BG_BLACK;
-    console.print(raceInfo);
-    if (isPreRace) {
-        var trackId = cupManager.getCurrentTrackId();
-        if (trackId) {
-            var trackName = getTrackDisplayName(trackId);
-            console.gotoxy(Math.floor((screenWidth - trackName.length) / 2), 5);
-            console.attributes = WHITE | BG_BLACK;
-            console.print(trackName);
+}
+function drawWatchRaces(races, selected) {
+    var screenWidth = 80;
+    scene3d.selectRawDepth('glass');
+    console.clear(BG_BLACK, false);
+    scene3d.selectRawDepth('title');
+    var title = "=== WATCH LIVE RACES ===";
+    viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+    console.attributes = YELLOW | BG_BLACK;
+    console.print(title);
+    scene3d.selectRawDepth('content');
+    if (races.length === 0) {
+        var none = "Nobody is racing right now.";
+        viewportGotoxy(Math.floor((screenWidth - none.length) / 2), 10);
+        console.attributes = LIGHTGRAY | BG_BLACK;
+        console.print(none);
+    }
+    else {
+        viewportGotoxy(4, 5);
+        console.attributes = LIGHTGRAY | BG_BLACK;
+        console.print(padRight("NODE", 6) + padRight("PLAYER", 20) + padRight("TRACK", 24) + padRight("CLASS", 8) + "STATUS");
+        viewportGotoxy(4, 6);
+        console.print("------------------------------------------------------------------------");
+        var top = Math.max(0, Math.min(selected - WATCH_LIST_ROWS + 1, races.length - WATCH_LIST_ROWS));
+        var last = Math.min(races.length, top + WATCH_LIST_ROWS);
+        for (var i = top; i < last; i++) {
+            var race = races[i];
+            var isSelected = i === selected;
+            var track = getTrackDefinition(race.trackId);
+            scene3d.selectRawDepth(isSelected ? 'vehicleNear' : 'content');
+            viewportGotoxy(2, 7 + i - top);
+            console.attributes = (isSelected ? LIGHTCYAN : WHITE) | BG_BLACK;
+            console.print((isSelected ? "> " : "  ") +
+                padRight(String(race.node), 6) +
+                padRight(race.name.substring(0, 18), 20) +
+                padRight((track ? track.name : race.trackId).substring(0, 22), 24) +
+                padRight(getRaceClass(race.raceClassId).name, 8) +
+                getWatchRaceStatus(race));
         }
     }
-    var standings = cupManager.getStandings();
-    var tableTop = 7;
-    var tableWidth = 50;
-    var tableLeft = Math.floor((screenWidth - tableWidth) / 2);
-    console.gotoxy(tableLeft, tableTop);
-    console.attributes = LIGHTGRAY | BG_BLACK;
-    console.print("POS  RACER                    POINTS");
-    console.gotoxy(tableLeft, tableTop + 1);
-    console.print("------------------------------------");
-    for (var i = 0; i < standings.length; i++) {
-        var s = standings[i];
-        var row = tableTop + 2 + i;
-        scene3d.selectRawDepth(s.isPlayer ? 'vehicleNear' : 'content');
-        console.gotoxy(tableLeft, row);
-        var posStr = PositionIndicator.getOrdinalSuffix(i + 1);
-        posStr = (i + 1) + posStr;
-        while (posStr.length < 4)
-            posStr += ' ';
-        if (s.isPlayer) {
-            if (i === 0) {
-                console.attributes = LIGHTGREEN | BG_BLACK;
-            }
-            else if (i < 3) {
-                console.attributes = YELLOW | BG_BLACK;
-            }
-            else {
-                console.attributes = LIGHTCYAN | BG_BLACK;
-            }
+    scene3d.selectRawDepth('prompt');
+    var prompt = races.length > 0 ? "ENTER Watch   Up/Down Choose   Q Back" : "Q Back";
+    viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 21);
+    console.attributes = LIGHTMAGENTA | BG_BLACK;
+    console.print(prompt);
+    scene3d.selectRawDepth('glass');
+}
+function getWatchRaceStatus(race) {
+    if (race.finished)
+        return "Finished";
+    if (race.countdown > 0)
+        return "Starting";
+    if (race.paused)
+        return "Paused";
+    for (var i = 0; i < race.vehicles.length; i++) {
+        if (race.vehicles[i].player) {
+            return "Lap " + Math.min(race.vehicles[i].lap, race.laps) + "/" + race.laps;
         }
-        else {
-            if (i === 0) {
-                console.attributes = WHITE | BG_BLACK;
-            }
-            else {
-                console.attributes = LIGHTGRAY | BG_BLACK;
+    }
+    return "Racing";
+}
+function showWatchMessage(message) {
+    scene3d.selectRawDepth('glass');
+    console.clear(BG_BLACK, false);
+    scene3d.selectRawDepth('content');
+    viewportGotoxy(Math.floor((80 - message.length) / 2), 10);
+    console.attributes = LIGHTRED | BG_BLACK;
+    console.print(message);
+    scene3d.selectRawDepth('prompt');
+    viewportGotoxy(Math.floor((80 - 13) / 2), 21);
+    console.attributes = LIGHTMAGENTA | BG_BLACK;
+    console.print("Press any key");
+    scene3d.selectRawDepth('glass');
+    console.inkey(K_NONE, 5000);
+}
+"use strict";
+var REPLAY_LIST_ROWS = 12;
+function showReplayMenu(userNumber) {
+    var store = new ReplayStore();
+    var replays = store.list();
+    var selected = 0;
+    while (true) {
+        if (selected >= replays.length)
+            selected = Math.max(0, replays.length - 1);
+        drawReplayMenu(replays, selected, userNumber);
+        var key = console.inkey(K_UPPER, 1000);
+        if (key === 'Q' || key === KEY_ESC)
+            return;
+        if (key === KEY_UP || key === 'W' || key === '8') {
+            if (replays.length > 0)
+                selected = (selected + replays.length - 1) % replays.length;
+        }
+        else if (key === KEY_DOWN || key === 'S' || key === '2') {
+            if (replays.length > 0)
+                selected = (selected + 1) % replays.length;
+        }
+        else if ((key === '\r' || key === '\n') && replays.length > 0) {
+            if (!new ReplayViewer(replays[selected]).play()) {
+                showWatchMessage("That replay's track isn't installed.");
             }
         }
-        console.print(posStr + " ");
-        var name = s.isPlayer ? "YOU" : s.name;
-        while (name.length < 24)
-            name += ' ';
-        console.print(name);
-        var pointsStr = s.points.toString();
-        while (pointsStr.length < 4)
-            pointsStr = ' ' + pointsStr;
-        console.print(pointsStr);
-        if (s.raceResults.length > 0) {
-            console.attributes = DARKGRAY | BG_BLACK;
-            console.print("  [");
-            for (var r = 0; r < s.raceResults.length; r++) {
-                if (r > 0)
-                    console.print(",");
-                var racePos = s.raceResults[r];
-                if (racePos <= 3) {
-                    console.attributes = LIGHTGREEN | BG_BLACK;
-                }
-                else if (racePos <= 5) {
-                    console.attributes = YELLOW | BG_BLACK;
-                }
-                else {
-                    console.attributes = LIGHTGRAY | BG_BLACK;
-                }
-                console.print(racePos.toString());
+        else if (key === 'D' && replays.length > 0 && userNumber > 0 && replays[selected].userNumber === userNumber) {
+            if (store.remove(replays[selected])) {
+                replays.splice(selected, 1);
             }
-            console.attributes = DARKGRAY | BG_BLACK;
-            console.print("]");
         }
     }
-    scene3d.selectRawDepth('content');
-    var refRow = tableTop + 2 + standings.length + 2;
-    console.gotoxy(tableLeft, refRow);
-    console.attributes = DARKGRAY | BG_BLACK;
-    console.print("Points: 1st=15 2nd=12 3rd=10 4th=8 5th=6...");
+}
+function drawReplayMenu(replays, selected, userNumber) {
+    var screenWidth = 80;
+    scene3d.selectRawDepth('glass');
+    console.clear(BG_BLACK, false);
+    scene3d.selectRawDepth('title');
+    var title = "=== REPLAYS ===";
+    viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+    console.attributes = YELLOW | BG_BLACK;
+    console.print(title);
+    scene3d.selectRawDepth('content');
+    if (replays.length === 0) {
+        var none = "No replays yet. Finish a race to save one.";
+        viewportGotoxy(Math.floor((screenWidth - none.length) / 2), 10);
+        console.attributes = LIGHTGRAY | BG_BLACK;
+        console.print(none);
+    }
+    else {
+        viewportGotoxy(4, 5);
+        console.attributes = LIGHTGRAY | BG_BLACK;
+        console.print(padRight("PLAYER", 16) + padRight("TRACK", 20) + padRight("CLASS", 7) +
+            padRight("TIME", 10) + padRight("PLACE", 7) + "DATE");
+        viewportGotoxy(4, 6);
+        console.print("------------------------------------------------------------------------");
+        var top = Math.max(0, Math.min(selected - REPLAY_LIST_ROWS + 1, replays.length - REPLAY_LIST_ROWS));
+        var last = Math.min(replays.length, top + REPLAY_LIST_ROWS);
+        for (var i = top; i < last; i++) {
+            var replay = replays[i];
+            var isSelected = i === selected;
+            var track = getTrackDefinition(replay.trackId);
+            var date = new Date(replay.date);
+            var place = replay.raceMode === RaceMode.TIME_TRIAL ? "TT" :
+                replay.position + PositionIndicator.getOrdinalSuffix(replay.position);
+            scene3d.selectRawDepth(isSelected ? 'vehicleNear' : 'content');
+            viewportGotoxy(2, 7 + i - top);
+            console.attributes = (isSelected ? LIGHTCYAN : (replay.userNumber === userNumber ? LIGHTGREEN : WHITE)) | BG_BLACK;
+            console.print((isSelected ? "> " : "  ") +
+                padRight(replay.playerName.substring(0, 14), 16) +
+                padRight((track ? track.name : replay.trackId).substring(0, 18), 20) +
+                padRight(getRaceClass(replay.raceClassId).name, 7) +
+                padRight(formatCupTime(replay.time), 10) +
+                padRight(place, 7) +
+                (date.getMonth() + 1) + "/" + date.getDate());
+        }
+    }
     scene3d.selectRawDepth('prompt');
-    var prompt = isPreRace ? "Press ENTER to start race" : "Press ENTER to continue";
-    if (state.isComplete) {
-        prompt = "Press ENTER to see results";
-    }
-    console.gotoxy(Math.floor((screenWidth - prompt.length) / 2), screenHeight - 3);
+    var canDelete = replays.length > 0 && userNumber > 0 && replays[selected].userNumber === userNumber;
+    var prompt = replays.length > 0 ?
+        "ENTER Watch   Up/Down Choose   " + (canDelete ? "D Delete   " : "") + "Q Back" : "Q Back";
+    viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 21);
     console.attributes = LIGHTMAGENTA | BG_BLACK;
     console.print(prompt);
-    waitForEnter();
+    scene3d.selectRawDepth('glass');
 }
-function getTrackDisplayName(trackId) {
-    var parts = trackId.split('_');
-    var name = '';
-    for (var i = 0; i < parts.length; i++) {
-        if (i > 0)
-            name += ' ';
-        var part = parts[i];
-        name += part.charAt(0).toUpperCase() + part.slice(1);
+"use strict";
+var CONTROLS_CAPTURE_TIMEOUT_MS = 10000;
+var CONTROLS_MAX_KEYS_SHOWN = 6;
+function showControlsMenu(userNumber) {
+    var inputMap = getPlayerInputMap();
+    var selected = 0;
+    var message = "";
+    while (true) {
+        drawControlsMenu(inputMap, selected, message, false);
+        message = "";
+        var key = console.inkey(K_NONE, 1000);
+        if (key === '')
+            continue;
+        if (key === KEY_UP || key === '8') {
+            selected = (selected + REMAPPABLE_ACTIONS.length - 1) % REMAPPABLE_ACTIONS.length;
+        }
+        else if (key === KEY_DOWN || key === '2') {
+            selected = (selected + 1) % REMAPPABLE_ACTIONS.length;
+        }
+        else if (key === '\r' || key === '+') {
+            var action = REMAPPABLE_ACTIONS[selected];
+            drawControlsMenu(inputMap, selected, "Press the new key for " + getActionLabel(action) + "...", true);
+            var newKey = console.inkey(K_NONE, CONTROLS_CAPTURE_TIMEOUT_MS);
+            if (newKey === '') {
+                message = "No key pressed - unchanged.";
+                continue;
+            }
+            var previous = inputMap.getAction(newKey);
+            if (key === '+') {
+                inputMap.addKey(action, newKey);
+            }
+            else {
+                inputMap.setKey(action, newKey);
+            }
+            if (previous !== GameAction.NONE && previous !== action) {
+                message = getKeyLabel(newKey) + " moved from " + getActionLabel(previous) + ".";
+            }
+        }
+        else if (key.toUpperCase() === 'R') {
+            inputMap.resetToDefaults();
+            message = "Default controls restored.";
+        }
+        else if (key.toUpperCase() === 'Q' || key === KEY_ESC) {
+            var unbound = findUnboundAction(inputMap);
+            if (unbound !== GameAction.NONE) {
+                message = getActionLabel(unbound) + " needs a key before you leave.";
+                continue;
+            }
+            if (new KeyBindingStore().save(inputMap, userNumber)) {
+                logInfo('Saved key bindings for user ' + userNumber);
+            }
+            return;
+        }
     }
-    return name;
 }
-function waitForEnter() {
-    scene3d.selectRawDepth('glass');
-    while (true) {
-        var key = console.inkey(K_NONE, 100);
-        if (key === '\r' || key === '\n')
-            break;
-        if (key === 'q' || key === 'Q')
-            break;
+function findUnboundAction(inputMap) {
+    for (var i = 0; i < REMAPPABLE_ACTIONS.length; i++) {
+        if (inputMap.getKeysFor(REMAPPABLE_ACTIONS[i]).length === 0) {
+            return REMAPPABLE_ACTIONS[i];
+        }
     }
+    return GameAction.NONE;
 }
-function showWinnersCircle(cupManager) {
-    var state = cupManager.getState();
-    if (!state)
-        return;
+function drawControlsMenu(inputMap, selected, message, capturing) {
     var screenWidth = 80;
-    var playerWon = cupManager.didPlayerWin();
-    var playerPos = cupManager.getPlayerCupPosition();
     scene3d.selectRawDepth('glass');
     console.clear(BG_BLACK, false);
-    if (playerWon) {
-        scene3d.selectRawDepth('vehicleNear');
-        console.attributes = YELLOW | BG_BLACK;
-        var trophy = [
-            "    ___________",
-            "   '._==_==_=_.'",
-            "   .-\\:      /-.",
-            "  | (|:.     |) |",
-            "   '-|:.     |-'",
-            "     \\::.    /",
-            "      '::. .'",
-            "        ) (",
-            "      _.' '._",
-            "     '-------'"
-        ];
-        var trophyTop = 3;
-        for (var t = 0; t < trophy.length; t++) {
-            console.gotoxy(Math.floor((screenWidth - trophy[t].length) / 2), trophyTop + t);
-            console.print(trophy[t]);
-        }
-        var winTitle = "=== CHAMPION! ===";
-        scene3d.selectRawDepth('title');
-        console.gotoxy(Math.floor((screenWidth - winTitle.length) / 2), trophyTop + trophy.length + 2);
-        console.attributes = LIGHTGREEN | BG_BLACK;
-        console.print(winTitle);
-        var cupName = state.definition.name + " Winner!";
-        console.gotoxy(Math.floor((screenWidth - cupName.length) / 2), trophyTop + trophy.length + 4);
-        console.attributes = WHITE | BG_BLACK;
-        console.print(cupName);
+    scene3d.selectRawDepth('title');
+    var title = "=== CONTROLS ===";
+    viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+    console.attributes = YELLOW | BG_BLACK;
+    console.print(title);
+    var tableLeft = 14;
+    var tableTop = 5;
+    scene3d.selectRawDepth('content');
+    for (var i = 0; i < REMAPPABLE_ACTIONS.length; i++) {
+        var action = REMAPPABLE_ACTIONS[i];
+        var isSelected = i === selected;
+        scene3d.selectRawDepth(isSelected ? 'vehicleNear' : 'content');
+        viewportGotoxy(tableLeft, tableTop + i);
+        console.attributes = (isSelected ? (capturing ? LIGHTMAGENTA : LIGHTCYAN) : LIGHTGRAY) | BG_BLACK;
+        console.print((isSelected ? "> " : "  ") + padRight(getActionLabel(action), 22) +
+            describeActionKeys(inputMap, action, CONTROLS_MAX_KEYS_SHOWN));
     }
-    else {
-        scene3d.selectRawDepth('title');
-        var posStr = playerPos + PositionIndicator.getOrdinalSuffix(playerPos);
-        var resultTitle = "=== " + posStr + " PLACE ===";
-        console.gotoxy(Math.floor((screenWidth - resultTitle.length) / 2), 5);
-        if (playerPos <= 3) {
-            console.attributes = YELLOW | BG_BLACK;
+    if (message) {
+        scene3d.selectRawDepth('content');
+        viewportGotoxy(Math.floor((screenWidth - message.length) / 2), 18);
+        console.attributes = (capturing ? WHITE : LIGHTRED) | BG_BLACK;
+        console.print(message);
+    }
+    scene3d.selectRawDepth('prompt');
+    var prompt = "ENTER Set key   + Add key   R Defaults   Q Save & back";
+    viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 21);
+    console.attributes = LIGHTMAGENTA | BG_BLACK;
+    console.print(prompt);
+    scene3d.selectRawDepth('glass');
+}
+"use strict";
+var PAUSE_MAIN_ITEMS = ['Resume', 'Restart Race', 'Settings', 'Quit to Menu'];
+var PAUSE_SETTINGS_ITEMS = ['Bell', 'HUD', 'Controls...', 'Back'];
+var PAUSE_CONFIRM_ITEMS = ['No, keep racing', 'Yes, quit'];
+var PAUSE_TITLE_ART = [
+    ' ####   ###  #   # ### #### ####  ',
+    ' #   # #   # #   # #   #    #   # ',
+    ' ####  ##### #   # ### #### #   # ',
+    ' #     #   # #   #   # #    #   # ',
+    ' #     #   #  ###  ### #### ####  '
+];
+var PauseMenu = (function () {
+    function PauseMenu() {
+        this.view = 'main';
+        this.selected = 0;
+        this.open = false;
+        this.quitOnly = false;
+    }
+    PauseMenu.prototype.show = function () {
+        this.open = true;
+        this.quitOnly = false;
+        this.setView('main');
+    };
+    PauseMenu.prototype.showQuitConfirm = function () {
+        this.open = true;
+        this.quitOnly = true;
+        this.setView('confirm_quit');
+    };
+    PauseMenu.prototype.hide = function () {
+        this.open = false;
+    };
+    PauseMenu.prototype.isOpen = function () {
+        return this.open;
+    };
+    PauseMenu.prototype.handleKey = function (key) {
+        var items = this.getItems();
+        var upper = key.toUpperCase();
+        if (key === KEY_UP || key === '8') {
+            this.selected = (this.selected + items.length - 1) % items.length;
+            return 'none';
+        }
+        if (key === KEY_DOWN || key === '2') {
+            this.selected = (this.selected + 1) % items.length;
+            return 'none';
+        }
+        if (key === KEY_ESC) {
+            return this.back();
+        }
+        if (this.view === 'confirm_quit') {
+            if (upper === 'Y')
+                return 'quit';
+            if (upper === 'N')
+                return this.back();
+            if (key === '\r')
+                return this.selected === 1 ? 'quit' : this.back();
+            return null;
         }
-        else {
-            console.attributes = LIGHTGRAY | BG_BLACK;
+        if (this.view === 'settings') {
+            if (key === '\r' || key === KEY_LEFT || key === KEY_RIGHT || key === '4' || key === '6') {
+                return this.selectSetting(key === KEY_LEFT || key === '4' ? -1 : 1);
+            }
+            return null;
         }
-        console.print(resultTitle);
-        var cupName2 = state.definition.name + " Complete";
-        console.gotoxy(Math.floor((screenWidth - cupName2.length) / 2), 7);
-        console.attributes = WHITE | BG_BLACK;
-        console.print(cupName2);
-        if (playerPos <= 3) {
-            var podiumMsg = "You made the podium!";
-            console.gotoxy(Math.floor((screenWidth - podiumMsg.length) / 2), 9);
-            console.attributes = LIGHTCYAN | BG_BLACK;
-            console.print(podiumMsg);
+        if (key !== '\r')
+            return null;
+        switch (this.selected) {
+            case 0:
+                return 'resume';
+            case 1:
+                return 'restart';
+            case 2:
+                this.setView('settings');
+                return 'none';
+            default:
+                this.setView('confirm_quit');
+                return 'none';
+        }
+    };
+    PauseMenu.prototype.draw = function (frame, inputMap) {
+        var boxTop = Math.floor((frame.height - 18) / 2);
+        var boxBottom = boxTop + 17;
+        var boxLeft = Math.floor((frame.width - 40) / 2);
+        var boxRight = boxLeft + 39;
+        var shadeAttr = makeAttr(DARKGRAY, BG_BLACK);
+        for (var by = boxTop; by <= boxBottom; by++) {
+            for (var bx = boxLeft; bx <= boxRight; bx++) {
+                var edge = by === boxTop || by === boxBottom || bx === boxLeft || bx === boxRight;
+                drawPauseMenuText(frame, bx, by, edge ? GLYPH.MEDIUM_SHADE : ' ', shadeAttr);
+            }
+        }
+        if (this.view === 'confirm_quit') {
+            drawPauseMenuCentered(frame, boxTop + 3, 'QUIT TO MENU?', makeAttr(YELLOW, BG_BLACK));
+            drawPauseMenuCentered(frame, boxTop + 5, 'This race will not count.', makeAttr(LIGHTGRAY, BG_BLACK));
+            this.drawItems(frame, PAUSE_CONFIRM_ITEMS, boxTop + 8);
+            drawPauseMenuCentered(frame, boxBottom - 2, 'Y Quit   N Keep racing', makeAttr(LIGHTMAGENTA, BG_BLACK));
+            return;
         }
-        else {
-            var tryAgain = "Better luck next time!";
-            console.gotoxy(Math.floor((screenWidth - tryAgain.length) / 2), 9);
-            console.attributes = LIGHTGRAY | BG_BLACK;
-            console.print(tryAgain);
+        var rainbowColors = [LIGHTRED, YELLOW, LIGHTGREEN, LIGHTCYAN, LIGHTBLUE, LIGHTMAGENTA];
+        var titleAttr = makeAttr(rainbowColors[Math.floor(system.timer * 8) % rainbowColors.length], BG_BLACK);
+        var titleX = Math.floor((frame.width - PAUSE_TITLE_ART[0].length) / 2);
+        for (var row = 0; row < PAUSE_TITLE_ART.length; row++) {
+            var line = PAUSE_TITLE_ART[row];
+            for (var col = 0; col < line.length; col++) {
+                if (line.charAt(col) !== ' ') {
+                    drawPauseMenuText(frame, titleX + col, boxTop + 1 + row, GLYPH.FULL_BLOCK, titleAttr);
+                }
+            }
+        }
+        var settings = getPlayerSettings();
+        var labels = this.view === 'settings'
+            ? [
+                'Bell: ' + (settings.bell ? 'ON' : 'OFF'),
+                'HUD: ' + (settings.hudLayout === 'full' ? 'FULL' : 'MINIMAL'),
+                PAUSE_SETTINGS_ITEMS[2],
+                PAUSE_SETTINGS_ITEMS[3]
+            ]
+            : PAUSE_MAIN_ITEMS;
+        this.drawItems(frame, labels, boxTop + 7);
+        var help = this.view === 'settings'
+            ? 'ENTER Change   ESC Back'
+            : 'ENTER Select   ' + describeActionKeys(inputMap, GameAction.PAUSE, 1) + ' Resume';
+        drawPauseMenuCentered(frame, boxBottom - 2, help, makeAttr(LIGHTMAGENTA, BG_BLACK));
+        var controls = describeActionKeys(inputMap, GameAction.ACCELERATE, 2) + ' Gas  ' +
+            describeActionKeys(inputMap, GameAction.BRAKE, 2) + ' Brake  ' +
+            describeActionKeys(inputMap, GameAction.STEER_LEFT, 2) + '/' +
+            describeActionKeys(inputMap, GameAction.STEER_RIGHT, 2) + ' Steer  ' +
+            describeActionKeys(inputMap, GameAction.USE_ITEM, 1) + ' Item';
+        drawPauseMenuCentered(frame, boxBottom + 2, controls, makeAttr(LIGHTGRAY, BG_BLACK));
+    };
+    PauseMenu.prototype.drawItems = function (frame, labels, top) {
+        for (var i = 0; i < labels.length; i++) {
+            var isSelected = i === this.selected;
+            var text = (isSelected ? '> ' : '  ') + labels[i] + (isSelected ? ' <' : '  ');
+            drawPauseMenuCentered(frame, top + i, text, makeAttr(isSelected ? LIGHTCYAN : LIGHTGRAY, BG_BLACK));
+        }
+    };
+    PauseMenu.prototype.getItems = function () {
+        if (this.view === 'settings')
+            return PAUSE_SETTINGS_ITEMS;
+        if (this.view === 'confirm_quit')
+            return PAUSE_CONFIRM_ITEMS;
+        return PAUSE_MAIN_ITEMS;
+    };
+    PauseMenu.prototype.setView = function (view) {
+        this.view = view;
+        this.selected = 0;
+    };
+    PauseMenu.prototype.back = function () {
+        if (this.view === 'main' || (this.view === 'confirm_quit' && this.quitOnly)) {
+            return 'resume';
+        }
+        var from = this.view;
+        this.setView('main');
+        this.selected = from === 'settings' ? 2 : 3;
+        return 'none';
+    };
+    PauseMenu.prototype.selectSetting = function (step) {
+        var settings = getPlayerSettings();
+        switch (this.selected) {
+            case 0:
+                settings.bell = !settings.bell;
+                return 'settings';
+            case 1:
+                var index = HUD_LAYOUTS.indexOf(settings.hudLayout);
+                settings.hudLayout = HUD_LAYOUTS[(index + step + HUD_LAYOUTS.length) % HUD_LAYOUTS.length];
+                return 'settings';
+            case 2:
+                return step > 0 ? 'controls' : 'none';
+            default:
+                return this.back();
+        }
+    };
+    return PauseMenu;
+}());
+function drawPauseMenuText(frame, x, y, text, attr) {
+    for (var i = 0; i < text.length; i++) {
+        if (x + i >= 0 && x + i < frame.width && y >= 0 && y < frame.height) {
+            frame.setData(x + i + 1, y + 1, text.charAt(i), attr);
         }
     }
-    scene3d.selectRawDepth('content');
-    var statsTop = 16;
-    console.gotoxy(Math.floor((screenWidth - 30) / 2), statsTop);
-    console.attributes = LIGHTGRAY | BG_BLACK;
-    console.print("Total Points: " + cupManager.getPlayerPoints());
-    console.gotoxy(Math.floor((screenWidth - 30) / 2), statsTop + 1);
-    console.print("Circuit Time: " + formatCupTime(state.totalTime));
-    console.gotoxy(Math.floor((screenWidth - 30) / 2), statsTop + 2);
-    console.print("Best Laps Sum: " + formatCupTime(state.totalBestLaps));
+}
+function drawPauseMenuCentered(frame, y, text, attr) {
+    text = text.substring(0, frame.width - 2);
+    drawPauseMenuText(frame, Math.floor((frame.width - text.length) / 2), y, text, attr);
+}
+"use strict";
+var CAREER_LIST_ROWS = 6;
+function showCareerScreen(profile) {
+    var stats = profile.getStats();
+    var screenWidth = 80;
+    scene3d.selectRawDepth('glass');
+    console.clear(BG_BLACK, false);
+    scene3d.selectRawDepth('title');
+    var title = "=== CAREER: " + getMultiplayerName().toUpperCase() + " ===";
+    viewportGotoxy(Math.floor((screenWidth - title.length) / 2), 2);
+    console.attributes = YELLOW | BG_BLACK;
+    console.print(title);
+    var favoriteCarId = profile.getFavoriteCar();
+    var favoriteCar = favoriteCarId ? getCarDefinition(favoriteCarId) : null;
+    var favoriteTrackId = profile.getFavoriteTrack();
+    var favoriteTrack = favoriteTrackId ? getTrackDefinition(favoriteTrackId) : null;
+    var winRate = stats.racesFinished > 0 ? Math.round(stats.wins / stats.racesFinished * 100) + "%" : "-";
+    var rows = [
+        ["Races started", String(stats.racesStarted)],
+        ["Races finished", String(stats.racesFinished)],
+        ["Wins", String(stats.wins)],
+        ["Podiums", String(stats.podiums)],
+        ["Win rate", winRate],
+        ["Distance", (stats.totalDistance / CAREER_UNITS_PER_MILE).toFixed(1) + " mi"],
+        ["Favorite car", favoriteCar ? favoriteCar.name : (favoriteCarId || "-")],
+        ["Favorite track", favoriteTrack ? favoriteTrack.name : (favoriteTrackId || "-")]
+    ];
+    for (var i = 0; i < rows.length; i++) {
+        drawCareerRow(4, 5 + i, rows[i][0], rows[i][1].substring(0, 20));
+    }
+    drawCareerHeading(44, 5, "CUP TROPHIES     GOLD SILV BRNZ");
+    var cupIds = Object.keys(stats.cupTrophies);
+    if (cupIds.length === 0) {
+        drawCareerRow(44, 6, "None yet", "");
+    }
+    for (var c = 0; c < cupIds.length && c < CAREER_LIST_ROWS; c++) {
+        var trophies = stats.cupTrophies[cupIds[c]];
+        scene3d.selectRawDepth('content');
+        viewportGotoxy(44, 6 + c);
+        console.attributes = WHITE | BG_BLACK;
+        console.print(padRight(getCareerCupName(cupIds[c]).substring(0, 16), 17) +
+            padRight(String(trophies.gold), 5) + padRight(String(trophies.silver), 5) + trophies.bronze);
+    }
+    var itemTop = 7 + CAREER_LIST_ROWS;
+    drawCareerHeading(44, itemTop, "ITEMS USED");
+    var items = Object.keys(stats.itemUses).sort(function (a, b) {
+        return stats.itemUses[b] - stats.itemUses[a];
+    });
+    if (items.length === 0) {
+        drawCareerRow(44, itemTop + 1, "None yet", "");
+    }
+    for (var n = 0; n < items.length && n < CAREER_LIST_ROWS; n++) {
+        drawCareerRow(44, itemTop + 1 + n, formatCareerItemName(items[n]), String(stats.itemUses[items[n]]));
+    }
     scene3d.selectRawDepth('prompt');
-    var prompt = "Press ENTER to continue";
-    console.gotoxy(Math.floor((screenWidth - prompt.length) / 2), 22);
+    var prompt = "Press any key to return";
+    viewportGotoxy(Math.floor((screenWidth - prompt.length) / 2), 21);
     console.attributes = LIGHTMAGENTA | BG_BLACK;
     console.print(prompt);
-    waitForEnter();
+    scene3d.selectRawDepth('glass');
+    console.inkey(K_NONE, 60000);
 }
-function formatCupTime(seconds) {
-    var mins = Math.floor(seconds / 60);
-    var secs = seconds % 60;
-    var minsStr = mins.toString();
-    var secsStr = secs.toFixed(2);
-    if (secs < 10)
-        secsStr = '0' + secsStr;
-    return minsStr + ':' + secsStr;
+function drawCareerHeading(x, y, text) {
+    scene3d.selectRawDepth('title');
+    viewportGotoxy(x, y);
+    console.attributes = LIGHTCYAN | BG_BLACK;
+    console.print(text);
+}
+function drawCareerRow(x, y, label, value) {
+    scene3d.selectRawDepth('content');
+    viewportGotoxy(x, y);
+    console.attributes = LIGHTGRAY | BG_BLACK;
+    console.print(padRight(label, 17));
+    console.attributes = WHITE | BG_BLACK;
+    console.print(value);
+}
+function getCareerCupName(cupId) {
+    if (cupId === CUSTOM_CUP_CAREER_ID)
+        return 'CUSTOM CUPS';
+    var cup = getCupDefinition(cupId);
+    return cup ? cup.name : cupId;
+}
+function formatCareerItemName(item) {
+    var words = item.toLowerCase().split('_');
+    for (var i = 0; i < words.length; i++) {
+        words[i] = words[i].charAt(0).toUpperCase() + words[i].substring(1);
+    }
+    return words.join(' ');
+}
+"use strict";
+var UNLOCK_TOAST_MS = 4000;
+function showUnlockToasts(rules) {
+    for (var i = 0; i < rules.length; i++) {
+        drawUnlockToast(rules[i]);
+        console.inkey(K_NONE, UNLOCK_TOAST_MS);
+    }
+}
+function drawUnlockToast(rule) {
+    var heading = rule.colorId ? "NEW COLOR UNLOCKED!" : "NEW CAR UNLOCKED!";
+    var lines = [heading, describeUnlock(rule), rule.hint];
+    var boxWidth = 0;
+    for (var i = 0; i < lines.length; i++) {
+        boxWidth = Math.max(boxWidth, lines[i].length);
+    }
+    boxWidth += 6;
+    var left = Math.floor((80 - boxWidth) / 2) + 1;
+    var top = 9;
+    var border = makeAttr(YELLOW, BG_BLUE);
+    scene3d.selectRawDepth('prompt');
+    viewportGotoxy(left, top);
+    console.attributes = border;
+    console.print(GLYPH.DBOX_TL + repeatChar(GLYPH.DBOX_H, boxWidth - 2) + GLYPH.DBOX_TR);
+    for (var row = 0; row < lines.length; row++) {
+        var text = lines[row];
+        var padLeft = Math.floor((boxWidth - 2 - text.length) / 2);
+        viewportGotoxy(left, top + 1 + row);
+        console.attributes = border;
+        console.print(GLYPH.DBOX_V);
+        console.attributes = row === 0 ? makeAttr(YELLOW, BG_BLUE) : (row === 1 ? makeAttr(WHITE, BG_BLUE) : makeAttr(LIGHTCYAN, BG_BLUE));
+        console.print(repeatChar(' ', padLeft) + text + repeatChar(' ', boxWidth - 2 - padLeft - text.length));
+        console.attributes = border;
+        console.print(GLYPH.DBOX_V);
+    }
+    viewportGotoxy(left, top + 1 + lines.length);
+    console.print(GLYPH.DBOX_BL + repeatChar(GLYPH.DBOX_H, boxWidth - 2) + GLYPH.DBOX_BR);
+    console.attributes = LIGHTGRAY;
+    scene3d.selectRawDepth('glass');
 }
 "use strict";
 if (typeof console === 'undefined' || console === null) {
+    if (typeof argv !== 'undefined' && argv.length > 0 && argv[0] === '--headless') {
+        exit(runHeadlessFromArgv(argv.slice(1)));
+    }
     print("ERROR: OutRun ANSI must be run from a Synchronet BBS terminal session.");
     print("This game cannot run directly with jsexec.");
     print("");
@@ -18417,7 +24069,7 @@ if (typeof console === 'undefined' || console === null) {
     exit(1);
 }
 scene3d.initialize();
-function showTitleScreen() {
+function showTitleScreen(savedCup) {
     scene3d.selectRawDepth('glass');
     console.clear(BG_BLACK, false);
     var titleFile = "";
@@ -18481,19 +24133,39 @@ function showTitleScreen() {
         console.attributes = DARKGRAY;
         console.print("      /        |        \\   /        |        \\\r\n");
         console.print("\r\n");
+        var inputMap = getPlayerInputMap();
         scene3d.selectRawDepth('content');
         console.attributes = WHITE;
         console.print("                    Controls:\r\n");
         console.attributes = LIGHTGRAY;
-        console.print("        W/Up = Accelerate   A/Left = Steer Left\r\n");
-        console.print("        S/Dn = Brake        D/Right = Steer Right\r\n");
-        console.print("        SPACE = Use Item    P = Pause\r\n");
+        console.print("        " + padRight(describeActionKeys(inputMap, GameAction.ACCELERATE, 2) + " = Accelerate", 28) +
+            describeActionKeys(inputMap, GameAction.STEER_LEFT, 2) + " = Steer Left\r\n");
+        console.print("        " + padRight(describeActionKeys(inputMap, GameAction.BRAKE, 2) + " = Brake", 28) +
+            describeActionKeys(inputMap, GameAction.STEER_RIGHT, 2) + " = Steer Right\r\n");
+        console.print("        " + padRight(describeActionKeys(inputMap, GameAction.USE_ITEM, 2) + " = Use Item", 28) +
+            describeActionKeys(inputMap, GameAction.PAUSE, 1) + " = Pause\r\n");
         console.print("\r\n");
         scene3d.selectRawDepth('prompt');
         console.attributes = YELLOW;
         console.print("              Press any key to start racing...\r\n");
-        console.print("                     Q to quit\r\n");
-        console.print("\r\n");
+        var options = [];
+        if (OUTRUN_CONFIG.multiplayer.enabled) {
+            options.push("M = Multiplayer", "W = Watch");
+        }
+        if (OUTRUN_CONFIG.replays.enabled) {
+            options.push("P = Replays");
+        }
+        options.push("C = Career", "K = Controls", "Q to quit");
+        var optionLine = options.join("  ");
+        console.print(padRight("", Math.floor((80 - optionLine.length) / 2)) + optionLine + "\r\n");
+        if (savedCup) {
+            console.attributes = LIGHTCYAN;
+            console.print("    R = Continue Cup: " + savedCup.definition.name + " " + getRaceClass(savedCup.raceClassId).name +
+                " (race " + (savedCup.currentRaceIndex + 1) + " of " + savedCup.definition.trackIds.length + ")\r\n");
+        }
+        else {
+            console.print("\r\n");
+        }
         console.attributes = DARKGRAY;
         console.print("     Version 0.1.0 (Iteration 0) - Bootstrap Build\r\n");
         console.attributes = LIGHTGRAY;
@@ -18542,16 +24214,48 @@ function showExitScreen() {
     scene3d.selectRawDepth('glass');
     console.pause();
 }
-function waitForTitleInput() {
+function waitForTitleInput(canContinueCup) {
     while (true) {
         var key = console.inkey(K_UPPER, 1000);
         if (key !== '') {
             if (key === 'Q') {
-                return false;
+                return 'quit';
             }
-            return true;
+            if (key === 'M' && OUTRUN_CONFIG.multiplayer.enabled) {
+                return 'multiplayer';
+            }
+            if (key === 'W' && OUTRUN_CONFIG.multiplayer.enabled) {
+                return 'watch';
+            }
+            if (key === 'P' && OUTRUN_CONFIG.replays.enabled) {
+                return 'replays';
+            }
+            if (key === 'C') {
+                return 'career';
+            }
+            if (key === 'K') {
+                return 'controls';
+            }
+            if (key === 'R' && canContinueCup) {
+                return 'continue';
+            }
+            return 'race';
+        }
+    }
+}
+function getCurrentUserNumber() {
+    try {
+        if (typeof user !== 'undefined' && user && user.number) {
+            return user.number;
         }
     }
+    catch (e) {
+    }
+    return 0;
+}
+function startRaceBroadcast(game) {
+    var node = typeof bbs !== 'undefined' && bbs ? bbs.node_num : 0;
+    game.setBroadcaster(createRaceBroadcaster(node, getMultiplayerName()));
 }
 function showRaceEndScreen() {
     scene3d.selectRawDepth('glass');
@@ -18583,17 +24287,58 @@ function main() {
     debugLog.info("Entering main()");
     load('json-db.js');
     var highScoreManager = new HighScoreManager();
-    var cupManager = new CupManager();
+    var userNumber = getCurrentUserNumber();
+    loadPlayerKeyBindings(userNumber);
+    loadPlayerSettings(userNumber);
+    var cupManager = new CupManager(userNumber);
+    var profile = new PlayerProfile(userNumber);
+    var unlocks = new CarUnlocks(userNumber);
+    showUnlockToasts(unlocks.check(profile.getStats(), null));
     try {
         var keepPlaying = true;
         while (keepPlaying) {
             debugLog.info("Showing title screen");
-            showTitleScreen();
-            if (!waitForTitleInput()) {
+            var savedCup = cupManager.loadSavedCup();
+            showTitleScreen(savedCup);
+            var titleChoice = waitForTitleInput(savedCup !== null);
+            if (titleChoice === 'quit') {
                 debugLog.info("User quit from title screen");
                 keepPlaying = false;
                 break;
             }
+            if (titleChoice === 'continue' && savedCup) {
+                debugLog.info("Continuing saved cup: " + savedCup.definition.id);
+                continueSavedCup(savedCup, cupManager, highScoreManager, profile, unlocks);
+                continue;
+            }
+            if (titleChoice === 'career') {
+                debugLog.info("Showing career screen");
+                showCareerScreen(profile);
+                continue;
+            }
+            if (titleChoice === 'controls') {
+                debugLog.info("Showing controls menu");
+                showControlsMenu(userNumber);
+                continue;
+            }
+            if (titleChoice === 'multiplayer') {
+                debugLog.info("Showing multiplayer lobby");
+                var setup = showMultiplayerLobby(highScoreManager);
+                if (setup) {
+                    runMultiplayerRace(setup, highScoreManager, profile, unlocks);
+                }
+                continue;
+            }
+            if (titleChoice === 'watch') {
+                debugLog.info("Showing live races");
+                showWatchRaces();
+                continue;
+            }
+            if (titleChoice === 'replays') {
+                debugLog.info("Showing replays");
+                showReplayMenu(userNumber);
+                continue;
+            }
             debugLog.info("Showing track selector");
             var trackSelection = showTrackSelector(highScoreManager);
             if (!trackSelection.selected || !trackSelection.track) {
@@ -18601,6 +24346,10 @@ function main() {
                 continue;
             }
             debugLog.info("Selected track: " + trackSelection.track.name);
+            if (trackSelection.dailyChallenge) {
+                runDailyChallenge(trackSelection.track, trackSelection.dailyChallenge, highScoreManager, profile, unlocks);
+                continue;
+            }
             debugLog.info("Showing car selector");
             var carComposer = new SceneComposer(80, 24);
             var carSelection = CarSelector.show(carComposer);
@@ -18609,11 +24358,11 @@ function main() {
                 continue;
             }
             debugLog.info("Selected car: " + carSelection.carId + " color: " + carSelection.colorId);
-            if (trackSelection.isCircuitMode && trackSelection.circuitTracks) {
-                runCupMode(trackSelection.circuitTracks, cupManager, highScoreManager, trackSelection.circuitId || 'custom_cup', trackSelection.circuitName || 'Circuit Cup', carSelection);
+            if (trackSelection.isCircuitMode && trackSelection.cup) {
+                runCupMode(trackSelection.cup, cupManager, highScoreManager, profile, unlocks, carSelection, trackSelection.raceClass);
             }
             else {
-                runSingleRace(trackSelection.track, highScoreManager, carSelection);
+                runSingleRace(trackSelection.track, highScoreManager, profile, unlocks, carSelection, trackSelection.raceClass);
             }
             debugLog.info("Returning to splash screen");
         }
@@ -18635,37 +24384,83 @@ function main() {
         console.inkey(K_NONE);
     }
     finally {
+        closeBroadcastChannel();
         console.attributes = LIGHTGRAY;
         scene3d.dispose();
     }
 }
-function runSingleRace(track, highScoreManager, carSelection) {
+function runSingleRace(track, highScoreManager, profile, unlocks, carSelection, raceClass) {
     debugLog.separator("GAME INIT");
     var game = new Game(undefined, highScoreManager);
+    startRaceBroadcast(game);
+    game.setRaceClass(raceClass || getRaceClass(DEFAULT_RACE_CLASS_ID));
     game.initWithTrack(track, undefined, carSelection ? { carId: carSelection.carId, colorId: carSelection.colorId } : undefined);
     debugLog.separator("GAME LOOP");
     debugLog.info("Entering game loop");
     game.run();
     debugLog.separator("GAME END");
     debugLog.info("Game loop ended");
+    var newUnlocks = recordCareerRace(game, profile, unlocks);
+    game.shutdown();
+    showUnlockToasts(newUnlocks);
+    showRaceEndScreen();
+}
+function runDailyChallenge(track, challenge, highScoreManager, profile, unlocks) {
+    debugLog.separator("DAILY CHALLENGE " + challenge.dateKey);
+    var game = new Game(createGameConfig(DEFAULT_CONFIG.tickRate), highScoreManager);
+    startRaceBroadcast(game);
+    game.initDailyChallenge(track, challenge);
+    debugLog.separator("GAME LOOP");
+    game.run();
+    debugLog.separator("GAME END");
+    var newUnlocks = recordCareerRace(game, profile, unlocks);
+    game.shutdown();
+    showUnlockToasts(newUnlocks);
+    showRaceEndScreen();
+}
+function runMultiplayerRace(setup, highScoreManager, profile, unlocks) {
+    debugLog.separator("MULTIPLAYER INIT");
+    var game = new Game(undefined, highScoreManager);
+    startRaceBroadcast(game);
+    game.initMultiplayer(setup.track, { carId: setup.carSelection.carId, colorId: setup.carSelection.colorId }, setup.session);
+    debugLog.separator("GAME LOOP");
+    game.run();
+    debugLog.separator("GAME END");
+    var newUnlocks = recordCareerRace(game, profile, unlocks);
     game.shutdown();
+    showUnlockToasts(newUnlocks);
     showRaceEndScreen();
 }
-function runCupMode(tracks, cupManager, highScoreManager, circuitId, circuitName, carSelection) {
+function runCupMode(cupDef, cupManager, highScoreManager, profile, unlocks, carSelection, raceClass) {
+    var tracks = getCupTracks(cupDef);
     debugLog.separator("CUP MODE START");
-    debugLog.info("Starting cup with " + tracks.length + " tracks: " + circuitId);
-    var aiNames = ['MAX', 'LUNA', 'BLAZE', 'NOVA', 'TURBO', 'DASH', 'FLASH'];
-    var cupDef = {
-        id: circuitId,
-        name: circuitName,
-        trackIds: [],
-        description: circuitName + ' circuit'
-    };
-    for (var t = 0; t < tracks.length; t++) {
-        cupDef.trackIds.push(tracks[t].id);
-    }
-    cupManager.startCup(cupDef, aiNames);
-    showCupStandings(cupManager, true);
+    debugLog.info("Starting cup with " + tracks.length + " tracks: " + cupDef.id);
+    var rivalId = OUTRUN_CONFIG.cup.rival ?
+        RIVAL_ROSTER[globalRand.nextInt(0, RIVAL_ROSTER.length - 1)].id : undefined;
+    cupManager.startCup(cupDef, RIVAL_ROSTER, carSelection ? { carId: carSelection.carId, colorId: carSelection.colorId } : undefined, rivalId, raceClass ? raceClass.id : undefined);
+    runCupRaces(tracks, cupManager, highScoreManager, profile, unlocks);
+}
+function continueSavedCup(savedCup, cupManager, highScoreManager, profile, unlocks) {
+    debugLog.separator("CUP MODE RESUME");
+    var tracks = getCupTracks(savedCup.definition);
+    if (tracks.length < savedCup.definition.trackIds.length) {
+        logWarning("Saved cup " + savedCup.definition.id + " has unknown tracks, discarding it");
+        cupManager.clear();
+        return;
+    }
+    cupManager.resumeCup(savedCup);
+    runCupRaces(tracks, cupManager, highScoreManager, profile, unlocks);
+}
+function runCupRaces(tracks, cupManager, highScoreManager, profile, unlocks) {
+    var state = cupManager.getState();
+    if (!state)
+        return;
+    var cupDef = state.definition;
+    var car = state.car;
+    var raceClass = getRaceClass(state.raceClassId);
+    if (!cupManager.isCupComplete()) {
+        showCupStandings(cupManager, true);
+    }
     while (!cupManager.isCupComplete()) {
         var trackId = cupManager.getCurrentTrackId();
         if (!trackId)
@@ -18677,22 +24472,36 @@ function runCupMode(tracks, cupManager, highScoreManager, circuitId, circuitName
         }
         debugLog.info("Cup race " + cupManager.getCurrentRaceNumber() + ": " + track.name);
         var game = new Game(undefined, highScoreManager);
-        game.initWithTrack(track, undefined, carSelection ? { carId: carSelection.carId, colorId: carSelection.colorId } : undefined);
+        startRaceBroadcast(game);
+        game.setRival(state.rivalId || null);
+        game.setRaceClass(raceClass);
+        game.initWithTrack(track, undefined, car ? { carId: car.carId, colorId: car.colorId } : undefined);
         game.run();
         var raceResults = game.getFinalRaceResults();
+        var newUnlocks = recordCareerRace(game, profile, unlocks);
         game.shutdown();
-        if (raceResults) {
-            cupManager.recordRaceResult(track.id, track.name, raceResults.positions, raceResults.playerTime, raceResults.playerBestLap);
+        showUnlockToasts(newUnlocks);
+        if (!raceResults) {
+            debugLog.info("Cup race abandoned, cup saved at race " + cupManager.getCurrentRaceNumber());
+            debugLog.separator("CUP MODE END");
+            return;
         }
+        cupManager.recordRaceResult(track.id, track.name, raceResults.positions, raceResults.playerTime, raceResults.playerBestLap);
         if (!cupManager.isCupComplete()) {
             showCupStandings(cupManager, true);
         }
     }
     showCupStandings(cupManager, false);
     showWinnersCircle(cupManager);
+    if (cupManager.isCupComplete()) {
+        profile.recordCup(getCareerCupId(cupDef), cupManager.getPlayerCupPosition());
+        showUnlockToasts(unlocks.check(profile.getStats(), null));
+    }
     var cupState = cupManager.getState();
+    var cupScoreId = getRaceClassScoreId(cupDef.id, raceClass);
+    var cupScoreName = getRaceClassScoreName(getCupScoreName(cupDef), raceClass);
     if (cupState && highScoreManager) {
-        var position = highScoreManager.checkQualification(HighScoreType.CIRCUIT_TIME, cupDef.id, cupState.totalTime);
+        var position = highScoreManager.checkQualification(HighScoreType.CIRCUIT_TIME, cupScoreId, cupState.totalTime);
         if (position > 0) {
             var playerName = "Player";
             try {
@@ -18702,13 +24511,20 @@ function runCupMode(tracks, cupManager, highScoreManager, circuitId, circuitName
             }
             catch (e) {
             }
-            highScoreManager.submitScore(HighScoreType.CIRCUIT_TIME, cupDef.id, playerName, cupState.totalTime, undefined, cupDef.name);
-            showHighScoreList(HighScoreType.CIRCUIT_TIME, cupDef.id, "=== CIRCUIT HIGH SCORES ===", cupDef.name, highScoreManager, position);
+            highScoreManager.submitScore(HighScoreType.CIRCUIT_TIME, cupScoreId, playerName, cupState.totalTime, undefined, cupScoreName);
+            showHighScoreList(HighScoreType.CIRCUIT_TIME, cupScoreId, "=== CIRCUIT HIGH SCORES ===", cupScoreName, highScoreManager, position);
         }
     }
     cupManager.clear();
     debugLog.separator("CUP MODE END");
 }
+function recordCareerRace(game, profile, unlocks) {
+    var result = game.getCareerResult();
+    if (!result)
+        return [];
+    profile.recordRace(result);
+    return unlocks.check(profile.getStats(), result);
+}
 function getTrackDefinitionForCup(tracks, trackId) {
     for (var i = 0; i < tracks.length; i++) {
         if (tracks[i].id === trackId) {
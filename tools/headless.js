@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+/**
+ * Run a headless SynthKart race under Node.
+ *
+ * Loads the built synthkart.js into a sandbox that provides just enough of
+ * the Synchronet runtime for the game logic (no console, no frame.js), then
+ * hands the arguments to the game's --headless entry point.
+ *
+ *   node tools/headless.js track=neon_coast mode=gp seed=42 [ticks=N]
+ *                          [car=<id>] [script=<file>] [out=<file>]
+ *
+ * Set SYNTHKART_LOG=1 to echo the game's log() output to stderr.
+ */
+
+var fs = require('fs');
+var path = require('path');
+var vm = require('vm');
+
+var root = path.resolve(__dirname, '..');
+var bundle = path.join(root, 'synthkart.js');
+
+// Color and key constants normally provided by sbbsdefs.js / key_defs.js
+var SBBSDEFS = {
+  BLACK: 0, BLUE: 1, GREEN: 2, CYAN: 3, RED: 4, MAGENTA: 5, BROWN: 6, LIGHTGRAY: 7,
+  DARKGRAY: 8, LIGHTBLUE: 9, LIGHTGREEN: 10, LIGHTCYAN: 11, LIGHTRED: 12,
+  LIGHTMAGENTA: 13, YELLOW: 14, WHITE: 15, BLINK: 0x80, HIGH: 0x08,
+  BG_BLACK: 0x00, BG_BLUE: 0x10, BG_GREEN: 0x20, BG_CYAN: 0x30, BG_RED: 0x40,
+  BG_MAGENTA: 0x50, BG_BROWN: 0x60, BG_LIGHTGRAY: 0x70,
+  K_NONE: 0, K_UPPER: 1, LOG_INFO: 6
+};
+var KEY_DEFS = {
+  KEY_UP: '\x1e', KEY_DOWN: '\x0a', KEY_LEFT: '\x1d', KEY_RIGHT: '\x06',
+  KEY_HOME: '\x02', KEY_END: '\x05', KEY_ESC: '\x1b'
+};
+
+function FileStub(name) {
+  this.name = name;
+  this.fd = null;
+  this.lines = null;
+  this.exists = fs.existsSync(name);
+  this.eof = true;
+}
+FileStub.prototype.open = function(mode) {
+  try {
+    this.fd = fs.openSync(this.name, mode.charAt(0) === 'w' ? 'w' : 'r');
+    this.lines = null;
+    this.eof = mode.charAt(0) === 'w';
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+FileStub.prototype.read = function() {
+  this.eof = true;
+  return fs.readFileSync(this.fd, 'utf8');
+};
+FileStub.prototype.readAll = function() {
+  return this.read().split(/\r?\n/);
+};
+FileStub.prototype.readln = function() {
+  if (this.lines === null) this.lines = this.readAll();
+  var line = this.lines.length > 0 ? this.lines.shift() : null;
+  this.eof = this.lines.length === 0;
+  return line;
+};
+FileStub.prototype.write = function(data) {
+  fs.writeSync(this.fd, data);
+  return true;
+};
+FileStub.prototype.writeln = function(data) {
+  return this.write(data + '\n');
+};
+FileStub.prototype.close = function() {
+  if (this.fd !== null) fs.closeSync(this.fd);
+  this.fd = null;
+};
+
+function ExitSignal(code) {
+  this.code = code;
+}
+
+var sandbox = {
+  console: undefined,  // V8 gives every context one; the game must see no terminal
+  argv: ['--headless'].concat(process.argv.slice(2)),
+  js: { exec_dir: root + '/', startup_dir: root + '/', terminated: false, global: null },
+  system: { get timer() { return Date.now() / 1000; } },
+  File: FileStub,
+  print: function(text) { process.stdout.write(text + '\n'); },
+  log: function(level, text) {
+    if (process.env.SYNTHKART_LOG) process.stderr.write(text + '\n');
+  },
+  exit: function(code) { throw new ExitSignal(code || 0); },
+  load: function(name) {
+    if (name === 'sbbsdefs.js') Object.assign(sandbox, SBBSDEFS);
+  },
+  require: function(_name, symbol) {
+    if (symbol && KEY_DEFS[symbol] !== undefined) sandbox[symbol] = KEY_DEFS[symbol];
+  },
+  mswait: function() {},
+  mkdir: function(dir) { fs.mkdirSync(dir, { recursive: true }); return true; },
+  file_exists: function(name) { return fs.existsSync(name); },
+  directory: function(pattern) {
+    var dir = path.dirname(pattern);
+    var re = new RegExp('^' + path.basename(pattern).replace(/[.]/g, '\\.').replace(/\*/g, '.*') + '$');
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir).filter(function(f) { return re.test(f); }).map(function(f) {
+      return path.join(dir, f);
+    });
+  }
+};
+sandbox.js.global = sandbox;
+
+try {
+  vm.runInNewContext(fs.readFileSync(bundle, 'utf8'), sandbox, { filename: bundle });
+  process.exitCode = 1;  // --headless always exits; reaching here means it didn't run
+} catch (e) {
+  if (!(e instanceof ExitSignal)) throw e;
+  process.exitCode = e.code;
+}